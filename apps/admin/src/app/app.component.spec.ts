@@ -1,5 +1,7 @@
 import { TestBed } from "@angular/core/testing";
 import { provideRouter } from "@angular/router";
+import { provideHttpClient } from "@angular/common/http";
+import { provideHttpClientTesting } from "@angular/common/http/testing";
 import { describe, it, expect } from "vitest";
 import { AppComponent } from "./app.component";
 
@@ -7,7 +9,11 @@ describe("AppComponent", () => {
   it("renders the toolbar title", () => {
     TestBed.configureTestingModule({
       imports: [AppComponent],
-      providers: [provideRouter([])],
+      providers: [
+        provideRouter([]),
+        provideHttpClient(),
+        provideHttpClientTesting(),
+      ],
     });
 
     const fixture = TestBed.createComponent(AppComponent);
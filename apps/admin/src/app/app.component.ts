@@ -1,13 +1,20 @@
 import { Component, inject } from "@angular/core";
 import { toSignal } from "@angular/core/rxjs-interop";
-import { RouterOutlet, RouterLink, RouterLinkActive } from "@angular/router";
+import {
+  NavigationEnd,
+  Router,
+  RouterOutlet,
+  RouterLink,
+  RouterLinkActive,
+} from "@angular/router";
 import { MatToolbarModule } from "@angular/material/toolbar";
 import { MatSidenavModule } from "@angular/material/sidenav";
 import { MatListModule } from "@angular/material/list";
 import { MatIconModule } from "@angular/material/icon";
 import { MatButtonModule } from "@angular/material/button";
 import { BreakpointObserver, Breakpoints } from "@angular/cdk/layout";
-import { map } from "rxjs/operators";
+import { filter, map } from "rxjs/operators";
+import { UploadQueuePanelComponent } from "./features/photos/upload-queue-panel.component";
 
 @Component({
   selector: "app-root",
@@ -21,98 +28,150 @@ import { map } from "rxjs/operators";
     MatListModule,
     MatIconModule,
     MatButtonModule,
+    UploadQueuePanelComponent,
   ],
   template: `
-    <mat-toolbar color="primary" class="mat-elevation-z4 app-toolbar">
-      <button mat-icon-button (click)="sidenav.toggle()">
-        <mat-icon>menu</mat-icon>
-      </button>
-      <span class="brand-logo">LibraFoto Admin</span>
-      <span class="spacer"></span>
-      <button mat-icon-button>
-        <mat-icon>account_circle</mat-icon>
-      </button>
-    </mat-toolbar>
+    @if (isPublicRoute()) {
+      <router-outlet></router-outlet>
+    } @else {
+      <mat-toolbar color="primary" class="mat-elevation-z4 app-toolbar">
+        <button mat-icon-button (click)="sidenav.toggle()">
+          <mat-icon>menu</mat-icon>
+        </button>
+        <span class="brand-logo">LibraFoto Admin</span>
+        <span class="spacer"></span>
+        <button mat-icon-button>
+          <mat-icon>account_circle</mat-icon>
+        </button>
+      </mat-toolbar>
 
-    <mat-sidenav-container class="sidenav-container">
-      <mat-sidenav
-        #sidenav
-        class="sidenav"
-        [mode]="isHandset() ? 'over' : 'side'"
-        [opened]="!isHandset()"
-      >
-        <mat-nav-list>
-          <a
-            mat-list-item
-            routerLink="/dashboard"
-            routerLinkActive="active"
-            (click)="isHandset() && sidenav.close()"
-          >
-            <mat-icon matListItemIcon>dashboard</mat-icon>
-            <span matListItemTitle>Dashboard</span>
-          </a>
-          <a
-            mat-list-item
-            routerLink="/photos"
-            routerLinkActive="active"
-            (click)="isHandset() && sidenav.close()"
-          >
-            <mat-icon matListItemIcon>photo_library</mat-icon>
-            <span matListItemTitle>Photos</span>
-          </a>
-          <a
-            mat-list-item
-            routerLink="/albums"
-            routerLinkActive="active"
-            (click)="isHandset() && sidenav.close()"
-          >
-            <mat-icon matListItemIcon>collections</mat-icon>
-            <span matListItemTitle>Albums</span>
-          </a>
-          <a
-            mat-list-item
-            routerLink="/tags"
-            routerLinkActive="active"
-            (click)="isHandset() && sidenav.close()"
-          >
-            <mat-icon matListItemIcon>label</mat-icon>
-            <span matListItemTitle>Tags</span>
-          </a>
-          <mat-divider></mat-divider>
-          <a
-            mat-list-item
-            routerLink="/display"
-            routerLinkActive="active"
-            (click)="isHandset() && sidenav.close()"
-          >
-            <mat-icon matListItemIcon>tv</mat-icon>
-            <span matListItemTitle>Display Settings</span>
-          </a>
-          <a
-            mat-list-item
-            routerLink="/storage"
-            routerLinkActive="active"
-            (click)="isHandset() && sidenav.close()"
-          >
-            <mat-icon matListItemIcon>cloud</mat-icon>
-            <span matListItemTitle>Storage</span>
-          </a>
-          <a
-            mat-list-item
-            routerLink="/users"
-            routerLinkActive="active"
-            (click)="isHandset() && sidenav.close()"
-          >
-            <mat-icon matListItemIcon>people</mat-icon>
-            <span matListItemTitle>Users</span>
-          </a>
-        </mat-nav-list>
-      </mat-sidenav>
+      <mat-sidenav-container class="sidenav-container">
+        <mat-sidenav
+          #sidenav
+          class="sidenav"
+          [mode]="isHandset() ? 'over' : 'side'"
+          [opened]="!isHandset()"
+        >
+          <mat-nav-list>
+            <a
+              mat-list-item
+              routerLink="/dashboard"
+              routerLinkActive="active"
+              (click)="isHandset() && sidenav.close()"
+            >
+              <mat-icon matListItemIcon>dashboard</mat-icon>
+              <span matListItemTitle>Dashboard</span>
+            </a>
+            <a
+              mat-list-item
+              routerLink="/photos"
+              routerLinkActive="active"
+              (click)="isHandset() && sidenav.close()"
+            >
+              <mat-icon matListItemIcon>photo_library</mat-icon>
+              <span matListItemTitle>Photos</span>
+            </a>
+            <a
+              mat-list-item
+              routerLink="/map"
+              routerLinkActive="active"
+              (click)="isHandset() && sidenav.close()"
+            >
+              <mat-icon matListItemIcon>map</mat-icon>
+              <span matListItemTitle>Map</span>
+            </a>
+            <a
+              mat-list-item
+              routerLink="/duplicates"
+              routerLinkActive="active"
+              (click)="isHandset() && sidenav.close()"
+            >
+              <mat-icon matListItemIcon>content_copy</mat-icon>
+              <span matListItemTitle>Duplicates</span>
+            </a>
+            <a
+              mat-list-item
+              routerLink="/albums"
+              routerLinkActive="active"
+              (click)="isHandset() && sidenav.close()"
+            >
+              <mat-icon matListItemIcon>collections</mat-icon>
+              <span matListItemTitle>Albums</span>
+            </a>
+            <a
+              mat-list-item
+              routerLink="/tags"
+              routerLinkActive="active"
+              (click)="isHandset() && sidenav.close()"
+            >
+              <mat-icon matListItemIcon>label</mat-icon>
+              <span matListItemTitle>Tags</span>
+            </a>
+            <mat-divider></mat-divider>
+            <a
+              mat-list-item
+              routerLink="/display"
+              routerLinkActive="active"
+              (click)="isHandset() && sidenav.close()"
+            >
+              <mat-icon matListItemIcon>tv</mat-icon>
+              <span matListItemTitle>Display Settings</span>
+            </a>
+            <a
+              mat-list-item
+              routerLink="/remote"
+              routerLinkActive="active"
+              (click)="isHandset() && sidenav.close()"
+            >
+              <mat-icon matListItemIcon>settings_remote</mat-icon>
+              <span matListItemTitle>Remote</span>
+            </a>
+            <a
+              mat-list-item
+              routerLink="/devices"
+              routerLinkActive="active"
+              (click)="isHandset() && sidenav.close()"
+            >
+              <mat-icon matListItemIcon>devices</mat-icon>
+              <span matListItemTitle>Devices</span>
+            </a>
+            <a
+              mat-list-item
+              routerLink="/device-health"
+              routerLinkActive="active"
+              (click)="isHandset() && sidenav.close()"
+            >
+              <mat-icon matListItemIcon>monitor_heart</mat-icon>
+              <span matListItemTitle>Device Health</span>
+            </a>
+            <a
+              mat-list-item
+              routerLink="/storage"
+              routerLinkActive="active"
+              (click)="isHandset() && sidenav.close()"
+            >
+              <mat-icon matListItemIcon>cloud</mat-icon>
+              <span matListItemTitle>Storage</span>
+            </a>
+            <a
+              mat-list-item
+              routerLink="/users"
+              routerLinkActive="active"
+              (click)="isHandset() && sidenav.close()"
+            >
+              <mat-icon matListItemIcon>people</mat-icon>
+              <span matListItemTitle>Users</span>
+            </a>
+          </mat-nav-list>
+        </mat-sidenav>
 
-      <mat-sidenav-content class="content">
-        <router-outlet></router-outlet>
-      </mat-sidenav-content>
-    </mat-sidenav-container>
+        <mat-sidenav-content class="content">
+          <router-outlet></router-outlet>
+        </mat-sidenav-content>
+      </mat-sidenav-container>
+
+      <app-upload-queue-panel></app-upload-queue-panel>
+    }
   `,
   styles: [
     `
@@ -172,6 +231,7 @@ import { map } from "rxjs/operators";
 export class AppComponent {
   title = "LibraFoto Admin";
   private breakpointObserver = inject(BreakpointObserver);
+  private router = inject(Router);
 
   isHandset = toSignal(
     this.breakpointObserver
@@ -179,4 +239,15 @@ export class AppComponent {
       .pipe(map((result) => result.matches)),
     { initialValue: false },
   );
+
+  /**
+   * Public pages (e.g. guest uploads) render without the admin shell.
+   */
+  isPublicRoute = toSignal(
+    this.router.events.pipe(
+      filter((event): event is NavigationEnd => event instanceof NavigationEnd),
+      map((event) => event.urlAfterRedirects.startsWith("/guest/")),
+    ),
+    { initialValue: window.location.pathname.startsWith("/guest/") },
+  );
 }
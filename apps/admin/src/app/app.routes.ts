@@ -33,6 +33,14 @@ export const routes: Routes = [
       ),
     // No guard - OAuth callback needs to work for any user state
   },
+  {
+    path: "guest/:linkCode",
+    loadComponent: () =>
+      import("./features/guest/guest-upload.component").then(
+        (m) => m.GuestUploadComponent
+      ),
+    // No guard - guest links are public and validated by the page itself
+  },
   {
     path: "dashboard",
     loadComponent: () =>
@@ -49,6 +57,20 @@ export const routes: Routes = [
       ),
     canActivate: [authGuard],
   },
+  {
+    path: "map",
+    loadComponent: () =>
+      import("./features/map/map.component").then((m) => m.MapComponent),
+    canActivate: [authGuard],
+  },
+  {
+    path: "duplicates",
+    loadComponent: () =>
+      import("./features/duplicates/duplicates.component").then(
+        (m) => m.DuplicatesComponent
+      ),
+    canActivate: [editorGuard],
+  },
   {
     path: "albums",
     loadComponent: () =>
@@ -57,6 +79,14 @@ export const routes: Routes = [
       ),
     canActivate: [authGuard],
   },
+  {
+    path: "albums/:id",
+    loadComponent: () =>
+      import("./features/albums/album-detail.component").then(
+        (m) => m.AlbumDetailComponent
+      ),
+    canActivate: [authGuard],
+  },
   {
     path: "tags",
     loadComponent: () =>
@@ -79,6 +109,30 @@ export const routes: Routes = [
       ),
     canActivate: [editorGuard],
   },
+  {
+    path: "remote",
+    loadComponent: () =>
+      import("./features/remote/remote.component").then(
+        (m) => m.RemoteComponent
+      ),
+    canActivate: [editorGuard],
+  },
+  {
+    path: "devices",
+    loadComponent: () =>
+      import("./features/devices/devices.component").then(
+        (m) => m.DevicesComponent
+      ),
+    canActivate: [editorGuard],
+  },
+  {
+    path: "device-health",
+    loadComponent: () =>
+      import("./features/device-health/device-health.component").then(
+        (m) => m.DeviceHealthComponent
+      ),
+    canActivate: [editorGuard],
+  },
   {
     path: "users",
     loadComponent: () =>
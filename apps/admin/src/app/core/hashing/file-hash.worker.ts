@@ -0,0 +1,28 @@
+/// <reference lib="webworker" />
+
+import { hashBlob } from "./sha256";
+
+interface FileHashRequest {
+  id: number;
+  file: Blob;
+}
+
+interface FileHashResponse {
+  id: number;
+  hash?: string;
+  error?: string;
+}
+
+/**
+ * Hashes files off the main thread so large batches don't freeze the page.
+ */
+addEventListener("message", ({ data }: MessageEvent<FileHashRequest>) => {
+  hashBlob(data.file).then(
+    (hash) => postMessage({ id: data.id, hash } satisfies FileHashResponse),
+    (error: unknown) =>
+      postMessage({
+        id: data.id,
+        error: error instanceof Error ? error.message : "Hashing failed",
+      } satisfies FileHashResponse),
+  );
+});
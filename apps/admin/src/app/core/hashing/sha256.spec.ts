@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { HASH_CHUNK_SIZE, Sha256, hashBlob } from "./sha256";
+
+const encoder = new TextEncoder();
+
+function sha256(text: string): string {
+  return new Sha256().update(encoder.encode(text)).digest();
+}
+
+describe("Sha256", () => {
+  it("matches the standard test vectors", () => {
+    expect(sha256("")).toBe(
+      "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+    );
+    expect(sha256("abc")).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+    );
+    expect(
+      sha256("abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq"),
+    ).toBe("248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1");
+  });
+
+  it("gives the same hash when data arrives in pieces", () => {
+    const data = encoder.encode("a".repeat(1000));
+    const hash = new Sha256();
+    for (let offset = 0; offset < data.length; offset += 7) {
+      hash.update(data.subarray(offset, offset + 7));
+    }
+
+    expect(hash.digest()).toBe(sha256("a".repeat(1000)));
+  });
+
+  it("rejects updates after the digest", () => {
+    const hash = new Sha256();
+    hash.digest();
+
+    expect(() => hash.update(new Uint8Array(1))).toThrow();
+  });
+});
+
+describe("hashBlob", () => {
+  it("hashes a blob larger than one slice", async () => {
+    const text = "b".repeat(HASH_CHUNK_SIZE + 10);
+
+    expect(await hashBlob(new Blob([text]))).toBe(sha256(text));
+  });
+});
@@ -0,0 +1,63 @@
+import { DisplayDeviceHealthStatus } from "./enums.model";
+
+/**
+ * Picture frame registered with the server.
+ */
+export interface DisplayDeviceDto {
+  id: number;
+  /** Stable identifier generated by the display. */
+  deviceId: string;
+  name: string;
+  /** Assigned settings profile. Null follows the active profile. */
+  displaySettingsId: number | null;
+  displaySettingsName: string | null;
+  /** Photo the device last reported as showing. */
+  currentPhotoId: number | null;
+  dateRegistered: string;
+  lastSeenAt: string;
+}
+
+/**
+ * Request to rename a device or change its settings profile.
+ */
+export interface UpdateDisplayDeviceRequest {
+  name: string;
+  displaySettingsId: number | null;
+}
+
+/**
+ * Error logged by a display and sent with its heartbeat.
+ */
+export interface DisplayDeviceErrorDto {
+  occurredAt: string;
+  message: string;
+  /** Script location or event type the error came from. */
+  source: string | null;
+}
+
+/**
+ * Health of a device as reported by its heartbeats.
+ * Metrics are null until the device sends its first heartbeat.
+ */
+export interface DisplayDeviceHealthDto {
+  id: number;
+  deviceId: string;
+  name: string;
+  status: DisplayDeviceHealthStatus;
+  lastSeenAt: string;
+  lastHeartbeatAt: string | null;
+  currentPhotoId: number | null;
+  uptimeSeconds: number | null;
+  /** When the display last fetched photos or settings successfully. */
+  lastSuccessfulFetchAt: string | null;
+  /** Errors logged since the display was last loaded. */
+  errorCount: number;
+  cacheUsageBytes: number | null;
+  cacheQuotaBytes: number | null;
+  screenWidth: number | null;
+  screenHeight: number | null;
+  jsHeapUsedBytes: number | null;
+  jsHeapLimitBytes: number | null;
+  /** Most recent errors, newest first. */
+  recentErrors: DisplayDeviceErrorDto[];
+}
@@ -0,0 +1,45 @@
+import { MediaType, RemoteCommandType } from "./enums.model";
+
+/**
+ * Photo as served to the display frontend.
+ */
+export interface DisplayPhotoDto {
+  id: number;
+  url: string;
+  thumbnailUrl: string | null;
+  dateTaken: string | null;
+  location: string | null;
+  mediaType: MediaType;
+  duration: number | null;
+  width: number;
+  height: number;
+}
+
+/**
+ * Request to send a remote command to connected displays.
+ */
+export interface RemoteCommandRequest {
+  command: RemoteCommandType;
+  /** Required for RemoteCommandType.ShowPhoto. */
+  photoId?: number | null;
+}
+
+/**
+ * Result of sending a remote command.
+ */
+export interface RemoteCommandResponse {
+  /** Number of connected displays the command was sent to. */
+  displayCount: number;
+}
+
+/**
+ * Latest playback status reported by the display.
+ */
+export interface DisplayStatusDto {
+  currentPhoto: DisplayPhotoDto | null;
+  isPaused: boolean;
+  settingsId: number | null;
+  /** Whether a display is connected to the event stream. */
+  isConnected: boolean;
+  reportedAt: string | null;
+}
@@ -0,0 +1,31 @@
+import { QuietMode } from "./enums.model";
+
+/**
+ * Time-of-day rule that switches the display to a settings profile or
+ * starts quiet hours. Times are local to each display.
+ */
+export interface DisplayScheduleRuleDto {
+  id: number;
+  /** Bitmask of days the rule starts on; bit 0 is Sunday. */
+  daysOfWeek: number;
+  /** Start time ("HH:mm"). */
+  startTime: string;
+  /** End time ("HH:mm"); at or before the start wraps past midnight. */
+  endTime: string;
+  /** Profile to activate. Null for quiet hours rules. */
+  displaySettingsId: number | null;
+  /** Quiet hours mode. Null for profile rules. */
+  quietMode: QuietMode | null;
+}
+
+/**
+ * A schedule rule as sent to the server.
+ */
+export type DisplayScheduleRuleRequest = Omit<DisplayScheduleRuleDto, "id">;
+
+/**
+ * Request to replace the whole schedule. Rules are evaluated in order.
+ */
+export interface UpdateDisplayScheduleRequest {
+  rules: DisplayScheduleRuleRequest[];
+}
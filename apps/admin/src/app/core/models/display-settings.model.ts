@@ -1,4 +1,28 @@
-import { SourceType, TransitionType, ImageFit } from './enums.model';
+import {
+  SourceType,
+  TransitionType,
+  ImageFit,
+  CollageLayout,
+  OverlayPosition,
+  OverlaySize,
+  VideoPlayback,
+  VideoSegment,
+} from './enums.model';
+
+/**
+ * An album or tag in a playlist, or a tag whose photos the playlist leaves out.
+ * Exactly one of albumId and tagId is set.
+ */
+export interface PlaylistSourceDto {
+  albumId: number | null;
+  tagId: number | null;
+  isExcluded: boolean;
+  /** Relative share of slides drawn from this source (1-10). */
+  weight: number;
+  /** Inclusive range of dates taken, as ISO date strings. */
+  dateFrom: string | null;
+  dateTo: string | null;
+}
 
 /**
  * Display settings data transfer object for the frontend.
@@ -11,8 +35,27 @@ export interface DisplaySettingsDto {
   transitionDuration: number;
   sourceType: SourceType;
   sourceId: number | null;
+  playlistSources: PlaylistSourceDto[];
   shuffle: boolean;
   imageFit: ImageFit;
+  collageLayout: CollageLayout;
+  showClock: boolean;
+  clockPosition: OverlayPosition;
+  showDateTaken: boolean;
+  dateTakenPosition: OverlayPosition;
+  showLocation: boolean;
+  locationPosition: OverlayPosition;
+  overlaySize: OverlaySize;
+  /** Overlay opacity as a percentage (0-100). */
+  overlayOpacity: number;
+  videoPlayback: VideoPlayback;
+  /** Video volume as a percentage (0-100), used when playing with audio. */
+  videoVolume: number;
+  /** Longest time a video stays on screen (seconds); 0 plays it to the end. */
+  maxVideoDuration: number;
+  videoSegment: VideoSegment;
+  /** Times a clip shorter than the max duration plays in a row (1-10). */
+  videoLoopCount: number;
 }
 
 /**
@@ -25,6 +68,22 @@ export interface UpdateDisplaySettingsRequest {
   transitionDuration?: number | null;
   sourceType?: SourceType | null;
   sourceId?: number | null;
+  /** Replaces the playlist sources when set. */
+  playlistSources?: PlaylistSourceDto[] | null;
   shuffle?: boolean | null;
   imageFit?: ImageFit | null;
+  collageLayout?: CollageLayout | null;
+  showClock?: boolean | null;
+  clockPosition?: OverlayPosition | null;
+  showDateTaken?: boolean | null;
+  dateTakenPosition?: OverlayPosition | null;
+  showLocation?: boolean | null;
+  locationPosition?: OverlayPosition | null;
+  overlaySize?: OverlaySize | null;
+  overlayOpacity?: number | null;
+  videoPlayback?: VideoPlayback | null;
+  videoVolume?: number | null;
+  maxVideoDuration?: number | null;
+  videoSegment?: VideoSegment | null;
+  videoLoopCount?: number | null;
 }
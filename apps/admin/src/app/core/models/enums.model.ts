@@ -13,6 +13,16 @@ export enum TransitionType {
   Fade = 0,
   Slide = 1,
   KenBurns = 2,
+  Zoom = 3,
+  DipToBlack = 4,
+  SlideRight = 5,
+  SlideUp = 6,
+  SlideDown = 7,
+  Cube = 8,
+  Flip = 9,
+  Blur = 10,
+  /** Picks a different transition for every slide. */
+  Random = 11,
 }
 
 /**
@@ -22,6 +32,8 @@ export enum SourceType {
   All = 0,
   Album = 1,
   Tag = 2,
+  Playlist = 3,
+  Memories = 4,
 }
 
 /**
@@ -52,3 +64,84 @@ export enum ImageFit {
   /** Scale image to fill the display area (parts may be cropped). */
   Cover = 1,
 }
+
+/**
+ * How portrait photos are combined on a landscape screen.
+ */
+export enum CollageLayout {
+  /** Show every photo on its own. */
+  Off = 0,
+  /** Show two portrait photos side by side. */
+  PairPortraits = 1,
+  /** Combine three or four photos into a mosaic when the queue allows. */
+  Mosaic = 2,
+}
+
+/**
+ * Screen corner where a slideshow overlay element is rendered.
+ */
+export enum OverlayPosition {
+  TopLeft = 0,
+  TopRight = 1,
+  BottomLeft = 2,
+  BottomRight = 3,
+}
+
+/**
+ * Text size of the slideshow overlay.
+ */
+export enum OverlaySize {
+  Small = 0,
+  Medium = 1,
+  Large = 2,
+}
+
+/**
+ * How the slideshow plays videos.
+ */
+export enum VideoPlayback {
+  Muted = 0,
+  WithAudio = 1,
+  Skip = 2,
+}
+
+/**
+ * Which part of a video longer than the maximum duration is played.
+ */
+export enum VideoSegment {
+  Start = 0,
+  Random = 1,
+}
+
+/**
+ * Remote control commands for a running display.
+ */
+export enum RemoteCommandType {
+  Next = 0,
+  Previous = 1,
+  Pause = 2,
+  Resume = 3,
+  ShowPhoto = 4,
+}
+
+/**
+ * What the display shows during quiet hours.
+ */
+export enum QuietMode {
+  /** Blank black screen. */
+  Black = 0,
+  /** Dimmed clock on a black screen. */
+  DimClock = 1,
+}
+
+/**
+ * Health of a display device, based on when it last reported.
+ */
+export enum DisplayDeviceHealthStatus {
+  /** Reported within the last few minutes. */
+  Online = 0,
+  /** Missed recent heartbeats but reported within the last half hour. */
+  Stale = 1,
+  /** Not heard from for over half an hour. */
+  Offline = 2,
+}
@@ -8,3 +8,6 @@ export * from './user.model';
 export * from './storage.model';
 export * from './display-settings.model';
 export * from './system.model';
+export * from './display-remote.model';
+export * from './display-device.model';
+export * from './display-schedule.model';
@@ -40,6 +40,36 @@ export interface PhotoDetailDto {
   providerName: string | null;
   albums: AlbumSummaryDto[];
   tags: TagSummaryDto[];
+  edits: PhotoEditsDto;
+  focalPoint: PhotoFocalPointDto | null;
+}
+
+/**
+ * Non-destructive edits applied when a photo is rendered.
+ * The crop is given as fractions of the rotated and flipped image.
+ */
+export interface PhotoEditsDto {
+  rotation: number;
+  flipHorizontal: boolean;
+  crop: PhotoCropDto | null;
+}
+
+/**
+ * Crop region as fractions (0-1) of the image width and height.
+ */
+export interface PhotoCropDto {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Point the display keeps in frame, as fractions (0-1) of the edited image.
+ */
+export interface PhotoFocalPointDto {
+  x: number;
+  y: number;
 }
 
 /**
@@ -71,10 +101,37 @@ export interface PhotoFilterRequest {
   dateTo?: string;
   mediaType?: MediaType;
   search?: string;
+  /**
+   * Area bounds in degrees. A minLongitude greater than maxLongitude selects
+   * an area that crosses the antimeridian.
+   */
+  minLatitude?: number;
+  maxLatitude?: number;
+  minLongitude?: number;
+  maxLongitude?: number;
   sortBy?: string;
   sortDirection?: string;
 }
 
+/**
+ * Number of photos taken (or, failing that, added) on one day.
+ */
+export interface TimelineDayDto {
+  date: string;
+  count: number;
+}
+
+/**
+ * Position of a geotagged photo, for the map view.
+ */
+export interface PhotoLocationDto {
+  id: number;
+  filename: string;
+  latitude: number;
+  longitude: number;
+  dateTaken: string | null;
+}
+
 /**
  * Request to update a photo's metadata.
  */
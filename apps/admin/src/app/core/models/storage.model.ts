@@ -190,6 +190,104 @@ export interface BatchUploadResult {
   allSuccessful: boolean;
 }
 
+/**
+ * Request to start a chunked, resumable upload.
+ */
+export interface CreateUploadSessionRequest {
+  fileName: string;
+  fileSize: number;
+  contentType?: string | null;
+  albumId?: number | null;
+  overwrite?: boolean;
+}
+
+/**
+ * State of a chunked upload session.
+ */
+export interface UploadSessionDto {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  contentType: string | null;
+  albumId: number | null;
+  overwrite: boolean;
+  receivedBytes: number;
+  chunkSize: number;
+  createdAt: string;
+  isComplete: boolean;
+}
+
+/**
+ * Request to check which file content hashes are already in the library.
+ */
+export interface DuplicateCheckRequest {
+  hashes: string[];
+}
+
+/**
+ * Result of a duplicate check: the requested hashes that already exist.
+ */
+export interface DuplicateCheckResult {
+  existingHashes: string[];
+}
+
+/**
+ * Album membership of a photo in a duplicate group.
+ */
+export interface DuplicateAlbumDto {
+  id: number;
+  name: string;
+}
+
+/**
+ * A photo in a duplicate group, with the details needed to pick which copy to keep.
+ */
+export interface DuplicatePhotoDto {
+  id: number;
+  filename: string;
+  width: number;
+  height: number;
+  fileSize: number;
+  mediaType: MediaType;
+  dateTaken: string | null;
+  dateAdded: string;
+  providerName: string | null;
+  albums: DuplicateAlbumDto[];
+}
+
+/**
+ * Photos in the library that are copies of each other, highest resolution first.
+ */
+export interface DuplicateGroupDto {
+  isExactMatch: boolean;
+  photos: DuplicatePhotoDto[];
+}
+
+/**
+ * Progress of hashing the library for duplicate detection.
+ */
+export interface DuplicateScanResult {
+  processed: number;
+  remaining: number;
+  lastPhotoId: number;
+}
+
+/**
+ * Request to keep one photo of a duplicate group and delete the others.
+ */
+export interface ResolveDuplicatesRequest {
+  keepPhotoId: number;
+  deletePhotoIds: number[];
+}
+
+/**
+ * Result of resolving a duplicate group.
+ */
+export interface ResolveDuplicatesResult {
+  keptPhotoId: number;
+  deletedCount: number;
+}
+
 /**
  * Request for guest link uploads.
  */
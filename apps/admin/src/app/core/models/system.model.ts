@@ -51,3 +51,15 @@ export interface UpdateTriggerResponse {
   /** Estimated downtime in seconds. */
   estimatedDowntimeSeconds: number;
 }
+
+/**
+ * Tile server settings for the admin map.
+ */
+export interface MapConfigResponse {
+  /** Tile URL template with {z}, {x} and {y} placeholders. */
+  tileUrl: string;
+  /** Attribution shown in the map corner (may contain HTML). */
+  attribution: string;
+  /** Highest zoom level the tile server provides. */
+  maxZoom: number;
+}
@@ -195,6 +195,27 @@ describe("AlbumService", () => {
     });
   });
 
+  describe("setCoverPhoto", () => {
+    it("should set the cover photo and update the album", () => {
+      service.getAlbums().subscribe();
+      httpMock.expectOne(`${baseUrl}/api/admin/albums`).flush([mockAlbum]);
+      service.getAlbum(1).subscribe();
+      httpMock.expectOne(`${baseUrl}/api/admin/albums/1`).flush(mockAlbum);
+
+      const updatedAlbum = { ...mockAlbum, coverPhotoId: 5 };
+      service.setCoverPhoto(1, 5).subscribe((result) => {
+        expect(result).toEqual(updatedAlbum);
+      });
+
+      const req = httpMock.expectOne(`${baseUrl}/api/admin/albums/1/cover/5`);
+      expect(req.request.method).toBe("PUT");
+      req.flush(updatedAlbum);
+
+      expect(service.albums()[0].coverPhotoId).toBe(5);
+      expect(service.selectedAlbum()?.coverPhotoId).toBe(5);
+    });
+  });
+
   describe("addPhotosToAlbum", () => {
     it("should add photos to album", () => {
       const request = { photoIds: [1, 2, 3] };
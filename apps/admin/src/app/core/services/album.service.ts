@@ -95,6 +95,24 @@ export class AlbumService {
     );
   }
 
+  /**
+   * Set the cover photo for an album.
+   */
+  setCoverPhoto(albumId: number, photoId: number): Observable<AlbumDto> {
+    return this.api
+      .put<AlbumDto>(`/api/admin/albums/${albumId}/cover/${photoId}`)
+      .pipe(
+        tap((album) => {
+          this._albums.update((albums) =>
+            albums.map((a) => (a.id === albumId ? album : a)),
+          );
+          if (this._selectedAlbum()?.id === albumId) {
+            this._selectedAlbum.set(album);
+          }
+        }),
+      );
+  }
+
   /**
    * Add photos to an album.
    */
@@ -3,7 +3,11 @@ import {
   HttpTestingController,
   provideHttpClientTesting,
 } from "@angular/common/http/testing";
-import { provideHttpClient } from "@angular/common/http";
+import {
+  HttpEvent,
+  HttpEventType,
+  provideHttpClient,
+} from "@angular/common/http";
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { ApiService } from "./api.service";
 
@@ -183,6 +187,60 @@ describe("ApiService", () => {
     });
   });
 
+  describe("uploadFileWithProgress", () => {
+    it("should emit progress events and the final response", () => {
+      const formData = new FormData();
+      formData.append("file", new Blob(["test"]), "test.txt");
+      const responseData = { id: 1, filename: "test.txt" };
+      const events: HttpEvent<typeof responseData>[] = [];
+
+      service
+        .uploadFileWithProgress<typeof responseData>("/upload", formData)
+        .subscribe((event) => events.push(event));
+
+      const req = httpMock.expectOne(`${baseUrl}/upload`);
+      expect(req.request.method).toBe("POST");
+      expect(req.request.reportProgress).toBe(true);
+      req.event({ type: HttpEventType.UploadProgress, loaded: 2, total: 4 });
+      req.flush(responseData);
+
+      const progress = events.find(
+        (e) => e.type === HttpEventType.UploadProgress,
+      );
+      expect(progress).toBeTruthy();
+      const response = events.find((e) => e.type === HttpEventType.Response);
+      expect(response && "body" in response ? response.body : null).toEqual(
+        responseData,
+      );
+    });
+  });
+
+  describe("uploadBlobWithProgress", () => {
+    it("should PUT the raw blob with query params and report progress", () => {
+      const blob = new Blob(["chunk"]);
+      const events: HttpEvent<unknown>[] = [];
+
+      service
+        .uploadBlobWithProgress<unknown>("/chunks", blob, { offset: 0 })
+        .subscribe((event) => events.push(event));
+
+      const req = httpMock.expectOne((r) => r.url === `${baseUrl}/chunks`);
+      expect(req.request.method).toBe("PUT");
+      expect(req.request.body).toBe(blob);
+      expect(req.request.params.get("offset")).toBe("0");
+      expect(req.request.headers.get("Content-Type")).toBe(
+        "application/octet-stream",
+      );
+      expect(req.request.reportProgress).toBe(true);
+      req.event({ type: HttpEventType.UploadProgress, loaded: 3, total: 5 });
+      req.flush({});
+
+      expect(events.some((e) => e.type === HttpEventType.UploadProgress)).toBe(
+        true,
+      );
+    });
+  });
+
   describe("Error handling", () => {
     it("should handle server error with ApiError format", () => {
       const apiError = { code: "NOT_FOUND", message: "Resource not found" };
@@ -1,6 +1,7 @@
 import {
   HttpClient,
   HttpErrorResponse,
+  HttpEvent,
   HttpParams,
 } from "@angular/common/http";
 import { inject, Injectable } from "@angular/core";
@@ -128,4 +129,39 @@ export class ApiService {
       .post<T>(`${this.baseUrl}${path}`, formData)
       .pipe(catchError((error) => this.handleError(error)));
   }
+
+  /**
+   * Upload files with FormData, emitting HTTP progress events.
+   */
+  uploadFileWithProgress<T>(
+    path: string,
+    formData: FormData,
+    params?: Record<string, unknown>,
+  ): Observable<HttpEvent<T>> {
+    return this.http
+      .post<T>(`${this.baseUrl}${path}`, formData, {
+        params: params ? this.buildParams(params) : undefined,
+        reportProgress: true,
+        observe: "events",
+      })
+      .pipe(catchError((error) => this.handleError(error)));
+  }
+
+  /**
+   * PUT raw binary content (e.g. a file chunk), emitting HTTP progress events.
+   */
+  uploadBlobWithProgress<T>(
+    path: string,
+    blob: Blob,
+    params?: Record<string, unknown>,
+  ): Observable<HttpEvent<T>> {
+    return this.http
+      .put<T>(`${this.baseUrl}${path}`, blob, {
+        params: params ? this.buildParams(params) : undefined,
+        headers: { "Content-Type": "application/octet-stream" },
+        reportProgress: true,
+        observe: "events",
+      })
+      .pipe(catchError((error) => this.handleError(error)));
+  }
 }
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { TestBed } from "@angular/core/testing";
+import { provideHttpClient } from "@angular/common/http";
+import {
+  HttpTestingController,
+  provideHttpClientTesting,
+} from "@angular/common/http/testing";
+import { DisplayDeviceService } from "./display-device.service";
+import {
+  DisplayDeviceDto,
+  DisplayDeviceHealthDto,
+  DisplayDeviceHealthStatus,
+} from "../models";
+
+describe("DisplayDeviceService", () => {
+  let service: DisplayDeviceService;
+  let httpMock: HttpTestingController;
+
+  const device: DisplayDeviceDto = {
+    id: 1,
+    deviceId: "frame-1",
+    name: "Kitchen",
+    displaySettingsId: null,
+    displaySettingsName: null,
+    currentPhotoId: 7,
+    dateRegistered: "2026-10-01T12:00:00Z",
+    lastSeenAt: "2026-10-19T12:00:00Z",
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        DisplayDeviceService,
+        provideHttpClient(),
+        provideHttpClientTesting(),
+      ],
+    });
+
+    service = TestBed.inject(DisplayDeviceService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it("should fetch all devices", () => {
+    service.getDevices().subscribe((result) => {
+      expect(result).toEqual([device]);
+    });
+
+    const req = httpMock.expectOne("/api/display/devices");
+    expect(req.request.method).toBe("GET");
+    req.flush([device]);
+  });
+
+  it("should fetch device health", () => {
+    const health: DisplayDeviceHealthDto = {
+      id: 1,
+      deviceId: "frame-1",
+      name: "Kitchen",
+      status: DisplayDeviceHealthStatus.Online,
+      lastSeenAt: "2026-10-19T12:00:00Z",
+      lastHeartbeatAt: "2026-10-19T12:00:00Z",
+      currentPhotoId: 7,
+      uptimeSeconds: 3600,
+      lastSuccessfulFetchAt: "2026-10-19T11:59:00Z",
+      errorCount: 0,
+      cacheUsageBytes: null,
+      cacheQuotaBytes: null,
+      screenWidth: 1920,
+      screenHeight: 1080,
+      jsHeapUsedBytes: null,
+      jsHeapLimitBytes: null,
+      recentErrors: [],
+    };
+
+    service.getDeviceHealth().subscribe((result) => {
+      expect(result).toEqual([health]);
+    });
+
+    const req = httpMock.expectOne("/api/display/devices/health");
+    expect(req.request.method).toBe("GET");
+    req.flush([health]);
+  });
+
+  it("should update a device", () => {
+    const request = { name: "Living Room", displaySettingsId: 3 };
+
+    service.updateDevice(1, request).subscribe((result) => {
+      expect(result.name).toBe("Living Room");
+    });
+
+    const req = httpMock.expectOne("/api/display/devices/1");
+    expect(req.request.method).toBe("PUT");
+    expect(req.request.body).toEqual(request);
+    req.flush({ ...device, ...request, displaySettingsName: "Evening" });
+  });
+
+  it("should delete a device", () => {
+    service.deleteDevice(1).subscribe();
+
+    const req = httpMock.expectOne("/api/display/devices/1");
+    expect(req.request.method).toBe("DELETE");
+    req.flush(null);
+  });
+});
@@ -0,0 +1,50 @@
+import { inject, Injectable } from "@angular/core";
+import { Observable } from "rxjs";
+import { ApiService } from "./api.service";
+import {
+  DisplayDeviceDto,
+  DisplayDeviceHealthDto,
+  UpdateDisplayDeviceRequest,
+} from "../models";
+
+/**
+ * Service for managing registered display devices.
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class DisplayDeviceService {
+  private readonly api = inject(ApiService);
+  private readonly baseUrl = "/api/display/devices";
+
+  /**
+   * Get all registered devices.
+   */
+  getDevices(): Observable<DisplayDeviceDto[]> {
+    return this.api.get<DisplayDeviceDto[]>(this.baseUrl);
+  }
+
+  /**
+   * Get the health reported by each device's heartbeats.
+   */
+  getDeviceHealth(): Observable<DisplayDeviceHealthDto[]> {
+    return this.api.get<DisplayDeviceHealthDto[]>(`${this.baseUrl}/health`);
+  }
+
+  /**
+   * Rename a device and assign its settings profile.
+   */
+  updateDevice(
+    id: number,
+    request: UpdateDisplayDeviceRequest
+  ): Observable<DisplayDeviceDto> {
+    return this.api.put<DisplayDeviceDto>(`${this.baseUrl}/${id}`, request);
+  }
+
+  /**
+   * Remove a device from the registry.
+   */
+  deleteDevice(id: number): Observable<void> {
+    return this.api.delete<void>(`${this.baseUrl}/${id}`);
+  }
+}
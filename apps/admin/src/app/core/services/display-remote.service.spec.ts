@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { TestBed } from "@angular/core/testing";
+import { provideHttpClient } from "@angular/common/http";
+import {
+  HttpTestingController,
+  provideHttpClientTesting,
+} from "@angular/common/http/testing";
+import { DisplayRemoteService } from "./display-remote.service";
+import { DisplayStatusDto, RemoteCommandType } from "../models";
+
+describe("DisplayRemoteService", () => {
+  let service: DisplayRemoteService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        DisplayRemoteService,
+        provideHttpClient(),
+        provideHttpClientTesting(),
+      ],
+    });
+
+    service = TestBed.inject(DisplayRemoteService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it.each([
+    ["next", RemoteCommandType.Next],
+    ["previous", RemoteCommandType.Previous],
+    ["pause", RemoteCommandType.Pause],
+    ["resume", RemoteCommandType.Resume],
+  ] as const)("should send the %s command", (method, command) => {
+    service[method]().subscribe((result) => {
+      expect(result.displayCount).toBe(1);
+    });
+
+    const req = httpMock.expectOne("/api/display/remote/commands");
+    expect(req.request.method).toBe("POST");
+    expect(req.request.body).toEqual({ command });
+    req.flush({ displayCount: 1 });
+  });
+
+  it("should send show photo with the photo ID", () => {
+    service.showPhoto(42).subscribe();
+
+    const req = httpMock.expectOne("/api/display/remote/commands");
+    expect(req.request.body).toEqual({
+      command: RemoteCommandType.ShowPhoto,
+      photoId: 42,
+    });
+    req.flush({ displayCount: 1 });
+  });
+
+  it("should fetch the display status", () => {
+    const status: DisplayStatusDto = {
+      currentPhoto: null,
+      isPaused: true,
+      settingsId: 1,
+      isConnected: true,
+      reportedAt: "2026-10-19T12:00:00Z",
+    };
+
+    service.getStatus().subscribe((result) => {
+      expect(result).toEqual(status);
+    });
+
+    const req = httpMock.expectOne("/api/display/remote/status");
+    expect(req.request.method).toBe("GET");
+    req.flush(status);
+  });
+});
@@ -0,0 +1,70 @@
+import { inject, Injectable } from "@angular/core";
+import { Observable } from "rxjs";
+import { ApiService } from "./api.service";
+import {
+  DisplayStatusDto,
+  RemoteCommandRequest,
+  RemoteCommandResponse,
+  RemoteCommandType,
+} from "../models";
+
+/**
+ * Service for remote control of running displays.
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class DisplayRemoteService {
+  private readonly api = inject(ApiService);
+
+  /**
+   * Skip to the next photo.
+   */
+  next(): Observable<RemoteCommandResponse> {
+    return this.sendCommand({ command: RemoteCommandType.Next });
+  }
+
+  /**
+   * Go back to the previous photo.
+   */
+  previous(): Observable<RemoteCommandResponse> {
+    return this.sendCommand({ command: RemoteCommandType.Previous });
+  }
+
+  /**
+   * Pause the slideshow.
+   */
+  pause(): Observable<RemoteCommandResponse> {
+    return this.sendCommand({ command: RemoteCommandType.Pause });
+  }
+
+  /**
+   * Resume a paused slideshow.
+   */
+  resume(): Observable<RemoteCommandResponse> {
+    return this.sendCommand({ command: RemoteCommandType.Resume });
+  }
+
+  /**
+   * Show a specific photo on the display now.
+   */
+  showPhoto(photoId: number): Observable<RemoteCommandResponse> {
+    return this.sendCommand({ command: RemoteCommandType.ShowPhoto, photoId });
+  }
+
+  /**
+   * Get what the display is currently showing.
+   */
+  getStatus(): Observable<DisplayStatusDto> {
+    return this.api.get<DisplayStatusDto>("/api/display/remote/status");
+  }
+
+  private sendCommand(
+    request: RemoteCommandRequest
+  ): Observable<RemoteCommandResponse> {
+    return this.api.post<RemoteCommandResponse>(
+      "/api/display/remote/commands",
+      request
+    );
+  }
+}
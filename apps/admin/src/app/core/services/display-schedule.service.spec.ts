@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { TestBed } from "@angular/core/testing";
+import { provideHttpClient } from "@angular/common/http";
+import {
+  HttpTestingController,
+  provideHttpClientTesting,
+} from "@angular/common/http/testing";
+import { DisplayScheduleService } from "./display-schedule.service";
+import { DisplayScheduleRuleDto, QuietMode } from "../models";
+
+describe("DisplayScheduleService", () => {
+  let service: DisplayScheduleService;
+  let httpMock: HttpTestingController;
+
+  const rule: DisplayScheduleRuleDto = {
+    id: 1,
+    daysOfWeek: 127,
+    startTime: "22:00",
+    endTime: "06:30",
+    displaySettingsId: null,
+    quietMode: QuietMode.DimClock,
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        DisplayScheduleService,
+        provideHttpClient(),
+        provideHttpClientTesting(),
+      ],
+    });
+
+    service = TestBed.inject(DisplayScheduleService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it("should fetch the schedule", () => {
+    service.getSchedule().subscribe((result) => {
+      expect(result).toEqual([rule]);
+    });
+
+    const req = httpMock.expectOne("/api/display/schedule");
+    expect(req.request.method).toBe("GET");
+    req.flush([rule]);
+  });
+
+  it("should replace the schedule", () => {
+    const { id: _id, ...ruleRequest } = rule;
+    const request = { rules: [ruleRequest] };
+
+    service.updateSchedule(request).subscribe((result) => {
+      expect(result).toEqual([rule]);
+    });
+
+    const req = httpMock.expectOne("/api/display/schedule");
+    expect(req.request.method).toBe("PUT");
+    expect(req.request.body).toEqual(request);
+    req.flush([rule]);
+  });
+});
@@ -0,0 +1,34 @@
+import { inject, Injectable } from "@angular/core";
+import { Observable } from "rxjs";
+import { ApiService } from "./api.service";
+import {
+  DisplayScheduleRuleDto,
+  UpdateDisplayScheduleRequest,
+} from "../models";
+
+/**
+ * Service for the time-of-day display schedule.
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class DisplayScheduleService {
+  private readonly api = inject(ApiService);
+  private readonly baseUrl = "/api/display/schedule";
+
+  /**
+   * Get all schedule rules in evaluation order.
+   */
+  getSchedule(): Observable<DisplayScheduleRuleDto[]> {
+    return this.api.get<DisplayScheduleRuleDto[]>(this.baseUrl);
+  }
+
+  /**
+   * Replace the whole schedule.
+   */
+  updateSchedule(
+    request: UpdateDisplayScheduleRequest
+  ): Observable<DisplayScheduleRuleDto[]> {
+    return this.api.put<DisplayScheduleRuleDto[]>(this.baseUrl, request);
+  }
+}
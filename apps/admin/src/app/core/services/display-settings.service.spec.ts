@@ -11,6 +11,11 @@ import {
   TransitionType,
   SourceType,
   ImageFit,
+  CollageLayout,
+  OverlayPosition,
+  OverlaySize,
+  VideoPlayback,
+  VideoSegment,
 } from "../models";
 
 describe("DisplaySettingsService", () => {
@@ -26,8 +31,23 @@ describe("DisplaySettingsService", () => {
     transitionDuration: 1000,
     sourceType: SourceType.All,
     sourceId: null,
+    playlistSources: [],
     shuffle: true,
     imageFit: ImageFit.Contain,
+    collageLayout: CollageLayout.Off,
+    showClock: false,
+    clockPosition: OverlayPosition.TopRight,
+    showDateTaken: false,
+    dateTakenPosition: OverlayPosition.BottomLeft,
+    showLocation: false,
+    locationPosition: OverlayPosition.BottomLeft,
+    overlaySize: OverlaySize.Medium,
+    overlayOpacity: 80,
+    videoPlayback: VideoPlayback.Muted,
+    videoVolume: 50,
+    maxVideoDuration: 30,
+    videoSegment: VideoSegment.Start,
+    videoLoopCount: 1,
   };
 
   beforeEach(() => {
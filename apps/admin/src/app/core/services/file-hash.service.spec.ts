@@ -0,0 +1,78 @@
+import { TestBed } from "@angular/core/testing";
+import { firstValueFrom } from "rxjs";
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { FileHashService } from "./file-hash.service";
+
+const ABC_HASH =
+  "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad";
+
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: (() => void) | null = null;
+  messages: { id: number; file: Blob }[] = [];
+  terminate = vi.fn();
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: { id: number; file: Blob }): void {
+    this.messages.push(message);
+  }
+
+  reply(data: unknown): void {
+    this.onmessage?.({ data } as MessageEvent);
+  }
+}
+
+describe("FileHashService", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeWorker.instances = [];
+  });
+
+  it("hashes on the main thread when workers are unavailable", async () => {
+    vi.stubGlobal("Worker", undefined);
+    const service = TestBed.inject(FileHashService);
+
+    expect(await firstValueFrom(service.hash(new Blob(["abc"])))).toBe(
+      ABC_HASH,
+    );
+  });
+
+  it("hashes in a worker when available", async () => {
+    vi.stubGlobal("Worker", FakeWorker);
+    const service = TestBed.inject(FileHashService);
+
+    const hash = firstValueFrom(service.hash(new Blob(["abc"])));
+    const worker = FakeWorker.instances[0];
+    const [message] = worker.messages;
+    worker.reply({ id: message.id, hash: "worker-hash" });
+
+    expect(await hash).toBe("worker-hash");
+  });
+
+  it("reports worker errors", async () => {
+    vi.stubGlobal("Worker", FakeWorker);
+    const service = TestBed.inject(FileHashService);
+
+    const hash = firstValueFrom(service.hash(new Blob(["abc"])));
+    const worker = FakeWorker.instances[0];
+    worker.reply({ id: worker.messages[0].id, error: "Unreadable file" });
+
+    await expect(hash).rejects.toThrow("Unreadable file");
+  });
+
+  it("falls back to the main thread when the worker fails to load", async () => {
+    vi.stubGlobal("Worker", FakeWorker);
+    const service = TestBed.inject(FileHashService);
+
+    const hash = firstValueFrom(service.hash(new Blob(["abc"])));
+    const worker = FakeWorker.instances[0];
+    worker.onerror?.();
+
+    expect(await hash).toBe(ABC_HASH);
+    expect(worker.terminate).toHaveBeenCalled();
+  });
+});
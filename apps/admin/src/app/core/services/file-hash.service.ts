@@ -0,0 +1,111 @@
+import { Injectable, OnDestroy } from "@angular/core";
+import { Observable, defer, from } from "rxjs";
+import { hashBlob } from "../hashing/sha256";
+
+interface FileHashResponse {
+  id: number;
+  hash?: string;
+  error?: string;
+}
+
+interface PendingHash {
+  file: Blob;
+  resolve: (hash: string) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Computes SHA-256 content hashes of files, matching the hashes the server
+ * stores for uploaded photos. Hashing runs in a Web Worker so large batches
+ * don't block the page, and falls back to the main thread where workers are
+ * unavailable.
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class FileHashService implements OnDestroy {
+  private worker: Worker | null = null;
+  private workerUnavailable = false;
+  private readonly pending = new Map<number, PendingHash>();
+  private nextId = 1;
+
+  /**
+   * Hash a file. Emits the lowercase hex hash once and completes.
+   */
+  hash(file: Blob): Observable<string> {
+    return defer(() => from(this.hashInWorker(file) ?? hashBlob(file)));
+  }
+
+  ngOnDestroy(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private hashInWorker(file: Blob): Promise<string> | null {
+    const worker = this.getWorker();
+    if (!worker) {
+      return null;
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { file, resolve, reject });
+      worker.postMessage({ id, file });
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerUnavailable) {
+      return this.worker;
+    }
+
+    if (typeof Worker === "undefined") {
+      this.workerUnavailable = true;
+      return null;
+    }
+
+    try {
+      this.worker = new Worker(
+        new URL("../hashing/file-hash.worker", import.meta.url),
+        { type: "module" },
+      );
+      this.worker.onmessage = ({ data }: MessageEvent<FileHashResponse>) =>
+        this.settle(data);
+      this.worker.onerror = () => this.fallBackToMainThread();
+    } catch {
+      this.workerUnavailable = true;
+    }
+
+    return this.worker;
+  }
+
+  private settle(response: FileHashResponse): void {
+    const request = this.pending.get(response.id);
+    if (!request) {
+      return;
+    }
+
+    this.pending.delete(response.id);
+    if (response.hash) {
+      request.resolve(response.hash);
+    } else {
+      request.reject(new Error(response.error ?? "Hashing failed"));
+    }
+  }
+
+  /**
+   * The worker failed to load or crashed: hash everything it still had on
+   * the main thread and stop using it.
+   */
+  private fallBackToMainThread(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerUnavailable = true;
+
+    const requests = [...this.pending.values()];
+    this.pending.clear();
+    requests.forEach(({ file, resolve, reject }) =>
+      hashBlob(file).then(resolve, reject),
+    );
+  }
+}
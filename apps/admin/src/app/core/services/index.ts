@@ -7,3 +7,8 @@ export * from './tag.service';
 export * from './storage.service';
 export * from './display-settings.service';
 export * from './system.service';
+export * from './display-remote.service';
+export * from './display-device.service';
+export * from './display-schedule.service';
+export * from './upload-manager.service';
+export * from './file-hash.service';
@@ -52,6 +52,8 @@ describe("PhotoService", () => {
     providerName: null,
     albums: [{ id: 1, name: "Test Album" }],
     tags: [{ id: 1, name: "nature", color: "#4CAF50" }],
+    edits: { rotation: 0, flipHorizontal: false, crop: null },
+    focalPoint: null,
   };
 
   const mockPagedResult: PagedResult<PhotoListDto> = {
@@ -134,6 +136,51 @@ describe("PhotoService", () => {
     });
   });
 
+  describe("getTimeline", () => {
+    it("should fetch day counts with filters", () => {
+      const days = [
+        { date: "2025-06-01T00:00:00", count: 3 },
+        { date: "2025-05-28T00:00:00", count: 1 },
+      ];
+
+      service
+        .getTimeline({ albumId: 1, mediaType: MediaType.Video })
+        .subscribe((result) => {
+          expect(result).toEqual(days);
+        });
+
+      const req = httpMock.expectOne(
+        (r) => r.url === `${baseUrl}/api/admin/photos/timeline`,
+      );
+      expect(req.request.method).toBe("GET");
+      expect(req.request.params.get("albumId")).toBe("1");
+      expect(req.request.params.get("mediaType")).toBe(String(MediaType.Video));
+      req.flush(days);
+    });
+  });
+
+  describe("getPhotoLocations", () => {
+    it("should fetch the positions of geotagged photos", () => {
+      const locations = [
+        {
+          id: 1,
+          filename: "vienna.jpg",
+          latitude: 48.2082,
+          longitude: 16.3738,
+          dateTaken: null,
+        },
+      ];
+
+      service.getPhotoLocations().subscribe((result) => {
+        expect(result).toEqual(locations);
+      });
+
+      const req = httpMock.expectOne(`${baseUrl}/api/admin/photos/locations`);
+      expect(req.request.method).toBe("GET");
+      req.flush(locations);
+    });
+  });
+
   describe("getPhoto", () => {
     it("should fetch a single photo and set selectedPhoto", () => {
       service.getPhoto(1).subscribe((result) => {
@@ -164,6 +211,58 @@ describe("PhotoService", () => {
     });
   });
 
+  describe("updatePhotoEdits", () => {
+    it("should save edits and set selectedPhoto", () => {
+      const edits = {
+        rotation: 90,
+        flipHorizontal: true,
+        crop: { x: 0, y: 0.1, width: 1, height: 0.8 },
+      };
+      const editedPhoto = { ...mockPhotoDetail, edits };
+
+      service.updatePhotoEdits(1, edits).subscribe((result) => {
+        expect(result).toEqual(editedPhoto);
+        expect(service.selectedPhoto()).toEqual(editedPhoto);
+      });
+
+      const req = httpMock.expectOne(`${baseUrl}/api/admin/photos/1/edits`);
+      expect(req.request.method).toBe("PUT");
+      expect(req.request.body).toEqual(edits);
+      req.flush(editedPhoto);
+    });
+  });
+
+  describe("focal point", () => {
+    it("should set the focal point and selectedPhoto", () => {
+      const focalPoint = { x: 0.25, y: 0.4 };
+      const updatedPhoto = { ...mockPhotoDetail, focalPoint };
+
+      service.updateFocalPoint(1, focalPoint).subscribe((result) => {
+        expect(result).toEqual(updatedPhoto);
+        expect(service.selectedPhoto()).toEqual(updatedPhoto);
+      });
+
+      const req = httpMock.expectOne(
+        `${baseUrl}/api/admin/photos/1/focal-point`,
+      );
+      expect(req.request.method).toBe("PUT");
+      expect(req.request.body).toEqual(focalPoint);
+      req.flush(updatedPhoto);
+    });
+
+    it("should clear the focal point", () => {
+      service.clearFocalPoint(1).subscribe((result) => {
+        expect(result.focalPoint).toBeNull();
+      });
+
+      const req = httpMock.expectOne(
+        `${baseUrl}/api/admin/photos/1/focal-point`,
+      );
+      expect(req.request.method).toBe("DELETE");
+      req.flush(mockPhotoDetail);
+    });
+  });
+
   describe("deletePhoto", () => {
     it("should delete photo and remove from photos list", () => {
       // First load photos
@@ -240,6 +339,46 @@ describe("PhotoService", () => {
     });
   });
 
+  describe("addPhotosToAlbum", () => {
+    it("should add photos to an album", () => {
+      const request = { photoIds: [1, 2] };
+      const bulkResult = { successCount: 2, failedCount: 0, errors: [] };
+
+      service.addPhotosToAlbum(3, request).subscribe((result) => {
+        expect(result).toEqual(bulkResult);
+      });
+
+      const req = httpMock.expectOne(
+        `${baseUrl}/api/admin/photos/bulk/add-to-album/3`,
+      );
+      expect(req.request.method).toBe("POST");
+      expect(req.request.body).toEqual(request);
+      req.flush(bulkResult);
+    });
+  });
+
+  describe("removePhotosFromAlbum", () => {
+    it("should remove photos from an album", () => {
+      const request = { photoIds: [1, 2] };
+      const bulkResult = {
+        successCount: 1,
+        failedCount: 1,
+        errors: ["Photo 2 not in album"],
+      };
+
+      service.removePhotosFromAlbum(3, request).subscribe((result) => {
+        expect(result).toEqual(bulkResult);
+      });
+
+      const req = httpMock.expectOne(
+        `${baseUrl}/api/admin/photos/bulk/remove-from-album/3`,
+      );
+      expect(req.request.method).toBe("POST");
+      expect(req.request.body).toEqual(request);
+      req.flush(bulkResult);
+    });
+  });
+
   describe("addTagsToPhotos", () => {
     it("should add tags to photos", () => {
       const request = { photoIds: [1, 2], tagIds: [1, 2] };
@@ -322,6 +461,11 @@ describe("PhotoService", () => {
       const url = service.getPhotoUrl(mockPhotoDetail);
       expect(url).toBe(`${baseUrl}/api/media/photos/photos/2025/01/test.jpg`);
     });
+
+    it("should generate original photo URL without edits", () => {
+      const url = service.getOriginalPhotoUrl(1);
+      expect(url).toBe(`${baseUrl}/api/media/photos/1?original=true`);
+    });
   });
 
   describe("refreshThumbnails", () => {
@@ -4,13 +4,19 @@ import { ApiService } from "./api.service";
 import {
   PhotoListDto,
   PhotoDetailDto,
+  PhotoEditsDto,
+  PhotoFocalPointDto,
   PhotoFilterRequest,
   UpdatePhotoRequest,
   BulkOperationResult,
+  AddPhotosToAlbumRequest,
+  RemovePhotosFromAlbumRequest,
   AddTagsToPhotosRequest,
   RemoveTagsFromPhotosRequest,
   PagedResult,
   RefreshThumbnailsResult,
+  TimelineDayDto,
+  PhotoLocationDto,
 } from "../models";
 
 /**
@@ -55,6 +61,22 @@ export class PhotoService {
       );
   }
 
+  /**
+   * Get photo counts per day, newest first, for the timeline view.
+   * Paging and sort options in the filter are ignored.
+   */
+  getTimeline(filter?: PhotoFilterRequest): Observable<TimelineDayDto[]> {
+    const params = filter ? { ...filter } : {};
+    return this.api.get<TimelineDayDto[]>("/api/admin/photos/timeline", params);
+  }
+
+  /**
+   * Get the position of every geotagged photo.
+   */
+  getPhotoLocations(): Observable<PhotoLocationDto[]> {
+    return this.api.get<PhotoLocationDto[]>("/api/admin/photos/locations");
+  }
+
   /**
    * Get full details for a single photo.
    */
@@ -76,6 +98,39 @@ export class PhotoService {
       .pipe(tap((photo) => this._selectedPhoto.set(photo)));
   }
 
+  /**
+   * Save a photo's rotation, flip and crop. The original file is untouched.
+   */
+  updatePhotoEdits(
+    id: number,
+    edits: PhotoEditsDto,
+  ): Observable<PhotoDetailDto> {
+    return this.api
+      .put<PhotoDetailDto>(`/api/admin/photos/${id}/edits`, edits)
+      .pipe(tap((photo) => this._selectedPhoto.set(photo)));
+  }
+
+  /**
+   * Set the point the display keeps in frame in Cover mode and Ken Burns.
+   */
+  updateFocalPoint(
+    id: number,
+    focalPoint: PhotoFocalPointDto,
+  ): Observable<PhotoDetailDto> {
+    return this.api
+      .put<PhotoDetailDto>(`/api/admin/photos/${id}/focal-point`, focalPoint)
+      .pipe(tap((photo) => this._selectedPhoto.set(photo)));
+  }
+
+  /**
+   * Clear a photo's focal point so the display uses the centre.
+   */
+  clearFocalPoint(id: number): Observable<PhotoDetailDto> {
+    return this.api
+      .delete<PhotoDetailDto>(`/api/admin/photos/${id}/focal-point`)
+      .pipe(tap((photo) => this._selectedPhoto.set(photo)));
+  }
+
   /**
    * Delete a single photo.
    */
@@ -105,6 +160,32 @@ export class PhotoService {
       );
   }
 
+  /**
+   * Add multiple photos to an album.
+   */
+  addPhotosToAlbum(
+    albumId: number,
+    request: AddPhotosToAlbumRequest,
+  ): Observable<BulkOperationResult> {
+    return this.api.post<BulkOperationResult>(
+      `/api/admin/photos/bulk/add-to-album/${albumId}`,
+      request,
+    );
+  }
+
+  /**
+   * Remove multiple photos from an album.
+   */
+  removePhotosFromAlbum(
+    albumId: number,
+    request: RemovePhotosFromAlbumRequest,
+  ): Observable<BulkOperationResult> {
+    return this.api.post<BulkOperationResult>(
+      `/api/admin/photos/bulk/remove-from-album/${albumId}`,
+      request,
+    );
+  }
+
   /**
    * Add tags to multiple photos.
    */
@@ -160,6 +241,20 @@ export class PhotoService {
     return `/api/media/photos/${photo.filePath}`;
   }
 
+  /**
+   * Get the URL for a photo's original file, without edits applied.
+   */
+  getOriginalPhotoUrl(photoId: number): string {
+    return `/api/media/photos/${photoId}?original=true`;
+  }
+
+  /**
+   * Get the URL for a photo as the display shows it, with edits applied.
+   */
+  getEditedPhotoUrl(photoId: number): string {
+    return `/api/media/photos/${photoId}`;
+  }
+
   /**
    * Refresh (regenerate) thumbnails for the specified photos.
    */
@@ -1,6 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { TestBed } from "@angular/core/testing";
-import { provideHttpClient } from "@angular/common/http";
+import {
+  HttpEvent,
+  HttpEventType,
+  provideHttpClient,
+} from "@angular/common/http";
 import {
   HttpTestingController,
   provideHttpClientTesting,
@@ -411,6 +415,168 @@ describe("StorageService", () => {
     });
   });
 
+  describe("guestUploadWithProgress", () => {
+    it("should report upload progress for guest uploads", () => {
+      const file = new File(["test"], "test.jpg", { type: "image/jpeg" });
+      const events: HttpEvent<unknown>[] = [];
+
+      service
+        .guestUploadWithProgress(file, "abc123", "Hi")
+        .subscribe((event) => events.push(event));
+
+      const req = httpMock.expectOne(`${baseUrl}/api/guest/upload/abc123`);
+      expect(req.request.method).toBe("POST");
+      expect(req.request.reportProgress).toBe(true);
+      const formData = req.request.body as FormData;
+      expect(formData.get("file")).toBeTruthy();
+      expect(formData.get("message")).toBe("Hi");
+      req.event({ type: HttpEventType.UploadProgress, loaded: 1, total: 4 });
+      req.flush({ totalFiles: 1, successfulUploads: 1 });
+
+      expect(events.some((e) => e.type === HttpEventType.UploadProgress)).toBe(
+        true,
+      );
+      expect(events.some((e) => e.type === HttpEventType.Response)).toBe(true);
+    });
+  });
+
+  describe("uploadFileWithProgress", () => {
+    it("should send the album as a query parameter", () => {
+      const file = new File(["test"], "test.jpg", { type: "image/jpeg" });
+
+      service.uploadFileWithProgress(file, { albumId: 7 }).subscribe();
+
+      const req = httpMock.expectOne(
+        (r) => r.url === `${baseUrl}/api/admin/upload`,
+      );
+      expect(req.request.method).toBe("POST");
+      expect(req.request.reportProgress).toBe(true);
+      expect(req.request.params.get("albumId")).toBe("7");
+      expect((req.request.body as FormData).get("file")).toBeTruthy();
+      req.flush({ success: true });
+    });
+
+    it("should ask the server to replace duplicates when overwriting", () => {
+      const file = new File(["test"], "test.jpg", { type: "image/jpeg" });
+
+      service.uploadFileWithProgress(file, { overwrite: true }).subscribe();
+
+      const req = httpMock.expectOne(
+        (r) => r.url === `${baseUrl}/api/admin/upload`,
+      );
+      expect(req.request.params.get("overwrite")).toBe("true");
+      expect(req.request.params.has("albumId")).toBe(false);
+      req.flush({ success: true });
+    });
+  });
+
+  describe("checkDuplicates", () => {
+    it("should post the hashes to check", () => {
+      service.checkDuplicates(["abc"]).subscribe((result) => {
+        expect(result.existingHashes).toEqual(["abc"]);
+      });
+
+      const req = httpMock.expectOne(`${baseUrl}/api/admin/upload/duplicates`);
+      expect(req.request.method).toBe("POST");
+      expect(req.request.body).toEqual({ hashes: ["abc"] });
+      req.flush({ existingHashes: ["abc"] });
+    });
+
+    it("should check hashes via guest link", () => {
+      service.guestCheckDuplicates("link1", ["abc"]).subscribe();
+
+      const req = httpMock.expectOne(
+        `${baseUrl}/api/guest/upload/link1/duplicates`,
+      );
+      expect(req.request.method).toBe("POST");
+      expect(req.request.body).toEqual({ hashes: ["abc"] });
+      req.flush({ existingHashes: [] });
+    });
+  });
+
+  describe("duplicates", () => {
+    it("should get duplicate groups", () => {
+      service.getDuplicateGroups().subscribe((groups) => {
+        expect(groups).toEqual([]);
+      });
+
+      const req = httpMock.expectOne(`${baseUrl}/api/admin/duplicates`);
+      expect(req.request.method).toBe("GET");
+      req.flush([]);
+    });
+
+    it("should scan the next batch after a photo", () => {
+      service.scanForDuplicates(40).subscribe((result) => {
+        expect(result.remaining).toBe(0);
+      });
+
+      const req = httpMock.expectOne(
+        `${baseUrl}/api/admin/duplicates/scan?afterId=40`,
+      );
+      expect(req.request.method).toBe("POST");
+      req.flush({ processed: 2, remaining: 0, lastPhotoId: 42 });
+    });
+
+    it("should resolve a group", () => {
+      service
+        .resolveDuplicates({ keepPhotoId: 1, deletePhotoIds: [2, 3] })
+        .subscribe((result) => {
+          expect(result.deletedCount).toBe(2);
+        });
+
+      const req = httpMock.expectOne(`${baseUrl}/api/admin/duplicates/resolve`);
+      expect(req.request.method).toBe("POST");
+      expect(req.request.body).toEqual({
+        keepPhotoId: 1,
+        deletePhotoIds: [2, 3],
+      });
+      req.flush({ keptPhotoId: 1, deletedCount: 2 });
+    });
+  });
+
+  describe("upload sessions", () => {
+    it("should create a session", () => {
+      service
+        .createUploadSession({ fileName: "clip.mp4", fileSize: 1024 })
+        .subscribe();
+
+      const req = httpMock.expectOne(`${baseUrl}/api/admin/upload/sessions`);
+      expect(req.request.method).toBe("POST");
+      expect(req.request.body).toEqual({
+        fileName: "clip.mp4",
+        fileSize: 1024,
+      });
+      req.flush({});
+    });
+
+    it("should upload a chunk at an offset", () => {
+      const chunk = new Blob(["abc"]);
+
+      service.uploadChunkWithProgress("abc123", 16, chunk).subscribe();
+
+      const req = httpMock.expectOne(
+        (r) => r.url === `${baseUrl}/api/admin/upload/sessions/abc123/chunks`,
+      );
+      expect(req.request.method).toBe("PUT");
+      expect(req.request.params.get("offset")).toBe("16");
+      expect(req.request.body).toBe(chunk);
+      req.flush({});
+    });
+
+    it("should get, complete and cancel a session", () => {
+      service.getUploadSession("abc123").subscribe();
+      service.completeUploadSession("abc123").subscribe();
+      service.cancelUploadSession("abc123").subscribe();
+
+      const url = `${baseUrl}/api/admin/upload/sessions/abc123`;
+      const requests = httpMock.match((r) => r.url.startsWith(url));
+      expect(
+        requests.map((r) => `${r.request.method} ${r.request.url}`),
+      ).toEqual([`GET ${url}`, `POST ${url}/complete`, `DELETE ${url}`]);
+      requests.forEach((r) => r.flush({}));
+    });
+  });
+
   describe("clearSelectedProvider", () => {
     it("should clear the selected provider", () => {
       // First select a provider
@@ -1,3 +1,4 @@
+import { HttpEvent } from "@angular/common/http";
 import { inject, Injectable, signal } from "@angular/core";
 import { Observable, tap } from "rxjs";
 import { ApiService } from "./api.service";
@@ -15,6 +16,13 @@ import {
   UploadResult,
   BatchUploadResult,
   UploadRequest,
+  CreateUploadSessionRequest,
+  UploadSessionDto,
+  DuplicateCheckResult,
+  DuplicateGroupDto,
+  DuplicateScanResult,
+  ResolveDuplicatesRequest,
+  ResolveDuplicatesResult,
 } from "../models";
 
 /**
@@ -189,6 +197,84 @@ export class StorageService {
     return this.api.uploadFile<UploadResult>("/api/admin/upload", formData);
   }
 
+  /**
+   * Upload a file to the default local storage, emitting upload progress events.
+   */
+  uploadFileWithProgress(
+    file: File,
+    options?: Pick<UploadRequest, "albumId" | "overwrite">,
+  ): Observable<HttpEvent<UploadResult>> {
+    const formData = new FormData();
+    formData.append("file", file);
+
+    return this.api.uploadFileWithProgress<UploadResult>(
+      "/api/admin/upload",
+      formData,
+      { albumId: options?.albumId, overwrite: options?.overwrite || undefined },
+    );
+  }
+
+  /**
+   * Find which SHA-256 content hashes already belong to photos in the library.
+   */
+  checkDuplicates(hashes: string[]): Observable<DuplicateCheckResult> {
+    return this.api.post<DuplicateCheckResult>("/api/admin/upload/duplicates", {
+      hashes,
+    });
+  }
+
+  /**
+   * Start a chunked upload session for a large file.
+   */
+  createUploadSession(
+    request: CreateUploadSessionRequest,
+  ): Observable<UploadSessionDto> {
+    return this.api.post<UploadSessionDto>(
+      "/api/admin/upload/sessions",
+      request,
+    );
+  }
+
+  /**
+   * Get a chunked upload session, including the bytes received so far.
+   */
+  getUploadSession(sessionId: string): Observable<UploadSessionDto> {
+    return this.api.get<UploadSessionDto>(
+      `/api/admin/upload/sessions/${sessionId}`,
+    );
+  }
+
+  /**
+   * Upload one chunk of a session, emitting upload progress events.
+   */
+  uploadChunkWithProgress(
+    sessionId: string,
+    offset: number,
+    chunk: Blob,
+  ): Observable<HttpEvent<UploadSessionDto>> {
+    return this.api.uploadBlobWithProgress<UploadSessionDto>(
+      `/api/admin/upload/sessions/${sessionId}/chunks`,
+      chunk,
+      { offset },
+    );
+  }
+
+  /**
+   * Import a fully received chunked upload.
+   */
+  completeUploadSession(sessionId: string): Observable<UploadResult> {
+    return this.api.post<UploadResult>(
+      `/api/admin/upload/sessions/${sessionId}/complete`,
+    );
+  }
+
+  /**
+   * Cancel a chunked upload and discard the received bytes.
+   */
+  cancelUploadSession(sessionId: string): Observable<void> {
+    return this.api.delete<void>(`/api/admin/upload/sessions/${sessionId}`);
+  }
+
   /**
    * Upload multiple files.
    */
@@ -220,16 +306,79 @@ export class StorageService {
     file: File,
     linkCode: string,
     message?: string,
-  ): Observable<UploadResult> {
+  ): Observable<BatchUploadResult> {
+    return this.api.uploadFile<BatchUploadResult>(
+      `/api/guest/upload/${linkCode}`,
+      this.buildGuestUploadForm(file, linkCode, message),
+    );
+  }
+
+  /**
+   * Upload a file via guest link, emitting upload progress events.
+   */
+  guestUploadWithProgress(
+    file: File,
+    linkCode: string,
+    message?: string,
+  ): Observable<HttpEvent<BatchUploadResult>> {
+    return this.api.uploadFileWithProgress<BatchUploadResult>(
+      `/api/guest/upload/${linkCode}`,
+      this.buildGuestUploadForm(file, linkCode, message),
+    );
+  }
+
+  /**
+   * Find which SHA-256 content hashes already exist, via guest link.
+   */
+  guestCheckDuplicates(
+    linkCode: string,
+    hashes: string[],
+  ): Observable<DuplicateCheckResult> {
+    return this.api.post<DuplicateCheckResult>(
+      `/api/guest/upload/${linkCode}/duplicates`,
+      { hashes },
+    );
+  }
+
+  /**
+   * Get groups of identical or visually similar photos in the library.
+   */
+  getDuplicateGroups(): Observable<DuplicateGroupDto[]> {
+    return this.api.get<DuplicateGroupDto[]>("/api/admin/duplicates");
+  }
+
+  /**
+   * Hash the next batch of photos after the given ID for duplicate detection.
+   */
+  scanForDuplicates(afterId = 0): Observable<DuplicateScanResult> {
+    return this.api.post<DuplicateScanResult>(
+      `/api/admin/duplicates/scan?afterId=${afterId}`,
+    );
+  }
+
+  /**
+   * Keep one photo of a duplicate group and delete the others, merging their
+   * album and tag memberships into the kept photo.
+   */
+  resolveDuplicates(
+    request: ResolveDuplicatesRequest,
+  ): Observable<ResolveDuplicatesResult> {
+    return this.api.post<ResolveDuplicatesResult>(
+      "/api/admin/duplicates/resolve",
+      request,
+    );
+  }
+
+  private buildGuestUploadForm(
+    file: File,
+    linkCode: string,
+    message?: string,
+  ): FormData {
     const formData = new FormData();
     formData.append("file", file);
     formData.append("linkCode", linkCode);
     if (message) formData.append("message", message);
-
-    return this.api.uploadFile<UploadResult>(
-      `/api/guest/upload/${linkCode}`,
-      formData,
-    );
+    return formData;
   }
 
   /**
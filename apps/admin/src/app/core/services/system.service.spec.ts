@@ -115,4 +115,22 @@ describe("SystemService", () => {
       req.flush(mockResponse);
     });
   });
+
+  describe("getMapConfig", () => {
+    it("should make GET request to /api/admin/system/map", () => {
+      const mockResponse = {
+        tileUrl: "http://tiles.local/{z}/{x}/{y}.png",
+        attribution: "Local tiles",
+        maxZoom: 16,
+      };
+
+      service.getMapConfig().subscribe((result) => {
+        expect(result).toEqual(mockResponse);
+      });
+
+      const req = httpMock.expectOne(`${baseUrl}/api/admin/system/map`);
+      expect(req.request.method).toBe("GET");
+      req.flush(mockResponse);
+    });
+  });
 });
@@ -2,6 +2,7 @@ import { inject, Injectable } from "@angular/core";
 import { Observable } from "rxjs";
 import { ApiService } from "./api.service";
 import {
+  MapConfigResponse,
   SystemInfoResponse,
   UpdateCheckResponse,
   UpdateTriggerResponse,
@@ -43,4 +44,11 @@ export class SystemService {
   applyUpdate(): Observable<UpdateTriggerResponse> {
     return this.api.post<UpdateTriggerResponse>("/api/admin/system/update");
   }
+
+  /**
+   * Get the tile server the map view loads its tiles from.
+   */
+  getMapConfig(): Observable<MapConfigResponse> {
+    return this.api.get<MapConfigResponse>("/api/admin/system/map");
+  }
 }
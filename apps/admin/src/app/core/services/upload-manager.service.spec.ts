@@ -0,0 +1,302 @@
+import { TestBed } from "@angular/core/testing";
+import { HttpEventType, HttpResponse } from "@angular/common/http";
+import { Subject, of, throwError } from "rxjs";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  CHUNKED_UPLOAD_THRESHOLD,
+  UploadManagerService,
+} from "./upload-manager.service";
+import { StorageService } from "./storage.service";
+import { FileHashService } from "./file-hash.service";
+import { UploadResult, UploadSessionDto } from "../models";
+
+const uploadResult: UploadResult = {
+  success: true,
+  errorMessage: null,
+  photoId: 1,
+  fileId: "media/1.jpg",
+  fileName: "1.jpg",
+  filePath: "media/1.jpg",
+  fileSize: 4,
+  contentType: "image/jpeg",
+  fileUrl: null,
+  thumbnailUrl: null,
+};
+
+function file(name: string, size = 4): File {
+  const result = new File(["data"], name);
+  Object.defineProperty(result, "size", { value: size });
+  return result;
+}
+
+function session(receivedBytes: number, fileSize: number): UploadSessionDto {
+  return {
+    id: "s1",
+    fileName: "clip.mp4",
+    fileSize,
+    contentType: "video/mp4",
+    albumId: null,
+    overwrite: false,
+    receivedBytes,
+    chunkSize: CHUNKED_UPLOAD_THRESHOLD,
+    createdAt: "2025-01-01T00:00:00Z",
+    isComplete: receivedBytes >= fileSize,
+  };
+}
+
+describe("UploadManagerService", () => {
+  let service: UploadManagerService;
+  let uploads: Subject<unknown>[];
+  let storageServiceStub: {
+    uploadFileWithProgress: ReturnType<typeof vi.fn>;
+    createUploadSession: ReturnType<typeof vi.fn>;
+    getUploadSession: ReturnType<typeof vi.fn>;
+    uploadChunkWithProgress: ReturnType<typeof vi.fn>;
+    completeUploadSession: ReturnType<typeof vi.fn>;
+    cancelUploadSession: ReturnType<typeof vi.fn>;
+    checkDuplicates: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    uploads = [];
+    storageServiceStub = {
+      uploadFileWithProgress: vi.fn(() => {
+        const upload = new Subject<unknown>();
+        uploads.push(upload);
+        return upload;
+      }),
+      createUploadSession: vi.fn(),
+      getUploadSession: vi.fn(),
+      uploadChunkWithProgress: vi.fn(),
+      completeUploadSession: vi.fn(() => of(uploadResult)),
+      cancelUploadSession: vi.fn(() => of(undefined)),
+      checkDuplicates: vi.fn(() => of({ existingHashes: [] })),
+    };
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: StorageService, useValue: storageServiceStub },
+        {
+          provide: FileHashService,
+          useValue: { hash: (blob: File) => of(`hash-${blob.name}`) },
+        },
+      ],
+    });
+    service = TestBed.inject(UploadManagerService);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    localStorage.clear();
+  });
+
+  function finish(index: number): void {
+    uploads[index].next(new HttpResponse({ body: uploadResult }));
+    uploads[index].complete();
+  }
+
+  it("uploads files in parallel up to the concurrency limit", () => {
+    service.setConcurrency(2);
+
+    service.enqueue([file("a.jpg"), file("b.jpg"), file("c.jpg")], {
+      albumId: 5,
+    });
+
+    expect(storageServiceStub.uploadFileWithProgress).toHaveBeenCalledTimes(2);
+    expect(storageServiceStub.uploadFileWithProgress).toHaveBeenCalledWith(
+      expect.any(File),
+      { albumId: 5, overwrite: false },
+    );
+    expect(service.items().map((item) => item.status)).toEqual([
+      "uploading",
+      "uploading",
+      "queued",
+    ]);
+
+    finish(0);
+
+    expect(storageServiceStub.uploadFileWithProgress).toHaveBeenCalledTimes(3);
+    expect(service.items()[0].status).toBe("success");
+    expect(service.activeCount()).toBe(2);
+  });
+
+  it("reports byte progress for each file and overall", () => {
+    service.enqueue([file("a.jpg", 100), file("b.jpg", 100)]);
+
+    uploads[0].next({
+      type: HttpEventType.UploadProgress,
+      loaded: 50,
+      total: 100,
+    });
+
+    expect(service.items()[0].loaded).toBe(50);
+    expect(service.progress()).toBe(25);
+
+    uploads[1].next({
+      type: HttpEventType.UploadProgress,
+      loaded: 100,
+      total: 100,
+    });
+
+    expect(service.items()[1].status).toBe("processing");
+    expect(service.progress()).toBe(75);
+  });
+
+  it("retries network failures with backoff", () => {
+    vi.useFakeTimers();
+    service.enqueue([file("a.jpg")]);
+
+    uploads[0].error({ code: "HTTP_0", message: "Network error" });
+
+    expect(service.items()[0].status).toBe("retrying");
+    expect(storageServiceStub.uploadFileWithProgress).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1000);
+
+    expect(storageServiceStub.uploadFileWithProgress).toHaveBeenCalledTimes(2);
+    expect(service.items()[0].status).toBe("uploading");
+    expect(service.items()[0].attempts).toBe(2);
+  });
+
+  it("fails without retrying when the server rejects the file", () => {
+    service.enqueue([file("a.txt")]);
+
+    uploads[0].error({ code: "UNSUPPORTED_TYPE", message: "Not supported" });
+
+    expect(service.items()[0].status).toBe("error");
+    expect(service.items()[0].error).toBe("Not supported");
+
+    service.retry(service.items()[0].id);
+
+    expect(storageServiceStub.uploadFileWithProgress).toHaveBeenCalledTimes(2);
+    expect(service.items()[0].status).toBe("uploading");
+  });
+
+  it("uploads large files in chunks and resumes from the server's byte count", () => {
+    vi.useFakeTimers();
+    const size = CHUNKED_UPLOAD_THRESHOLD * 2;
+    storageServiceStub.createUploadSession.mockReturnValue(
+      of(session(0, size)),
+    );
+    storageServiceStub.getUploadSession.mockReturnValue(
+      of(session(CHUNKED_UPLOAD_THRESHOLD, size)),
+    );
+    storageServiceStub.uploadChunkWithProgress
+      .mockReturnValueOnce(
+        of(new HttpResponse({ body: session(CHUNKED_UPLOAD_THRESHOLD, size) })),
+      )
+      .mockReturnValueOnce(throwError(() => ({ code: "HTTP_502" })))
+      .mockReturnValueOnce(of(new HttpResponse({ body: session(size, size) })));
+
+    service.enqueue([file("clip.mp4", size)]);
+
+    expect(service.items()[0].chunked).toBe(true);
+    expect(service.items()[0].status).toBe("retrying");
+    expect(service.items()[0].loaded).toBe(CHUNKED_UPLOAD_THRESHOLD);
+
+    vi.advanceTimersByTime(1000);
+
+    expect(storageServiceStub.getUploadSession).toHaveBeenCalledWith("s1");
+    expect(
+      storageServiceStub.uploadChunkWithProgress.mock.calls.map(
+        ([, offset]) => offset,
+      ),
+    ).toEqual([0, CHUNKED_UPLOAD_THRESHOLD, CHUNKED_UPLOAD_THRESHOLD]);
+    expect(storageServiceStub.completeUploadSession).toHaveBeenCalledWith("s1");
+    expect(service.items()[0].status).toBe("success");
+    expect(service.progress()).toBe(100);
+  });
+
+  it("cancels an upload and discards its server session", () => {
+    const size = CHUNKED_UPLOAD_THRESHOLD * 2;
+    storageServiceStub.createUploadSession.mockReturnValue(
+      of(session(0, size)),
+    );
+    storageServiceStub.uploadChunkWithProgress.mockReturnValue(new Subject());
+
+    const [item] = service.enqueue([file("clip.mp4", size)]);
+    service.cancel(item.id);
+
+    expect(storageServiceStub.cancelUploadSession).toHaveBeenCalledWith("s1");
+    expect(service.items()[0].status).toBe("cancelled");
+    expect(service.activeCount()).toBe(0);
+
+    service.clearFinished();
+    expect(service.items()).toEqual([]);
+  });
+
+  it("notifies once the queue has drained", () => {
+    const finished: UploadResult[][] = [];
+    service.uploadsFinished$.subscribe((results) => finished.push(results));
+
+    service.enqueue([file("a.jpg"), file("b.jpg")]);
+    finish(0);
+    expect(finished).toEqual([]);
+
+    finish(1);
+    expect(finished).toEqual([[uploadResult, uploadResult]]);
+  });
+
+  it("holds back files already in the library until a decision is made", () => {
+    storageServiceStub.checkDuplicates.mockReturnValue(
+      of({ existingHashes: ["hash-b.jpg", "hash-c.jpg"] }),
+    );
+
+    service.enqueue([file("a.jpg"), file("b.jpg"), file("c.jpg")]);
+
+    expect(storageServiceStub.checkDuplicates).toHaveBeenCalledWith([
+      "hash-a.jpg",
+      "hash-b.jpg",
+      "hash-c.jpg",
+    ]);
+    expect(service.items().map((item) => item.status)).toEqual([
+      "uploading",
+      "duplicate",
+      "duplicate",
+    ]);
+    expect(service.duplicateBatches()).toEqual([
+      { batchId: 1, items: [service.items()[1], service.items()[2]] },
+    ]);
+
+    service.resolveDuplicates(1, "overwrite");
+
+    expect(storageServiceStub.uploadFileWithProgress).toHaveBeenLastCalledWith(
+      expect.any(File),
+      { albumId: null, overwrite: true },
+    );
+    expect(service.duplicateBatches()).toEqual([]);
+  });
+
+  it("skips duplicates and keeps them out of the progress", () => {
+    storageServiceStub.checkDuplicates.mockReturnValue(
+      of({ existingHashes: ["hash-b.jpg"] }),
+    );
+    service.enqueue([file("a.jpg", 100), file("b.jpg", 100)]);
+
+    service.resolveDuplicates(1, "skip");
+
+    expect(service.items()[1].status).toBe("skipped");
+    expect(storageServiceStub.uploadFileWithProgress).toHaveBeenCalledTimes(1);
+
+    finish(0);
+    expect(service.progress()).toBe(100);
+  });
+
+  it("uploads everything when the duplicate check fails", () => {
+    storageServiceStub.checkDuplicates.mockReturnValue(
+      throwError(() => ({ code: "HTTP_500" })),
+    );
+
+    service.enqueue([file("a.jpg"), file("b.jpg")]);
+
+    expect(storageServiceStub.uploadFileWithProgress).toHaveBeenCalledTimes(2);
+  });
+
+  it("remembers the concurrency setting", () => {
+    service.setConcurrency(10);
+
+    expect(service.concurrency()).toBe(6);
+    expect(localStorage.getItem("librafoto_upload_concurrency")).toBe("6");
+  });
+});
@@ -0,0 +1,527 @@
+import { HttpEventType, HttpResponse } from "@angular/common/http";
+import { computed, inject, Injectable, signal } from "@angular/core";
+import {
+  EMPTY,
+  Observable,
+  Subject,
+  Subscription,
+  catchError,
+  expand,
+  filter,
+  from,
+  last,
+  map,
+  mergeMap,
+  of,
+  switchMap,
+  tap,
+  timer,
+  toArray,
+} from "rxjs";
+import { FileHashService } from "./file-hash.service";
+import { StorageService } from "./storage.service";
+import { ApiError, UploadResult, UploadSessionDto } from "../models";
+
+const CONCURRENCY_KEY = "librafoto_upload_concurrency";
+
+export const DEFAULT_UPLOAD_CONCURRENCY = 3;
+export const MAX_UPLOAD_CONCURRENCY = 6;
+
+/** Files larger than this are sent in resumable chunks. */
+export const CHUNKED_UPLOAD_THRESHOLD = 20 * 1024 * 1024;
+
+/** Attempts per file before an upload is marked as failed. */
+export const MAX_UPLOAD_ATTEMPTS = 3;
+
+const RETRY_BASE_DELAY_MS = 1000;
+
+/** Files hashed at the same time while checking a batch for duplicates. */
+const HASH_CONCURRENCY = 2;
+
+/** Server errors that clear up by resending from the server's byte count. */
+const RETRYABLE_CODES = ["CHUNK_REJECTED", "SESSION_NOT_FOUND"];
+
+/** Errors after which the server no longer holds the upload session. */
+const SESSION_GONE_CODES = ["SESSION_NOT_FOUND", "UPLOAD_FAILED"];
+
+export type UploadStatus =
+  | "hashing"
+  | "duplicate"
+  | "queued"
+  | "uploading"
+  | "processing"
+  | "retrying"
+  | "success"
+  | "skipped"
+  | "error"
+  | "cancelled";
+
+/**
+ * What to do with the files of a batch that are already in the library:
+ * leave them out, replace the existing photos, or upload a second copy.
+ */
+export type DuplicateDecision = "skip" | "overwrite" | "keep";
+
+/**
+ * A file in the upload queue.
+ */
+export interface UploadItem {
+  id: number;
+  /** Files added together share a batch; duplicate decisions apply per batch. */
+  batchId: number;
+  file: File;
+  albumId: number | null;
+  status: UploadStatus;
+  /** SHA-256 of the file content, once computed. */
+  hash: string | null;
+  /** Whether the upload replaces photos with identical content. */
+  overwrite: boolean;
+  /** Bytes sent so far. */
+  loaded: number;
+  attempts: number;
+  /** Whether the file is sent in chunks through an upload session. */
+  chunked: boolean;
+  sessionId: string | null;
+  error: string | null;
+  result: UploadResult | null;
+}
+
+export interface UploadOptions {
+  albumId?: number | null;
+}
+
+/**
+ * Files of one batch that turned out to be in the library already and are
+ * waiting for a decision.
+ */
+export interface DuplicateBatch {
+  batchId: number;
+  items: UploadItem[];
+}
+
+function isActive(item: UploadItem): boolean {
+  return (
+    item.status === "hashing" ||
+    item.status === "queued" ||
+    item.status === "uploading" ||
+    item.status === "processing" ||
+    item.status === "retrying"
+  );
+}
+
+/** Active, or waiting for a duplicate decision. */
+function isPending(item: UploadItem): boolean {
+  return isActive(item) || item.status === "duplicate";
+}
+
+function isRetryable(error: ApiError | undefined): boolean {
+  const code = error?.code ?? "";
+  return /^HTTP_(0|5\d\d)$/.test(code) || RETRYABLE_CODES.includes(code);
+}
+
+function readConcurrency(): number {
+  const stored = Number(localStorage.getItem(CONCURRENCY_KEY));
+  return Number.isInteger(stored) && stored >= 1
+    ? Math.min(stored, MAX_UPLOAD_CONCURRENCY)
+    : DEFAULT_UPLOAD_CONCURRENCY;
+}
+
+/**
+ * Application-wide upload queue. Uploads several files in parallel with byte
+ * progress, retries network and server failures with backoff, and sends large
+ * files in chunks so an interrupted upload resumes where the server left off.
+ * Files are hashed first so ones already in the library can be skipped,
+ * replaced or kept as a second copy.
+ * Lives at the root so uploads keep running while navigating the admin app.
+ */
+@Injectable({
+  providedIn: "root",
+})
+export class UploadManagerService {
+  private readonly storageService = inject(StorageService);
+  private readonly fileHashService = inject(FileHashService);
+
+  private readonly _items = signal<UploadItem[]>([]);
+  private readonly _concurrency = signal(readConcurrency());
+  private readonly running = new Map<number, Subscription>();
+  private readonly retryTimers = new Map<number, Subscription>();
+  private readonly finished = new Subject<UploadResult[]>();
+  private completedResults: UploadResult[] = [];
+  private nextId = 1;
+  private nextBatchId = 1;
+
+  readonly items = this._items.asReadonly();
+  readonly concurrency = this._concurrency.asReadonly();
+
+  /** Emits the successful uploads of a run once the queue has drained. */
+  readonly uploadsFinished$ = this.finished.asObservable();
+
+  readonly activeCount = computed(() => this._items().filter(isActive).length);
+
+  /** Batches with files already in the library, awaiting a decision. */
+  readonly duplicateBatches = computed(() => {
+    const batches = new Map<number, UploadItem[]>();
+    this._items()
+      .filter((item) => item.status === "duplicate")
+      .forEach((item) =>
+        batches.set(item.batchId, [...(batches.get(item.batchId) ?? []), item]),
+      );
+    return [...batches].map(([batchId, items]): DuplicateBatch => ({
+      batchId,
+      items,
+    }));
+  });
+
+  /** Overall byte progress (0-100) of the files in the queue. */
+  readonly progress = computed(() => {
+    const items = this._items().filter(
+      (item) =>
+        item.status !== "cancelled" &&
+        item.status !== "skipped" &&
+        item.status !== "duplicate",
+    );
+    const total = items.reduce((sum, item) => sum + item.file.size, 0);
+    if (total === 0) {
+      return 0;
+    }
+    const loaded = items.reduce(
+      (sum, item) =>
+        sum + (item.status === "success" ? item.file.size : item.loaded),
+      0,
+    );
+    return Math.round((loaded / total) * 100);
+  });
+
+  /**
+   * Add files to the queue. They are hashed and checked against the library
+   * first; new files then start uploading while duplicates wait for
+   * `resolveDuplicates`.
+   */
+  enqueue(files: File[], options: UploadOptions = {}): UploadItem[] {
+    const batchId = this.nextBatchId++;
+    const added = files.map((file): UploadItem => ({
+      id: this.nextId++,
+      batchId,
+      file,
+      albumId: options.albumId ?? null,
+      status: "hashing",
+      hash: null,
+      overwrite: false,
+      loaded: 0,
+      attempts: 0,
+      chunked: file.size > CHUNKED_UPLOAD_THRESHOLD,
+      sessionId: null,
+      error: null,
+      result: null,
+    }));
+
+    this._items.update((items) => [...items, ...added]);
+    this.checkForDuplicates(added);
+    return added;
+  }
+
+  /**
+   * Apply a decision to the files of a batch that are already in the library.
+   */
+  resolveDuplicates(batchId: number, decision: DuplicateDecision): void {
+    this._items()
+      .filter((item) => item.batchId === batchId && item.status === "duplicate")
+      .forEach((item) =>
+        this.update(
+          item.id,
+          decision === "skip"
+            ? { status: "skipped" }
+            : { status: "queued", overwrite: decision === "overwrite" },
+        ),
+      );
+    this.pump();
+  }
+
+  /**
+   * Stop an upload and discard anything the server received for it.
+   */
+  cancel(id: number): void {
+    const item = this.find(id);
+    if (!item || !isPending(item)) {
+      return;
+    }
+
+    this.stop(id);
+    this.discardSession(item);
+    this.update(id, { status: "cancelled", sessionId: null });
+    this.pump();
+  }
+
+  /**
+   * Cancel every upload that has not finished.
+   */
+  cancelAll(): void {
+    this._items()
+      .filter(isPending)
+      .forEach((item) => this.cancel(item.id));
+  }
+
+  /**
+   * Queue a failed, cancelled or skipped upload again. Chunked uploads resume
+   * from the bytes the server already has.
+   */
+  retry(id: number): void {
+    const item = this.find(id);
+    if (
+      !item ||
+      (item.status !== "error" &&
+        item.status !== "cancelled" &&
+        item.status !== "skipped")
+    ) {
+      return;
+    }
+
+    this.update(id, { status: "queued", attempts: 0, error: null });
+    this.pump();
+  }
+
+  /**
+   * Remove finished, failed and cancelled uploads from the queue.
+   */
+  clearFinished(): void {
+    this._items()
+      .filter((item) => item.status === "error")
+      .forEach((item) => this.discardSession(item));
+    this._items.update((items) => items.filter(isPending));
+  }
+
+  /**
+   * Set how many files upload at the same time. Remembered across sessions.
+   */
+  setConcurrency(value: number): void {
+    const concurrency = Math.min(
+      Math.max(Math.round(value), 1),
+      MAX_UPLOAD_CONCURRENCY,
+    );
+    this._concurrency.set(concurrency);
+    localStorage.setItem(CONCURRENCY_KEY, String(concurrency));
+    this.pump();
+  }
+
+  /**
+   * Hash the files of a batch and ask the server which are already in the
+   * library. The check is best effort: if it fails, every file is uploaded.
+   */
+  private checkForDuplicates(batch: UploadItem[]): void {
+    from(batch)
+      .pipe(
+        mergeMap(
+          (item) =>
+            this.fileHashService
+              .hash(item.file)
+              .pipe(tap((hash) => this.update(item.id, { hash }))),
+          HASH_CONCURRENCY,
+        ),
+        toArray(),
+        switchMap((hashes) =>
+          this.storageService.checkDuplicates([...new Set(hashes)]),
+        ),
+        map((result) => new Set(result.existingHashes)),
+        catchError(() => of(new Set<string>())),
+      )
+      .subscribe((existing) => {
+        batch.forEach(({ id }) => {
+          const item = this.find(id);
+          if (item?.status === "hashing") {
+            this.update(id, {
+              status:
+                item.hash && existing.has(item.hash) ? "duplicate" : "queued",
+            });
+          }
+        });
+        this.pump();
+      });
+  }
+
+  private pump(): void {
+    const slots = this._concurrency() - this.running.size;
+    this._items()
+      .filter((item) => item.status === "queued")
+      .slice(0, Math.max(slots, 0))
+      .forEach((item) => this.start(item));
+
+    if (this.activeCount() === 0 && this.completedResults.length > 0) {
+      const results = this.completedResults;
+      this.completedResults = [];
+      this.finished.next(results);
+    }
+  }
+
+  private start(item: UploadItem): void {
+    this.update(item.id, {
+      status: "uploading",
+      attempts: item.attempts + 1,
+      error: null,
+    });
+
+    const upload$ = item.chunked
+      ? this.uploadChunked(item)
+      : this.uploadSingle(item);
+
+    const subscription = upload$.subscribe({
+      next: (result) => {
+        this.running.delete(item.id);
+        this.update(item.id, {
+          status: "success",
+          loaded: item.file.size,
+          sessionId: null,
+          result,
+        });
+        this.completedResults.push(result);
+        this.pump();
+      },
+      error: (error: ApiError) => {
+        this.running.delete(item.id);
+        this.handleFailure(item.id, error);
+        this.pump();
+      },
+    });
+
+    if (!subscription.closed) {
+      this.running.set(item.id, subscription);
+    }
+  }
+
+  private uploadSingle(item: UploadItem): Observable<UploadResult> {
+    return this.storageService
+      .uploadFileWithProgress(item.file, {
+        albumId: item.albumId,
+        overwrite: item.overwrite,
+      })
+      .pipe(
+        tap((event) => {
+          if (event.type === HttpEventType.UploadProgress) {
+            this.update(item.id, {
+              loaded: event.loaded,
+              status:
+                event.total && event.loaded >= event.total
+                  ? "processing"
+                  : "uploading",
+            });
+          }
+        }),
+        filter(
+          (event): event is HttpResponse<UploadResult> =>
+            event.type === HttpEventType.Response,
+        ),
+        map((event) => event.body!),
+      );
+  }
+
+  private uploadChunked(item: UploadItem): Observable<UploadResult> {
+    const session$ = item.sessionId
+      ? this.storageService.getUploadSession(item.sessionId)
+      : this.storageService.createUploadSession({
+          fileName: item.file.name,
+          fileSize: item.file.size,
+          contentType: item.file.type || null,
+          albumId: item.albumId,
+          overwrite: item.overwrite,
+        });
+
+    return session$.pipe(
+      tap((session) =>
+        this.update(item.id, {
+          sessionId: session.id,
+          loaded: session.receivedBytes,
+        }),
+      ),
+      expand((session) =>
+        session.receivedBytes < session.fileSize
+          ? this.uploadChunk(item, session)
+          : EMPTY,
+      ),
+      last(),
+      tap(() => this.update(item.id, { status: "processing" })),
+      switchMap((session) =>
+        this.storageService.completeUploadSession(session.id),
+      ),
+    );
+  }
+
+  private uploadChunk(
+    item: UploadItem,
+    session: UploadSessionDto,
+  ): Observable<UploadSessionDto> {
+    const offset = session.receivedBytes;
+    const chunk = item.file.slice(
+      offset,
+      Math.min(offset + session.chunkSize, session.fileSize),
+    );
+
+    return this.storageService
+      .uploadChunkWithProgress(session.id, offset, chunk)
+      .pipe(
+        tap((event) => {
+          if (event.type === HttpEventType.UploadProgress) {
+            this.update(item.id, { loaded: offset + event.loaded });
+          }
+        }),
+        filter(
+          (event): event is HttpResponse<UploadSessionDto> =>
+            event.type === HttpEventType.Response,
+        ),
+        map((event) => event.body!),
+        tap((updated) =>
+          this.update(item.id, { loaded: updated.receivedBytes }),
+        ),
+      );
+  }
+
+  private handleFailure(id: number, error: ApiError | undefined): void {
+    const item = this.find(id);
+    if (!item) {
+      return;
+    }
+
+    const sessionId = SESSION_GONE_CODES.includes(error?.code ?? "")
+      ? null
+      : item.sessionId;
+    const message = error?.message || "Upload failed";
+
+    if (isRetryable(error) && item.attempts < MAX_UPLOAD_ATTEMPTS) {
+      this.update(id, { status: "retrying", sessionId, error: message });
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (item.attempts - 1);
+      this.retryTimers.set(
+        id,
+        timer(delay).subscribe(() => {
+          this.retryTimers.delete(id);
+          this.update(id, { status: "queued" });
+          this.pump();
+        }),
+      );
+    } else {
+      this.update(id, { status: "error", sessionId, error: message });
+    }
+  }
+
+  private stop(id: number): void {
+    this.running.get(id)?.unsubscribe();
+    this.running.delete(id);
+    this.retryTimers.get(id)?.unsubscribe();
+    this.retryTimers.delete(id);
+  }
+
+  private discardSession(item: UploadItem): void {
+    if (item.sessionId) {
+      this.storageService.cancelUploadSession(item.sessionId).subscribe({
+        error: () => undefined,
+      });
+    }
+  }
+
+  private find(id: number): UploadItem | undefined {
+    return this._items().find((item) => item.id === id);
+  }
+
+  private update(id: number, changes: Partial<UploadItem>): void {
+    this._items.update((items) =>
+      items.map((item) => (item.id === id ? { ...item, ...changes } : item)),
+    );
+  }
+}
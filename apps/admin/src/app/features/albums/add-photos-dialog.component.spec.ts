@@ -0,0 +1,77 @@
+import { TestBed } from "@angular/core/testing";
+import { of } from "rxjs";
+import { describe, it, expect, vi } from "vitest";
+import { MatDialogRef, MAT_DIALOG_DATA } from "@angular/material/dialog";
+import { AddPhotosDialogComponent } from "./add-photos-dialog.component";
+import { AlbumService } from "../../core/services/album.service";
+import { PhotoService } from "../../core/services/photo.service";
+import { MediaType, PhotoListDto } from "../../core/models";
+
+function photo(id: number): PhotoListDto {
+  return {
+    id,
+    filename: `photo${id}.jpg`,
+    thumbnailPath: `thumb/photo${id}.jpg`,
+    width: 800,
+    height: 600,
+    mediaType: MediaType.Photo,
+    dateTaken: null,
+    dateAdded: "2025-01-01T00:00:00Z",
+    location: null,
+    albumCount: 0,
+    tagCount: 0,
+  };
+}
+
+describe("AddPhotosDialogComponent", () => {
+  it("adds the selected photos and skips ones already in the album", () => {
+    const dialogRefStub = {
+      close: vi.fn(),
+    } as Partial<MatDialogRef<AddPhotosDialogComponent>>;
+
+    const photoServiceStub = {
+      getPhotos: vi.fn(() =>
+        of({
+          data: [photo(1), photo(2), photo(3)],
+          pagination: { page: 1, pageSize: 48, totalItems: 3, totalPages: 1 },
+        }),
+      ),
+      getThumbnailUrl: vi.fn((p: PhotoListDto) => `/thumbs/${p.id}`),
+    } as Partial<PhotoService>;
+
+    const albumServiceStub = {
+      addPhotosToAlbum: vi.fn(() =>
+        of({ successCount: 1, failedCount: 0, errors: [] }),
+      ),
+    } as Partial<AlbumService>;
+
+    TestBed.configureTestingModule({
+      imports: [AddPhotosDialogComponent],
+      providers: [
+        { provide: MatDialogRef, useValue: dialogRefStub },
+        { provide: PhotoService, useValue: photoServiceStub },
+        { provide: AlbumService, useValue: albumServiceStub },
+        {
+          provide: MAT_DIALOG_DATA,
+          useValue: { albumId: 7, existingPhotoIds: [1] },
+        },
+      ],
+    });
+
+    const fixture = TestBed.createComponent(AddPhotosDialogComponent);
+    fixture.detectChanges();
+
+    const component = fixture.componentInstance;
+    expect(component.photos().length).toBe(3);
+    expect(component.hasMore()).toBe(false);
+
+    component.toggleSelection(1);
+    component.toggleSelection(3);
+    component.add();
+
+    expect(albumServiceStub.addPhotosToAlbum).toHaveBeenCalledWith(7, {
+      photoIds: [3],
+    });
+    expect(dialogRefStub.close).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,265 @@
+import { Component, inject, signal, computed, OnInit } from "@angular/core";
+import {
+  MatDialogModule,
+  MatDialogRef,
+  MAT_DIALOG_DATA,
+} from "@angular/material/dialog";
+import { MatButtonModule } from "@angular/material/button";
+import { MatFormFieldModule } from "@angular/material/form-field";
+import { MatInputModule } from "@angular/material/input";
+import { MatIconModule } from "@angular/material/icon";
+import { MatProgressSpinnerModule } from "@angular/material/progress-spinner";
+import { MatSnackBar, MatSnackBarModule } from "@angular/material/snack-bar";
+import { AlbumService } from "../../core/services/album.service";
+import { PhotoService } from "../../core/services/photo.service";
+import { PhotoListDto } from "../../core/models";
+
+interface DialogData {
+  albumId: number;
+  existingPhotoIds: number[];
+}
+
+/** Number of photos fetched per page in the picker. */
+const PAGE_SIZE = 48;
+
+@Component({
+  selector: "app-add-photos-dialog",
+  standalone: true,
+  imports: [
+    MatDialogModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+  ],
+  template: `
+    <h2 mat-dialog-title>Add Photos</h2>
+    <mat-dialog-content>
+      <mat-form-field appearance="outline" class="full-width">
+        <mat-label>Search</mat-label>
+        <input
+          matInput
+          placeholder="Filename or location"
+          [value]="search()"
+          (keyup.enter)="applySearch($event)"
+        />
+        <mat-icon matSuffix>search</mat-icon>
+      </mat-form-field>
+
+      <div class="picker-grid">
+        @for (photo of photos(); track photo.id) {
+          <button
+            type="button"
+            class="picker-item"
+            data-testid="picker-photo"
+            [class.selected]="selectedIds().has(photo.id)"
+            [disabled]="isInAlbum(photo.id)"
+            [title]="photo.filename"
+            (click)="toggleSelection(photo.id)"
+          >
+            <img
+              [src]="getThumbnailUrl(photo)"
+              [alt]="photo.filename"
+              loading="lazy"
+            />
+            @if (isInAlbum(photo.id) || selectedIds().has(photo.id)) {
+              <mat-icon class="check">check_circle</mat-icon>
+            }
+          </button>
+        }
+      </div>
+
+      @if (isLoading()) {
+        <div class="loading">
+          <mat-spinner diameter="32"></mat-spinner>
+        </div>
+      } @else if (photos().length === 0) {
+        <p class="hint">No photos found.</p>
+      } @else if (hasMore()) {
+        <div class="load-more">
+          <button mat-button (click)="loadMore()">Load More</button>
+        </div>
+      }
+    </mat-dialog-content>
+    <mat-dialog-actions align="end">
+      <button mat-button mat-dialog-close>Cancel</button>
+      <button
+        mat-raised-button
+        color="primary"
+        (click)="add()"
+        [disabled]="selectedIds().size === 0 || isSaving()"
+      >
+        @if (isSaving()) {
+          <mat-spinner diameter="20"></mat-spinner>
+        } @else {
+          Add {{ selectedIds().size || "" }}
+        }
+      </button>
+    </mat-dialog-actions>
+  `,
+  styles: [
+    `
+      .full-width {
+        width: 100%;
+      }
+
+      .picker-grid {
+        display: grid;
+        grid-template-columns: repeat(auto-fill, minmax(96px, 1fr));
+        gap: 8px;
+      }
+
+      .picker-item {
+        position: relative;
+        aspect-ratio: 1;
+        padding: 0;
+        border: none;
+        border-radius: 4px;
+        overflow: hidden;
+        background: #f5f5f5;
+        cursor: pointer;
+      }
+
+      .picker-item img {
+        width: 100%;
+        height: 100%;
+        object-fit: cover;
+      }
+
+      .picker-item.selected {
+        outline: 3px solid #667eea;
+      }
+
+      .picker-item:disabled {
+        cursor: default;
+        opacity: 0.5;
+      }
+
+      .check {
+        position: absolute;
+        top: 4px;
+        right: 4px;
+        color: #667eea;
+        background: white;
+        border-radius: 50%;
+      }
+
+      .loading,
+      .load-more {
+        display: flex;
+        justify-content: center;
+        padding: 16px;
+      }
+
+      .hint {
+        color: rgba(0, 0, 0, 0.54);
+        text-align: center;
+      }
+    `,
+  ],
+})
+export class AddPhotosDialogComponent implements OnInit {
+  private readonly dialogRef = inject(MatDialogRef<AddPhotosDialogComponent>);
+  private readonly data = inject<DialogData>(MAT_DIALOG_DATA);
+  private readonly albumService = inject(AlbumService);
+  private readonly photoService = inject(PhotoService);
+  private readonly snackBar = inject(MatSnackBar);
+
+  private readonly existingIds = new Set(this.data.existingPhotoIds);
+
+  photos = signal<PhotoListDto[]>([]);
+  selectedIds = signal<Set<number>>(new Set());
+  search = signal("");
+  page = signal(1);
+  totalPages = signal(0);
+  isLoading = signal(false);
+  isSaving = signal(false);
+
+  hasMore = computed(() => this.page() < this.totalPages());
+
+  ngOnInit(): void {
+    this.loadPage(1);
+  }
+
+  private loadPage(page: number): void {
+    this.isLoading.set(true);
+    this.photoService
+      .getPhotos({
+        page,
+        pageSize: PAGE_SIZE,
+        search: this.search() || undefined,
+      })
+      .subscribe({
+        next: (result) => {
+          this.photos.update((photos) =>
+            page === 1 ? result.data : [...photos, ...result.data],
+          );
+          this.page.set(result.pagination.page);
+          this.totalPages.set(result.pagination.totalPages);
+          this.isLoading.set(false);
+        },
+        error: (error) => {
+          console.error("Failed to load photos:", error);
+          this.isLoading.set(false);
+          this.snackBar.open("Failed to load photos", "Close", {
+            duration: 3000,
+          });
+        },
+      });
+  }
+
+  applySearch(event: Event): void {
+    this.search.set((event.target as HTMLInputElement).value.trim());
+    this.loadPage(1);
+  }
+
+  loadMore(): void {
+    this.loadPage(this.page() + 1);
+  }
+
+  isInAlbum(photoId: number): boolean {
+    return this.existingIds.has(photoId);
+  }
+
+  toggleSelection(photoId: number): void {
+    if (this.isInAlbum(photoId)) return;
+
+    this.selectedIds.update((ids) => {
+      const next = new Set(ids);
+      if (next.has(photoId)) {
+        next.delete(photoId);
+      } else {
+        next.add(photoId);
+      }
+      return next;
+    });
+  }
+
+  getThumbnailUrl(photo: PhotoListDto): string {
+    return this.photoService.getThumbnailUrl(photo);
+  }
+
+  add(): void {
+    const photoIds = [...this.selectedIds()];
+    if (photoIds.length === 0) return;
+
+    this.isSaving.set(true);
+    this.albumService
+      .addPhotosToAlbum(this.data.albumId, { photoIds })
+      .subscribe({
+        next: (result) => {
+          this.isSaving.set(false);
+          this.dialogRef.close(result.successCount);
+        },
+        error: (error) => {
+          console.error("Failed to add photos:", error);
+          this.isSaving.set(false);
+          this.snackBar.open("Failed to add photos", "Close", {
+            duration: 3000,
+          });
+        },
+      });
+  }
+}
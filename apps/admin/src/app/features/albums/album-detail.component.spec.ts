@@ -0,0 +1,194 @@
+import { TestBed } from "@angular/core/testing";
+import { of, throwError } from "rxjs";
+import { describe, it, expect, vi } from "vitest";
+import { ActivatedRoute, convertToParamMap } from "@angular/router";
+import { CdkDragDrop } from "@angular/cdk/drag-drop";
+import { MatDialog, MatDialogRef } from "@angular/material/dialog";
+import { AlbumDetailComponent } from "./album-detail.component";
+import { AlbumService } from "../../core/services/album.service";
+import { PhotoService } from "../../core/services/photo.service";
+import {
+  AlbumDto,
+  MediaType,
+  PagedResult,
+  PhotoListDto,
+} from "../../core/models";
+
+function photo(id: number): PhotoListDto {
+  return {
+    id,
+    filename: `photo${id}.jpg`,
+    thumbnailPath: `thumb/photo${id}.jpg`,
+    width: 800,
+    height: 600,
+    mediaType: MediaType.Photo,
+    dateTaken: null,
+    dateAdded: "2025-01-01T00:00:00Z",
+    location: null,
+    albumCount: 1,
+    tagCount: 0,
+  };
+}
+
+function page(
+  data: PhotoListDto[],
+  pageNumber: number,
+  totalPages: number,
+): PagedResult<PhotoListDto> {
+  return {
+    data,
+    pagination: {
+      page: pageNumber,
+      pageSize: 100,
+      totalItems: data.length,
+      totalPages,
+    },
+  };
+}
+
+const album: AlbumDto = {
+  id: 7,
+  name: "Holiday",
+  description: null,
+  coverPhotoId: null,
+  coverPhotoThumbnail: null,
+  dateCreated: "2025-01-01T00:00:00Z",
+  sortOrder: 0,
+  photoCount: 3,
+};
+
+function setup(albumServiceOverrides: Partial<AlbumService> = {}) {
+  const albumServiceStub = {
+    getAlbum: vi.fn(() => of(album)),
+    getAlbumPhotos: vi.fn((_albumId: number, pageNumber = 1) =>
+      of(
+        pageNumber === 1
+          ? page([photo(1), photo(2)], 1, 2)
+          : page([photo(3)], 2, 2),
+      ),
+    ),
+    reorderPhotos: vi.fn(() => of(undefined)),
+    setCoverPhoto: vi.fn(() => of({ ...album, coverPhotoId: 2 })),
+    removePhotosFromAlbum: vi.fn(() =>
+      of({ successCount: 1, failedCount: 0, errors: [] }),
+    ),
+    ...albumServiceOverrides,
+  } as Partial<AlbumService>;
+
+  const photoServiceStub = {
+    getThumbnailUrl: vi.fn((p: PhotoListDto) => `/thumbs/${p.id}`),
+  } as Partial<PhotoService>;
+
+  const routeStub = {
+    snapshot: { paramMap: convertToParamMap({ id: "7" }) },
+  } as unknown as ActivatedRoute;
+
+  TestBed.configureTestingModule({
+    imports: [AlbumDetailComponent],
+    providers: [
+      { provide: AlbumService, useValue: albumServiceStub },
+      { provide: PhotoService, useValue: photoServiceStub },
+      { provide: ActivatedRoute, useValue: routeStub },
+    ],
+  });
+
+  const fixture = TestBed.createComponent(AlbumDetailComponent);
+  fixture.detectChanges();
+
+  return { fixture, albumServiceStub };
+}
+
+function dropEvent(
+  previousIndex: number,
+  currentIndex: number,
+): CdkDragDrop<PhotoListDto[]> {
+  return { previousIndex, currentIndex } as CdkDragDrop<PhotoListDto[]>;
+}
+
+describe("AlbumDetailComponent", () => {
+  it("loads every page of album photos in album order", () => {
+    const { fixture, albumServiceStub } = setup();
+
+    expect(albumServiceStub.getAlbum).toHaveBeenCalledWith(7);
+    expect(albumServiceStub.getAlbumPhotos).toHaveBeenCalledTimes(2);
+    expect(fixture.componentInstance.photos().map((p) => p.id)).toEqual([
+      1, 2, 3,
+    ]);
+    expect(
+      fixture.nativeElement.querySelectorAll('[data-testid="album-photo"]')
+        .length,
+    ).toBe(3);
+  });
+
+  it("persists the new order after a drop", () => {
+    const { fixture, albumServiceStub } = setup();
+    const component = fixture.componentInstance;
+
+    component.drop(dropEvent(2, 0));
+
+    expect(component.photos().map((p) => p.id)).toEqual([3, 1, 2]);
+    expect(albumServiceStub.reorderPhotos).toHaveBeenCalledWith(7, {
+      photoOrders: [
+        { photoId: 3, sortOrder: 0 },
+        { photoId: 1, sortOrder: 1 },
+        { photoId: 2, sortOrder: 2 },
+      ],
+    });
+    expect(component.isSaving()).toBe(false);
+  });
+
+  it("restores the previous order when saving fails", () => {
+    const { fixture } = setup({
+      reorderPhotos: vi.fn(() => throwError(() => new Error("fail"))),
+    });
+    const component = fixture.componentInstance;
+
+    component.drop(dropEvent(0, 1));
+
+    expect(component.photos().map((p) => p.id)).toEqual([1, 2, 3]);
+  });
+
+  it("sets the cover photo", () => {
+    const { fixture, albumServiceStub } = setup();
+    const component = fixture.componentInstance;
+
+    component.setCover(photo(2));
+
+    expect(albumServiceStub.setCoverPhoto).toHaveBeenCalledWith(7, 2);
+    expect(component.album()?.coverPhotoId).toBe(2);
+  });
+
+  it("removes a photo from the album after confirmation", () => {
+    const { fixture, albumServiceStub } = setup();
+    const component = fixture.componentInstance;
+    vi.spyOn(window, "confirm").mockReturnValue(true);
+
+    component.removePhoto(photo(1));
+
+    expect(albumServiceStub.removePhotosFromAlbum).toHaveBeenCalledWith(7, {
+      photoIds: [1],
+    });
+    expect(component.photos().map((p) => p.id)).toEqual([2, 3]);
+    vi.restoreAllMocks();
+  });
+
+  it("opens the picker with the album's photos and reloads after adding", () => {
+    const { fixture, albumServiceStub } = setup();
+    // The component's MatDialogModule shadows a stub provided to TestBed
+    const dialog = fixture.debugElement.injector.get(MatDialog);
+    const open = vi
+      .spyOn(dialog, "open")
+      .mockReturnValue({ afterClosed: () => of(2) } as MatDialogRef<unknown>);
+
+    fixture.componentInstance.openAddPhotosDialog();
+
+    expect(open).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        data: { albumId: 7, existingPhotoIds: [1, 2, 3] },
+      }),
+    );
+    expect(albumServiceStub.getAlbum).toHaveBeenCalledTimes(2);
+    vi.restoreAllMocks();
+  });
+});
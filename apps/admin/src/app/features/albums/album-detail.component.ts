@@ -0,0 +1,442 @@
+import { Component, inject, signal, OnInit } from "@angular/core";
+import {
+  CdkDragDrop,
+  DragDropModule,
+  moveItemInArray,
+} from "@angular/cdk/drag-drop";
+import { MatCardModule } from "@angular/material/card";
+import { MatButtonModule } from "@angular/material/button";
+import { MatIconModule } from "@angular/material/icon";
+import { MatDialog, MatDialogModule } from "@angular/material/dialog";
+import { MatMenuModule } from "@angular/material/menu";
+import { MatProgressSpinnerModule } from "@angular/material/progress-spinner";
+import { MatSnackBar, MatSnackBarModule } from "@angular/material/snack-bar";
+import { MatTooltipModule } from "@angular/material/tooltip";
+import { ActivatedRoute, RouterLink } from "@angular/router";
+import { EMPTY, Observable, expand, forkJoin, map, reduce } from "rxjs";
+import { AlbumService } from "../../core/services/album.service";
+import { PhotoService } from "../../core/services/photo.service";
+import { AlbumDto, MediaType, PhotoListDto } from "../../core/models";
+import { AddPhotosDialogComponent } from "./add-photos-dialog.component";
+
+/** Largest page the album photos endpoint returns. */
+const PAGE_SIZE = 100;
+
+@Component({
+  selector: "app-album-detail",
+  standalone: true,
+  imports: [
+    DragDropModule,
+    RouterLink,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatDialogModule,
+    MatMenuModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+    MatTooltipModule,
+  ],
+  template: `
+    <div class="album-detail-container">
+      <div class="header">
+        <div class="title">
+          <button mat-icon-button routerLink="/albums" aria-label="Back">
+            <mat-icon>arrow_back</mat-icon>
+          </button>
+          <div>
+            <h1>{{ album()?.name ?? "Album" }}</h1>
+            @if (album()?.description) {
+              <p class="description">{{ album()?.description }}</p>
+            }
+          </div>
+        </div>
+        <button
+          mat-raised-button
+          color="primary"
+          (click)="openAddPhotosDialog()"
+          [disabled]="!album()"
+        >
+          <mat-icon>add_photo_alternate</mat-icon>
+          Add Photos
+        </button>
+      </div>
+
+      @if (isLoading()) {
+        <div class="loading">
+          <mat-spinner diameter="40"></mat-spinner>
+        </div>
+      } @else if (photos().length === 0) {
+        <mat-card class="empty-state">
+          <mat-card-content>
+            <mat-icon>photo_library</mat-icon>
+            <h2>This album is empty</h2>
+            <p>Add photos to include them in this album's slideshow.</p>
+          </mat-card-content>
+        </mat-card>
+      } @else {
+        <p class="hint">Drag photos to change their order in the album.</p>
+        <div
+          class="photo-grid"
+          cdkDropList
+          cdkDropListOrientation="mixed"
+          [cdkDropListData]="photos()"
+          [cdkDropListDisabled]="isSaving()"
+          (cdkDropListDropped)="drop($event)"
+        >
+          @for (photo of photos(); track photo.id) {
+            <div class="photo-card" cdkDrag data-testid="album-photo">
+              <div class="photo-thumbnail">
+                <img
+                  [src]="getThumbnailUrl(photo)"
+                  [alt]="photo.filename"
+                  loading="lazy"
+                  draggable="false"
+                />
+                @if (photo.id === album()?.coverPhotoId) {
+                  <div class="cover-badge" matTooltip="Album cover">
+                    <mat-icon>star</mat-icon>
+                  </div>
+                }
+                @if (photo.mediaType === MediaType.Video) {
+                  <div class="video-indicator">
+                    <mat-icon>videocam</mat-icon>
+                  </div>
+                }
+                <button
+                  mat-icon-button
+                  class="photo-menu"
+                  [matMenuTriggerFor]="photoMenu"
+                  aria-label="Photo actions"
+                >
+                  <mat-icon>more_vert</mat-icon>
+                </button>
+                <mat-menu #photoMenu="matMenu">
+                  <button
+                    mat-menu-item
+                    (click)="setCover(photo)"
+                    [disabled]="photo.id === album()?.coverPhotoId"
+                  >
+                    <mat-icon>star</mat-icon>
+                    Set as Cover
+                  </button>
+                  <button
+                    mat-menu-item
+                    (click)="removePhoto(photo)"
+                    class="delete-action"
+                  >
+                    <mat-icon>remove_circle_outline</mat-icon>
+                    Remove from Album
+                  </button>
+                </mat-menu>
+              </div>
+              <div class="photo-info" [title]="photo.filename">
+                {{ photo.filename }}
+              </div>
+            </div>
+          }
+        </div>
+      }
+    </div>
+  `,
+  styles: [
+    `
+      .album-detail-container {
+        padding: 24px;
+      }
+
+      .header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        gap: 16px;
+        margin-bottom: 24px;
+      }
+
+      .title {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+      }
+
+      .title h1 {
+        margin: 0;
+      }
+
+      .description {
+        color: rgba(0, 0, 0, 0.6);
+        margin: 4px 0 0;
+      }
+
+      .loading {
+        display: flex;
+        justify-content: center;
+        padding: 48px;
+      }
+
+      .empty-state {
+        text-align: center;
+        padding: 48px;
+      }
+
+      .empty-state mat-icon {
+        font-size: 64px;
+        width: 64px;
+        height: 64px;
+        color: rgba(0, 0, 0, 0.3);
+      }
+
+      .empty-state h2 {
+        margin: 16px 0 8px;
+      }
+
+      .empty-state p,
+      .hint {
+        color: rgba(0, 0, 0, 0.6);
+      }
+
+      .photo-grid {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 16px;
+      }
+
+      .photo-card {
+        width: 160px;
+        background: white;
+        border-radius: 8px;
+        overflow: hidden;
+        box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+        cursor: move;
+      }
+
+      .photo-thumbnail {
+        position: relative;
+        aspect-ratio: 1;
+        background: #f5f5f5;
+      }
+
+      .photo-thumbnail img {
+        width: 100%;
+        height: 100%;
+        object-fit: cover;
+      }
+
+      .cover-badge,
+      .video-indicator {
+        position: absolute;
+        left: 8px;
+        background: rgba(0, 0, 0, 0.7);
+        color: white;
+        border-radius: 4px;
+        padding: 4px;
+        display: flex;
+        align-items: center;
+      }
+
+      .cover-badge {
+        top: 8px;
+        color: #ffc107;
+      }
+
+      .video-indicator {
+        bottom: 8px;
+      }
+
+      .cover-badge mat-icon,
+      .video-indicator mat-icon {
+        font-size: 18px;
+        width: 18px;
+        height: 18px;
+      }
+
+      .photo-menu {
+        position: absolute;
+        top: 4px;
+        right: 4px;
+        color: white;
+        background: rgba(0, 0, 0, 0.4);
+      }
+
+      .photo-info {
+        padding: 8px;
+        font-size: 12px;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+
+      .cdk-drag-preview {
+        box-shadow: 0 8px 24px rgba(0, 0, 0, 0.3);
+      }
+
+      .cdk-drag-placeholder {
+        opacity: 0.3;
+      }
+
+      .cdk-drag-animating,
+      .photo-grid.cdk-drop-list-dragging
+        .photo-card:not(.cdk-drag-placeholder) {
+        transition: transform 250ms cubic-bezier(0, 0, 0.2, 1);
+      }
+
+      .delete-action {
+        color: #f44336;
+      }
+    `,
+  ],
+})
+export class AlbumDetailComponent implements OnInit {
+  private readonly route = inject(ActivatedRoute);
+  private readonly albumService = inject(AlbumService);
+  private readonly photoService = inject(PhotoService);
+  private readonly dialog = inject(MatDialog);
+  private readonly snackBar = inject(MatSnackBar);
+
+  private albumId = 0;
+
+  album = signal<AlbumDto | null>(null);
+  photos = signal<PhotoListDto[]>([]);
+  isLoading = signal(true);
+  isSaving = signal(false);
+
+  // Expose enum to template
+  MediaType = MediaType;
+
+  ngOnInit(): void {
+    this.albumId = Number(this.route.snapshot.paramMap.get("id"));
+    this.loadAlbum();
+  }
+
+  private loadAlbum(): void {
+    this.isLoading.set(true);
+    forkJoin({
+      album: this.albumService.getAlbum(this.albumId),
+      photos: this.loadAllPhotos(),
+    }).subscribe({
+      next: ({ album, photos }) => {
+        this.album.set(album);
+        this.photos.set(photos);
+        this.isLoading.set(false);
+      },
+      error: (error) => {
+        console.error("Failed to load album:", error);
+        this.isLoading.set(false);
+        this.snackBar.open("Failed to load album", "Close", {
+          duration: 3000,
+        });
+      },
+    });
+  }
+
+  /**
+   * Fetches every page so the whole album can be reordered at once.
+   */
+  private loadAllPhotos(): Observable<PhotoListDto[]> {
+    const fetchPage = (page: number) =>
+      this.albumService.getAlbumPhotos(this.albumId, page, PAGE_SIZE);
+
+    return fetchPage(1).pipe(
+      expand((result) =>
+        result.pagination.page < result.pagination.totalPages
+          ? fetchPage(result.pagination.page + 1)
+          : EMPTY,
+      ),
+      map((result) => result.data),
+      reduce((all, data) => [...all, ...data], [] as PhotoListDto[]),
+    );
+  }
+
+  getThumbnailUrl(photo: PhotoListDto): string {
+    return this.photoService.getThumbnailUrl(photo);
+  }
+
+  drop(event: CdkDragDrop<PhotoListDto[]>): void {
+    if (event.previousIndex === event.currentIndex) return;
+
+    const previous = this.photos();
+    const reordered = [...previous];
+    moveItemInArray(reordered, event.previousIndex, event.currentIndex);
+    this.photos.set(reordered);
+    this.isSaving.set(true);
+
+    this.albumService
+      .reorderPhotos(this.albumId, {
+        photoOrders: reordered.map((photo, index) => ({
+          photoId: photo.id,
+          sortOrder: index,
+        })),
+      })
+      .subscribe({
+        next: () => this.isSaving.set(false),
+        error: (error) => {
+          console.error("Failed to reorder photos:", error);
+          this.photos.set(previous);
+          this.isSaving.set(false);
+          this.snackBar.open("Failed to save photo order", "Close", {
+            duration: 3000,
+          });
+        },
+      });
+  }
+
+  setCover(photo: PhotoListDto): void {
+    this.albumService.setCoverPhoto(this.albumId, photo.id).subscribe({
+      next: (album) => {
+        this.album.set(album);
+        this.snackBar.open("Cover photo updated", "Close", {
+          duration: 3000,
+        });
+      },
+      error: (error) => {
+        console.error("Failed to set cover photo:", error);
+        this.snackBar.open("Failed to set cover photo", "Close", {
+          duration: 3000,
+        });
+      },
+    });
+  }
+
+  removePhoto(photo: PhotoListDto): void {
+    if (!confirm(`Remove "${photo.filename}" from this album?`)) return;
+
+    this.albumService
+      .removePhotosFromAlbum(this.albumId, { photoIds: [photo.id] })
+      .subscribe({
+        next: () => {
+          this.photos.update((photos) =>
+            photos.filter((p) => p.id !== photo.id),
+          );
+          this.snackBar.open("Photo removed from album", "Close", {
+            duration: 3000,
+          });
+        },
+        error: (error) => {
+          console.error("Failed to remove photo:", error);
+          this.snackBar.open("Failed to remove photo", "Close", {
+            duration: 3000,
+          });
+        },
+      });
+  }
+
+  openAddPhotosDialog(): void {
+    const dialogRef = this.dialog.open(AddPhotosDialogComponent, {
+      width: "720px",
+      maxHeight: "90vh",
+      data: {
+        albumId: this.albumId,
+        existingPhotoIds: this.photos().map((photo) => photo.id),
+      },
+    });
+
+    dialogRef.afterClosed().subscribe((added: number | undefined) => {
+      if (added) {
+        this.snackBar.open(`Added ${added} photo(s)`, "Close", {
+          duration: 3000,
+        });
+        this.loadAlbum();
+      }
+    });
+  }
+}
@@ -93,11 +93,7 @@ import { CreateAlbumDialogComponent } from "./create-album-dialog.component";
             </p>
           </mat-card-content>
           <mat-card-actions>
-            <button
-              mat-button
-              routerLink="/photos"
-              [queryParams]="{ albumId: album.id }"
-            >
+            <button mat-button [routerLink]="['/albums', album.id]">
               View Photos
             </button>
             <button mat-icon-button [matMenuTriggerFor]="albumMenu">
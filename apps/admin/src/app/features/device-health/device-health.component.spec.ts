@@ -0,0 +1,145 @@
+import { TestBed } from "@angular/core/testing";
+import { of, throwError } from "rxjs";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { MatSnackBar } from "@angular/material/snack-bar";
+import { DeviceHealthComponent } from "./device-health.component";
+import { DisplayDeviceService } from "../../core/services/display-device.service";
+import {
+  DisplayDeviceHealthDto,
+  DisplayDeviceHealthStatus,
+} from "../../core/models";
+
+describe("DeviceHealthComponent", () => {
+  const device: DisplayDeviceHealthDto = {
+    id: 1,
+    deviceId: "frame-1",
+    name: "Kitchen",
+    status: DisplayDeviceHealthStatus.Online,
+    lastSeenAt: "2026-10-19T12:00:00Z",
+    lastHeartbeatAt: "2026-10-19T12:00:00Z",
+    currentPhotoId: 7,
+    uptimeSeconds: 93784,
+    lastSuccessfulFetchAt: "2026-10-19T11:59:00Z",
+    errorCount: 2,
+    cacheUsageBytes: 50 * 1024 * 1024,
+    cacheQuotaBytes: 2 * 1024 * 1024 * 1024,
+    screenWidth: 1920,
+    screenHeight: 1080,
+    jsHeapUsedBytes: null,
+    jsHeapLimitBytes: null,
+    recentErrors: [
+      {
+        occurredAt: "2026-10-19T11:58:00Z",
+        message: "Image failed to load",
+        source: "slideshow.js:10:4",
+      },
+    ],
+  };
+
+  function setup(devices: DisplayDeviceHealthDto[] = [device]) {
+    const deviceServiceStub = {
+      getDeviceHealth: vi.fn(() => of(devices)),
+    };
+
+    TestBed.configureTestingModule({
+      imports: [DeviceHealthComponent],
+      providers: [
+        { provide: DisplayDeviceService, useValue: deviceServiceStub },
+      ],
+    });
+
+    const fixture = TestBed.createComponent(DeviceHealthComponent);
+    const openSpy = vi
+      .spyOn(fixture.debugElement.injector.get(MatSnackBar), "open")
+      .mockReturnValue({} as never);
+    fixture.detectChanges();
+    return { fixture, deviceServiceStub, openSpy };
+  }
+
+  afterEach(() => {
+    TestBed.resetTestingModule();
+    vi.restoreAllMocks();
+  });
+
+  it("lists devices with their status and metrics", () => {
+    const { fixture } = setup([
+      device,
+      {
+        ...device,
+        id: 2,
+        name: "Hallway",
+        status: DisplayDeviceHealthStatus.Stale,
+      },
+    ]);
+
+    const statuses = Array.from(
+      fixture.nativeElement.querySelectorAll("[data-testid='device-status']"),
+      (el) => (el as HTMLElement).textContent?.trim(),
+    );
+    expect(statuses).toEqual(["Online", "Stale"]);
+    const text = fixture.nativeElement.textContent;
+    expect(text).toContain("1d 2h");
+    expect(text).toContain("50.0 MB of 2.0 GB");
+    expect(text).toContain("1920 × 1080");
+  });
+
+  it("notes devices that have not reported yet", () => {
+    const { fixture } = setup([
+      {
+        ...device,
+        status: DisplayDeviceHealthStatus.Offline,
+        lastHeartbeatAt: null,
+        recentErrors: [],
+      },
+    ]);
+
+    expect(fixture.nativeElement.textContent).toContain(
+      "This frame has not sent a health report yet.",
+    );
+    expect(fixture.nativeElement.textContent).toContain("Offline");
+  });
+
+  it("expands the recent error log", () => {
+    const { fixture } = setup();
+    expect(
+      fixture.nativeElement.querySelector("[data-testid='error-log']"),
+    ).toBeNull();
+
+    fixture.componentInstance.toggleErrors(1);
+    fixture.detectChanges();
+
+    const log = fixture.nativeElement.querySelector(
+      "[data-testid='error-log']",
+    ) as HTMLElement;
+    expect(log.textContent).toContain("Image failed to load");
+    expect(log.textContent).toContain("slideshow.js:10:4");
+
+    fixture.componentInstance.toggleErrors(1);
+    expect(fixture.componentInstance.isExpanded(1)).toBe(false);
+  });
+
+  it("shows an empty state when no frames registered", () => {
+    const { fixture } = setup([]);
+
+    expect(fixture.nativeElement.textContent).toContain(
+      "No frames have registered yet",
+    );
+  });
+
+  it("reports load failures", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { fixture, deviceServiceStub, openSpy } = setup();
+    deviceServiceStub.getDeviceHealth.mockReturnValue(
+      throwError(() => new Error("boom")),
+    );
+
+    fixture.componentInstance.loadHealth();
+
+    expect(openSpy).toHaveBeenCalledWith(
+      "Failed to load device health",
+      "Close",
+      { duration: 3000 },
+    );
+    expect(fixture.componentInstance.isLoading()).toBe(false);
+  });
+});
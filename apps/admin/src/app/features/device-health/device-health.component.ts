@@ -0,0 +1,401 @@
+import { Component, inject, signal, OnInit, OnDestroy } from "@angular/core";
+import { CommonModule } from "@angular/common";
+import { MatCardModule } from "@angular/material/card";
+import { MatButtonModule } from "@angular/material/button";
+import { MatIconModule } from "@angular/material/icon";
+import { MatProgressSpinnerModule } from "@angular/material/progress-spinner";
+import { MatSnackBar, MatSnackBarModule } from "@angular/material/snack-bar";
+import { MatTooltipModule } from "@angular/material/tooltip";
+import { Subject, interval, takeUntil } from "rxjs";
+import { DisplayDeviceService } from "../../core/services/display-device.service";
+import {
+  DisplayDeviceHealthDto,
+  DisplayDeviceHealthStatus,
+} from "../../core/models";
+
+/** How often device health refreshes (ms). */
+const HEALTH_REFRESH_INTERVAL = 30000;
+
+@Component({
+  selector: "app-device-health",
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+    MatTooltipModule,
+  ],
+  template: `
+    <div class="health-container">
+      <div class="header">
+        <div>
+          <h1>Device Health</h1>
+          <p class="subtitle">
+            Frames report their health every minute. A frame that misses a few
+            reports is shown as stale, and as offline after half an hour.
+          </p>
+        </div>
+        <button mat-icon-button matTooltip="Refresh" (click)="loadHealth()">
+          <mat-icon>refresh</mat-icon>
+        </button>
+      </div>
+
+      @if (isLoading()) {
+        <div class="loading">
+          <mat-spinner diameter="40"></mat-spinner>
+        </div>
+      } @else if (devices().length === 0) {
+        <div class="empty-state">
+          <mat-icon>tv_off</mat-icon>
+          <p>No frames have registered yet</p>
+        </div>
+      } @else {
+        <div class="device-list">
+          @for (device of devices(); track device.id) {
+            <mat-card class="device-card">
+              <mat-card-header>
+                <mat-card-title>{{ device.name }}</mat-card-title>
+                <mat-card-subtitle>
+                  Last seen {{ device.lastSeenAt | date: "medium" }}
+                </mat-card-subtitle>
+                <span
+                  [class]="'status ' + statusClass(device.status)"
+                  data-testid="device-status"
+                >
+                  {{ statusLabel(device.status) }}
+                </span>
+              </mat-card-header>
+
+              <mat-card-content>
+                @if (device.lastHeartbeatAt) {
+                  <dl class="metrics">
+                    <div>
+                      <dt>Current photo</dt>
+                      <dd>{{ device.currentPhotoId ?? "None" }}</dd>
+                    </div>
+                    <div>
+                      <dt>Uptime</dt>
+                      <dd>{{ formatUptime(device.uptimeSeconds) }}</dd>
+                    </div>
+                    <div>
+                      <dt>Last successful fetch</dt>
+                      <dd>
+                        {{
+                          device.lastSuccessfulFetchAt
+                            ? (device.lastSuccessfulFetchAt | date: "medium")
+                            : "Never"
+                        }}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt>Errors</dt>
+                      <dd>{{ device.errorCount }}</dd>
+                    </div>
+                    <div>
+                      <dt>Cache</dt>
+                      <dd>
+                        {{
+                          formatUsage(
+                            device.cacheUsageBytes,
+                            device.cacheQuotaBytes
+                          )
+                        }}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt>Screen</dt>
+                      <dd>
+                        @if (device.screenWidth && device.screenHeight) {
+                          {{ device.screenWidth }} × {{ device.screenHeight }}
+                        } @else {
+                          Unknown
+                        }
+                      </dd>
+                    </div>
+                    <div>
+                      <dt>JS heap</dt>
+                      <dd>
+                        {{
+                          formatUsage(
+                            device.jsHeapUsedBytes,
+                            device.jsHeapLimitBytes
+                          )
+                        }}
+                      </dd>
+                    </div>
+                  </dl>
+                } @else {
+                  <p class="no-heartbeat">
+                    This frame has not sent a health report yet.
+                  </p>
+                }
+
+                @if (device.recentErrors.length > 0) {
+                  <button
+                    mat-button
+                    class="errors-toggle"
+                    (click)="toggleErrors(device.id)"
+                  >
+                    <mat-icon>{{
+                      isExpanded(device.id) ? "expand_less" : "expand_more"
+                    }}</mat-icon>
+                    Recent errors ({{ device.recentErrors.length }})
+                  </button>
+                  @if (isExpanded(device.id)) {
+                    <ul class="error-log" data-testid="error-log">
+                      @for (error of device.recentErrors; track $index) {
+                        <li>
+                          <span class="error-time">{{
+                            error.occurredAt | date: "medium"
+                          }}</span>
+                          <span class="error-message">{{ error.message }}</span>
+                          @if (error.source) {
+                            <span class="error-source">{{ error.source }}</span>
+                          }
+                        </li>
+                      }
+                    </ul>
+                  }
+                }
+              </mat-card-content>
+            </mat-card>
+          }
+        </div>
+      }
+    </div>
+  `,
+  styles: [
+    `
+      .health-container {
+        padding: 24px;
+      }
+
+      .header {
+        display: flex;
+        align-items: flex-start;
+        justify-content: space-between;
+        gap: 16px;
+      }
+
+      .subtitle {
+        color: rgba(0, 0, 0, 0.6);
+        margin-bottom: 24px;
+      }
+
+      .loading {
+        display: flex;
+        justify-content: center;
+        padding: 48px;
+      }
+
+      .empty-state {
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        padding: 48px;
+        color: rgba(0, 0, 0, 0.54);
+      }
+
+      .empty-state mat-icon {
+        font-size: 48px;
+        width: 48px;
+        height: 48px;
+      }
+
+      .device-list {
+        display: flex;
+        flex-direction: column;
+        gap: 16px;
+      }
+
+      mat-card-header {
+        position: relative;
+      }
+
+      .status {
+        position: absolute;
+        top: 16px;
+        right: 16px;
+        padding: 2px 10px;
+        border-radius: 16px;
+        font-size: 12px;
+        color: white;
+      }
+
+      .status.online {
+        background-color: #4caf50;
+      }
+
+      .status.stale {
+        background-color: #ff9800;
+      }
+
+      .status.offline {
+        background-color: #9e9e9e;
+      }
+
+      mat-card-content {
+        padding-top: 16px;
+      }
+
+      .metrics {
+        display: grid;
+        grid-template-columns: repeat(auto-fill, minmax(180px, 1fr));
+        gap: 12px 24px;
+        margin: 0;
+      }
+
+      .metrics dt {
+        font-size: 12px;
+        color: rgba(0, 0, 0, 0.6);
+      }
+
+      .metrics dd {
+        margin: 0;
+      }
+
+      .no-heartbeat {
+        margin: 0;
+        color: rgba(0, 0, 0, 0.6);
+      }
+
+      .errors-toggle {
+        margin-top: 12px;
+      }
+
+      .error-log {
+        list-style: none;
+        margin: 8px 0 0;
+        padding: 0;
+        max-height: 320px;
+        overflow-y: auto;
+        font-size: 13px;
+      }
+
+      .error-log li {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 4px 12px;
+        padding: 8px 0;
+        border-top: 1px solid rgba(0, 0, 0, 0.12);
+      }
+
+      .error-time,
+      .error-source {
+        color: rgba(0, 0, 0, 0.6);
+      }
+
+      .error-message {
+        flex: 1 1 auto;
+        color: #c62828;
+        word-break: break-word;
+      }
+
+      .error-source {
+        font-family: monospace;
+      }
+    `,
+  ],
+})
+export class DeviceHealthComponent implements OnInit, OnDestroy {
+  private readonly deviceService = inject(DisplayDeviceService);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly destroy$ = new Subject<void>();
+
+  devices = signal<DisplayDeviceHealthDto[]>([]);
+  isLoading = signal(true);
+  expandedIds = signal<ReadonlySet<number>>(new Set());
+
+  ngOnInit(): void {
+    this.loadHealth();
+    interval(HEALTH_REFRESH_INTERVAL)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.refreshHealth());
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  loadHealth(): void {
+    this.isLoading.set(true);
+    this.deviceService.getDeviceHealth().subscribe({
+      next: (devices) => {
+        this.devices.set(devices);
+        this.isLoading.set(false);
+      },
+      error: (error) => {
+        console.error("Failed to load device health:", error);
+        this.isLoading.set(false);
+        this.snackBar.open("Failed to load device health", "Close", {
+          duration: 3000,
+        });
+      },
+    });
+  }
+
+  statusLabel(status: DisplayDeviceHealthStatus): string {
+    switch (status) {
+      case DisplayDeviceHealthStatus.Online:
+        return "Online";
+      case DisplayDeviceHealthStatus.Stale:
+        return "Stale";
+      default:
+        return "Offline";
+    }
+  }
+
+  statusClass(status: DisplayDeviceHealthStatus): string {
+    return this.statusLabel(status).toLowerCase();
+  }
+
+  isExpanded(id: number): boolean {
+    return this.expandedIds().has(id);
+  }
+
+  toggleErrors(id: number): void {
+    this.expandedIds.update((ids) => {
+      const next = new Set(ids);
+      if (!next.delete(id)) {
+        next.add(id);
+      }
+      return next;
+    });
+  }
+
+  formatUptime(seconds: number | null): string {
+    if (seconds === null) return "Unknown";
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    return `${minutes}m`;
+  }
+
+  formatUsage(used: number | null, limit: number | null): string {
+    if (used === null) return "Unknown";
+    if (limit === null) return this.formatBytes(used);
+    return `${this.formatBytes(used)} of ${this.formatBytes(limit)}`;
+  }
+
+  private formatBytes(bytes: number): string {
+    if (bytes < 1024) return bytes + " B";
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
+    if (bytes < 1024 * 1024 * 1024)
+      return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+    return (bytes / (1024 * 1024 * 1024)).toFixed(1) + " GB";
+  }
+
+  private refreshHealth(): void {
+    this.deviceService.getDeviceHealth().subscribe({
+      next: (devices) => this.devices.set(devices),
+      error: (error) =>
+        console.error("Failed to refresh device health:", error),
+    });
+  }
+}
@@ -0,0 +1,120 @@
+import { TestBed } from "@angular/core/testing";
+import { of, throwError } from "rxjs";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { MatSnackBar } from "@angular/material/snack-bar";
+import { DevicesComponent } from "./devices.component";
+import { DisplayDeviceService } from "../../core/services/display-device.service";
+import { DisplaySettingsService } from "../../core/services/display-settings.service";
+import { DisplayDeviceDto, DisplaySettingsDto } from "../../core/models";
+
+describe("DevicesComponent", () => {
+  const device: DisplayDeviceDto = {
+    id: 1,
+    deviceId: "frame-1",
+    name: "Kitchen",
+    displaySettingsId: null,
+    displaySettingsName: null,
+    currentPhotoId: 7,
+    dateRegistered: "2026-10-01T12:00:00Z",
+    lastSeenAt: new Date().toISOString(),
+  };
+
+  const profile = { id: 3, name: "Evening" } as DisplaySettingsDto;
+
+  function setup(devices: DisplayDeviceDto[] = [device]) {
+    const deviceServiceStub = {
+      getDevices: vi.fn(() => of(devices)),
+      updateDevice: vi.fn((id: number, request) =>
+        of({ ...device, id, ...request })
+      ),
+      deleteDevice: vi.fn(() => of(undefined)),
+    };
+    const settingsServiceStub = {
+      getAllSettings: vi.fn(() => of([profile])),
+    } as Partial<DisplaySettingsService>;
+
+    TestBed.configureTestingModule({
+      imports: [DevicesComponent],
+      providers: [
+        { provide: DisplayDeviceService, useValue: deviceServiceStub },
+        { provide: DisplaySettingsService, useValue: settingsServiceStub },
+      ],
+    });
+
+    const fixture = TestBed.createComponent(DevicesComponent);
+    fixture.detectChanges();
+    const openSpy = vi
+      .spyOn(fixture.debugElement.injector.get(MatSnackBar), "open")
+      .mockReturnValue({} as never);
+    return { fixture, deviceServiceStub, openSpy };
+  }
+
+  afterEach(() => {
+    TestBed.resetTestingModule();
+    vi.restoreAllMocks();
+  });
+
+  it("lists devices with their current photo", () => {
+    const { fixture } = setup();
+
+    const img = fixture.nativeElement.querySelector(
+      ".preview img"
+    ) as HTMLImageElement;
+    expect(img.getAttribute("src")).toBe("/api/media/thumbnails/7");
+    expect(fixture.nativeElement.textContent).toContain("Online");
+    expect(fixture.componentInstance.profiles()).toEqual([profile]);
+  });
+
+  it("shows an empty state when no frames registered", () => {
+    const { fixture } = setup([]);
+
+    expect(fixture.nativeElement.textContent).toContain(
+      "No frames have registered yet"
+    );
+  });
+
+  it("assigns a profile to a device", () => {
+    const { fixture, deviceServiceStub } = setup();
+
+    fixture.componentInstance.assignProfile(device, 3);
+
+    expect(deviceServiceStub.updateDevice).toHaveBeenCalledWith(1, {
+      name: "Kitchen",
+      displaySettingsId: 3,
+    });
+    expect(fixture.componentInstance.devices()[0].displaySettingsId).toBe(3);
+  });
+
+  it("ignores renames that do not change the name", () => {
+    const { fixture, deviceServiceStub } = setup();
+
+    fixture.componentInstance.rename(device, " Kitchen ");
+    fixture.componentInstance.rename(device, "   ");
+
+    expect(deviceServiceStub.updateDevice).not.toHaveBeenCalled();
+  });
+
+  it("reports update failures", () => {
+    const { fixture, deviceServiceStub, openSpy } = setup();
+    deviceServiceStub.updateDevice.mockReturnValue(
+      throwError(() => new Error("boom"))
+    );
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    fixture.componentInstance.rename(device, "Living Room");
+
+    expect(openSpy).toHaveBeenCalledWith("Failed to update device", "Close", {
+      duration: 3000,
+    });
+  });
+
+  it("removes a device after confirmation", () => {
+    const { fixture, deviceServiceStub } = setup();
+    vi.spyOn(window, "confirm").mockReturnValue(true);
+
+    fixture.componentInstance.deleteDevice(device);
+
+    expect(deviceServiceStub.deleteDevice).toHaveBeenCalledWith(1);
+    expect(fixture.componentInstance.devices()).toEqual([]);
+  });
+});
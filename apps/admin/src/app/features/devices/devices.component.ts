@@ -0,0 +1,342 @@
+import { Component, inject, signal, OnInit, OnDestroy } from "@angular/core";
+import { CommonModule } from "@angular/common";
+import { MatCardModule } from "@angular/material/card";
+import { MatButtonModule } from "@angular/material/button";
+import { MatIconModule } from "@angular/material/icon";
+import { MatFormFieldModule } from "@angular/material/form-field";
+import { MatInputModule } from "@angular/material/input";
+import { MatSelectModule } from "@angular/material/select";
+import { MatProgressSpinnerModule } from "@angular/material/progress-spinner";
+import { MatSnackBar, MatSnackBarModule } from "@angular/material/snack-bar";
+import { MatTooltipModule } from "@angular/material/tooltip";
+import { Subject, forkJoin, interval, takeUntil } from "rxjs";
+import { DisplayDeviceService } from "../../core/services/display-device.service";
+import { DisplaySettingsService } from "../../core/services/display-settings.service";
+import {
+  DisplayDeviceDto,
+  DisplaySettingsDto,
+  UpdateDisplayDeviceRequest,
+} from "../../core/models";
+
+/** How often last-seen times and current photos refresh (ms). */
+const DEVICE_REFRESH_INTERVAL = 10000;
+
+/** A device that reported within this window is shown as online (ms). */
+const ONLINE_THRESHOLD = 5 * 60 * 1000;
+
+@Component({
+  selector: "app-devices",
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+    MatTooltipModule,
+  ],
+  template: `
+    <div class="devices-container">
+      <h1>Devices</h1>
+      <p class="subtitle">
+        Frames register themselves when they start. Assign each one its own
+        display settings profile.
+      </p>
+
+      @if (isLoading()) {
+        <div class="loading">
+          <mat-spinner diameter="40"></mat-spinner>
+        </div>
+      } @else if (devices().length === 0) {
+        <div class="empty-state">
+          <mat-icon>tv_off</mat-icon>
+          <p>No frames have registered yet</p>
+        </div>
+      } @else {
+        <div class="device-grid">
+          @for (device of devices(); track device.id) {
+            <mat-card class="device-card">
+              <div class="preview">
+                @if (device.currentPhotoId) {
+                  <img
+                    [src]="getPreviewUrl(device.currentPhotoId)"
+                    [alt]="'Photo ' + device.currentPhotoId"
+                  />
+                } @else {
+                  <mat-icon>image_not_supported</mat-icon>
+                }
+                <span class="status" [class.online]="isOnline(device)">
+                  {{ isOnline(device) ? "Online" : "Offline" }}
+                </span>
+              </div>
+
+              <mat-card-content>
+                <mat-form-field appearance="outline" class="full-width">
+                  <mat-label>Name</mat-label>
+                  <input
+                    matInput
+                    maxlength="100"
+                    [value]="device.name"
+                    (change)="rename(device, $any($event.target).value)"
+                  />
+                </mat-form-field>
+
+                <mat-form-field appearance="outline" class="full-width">
+                  <mat-label>Settings profile</mat-label>
+                  <mat-select
+                    [value]="device.displaySettingsId"
+                    (selectionChange)="assignProfile(device, $event.value)"
+                  >
+                    <mat-option [value]="null">Active profile</mat-option>
+                    @for (profile of profiles(); track profile.id) {
+                      <mat-option [value]="profile.id">{{
+                        profile.name
+                      }}</mat-option>
+                    }
+                  </mat-select>
+                </mat-form-field>
+
+                <p class="last-seen">
+                  <mat-icon>schedule</mat-icon>
+                  Last seen {{ device.lastSeenAt | date: "medium" }}
+                </p>
+              </mat-card-content>
+
+              <mat-card-actions align="end">
+                <button
+                  mat-icon-button
+                  matTooltip="Remove device"
+                  (click)="deleteDevice(device)"
+                >
+                  <mat-icon>delete</mat-icon>
+                </button>
+              </mat-card-actions>
+            </mat-card>
+          }
+        </div>
+      }
+    </div>
+  `,
+  styles: [
+    `
+      .devices-container {
+        padding: 24px;
+      }
+
+      .subtitle {
+        color: rgba(0, 0, 0, 0.6);
+        margin-bottom: 24px;
+      }
+
+      .loading {
+        display: flex;
+        justify-content: center;
+        padding: 48px;
+      }
+
+      .empty-state {
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        padding: 48px;
+        color: rgba(0, 0, 0, 0.54);
+      }
+
+      .empty-state mat-icon {
+        font-size: 48px;
+        width: 48px;
+        height: 48px;
+      }
+
+      .device-grid {
+        display: grid;
+        grid-template-columns: repeat(auto-fill, minmax(280px, 1fr));
+        gap: 16px;
+      }
+
+      .preview {
+        position: relative;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        aspect-ratio: 16 / 9;
+        background-color: #000;
+        border-radius: 4px 4px 0 0;
+        overflow: hidden;
+        color: rgba(255, 255, 255, 0.6);
+      }
+
+      .preview img {
+        width: 100%;
+        height: 100%;
+        object-fit: contain;
+      }
+
+      .status {
+        position: absolute;
+        top: 12px;
+        right: 12px;
+        padding: 2px 10px;
+        border-radius: 16px;
+        font-size: 12px;
+        color: white;
+        background-color: rgba(0, 0, 0, 0.6);
+      }
+
+      .status.online {
+        background-color: #4caf50;
+      }
+
+      mat-card-content {
+        padding-top: 16px;
+      }
+
+      .full-width {
+        width: 100%;
+      }
+
+      .last-seen {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        margin: 0;
+        font-size: 13px;
+        color: rgba(0, 0, 0, 0.6);
+      }
+
+      .last-seen mat-icon {
+        font-size: 18px;
+        width: 18px;
+        height: 18px;
+      }
+    `,
+  ],
+})
+export class DevicesComponent implements OnInit, OnDestroy {
+  private readonly deviceService = inject(DisplayDeviceService);
+  private readonly displaySettingsService = inject(DisplaySettingsService);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly destroy$ = new Subject<void>();
+
+  devices = signal<DisplayDeviceDto[]>([]);
+  profiles = signal<DisplaySettingsDto[]>([]);
+  isLoading = signal(true);
+
+  ngOnInit(): void {
+    this.loadData();
+    interval(DEVICE_REFRESH_INTERVAL)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.refreshDevices());
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  getPreviewUrl(photoId: number): string {
+    return `/api/media/thumbnails/${photoId}`;
+  }
+
+  isOnline(device: DisplayDeviceDto): boolean {
+    return (
+      Date.now() - new Date(device.lastSeenAt).getTime() < ONLINE_THRESHOLD
+    );
+  }
+
+  rename(device: DisplayDeviceDto, name: string): void {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === device.name) {
+      return;
+    }
+    this.update(device, {
+      name: trimmed,
+      displaySettingsId: device.displaySettingsId,
+    });
+  }
+
+  assignProfile(
+    device: DisplayDeviceDto,
+    displaySettingsId: number | null
+  ): void {
+    this.update(device, { name: device.name, displaySettingsId });
+  }
+
+  deleteDevice(device: DisplayDeviceDto): void {
+    if (
+      !confirm(
+        `Remove "${device.name}"? It will register again the next time it starts.`
+      )
+    ) {
+      return;
+    }
+
+    this.deviceService.deleteDevice(device.id).subscribe({
+      next: () => {
+        this.devices.update((devices) =>
+          devices.filter((d) => d.id !== device.id)
+        );
+        this.snackBar.open("Device removed", "Close", { duration: 3000 });
+      },
+      error: (error) => {
+        console.error("Failed to remove device:", error);
+        this.snackBar.open("Failed to remove device", "Close", {
+          duration: 3000,
+        });
+      },
+    });
+  }
+
+  private update(
+    device: DisplayDeviceDto,
+    request: UpdateDisplayDeviceRequest
+  ): void {
+    this.deviceService.updateDevice(device.id, request).subscribe({
+      next: (updated) => {
+        this.devices.update((devices) =>
+          devices.map((d) => (d.id === updated.id ? updated : d))
+        );
+        this.snackBar.open("Device updated", "Close", { duration: 3000 });
+      },
+      error: (error) => {
+        console.error("Failed to update device:", error);
+        this.snackBar.open("Failed to update device", "Close", {
+          duration: 3000,
+        });
+      },
+    });
+  }
+
+  private loadData(): void {
+    this.isLoading.set(true);
+
+    forkJoin({
+      devices: this.deviceService.getDevices(),
+      profiles: this.displaySettingsService.getAllSettings(),
+    }).subscribe({
+      next: ({ devices, profiles }) => {
+        this.devices.set(devices);
+        this.profiles.set(profiles);
+        this.isLoading.set(false);
+      },
+      error: (error) => {
+        console.error("Failed to load devices:", error);
+        this.isLoading.set(false);
+        this.snackBar.open("Failed to load devices", "Close", {
+          duration: 3000,
+        });
+      },
+    });
+  }
+
+  private refreshDevices(): void {
+    this.deviceService.getDevices().subscribe({
+      next: (devices) => this.devices.set(devices),
+      error: (error) => console.error("Failed to refresh devices:", error),
+    });
+  }
+}
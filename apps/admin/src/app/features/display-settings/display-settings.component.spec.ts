@@ -1,10 +1,11 @@
 import { TestBed } from "@angular/core/testing";
 import { of } from "rxjs";
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import { DisplaySettingsComponent } from "./display-settings.component";
 import { DisplaySettingsService } from "../../core/services/display-settings.service";
 import { AlbumService } from "../../core/services/album.service";
 import { TagService } from "../../core/services/tag.service";
+import { DisplayScheduleService } from "../../core/services/display-schedule.service";
 import {
   MatSnackBar,
   MatSnackBarRef,
@@ -15,6 +16,11 @@ import {
   TransitionType,
   SourceType,
   ImageFit,
+  CollageLayout,
+  OverlayPosition,
+  OverlaySize,
+  VideoPlayback,
+  VideoSegment,
   AlbumDto,
   TagDto,
 } from "../../core/models";
@@ -29,11 +35,27 @@ describe("DisplaySettingsComponent", () => {
     shuffle: false,
     sourceType: SourceType.All,
     sourceId: null,
+    playlistSources: [],
     imageFit: ImageFit.Contain,
+    collageLayout: CollageLayout.Off,
+    showClock: false,
+    clockPosition: OverlayPosition.TopRight,
+    showDateTaken: false,
+    dateTakenPosition: OverlayPosition.BottomLeft,
+    showLocation: false,
+    locationPosition: OverlayPosition.BottomLeft,
+    overlaySize: OverlaySize.Medium,
+    overlayOpacity: 80,
+    videoPlayback: VideoPlayback.Muted,
+    videoVolume: 50,
+    maxVideoDuration: 30,
+    videoSegment: VideoSegment.Start,
+    videoLoopCount: 1,
   };
 
   const displaySettingsServiceStub = {
     getSettings: () => of(mockSettings),
+    getAllSettings: () => of([mockSettings]),
     updateSettings: () => of(mockSettings),
     resetToDefaults: () => of(mockSettings),
   } as Partial<DisplaySettingsService>;
@@ -42,6 +64,10 @@ describe("DisplaySettingsComponent", () => {
     getAlbums: () => of([] as AlbumDto[]),
   } as Partial<AlbumService>;
 
+  const scheduleServiceStub = {
+    getSchedule: () => of([]),
+  } as Partial<DisplayScheduleService>;
+
   const tagServiceStub = {
     getTags: () => of([] as TagDto[]),
   } as Partial<TagService>;
@@ -60,6 +86,7 @@ describe("DisplaySettingsComponent", () => {
         },
         { provide: AlbumService, useValue: albumServiceStub },
         { provide: TagService, useValue: tagServiceStub },
+        { provide: DisplayScheduleService, useValue: scheduleServiceStub },
         { provide: MatSnackBar, useValue: snackBarStub },
       ],
     });
@@ -88,6 +115,7 @@ describe("DisplaySettingsComponent", () => {
         },
         { provide: AlbumService, useValue: albumServiceStub },
         { provide: TagService, useValue: tagServiceStub },
+        { provide: DisplayScheduleService, useValue: scheduleServiceStub },
         { provide: MatSnackBar, useValue: snackBarStub },
       ],
     });
@@ -108,4 +136,287 @@ describe("DisplaySettingsComponent", () => {
     expect(saveButton).toBeTruthy();
     expect(saveButton?.textContent).toContain("Saving...");
   });
+
+  it("flags unsaved changes when an overlay setting changes", () => {
+    TestBed.configureTestingModule({
+      imports: [DisplaySettingsComponent],
+      providers: [
+        {
+          provide: DisplaySettingsService,
+          useValue: displaySettingsServiceStub,
+        },
+        { provide: AlbumService, useValue: albumServiceStub },
+        { provide: TagService, useValue: tagServiceStub },
+        { provide: DisplayScheduleService, useValue: scheduleServiceStub },
+        { provide: MatSnackBar, useValue: snackBarStub },
+      ],
+    });
+
+    const fixture = TestBed.createComponent(DisplaySettingsComponent);
+    fixture.detectChanges();
+
+    const component = fixture.componentInstance;
+    expect(component.hasChanges()).toBe(false);
+
+    component.form.patchValue({ showClock: true });
+    expect(component.hasChanges()).toBe(true);
+
+    component.discardChanges();
+    expect(component.form.value.showClock).toBe(false);
+    expect(component.hasChanges()).toBe(false);
+  });
+
+  it("shows the volume only when videos play with audio", () => {
+    TestBed.configureTestingModule({
+      imports: [DisplaySettingsComponent],
+      providers: [
+        {
+          provide: DisplaySettingsService,
+          useValue: displaySettingsServiceStub,
+        },
+        { provide: AlbumService, useValue: albumServiceStub },
+        { provide: TagService, useValue: tagServiceStub },
+        { provide: DisplayScheduleService, useValue: scheduleServiceStub },
+        { provide: MatSnackBar, useValue: snackBarStub },
+      ],
+    });
+
+    const fixture = TestBed.createComponent(DisplaySettingsComponent);
+    fixture.detectChanges();
+
+    const component = fixture.componentInstance;
+    const text = () => fixture.nativeElement.textContent as string;
+    expect(text()).not.toContain("Volume:");
+    expect(text()).toContain("Max Duration: 30 seconds");
+
+    component.form.patchValue({ videoPlayback: VideoPlayback.WithAudio });
+    fixture.detectChanges();
+    expect(text()).toContain("Volume: 50%");
+    expect(component.hasChanges()).toBe(true);
+
+    component.form.patchValue({ videoPlayback: VideoPlayback.Skip });
+    fixture.detectChanges();
+    expect(text()).not.toContain("Volume:");
+    expect(text()).not.toContain("Max Duration:");
+  });
+
+  it("formats the max video duration", () => {
+    TestBed.configureTestingModule({
+      imports: [DisplaySettingsComponent],
+      providers: [
+        {
+          provide: DisplaySettingsService,
+          useValue: displaySettingsServiceStub,
+        },
+        { provide: AlbumService, useValue: albumServiceStub },
+        { provide: TagService, useValue: tagServiceStub },
+        { provide: DisplayScheduleService, useValue: scheduleServiceStub },
+        { provide: MatSnackBar, useValue: snackBarStub },
+      ],
+    });
+
+    const component = TestBed.createComponent(
+      DisplaySettingsComponent,
+    ).componentInstance;
+
+    expect(component.formatVideoDuration(0)).toBe("Full length");
+    expect(component.formatVideoDuration(45)).toBe("45 seconds");
+    expect(component.formatVideoDuration(120)).toBe("2 min");
+    expect(component.formatVideoDuration(150)).toBe("2m 30s");
+  });
+
+  it("loads and saves the collage layout", () => {
+    const collageSettings: DisplaySettingsDto = {
+      ...mockSettings,
+      collageLayout: CollageLayout.PairPortraits,
+    };
+    const updateSettings = vi.fn(() => of(collageSettings));
+    TestBed.configureTestingModule({
+      imports: [DisplaySettingsComponent],
+      providers: [
+        {
+          provide: DisplaySettingsService,
+          useValue: {
+            ...displaySettingsServiceStub,
+            getSettings: () => of(collageSettings),
+            updateSettings,
+          },
+        },
+        { provide: AlbumService, useValue: albumServiceStub },
+        { provide: TagService, useValue: tagServiceStub },
+        { provide: DisplayScheduleService, useValue: scheduleServiceStub },
+        { provide: MatSnackBar, useValue: snackBarStub },
+      ],
+    });
+
+    const fixture = TestBed.createComponent(DisplaySettingsComponent);
+    fixture.detectChanges();
+
+    const component = fixture.componentInstance;
+    expect(component.form.value.collageLayout).toBe(
+      CollageLayout.PairPortraits,
+    );
+
+    component.form.patchValue({ collageLayout: CollageLayout.Mosaic });
+    expect(component.hasChanges()).toBe(true);
+    component.saveSettings();
+
+    expect(updateSettings).toHaveBeenCalledWith(
+      1,
+      expect.objectContaining({ collageLayout: CollageLayout.Mosaic }),
+    );
+  });
+
+  it("loads and saves playlist sources", () => {
+    const playlistSettings: DisplaySettingsDto = {
+      ...mockSettings,
+      sourceType: SourceType.Playlist,
+      playlistSources: [
+        {
+          albumId: 4,
+          tagId: null,
+          isExcluded: false,
+          weight: 3,
+          dateFrom: "2024-01-01T00:00:00",
+          dateTo: null,
+        },
+        {
+          albumId: null,
+          tagId: 9,
+          isExcluded: true,
+          weight: 1,
+          dateFrom: null,
+          dateTo: null,
+        },
+      ],
+    };
+    const updateSettings = vi.fn(() => of(playlistSettings));
+    TestBed.configureTestingModule({
+      imports: [DisplaySettingsComponent],
+      providers: [
+        {
+          provide: DisplaySettingsService,
+          useValue: {
+            ...displaySettingsServiceStub,
+            getSettings: () => of(playlistSettings),
+            updateSettings,
+          },
+        },
+        { provide: AlbumService, useValue: albumServiceStub },
+        { provide: TagService, useValue: tagServiceStub },
+        { provide: DisplayScheduleService, useValue: scheduleServiceStub },
+        { provide: MatSnackBar, useValue: snackBarStub },
+      ],
+    });
+
+    const fixture = TestBed.createComponent(DisplaySettingsComponent);
+    fixture.detectChanges();
+
+    const component = fixture.componentInstance;
+    expect(component.playlistIncludes()).toEqual([
+      { key: "album:4", weight: 3, dateFrom: "2024-01-01", dateTo: "" },
+    ]);
+    expect(component.excludedTagIds()).toEqual([9]);
+    expect(component.hasChanges()).toBe(false);
+
+    component.addPlaylistSource();
+    component.updatePlaylistSource(1, { key: "tag:2", weight: 2 });
+    expect(component.hasChanges()).toBe(true);
+
+    component.saveSettings();
+
+    expect(updateSettings).toHaveBeenCalledWith(
+      1,
+      expect.objectContaining({
+        playlistSources: [
+          {
+            albumId: 4,
+            tagId: null,
+            isExcluded: false,
+            weight: 3,
+            dateFrom: "2024-01-01",
+            dateTo: null,
+          },
+          {
+            albumId: null,
+            tagId: 2,
+            isExcluded: false,
+            weight: 2,
+            dateFrom: null,
+            dateTo: null,
+          },
+          {
+            albumId: null,
+            tagId: 9,
+            isExcluded: true,
+            weight: 1,
+            dateFrom: null,
+            dateTo: null,
+          },
+        ],
+      }),
+    );
+  });
+
+  it("does not save a playlist without an album or tag", () => {
+    const updateSettings = vi.fn(() => of(mockSettings));
+    TestBed.configureTestingModule({
+      imports: [DisplaySettingsComponent],
+      providers: [
+        {
+          provide: DisplaySettingsService,
+          useValue: { ...displaySettingsServiceStub, updateSettings },
+        },
+        { provide: AlbumService, useValue: albumServiceStub },
+        { provide: TagService, useValue: tagServiceStub },
+        { provide: DisplayScheduleService, useValue: scheduleServiceStub },
+        { provide: MatSnackBar, useValue: snackBarStub },
+      ],
+    });
+
+    const fixture = TestBed.createComponent(DisplaySettingsComponent);
+    fixture.detectChanges();
+
+    const component = fixture.componentInstance;
+    component.form.patchValue({ sourceType: SourceType.Playlist });
+    component.saveSettings();
+
+    expect(updateSettings).not.toHaveBeenCalled();
+    expect(component.isSaving()).toBe(false);
+  });
+
+  it("clears the album or tag when switching to memories", () => {
+    TestBed.configureTestingModule({
+      imports: [DisplaySettingsComponent],
+      providers: [
+        {
+          provide: DisplaySettingsService,
+          useValue: {
+            ...displaySettingsServiceStub,
+            getSettings: () =>
+              of({
+                ...mockSettings,
+                sourceType: SourceType.Album,
+                sourceId: 3,
+              }),
+          },
+        },
+        { provide: AlbumService, useValue: albumServiceStub },
+        { provide: TagService, useValue: tagServiceStub },
+        { provide: DisplayScheduleService, useValue: scheduleServiceStub },
+        { provide: MatSnackBar, useValue: snackBarStub },
+      ],
+    });
+
+    const fixture = TestBed.createComponent(DisplaySettingsComponent);
+    fixture.detectChanges();
+
+    const component = fixture.componentInstance;
+    component.form.patchValue({ sourceType: SourceType.Memories });
+    component.onSourceTypeChange();
+    fixture.detectChanges();
+
+    expect(component.form.value.sourceId).toBeNull();
+    expect(fixture.nativeElement.textContent).toContain("3 years ago today");
+  });
 });
@@ -20,13 +20,36 @@ import { MatDividerModule } from "@angular/material/divider";
 import { DisplaySettingsService } from "../../core/services/display-settings.service";
 import { AlbumService } from "../../core/services/album.service";
 import { TagService } from "../../core/services/tag.service";
-import { DisplaySettingsDto, AlbumDto, TagDto } from "../../core/models";
+import {
+  DisplaySettingsDto,
+  PlaylistSourceDto,
+  AlbumDto,
+  TagDto,
+} from "../../core/models";
 import {
   TransitionType,
   SourceType,
   ImageFit,
+  CollageLayout,
+  OverlayPosition,
+  OverlaySize,
+  VideoPlayback,
+  VideoSegment,
 } from "../../core/models/enums.model";
 import { forkJoin } from "rxjs";
+import { ScheduleEditorComponent } from "./schedule-editor.component";
+import { TransitionPreviewComponent } from "./transition-preview.component";
+
+/**
+ * Included playlist source being edited. The key is a select value:
+ * "album:<id>" or "tag:<id>". Dates are "yyyy-MM-dd" or empty.
+ */
+interface EditablePlaylistSource {
+  key: string | null;
+  weight: number;
+  dateFrom: string;
+  dateTo: string;
+}
 
 @Component({
   selector: "app-display-settings",
@@ -46,6 +69,8 @@ import { forkJoin } from "rxjs";
     MatProgressSpinnerModule,
     MatSnackBarModule,
     MatDividerModule,
+    ScheduleEditorComponent,
+    TransitionPreviewComponent,
   ],
   template: `
     <div class="settings-container">
@@ -90,13 +115,11 @@ import { forkJoin } from "rxjs";
                 <mat-form-field appearance="outline" class="full-width">
                   <mat-label>Transition Effect</mat-label>
                   <mat-select formControlName="transition">
-                    <mat-option [value]="TransitionType.Fade">Fade</mat-option>
-                    <mat-option [value]="TransitionType.Slide"
-                      >Slide</mat-option
-                    >
-                    <mat-option [value]="TransitionType.KenBurns"
-                      >Ken Burns (pan & zoom)</mat-option
-                    >
+                    @for (option of transitionOptions; track option.value) {
+                      <mat-option [value]="option.value">{{
+                        option.label
+                      }}</mat-option>
+                    }
                   </mat-select>
                 </mat-form-field>
               </div>
@@ -111,6 +134,13 @@ import { forkJoin } from "rxjs";
                 </mat-slider>
               </div>
 
+              <div class="setting-row">
+                <app-transition-preview
+                  [transition]="form.get('transition')?.value"
+                  [duration]="form.get('transitionDuration')?.value"
+                ></app-transition-preview>
+              </div>
+
               <mat-divider></mat-divider>
 
               <div class="setting-row">
@@ -140,6 +170,30 @@ import { forkJoin } from "rxjs";
                   blurred, zoomed background.
                 </p>
               </div>
+
+              <mat-divider></mat-divider>
+
+              <div class="setting-row">
+                <mat-form-field appearance="outline" class="full-width">
+                  <mat-label>Collage</mat-label>
+                  <mat-select
+                    formControlName="collageLayout"
+                    data-testid="collage-layout"
+                  >
+                    <mat-option [value]="CollageLayout.Off">Off</mat-option>
+                    <mat-option [value]="CollageLayout.PairPortraits"
+                      >Pair portraits</mat-option
+                    >
+                    <mat-option [value]="CollageLayout.Mosaic"
+                      >Mosaic (2 to 4 photos)</mat-option
+                    >
+                  </mat-select>
+                </mat-form-field>
+                <p class="hint">
+                  Combines portrait photos with upcoming photos so they fill a
+                  landscape screen.
+                </p>
+              </div>
             </mat-card-content>
           </mat-card>
 
@@ -166,8 +220,22 @@ import { forkJoin } from "rxjs";
                     <mat-option [value]="SourceType.Tag"
                       >Selected Tag</mat-option
                     >
+                    <mat-option [value]="SourceType.Playlist"
+                      >Playlist (several albums and tags)</mat-option
+                    >
+                    <mat-option [value]="SourceType.Memories"
+                      >On This Day (memories)</mat-option
+                    >
                   </mat-select>
                 </mat-form-field>
+                @if (form.get("sourceType")?.value === SourceType.Memories) {
+                  <p class="hint">
+                    Mostly shows photos taken on today's date in past years, or
+                    this week when there are none, with a "3 years ago today"
+                    banner. Other photos are mixed in, and shown on their own on
+                    days without memories.
+                  </p>
+                }
               </div>
 
               @if (form.get("sourceType")?.value === SourceType.Album) {
@@ -217,6 +285,265 @@ import { forkJoin } from "rxjs";
                   </mat-form-field>
                 </div>
               }
+              @if (form.get("sourceType")?.value === SourceType.Playlist) {
+                <div class="setting-row">
+                  <label>Include</label>
+                  @for (
+                    source of playlistIncludes();
+                    track $index;
+                    let i = $index
+                  ) {
+                    <div class="playlist-source" data-testid="playlist-source">
+                      <mat-form-field appearance="outline" class="source-field">
+                        <mat-label>Album or tag</mat-label>
+                        <mat-select
+                          [value]="source.key"
+                          (selectionChange)="
+                            updatePlaylistSource(i, { key: $event.value })
+                          "
+                        >
+                          <mat-optgroup label="Albums">
+                            @for (album of albums(); track album.id) {
+                              <mat-option [value]="'album:' + album.id">{{
+                                album.name
+                              }}</mat-option>
+                            }
+                          </mat-optgroup>
+                          <mat-optgroup label="Tags">
+                            @for (tag of tags(); track tag.id) {
+                              <mat-option [value]="'tag:' + tag.id">{{
+                                tag.name
+                              }}</mat-option>
+                            }
+                          </mat-optgroup>
+                        </mat-select>
+                      </mat-form-field>
+                      <mat-form-field appearance="outline" class="weight-field">
+                        <mat-label>Weight</mat-label>
+                        <input
+                          matInput
+                          type="number"
+                          min="1"
+                          max="10"
+                          [value]="source.weight"
+                          (change)="
+                            updatePlaylistSource(i, {
+                              weight: weightValue($event),
+                            })
+                          "
+                        />
+                      </mat-form-field>
+                      <mat-form-field appearance="outline" class="date-field">
+                        <mat-label>Taken from</mat-label>
+                        <input
+                          matInput
+                          type="date"
+                          [value]="source.dateFrom"
+                          (change)="
+                            updatePlaylistSource(i, {
+                              dateFrom: inputValue($event),
+                            })
+                          "
+                        />
+                      </mat-form-field>
+                      <mat-form-field appearance="outline" class="date-field">
+                        <mat-label>Until</mat-label>
+                        <input
+                          matInput
+                          type="date"
+                          [value]="source.dateTo"
+                          (change)="
+                            updatePlaylistSource(i, {
+                              dateTo: inputValue($event),
+                            })
+                          "
+                        />
+                      </mat-form-field>
+                      <button
+                        mat-icon-button
+                        (click)="removePlaylistSource(i)"
+                        aria-label="Remove source"
+                      >
+                        <mat-icon>delete</mat-icon>
+                      </button>
+                    </div>
+                  }
+                  <button mat-button (click)="addPlaylistSource()">
+                    <mat-icon>add</mat-icon>
+                    Add Album or Tag
+                  </button>
+                  <p class="hint">
+                    A source with weight 3 supplies three times as many slides
+                    as one with weight 1. Dates limit a source to photos taken
+                    in that range.
+                  </p>
+                </div>
+
+                <div class="setting-row">
+                  <mat-form-field appearance="outline" class="full-width">
+                    <mat-label>Exclude Tags</mat-label>
+                    <mat-select
+                      multiple
+                      [value]="excludedTagIds()"
+                      (selectionChange)="setExcludedTags($event.value)"
+                    >
+                      @for (tag of tags(); track tag.id) {
+                        <mat-option [value]="tag.id">{{ tag.name }}</mat-option>
+                      }
+                    </mat-select>
+                  </mat-form-field>
+                  <p class="hint">
+                    Photos with any of these tags are never shown, whichever
+                    source they come from
+                  </p>
+                </div>
+              }
+            </mat-card-content>
+          </mat-card>
+
+          <mat-card>
+            <mat-card-header>
+              <mat-icon mat-card-avatar>schedule</mat-icon>
+              <mat-card-title>Overlay</mat-card-title>
+              <mat-card-subtitle
+                >Show the time and photo details on screen</mat-card-subtitle
+              >
+            </mat-card-header>
+            <mat-card-content>
+              @for (item of overlayItems; track item.toggle) {
+                <div class="setting-row overlay-item">
+                  <mat-slide-toggle [formControlName]="item.toggle">{{
+                    item.label
+                  }}</mat-slide-toggle>
+                  <mat-form-field appearance="outline" class="position-field">
+                    <mat-label>Position</mat-label>
+                    <mat-select [formControlName]="item.position">
+                      @for (option of positionOptions; track option.value) {
+                        <mat-option [value]="option.value">{{
+                          option.label
+                        }}</mat-option>
+                      }
+                    </mat-select>
+                  </mat-form-field>
+                </div>
+                <p class="hint">{{ item.hint }}</p>
+              }
+
+              <mat-divider></mat-divider>
+
+              <div class="setting-row">
+                <mat-form-field appearance="outline" class="full-width">
+                  <mat-label>Text Size</mat-label>
+                  <mat-select formControlName="overlaySize">
+                    <mat-option [value]="OverlaySize.Small">Small</mat-option>
+                    <mat-option [value]="OverlaySize.Medium"
+                      >Medium</mat-option
+                    >
+                    <mat-option [value]="OverlaySize.Large">Large</mat-option>
+                  </mat-select>
+                </mat-form-field>
+              </div>
+
+              <div class="setting-row">
+                <label
+                  >Opacity: {{ form.get("overlayOpacity")?.value }}%</label
+                >
+                <mat-slider min="10" max="100" step="5" discrete>
+                  <input matSliderThumb formControlName="overlayOpacity" />
+                </mat-slider>
+              </div>
+            </mat-card-content>
+          </mat-card>
+
+          <mat-card>
+            <mat-card-header>
+              <mat-icon mat-card-avatar>movie</mat-icon>
+              <mat-card-title>Video</mat-card-title>
+              <mat-card-subtitle
+                >Choose how videos play in the slideshow</mat-card-subtitle
+              >
+            </mat-card-header>
+            <mat-card-content>
+              <div class="setting-row">
+                <mat-form-field appearance="outline" class="full-width">
+                  <mat-label>Playback</mat-label>
+                  <mat-select formControlName="videoPlayback">
+                    <mat-option [value]="VideoPlayback.Muted">Muted</mat-option>
+                    <mat-option [value]="VideoPlayback.WithAudio"
+                      >With audio</mat-option
+                    >
+                    <mat-option [value]="VideoPlayback.Skip"
+                      >Skip videos</mat-option
+                    >
+                  </mat-select>
+                </mat-form-field>
+                <p class="hint">
+                  Frames fall back to muted playback when the browser blocks
+                  sound.
+                </p>
+              </div>
+
+              @if (
+                form.get("videoPlayback")?.value === VideoPlayback.WithAudio
+              ) {
+                <div class="setting-row">
+                  <label>Volume: {{ form.get("videoVolume")?.value }}%</label>
+                  <mat-slider min="0" max="100" step="5" discrete>
+                    <input matSliderThumb formControlName="videoVolume" />
+                  </mat-slider>
+                </div>
+              }
+
+              @if (form.get("videoPlayback")?.value !== VideoPlayback.Skip) {
+                <mat-divider></mat-divider>
+
+                <div class="setting-row">
+                  <label
+                    >Max Duration:
+                    {{
+                      formatVideoDuration(form.get("maxVideoDuration")?.value)
+                    }}</label
+                  >
+                  <mat-slider min="0" max="300" step="5" discrete>
+                    <input matSliderThumb formControlName="maxVideoDuration" />
+                  </mat-slider>
+                  <p class="hint">
+                    Longest time a video stays on screen. Set to 0 to play
+                    videos to the end.
+                  </p>
+                </div>
+
+                <div class="setting-row">
+                  <mat-form-field appearance="outline" class="full-width">
+                    <mat-label>Long Videos</mat-label>
+                    <mat-select formControlName="videoSegment">
+                      <mat-option [value]="VideoSegment.Start"
+                        >Play the first part</mat-option
+                      >
+                      <mat-option [value]="VideoSegment.Random"
+                        >Play a random part</mat-option
+                      >
+                    </mat-select>
+                  </mat-form-field>
+                  <p class="hint">
+                    Which part of a video longer than the max duration is played
+                  </p>
+                </div>
+
+                <div class="setting-row">
+                  <label
+                    >Loop Short Clips:
+                    {{ form.get("videoLoopCount")?.value }}×</label
+                  >
+                  <mat-slider min="1" max="10" step="1" discrete>
+                    <input matSliderThumb formControlName="videoLoopCount" />
+                  </mat-slider>
+                  <p class="hint">
+                    How many times a clip shorter than the max duration plays
+                    before moving on
+                  </p>
+                </div>
+              }
             </mat-card-content>
           </mat-card>
 
@@ -254,6 +581,8 @@ import { forkJoin } from "rxjs";
             }
           </div>
         </form>
+
+        <app-schedule-editor></app-schedule-editor>
       }
     </div>
   `,
@@ -328,6 +657,38 @@ import { forkJoin } from "rxjs";
         gap: 12px;
       }
 
+      .overlay-item {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        gap: 16px;
+        margin-bottom: 0;
+      }
+
+      .position-field {
+        width: 180px;
+      }
+
+      .playlist-source {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        flex-wrap: wrap;
+      }
+
+      .source-field {
+        flex: 1;
+        min-width: 180px;
+      }
+
+      .weight-field {
+        width: 90px;
+      }
+
+      .date-field {
+        width: 150px;
+      }
+
       .tag-option {
         display: flex;
         align-items: center;
@@ -343,7 +704,7 @@ import { forkJoin } from "rxjs";
       .actions {
         display: flex;
         gap: 8px;
-        margin-top: 24px;
+        margin: 24px 0;
         flex-wrap: wrap;
       }
 
@@ -364,6 +725,8 @@ export class DisplaySettingsComponent implements OnInit {
   settings = signal<DisplaySettingsDto | null>(null);
   albums = signal<AlbumDto[]>([]);
   tags = signal<TagDto[]>([]);
+  playlistIncludes = signal<EditablePlaylistSource[]>([]);
+  excludedTagIds = signal<number[]>([]);
   isLoading = signal(true);
   isSaving = signal(false);
   hasChanges = signal(false);
@@ -372,8 +735,56 @@ export class DisplaySettingsComponent implements OnInit {
   TransitionType = TransitionType;
   SourceType = SourceType;
   ImageFit = ImageFit;
+  CollageLayout = CollageLayout;
+  OverlaySize = OverlaySize;
+  VideoPlayback = VideoPlayback;
+  VideoSegment = VideoSegment;
+
+  readonly overlayItems = [
+    {
+      toggle: "showClock",
+      position: "clockPosition",
+      label: "Clock",
+      hint: "Current time and date",
+    },
+    {
+      toggle: "showDateTaken",
+      position: "dateTakenPosition",
+      label: "Date Taken",
+      hint: 'When the photo was taken, e.g. "3 years ago"',
+    },
+    {
+      toggle: "showLocation",
+      position: "locationPosition",
+      label: "Location",
+      hint: "Where the photo was taken, when known",
+    },
+  ];
+
+  readonly transitionOptions = [
+    { value: TransitionType.Fade, label: "Fade" },
+    { value: TransitionType.Slide, label: "Slide left" },
+    { value: TransitionType.SlideRight, label: "Slide right" },
+    { value: TransitionType.SlideUp, label: "Slide up" },
+    { value: TransitionType.SlideDown, label: "Slide down" },
+    { value: TransitionType.KenBurns, label: "Ken Burns (pan & zoom)" },
+    { value: TransitionType.Zoom, label: "Zoom" },
+    { value: TransitionType.DipToBlack, label: "Dip to black" },
+    { value: TransitionType.Cube, label: "Cube" },
+    { value: TransitionType.Flip, label: "Flip" },
+    { value: TransitionType.Blur, label: "Blur" },
+    { value: TransitionType.Random, label: "Random (different each slide)" },
+  ];
+
+  readonly positionOptions = [
+    { value: OverlayPosition.TopLeft, label: "Top left" },
+    { value: OverlayPosition.TopRight, label: "Top right" },
+    { value: OverlayPosition.BottomLeft, label: "Bottom left" },
+    { value: OverlayPosition.BottomRight, label: "Bottom right" },
+  ];
 
   private originalSettings: DisplaySettingsDto | null = null;
+  private originalPlaylist = "[]";
 
   ngOnInit(): void {
     this.initForm();
@@ -389,6 +800,20 @@ export class DisplaySettingsComponent implements OnInit {
       sourceType: [SourceType.All],
       sourceId: [null],
       imageFit: [ImageFit.Contain],
+      collageLayout: [CollageLayout.Off],
+      showClock: [false],
+      clockPosition: [OverlayPosition.TopRight],
+      showDateTaken: [false],
+      dateTakenPosition: [OverlayPosition.BottomLeft],
+      showLocation: [false],
+      locationPosition: [OverlayPosition.BottomLeft],
+      overlaySize: [OverlaySize.Medium],
+      overlayOpacity: [80],
+      videoPlayback: [VideoPlayback.Muted],
+      videoVolume: [50],
+      maxVideoDuration: [30],
+      videoSegment: [VideoSegment.Start],
+      videoLoopCount: [1],
     });
 
     this.form.valueChanges.subscribe(() => {
@@ -423,18 +848,30 @@ export class DisplaySettingsComponent implements OnInit {
   }
 
   private populateForm(settings: DisplaySettingsDto): void {
-    this.form.patchValue(
-      {
-        slideDuration: settings.slideDuration,
-        transition: settings.transition,
-        transitionDuration: settings.transitionDuration,
-        shuffle: settings.shuffle,
-        sourceType: settings.sourceType,
-        sourceId: settings.sourceId,
-        imageFit: settings.imageFit,
-      },
-      { emitEvent: false },
+    // Controls are named after DTO fields, so the DTO can be patched directly
+    this.form.patchValue(settings, { emitEvent: false });
+
+    const sources = settings.playlistSources ?? [];
+    this.playlistIncludes.set(
+      sources
+        .filter((source) => !source.isExcluded)
+        .map((source) => ({
+          key:
+            source.albumId !== null
+              ? `album:${source.albumId}`
+              : `tag:${source.tagId}`,
+          weight: source.weight,
+          dateFrom: source.dateFrom?.slice(0, 10) ?? "",
+          dateTo: source.dateTo?.slice(0, 10) ?? "",
+        })),
+    );
+    this.excludedTagIds.set(
+      sources
+        .filter((source) => source.isExcluded && source.tagId !== null)
+        .map((source) => source.tagId as number),
     );
+    this.originalPlaylist = JSON.stringify(this.buildPlaylistSources());
+
     this.hasChanges.set(false);
   }
 
@@ -445,37 +882,145 @@ export class DisplaySettingsComponent implements OnInit {
     }
 
     const current = this.form.value;
-    const changed =
-      current.slideDuration !== this.originalSettings.slideDuration ||
-      current.transition !== this.originalSettings.transition ||
-      current.transitionDuration !== this.originalSettings.transitionDuration ||
-      current.shuffle !== this.originalSettings.shuffle ||
-      current.sourceType !== this.originalSettings.sourceType ||
-      current.sourceId !== this.originalSettings.sourceId ||
-      current.imageFit !== this.originalSettings.imageFit;
-
-    this.hasChanges.set(changed);
+    const original = this.originalSettings;
+    const formChanged = Object.keys(this.form.controls).some(
+      (key) => current[key] !== original[key as keyof DisplaySettingsDto],
+    );
+    const playlistChanged =
+      JSON.stringify(this.buildPlaylistSources()) !== this.originalPlaylist;
+
+    this.hasChanges.set(formChanged || playlistChanged);
   }
 
   onSourceTypeChange(): void {
     const sourceType = this.form.get("sourceType")?.value;
-    if (sourceType === SourceType.All) {
+    if (sourceType !== SourceType.Album && sourceType !== SourceType.Tag) {
       this.form.patchValue({ sourceId: null });
     }
   }
 
+  formatVideoDuration(seconds: number): string {
+    if (!seconds) return "Full length";
+    if (seconds < 60) return `${seconds} seconds`;
+    const minutes = Math.floor(seconds / 60);
+    const rest = seconds % 60;
+    return rest ? `${minutes}m ${rest}s` : `${minutes} min`;
+  }
+
+  inputValue(event: Event): string {
+    return (event.target as HTMLInputElement).value;
+  }
+
+  weightValue(event: Event): number {
+    const weight = Math.round(Number(this.inputValue(event)));
+    return Math.min(10, Math.max(1, weight || 1));
+  }
+
+  addPlaylistSource(): void {
+    this.playlistIncludes.update((sources) => [
+      ...sources,
+      { key: null, weight: 1, dateFrom: "", dateTo: "" },
+    ]);
+    this.checkForChanges();
+  }
+
+  updatePlaylistSource(
+    index: number,
+    changes: Partial<EditablePlaylistSource>,
+  ): void {
+    this.playlistIncludes.update((sources) =>
+      sources.map((source, i) =>
+        i === index ? { ...source, ...changes } : source,
+      ),
+    );
+    this.checkForChanges();
+  }
+
+  removePlaylistSource(index: number): void {
+    this.playlistIncludes.update((sources) =>
+      sources.filter((_, i) => i !== index),
+    );
+    this.checkForChanges();
+  }
+
+  setExcludedTags(tagIds: number[]): void {
+    this.excludedTagIds.set(tagIds);
+    this.checkForChanges();
+  }
+
+  /**
+   * Returns a message describing what is wrong with the playlist, or null.
+   */
+  private validatePlaylist(): string | null {
+    if (this.form.get("sourceType")?.value !== SourceType.Playlist) {
+      return null;
+    }
+
+    const includes = this.playlistIncludes();
+    if (includes.length === 0) {
+      return "Add at least one album or tag to the playlist";
+    }
+    if (includes.some((source) => !source.key)) {
+      return "Choose an album or tag for each playlist source";
+    }
+    if (
+      includes.some(
+        (source) =>
+          source.dateFrom && source.dateTo && source.dateFrom > source.dateTo,
+      )
+    ) {
+      return "Playlist start dates must not be after end dates";
+    }
+    return null;
+  }
+
+  private buildPlaylistSources(): PlaylistSourceDto[] {
+    const includes = this.playlistIncludes()
+      .filter((source) => source.key)
+      .map((source) => {
+        const [kind, id] = (source.key as string).split(":");
+        return {
+          albumId: kind === "album" ? Number(id) : null,
+          tagId: kind === "tag" ? Number(id) : null,
+          isExcluded: false,
+          weight: source.weight,
+          dateFrom: source.dateFrom || null,
+          dateTo: source.dateTo || null,
+        };
+      });
+    const exclusions = this.excludedTagIds().map((tagId) => ({
+      albumId: null,
+      tagId,
+      isExcluded: true,
+      weight: 1,
+      dateFrom: null,
+      dateTo: null,
+    }));
+    return [...includes, ...exclusions];
+  }
+
   saveSettings(): void {
     const settings = this.settings();
     if (!settings) return;
 
+    const playlistError = this.validatePlaylist();
+    if (playlistError) {
+      this.snackBar.open(playlistError, "Close", { duration: 3000 });
+      return;
+    }
+
     this.isSaving.set(true);
 
     this.displaySettingsService
-      .updateSettings(settings.id, this.form.value)
+      .updateSettings(settings.id, {
+        ...this.form.value,
+        playlistSources: this.buildPlaylistSources(),
+      })
       .subscribe({
         next: (updatedSettings) => {
           this.settings.set(updatedSettings);
           this.originalSettings = { ...updatedSettings };
+          this.originalPlaylist = JSON.stringify(this.buildPlaylistSources());
           this.hasChanges.set(false);
           this.isSaving.set(false);
           this.snackBar.open("Settings saved", "Close", { duration: 3000 });
@@ -0,0 +1,140 @@
+import { TestBed } from "@angular/core/testing";
+import { of } from "rxjs";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { MatSnackBar } from "@angular/material/snack-bar";
+import { ScheduleEditorComponent } from "./schedule-editor.component";
+import { DisplayScheduleService } from "../../core/services/display-schedule.service";
+import { DisplaySettingsService } from "../../core/services/display-settings.service";
+import {
+  DisplayScheduleRuleDto,
+  DisplaySettingsDto,
+  QuietMode,
+} from "../../core/models";
+
+describe("ScheduleEditorComponent", () => {
+  const morning: DisplayScheduleRuleDto = {
+    id: 1,
+    daysOfWeek: 0b011_1110,
+    startTime: "07:00",
+    endTime: "09:00",
+    displaySettingsId: 3,
+    quietMode: null,
+  };
+  const night: DisplayScheduleRuleDto = {
+    id: 2,
+    daysOfWeek: 0b111_1111,
+    startTime: "22:00",
+    endTime: "06:30",
+    displaySettingsId: null,
+    quietMode: QuietMode.DimClock,
+  };
+
+  const profile = { id: 3, name: "Kids album" } as DisplaySettingsDto;
+
+  function setup(rules: DisplayScheduleRuleDto[] = [morning, night]) {
+    const scheduleServiceStub = {
+      getSchedule: vi.fn(() => of(rules)),
+      updateSchedule: vi.fn(() => of(rules)),
+    };
+    const settingsServiceStub = {
+      getAllSettings: vi.fn(() => of([profile])),
+    } as Partial<DisplaySettingsService>;
+
+    TestBed.configureTestingModule({
+      imports: [ScheduleEditorComponent],
+      providers: [
+        { provide: DisplayScheduleService, useValue: scheduleServiceStub },
+        { provide: DisplaySettingsService, useValue: settingsServiceStub },
+      ],
+    });
+
+    const fixture = TestBed.createComponent(ScheduleEditorComponent);
+    fixture.detectChanges();
+    const openSpy = vi
+      .spyOn(fixture.debugElement.injector.get(MatSnackBar), "open")
+      .mockReturnValue({} as never);
+    return { fixture, scheduleServiceStub, openSpy };
+  }
+
+  afterEach(() => {
+    TestBed.resetTestingModule();
+    vi.restoreAllMocks();
+  });
+
+  it("lists the saved rules", () => {
+    const { fixture } = setup();
+
+    const rules = fixture.nativeElement.querySelectorAll(
+      "[data-testid='schedule-rule']"
+    );
+    expect(rules.length).toBe(2);
+
+    const component = fixture.componentInstance;
+    expect(component.selectedDays(component.rules()[0])).toEqual([
+      1, 2, 3, 4, 5,
+    ]);
+    expect(component.rules()[1].action).toBe(`quiet:${QuietMode.DimClock}`);
+  });
+
+  it("saves reordered rules as profile and quiet hours requests", () => {
+    const { fixture, scheduleServiceStub } = setup();
+    const component = fixture.componentInstance;
+
+    component.moveRule(1, -1);
+    expect(component.hasChanges()).toBe(true);
+    component.saveSchedule();
+
+    expect(scheduleServiceStub.updateSchedule).toHaveBeenCalledWith({
+      rules: [
+        {
+          daysOfWeek: 0b111_1111,
+          startTime: "22:00",
+          endTime: "06:30",
+          displaySettingsId: null,
+          quietMode: QuietMode.DimClock,
+        },
+        {
+          daysOfWeek: 0b011_1110,
+          startTime: "07:00",
+          endTime: "09:00",
+          displaySettingsId: 3,
+          quietMode: null,
+        },
+      ],
+    });
+    expect(component.hasChanges()).toBe(false);
+  });
+
+  it("adds and removes rules", () => {
+    const { fixture } = setup([]);
+    const component = fixture.componentInstance;
+
+    component.addRule();
+    expect(component.rules()).toEqual([
+      {
+        daysOfWeek: 0b111_1111,
+        startTime: "22:00",
+        endTime: "07:00",
+        action: "profile:3",
+      },
+    ]);
+
+    component.removeRule(0);
+    expect(component.rules()).toEqual([]);
+  });
+
+  it("rejects rules without any day", () => {
+    const { fixture, scheduleServiceStub, openSpy } = setup();
+    const component = fixture.componentInstance;
+
+    component.updateRule(0, { daysOfWeek: component.toMask([]) });
+    component.saveSchedule();
+
+    expect(scheduleServiceStub.updateSchedule).not.toHaveBeenCalled();
+    expect(openSpy).toHaveBeenCalledWith(
+      "Each rule needs at least one day",
+      "Close",
+      { duration: 3000 }
+    );
+  });
+});
@@ -0,0 +1,372 @@
+import { Component, inject, signal, OnInit } from "@angular/core";
+import { MatCardModule } from "@angular/material/card";
+import { MatButtonModule } from "@angular/material/button";
+import { MatButtonToggleModule } from "@angular/material/button-toggle";
+import { MatSelectModule } from "@angular/material/select";
+import { MatFormFieldModule } from "@angular/material/form-field";
+import { MatInputModule } from "@angular/material/input";
+import { MatIconModule } from "@angular/material/icon";
+import { MatSnackBar, MatSnackBarModule } from "@angular/material/snack-bar";
+import { forkJoin } from "rxjs";
+import { DisplayScheduleService } from "../../core/services/display-schedule.service";
+import { DisplaySettingsService } from "../../core/services/display-settings.service";
+import {
+  DisplayScheduleRuleDto,
+  DisplayScheduleRuleRequest,
+  DisplaySettingsDto,
+} from "../../core/models";
+import { QuietMode } from "../../core/models/enums.model";
+
+/**
+ * Schedule rule being edited. The action is a select value: "profile:<id>"
+ * or "quiet:<mode>".
+ */
+interface EditableRule {
+  daysOfWeek: number;
+  startTime: string;
+  endTime: string;
+  action: string;
+}
+
+/** Bitmask with a bit set for every day of the week. */
+const ALL_DAYS = 0b111_1111;
+
+@Component({
+  selector: "app-schedule-editor",
+  standalone: true,
+  imports: [
+    MatCardModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatSelectModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatIconModule,
+    MatSnackBarModule,
+  ],
+  template: `
+    <mat-card>
+      <mat-card-header>
+        <mat-icon mat-card-avatar>event_repeat</mat-icon>
+        <mat-card-title>Schedule</mat-card-title>
+        <mat-card-subtitle
+          >Switch profiles or go quiet at set times on each
+          display</mat-card-subtitle
+        >
+      </mat-card-header>
+      <mat-card-content>
+        @for (rule of rules(); track $index; let i = $index) {
+          <div class="rule" data-testid="schedule-rule">
+            <mat-button-toggle-group
+              multiple
+              [hideMultipleSelectionIndicator]="true"
+              [value]="selectedDays(rule)"
+              (change)="updateRule(i, { daysOfWeek: toMask($event.value) })"
+              aria-label="Days"
+            >
+              @for (day of days; track day.bit) {
+                <mat-button-toggle [value]="day.bit">{{
+                  day.label
+                }}</mat-button-toggle>
+              }
+            </mat-button-toggle-group>
+
+            <div class="rule-fields">
+              <mat-form-field appearance="outline" class="time-field">
+                <mat-label>From</mat-label>
+                <input
+                  matInput
+                  type="time"
+                  [value]="rule.startTime"
+                  (change)="updateRule(i, { startTime: timeValue($event) })"
+                />
+              </mat-form-field>
+              <mat-form-field appearance="outline" class="time-field">
+                <mat-label>Until</mat-label>
+                <input
+                  matInput
+                  type="time"
+                  [value]="rule.endTime"
+                  (change)="updateRule(i, { endTime: timeValue($event) })"
+                />
+              </mat-form-field>
+              <mat-form-field appearance="outline" class="action-field">
+                <mat-label>Show</mat-label>
+                <mat-select
+                  [value]="rule.action"
+                  (selectionChange)="updateRule(i, { action: $event.value })"
+                >
+                  @for (profile of profiles(); track profile.id) {
+                    <mat-option [value]="'profile:' + profile.id">{{
+                      profile.name
+                    }}</mat-option>
+                  }
+                  <mat-option [value]="'quiet:' + QuietMode.Black"
+                    >Quiet hours: black screen</mat-option
+                  >
+                  <mat-option [value]="'quiet:' + QuietMode.DimClock"
+                    >Quiet hours: dimmed clock</mat-option
+                  >
+                </mat-select>
+              </mat-form-field>
+
+              <div class="rule-buttons">
+                <button
+                  mat-icon-button
+                  (click)="moveRule(i, -1)"
+                  [disabled]="i === 0"
+                  aria-label="Move up"
+                >
+                  <mat-icon>arrow_upward</mat-icon>
+                </button>
+                <button
+                  mat-icon-button
+                  (click)="moveRule(i, 1)"
+                  [disabled]="i === rules().length - 1"
+                  aria-label="Move down"
+                >
+                  <mat-icon>arrow_downward</mat-icon>
+                </button>
+                <button
+                  mat-icon-button
+                  (click)="removeRule(i)"
+                  aria-label="Remove rule"
+                >
+                  <mat-icon>delete</mat-icon>
+                </button>
+              </div>
+            </div>
+          </div>
+        } @empty {
+          <p class="hint">
+            No schedule. Displays use their profile all day.
+          </p>
+        }
+
+        <p class="hint">
+          Times are local to each display. A window ending before it starts
+          runs past midnight. The first matching profile rule wins, and a
+          profile assigned to a device always takes precedence.
+        </p>
+
+        <div class="actions">
+          <button mat-button (click)="addRule()">
+            <mat-icon>add</mat-icon>
+            Add Rule
+          </button>
+          <button
+            mat-raised-button
+            color="primary"
+            (click)="saveSchedule()"
+            [disabled]="isSaving() || !hasChanges()"
+          >
+            <mat-icon>save</mat-icon>
+            Save Schedule
+          </button>
+        </div>
+      </mat-card-content>
+    </mat-card>
+  `,
+  styles: [
+    `
+      mat-card {
+        margin-bottom: 16px;
+      }
+
+      mat-card-header mat-icon {
+        font-size: 24px;
+        color: #1976d2;
+      }
+
+      .rule {
+        padding: 12px 0;
+        border-bottom: 1px solid rgba(0, 0, 0, 0.12);
+      }
+
+      .rule-fields {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        flex-wrap: wrap;
+        margin-top: 12px;
+      }
+
+      .time-field {
+        width: 130px;
+      }
+
+      .action-field {
+        flex: 1;
+        min-width: 200px;
+      }
+
+      .rule-buttons {
+        display: flex;
+      }
+
+      .hint {
+        font-size: 12px;
+        color: rgba(0, 0, 0, 0.54);
+        margin-top: 12px;
+      }
+
+      .actions {
+        display: flex;
+        justify-content: space-between;
+        gap: 8px;
+        margin-top: 16px;
+      }
+    `,
+  ],
+})
+export class ScheduleEditorComponent implements OnInit {
+  private readonly scheduleService = inject(DisplayScheduleService);
+  private readonly displaySettingsService = inject(DisplaySettingsService);
+  private readonly snackBar = inject(MatSnackBar);
+
+  rules = signal<EditableRule[]>([]);
+  profiles = signal<DisplaySettingsDto[]>([]);
+  isSaving = signal(false);
+  hasChanges = signal(false);
+
+  // Expose enum to template
+  QuietMode = QuietMode;
+
+  readonly days = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map(
+    (label, bit) => ({ label, bit }),
+  );
+
+  ngOnInit(): void {
+    this.loadData();
+  }
+
+  private loadData(): void {
+    forkJoin({
+      rules: this.scheduleService.getSchedule(),
+      profiles: this.displaySettingsService.getAllSettings(),
+    }).subscribe({
+      next: ({ rules, profiles }) => {
+        this.profiles.set(profiles);
+        this.rules.set(rules.map((rule) => this.toEditable(rule)));
+        this.hasChanges.set(false);
+      },
+      error: (error) => {
+        console.error("Failed to load schedule:", error);
+        this.snackBar.open("Failed to load schedule", "Close", {
+          duration: 3000,
+        });
+      },
+    });
+  }
+
+  selectedDays(rule: EditableRule): number[] {
+    return this.days
+      .map((day) => day.bit)
+      .filter((bit) => (rule.daysOfWeek & (1 << bit)) !== 0);
+  }
+
+  toMask(bits: number[]): number {
+    return bits.reduce((mask, bit) => mask | (1 << bit), 0);
+  }
+
+  timeValue(event: Event): string {
+    return (event.target as HTMLInputElement).value;
+  }
+
+  addRule(): void {
+    const firstProfile = this.profiles()[0];
+    this.rules.update((rules) => [
+      ...rules,
+      {
+        daysOfWeek: ALL_DAYS,
+        startTime: "22:00",
+        endTime: "07:00",
+        action: firstProfile
+          ? `profile:${firstProfile.id}`
+          : `quiet:${QuietMode.Black}`,
+      },
+    ]);
+    this.hasChanges.set(true);
+  }
+
+  updateRule(index: number, changes: Partial<EditableRule>): void {
+    this.rules.update((rules) =>
+      rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    );
+    this.hasChanges.set(true);
+  }
+
+  moveRule(index: number, offset: number): void {
+    const target = index + offset;
+    const rules = [...this.rules()];
+    if (target < 0 || target >= rules.length) return;
+
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    this.rules.set(rules);
+    this.hasChanges.set(true);
+  }
+
+  removeRule(index: number): void {
+    this.rules.update((rules) => rules.filter((_, i) => i !== index));
+    this.hasChanges.set(true);
+  }
+
+  saveSchedule(): void {
+    const rules = this.rules();
+    if (rules.some((rule) => rule.daysOfWeek === 0)) {
+      this.snackBar.open("Each rule needs at least one day", "Close", {
+        duration: 3000,
+      });
+      return;
+    }
+    if (rules.some((rule) => !rule.startTime || !rule.endTime)) {
+      this.snackBar.open("Each rule needs a start and end time", "Close", {
+        duration: 3000,
+      });
+      return;
+    }
+
+    this.isSaving.set(true);
+
+    this.scheduleService
+      .updateSchedule({ rules: rules.map((rule) => this.toRequest(rule)) })
+      .subscribe({
+        next: (saved) => {
+          this.rules.set(saved.map((rule) => this.toEditable(rule)));
+          this.hasChanges.set(false);
+          this.isSaving.set(false);
+          this.snackBar.open("Schedule saved", "Close", { duration: 3000 });
+        },
+        error: (error) => {
+          console.error("Failed to save schedule:", error);
+          this.isSaving.set(false);
+          this.snackBar.open("Failed to save schedule", "Close", {
+            duration: 3000,
+          });
+        },
+      });
+  }
+
+  private toEditable(rule: DisplayScheduleRuleDto): EditableRule {
+    return {
+      daysOfWeek: rule.daysOfWeek,
+      startTime: rule.startTime,
+      endTime: rule.endTime,
+      action:
+        rule.quietMode !== null
+          ? `quiet:${rule.quietMode}`
+          : `profile:${rule.displaySettingsId}`,
+    };
+  }
+
+  private toRequest(rule: EditableRule): DisplayScheduleRuleRequest {
+    const [kind, value] = rule.action.split(":");
+    return {
+      daysOfWeek: rule.daysOfWeek,
+      startTime: rule.startTime,
+      endTime: rule.endTime,
+      displaySettingsId: kind === "profile" ? Number(value) : null,
+      quietMode: kind === "quiet" ? (Number(value) as QuietMode) : null,
+    };
+  }
+}
@@ -0,0 +1,104 @@
+import { TestBed } from "@angular/core/testing";
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  TransitionPreviewComponent,
+  previewAnimation,
+} from "./transition-preview.component";
+import { TransitionType } from "../../core/models/enums.model";
+
+function setup(transition: TransitionType, duration = 500) {
+  TestBed.configureTestingModule({
+    imports: [TransitionPreviewComponent],
+  });
+
+  const fixture = TestBed.createComponent(TransitionPreviewComponent);
+  fixture.componentInstance.transition = transition;
+  fixture.componentInstance.duration = duration;
+  fixture.detectChanges();
+  return fixture;
+}
+
+/** Class lists of the two sample slides, sorted for comparison. */
+function slideClasses(element: HTMLElement): string[][] {
+  return Array.from(element.querySelectorAll<HTMLElement>(".stage > div")).map(
+    (slide) => Array.from(slide.classList).sort(),
+  );
+}
+
+describe("TransitionPreviewComponent", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("plays the selected transition and swaps the slides", () => {
+    vi.useFakeTimers();
+    const fixture = setup(TransitionType.Cube);
+    const element = fixture.nativeElement as HTMLElement;
+    expect(slideClasses(element)).toEqual([["slide"], ["hidden", "slide"]]);
+
+    fixture.componentInstance.play();
+    fixture.detectChanges();
+    expect(slideClasses(element)).toEqual([
+      ["cube-out-left", "slide"],
+      ["cube-in-left", "incoming", "slide"],
+    ]);
+
+    vi.advanceTimersByTime(500);
+    fixture.detectChanges();
+    expect(slideClasses(element)).toEqual([["hidden", "slide"], ["slide"]]);
+  });
+
+  it("runs the animations for the transition duration", () => {
+    const fixture = setup(TransitionType.Fade, 1200);
+
+    const stage = (fixture.nativeElement as HTMLElement).querySelector(
+      "[data-testid='preview-stage']",
+    ) as HTMLElement;
+
+    expect(stage.style.getPropertyValue("--transition-duration")).toBe(
+      "1200ms",
+    );
+  });
+
+  it("finishes the current transition when played again", () => {
+    vi.useFakeTimers();
+    const fixture = setup(TransitionType.Fade);
+    const component = fixture.componentInstance;
+
+    component.play();
+    component.play();
+
+    expect(component.shown()).toBe(1);
+    vi.advanceTimersByTime(500);
+    expect(component.shown()).toBe(0);
+  });
+
+  it("picks a different transition each time in Random mode", () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    const fixture = setup(TransitionType.Random);
+    const component = fixture.componentInstance;
+
+    component.play();
+    expect(component.animation()).toEqual(
+      previewAnimation(TransitionType.Fade),
+    );
+
+    component.play();
+    expect(component.animation()).toEqual(
+      previewAnimation(TransitionType.Slide),
+    );
+  });
+
+  it("maps each transition to its own animation", () => {
+    const types = Object.values(TransitionType).filter(
+      (value): value is TransitionType =>
+        typeof value === "number" && value !== TransitionType.Random,
+    );
+
+    const enters = new Set(types.map((type) => previewAnimation(type).enter));
+
+    expect(enters.size).toBe(types.length);
+  });
+});
@@ -0,0 +1,503 @@
+import { Component, Input, OnDestroy, signal } from "@angular/core";
+import { MatButtonModule } from "@angular/material/button";
+import { MatIconModule } from "@angular/material/icon";
+import { TransitionType } from "../../core/models/enums.model";
+
+/**
+ * CSS classes for the incoming and outgoing slide of a transition.
+ */
+interface PreviewAnimation {
+  enter: string;
+  exit: string;
+}
+
+/** Transitions Random mode picks from. */
+const PREVIEW_TYPES = [
+  TransitionType.Fade,
+  TransitionType.Slide,
+  TransitionType.KenBurns,
+  TransitionType.Zoom,
+  TransitionType.DipToBlack,
+  TransitionType.SlideRight,
+  TransitionType.SlideUp,
+  TransitionType.SlideDown,
+  TransitionType.Cube,
+  TransitionType.Flip,
+  TransitionType.Blur,
+];
+
+/**
+ * Returns the preview animation for a transition. Class names follow the
+ * display's stylesheet, so the preview plays the same effect.
+ */
+export function previewAnimation(type: TransitionType): PreviewAnimation {
+  switch (type) {
+    case TransitionType.Slide:
+      return { enter: "slide-in-left", exit: "slide-out-left" };
+    case TransitionType.SlideRight:
+      return { enter: "slide-in-right", exit: "slide-out-right" };
+    case TransitionType.SlideUp:
+      return { enter: "slide-in-up", exit: "slide-out-up" };
+    case TransitionType.SlideDown:
+      return { enter: "slide-in-down", exit: "slide-out-down" };
+    case TransitionType.KenBurns:
+      return { enter: "ken-burns-in", exit: "fade-out" };
+    case TransitionType.Zoom:
+      return { enter: "zoom-in-enter", exit: "zoom-in-exit" };
+    case TransitionType.DipToBlack:
+      return { enter: "dip-to-black-in", exit: "dip-to-black-out" };
+    case TransitionType.Cube:
+      return { enter: "cube-in-left", exit: "cube-out-left" };
+    case TransitionType.Flip:
+      return { enter: "flip-in-left", exit: "flip-out-left" };
+    case TransitionType.Blur:
+      return { enter: "blur-in", exit: "blur-out" };
+    default:
+      return { enter: "fade-in", exit: "fade-out" };
+  }
+}
+
+/**
+ * Plays a slide transition between two sample slides, so the effect can be
+ * seen before it is saved.
+ */
+@Component({
+  selector: "app-transition-preview",
+  standalone: true,
+  imports: [MatButtonModule, MatIconModule],
+  template: `
+    <div class="preview">
+      <div
+        class="stage"
+        [style.--transition-duration]="duration + 'ms'"
+        data-testid="preview-stage"
+      >
+        @for (slide of slides; track slide.icon; let index = $index) {
+          <div
+            [class]="slideClass(index)"
+            [style.background]="slide.background"
+          >
+            <mat-icon>{{ slide.icon }}</mat-icon>
+          </div>
+        }
+      </div>
+      <button mat-stroked-button type="button" (click)="play()">
+        <mat-icon>play_arrow</mat-icon>
+        Preview
+      </button>
+    </div>
+  `,
+  styles: [
+    `
+      .preview {
+        display: flex;
+        align-items: center;
+        gap: 16px;
+      }
+
+      .stage {
+        position: relative;
+        width: 192px;
+        height: 108px;
+        overflow: hidden;
+        border-radius: 4px;
+        background-color: black;
+        perspective: 600px;
+      }
+
+      .slide {
+        position: absolute;
+        inset: 0;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        color: rgba(255, 255, 255, 0.9);
+        /* Timing for every effect; the effect classes only name the animation */
+        animation-duration: var(--transition-duration);
+        animation-timing-function: ease-in-out;
+        animation-fill-mode: forwards;
+      }
+
+      .slide mat-icon {
+        font-size: 40px;
+        width: 40px;
+        height: 40px;
+      }
+
+      .slide.hidden {
+        visibility: hidden;
+      }
+
+      .slide.incoming {
+        z-index: 1;
+      }
+
+      .fade-in {
+        animation-name: fadeIn;
+      }
+
+      .fade-out {
+        animation-name: fadeOut;
+      }
+
+      .slide-in-left {
+        animation-name: slideInLeft;
+      }
+
+      .slide-out-left {
+        animation-name: slideOutLeft;
+      }
+
+      .slide-in-right {
+        animation-name: slideInRight;
+      }
+
+      .slide-out-right {
+        animation-name: slideOutRight;
+      }
+
+      .slide-in-up {
+        animation-name: slideInUp;
+      }
+
+      .slide-out-up {
+        animation-name: slideOutUp;
+      }
+
+      .slide-in-down {
+        animation-name: slideInDown;
+      }
+
+      .slide-out-down {
+        animation-name: slideOutDown;
+      }
+
+      .ken-burns-in {
+        animation-name: kenBurnsIn;
+      }
+
+      .zoom-in-enter {
+        animation-name: zoomInEnter;
+      }
+
+      .zoom-in-exit {
+        animation-name: zoomInExit;
+      }
+
+      .dip-to-black-in {
+        animation-name: dipToBlackIn;
+      }
+
+      .dip-to-black-out {
+        animation-name: dipToBlackOut;
+      }
+
+      .cube-in-left,
+      .cube-out-left,
+      .flip-in-left,
+      .flip-out-left {
+        backface-visibility: hidden;
+      }
+
+      .cube-in-left {
+        animation-name: cubeInLeft;
+      }
+
+      .cube-out-left {
+        animation-name: cubeOutLeft;
+      }
+
+      .flip-in-left {
+        animation-name: flipInLeft;
+      }
+
+      .flip-out-left {
+        animation-name: flipOutLeft;
+      }
+
+      .blur-in {
+        animation-name: blurIn;
+      }
+
+      .blur-out {
+        animation-name: blurOut;
+      }
+
+      @keyframes fadeIn {
+        from {
+          opacity: 0;
+        }
+        to {
+          opacity: 1;
+        }
+      }
+
+      @keyframes fadeOut {
+        from {
+          opacity: 1;
+        }
+        to {
+          opacity: 0;
+        }
+      }
+
+      @keyframes slideInLeft {
+        from {
+          transform: translateX(100%);
+        }
+        to {
+          transform: translateX(0);
+        }
+      }
+
+      @keyframes slideOutLeft {
+        from {
+          transform: translateX(0);
+        }
+        to {
+          transform: translateX(-100%);
+        }
+      }
+
+      @keyframes slideInRight {
+        from {
+          transform: translateX(-100%);
+        }
+        to {
+          transform: translateX(0);
+        }
+      }
+
+      @keyframes slideOutRight {
+        from {
+          transform: translateX(0);
+        }
+        to {
+          transform: translateX(100%);
+        }
+      }
+
+      @keyframes slideInUp {
+        from {
+          transform: translateY(100%);
+        }
+        to {
+          transform: translateY(0);
+        }
+      }
+
+      @keyframes slideOutUp {
+        from {
+          transform: translateY(0);
+        }
+        to {
+          transform: translateY(-100%);
+        }
+      }
+
+      @keyframes slideInDown {
+        from {
+          transform: translateY(-100%);
+        }
+        to {
+          transform: translateY(0);
+        }
+      }
+
+      @keyframes slideOutDown {
+        from {
+          transform: translateY(0);
+        }
+        to {
+          transform: translateY(100%);
+        }
+      }
+
+      @keyframes kenBurnsIn {
+        from {
+          opacity: 0;
+          transform: scale(1);
+        }
+        to {
+          opacity: 1;
+          transform: scale(1.05);
+        }
+      }
+
+      @keyframes zoomInEnter {
+        from {
+          transform: scale(0.8);
+          opacity: 0;
+        }
+        to {
+          transform: scale(1);
+          opacity: 1;
+        }
+      }
+
+      @keyframes zoomInExit {
+        from {
+          transform: scale(1);
+          opacity: 1;
+        }
+        to {
+          transform: scale(1.2);
+          opacity: 0;
+        }
+      }
+
+      @keyframes dipToBlackIn {
+        0%,
+        50% {
+          opacity: 0;
+          filter: brightness(0);
+        }
+        100% {
+          opacity: 1;
+          filter: brightness(1);
+        }
+      }
+
+      @keyframes dipToBlackOut {
+        0% {
+          filter: brightness(1);
+        }
+        50%,
+        100% {
+          filter: brightness(0);
+        }
+      }
+
+      @keyframes cubeInLeft {
+        from {
+          transform-origin: 0% 50%;
+          transform: translateX(100%) rotateY(90deg);
+        }
+        to {
+          transform-origin: 0% 50%;
+          transform: translateX(0) rotateY(0);
+        }
+      }
+
+      @keyframes cubeOutLeft {
+        from {
+          transform-origin: 100% 50%;
+          transform: translateX(0) rotateY(0);
+        }
+        to {
+          transform-origin: 100% 50%;
+          transform: translateX(-100%) rotateY(-90deg);
+        }
+      }
+
+      @keyframes flipInLeft {
+        from {
+          transform: rotateY(180deg);
+        }
+        to {
+          transform: rotateY(0);
+        }
+      }
+
+      @keyframes flipOutLeft {
+        from {
+          transform: rotateY(0);
+        }
+        to {
+          transform: rotateY(-180deg);
+        }
+      }
+
+      @keyframes blurIn {
+        from {
+          filter: blur(8px);
+          opacity: 0;
+        }
+        to {
+          filter: blur(0);
+          opacity: 1;
+        }
+      }
+
+      @keyframes blurOut {
+        from {
+          filter: blur(0);
+          opacity: 1;
+        }
+        to {
+          filter: blur(8px);
+          opacity: 0;
+        }
+      }
+    `,
+  ],
+})
+export class TransitionPreviewComponent implements OnDestroy {
+  @Input({ required: true }) transition!: TransitionType;
+  /** Length of the transition (ms). */
+  @Input() duration = 1000;
+
+  readonly slides = [
+    {
+      icon: "landscape",
+      background: "linear-gradient(135deg, #3f72af, #8fd3f4)",
+    },
+    {
+      icon: "local_florist",
+      background: "linear-gradient(135deg, #f6a35b, #e8505b)",
+    },
+  ];
+
+  /** Index of the slide on screen. */
+  shown = signal(0);
+  animation = signal<PreviewAnimation | null>(null);
+
+  private lastType: TransitionType | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  ngOnDestroy(): void {
+    this.stop();
+  }
+
+  /**
+   * Plays the transition to the other slide. Random mode picks a different
+   * transition each time, as the display does.
+   */
+  play(): void {
+    this.finish();
+
+    let type = this.transition;
+    if (type === TransitionType.Random) {
+      const candidates = PREVIEW_TYPES.filter((t) => t !== this.lastType);
+      type = candidates[Math.floor(Math.random() * candidates.length)];
+    }
+    this.lastType = type;
+
+    this.animation.set(previewAnimation(type));
+    this.timer = setTimeout(() => this.finish(), this.duration);
+  }
+
+  slideClass(index: number): string {
+    const animation = this.animation();
+    if (index === this.shown()) {
+      return animation ? `slide ${animation.exit}` : "slide";
+    }
+    return animation ? `slide incoming ${animation.enter}` : "slide hidden";
+  }
+
+  /** Shows the incoming slide, ending any transition in progress. */
+  private finish(): void {
+    this.stop();
+    if (this.animation()) {
+      this.animation.set(null);
+      this.shown.update((index) => 1 - index);
+    }
+  }
+
+  private stop(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
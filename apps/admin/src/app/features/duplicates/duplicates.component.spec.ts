@@ -0,0 +1,150 @@
+import { TestBed } from "@angular/core/testing";
+import { of, throwError } from "rxjs";
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { DuplicatesComponent } from "./duplicates.component";
+import { StorageService } from "../../core/services/storage.service";
+import {
+  DuplicateGroupDto,
+  DuplicatePhotoDto,
+  DuplicateScanResult,
+  MediaType,
+} from "../../core/models";
+
+function photo(
+  id: number,
+  overrides: Partial<DuplicatePhotoDto> = {},
+): DuplicatePhotoDto {
+  return {
+    id,
+    filename: `photo-${id}.jpg`,
+    width: 4000,
+    height: 3000,
+    fileSize: 2 * 1024 * 1024,
+    mediaType: MediaType.Photo,
+    dateTaken: null,
+    dateAdded: "2026-01-01T00:00:00Z",
+    providerName: null,
+    albums: [],
+    ...overrides,
+  };
+}
+
+const groups: DuplicateGroupDto[] = [
+  {
+    isExactMatch: true,
+    photos: [
+      photo(1, { albums: [{ id: 5, name: "Holidays" }] }),
+      photo(2, { providerName: "Google Photos" }),
+    ],
+  },
+  {
+    isExactMatch: false,
+    photos: [photo(3), photo(4, { width: 1024, height: 768 })],
+  },
+];
+
+function setup(
+  scans: DuplicateScanResult[] = [
+    { processed: 0, remaining: 0, lastPhotoId: 0 },
+  ],
+) {
+  const storageServiceStub = {
+    scanForDuplicates: vi.fn(),
+    getDuplicateGroups: vi.fn(() => of(groups)),
+    resolveDuplicates: vi.fn(() => of({ keptPhotoId: 2, deletedCount: 1 })),
+  };
+  for (const scan of scans) {
+    storageServiceStub.scanForDuplicates.mockReturnValueOnce(of(scan));
+  }
+
+  TestBed.configureTestingModule({
+    imports: [DuplicatesComponent],
+    providers: [{ provide: StorageService, useValue: storageServiceStub }],
+  });
+
+  const fixture = TestBed.createComponent(DuplicatesComponent);
+  fixture.detectChanges();
+
+  return { fixture, storageServiceStub };
+}
+
+describe("DuplicatesComponent", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("scans the library batch by batch before loading groups", () => {
+    const { fixture, storageServiceStub } = setup([
+      { processed: 25, remaining: 5, lastPhotoId: 30 },
+      { processed: 5, remaining: 0, lastPhotoId: 36 },
+    ]);
+
+    expect(storageServiceStub.scanForDuplicates).toHaveBeenNthCalledWith(1, 0);
+    expect(storageServiceStub.scanForDuplicates).toHaveBeenNthCalledWith(2, 30);
+    expect(fixture.componentInstance.scanned()).toBe(30);
+    expect(storageServiceStub.getDuplicateGroups).toHaveBeenCalledTimes(1);
+  });
+
+  it("shows each group side by side with its details", () => {
+    const { fixture } = setup();
+    const element: HTMLElement = fixture.nativeElement;
+
+    expect(
+      element.querySelector("[data-testid='group-count']")?.textContent,
+    ).toContain("2 group(s)");
+    expect(
+      element.querySelectorAll("[data-testid='duplicate-group']").length,
+    ).toBe(2);
+
+    const photos = element.querySelectorAll("[data-testid='duplicate-photo']");
+    expect(photos.length).toBe(4);
+    expect(photos[0].textContent).toContain("4000 × 3000");
+    expect(photos[0].textContent).toContain("2.0 MB");
+    expect(photos[0].textContent).toContain("Upload");
+    expect(photos[0].textContent).toContain("Holidays");
+    expect(photos[1].textContent).toContain("Google Photos");
+    expect(element.textContent).toContain("Identical copies");
+    expect(element.textContent).toContain("Similar photos");
+  });
+
+  it("keeps the chosen photo and deletes the rest of the group", () => {
+    vi.spyOn(window, "confirm").mockReturnValue(true);
+    const { fixture, storageServiceStub } = setup();
+    const element: HTMLElement = fixture.nativeElement;
+
+    const keepButtons = element.querySelectorAll<HTMLButtonElement>(
+      "[data-testid='keep-photo']",
+    );
+    keepButtons[1].click();
+    fixture.detectChanges();
+
+    expect(storageServiceStub.resolveDuplicates).toHaveBeenCalledWith({
+      keepPhotoId: 2,
+      deletePhotoIds: [1],
+    });
+    expect(fixture.componentInstance.groups()).toEqual([groups[1]]);
+  });
+
+  it("leaves the group when deleting is cancelled", () => {
+    vi.spyOn(window, "confirm").mockReturnValue(false);
+    const { fixture, storageServiceStub } = setup();
+
+    fixture.componentInstance.keep(groups[0], groups[0].photos[0]);
+
+    expect(storageServiceStub.resolveDuplicates).not.toHaveBeenCalled();
+    expect(fixture.componentInstance.groups().length).toBe(2);
+  });
+
+  it("still loads the groups found so far when a scan fails", () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const { fixture, storageServiceStub } = setup();
+    storageServiceStub.scanForDuplicates.mockReturnValue(
+      throwError(() => new Error("boom")),
+    );
+
+    fixture.componentInstance.scan();
+
+    expect(fixture.componentInstance.isScanning()).toBe(false);
+    expect(storageServiceStub.getDuplicateGroups).toHaveBeenCalled();
+  });
+});
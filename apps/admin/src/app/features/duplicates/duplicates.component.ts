@@ -0,0 +1,373 @@
+import { Component, OnDestroy, OnInit, inject, signal } from "@angular/core";
+import { DatePipe } from "@angular/common";
+import { MatButtonModule } from "@angular/material/button";
+import { MatCardModule } from "@angular/material/card";
+import { MatChipsModule } from "@angular/material/chips";
+import { MatIconModule } from "@angular/material/icon";
+import { MatProgressBarModule } from "@angular/material/progress-bar";
+import { MatProgressSpinnerModule } from "@angular/material/progress-spinner";
+import { MatSnackBar, MatSnackBarModule } from "@angular/material/snack-bar";
+import { Subscription } from "rxjs";
+import { StorageService } from "../../core/services/storage.service";
+import { DuplicateGroupDto, DuplicatePhotoDto } from "../../core/models";
+
+@Component({
+  selector: "app-duplicates",
+  standalone: true,
+  imports: [
+    DatePipe,
+    MatButtonModule,
+    MatCardModule,
+    MatChipsModule,
+    MatIconModule,
+    MatProgressBarModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+  ],
+  template: `
+    <div class="duplicates-container">
+      <div class="header">
+        <div>
+          <h1>Duplicates</h1>
+          @if (!isScanning() && !isLoading()) {
+            <p class="subtitle" data-testid="group-count">
+              {{ groups().length }} group(s) of duplicate photos
+            </p>
+          }
+        </div>
+        <button
+          mat-stroked-button
+          (click)="scan()"
+          [disabled]="isScanning() || isLoading()"
+        >
+          <mat-icon>refresh</mat-icon>
+          Rescan
+        </button>
+      </div>
+
+      @if (isScanning()) {
+        <mat-card class="scan-progress" data-testid="scan-progress">
+          <mat-card-content>
+            <p>Scanning library… {{ scanned() }} of {{ scanTotal() }}</p>
+            <mat-progress-bar
+              mode="determinate"
+              [value]="scanPercent()"
+            ></mat-progress-bar>
+          </mat-card-content>
+        </mat-card>
+      } @else if (isLoading()) {
+        <div class="loading">
+          <mat-spinner diameter="40"></mat-spinner>
+        </div>
+      } @else if (groups().length === 0) {
+        <mat-card class="empty-state">
+          <mat-card-content>
+            <mat-icon>check_circle</mat-icon>
+            <h2>No duplicates found</h2>
+            <p>Every photo in your library is unique.</p>
+          </mat-card-content>
+        </mat-card>
+      } @else {
+        @for (group of groups(); track group.photos[0].id) {
+          <mat-card class="group" data-testid="duplicate-group">
+            <mat-card-header>
+              <mat-card-title>
+                {{ group.isExactMatch ? "Identical copies" : "Similar photos" }}
+              </mat-card-title>
+              <mat-card-subtitle>
+                {{ group.photos.length }} photos
+              </mat-card-subtitle>
+              <span class="spacer"></span>
+              <button
+                mat-button
+                (click)="dismiss(group)"
+                [disabled]="resolvingGroup() === group"
+              >
+                Not Duplicates
+              </button>
+            </mat-card-header>
+            <mat-card-content>
+              <div class="photos">
+                @for (photo of group.photos; track photo.id) {
+                  <div class="photo" data-testid="duplicate-photo">
+                    <img
+                      [src]="getThumbnailUrl(photo.id)"
+                      [alt]="photo.filename"
+                      loading="lazy"
+                    />
+                    <div class="details">
+                      <span class="filename">{{ photo.filename }}</span>
+                      <span>{{ photo.width }} × {{ photo.height }}</span>
+                      <span>{{ formatFileSize(photo.fileSize) }}</span>
+                      <span>{{ photo.providerName ?? "Upload" }}</span>
+                      @if (photo.dateTaken) {
+                        <span>{{ photo.dateTaken | date: "mediumDate" }}</span>
+                      }
+                    </div>
+                    @if (photo.albums.length > 0) {
+                      <mat-chip-set>
+                        @for (album of photo.albums; track album.id) {
+                          <mat-chip>{{ album.name }}</mat-chip>
+                        }
+                      </mat-chip-set>
+                    }
+                    <button
+                      mat-raised-button
+                      color="primary"
+                      (click)="keep(group, photo)"
+                      [disabled]="resolvingGroup() !== null"
+                      data-testid="keep-photo"
+                    >
+                      <mat-icon>check</mat-icon>
+                      Keep This One
+                    </button>
+                  </div>
+                }
+              </div>
+            </mat-card-content>
+          </mat-card>
+        }
+      }
+    </div>
+  `,
+  styles: [
+    `
+      .duplicates-container {
+        padding: 24px;
+      }
+
+      .header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin-bottom: 24px;
+      }
+
+      .header h1 {
+        margin: 0;
+      }
+
+      .subtitle {
+        margin: 4px 0 0;
+        color: rgba(0, 0, 0, 0.6);
+      }
+
+      .loading {
+        display: flex;
+        justify-content: center;
+        padding: 48px;
+      }
+
+      .scan-progress p {
+        margin-top: 0;
+      }
+
+      .empty-state {
+        text-align: center;
+        padding: 48px;
+      }
+
+      .empty-state mat-icon {
+        font-size: 64px;
+        width: 64px;
+        height: 64px;
+        color: rgba(0, 0, 0, 0.3);
+      }
+
+      .empty-state h2 {
+        margin: 16px 0 8px;
+      }
+
+      .empty-state p {
+        color: rgba(0, 0, 0, 0.6);
+      }
+
+      .group {
+        margin-bottom: 16px;
+      }
+
+      .group mat-card-header {
+        align-items: center;
+      }
+
+      .spacer {
+        flex: 1;
+      }
+
+      .photos {
+        display: grid;
+        grid-template-columns: repeat(auto-fill, minmax(200px, 1fr));
+        gap: 16px;
+        padding-top: 16px;
+      }
+
+      .photo {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+      }
+
+      .photo img {
+        width: 100%;
+        aspect-ratio: 1;
+        object-fit: cover;
+        border-radius: 4px;
+        background: #f5f5f5;
+      }
+
+      .details {
+        display: flex;
+        flex-direction: column;
+        font-size: 13px;
+        color: rgba(0, 0, 0, 0.6);
+      }
+
+      .filename {
+        font-weight: 500;
+        color: rgba(0, 0, 0, 0.87);
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+    `,
+  ],
+})
+export class DuplicatesComponent implements OnInit, OnDestroy {
+  private readonly storageService = inject(StorageService);
+  private readonly snackBar = inject(MatSnackBar);
+
+  private scanSubscription: Subscription | null = null;
+
+  groups = signal<DuplicateGroupDto[]>([]);
+  isScanning = signal(false);
+  isLoading = signal(false);
+  scanned = signal(0);
+  scanTotal = signal(0);
+  resolvingGroup = signal<DuplicateGroupDto | null>(null);
+
+  ngOnInit(): void {
+    this.scan();
+  }
+
+  ngOnDestroy(): void {
+    this.scanSubscription?.unsubscribe();
+  }
+
+  /**
+   * Hashes any photos added since the last scan, batch by batch, then loads
+   * the duplicate groups.
+   */
+  scan(): void {
+    this.isScanning.set(true);
+    this.scanned.set(0);
+    this.scanTotal.set(0);
+    this.scanBatch(0);
+  }
+
+  scanPercent(): number {
+    const total = this.scanTotal();
+    return total > 0 ? (this.scanned() / total) * 100 : 0;
+  }
+
+  /**
+   * Keeps the chosen photo and deletes the rest of its group. The server
+   * moves their album and tag memberships onto the kept photo.
+   */
+  keep(group: DuplicateGroupDto, photo: DuplicatePhotoDto): void {
+    const deletePhotoIds = group.photos
+      .filter((p) => p.id !== photo.id)
+      .map((p) => p.id);
+    if (
+      !confirm(
+        `Keep "${photo.filename}" and delete ${deletePhotoIds.length} other photo(s)? This cannot be undone.`,
+      )
+    ) {
+      return;
+    }
+
+    this.resolvingGroup.set(group);
+    this.storageService
+      .resolveDuplicates({ keepPhotoId: photo.id, deletePhotoIds })
+      .subscribe({
+        next: (result) => {
+          this.resolvingGroup.set(null);
+          this.groups.update((groups) => groups.filter((g) => g !== group));
+          this.snackBar.open(
+            `Deleted ${result.deletedCount} duplicate(s)`,
+            "Close",
+            { duration: 3000 },
+          );
+        },
+        error: (error) => {
+          console.error("Failed to resolve duplicates:", error);
+          this.resolvingGroup.set(null);
+          this.snackBar.open("Failed to delete duplicates", "Close", {
+            duration: 3000,
+          });
+        },
+      });
+  }
+
+  /**
+   * Hides a group that is not actually a set of duplicates until the next
+   * scan.
+   */
+  dismiss(group: DuplicateGroupDto): void {
+    this.groups.update((groups) => groups.filter((g) => g !== group));
+  }
+
+  formatFileSize(bytes: number): string {
+    if (bytes < 1024) return bytes + " B";
+    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
+    if (bytes < 1024 * 1024 * 1024)
+      return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+    return (bytes / (1024 * 1024 * 1024)).toFixed(1) + " GB";
+  }
+
+  getThumbnailUrl(photoId: number): string {
+    return `/api/media/thumbnails/${photoId}`;
+  }
+
+  private scanBatch(afterId: number): void {
+    this.scanSubscription = this.storageService
+      .scanForDuplicates(afterId)
+      .subscribe({
+        next: (result) => {
+          this.scanned.update((count) => count + result.processed);
+          this.scanTotal.set(this.scanned() + result.remaining);
+          if (result.remaining > 0) {
+            this.scanBatch(result.lastPhotoId);
+          } else {
+            this.isScanning.set(false);
+            this.loadGroups();
+          }
+        },
+        error: (error) => {
+          // Photos hashed so far can still be grouped.
+          console.error("Failed to scan for duplicates:", error);
+          this.isScanning.set(false);
+          this.snackBar.open("Failed to scan library", "Close", {
+            duration: 3000,
+          });
+          this.loadGroups();
+        },
+      });
+  }
+
+  private loadGroups(): void {
+    this.isLoading.set(true);
+    this.storageService.getDuplicateGroups().subscribe({
+      next: (groups) => {
+        this.groups.set(groups);
+        this.isLoading.set(false);
+      },
+      error: (error) => {
+        console.error("Failed to load duplicates:", error);
+        this.isLoading.set(false);
+        this.snackBar.open("Failed to load duplicates", "Close", {
+          duration: 3000,
+        });
+      },
+    });
+  }
+}
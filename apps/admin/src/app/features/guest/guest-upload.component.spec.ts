@@ -0,0 +1,113 @@
+import { TestBed } from "@angular/core/testing";
+import { of } from "rxjs";
+import { describe, it, expect, vi } from "vitest";
+import { HttpEventType } from "@angular/common/http";
+import { ActivatedRoute, convertToParamMap } from "@angular/router";
+import { GuestUploadComponent } from "./guest-upload.component";
+import { AuthService } from "../../core/services/auth.service";
+import { StorageService } from "../../core/services/storage.service";
+import { FileHashService } from "../../core/services/file-hash.service";
+import { GuestLinkPublicInfo } from "../../core/models";
+
+function setup(existingHashes: string[] = []) {
+  const linkInfo: GuestLinkPublicInfo = {
+    name: "Family Reunion",
+    targetAlbumName: "Reunion 2025",
+    isActive: true,
+    remainingUploads: 5,
+    statusMessage: null,
+  };
+
+  const authServiceStub = {
+    getGuestLinkInfo: vi.fn(() => of(linkInfo)),
+  } as Partial<AuthService>;
+
+  const storageServiceStub = {
+    guestUploadWithProgress: vi.fn(() =>
+      of({
+        type: HttpEventType.Response,
+        body: {
+          totalFiles: 1,
+          successfulUploads: 1,
+          failedUploads: 0,
+          results: [],
+          allSuccessful: true,
+        },
+      }),
+    ),
+    guestCheckDuplicates: vi.fn(() => of({ existingHashes })),
+  } as unknown as Partial<StorageService>;
+
+  const routeStub = {
+    snapshot: { paramMap: convertToParamMap({ linkCode: "abc123" }) },
+  } as unknown as ActivatedRoute;
+
+  TestBed.configureTestingModule({
+    imports: [GuestUploadComponent],
+    providers: [
+      { provide: AuthService, useValue: authServiceStub },
+      { provide: StorageService, useValue: storageServiceStub },
+      {
+        provide: FileHashService,
+        useValue: { hash: (file: File) => of(`hash-${file.name}`) },
+      },
+      { provide: ActivatedRoute, useValue: routeStub },
+    ],
+  });
+
+  const fixture = TestBed.createComponent(GuestUploadComponent);
+  fixture.detectChanges();
+
+  return { fixture, authServiceStub, storageServiceStub };
+}
+
+describe("GuestUploadComponent", () => {
+  it("loads link info and uploads files through the guest link", async () => {
+    const { fixture, authServiceStub, storageServiceStub } = setup();
+
+    const component = fixture.componentInstance;
+    expect(authServiceStub.getGuestLinkInfo).toHaveBeenCalledWith("abc123");
+    expect(fixture.nativeElement.textContent).toContain("Reunion 2025");
+
+    component.message = "Hello!";
+    await component.uploadFiles([
+      new File(["x"], "photo.jpg", { type: "image/jpeg" }),
+    ]);
+
+    expect(storageServiceStub.guestCheckDuplicates).toHaveBeenCalledWith(
+      "abc123",
+      ["hash-photo.jpg"],
+    );
+    expect(storageServiceStub.guestUploadWithProgress).toHaveBeenCalledWith(
+      expect.any(File),
+      "abc123",
+      "Hello!",
+    );
+    expect(component.uploadQueue()[0].status).toBe("success");
+    expect(component.remainingUploads()).toBe(4);
+  });
+
+  it("holds back files already in the library until the guest decides", async () => {
+    const { fixture, storageServiceStub } = setup(["hash-old.jpg"]);
+    const component = fixture.componentInstance;
+
+    await component.uploadFiles([
+      new File(["x"], "new.jpg", { type: "image/jpeg" }),
+      new File(["y"], "old.jpg", { type: "image/jpeg" }),
+    ]);
+    fixture.detectChanges();
+
+    expect(storageServiceStub.guestUploadWithProgress).toHaveBeenCalledTimes(1);
+    expect(component.uploadQueue()[1].status).toBe("duplicate");
+    expect(
+      fixture.nativeElement.querySelector('[data-testid="duplicate-prompt"]')
+        .textContent,
+    ).toContain("1 file is already in this library");
+
+    await component.resolveDuplicates("keep");
+
+    expect(storageServiceStub.guestUploadWithProgress).toHaveBeenCalledTimes(2);
+    expect(component.uploadQueue()[1].status).toBe("success");
+    expect(component.remainingUploads()).toBe(3);
+  });
+});
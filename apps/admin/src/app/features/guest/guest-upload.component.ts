@@ -0,0 +1,631 @@
+import { Component, computed, inject, OnInit, signal } from "@angular/core";
+import { CommonModule } from "@angular/common";
+import { FormsModule } from "@angular/forms";
+import { HttpEventType } from "@angular/common/http";
+import { ActivatedRoute } from "@angular/router";
+import { firstValueFrom } from "rxjs";
+import { MatCardModule } from "@angular/material/card";
+import { MatButtonModule } from "@angular/material/button";
+import { MatInputModule } from "@angular/material/input";
+import { MatFormFieldModule } from "@angular/material/form-field";
+import { MatIconModule } from "@angular/material/icon";
+import { MatProgressBarModule } from "@angular/material/progress-bar";
+import { MatProgressSpinnerModule } from "@angular/material/progress-spinner";
+import { AuthService } from "../../core/services/auth.service";
+import { StorageService } from "../../core/services/storage.service";
+import { FileHashService } from "../../core/services/file-hash.service";
+import { ApiError, GuestLinkPublicInfo } from "../../core/models";
+
+interface GuestUploadProgress {
+  file: File;
+  progress: number;
+  status:
+    | "checking"
+    | "duplicate"
+    | "pending"
+    | "uploading"
+    | "success"
+    | "skipped"
+    | "error";
+  error?: string;
+}
+
+/**
+ * Public, unauthenticated page that lets guests upload photos through a
+ * guest link shared by an administrator.
+ */
+@Component({
+  selector: "app-guest-upload",
+  standalone: true,
+  imports: [
+    CommonModule,
+    FormsModule,
+    MatCardModule,
+    MatButtonModule,
+    MatInputModule,
+    MatFormFieldModule,
+    MatIconModule,
+    MatProgressBarModule,
+    MatProgressSpinnerModule,
+  ],
+  template: `
+    <div class="guest-container">
+      <mat-card class="guest-card">
+        <div class="logo">
+          <mat-icon class="logo-icon">photo_camera</mat-icon>
+          <h1>LibraFoto</h1>
+        </div>
+
+        <mat-card-content>
+          @if (isLoading()) {
+            <div class="loading-container">
+              <mat-spinner diameter="40"></mat-spinner>
+              <p>Checking your upload link...</p>
+            </div>
+          } @else if (!linkInfo() || !canUpload()) {
+            <div class="error-message">
+              <mat-icon>error</mat-icon>
+              <span>{{ unavailableMessage() }}</span>
+            </div>
+          } @else {
+            <div class="link-info">
+              <h2>{{ linkInfo()!.name }}</h2>
+              @if (linkInfo()!.targetAlbumName) {
+                <p>
+                  <mat-icon>collections</mat-icon>
+                  Photos will be added to
+                  <strong>{{ linkInfo()!.targetAlbumName }}</strong>
+                </p>
+              }
+              @if (remainingUploads() !== null) {
+                <p>
+                  <mat-icon>upload</mat-icon>
+                  {{ remainingUploads() }} upload(s) remaining
+                </p>
+              }
+              @if (linkInfo()!.statusMessage) {
+                <p class="status-message">{{ linkInfo()!.statusMessage }}</p>
+              }
+            </div>
+
+            <div
+              class="drop-zone"
+              [class.active]="isDragOver()"
+              (dragover)="onDragOver($event)"
+              (dragleave)="onDragLeave($event)"
+              (drop)="onDrop($event)"
+            >
+              <mat-icon>cloud_upload</mat-icon>
+              <p>Drag and drop photos or videos here</p>
+              <button
+                mat-stroked-button
+                color="primary"
+                type="button"
+                [disabled]="isUploading()"
+                (click)="fileInput.click()"
+              >
+                Choose Files
+              </button>
+              <input
+                #fileInput
+                type="file"
+                multiple
+                accept="image/*,video/*"
+                hidden
+                (change)="onFilesSelected($event)"
+              />
+            </div>
+
+            <mat-form-field appearance="outline" class="full-width">
+              <mat-label>Message (optional)</mat-label>
+              <textarea
+                matInput
+                rows="2"
+                maxlength="500"
+                [(ngModel)]="message"
+                [disabled]="isUploading()"
+              ></textarea>
+            </mat-form-field>
+          }
+
+          @if (duplicateCount() > 0) {
+            <div class="duplicate-prompt" data-testid="duplicate-prompt">
+              <span>
+                {{ duplicateCount() }}
+                {{ duplicateCount() === 1 ? "file is" : "files are" }} already
+                in this library
+              </span>
+              <div class="duplicate-actions">
+                <button mat-button (click)="resolveDuplicates('skip')">
+                  Skip
+                </button>
+                <button mat-button (click)="resolveDuplicates('keep')">
+                  Keep Both
+                </button>
+              </div>
+            </div>
+          }
+
+          @if (uploadQueue().length > 0) {
+            <div class="upload-list">
+              @for (upload of uploadQueue(); track upload.file) {
+                <div class="upload-item">
+                  <div class="upload-header">
+                    <span class="filename">{{ upload.file.name }}</span>
+                    <span class="status" [class]="upload.status">
+                      @switch (upload.status) {
+                        @case ("checking") {
+                          Checking
+                        }
+                        @case ("duplicate") {
+                          Already in library
+                        }
+                        @case ("skipped") {
+                          Skipped
+                        }
+                        @case ("pending") {
+                          Waiting
+                        }
+                        @case ("uploading") {
+                          {{ upload.progress }}%
+                        }
+                        @case ("success") {
+                          <mat-icon>check_circle</mat-icon>
+                        }
+                        @case ("error") {
+                          {{ upload.error }}
+                        }
+                      }
+                    </span>
+                  </div>
+                  <mat-progress-bar
+                    mode="determinate"
+                    [value]="upload.progress"
+                    [color]="upload.status === 'error' ? 'warn' : 'primary'"
+                  >
+                  </mat-progress-bar>
+                </div>
+              }
+            </div>
+          }
+        </mat-card-content>
+
+        <mat-card-footer class="footer">
+          <p>Your personal photo frame</p>
+        </mat-card-footer>
+      </mat-card>
+    </div>
+  `,
+  styles: [
+    `
+      .guest-container {
+        display: flex;
+        justify-content: center;
+        align-items: center;
+        min-height: 100vh;
+        background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+        padding: 16px;
+      }
+
+      .guest-card {
+        width: 100%;
+        max-width: 520px;
+        padding: 32px;
+      }
+
+      .logo {
+        text-align: center;
+        margin-bottom: 24px;
+      }
+
+      .logo-icon {
+        font-size: 48px;
+        width: 48px;
+        height: 48px;
+        color: #667eea;
+      }
+
+      .logo h1 {
+        margin: 8px 0 0;
+        font-weight: 300;
+        font-size: 28px;
+      }
+
+      .loading-container {
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        padding: 24px;
+        gap: 16px;
+      }
+
+      .link-info {
+        margin-bottom: 16px;
+      }
+
+      .link-info h2 {
+        margin: 0 0 8px;
+        font-weight: 400;
+      }
+
+      .link-info p {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin: 4px 0;
+        color: rgba(0, 0, 0, 0.7);
+      }
+
+      .link-info mat-icon {
+        font-size: 18px;
+        width: 18px;
+        height: 18px;
+      }
+
+      .status-message {
+        font-style: italic;
+      }
+
+      .drop-zone {
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        gap: 8px;
+        padding: 32px 16px;
+        margin-bottom: 16px;
+        border: 2px dashed rgba(0, 0, 0, 0.2);
+        border-radius: 8px;
+        text-align: center;
+        transition: all 0.2s;
+      }
+
+      .drop-zone.active {
+        border-color: #667eea;
+        background-color: rgba(102, 126, 234, 0.05);
+      }
+
+      .drop-zone mat-icon {
+        font-size: 48px;
+        width: 48px;
+        height: 48px;
+        color: rgba(0, 0, 0, 0.3);
+      }
+
+      .full-width {
+        width: 100%;
+      }
+
+      .duplicate-prompt {
+        margin-bottom: 16px;
+        padding: 8px 12px;
+        border-radius: 4px;
+        background: rgba(255, 152, 0, 0.12);
+        font-size: 14px;
+      }
+
+      .duplicate-actions {
+        display: flex;
+        justify-content: flex-end;
+        margin-top: 4px;
+      }
+
+      .upload-list {
+        display: flex;
+        flex-direction: column;
+        gap: 12px;
+      }
+
+      .upload-header {
+        display: flex;
+        justify-content: space-between;
+        gap: 8px;
+        margin-bottom: 4px;
+        font-size: 14px;
+      }
+
+      .filename {
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+
+      .status {
+        display: flex;
+        align-items: center;
+        flex-shrink: 0;
+      }
+
+      .status mat-icon {
+        font-size: 18px;
+        width: 18px;
+        height: 18px;
+      }
+
+      .status.success {
+        color: #4caf50;
+      }
+      .status.error {
+        color: #f44336;
+      }
+      .status.uploading {
+        color: #2196f3;
+      }
+      .status.duplicate {
+        color: #ff9800;
+      }
+
+      .error-message {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 12px;
+        background: #ffebee;
+        border-radius: 4px;
+        color: #c62828;
+      }
+
+      .footer {
+        text-align: center;
+        padding: 16px 0 0;
+        margin-top: 16px;
+        border-top: 1px solid rgba(0, 0, 0, 0.1);
+      }
+
+      .footer p {
+        margin: 0;
+        color: rgba(0, 0, 0, 0.5);
+        font-size: 14px;
+      }
+    `,
+  ],
+})
+export class GuestUploadComponent implements OnInit {
+  private readonly route = inject(ActivatedRoute);
+  private readonly authService = inject(AuthService);
+  private readonly storageService = inject(StorageService);
+  private readonly fileHashService = inject(FileHashService);
+
+  linkCode = "";
+  message = "";
+
+  linkInfo = signal<GuestLinkPublicInfo | null>(null);
+  loadError = signal<string | null>(null);
+  isLoading = signal(true);
+  isDragOver = signal(false);
+  uploadQueue = signal<GuestUploadProgress[]>([]);
+  uploadedCount = signal(0);
+
+  isUploading = computed(() =>
+    this.uploadQueue().some(
+      (u) =>
+        u.status === "checking" ||
+        u.status === "pending" ||
+        u.status === "uploading",
+    ),
+  );
+
+  duplicateCount = computed(
+    () => this.uploadQueue().filter((u) => u.status === "duplicate").length,
+  );
+
+  remainingUploads = computed(() => {
+    const remaining = this.linkInfo()?.remainingUploads;
+    if (remaining === null || remaining === undefined) {
+      return null;
+    }
+    return Math.max(0, remaining - this.uploadedCount());
+  });
+
+  canUpload = computed(
+    () =>
+      !!this.linkInfo()?.isActive &&
+      (this.remainingUploads() === null || this.remainingUploads()! > 0),
+  );
+
+  unavailableMessage = computed(
+    () =>
+      this.loadError() ??
+      this.linkInfo()?.statusMessage ??
+      "This upload link is no longer accepting uploads.",
+  );
+
+  ngOnInit(): void {
+    this.linkCode = this.route.snapshot.paramMap.get("linkCode") ?? "";
+    this.loadLinkInfo();
+  }
+
+  private loadLinkInfo(): void {
+    if (!this.linkCode) {
+      this.loadError.set("This upload link is invalid.");
+      this.isLoading.set(false);
+      return;
+    }
+
+    this.authService.getGuestLinkInfo(this.linkCode).subscribe({
+      next: (info) => {
+        this.linkInfo.set(info);
+        this.isLoading.set(false);
+      },
+      error: (error: ApiError) => {
+        console.error("Failed to load guest link:", error);
+        this.loadError.set(
+          error?.message || "This upload link is invalid or has expired.",
+        );
+        this.isLoading.set(false);
+      },
+    });
+  }
+
+  onFilesSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    if (input.files && input.files.length > 0) {
+      this.uploadFiles(Array.from(input.files));
+      input.value = "";
+    }
+  }
+
+  onDragOver(event: DragEvent): void {
+    event.preventDefault();
+    event.stopPropagation();
+    this.isDragOver.set(true);
+  }
+
+  onDragLeave(event: DragEvent): void {
+    event.preventDefault();
+    event.stopPropagation();
+    this.isDragOver.set(false);
+  }
+
+  onDrop(event: DragEvent): void {
+    event.preventDefault();
+    event.stopPropagation();
+    this.isDragOver.set(false);
+
+    if (!this.canUpload() || this.isUploading()) {
+      return;
+    }
+
+    if (event.dataTransfer?.files) {
+      const files = Array.from(event.dataTransfer.files).filter(
+        (file) =>
+          file.type.startsWith("image/") || file.type.startsWith("video/"),
+      );
+      if (files.length > 0) {
+        this.uploadFiles(files);
+      }
+    }
+  }
+
+  async uploadFiles(files: File[]): Promise<void> {
+    const remaining = this.remainingUploads();
+    const accepted = remaining === null ? files : files.slice(0, remaining);
+
+    const queue: GuestUploadProgress[] = files.map((file, index) =>
+      index < accepted.length
+        ? { file, progress: 0, status: "checking" as const }
+        : {
+            file,
+            progress: 0,
+            status: "error" as const,
+            error: "Upload limit reached",
+          },
+    );
+
+    this.uploadQueue.set(queue);
+
+    const duplicates = await this.findDuplicates(
+      queue.filter((upload) => upload.status === "checking"),
+    );
+    for (const upload of queue) {
+      if (upload.status === "checking") {
+        upload.status = duplicates.has(upload) ? "duplicate" : "pending";
+      }
+    }
+    this.uploadQueue.set([...queue]);
+
+    await this.uploadPending(queue);
+  }
+
+  /**
+   * Skip the files that are already in the library, or upload them anyway.
+   */
+  resolveDuplicates(decision: "skip" | "keep"): Promise<void> {
+    const queue = this.uploadQueue();
+    for (const upload of queue) {
+      if (upload.status === "duplicate") {
+        upload.status = decision === "skip" ? "skipped" : "pending";
+      }
+    }
+    this.uploadQueue.set([...queue]);
+
+    return this.uploadPending(queue);
+  }
+
+  /**
+   * Hash the files and ask the server which are already in the library.
+   * The check is best effort: if it fails, every file is uploaded.
+   */
+  private async findDuplicates(
+    uploads: GuestUploadProgress[],
+  ): Promise<Set<GuestUploadProgress>> {
+    if (uploads.length === 0) {
+      return new Set();
+    }
+
+    try {
+      const hashes: string[] = [];
+      for (const upload of uploads) {
+        hashes.push(
+          await firstValueFrom(this.fileHashService.hash(upload.file)),
+        );
+      }
+
+      const result = await firstValueFrom(
+        this.storageService.guestCheckDuplicates(this.linkCode, [
+          ...new Set(hashes),
+        ]),
+      );
+      const existing = new Set(result.existingHashes);
+      return new Set(uploads.filter((_, index) => existing.has(hashes[index])));
+    } catch (error) {
+      console.error("Failed to check for duplicates:", error);
+      return new Set();
+    }
+  }
+
+  private async uploadPending(queue: GuestUploadProgress[]): Promise<void> {
+    for (const upload of queue) {
+      if (upload.status !== "pending") {
+        continue;
+      }
+
+      upload.status = "uploading";
+      this.uploadQueue.set([...queue]);
+
+      try {
+        await this.uploadFile(upload);
+        upload.status = "success";
+        upload.progress = 100;
+        this.uploadedCount.update((count) => count + 1);
+      } catch (error) {
+        upload.status = "error";
+        upload.error =
+          (error as ApiError)?.message ||
+          (error instanceof Error ? error.message : "Upload failed");
+      }
+
+      this.uploadQueue.set([...queue]);
+    }
+  }
+
+  private uploadFile(upload: GuestUploadProgress): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.storageService
+        .guestUploadWithProgress(
+          upload.file,
+          this.linkCode,
+          this.message.trim() || undefined,
+        )
+        .subscribe({
+          next: (event) => {
+            if (event.type === HttpEventType.UploadProgress && event.total) {
+              upload.progress = Math.round((event.loaded / event.total) * 100);
+              this.uploadQueue.update((queue) => [...queue]);
+            } else if (event.type === HttpEventType.Response) {
+              const result = event.body;
+              if (result && result.successfulUploads === 0) {
+                reject(
+                  new Error(
+                    result.results[0]?.errorMessage ?? "Upload was rejected",
+                  ),
+                );
+                return;
+              }
+              resolve();
+            }
+          },
+          error: (error) => reject(error),
+        });
+    });
+  }
+}
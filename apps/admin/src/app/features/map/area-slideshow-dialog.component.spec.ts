@@ -0,0 +1,114 @@
+import { TestBed } from "@angular/core/testing";
+import { of, throwError } from "rxjs";
+import { describe, it, expect, vi } from "vitest";
+import { MatDialogRef, MAT_DIALOG_DATA } from "@angular/material/dialog";
+import { AreaSlideshowDialogComponent } from "./area-slideshow-dialog.component";
+import { AlbumService } from "../../core/services/album.service";
+import { DisplaySettingsService } from "../../core/services/display-settings.service";
+import { AlbumDto, DisplaySettingsDto, SourceType } from "../../core/models";
+
+const album = { id: 12, name: "Vienna" } as AlbumDto;
+const displays = [
+  { id: 1, name: "Living Room" },
+  { id: 2, name: "Kitchen" },
+] as DisplaySettingsDto[];
+
+function setup(albumServiceOverrides = {}) {
+  const albumServiceStub = {
+    createAlbum: vi.fn(() => of(album)),
+    addPhotosToAlbum: vi.fn(() =>
+      of({ successCount: 3, failedCount: 0, errors: [] }),
+    ),
+    ...albumServiceOverrides,
+  } as Partial<AlbumService>;
+
+  const displaySettingsServiceStub = {
+    getAllSettings: vi.fn(() => of(displays)),
+    updateSettings: vi.fn(() => of(displays[1])),
+  } as Partial<DisplaySettingsService>;
+
+  const dialogRefStub = {
+    close: vi.fn(),
+  } as Partial<MatDialogRef<AreaSlideshowDialogComponent>>;
+
+  TestBed.configureTestingModule({
+    imports: [AreaSlideshowDialogComponent],
+    providers: [
+      { provide: AlbumService, useValue: albumServiceStub },
+      { provide: DisplaySettingsService, useValue: displaySettingsServiceStub },
+      { provide: MatDialogRef, useValue: dialogRefStub },
+      { provide: MAT_DIALOG_DATA, useValue: { photoIds: [4, 5, 6] } },
+    ],
+  });
+
+  const fixture = TestBed.createComponent(AreaSlideshowDialogComponent);
+  fixture.detectChanges();
+
+  return {
+    fixture,
+    albumServiceStub,
+    displaySettingsServiceStub,
+    dialogRefStub,
+  };
+}
+
+describe("AreaSlideshowDialogComponent", () => {
+  it("saves the photos as an album and shows it on the chosen display", () => {
+    const {
+      fixture,
+      albumServiceStub,
+      displaySettingsServiceStub,
+      dialogRefStub,
+    } = setup();
+    const component = fixture.componentInstance;
+
+    expect(component.displayId()).toBe(1);
+
+    component.name.set("  Vienna ");
+    component.displayId.set(2);
+    component.create();
+
+    expect(albumServiceStub.createAlbum).toHaveBeenCalledWith({
+      name: "Vienna",
+    });
+    expect(albumServiceStub.addPhotosToAlbum).toHaveBeenCalledWith(12, {
+      photoIds: [4, 5, 6],
+    });
+    expect(displaySettingsServiceStub.updateSettings).toHaveBeenCalledWith(2, {
+      sourceType: SourceType.Album,
+      sourceId: 12,
+    });
+    expect(dialogRefStub.close).toHaveBeenCalledWith({
+      album,
+      display: displays[1],
+    });
+  });
+
+  it("requires an album name", () => {
+    const { fixture, albumServiceStub } = setup();
+    const component = fixture.componentInstance;
+
+    component.name.set(" ");
+    component.create();
+
+    expect(component.canCreate()).toBe(false);
+    expect(albumServiceStub.createAlbum).not.toHaveBeenCalled();
+  });
+
+  it("stays open and shows the error when a step fails", () => {
+    const { fixture, displaySettingsServiceStub, dialogRefStub } = setup({
+      addPhotosToAlbum: vi.fn(() => throwError(() => new Error("Offline"))),
+    });
+    const component = fixture.componentInstance;
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    component.create();
+    fixture.detectChanges();
+
+    expect(displaySettingsServiceStub.updateSettings).not.toHaveBeenCalled();
+    expect(dialogRefStub.close).not.toHaveBeenCalled();
+    expect(component.isSaving()).toBe(false);
+    expect(fixture.nativeElement.textContent).toContain("Offline");
+    vi.restoreAllMocks();
+  });
+});
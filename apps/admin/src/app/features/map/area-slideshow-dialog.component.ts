@@ -0,0 +1,178 @@
+import { Component, inject, signal, computed, OnInit } from "@angular/core";
+import { FormsModule } from "@angular/forms";
+import {
+  MatDialogModule,
+  MatDialogRef,
+  MAT_DIALOG_DATA,
+} from "@angular/material/dialog";
+import { MatButtonModule } from "@angular/material/button";
+import { MatFormFieldModule } from "@angular/material/form-field";
+import { MatInputModule } from "@angular/material/input";
+import { MatSelectModule } from "@angular/material/select";
+import { MatProgressSpinnerModule } from "@angular/material/progress-spinner";
+import { map, switchMap } from "rxjs";
+import { AlbumService } from "../../core/services/album.service";
+import { DisplaySettingsService } from "../../core/services/display-settings.service";
+import { AlbumDto, DisplaySettingsDto, SourceType } from "../../core/models";
+
+interface DialogData {
+  photoIds: number[];
+}
+
+/**
+ * Album created for the area and the display now showing it.
+ */
+export interface AreaSlideshowResult {
+  album: AlbumDto;
+  display: DisplaySettingsDto;
+}
+
+/**
+ * Turns the photos of a map area into a slideshow: saves them as a new album
+ * and points the chosen display at that album.
+ */
+@Component({
+  selector: "app-area-slideshow-dialog",
+  standalone: true,
+  imports: [
+    FormsModule,
+    MatDialogModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatProgressSpinnerModule,
+  ],
+  template: `
+    <h2 mat-dialog-title>Make Slideshow from This Area</h2>
+    <mat-dialog-content>
+      <p class="hint">
+        {{ photoCount }} photo(s) will be saved as a new album and shown on the
+        chosen display.
+      </p>
+      <mat-form-field appearance="outline" class="full-width">
+        <mat-label>Album name</mat-label>
+        <input
+          matInput
+          [ngModel]="name()"
+          (ngModelChange)="name.set($event)"
+          maxlength="100"
+        />
+      </mat-form-field>
+      <mat-form-field appearance="outline" class="full-width">
+        <mat-label>Display</mat-label>
+        <mat-select
+          [value]="displayId()"
+          (selectionChange)="displayId.set($event.value)"
+        >
+          @for (display of displays(); track display.id) {
+            <mat-option [value]="display.id">{{ display.name }}</mat-option>
+          }
+        </mat-select>
+      </mat-form-field>
+      @if (error()) {
+        <p class="error">{{ error() }}</p>
+      }
+    </mat-dialog-content>
+    <mat-dialog-actions align="end">
+      <button mat-button mat-dialog-close>Cancel</button>
+      <button
+        mat-raised-button
+        color="primary"
+        (click)="create()"
+        [disabled]="!canCreate() || isSaving()"
+      >
+        @if (isSaving()) {
+          <mat-spinner diameter="20"></mat-spinner>
+        } @else {
+          Create Slideshow
+        }
+      </button>
+    </mat-dialog-actions>
+  `,
+  styles: [
+    `
+      .full-width {
+        width: 100%;
+      }
+
+      .hint {
+        color: rgba(0, 0, 0, 0.6);
+      }
+
+      .error {
+        color: #f44336;
+      }
+    `,
+  ],
+})
+export class AreaSlideshowDialogComponent implements OnInit {
+  private readonly dialogRef = inject(
+    MatDialogRef<AreaSlideshowDialogComponent, AreaSlideshowResult>,
+  );
+  private readonly data = inject<DialogData>(MAT_DIALOG_DATA);
+  private readonly albumService = inject(AlbumService);
+  private readonly displaySettingsService = inject(DisplaySettingsService);
+
+  readonly photoCount = this.data.photoIds.length;
+
+  name = signal(`Map area ${new Date().toLocaleDateString()}`);
+  displays = signal<DisplaySettingsDto[]>([]);
+  displayId = signal<number | null>(null);
+  isSaving = signal(false);
+  error = signal<string | null>(null);
+
+  canCreate = computed(
+    () =>
+      this.name().trim() !== "" &&
+      this.displayId() !== null &&
+      this.photoCount > 0,
+  );
+
+  ngOnInit(): void {
+    this.displaySettingsService.getAllSettings().subscribe({
+      next: (displays) => {
+        this.displays.set(displays);
+        this.displayId.set(displays[0]?.id ?? null);
+      },
+      error: (error) => console.error("Failed to load displays:", error),
+    });
+  }
+
+  create(): void {
+    if (!this.canCreate()) return;
+
+    const displayId = this.displayId()!;
+    this.isSaving.set(true);
+    this.error.set(null);
+
+    this.albumService
+      .createAlbum({ name: this.name().trim() })
+      .pipe(
+        switchMap((album) =>
+          this.albumService
+            .addPhotosToAlbum(album.id, { photoIds: this.data.photoIds })
+            .pipe(map(() => album)),
+        ),
+        switchMap((album) =>
+          this.displaySettingsService
+            .updateSettings(displayId, {
+              sourceType: SourceType.Album,
+              sourceId: album.id,
+            })
+            .pipe(map((display) => ({ album, display }))),
+        ),
+      )
+      .subscribe({
+        next: (result) => {
+          this.isSaving.set(false);
+          this.dialogRef.close(result);
+        },
+        error: (error) => {
+          console.error("Failed to create slideshow:", error);
+          this.isSaving.set(false);
+          this.error.set(error?.message ?? "Failed to create slideshow");
+        },
+      });
+  }
+}
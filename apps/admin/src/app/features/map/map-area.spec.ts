@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { isInArea, toMapArea, wrapLongitude } from "./map-area";
+import { PhotoLocationDto } from "../../core/models";
+
+function location(latitude: number, longitude: number): PhotoLocationDto {
+  return { id: 1, filename: "photo.jpg", latitude, longitude, dateTaken: null };
+}
+
+describe("wrapLongitude", () => {
+  it("wraps longitudes into [-180, 180)", () => {
+    expect(wrapLongitude(16.5)).toBe(16.5);
+    expect(wrapLongitude(190)).toBe(-170);
+    expect(wrapLongitude(-190)).toBe(170);
+    expect(wrapLongitude(376.5)).toBe(16.5);
+  });
+});
+
+describe("toMapArea", () => {
+  it("rounds the bounds outwards", () => {
+    expect(toMapArea(48.123456, 16.123456, 48.654321, 16.654321)).toEqual({
+      minLatitude: 48.12345,
+      maxLatitude: 48.65433,
+      minLongitude: 16.12345,
+      maxLongitude: 16.65433,
+    });
+  });
+
+  it("wraps bounds from a map panned around the world", () => {
+    expect(toMapArea(-20, 530, -10, 550)).toMatchObject({
+      minLongitude: 170,
+      maxLongitude: -170,
+    });
+    expect(toMapArea(-20, 0, -10, 180)).toMatchObject({
+      minLongitude: 0,
+      maxLongitude: 180,
+    });
+  });
+
+  it("covers every longitude when the bounds span the world", () => {
+    expect(toMapArea(-100, -400, 100, 400)).toEqual({
+      minLatitude: -90,
+      maxLatitude: 90,
+      minLongitude: -180,
+      maxLongitude: 180,
+    });
+  });
+});
+
+describe("isInArea", () => {
+  const area = {
+    minLatitude: 48,
+    maxLatitude: 49,
+    minLongitude: 16,
+    maxLongitude: 17,
+  };
+
+  it("includes photos inside the area and on its edges", () => {
+    expect(isInArea(location(48.5, 16.5), area)).toBe(true);
+    expect(isInArea(location(48, 17), area)).toBe(true);
+    expect(isInArea(location(47.9, 16.5), area)).toBe(false);
+    expect(isInArea(location(48.5, 17.1), area)).toBe(false);
+  });
+
+  it("handles areas across the antimeridian", () => {
+    const pacific = {
+      minLatitude: -40,
+      maxLatitude: 0,
+      minLongitude: 170,
+      maxLongitude: -160,
+    };
+
+    expect(isInArea(location(-17.7, 178), pacific)).toBe(true);
+    expect(isInArea(location(-13.8, -171.8), pacific)).toBe(true);
+    expect(isInArea(location(-33.9, 151.2), pacific)).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+import { PhotoLocationDto } from "../../core/models";
+
+/**
+ * Rectangular map area in degrees, named after the photo filter parameters.
+ * A minLongitude greater than maxLongitude means the area crosses the
+ * antimeridian.
+ */
+export interface MapArea {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+/** Decimal places kept in area bounds, roughly a metre at the equator. */
+const PRECISION = 1e5;
+
+/**
+ * Wraps a longitude into [-180, 180).
+ */
+export function wrapLongitude(longitude: number): number {
+  return ((((longitude + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Converts map bounds to an area. Leaflet reports longitudes beyond ±180 once
+ * the map has been panned around the world, so both edges are wrapped back.
+ * Bounds are rounded outwards so the area never loses a photo on its edge.
+ */
+export function toMapArea(
+  south: number,
+  west: number,
+  north: number,
+  east: number,
+): MapArea {
+  const wholeWorld = east - west >= 360;
+  return {
+    minLatitude: Math.floor(Math.max(south, -90) * PRECISION) / PRECISION,
+    maxLatitude: Math.ceil(Math.min(north, 90) * PRECISION) / PRECISION,
+    minLongitude: wholeWorld
+      ? -180
+      : Math.floor(wrapLongitude(west) * PRECISION) / PRECISION,
+    // Wrapped the other way round so that an east edge of 180 stays 180
+    maxLongitude: wholeWorld
+      ? 180
+      : Math.ceil(-wrapLongitude(-east) * PRECISION) / PRECISION,
+  };
+}
+
+/**
+ * Whether a photo lies inside the area, edges included.
+ */
+export function isInArea(location: PhotoLocationDto, area: MapArea): boolean {
+  if (
+    location.latitude < area.minLatitude ||
+    location.latitude > area.maxLatitude
+  ) {
+    return false;
+  }
+
+  return area.minLongitude > area.maxLongitude
+    ? location.longitude >= area.minLongitude ||
+        location.longitude <= area.maxLongitude
+    : location.longitude >= area.minLongitude &&
+        location.longitude <= area.maxLongitude;
+}
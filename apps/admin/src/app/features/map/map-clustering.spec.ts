@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { clusterLocations } from "./map-clustering";
+import { PhotoLocationDto } from "../../core/models";
+
+function location(
+  id: number,
+  latitude: number,
+  longitude: number,
+): PhotoLocationDto {
+  return {
+    id,
+    filename: `photo${id}.jpg`,
+    latitude,
+    longitude,
+    dateTaken: null,
+  };
+}
+
+// Treats degrees as pixels to keep the expected cells easy to follow
+const project = (l: PhotoLocationDto) => ({ x: l.longitude, y: -l.latitude });
+
+describe("clusterLocations", () => {
+  it("groups photos in the same grid cell", () => {
+    const clusters = clusterLocations(
+      [
+        location(1, 48.2, 16.3),
+        location(2, 48.8, 2.3),
+        location(3, 48.4, 16.7),
+      ],
+      project,
+      1,
+    );
+
+    expect(
+      clusters.map((cluster) => cluster.photos.map((photo) => photo.id)),
+    ).toEqual([[1, 3], [2]]);
+  });
+
+  it("places each cluster at the average position of its photos", () => {
+    const [cluster] = clusterLocations(
+      [location(1, 48.2, 16.2), location(2, 48.4, 16.6)],
+      project,
+      1,
+    );
+
+    expect(cluster.latitude).toBeCloseTo(48.3);
+    expect(cluster.longitude).toBeCloseTo(16.4);
+  });
+
+  it("separates photos once the cells are small enough", () => {
+    const locations = [location(1, 48.2, 16.2), location(2, 48.4, 16.6)];
+
+    expect(clusterLocations(locations, project, 10)).toHaveLength(1);
+    expect(clusterLocations(locations, project, 0.1)).toHaveLength(2);
+  });
+});
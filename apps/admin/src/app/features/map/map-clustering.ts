@@ -0,0 +1,47 @@
+import { PhotoLocationDto } from "../../core/models";
+
+/**
+ * Photos shown as a single marker. A cluster of one is a plain photo marker.
+ */
+export interface PhotoCluster {
+  latitude: number;
+  longitude: number;
+  photos: PhotoLocationDto[];
+}
+
+/**
+ * Groups photos whose projected positions fall in the same square grid cell.
+ * Each cluster sits at the average position of its photos. Clusters keep the
+ * order in which their first photo appears.
+ *
+ * @param project Maps a photo to pixel coordinates at the current zoom.
+ * @param cellSize Width and height of a grid cell, in pixels.
+ */
+export function clusterLocations(
+  locations: PhotoLocationDto[],
+  project: (location: PhotoLocationDto) => { x: number; y: number },
+  cellSize: number,
+): PhotoCluster[] {
+  const cells = new Map<string, PhotoLocationDto[]>();
+
+  for (const location of locations) {
+    const point = project(location);
+    const key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(location);
+    } else {
+      cells.set(key, [location]);
+    }
+  }
+
+  return Array.from(cells.values(), (photos) => ({
+    latitude: average(photos.map((photo) => photo.latitude)),
+    longitude: average(photos.map((photo) => photo.longitude)),
+    photos,
+  }));
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
@@ -0,0 +1,172 @@
+import { TestBed } from "@angular/core/testing";
+import { of } from "rxjs";
+import { describe, it, expect, vi } from "vitest";
+import { MatDialog } from "@angular/material/dialog";
+import { MatSnackBar } from "@angular/material/snack-bar";
+import { Router } from "@angular/router";
+import { MapComponent } from "./map.component";
+import { AreaSlideshowDialogComponent } from "./area-slideshow-dialog.component";
+import { PhotoDetailDialogComponent } from "../photos/photo-detail-dialog.component";
+import { PhotoService } from "../../core/services/photo.service";
+import { SystemService } from "../../core/services/system.service";
+import { PhotoLocationDto } from "../../core/models";
+
+const locations: PhotoLocationDto[] = [
+  {
+    id: 1,
+    filename: "stephansdom.jpg",
+    latitude: 48.20849,
+    longitude: 16.37208,
+    dateTaken: null,
+  },
+  {
+    id: 2,
+    filename: "graben.jpg",
+    latitude: 48.20852,
+    longitude: 16.37211,
+    dateTaken: null,
+  },
+  {
+    id: 3,
+    filename: "eiffel.jpg",
+    latitude: 48.85837,
+    longitude: 2.29448,
+    dateTaken: null,
+  },
+];
+
+const vienna = {
+  minLatitude: 48,
+  maxLatitude: 48.5,
+  minLongitude: 16,
+  maxLongitude: 16.6,
+};
+
+function setup(photoLocations = locations) {
+  const photoServiceStub = {
+    getPhotoLocations: vi.fn(() => of(photoLocations)),
+  } as Partial<PhotoService>;
+
+  const systemServiceStub = {
+    getMapConfig: vi.fn(() =>
+      of({
+        tileUrl: "http://tiles.local/{z}/{x}/{y}.png",
+        attribution: "Local tiles",
+        maxZoom: 16,
+      }),
+    ),
+  } as Partial<SystemService>;
+
+  const routerStub = { navigate: vi.fn() };
+
+  TestBed.configureTestingModule({
+    imports: [MapComponent],
+    providers: [
+      { provide: PhotoService, useValue: photoServiceStub },
+      { provide: SystemService, useValue: systemServiceStub },
+      { provide: Router, useValue: routerStub },
+    ],
+  });
+
+  const fixture = TestBed.createComponent(MapComponent);
+  fixture.detectChanges();
+  fixture.detectChanges();
+
+  return { fixture, routerStub };
+}
+
+describe("MapComponent", () => {
+  it("loads the tiles from the configured server", () => {
+    const { fixture } = setup();
+    const element: HTMLElement = fixture.nativeElement;
+
+    expect(element.textContent).toContain("3 geotagged photo(s)");
+    expect(
+      element.querySelector(".leaflet-control-attribution")?.textContent,
+    ).toContain("Local tiles");
+  });
+
+  it("clusters nearby photos and opens a photo from its marker", () => {
+    const { fixture } = setup();
+    const element: HTMLElement = fixture.nativeElement;
+    const dialog = fixture.debugElement.injector.get(MatDialog);
+    const open = vi.spyOn(dialog, "open").mockReturnValue(undefined as never);
+
+    expect(
+      element.querySelector(".map-cluster-marker")?.textContent?.trim(),
+    ).toBe("2");
+    const photoMarkers = element.querySelectorAll(".map-photo-marker");
+    expect(photoMarkers.length).toBe(1);
+
+    photoMarkers[0].dispatchEvent(new MouseEvent("click", { bubbles: true }));
+
+    expect(open).toHaveBeenCalledWith(
+      PhotoDetailDialogComponent,
+      expect.objectContaining({ data: { photoId: 3 } }),
+    );
+    vi.restoreAllMocks();
+  });
+
+  it("lists the photos in the selected area and opens them in the library", () => {
+    const { fixture, routerStub } = setup();
+    const component = fixture.componentInstance;
+
+    component.setArea(vienna);
+    fixture.detectChanges();
+
+    const element: HTMLElement = fixture.nativeElement;
+    expect(
+      element.querySelector('[data-testid="area-count"]')?.textContent,
+    ).toContain("2 photo(s) in this area");
+    expect(element.querySelectorAll('[data-testid="area-photo"]').length).toBe(
+      2,
+    );
+
+    component.viewInLibrary();
+
+    expect(routerStub.navigate).toHaveBeenCalledWith(["/photos"], {
+      queryParams: vienna,
+    });
+
+    component.setArea(null);
+    fixture.detectChanges();
+    expect(element.querySelector('[data-testid="area-panel"]')).toBeNull();
+  });
+
+  it("makes a slideshow from the photos in the area", () => {
+    const { fixture } = setup();
+    const component = fixture.componentInstance;
+    const dialog = fixture.debugElement.injector.get(MatDialog);
+    const snackBar = fixture.debugElement.injector.get(MatSnackBar);
+    const open = vi.spyOn(dialog, "open").mockReturnValue({
+      afterClosed: () =>
+        of({ album: { name: "Vienna" }, display: { name: "Kitchen" } }),
+    } as never);
+    const notify = vi.spyOn(snackBar, "open");
+
+    component.setArea(vienna);
+    component.openSlideshowDialog();
+
+    expect(open).toHaveBeenCalledWith(
+      AreaSlideshowDialogComponent,
+      expect.objectContaining({ data: { photoIds: [1, 2] } }),
+    );
+    expect(notify).toHaveBeenCalledWith(
+      '"Kitchen" now shows the album "Vienna"',
+      "Close",
+      expect.anything(),
+    );
+    vi.restoreAllMocks();
+  });
+
+  it("explains an empty map", () => {
+    const { fixture } = setup([]);
+    const element: HTMLElement = fixture.nativeElement;
+
+    expect(element.textContent).toContain("No geotagged photos");
+    expect(
+      element.querySelector<HTMLButtonElement>('[data-testid="select-area"]')
+        ?.disabled,
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,583 @@
+import {
+  AfterViewInit,
+  Component,
+  ElementRef,
+  OnDestroy,
+  ViewChild,
+  computed,
+  inject,
+  signal,
+} from "@angular/core";
+import { Router } from "@angular/router";
+import { MatButtonModule } from "@angular/material/button";
+import { MatCardModule } from "@angular/material/card";
+import { MatIconModule } from "@angular/material/icon";
+import { MatDialog, MatDialogModule } from "@angular/material/dialog";
+import { MatProgressSpinnerModule } from "@angular/material/progress-spinner";
+import { MatSnackBar, MatSnackBarModule } from "@angular/material/snack-bar";
+import { MatTooltipModule } from "@angular/material/tooltip";
+import { forkJoin } from "rxjs";
+import * as L from "leaflet";
+import { PhotoService } from "../../core/services/photo.service";
+import { SystemService } from "../../core/services/system.service";
+import { MapConfigResponse, PhotoLocationDto } from "../../core/models";
+import { PhotoDetailDialogComponent } from "../photos/photo-detail-dialog.component";
+import {
+  AreaSlideshowDialogComponent,
+  AreaSlideshowResult,
+} from "./area-slideshow-dialog.component";
+import { MapArea, isInArea, toMapArea } from "./map-area";
+import { PhotoCluster, clusterLocations } from "./map-clustering";
+
+/** Size of the grid cells photos are clustered in, in screen pixels. */
+const CLUSTER_CELL_SIZE = 64;
+
+/** Number of thumbnails shown in the area panel. */
+const PREVIEW_LIMIT = 60;
+
+/** Highest zoom used when fitting all photos into view on load. */
+const MAX_FIT_ZOOM = 12;
+
+@Component({
+  selector: "app-map",
+  standalone: true,
+  imports: [
+    MatButtonModule,
+    MatCardModule,
+    MatIconModule,
+    MatDialogModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+    MatTooltipModule,
+  ],
+  template: `
+    <div class="map-page">
+      <div class="header">
+        <div>
+          <h1>Map</h1>
+          @if (!isLoading()) {
+            <p class="subtitle">{{ locations().length }} geotagged photo(s)</p>
+          }
+        </div>
+        <button
+          mat-stroked-button
+          [class.active]="isSelecting()"
+          (click)="toggleSelecting()"
+          [disabled]="isLoading() || locations().length === 0"
+          data-testid="select-area"
+        >
+          <mat-icon>highlight_alt</mat-icon>
+          {{ isSelecting() ? "Drag on the Map…" : "Select Area" }}
+        </button>
+      </div>
+
+      <div class="map-layout">
+        <div class="map-wrapper">
+          <div
+            #mapContainer
+            class="map-container"
+            [class.selecting]="isSelecting()"
+            data-testid="map"
+          ></div>
+          @if (isLoading()) {
+            <div class="map-overlay">
+              <mat-spinner diameter="40"></mat-spinner>
+            </div>
+          } @else if (locations().length === 0) {
+            <mat-card class="map-overlay empty-state">
+              <mat-card-content>
+                <mat-icon>location_off</mat-icon>
+                <h2>No geotagged photos</h2>
+                <p>
+                  Photos with GPS coordinates in their metadata appear here.
+                </p>
+              </mat-card-content>
+            </mat-card>
+          }
+        </div>
+
+        @if (area()) {
+          <aside class="area-panel" data-testid="area-panel">
+            <div class="area-header">
+              <h2>Selected Area</h2>
+              <button
+                mat-icon-button
+                (click)="setArea(null)"
+                aria-label="Clear area"
+              >
+                <mat-icon>close</mat-icon>
+              </button>
+            </div>
+            <p class="subtitle" data-testid="area-count">
+              {{ areaPhotos().length }} photo(s) in this area
+            </p>
+            <div class="area-actions">
+              <button
+                mat-stroked-button
+                (click)="viewInLibrary()"
+                [disabled]="areaPhotos().length === 0"
+              >
+                <mat-icon>photo_library</mat-icon>
+                View in Library
+              </button>
+              <button
+                mat-raised-button
+                color="primary"
+                (click)="openSlideshowDialog()"
+                [disabled]="areaPhotos().length === 0"
+              >
+                <mat-icon>slideshow</mat-icon>
+                Make Slideshow from This Area
+              </button>
+            </div>
+            <div class="area-photos">
+              @for (photo of areaPreview(); track photo.id) {
+                <button
+                  class="area-photo"
+                  (click)="openPhoto(photo.id)"
+                  [matTooltip]="photo.filename"
+                  data-testid="area-photo"
+                >
+                  <img
+                    [src]="getThumbnailUrl(photo.id)"
+                    [alt]="photo.filename"
+                    loading="lazy"
+                  />
+                </button>
+              }
+            </div>
+            @if (areaPhotos().length > areaPreview().length) {
+              <p class="subtitle">
+                and {{ areaPhotos().length - areaPreview().length }} more
+              </p>
+            }
+          </aside>
+        }
+      </div>
+    </div>
+  `,
+  styles: [
+    `
+      .map-page {
+        padding: 24px;
+        display: flex;
+        flex-direction: column;
+        height: calc(100vh - 64px);
+        box-sizing: border-box;
+      }
+
+      .header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        gap: 16px;
+        margin-bottom: 16px;
+      }
+
+      .header h1 {
+        margin: 0;
+      }
+
+      .subtitle {
+        color: rgba(0, 0, 0, 0.6);
+        margin: 4px 0 0;
+      }
+
+      .active {
+        background: rgba(103, 58, 183, 0.12);
+      }
+
+      .map-layout {
+        flex: 1;
+        display: flex;
+        gap: 16px;
+        min-height: 0;
+      }
+
+      .map-wrapper {
+        flex: 1;
+        position: relative;
+        border-radius: 16px;
+        overflow: hidden;
+        box-shadow: 0 4px 20px rgba(0, 0, 0, 0.08);
+      }
+
+      .map-container {
+        width: 100%;
+        height: 100%;
+        min-height: 400px;
+      }
+
+      .map-container.selecting {
+        cursor: crosshair;
+      }
+
+      .map-overlay {
+        position: absolute;
+        inset: 0;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        z-index: 1000;
+        background: rgba(255, 255, 255, 0.7);
+      }
+
+      .empty-state {
+        inset: auto;
+        top: 50%;
+        left: 50%;
+        transform: translate(-50%, -50%);
+        text-align: center;
+        padding: 24px;
+        background: white;
+      }
+
+      .empty-state mat-icon {
+        font-size: 64px;
+        width: 64px;
+        height: 64px;
+        color: rgba(0, 0, 0, 0.3);
+      }
+
+      .empty-state h2 {
+        margin: 16px 0 8px;
+      }
+
+      .empty-state p {
+        color: rgba(0, 0, 0, 0.6);
+      }
+
+      .area-panel {
+        width: 320px;
+        overflow-y: auto;
+        background: white;
+        border-radius: 16px;
+        padding: 16px;
+        box-shadow: 0 4px 20px rgba(0, 0, 0, 0.08);
+      }
+
+      .area-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+      }
+
+      .area-header h2 {
+        margin: 0;
+      }
+
+      .area-actions {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        margin: 16px 0;
+      }
+
+      .area-photos {
+        display: grid;
+        grid-template-columns: repeat(3, 1fr);
+        gap: 4px;
+      }
+
+      .area-photo {
+        padding: 0;
+        border: none;
+        aspect-ratio: 1;
+        background: #f5f5f5;
+        cursor: pointer;
+      }
+
+      .area-photo img {
+        width: 100%;
+        height: 100%;
+        object-fit: cover;
+      }
+
+      @media (max-width: 960px) {
+        .map-layout {
+          flex-direction: column;
+        }
+
+        .area-panel {
+          width: auto;
+        }
+      }
+    `,
+  ],
+})
+export class MapComponent implements AfterViewInit, OnDestroy {
+  private readonly photoService = inject(PhotoService);
+  private readonly systemService = inject(SystemService);
+  private readonly dialog = inject(MatDialog);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly router = inject(Router);
+
+  @ViewChild("mapContainer", { static: true })
+  mapContainer!: ElementRef<HTMLElement>;
+
+  private map: L.Map | null = null;
+  private readonly markers = L.layerGroup();
+  private areaRectangle: L.Rectangle | null = null;
+  private dragStart: L.LatLng | null = null;
+
+  locations = signal<PhotoLocationDto[]>([]);
+  isLoading = signal(true);
+  isSelecting = signal(false);
+  area = signal<MapArea | null>(null);
+
+  areaPhotos = computed(() => {
+    const area = this.area();
+    return area
+      ? this.locations().filter((location) => isInArea(location, area))
+      : [];
+  });
+  areaPreview = computed(() => this.areaPhotos().slice(0, PREVIEW_LIMIT));
+
+  ngAfterViewInit(): void {
+    forkJoin({
+      config: this.systemService.getMapConfig(),
+      locations: this.photoService.getPhotoLocations(),
+    }).subscribe({
+      next: ({ config, locations }) => {
+        this.locations.set(locations);
+        this.createMap(config);
+        this.isLoading.set(false);
+      },
+      error: (error) => {
+        console.error("Failed to load map:", error);
+        this.isLoading.set(false);
+        this.snackBar.open("Failed to load map", "Close", { duration: 3000 });
+      },
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.map?.remove();
+    this.map = null;
+  }
+
+  private createMap(config: MapConfigResponse): void {
+    const map = L.map(this.mapContainer.nativeElement, {
+      maxZoom: config.maxZoom,
+      worldCopyJump: true,
+    });
+    L.tileLayer(config.tileUrl, {
+      attribution: config.attribution,
+      maxZoom: config.maxZoom,
+    }).addTo(map);
+    this.markers.addTo(map);
+
+    map.on("zoomend", () => this.renderMarkers());
+    map.on("mousedown", (event) => this.startArea(event));
+    map.on("mousemove", (event) => this.resizeArea(event));
+    map.on("mouseup", (event) => this.finishArea(event));
+
+    const locations = this.locations();
+    if (locations.length > 0) {
+      map.fitBounds(
+        L.latLngBounds(locations.map((l) => [l.latitude, l.longitude])),
+        { padding: [40, 40], maxZoom: MAX_FIT_ZOOM },
+      );
+    } else {
+      map.setView([20, 0], 2);
+    }
+
+    this.map = map;
+    this.renderMarkers();
+  }
+
+  /**
+   * Redraws the markers, clustering photos that would overlap at the current
+   * zoom.
+   */
+  private renderMarkers(): void {
+    const map = this.map;
+    if (!map) return;
+
+    const zoom = map.getZoom();
+    const clusters = clusterLocations(
+      this.locations(),
+      (l) => map.project([l.latitude, l.longitude], zoom),
+      CLUSTER_CELL_SIZE,
+    );
+
+    this.markers.clearLayers();
+    for (const cluster of clusters) {
+      this.markers.addLayer(this.createMarker(cluster));
+    }
+  }
+
+  private createMarker(cluster: PhotoCluster): L.Marker {
+    const position: L.LatLngExpression = [cluster.latitude, cluster.longitude];
+
+    if (cluster.photos.length === 1) {
+      const photo = cluster.photos[0];
+      const image = document.createElement("img");
+      image.src = this.getThumbnailUrl(photo.id);
+      image.alt = photo.filename;
+
+      return L.marker(position, {
+        icon: L.divIcon({
+          className: "map-photo-marker",
+          html: image,
+          iconSize: [48, 48],
+        }),
+        title: photo.filename,
+      }).on("click", () => this.openPhoto(photo.id));
+    }
+
+    return L.marker(position, {
+      icon: L.divIcon({
+        className: "map-cluster-marker",
+        html: `<span>${cluster.photos.length}</span>`,
+        iconSize: [44, 44],
+      }),
+    }).on("click", () => this.openCluster(cluster));
+  }
+
+  /**
+   * Zooms in on a cluster. Photos that still overlap at the highest zoom
+   * share a spot, so they are selected as an area instead.
+   */
+  private openCluster(cluster: PhotoCluster): void {
+    const map = this.map;
+    if (!map) return;
+
+    const bounds = L.latLngBounds(
+      cluster.photos.map((photo) => [photo.latitude, photo.longitude]),
+    );
+    if (map.getZoom() >= map.getMaxZoom()) {
+      this.setArea(
+        toMapArea(
+          bounds.getSouth(),
+          bounds.getWest(),
+          bounds.getNorth(),
+          bounds.getEast(),
+        ),
+      );
+    } else {
+      map.fitBounds(bounds, { padding: [40, 40] });
+    }
+  }
+
+  openPhoto(photoId: number): void {
+    this.dialog.open(PhotoDetailDialogComponent, {
+      data: { photoId },
+      width: "900px",
+      maxWidth: "95vw",
+      maxHeight: "95vh",
+    });
+  }
+
+  toggleSelecting(): void {
+    this.isSelecting.update((selecting) => !selecting);
+    if (this.isSelecting()) {
+      this.map?.dragging.disable();
+    } else {
+      this.dragStart = null;
+      this.map?.dragging.enable();
+    }
+  }
+
+  private startArea(event: L.LeafletMouseEvent): void {
+    if (this.isSelecting()) {
+      this.dragStart = event.latlng;
+    }
+  }
+
+  private resizeArea(event: L.LeafletMouseEvent): void {
+    if (this.dragStart) {
+      this.drawArea(L.latLngBounds(this.dragStart, event.latlng));
+    }
+  }
+
+  private finishArea(event: L.LeafletMouseEvent): void {
+    if (!this.dragStart) return;
+
+    const bounds = L.latLngBounds(this.dragStart, event.latlng);
+    this.toggleSelecting();
+    this.setArea(
+      toMapArea(
+        bounds.getSouth(),
+        bounds.getWest(),
+        bounds.getNorth(),
+        bounds.getEast(),
+      ),
+    );
+  }
+
+  /**
+   * Selects the area whose photos the panel lists, or clears it.
+   */
+  setArea(area: MapArea | null): void {
+    this.area.set(area);
+    if (!area) {
+      this.areaRectangle?.remove();
+      this.areaRectangle = null;
+      return;
+    }
+
+    // Leaflet expects the east edge past 180 for areas across the antimeridian
+    const east =
+      area.minLongitude > area.maxLongitude
+        ? area.maxLongitude + 360
+        : area.maxLongitude;
+    this.drawArea(
+      L.latLngBounds(
+        [area.minLatitude, area.minLongitude],
+        [area.maxLatitude, east],
+      ),
+    );
+  }
+
+  private drawArea(bounds: L.LatLngBounds): void {
+    if (this.areaRectangle) {
+      this.areaRectangle.setBounds(bounds);
+    } else if (this.map) {
+      this.areaRectangle = L.rectangle(bounds, {
+        color: "#673ab7",
+        weight: 2,
+        interactive: false,
+      }).addTo(this.map);
+    }
+  }
+
+  /**
+   * Opens the photo library filtered to the selected area.
+   */
+  viewInLibrary(): void {
+    const area = this.area();
+    if (area) {
+      this.router.navigate(["/photos"], { queryParams: { ...area } });
+    }
+  }
+
+  openSlideshowDialog(): void {
+    const photoIds = this.areaPhotos().map((photo) => photo.id);
+    if (photoIds.length === 0) return;
+
+    this.dialog
+      .open<
+        AreaSlideshowDialogComponent,
+        { photoIds: number[] },
+        AreaSlideshowResult
+      >(AreaSlideshowDialogComponent, {
+        data: { photoIds },
+        width: "480px",
+      })
+      .afterClosed()
+      .subscribe((result) => {
+        if (result) {
+          this.snackBar.open(
+            `"${result.display.name}" now shows the album "${result.album.name}"`,
+            "Close",
+            { duration: 5000 },
+          );
+        }
+      });
+  }
+
+  getThumbnailUrl(photoId: number): string {
+    return `/api/media/thumbnails/${photoId}`;
+  }
+}
@@ -0,0 +1,128 @@
+import { TestBed } from "@angular/core/testing";
+import { of, throwError } from "rxjs";
+import { describe, it, expect, vi } from "vitest";
+import { MatDialogRef, MAT_DIALOG_DATA } from "@angular/material/dialog";
+import {
+  BulkAction,
+  BulkAssignDialogComponent,
+} from "./bulk-assign-dialog.component";
+import { PhotoService } from "../../core/services/photo.service";
+import { AlbumService } from "../../core/services/album.service";
+import { TagService } from "../../core/services/tag.service";
+import { BulkOperationResult } from "../../core/models";
+
+function setup(action: BulkAction, photoServiceOverrides = {}) {
+  const result: BulkOperationResult = {
+    successCount: 2,
+    failedCount: 1,
+    errors: ["Photo 9 not found"],
+  };
+
+  const photoServiceStub = {
+    addPhotosToAlbum: vi.fn(() => of(result)),
+    removePhotosFromAlbum: vi.fn(() => of(result)),
+    addTagsToPhotos: vi.fn(() => of(result)),
+    removeTagsFromPhotos: vi.fn(() => of(result)),
+    ...photoServiceOverrides,
+  } as Partial<PhotoService>;
+
+  const albumServiceStub = {
+    getAlbums: vi.fn(() => of([])),
+  } as Partial<AlbumService>;
+
+  const tagServiceStub = {
+    getTags: vi.fn(() => of([])),
+  } as Partial<TagService>;
+
+  const dialogRefStub = {
+    close: vi.fn(),
+  } as Partial<MatDialogRef<BulkAssignDialogComponent>>;
+
+  TestBed.configureTestingModule({
+    imports: [BulkAssignDialogComponent],
+    providers: [
+      { provide: PhotoService, useValue: photoServiceStub },
+      { provide: AlbumService, useValue: albumServiceStub },
+      { provide: TagService, useValue: tagServiceStub },
+      { provide: MatDialogRef, useValue: dialogRefStub },
+      { provide: MAT_DIALOG_DATA, useValue: { action, photoIds: [1, 2, 9] } },
+    ],
+  });
+
+  const fixture = TestBed.createComponent(BulkAssignDialogComponent);
+  fixture.detectChanges();
+
+  return {
+    fixture,
+    result,
+    photoServiceStub,
+    albumServiceStub,
+    tagServiceStub,
+    dialogRefStub,
+  };
+}
+
+describe("BulkAssignDialogComponent", () => {
+  it("adds the photos to the chosen album and shows a summary", () => {
+    const {
+      fixture,
+      result,
+      photoServiceStub,
+      albumServiceStub,
+      dialogRefStub,
+    } = setup("addToAlbum");
+    const component = fixture.componentInstance;
+
+    expect(albumServiceStub.getAlbums).toHaveBeenCalled();
+    expect(component.canApply()).toBe(false);
+
+    component.albumId.set(4);
+    component.apply();
+    fixture.detectChanges();
+
+    expect(photoServiceStub.addPhotosToAlbum).toHaveBeenCalledWith(4, {
+      photoIds: [1, 2, 9],
+    });
+    const summary = fixture.nativeElement.querySelector(
+      '[data-testid="bulk-summary"]',
+    ).textContent;
+    expect(summary).toContain("2 photo(s) added to the album");
+    expect(summary).toContain("Photo 9 not found");
+
+    component.close();
+    expect(dialogRefStub.close).toHaveBeenCalledWith(result);
+  });
+
+  it("removes the chosen tags", () => {
+    const { fixture, photoServiceStub, tagServiceStub } = setup("removeTags");
+    const component = fixture.componentInstance;
+
+    expect(tagServiceStub.getTags).toHaveBeenCalled();
+
+    component.tagIds.set([5, 6]);
+    component.apply();
+
+    expect(photoServiceStub.removeTagsFromPhotos).toHaveBeenCalledWith({
+      photoIds: [1, 2, 9],
+      tagIds: [5, 6],
+    });
+  });
+
+  it("reports a failed request as a failure for every photo", () => {
+    const { fixture } = setup("addTags", {
+      addTagsToPhotos: vi.fn(() =>
+        throwError(() => ({ code: "SERVER_ERROR", message: "Server down" })),
+      ),
+    });
+    const component = fixture.componentInstance;
+
+    component.tagIds.set([5]);
+    component.apply();
+
+    expect(component.result()).toEqual({
+      successCount: 0,
+      failedCount: 3,
+      errors: ["Server down"],
+    });
+  });
+});
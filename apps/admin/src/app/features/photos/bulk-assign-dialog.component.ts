@@ -0,0 +1,247 @@
+import { Component, inject, signal, computed, OnInit } from "@angular/core";
+import {
+  MatDialogModule,
+  MatDialogRef,
+  MAT_DIALOG_DATA,
+} from "@angular/material/dialog";
+import { MatButtonModule } from "@angular/material/button";
+import { MatFormFieldModule } from "@angular/material/form-field";
+import { MatSelectModule } from "@angular/material/select";
+import { MatIconModule } from "@angular/material/icon";
+import { MatProgressSpinnerModule } from "@angular/material/progress-spinner";
+import { Observable } from "rxjs";
+import { PhotoService } from "../../core/services/photo.service";
+import { AlbumService } from "../../core/services/album.service";
+import { TagService } from "../../core/services/tag.service";
+import { AlbumDto, BulkOperationResult, TagDto } from "../../core/models";
+
+/**
+ * Bulk assignment the dialog performs on the selected photos.
+ */
+export type BulkAction =
+  | "addToAlbum"
+  | "removeFromAlbum"
+  | "addTags"
+  | "removeTags";
+
+interface DialogData {
+  action: BulkAction;
+  photoIds: number[];
+}
+
+const ACTION_LABELS: Record<
+  BulkAction,
+  { title: string; confirm: string; done: string }
+> = {
+  addToAlbum: {
+    title: "Add to Album",
+    confirm: "Add",
+    done: "added to the album",
+  },
+  removeFromAlbum: {
+    title: "Remove from Album",
+    confirm: "Remove",
+    done: "removed from the album",
+  },
+  addTags: { title: "Add Tags", confirm: "Add", done: "tagged" },
+  removeTags: { title: "Remove Tags", confirm: "Remove", done: "untagged" },
+};
+
+@Component({
+  selector: "app-bulk-assign-dialog",
+  standalone: true,
+  imports: [
+    MatDialogModule,
+    MatButtonModule,
+    MatFormFieldModule,
+    MatSelectModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+  ],
+  template: `
+    <h2 mat-dialog-title>{{ labels.title }}</h2>
+    <mat-dialog-content>
+      @if (result(); as result) {
+        <div class="summary" data-testid="bulk-summary">
+          <p>
+            <mat-icon class="success">check_circle</mat-icon>
+            {{ result.successCount }} photo(s) {{ labels.done }}
+          </p>
+          @if (result.failedCount > 0) {
+            <p>
+              <mat-icon class="failed">error</mat-icon>
+              {{ result.failedCount }} failed
+            </p>
+            <ul class="errors">
+              @for (error of result.errors; track $index) {
+                <li>{{ error }}</li>
+              }
+            </ul>
+          }
+        </div>
+      } @else {
+        <p class="hint">{{ photoCount }} photo(s) selected</p>
+        @if (isAlbumAction) {
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Album</mat-label>
+            <mat-select
+              [value]="albumId()"
+              (selectionChange)="albumId.set($event.value)"
+            >
+              @for (album of albums(); track album.id) {
+                <mat-option [value]="album.id">{{ album.name }}</mat-option>
+              }
+            </mat-select>
+          </mat-form-field>
+        } @else {
+          <mat-form-field appearance="outline" class="full-width">
+            <mat-label>Tags</mat-label>
+            <mat-select
+              multiple
+              [value]="tagIds()"
+              (selectionChange)="tagIds.set($event.value)"
+            >
+              @for (tag of tags(); track tag.id) {
+                <mat-option [value]="tag.id">{{ tag.name }}</mat-option>
+              }
+            </mat-select>
+          </mat-form-field>
+        }
+      }
+    </mat-dialog-content>
+    <mat-dialog-actions align="end">
+      @if (result()) {
+        <button mat-raised-button color="primary" (click)="close()">
+          Done
+        </button>
+      } @else {
+        <button mat-button mat-dialog-close>Cancel</button>
+        <button
+          mat-raised-button
+          color="primary"
+          (click)="apply()"
+          [disabled]="!canApply() || isSaving()"
+        >
+          @if (isSaving()) {
+            <mat-spinner diameter="20"></mat-spinner>
+          } @else {
+            {{ labels.confirm }}
+          }
+        </button>
+      }
+    </mat-dialog-actions>
+  `,
+  styles: [
+    `
+      .full-width {
+        width: 100%;
+      }
+
+      .hint {
+        color: rgba(0, 0, 0, 0.6);
+      }
+
+      .summary p {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+      }
+
+      .success {
+        color: #4caf50;
+      }
+
+      .failed {
+        color: #f44336;
+      }
+
+      .errors {
+        max-height: 200px;
+        overflow-y: auto;
+        font-size: 13px;
+        color: rgba(0, 0, 0, 0.7);
+      }
+    `,
+  ],
+})
+export class BulkAssignDialogComponent implements OnInit {
+  private readonly dialogRef = inject(
+    MatDialogRef<BulkAssignDialogComponent, BulkOperationResult>,
+  );
+  private readonly data = inject<DialogData>(MAT_DIALOG_DATA);
+  private readonly photoService = inject(PhotoService);
+  private readonly albumService = inject(AlbumService);
+  private readonly tagService = inject(TagService);
+
+  readonly labels = ACTION_LABELS[this.data.action];
+  readonly photoCount = this.data.photoIds.length;
+  readonly isAlbumAction =
+    this.data.action === "addToAlbum" || this.data.action === "removeFromAlbum";
+
+  albums = signal<AlbumDto[]>([]);
+  tags = signal<TagDto[]>([]);
+  albumId = signal<number | null>(null);
+  tagIds = signal<number[]>([]);
+  isSaving = signal(false);
+  result = signal<BulkOperationResult | null>(null);
+
+  canApply = computed(() =>
+    this.isAlbumAction ? this.albumId() !== null : this.tagIds().length > 0,
+  );
+
+  ngOnInit(): void {
+    if (this.isAlbumAction) {
+      this.albumService.getAlbums().subscribe({
+        next: (albums) => this.albums.set(albums),
+        error: (error) => console.error("Failed to load albums:", error),
+      });
+    } else {
+      this.tagService.getTags().subscribe({
+        next: (tags) => this.tags.set(tags),
+        error: (error) => console.error("Failed to load tags:", error),
+      });
+    }
+  }
+
+  apply(): void {
+    if (!this.canApply()) return;
+
+    this.isSaving.set(true);
+    this.request().subscribe({
+      next: (result) => {
+        this.isSaving.set(false);
+        this.result.set(result);
+      },
+      error: (error) => {
+        console.error("Bulk operation failed:", error);
+        this.isSaving.set(false);
+        this.result.set({
+          successCount: 0,
+          failedCount: this.photoCount,
+          errors: [error?.message ?? "Request failed"],
+        });
+      },
+    });
+  }
+
+  close(): void {
+    this.dialogRef.close(this.result() ?? undefined);
+  }
+
+  private request(): Observable<BulkOperationResult> {
+    const photoIds = this.data.photoIds;
+    const albumId = this.albumId()!;
+    const tagIds = this.tagIds();
+
+    switch (this.data.action) {
+      case "addToAlbum":
+        return this.photoService.addPhotosToAlbum(albumId, { photoIds });
+      case "removeFromAlbum":
+        return this.photoService.removePhotosFromAlbum(albumId, { photoIds });
+      case "addTags":
+        return this.photoService.addTagsToPhotos({ photoIds, tagIds });
+      case "removeTags":
+        return this.photoService.removeTagsFromPhotos({ photoIds, tagIds });
+    }
+  }
+}
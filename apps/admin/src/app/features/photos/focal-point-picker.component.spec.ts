@@ -0,0 +1,145 @@
+import { TestBed } from "@angular/core/testing";
+import { of, throwError } from "rxjs";
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { MatSnackBar } from "@angular/material/snack-bar";
+import { FocalPointPickerComponent } from "./focal-point-picker.component";
+import { PhotoService } from "../../core/services/photo.service";
+import {
+  MediaType,
+  PhotoDetailDto,
+  PhotoFocalPointDto,
+} from "../../core/models";
+
+function createPhoto(
+  focalPoint: PhotoFocalPointDto | null = null,
+): PhotoDetailDto {
+  return {
+    id: 3,
+    filename: "portrait.jpg",
+    originalFilename: "portrait.jpg",
+    filePath: "photos/portrait.jpg",
+    thumbnailPath: null,
+    width: 600,
+    height: 800,
+    fileSize: 1200,
+    mediaType: MediaType.Photo,
+    duration: null,
+    dateTaken: null,
+    dateAdded: "2025-01-01T00:00:00Z",
+    location: null,
+    latitude: null,
+    longitude: null,
+    providerId: null,
+    providerName: null,
+    albums: [],
+    tags: [],
+    edits: { rotation: 0, flipHorizontal: false, crop: null },
+    focalPoint,
+  };
+}
+
+function setup(photo = createPhoto()) {
+  const photoServiceStub = {
+    getEditedPhotoUrl: vi.fn((id: number) => `/api/media/photos/${id}`),
+    updateFocalPoint: vi.fn((_id: number, focalPoint: PhotoFocalPointDto) =>
+      of({ ...photo, focalPoint }),
+    ),
+    clearFocalPoint: vi.fn(() => of({ ...photo, focalPoint: null })),
+  };
+
+  TestBed.configureTestingModule({
+    imports: [FocalPointPickerComponent],
+    providers: [{ provide: PhotoService, useValue: photoServiceStub }],
+  });
+
+  const fixture = TestBed.createComponent(FocalPointPickerComponent);
+  fixture.componentInstance.photo = photo;
+  fixture.detectChanges();
+  // The component's own MatSnackBarModule import shadows any TestBed stub
+  vi.spyOn(
+    fixture.debugElement.injector.get(MatSnackBar),
+    "open",
+  ).mockReturnValue({} as never);
+
+  return { fixture, component: fixture.componentInstance, photoServiceStub };
+}
+
+describe("FocalPointPickerComponent", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("sets the point where the photo is clicked", () => {
+    const { fixture, component } = setup();
+    const img: HTMLImageElement = fixture.nativeElement.querySelector(
+      "[data-testid='focal-point-image']",
+    );
+    vi.spyOn(img, "getBoundingClientRect").mockReturnValue({
+      left: 100,
+      top: 50,
+      width: 300,
+      height: 400,
+    } as DOMRect);
+
+    img.dispatchEvent(
+      new MouseEvent("click", { clientX: 175, clientY: 150, bubbles: true }),
+    );
+    fixture.detectChanges();
+
+    expect(component.point()).toEqual({ x: 0.25, y: 0.25 });
+    expect(component.objectPosition()).toBe("25% 25%");
+    expect(
+      fixture.nativeElement.querySelector("[data-testid='focal-point-marker']"),
+    ).not.toBeNull();
+  });
+
+  it("saves the point and emits the updated photo", () => {
+    const { component, photoServiceStub } = setup();
+    const savedSpy = vi.fn();
+    component.saved.subscribe(savedSpy);
+    component.point.set({ x: 0.3, y: 0.2 });
+
+    component.save();
+
+    expect(photoServiceStub.updateFocalPoint).toHaveBeenCalledWith(3, {
+      x: 0.3,
+      y: 0.2,
+    });
+    expect(savedSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ focalPoint: { x: 0.3, y: 0.2 } }),
+    );
+  });
+
+  it("clears a saved point", () => {
+    const { fixture, component, photoServiceStub } = setup(
+      createPhoto({ x: 0.7, y: 0.4 }),
+    );
+    const savedSpy = vi.fn();
+    component.saved.subscribe(savedSpy);
+    expect(component.point()).toEqual({ x: 0.7, y: 0.4 });
+    expect(fixture.nativeElement.textContent).toContain("Use Centre");
+
+    component.clear();
+
+    expect(photoServiceStub.clearFocalPoint).toHaveBeenCalledWith(3);
+    expect(savedSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ focalPoint: null }),
+    );
+  });
+
+  it("stays open when saving fails", () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const { component, photoServiceStub } = setup();
+    photoServiceStub.updateFocalPoint.mockReturnValue(
+      throwError(() => new Error("boom")),
+    );
+    const savedSpy = vi.fn();
+    component.saved.subscribe(savedSpy);
+    component.point.set({ x: 0.5, y: 0.5 });
+
+    component.save();
+
+    expect(savedSpy).not.toHaveBeenCalled();
+    expect(component.isSaving()).toBe(false);
+  });
+});
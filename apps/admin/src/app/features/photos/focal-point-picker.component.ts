@@ -0,0 +1,209 @@
+import {
+  Component,
+  EventEmitter,
+  Input,
+  OnInit,
+  Output,
+  inject,
+  signal,
+} from "@angular/core";
+import { MatButtonModule } from "@angular/material/button";
+import { MatIconModule } from "@angular/material/icon";
+import { MatSnackBar, MatSnackBarModule } from "@angular/material/snack-bar";
+import { Observable } from "rxjs";
+import { PhotoService } from "../../core/services/photo.service";
+import { PhotoDetailDto, PhotoFocalPointDto } from "../../core/models";
+
+/**
+ * Lets the user click the part of a photo the display should keep in frame
+ * when it crops the photo in Cover mode or pans it with Ken Burns.
+ */
+@Component({
+  selector: "app-focal-point-picker",
+  standalone: true,
+  imports: [MatButtonModule, MatIconModule, MatSnackBarModule],
+  template: `
+    <div class="picker">
+      <p class="hint">
+        Click the part of the photo that should always stay in frame.
+      </p>
+      <div class="image-wrapper">
+        <img
+          [src]="imageUrl"
+          [alt]="photo.filename"
+          (click)="pick($event)"
+          data-testid="focal-point-image"
+        />
+        @if (point(); as p) {
+          <div
+            class="marker"
+            data-testid="focal-point-marker"
+            [style.left.%]="p.x * 100"
+            [style.top.%]="p.y * 100"
+          ></div>
+        }
+      </div>
+
+      <div class="frame-preview">
+        <span>On a 16:10 frame</span>
+        <img
+          [src]="imageUrl"
+          alt=""
+          [style.object-position]="objectPosition()"
+        />
+      </div>
+
+      <div class="actions">
+        @if (photo.focalPoint) {
+          <button mat-button (click)="clear()" [disabled]="isSaving()">
+            Use Centre
+          </button>
+        }
+        <span class="spacer"></span>
+        <button mat-button (click)="cancelled.emit()" [disabled]="isSaving()">
+          Cancel
+        </button>
+        <button
+          mat-raised-button
+          color="primary"
+          (click)="save()"
+          [disabled]="!point() || isSaving()"
+          data-testid="save-focal-point"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [
+    `
+      .picker {
+        display: flex;
+        flex-direction: column;
+        gap: 12px;
+        width: 100%;
+      }
+
+      .hint {
+        margin: 0;
+        color: rgba(0, 0, 0, 0.6);
+      }
+
+      .image-wrapper {
+        position: relative;
+        align-self: center;
+        line-height: 0;
+      }
+
+      .image-wrapper img {
+        max-width: 100%;
+        max-height: 400px;
+        cursor: crosshair;
+      }
+
+      .marker {
+        position: absolute;
+        width: 24px;
+        height: 24px;
+        margin: -12px 0 0 -12px;
+        border: 3px solid #fff;
+        border-radius: 50%;
+        box-shadow: 0 0 0 2px rgba(0, 0, 0, 0.6);
+        pointer-events: none;
+      }
+
+      .frame-preview {
+        display: flex;
+        align-items: center;
+        gap: 12px;
+        font-size: 12px;
+        color: rgba(0, 0, 0, 0.6);
+      }
+
+      .frame-preview img {
+        width: 160px;
+        aspect-ratio: 16 / 10;
+        object-fit: cover;
+        border-radius: 4px;
+        background: #000;
+      }
+
+      .actions {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+      }
+
+      .spacer {
+        flex: 1;
+      }
+    `,
+  ],
+})
+export class FocalPointPickerComponent implements OnInit {
+  private readonly photoService = inject(PhotoService);
+  private readonly snackBar = inject(MatSnackBar);
+
+  @Input({ required: true }) photo!: PhotoDetailDto;
+  @Output() saved = new EventEmitter<PhotoDetailDto>();
+  @Output() cancelled = new EventEmitter<void>();
+
+  point = signal<PhotoFocalPointDto | null>(null);
+  isSaving = signal(false);
+
+  imageUrl = "";
+
+  ngOnInit(): void {
+    // The point is relative to the edited image, as the display shows it
+    this.imageUrl = this.photoService.getEditedPhotoUrl(this.photo.id);
+    this.point.set(this.photo.focalPoint);
+  }
+
+  pick(event: MouseEvent): void {
+    const bounds = (event.target as HTMLElement).getBoundingClientRect();
+    if (bounds.width === 0 || bounds.height === 0) return;
+
+    this.point.set({
+      x: clampFraction((event.clientX - bounds.left) / bounds.width),
+      y: clampFraction((event.clientY - bounds.top) / bounds.height),
+    });
+  }
+
+  objectPosition(): string {
+    const p = this.point();
+    return p ? `${p.x * 100}% ${p.y * 100}%` : "50% 50%";
+  }
+
+  save(): void {
+    const p = this.point();
+    if (!p) return;
+
+    this.submit(this.photoService.updateFocalPoint(this.photo.id, p));
+  }
+
+  clear(): void {
+    this.submit(this.photoService.clearFocalPoint(this.photo.id));
+  }
+
+  private submit(request: Observable<PhotoDetailDto>): void {
+    this.isSaving.set(true);
+    request.subscribe({
+      next: (updated) => {
+        this.isSaving.set(false);
+        this.snackBar.open("Focal point saved", "Close", { duration: 3000 });
+        this.saved.emit(updated);
+      },
+      error: (error) => {
+        console.error("Failed to save focal point:", error);
+        this.isSaving.set(false);
+        this.snackBar.open("Failed to save focal point", "Close", {
+          duration: 3000,
+        });
+      },
+    });
+  }
+}
+
+function clampFraction(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
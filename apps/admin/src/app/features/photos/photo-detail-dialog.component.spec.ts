@@ -5,10 +5,11 @@ import { MatDialogRef, MAT_DIALOG_DATA } from "@angular/material/dialog";
 import { MatSnackBar } from "@angular/material/snack-bar";
 import { PhotoDetailDialogComponent } from "./photo-detail-dialog.component";
 import { PhotoService } from "../../core/services/photo.service";
+import { DisplayRemoteService } from "../../core/services/display-remote.service";
 import { MediaType, PhotoDetailDto } from "../../core/models";
 
 describe("PhotoDetailDialogComponent", () => {
-  it("loads the photo details on init", () => {
+  function setup(remoteServiceStub: Partial<DisplayRemoteService> = {}) {
     const mockPhoto: PhotoDetailDto = {
       id: 1,
       filename: "photo.jpg",
@@ -29,11 +30,15 @@ describe("PhotoDetailDialogComponent", () => {
       providerName: null,
       albums: [],
       tags: [],
+      edits: { rotation: 0, flipHorizontal: false, crop: null },
+      focalPoint: null,
     };
 
     const photoServiceStub = {
       getPhoto: vi.fn(() => of(mockPhoto)),
       getPhotoUrl: vi.fn(() => "http://example.com/photo.jpg"),
+      getOriginalPhotoUrl: vi.fn(() => "http://example.com/photo.jpg"),
+      getEditedPhotoUrl: vi.fn(() => "http://example.com/photo.jpg"),
       updatePhoto: vi.fn(() => of(mockPhoto)),
       deletePhoto: vi.fn(() => of(void 0)),
     } as Partial<PhotoService>;
@@ -53,13 +58,78 @@ describe("PhotoDetailDialogComponent", () => {
         { provide: MatDialogRef, useValue: dialogRefStub },
         { provide: MAT_DIALOG_DATA, useValue: { photoId: 1 } },
         { provide: MatSnackBar, useValue: snackBarStub },
+        { provide: DisplayRemoteService, useValue: remoteServiceStub },
       ],
     });
 
     const fixture = TestBed.createComponent(PhotoDetailDialogComponent);
     fixture.detectChanges();
 
+    return { fixture, mockPhoto, photoServiceStub };
+  }
+
+  it("loads the photo details on init", () => {
+    const { fixture, mockPhoto, photoServiceStub } = setup();
+
     expect(photoServiceStub.getPhoto).toHaveBeenCalledWith(1);
     expect(fixture.componentInstance.photo()).toEqual(mockPhoto);
   });
+
+  it("sends the photo to the display", () => {
+    const remoteServiceStub = {
+      showPhoto: vi.fn(() => of({ displayCount: 1 })),
+    } as Partial<DisplayRemoteService>;
+    const { fixture } = setup(remoteServiceStub);
+    // The component's own MatSnackBarModule import shadows the TestBed stub
+    const openSpy = vi
+      .spyOn(fixture.debugElement.injector.get(MatSnackBar), "open")
+      .mockReturnValue({} as never);
+
+    fixture.componentInstance.showOnDisplay();
+
+    expect(remoteServiceStub.showPhoto).toHaveBeenCalledWith(1);
+    expect(openSpy).toHaveBeenCalledWith(
+      "Showing photo on display",
+      "Close",
+      { duration: 3000 },
+    );
+  });
+
+  it("swaps the preview for the editor and shows the saved edits", () => {
+    const { fixture, mockPhoto } = setup();
+    const element: HTMLElement = fixture.nativeElement;
+
+    fixture.componentInstance.previewMode.set("edit");
+    fixture.detectChanges();
+    expect(element.querySelector("app-photo-editor")).not.toBeNull();
+
+    const edited = {
+      ...mockPhoto,
+      edits: { rotation: 90, flipHorizontal: false, crop: null },
+    };
+    fixture.componentInstance.onImageEdited(edited);
+    fixture.detectChanges();
+
+    expect(element.querySelector("app-photo-editor")).toBeNull();
+    expect(fixture.componentInstance.photo()).toEqual(edited);
+    expect(fixture.componentInstance.getPhotoUrl()).toBe(
+      "http://example.com/photo.jpg?v=1",
+    );
+  });
+
+  it("swaps the preview for the focal point picker", () => {
+    const { fixture, mockPhoto } = setup();
+    const element: HTMLElement = fixture.nativeElement;
+
+    fixture.componentInstance.previewMode.set("focalPoint");
+    fixture.detectChanges();
+    expect(element.querySelector("app-focal-point-picker")).not.toBeNull();
+
+    const updated = { ...mockPhoto, focalPoint: { x: 0.2, y: 0.3 } };
+    fixture.componentInstance.onFocalPointSaved(updated);
+    fixture.detectChanges();
+
+    expect(element.querySelector("app-focal-point-picker")).toBeNull();
+    expect(fixture.componentInstance.photo()).toEqual(updated);
+  });
 });
@@ -15,6 +15,9 @@ import { MatChipsModule } from "@angular/material/chips";
 import { MatProgressSpinnerModule } from "@angular/material/progress-spinner";
 import { MatSnackBar, MatSnackBarModule } from "@angular/material/snack-bar";
 import { PhotoService } from "../../core/services/photo.service";
+import { PhotoEditorComponent } from "./photo-editor.component";
+import { FocalPointPickerComponent } from "./focal-point-picker.component";
+import { DisplayRemoteService } from "../../core/services/display-remote.service";
 import { PhotoDetailDto, MediaType } from "../../core/models";
 
 @Component({
@@ -32,6 +35,8 @@ import { PhotoDetailDto, MediaType } from "../../core/models";
     MatChipsModule,
     MatProgressSpinnerModule,
     MatSnackBarModule,
+    PhotoEditorComponent,
+    FocalPointPickerComponent,
   ],
   template: `
     <div class="dialog-header">
@@ -49,9 +54,21 @@ import { PhotoDetailDto, MediaType } from "../../core/models";
       } @else if (photo()) {
       <div class="content-layout">
         <!-- Photo Preview -->
-        <div class="photo-preview">
+        <div class="photo-preview" [class.editing]="previewMode() !== 'photo'">
           @if (photo()!.mediaType === MediaType.Video) {
           <video [src]="getPhotoUrl()" controls></video>
+          } @else if (previewMode() === 'edit') {
+          <app-photo-editor
+            [photo]="photo()!"
+            (saved)="onImageEdited($event)"
+            (cancelled)="previewMode.set('photo')"
+          ></app-photo-editor>
+          } @else if (previewMode() === 'focalPoint') {
+          <app-focal-point-picker
+            [photo]="photo()!"
+            (saved)="onFocalPointSaved($event)"
+            (cancelled)="previewMode.set('photo')"
+          ></app-focal-point-picker>
           } @else {
           <img [src]="getPhotoUrl()" [alt]="photo()!.filename" />
           }
@@ -207,6 +224,28 @@ import { PhotoDetailDto, MediaType } from "../../core/models";
         <mat-icon>delete</mat-icon>
         Delete
       </button>
+      <button mat-button [disabled]="!photo()" (click)="showOnDisplay()">
+        <mat-icon>cast</mat-icon>
+        Show on display
+      </button>
+      @if (photo()?.mediaType === MediaType.Photo) {
+      <button
+        mat-button
+        [disabled]="previewMode() !== 'photo'"
+        (click)="previewMode.set('edit')"
+      >
+        <mat-icon>crop_rotate</mat-icon>
+        Edit Photo
+      </button>
+      <button
+        mat-button
+        [disabled]="previewMode() !== 'photo'"
+        (click)="previewMode.set('focalPoint')"
+      >
+        <mat-icon>center_focus_strong</mat-icon>
+        Focal Point
+      </button>
+      }
       <button mat-button mat-dialog-close>Close</button>
     </mat-dialog-actions>
   `,
@@ -263,6 +302,12 @@ import { PhotoDetailDto, MediaType } from "../../core/models";
         object-fit: contain;
       }
 
+      .photo-preview.editing {
+        background: none;
+        max-height: none;
+        overflow: visible;
+      }
+
       .details-panel {
         min-width: 300px;
       }
@@ -333,6 +378,7 @@ export class PhotoDetailDialogComponent implements OnInit {
   private readonly dialogRef = inject(MatDialogRef<PhotoDetailDialogComponent>);
   private readonly data = inject<{ photoId: number }>(MAT_DIALOG_DATA);
   private readonly photoService = inject(PhotoService);
+  private readonly remoteService = inject(DisplayRemoteService);
   private readonly snackBar = inject(MatSnackBar);
 
   readonly MediaType = MediaType;
@@ -340,6 +386,10 @@ export class PhotoDetailDialogComponent implements OnInit {
   photo = signal<PhotoDetailDto | null>(null);
   isLoading = signal(true);
   isEditing = signal(false);
+  /** What the preview pane shows: the photo, the editor or the focal point picker. */
+  previewMode = signal<"photo" | "edit" | "focalPoint">("photo");
+  /** Bumped after image edits so the preview is fetched again. */
+  previewVersion = signal(0);
 
   editedFilename = "";
   editedLocation = "";
@@ -368,9 +418,45 @@ export class PhotoDetailDialogComponent implements OnInit {
     });
   }
 
+  showOnDisplay(): void {
+    const p = this.photo();
+    if (!p) return;
+
+    this.remoteService.showPhoto(p.id).subscribe({
+      next: (result) => {
+        const message =
+          result.displayCount > 0
+            ? "Showing photo on display"
+            : "No display is connected";
+        this.snackBar.open(message, "Close", { duration: 3000 });
+      },
+      error: (error) => {
+        console.error("Failed to show photo on display:", error);
+        this.snackBar.open("Failed to show photo on display", "Close", {
+          duration: 3000,
+        });
+      },
+    });
+  }
+
   getPhotoUrl(): string {
     const p = this.photo();
-    return p ? this.photoService.getPhotoUrl(p) : "";
+    if (!p) return "";
+
+    const url = this.photoService.getPhotoUrl(p);
+    const version = this.previewVersion();
+    return version > 0 ? `${url}?v=${version}` : url;
+  }
+
+  onImageEdited(updated: PhotoDetailDto): void {
+    this.photo.set(updated);
+    this.previewMode.set("photo");
+    this.previewVersion.update((v) => v + 1);
+  }
+
+  onFocalPointSaved(updated: PhotoDetailDto): void {
+    this.photo.set(updated);
+    this.previewMode.set("photo");
   }
 
   formatFileSize(bytes: number): string {
@@ -0,0 +1,194 @@
+import { TestBed } from "@angular/core/testing";
+import { of, throwError } from "rxjs";
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { MatSnackBar } from "@angular/material/snack-bar";
+import { PhotoEditorComponent } from "./photo-editor.component";
+import { PhotoService } from "../../core/services/photo.service";
+import { MediaType, PhotoDetailDto, PhotoEditsDto } from "../../core/models";
+
+function createPhoto(
+  edits: PhotoEditsDto = { rotation: 0, flipHorizontal: false, crop: null },
+): PhotoDetailDto {
+  return {
+    id: 7,
+    filename: "photo.jpg",
+    originalFilename: "photo.jpg",
+    filePath: "photos/photo.jpg",
+    thumbnailPath: null,
+    width: 800,
+    height: 600,
+    fileSize: 1200,
+    mediaType: MediaType.Photo,
+    duration: null,
+    dateTaken: null,
+    dateAdded: "2025-01-01T00:00:00Z",
+    location: null,
+    latitude: null,
+    longitude: null,
+    providerId: null,
+    providerName: null,
+    albums: [],
+    tags: [],
+    edits,
+    focalPoint: null,
+  };
+}
+
+function setup(photo = createPhoto()) {
+  const photoServiceStub = {
+    getOriginalPhotoUrl: vi.fn(
+      (id: number) => `/api/media/photos/${id}?original=true`,
+    ),
+    updatePhotoEdits: vi.fn((_id: number, edits: PhotoEditsDto) =>
+      of({ ...photo, edits }),
+    ),
+    refreshThumbnails: vi.fn(() => of({ succeeded: 1, failed: 0, errors: [] })),
+  };
+
+  TestBed.configureTestingModule({
+    imports: [PhotoEditorComponent],
+    providers: [{ provide: PhotoService, useValue: photoServiceStub }],
+  });
+
+  const fixture = TestBed.createComponent(PhotoEditorComponent);
+  fixture.componentInstance.photo = photo;
+  fixture.detectChanges();
+  // The component's own MatSnackBarModule import shadows any TestBed stub
+  vi.spyOn(
+    fixture.debugElement.injector.get(MatSnackBar),
+    "open",
+  ).mockReturnValue({} as never);
+
+  return { fixture, component: fixture.componentInstance, photoServiceStub };
+}
+
+describe("PhotoEditorComponent", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("previews the original file with the saved edits", () => {
+    const { fixture, component } = setup(
+      createPhoto({
+        rotation: 90,
+        flipHorizontal: true,
+        crop: { x: 0, y: 0.1, width: 1, height: 0.46875 },
+      }),
+    );
+    const img: HTMLImageElement = fixture.nativeElement.querySelector("img");
+
+    expect(img.getAttribute("src")).toBe("/api/media/photos/7?original=true");
+    expect(component.rotatedWidth()).toBe(600);
+    expect(component.rotatedHeight()).toBe(800);
+    expect(component.imageTransform()).toContain("scaleX(-1) rotate(90deg)");
+    expect(component.aspect()?.label).toBe("Frame 16:10");
+    expect(
+      fixture.nativeElement.querySelector("[data-testid='crop-box']"),
+    ).not.toBeNull();
+  });
+
+  it("crops to the largest centered region of the chosen aspect ratio", () => {
+    const { component } = setup();
+
+    component.setAspect(component.presets[1]);
+
+    const crop = component.crop()!;
+    expect(crop.x).toBe(0);
+    expect(crop.width).toBe(1);
+    expect(crop.height).toBeCloseTo(0.8333, 4);
+    expect(crop.y).toBeCloseTo(0.0833, 4);
+  });
+
+  it("keeps the aspect ratio when rotating", () => {
+    const { component } = setup();
+    component.setAspect(component.presets[1]);
+
+    component.rotate(90);
+
+    expect(component.rotation()).toBe(90);
+    const crop = component.crop()!;
+    expect(crop.width).toBe(1);
+    expect(crop.height).toBeCloseTo(0.46875, 5);
+
+    component.rotate(-90);
+    component.rotate(-90);
+    expect(component.rotation()).toBe(270);
+  });
+
+  it("turns a custom crop with the image", () => {
+    const { component } = setup(
+      createPhoto({
+        rotation: 0,
+        flipHorizontal: false,
+        crop: { x: 0.1, y: 0.2, width: 0.3, height: 0.5 },
+      }),
+    );
+    expect(component.aspect()).toBeNull();
+
+    component.rotate(90);
+    const rotated = component.crop()!;
+    expect(rotated.x).toBeCloseTo(0.3);
+    expect(rotated.y).toBeCloseTo(0.1);
+    expect(rotated.width).toBeCloseTo(0.5);
+    expect(rotated.height).toBeCloseTo(0.3);
+
+    component.rotate(-90);
+    const restored = component.crop()!;
+    expect(restored.x).toBeCloseTo(0.1);
+    expect(restored.y).toBeCloseTo(0.2);
+  });
+
+  it("mirrors the crop when flipping", () => {
+    const { component } = setup(
+      createPhoto({
+        rotation: 0,
+        flipHorizontal: false,
+        crop: { x: 0.1, y: 0, width: 0.3, height: 1 },
+      }),
+    );
+
+    component.flip();
+
+    expect(component.flipHorizontal()).toBe(true);
+    expect(component.crop()!.x).toBeCloseTo(0.6);
+  });
+
+  it("saves the edits, refreshes the thumbnail and emits the photo", () => {
+    const { component, photoServiceStub } = setup();
+    const savedSpy = vi.fn();
+    component.saved.subscribe(savedSpy);
+    component.rotate(90);
+    component.flip();
+
+    component.save();
+
+    expect(photoServiceStub.updatePhotoEdits).toHaveBeenCalledWith(7, {
+      rotation: 90,
+      flipHorizontal: true,
+      crop: null,
+    });
+    expect(photoServiceStub.refreshThumbnails).toHaveBeenCalledWith([7]);
+    expect(savedSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        edits: { rotation: 90, flipHorizontal: true, crop: null },
+      }),
+    );
+    expect(component.isSaving()).toBe(false);
+  });
+
+  it("stays open when saving fails", () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const { component, photoServiceStub } = setup();
+    photoServiceStub.updatePhotoEdits.mockReturnValue(
+      throwError(() => new Error("boom")),
+    );
+    const savedSpy = vi.fn();
+    component.saved.subscribe(savedSpy);
+
+    component.save();
+
+    expect(savedSpy).not.toHaveBeenCalled();
+    expect(photoServiceStub.refreshThumbnails).not.toHaveBeenCalled();
+    expect(component.isSaving()).toBe(false);
+  });
+});
@@ -0,0 +1,447 @@
+import {
+  Component,
+  ElementRef,
+  EventEmitter,
+  Input,
+  OnInit,
+  Output,
+  ViewChild,
+  computed,
+  inject,
+  signal,
+} from "@angular/core";
+import { MatButtonModule } from "@angular/material/button";
+import { MatButtonToggleModule } from "@angular/material/button-toggle";
+import { MatIconModule } from "@angular/material/icon";
+import { MatProgressSpinnerModule } from "@angular/material/progress-spinner";
+import { MatSnackBar, MatSnackBarModule } from "@angular/material/snack-bar";
+import { MatTooltipModule } from "@angular/material/tooltip";
+import { switchMap, map } from "rxjs";
+import { PhotoService } from "../../core/services/photo.service";
+import { PhotoCropDto, PhotoDetailDto } from "../../core/models";
+
+/**
+ * Aspect ratio a crop can be locked to.
+ */
+export interface AspectPreset {
+  label: string;
+  /** Width divided by height, or null for no crop. */
+  ratio: number | null;
+}
+
+export const ASPECT_PRESETS: AspectPreset[] = [
+  { label: "Original", ratio: null },
+  { label: "Frame 16:10", ratio: 16 / 10 },
+  { label: "16:9", ratio: 16 / 9 },
+  { label: "4:3", ratio: 4 / 3 },
+  { label: "3:2", ratio: 3 / 2 },
+  { label: "1:1", ratio: 1 },
+];
+
+const STAGE_MAX_HEIGHT = 420;
+
+interface CropDrag {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  startCrop: PhotoCropDto;
+}
+
+/**
+ * Rotates, flips and crops a photo. Edits are saved separately from the
+ * original file, which the preview always shows unedited.
+ */
+@Component({
+  selector: "app-photo-editor",
+  standalone: true,
+  imports: [
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+    MatTooltipModule,
+  ],
+  template: `
+    <div class="editor">
+      <div
+        #stage
+        class="stage"
+        data-testid="editor-stage"
+        [style.aspect-ratio]="rotatedWidth() + ' / ' + rotatedHeight()"
+        [style.width]="stageWidth()"
+        (pointermove)="moveCrop($event)"
+        (pointerup)="endDrag($event)"
+        (pointercancel)="endDrag($event)"
+      >
+        <img
+          [src]="imageUrl"
+          [alt]="photo.filename"
+          [style.width.%]="imageWidthPercent()"
+          [style.height.%]="imageHeightPercent()"
+          [style.transform]="imageTransform()"
+          (load)="onImageLoad($event)"
+          draggable="false"
+        />
+        @if (crop(); as c) {
+          <div
+            class="crop-box"
+            data-testid="crop-box"
+            [style.left.%]="c.x * 100"
+            [style.top.%]="c.y * 100"
+            [style.width.%]="c.width * 100"
+            [style.height.%]="c.height * 100"
+            (pointerdown)="startDrag($event)"
+          ></div>
+        }
+      </div>
+
+      <div class="toolbar">
+        <button
+          mat-icon-button
+          matTooltip="Rotate left"
+          (click)="rotate(-90)"
+          data-testid="rotate-left"
+        >
+          <mat-icon>rotate_left</mat-icon>
+        </button>
+        <button
+          mat-icon-button
+          matTooltip="Rotate right"
+          (click)="rotate(90)"
+          data-testid="rotate-right"
+        >
+          <mat-icon>rotate_right</mat-icon>
+        </button>
+        <button
+          mat-icon-button
+          matTooltip="Flip horizontally"
+          [class.active]="flipHorizontal()"
+          (click)="flip()"
+          data-testid="flip"
+        >
+          <mat-icon>flip</mat-icon>
+        </button>
+        <mat-button-toggle-group
+          [value]="aspect()"
+          (change)="setAspect($event.value)"
+          hideSingleSelectionIndicator
+        >
+          @for (preset of presets; track preset.label) {
+            <mat-button-toggle [value]="preset">{{
+              preset.label
+            }}</mat-button-toggle>
+          }
+        </mat-button-toggle-group>
+      </div>
+
+      <div class="actions">
+        <button mat-button (click)="reset()" [disabled]="isSaving()">
+          Reset
+        </button>
+        <span class="spacer"></span>
+        <button mat-button (click)="cancelled.emit()" [disabled]="isSaving()">
+          Cancel
+        </button>
+        <button
+          mat-raised-button
+          color="primary"
+          (click)="save()"
+          [disabled]="isSaving()"
+          data-testid="save-edits"
+        >
+          @if (isSaving()) {
+            <mat-spinner diameter="18"></mat-spinner>
+          } @else {
+            Save
+          }
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [
+    `
+      .editor {
+        display: flex;
+        flex-direction: column;
+        gap: 12px;
+        width: 100%;
+      }
+
+      .stage {
+        position: relative;
+        overflow: hidden;
+        margin: 0 auto;
+        background: #000;
+        touch-action: none;
+        user-select: none;
+      }
+
+      .stage img {
+        position: absolute;
+        left: 50%;
+        top: 50%;
+        pointer-events: none;
+      }
+
+      .crop-box {
+        position: absolute;
+        box-sizing: border-box;
+        border: 2px solid #fff;
+        box-shadow: 0 0 0 9999px rgba(0, 0, 0, 0.55);
+        cursor: move;
+      }
+
+      .toolbar {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 4px;
+      }
+
+      .toolbar .active {
+        color: var(--mat-sys-primary, #3f51b5);
+      }
+
+      mat-button-toggle-group {
+        margin-left: 8px;
+      }
+
+      .actions {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+      }
+
+      .spacer {
+        flex: 1;
+      }
+    `,
+  ],
+})
+export class PhotoEditorComponent implements OnInit {
+  private readonly photoService = inject(PhotoService);
+  private readonly snackBar = inject(MatSnackBar);
+
+  @Input({ required: true }) photo!: PhotoDetailDto;
+  @Output() saved = new EventEmitter<PhotoDetailDto>();
+  @Output() cancelled = new EventEmitter<void>();
+
+  @ViewChild("stage") stage?: ElementRef<HTMLElement>;
+
+  readonly presets = ASPECT_PRESETS;
+
+  rotation = signal(0);
+  flipHorizontal = signal(false);
+  crop = signal<PhotoCropDto | null>(null);
+  aspect = signal<AspectPreset | null>(ASPECT_PRESETS[0]);
+  isSaving = signal(false);
+
+  /** Size of the original, unrotated image. */
+  naturalWidth = signal(1);
+  naturalHeight = signal(1);
+
+  private readonly sideways = computed(() => this.rotation() % 180 !== 0);
+
+  rotatedWidth = computed(() =>
+    this.sideways() ? this.naturalHeight() : this.naturalWidth(),
+  );
+  rotatedHeight = computed(() =>
+    this.sideways() ? this.naturalWidth() : this.naturalHeight(),
+  );
+  // Fits the stage within the dialog width and a fixed height.
+  stageWidth = computed(
+    () =>
+      `min(100%, ${Math.round((STAGE_MAX_HEIGHT * this.rotatedWidth()) / this.rotatedHeight())}px)`,
+  );
+  imageWidthPercent = computed(
+    () => (this.naturalWidth() / this.rotatedWidth()) * 100,
+  );
+  imageHeightPercent = computed(
+    () => (this.naturalHeight() / this.rotatedHeight()) * 100,
+  );
+  // Transforms apply right to left: rotate first, then mirror, as on the server.
+  imageTransform = computed(
+    () =>
+      `translate(-50%, -50%)${this.flipHorizontal() ? " scaleX(-1)" : ""} rotate(${this.rotation()}deg)`,
+  );
+
+  imageUrl = "";
+
+  private drag: CropDrag | null = null;
+
+  ngOnInit(): void {
+    this.imageUrl = this.photoService.getOriginalPhotoUrl(this.photo.id);
+    this.naturalWidth.set(this.photo.width || 1);
+    this.naturalHeight.set(this.photo.height || 1);
+    this.reset();
+  }
+
+  onImageLoad(event: Event): void {
+    const img = event.target as HTMLImageElement;
+    if (img.naturalWidth === 0 || img.naturalHeight === 0) return;
+
+    // The stored size can predate the EXIF orientation fix the browser applies.
+    this.naturalWidth.set(img.naturalWidth);
+    this.naturalHeight.set(img.naturalHeight);
+    const c = this.crop();
+    const preset = this.aspect();
+    if (c && preset?.ratio && this.matchPreset(c) !== preset) {
+      this.recenterCrop();
+    }
+  }
+
+  rotate(degrees: 90 | -90): void {
+    this.rotation.update((r) => (r + degrees + 360) % 360);
+    const c = this.crop();
+    if (c && this.aspect() === null) {
+      // Turn a custom crop with the image instead of recentering it.
+      this.crop.set(
+        degrees === 90
+          ? { x: 1 - c.y - c.height, y: c.x, width: c.height, height: c.width }
+          : { x: c.y, y: 1 - c.x - c.width, width: c.height, height: c.width },
+      );
+    } else {
+      this.recenterCrop();
+    }
+  }
+
+  flip(): void {
+    this.flipHorizontal.update((f) => !f);
+    const c = this.crop();
+    if (c) {
+      this.crop.set({ ...c, x: 1 - c.x - c.width });
+    }
+  }
+
+  setAspect(preset: AspectPreset): void {
+    this.aspect.set(preset);
+    this.recenterCrop();
+  }
+
+  /**
+   * Restores the edits last saved for the photo.
+   */
+  reset(): void {
+    const edits = this.photo.edits;
+    this.rotation.set(edits.rotation);
+    this.flipHorizontal.set(edits.flipHorizontal);
+    this.crop.set(edits.crop);
+    this.aspect.set(
+      edits.crop ? this.matchPreset(edits.crop) : this.presets[0],
+    );
+  }
+
+  startDrag(event: PointerEvent): void {
+    const c = this.crop();
+    if (!c) return;
+
+    event.preventDefault();
+    this.stage?.nativeElement.setPointerCapture?.(event.pointerId);
+    this.drag = {
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startY: event.clientY,
+      startCrop: c,
+    };
+  }
+
+  moveCrop(event: PointerEvent): void {
+    const drag = this.drag;
+    const stage = this.stage?.nativeElement;
+    if (!drag || !stage || drag.pointerId !== event.pointerId) return;
+
+    const bounds = stage.getBoundingClientRect();
+    if (bounds.width === 0 || bounds.height === 0) return;
+
+    const start = drag.startCrop;
+    const dx = (event.clientX - drag.startX) / bounds.width;
+    const dy = (event.clientY - drag.startY) / bounds.height;
+    this.crop.set({
+      ...start,
+      x: clamp(start.x + dx, 0, 1 - start.width),
+      y: clamp(start.y + dy, 0, 1 - start.height),
+    });
+  }
+
+  endDrag(event: PointerEvent): void {
+    if (this.drag?.pointerId === event.pointerId) {
+      this.drag = null;
+    }
+  }
+
+  /**
+   * Saves the edits, then regenerates the thumbnail so the library and
+   * display pick them up.
+   */
+  save(): void {
+    const id = this.photo.id;
+    this.isSaving.set(true);
+    this.photoService
+      .updatePhotoEdits(id, {
+        rotation: this.rotation(),
+        flipHorizontal: this.flipHorizontal(),
+        crop: this.crop(),
+      })
+      .pipe(
+        switchMap((updated) =>
+          this.photoService.refreshThumbnails([id]).pipe(map(() => updated)),
+        ),
+      )
+      .subscribe({
+        next: (updated) => {
+          this.isSaving.set(false);
+          this.snackBar.open("Photo edits saved", "Close", { duration: 3000 });
+          this.saved.emit(updated);
+        },
+        error: (error) => {
+          console.error("Failed to save photo edits:", error);
+          this.isSaving.set(false);
+          this.snackBar.open("Failed to save photo edits", "Close", {
+            duration: 3000,
+          });
+        },
+      });
+  }
+
+  /**
+   * Replaces the crop with the largest centered region of the selected
+   * aspect ratio, or removes it for the original shape.
+   */
+  private recenterCrop(): void {
+    const preset = this.aspect();
+    if (!preset) {
+      // A custom crop loaded from the server has no preset to recompute.
+      return;
+    }
+    const ratio = preset.ratio;
+    if (ratio === null) {
+      this.crop.set(null);
+      return;
+    }
+
+    const imageRatio = this.rotatedWidth() / this.rotatedHeight();
+    const width = imageRatio > ratio ? ratio / imageRatio : 1;
+    const height = imageRatio > ratio ? 1 : imageRatio / ratio;
+    this.crop.set({
+      x: (1 - width) / 2,
+      y: (1 - height) / 2,
+      width,
+      height,
+    });
+  }
+
+  private matchPreset(crop: PhotoCropDto): AspectPreset | null {
+    const ratio =
+      (crop.width * this.rotatedWidth()) / (crop.height * this.rotatedHeight());
+    return (
+      this.presets.find(
+        (p) => p.ratio !== null && Math.abs(p.ratio - ratio) < 0.01,
+      ) ?? null
+    );
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -0,0 +1,164 @@
+import { TestBed } from "@angular/core/testing";
+import { of } from "rxjs";
+import { describe, it, expect, vi } from "vitest";
+import {
+  PhotoTimelineComponent,
+  TimelinePhotoClick,
+} from "./photo-timeline.component";
+import { TimelineScrollStrategy } from "./timeline-scroll-strategy";
+import { PhotoService } from "../../core/services/photo.service";
+import {
+  MediaType,
+  PhotoFilterRequest,
+  PhotoListDto,
+  TimelineDayDto,
+} from "../../core/models";
+
+function photo(id: number, dateTaken: string): PhotoListDto {
+  return {
+    id,
+    filename: `photo${id}.jpg`,
+    thumbnailPath: `thumb/photo${id}.jpg`,
+    width: 800,
+    height: 600,
+    mediaType: MediaType.Photo,
+    dateTaken,
+    dateAdded: "2025-01-01T00:00:00Z",
+    location: null,
+    albumCount: 0,
+    tagCount: 0,
+  };
+}
+
+const days: TimelineDayDto[] = [
+  { date: "2025-06-01T00:00:00", count: 2 },
+  { date: "2024-03-10T00:00:00", count: 1 },
+];
+
+const photos = [
+  photo(3, "2025-06-01T18:00:00Z"),
+  photo(2, "2025-06-01T09:00:00Z"),
+  photo(1, "2024-03-10T12:00:00Z"),
+];
+
+async function setup(filter: PhotoFilterRequest = {}) {
+  const photoServiceStub = {
+    getTimeline: vi.fn(() => of(days)),
+    getPhotos: vi.fn(() =>
+      of({
+        data: photos,
+        pagination: { page: 1, pageSize: 100, totalItems: 3, totalPages: 1 },
+      }),
+    ),
+    getThumbnailUrl: vi.fn((p: PhotoListDto) => `/thumbs/${p.id}`),
+  } as Partial<PhotoService>;
+
+  TestBed.configureTestingModule({
+    imports: [PhotoTimelineComponent],
+    providers: [{ provide: PhotoService, useValue: photoServiceStub }],
+  });
+
+  const fixture = TestBed.createComponent(PhotoTimelineComponent);
+  fixture.componentRef.setInput("filter", filter);
+  fixture.detectChanges();
+  // The viewport attaches its scroll strategy after the first render
+  await fixture.whenStable();
+  fixture.detectChanges();
+
+  return { fixture, photoServiceStub };
+}
+
+describe("PhotoTimelineComponent", () => {
+  it("loads the day counts and the photos of the rendered rows", async () => {
+    const { fixture, photoServiceStub } = await setup({ albumId: 4 });
+
+    expect(photoServiceStub.getTimeline).toHaveBeenCalledWith({ albumId: 4 });
+    expect(photoServiceStub.getPhotos).toHaveBeenCalledTimes(1);
+    expect(photoServiceStub.getPhotos).toHaveBeenCalledWith({
+      albumId: 4,
+      page: 1,
+      pageSize: 100,
+      sortBy: "date",
+      sortDirection: "desc",
+    });
+
+    const element: HTMLElement = fixture.nativeElement;
+    expect(
+      element.querySelectorAll('[data-testid="timeline-photo"]').length,
+    ).toBe(3);
+    expect(element.querySelector(".timeline-row.year")?.textContent).toContain(
+      "2025",
+    );
+    expect(
+      Array.from(element.querySelectorAll(".scrubber-year")).map((button) =>
+        button.textContent?.trim(),
+      ),
+    ).toEqual(["2025", "2024"]);
+  });
+
+  it("reloads from the top when the filter changes", async () => {
+    const { fixture, photoServiceStub } = await setup();
+    const strategy = fixture.debugElement.injector.get(TimelineScrollStrategy);
+    // jsdom does not implement scrolling
+    const scrollToIndex = vi
+      .spyOn(strategy, "scrollToIndex")
+      .mockImplementation(() => undefined);
+
+    fixture.componentRef.setInput("filter", { mediaType: MediaType.Video });
+    fixture.detectChanges();
+
+    expect(scrollToIndex).toHaveBeenCalledWith(0, "auto");
+    expect(photoServiceStub.getTimeline).toHaveBeenLastCalledWith({
+      mediaType: MediaType.Video,
+    });
+    expect(photoServiceStub.getPhotos).toHaveBeenLastCalledWith(
+      expect.objectContaining({ mediaType: MediaType.Video, page: 1 }),
+    );
+    vi.restoreAllMocks();
+  });
+
+  it("jumps to a year's header from the scrubber", async () => {
+    const { fixture } = await setup();
+    const component = fixture.componentInstance;
+    const strategy = fixture.debugElement.injector.get(TimelineScrollStrategy);
+    // jsdom does not implement scrolling
+    const scrollToIndex = vi
+      .spyOn(strategy, "scrollToIndex")
+      .mockImplementation(() => undefined);
+
+    component.jumpToYear(2024);
+
+    const row = component.layout().years.find((y) => y.year === 2024)!.row;
+    expect(component.layout().rows[row].kind).toBe("year");
+    expect(scrollToIndex).toHaveBeenCalledWith(row, "smooth");
+    vi.restoreAllMocks();
+  });
+
+  it("shows the month of the top row once scrolled", async () => {
+    const { fixture } = await setup();
+    const component = fixture.componentInstance;
+
+    expect(component.stickyLabel()).toBeNull();
+
+    const row = component.layout().years[1].row;
+    component.topRow.set(row);
+
+    expect(component.currentYear()).toBe(2024);
+    expect(component.stickyLabel()).toContain("2024");
+  });
+
+  it("emits clicks with the loaded photos in timeline order", async () => {
+    const { fixture } = await setup();
+    const clicks: TimelinePhotoClick[] = [];
+    fixture.componentInstance.photoClick.subscribe((click) =>
+      clicks.push(click),
+    );
+
+    const tiles = fixture.nativeElement.querySelectorAll(
+      '[data-testid="timeline-photo"]',
+    );
+    tiles[1].dispatchEvent(new MouseEvent("click", { shiftKey: true }));
+
+    expect(clicks).toEqual([{ id: 2, shiftKey: true, orderedIds: [3, 2, 1] }]);
+  });
+});
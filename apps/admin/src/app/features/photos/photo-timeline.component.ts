@@ -0,0 +1,568 @@
+import {
+  Component,
+  ElementRef,
+  EventEmitter,
+  HostListener,
+  Input,
+  OnChanges,
+  OnDestroy,
+  OnInit,
+  Output,
+  SimpleChanges,
+  computed,
+  inject,
+  signal,
+} from "@angular/core";
+import { ListRange } from "@angular/cdk/collections";
+import {
+  ScrollingModule,
+  VIRTUAL_SCROLL_STRATEGY,
+} from "@angular/cdk/scrolling";
+import { MatButtonModule } from "@angular/material/button";
+import { MatCheckboxModule } from "@angular/material/checkbox";
+import { MatIconModule } from "@angular/material/icon";
+import { MatProgressSpinnerModule } from "@angular/material/progress-spinner";
+import { MatSnackBar, MatSnackBarModule } from "@angular/material/snack-bar";
+import { MatTooltipModule } from "@angular/material/tooltip";
+import { Subject, Subscription, takeUntil } from "rxjs";
+import { PhotoService } from "../../core/services/photo.service";
+import {
+  MediaType,
+  PhotoFilterRequest,
+  PhotoListDto,
+  TimelineDayDto,
+} from "../../core/models";
+import {
+  EMPTY_LAYOUT,
+  TimelineLayout,
+  TimelineRow,
+  formatTimelineLabel,
+  layoutTimeline,
+} from "./timeline-layout";
+import { TimelineScrollStrategy } from "./timeline-scroll-strategy";
+
+/** Photos fetched per request while scrolling. */
+const PAGE_SIZE = 100;
+
+const MIN_TILE_SIZE = 140;
+const TILE_GAP = 8;
+
+/** Width taken by the year scrubber and the scrollbar. */
+const RESERVED_WIDTH = 80;
+
+/**
+ * A photo clicked in the timeline, with the photos loaded so far in timeline
+ * order so that shift-click can select a range.
+ */
+export interface TimelinePhotoClick {
+  id: number;
+  shiftKey: boolean;
+  orderedIds: number[];
+}
+
+/**
+ * Photo library grouped by day, newest first. Only the rows near the
+ * viewport are rendered, and photos are fetched a page at a time as their
+ * rows come into view.
+ */
+@Component({
+  selector: "app-photo-timeline",
+  standalone: true,
+  imports: [
+    ScrollingModule,
+    MatButtonModule,
+    MatCheckboxModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+    MatTooltipModule,
+  ],
+  providers: [
+    TimelineScrollStrategy,
+    { provide: VIRTUAL_SCROLL_STRATEGY, useExisting: TimelineScrollStrategy },
+  ],
+  template: `
+    @if (isLoading() && days().length === 0) {
+      <div class="loading-container">
+        <mat-spinner diameter="40"></mat-spinner>
+        <p>Loading timeline...</p>
+      </div>
+    } @else if (days().length === 0) {
+      <div class="empty-state">
+        <mat-icon>event_busy</mat-icon>
+        <h2>No photos to show</h2>
+        <p>Photos you upload will appear here grouped by date.</p>
+      </div>
+    } @else {
+      <div class="timeline">
+        <div class="timeline-main">
+          @if (stickyLabel(); as label) {
+            <div class="sticky-header" data-testid="timeline-sticky-header">
+              {{ label }}
+            </div>
+          }
+          <cdk-virtual-scroll-viewport class="timeline-viewport">
+            <div
+              *cdkVirtualFor="let row of layout().rows; trackBy: trackRow"
+              [class]="'timeline-row ' + row.kind"
+              [style.height.px]="row.height"
+            >
+              @if (row.kind === "photos") {
+                @for (index of row.indexes; track index) {
+                  @if (photos()[index]; as photo) {
+                    <div
+                      class="photo-tile"
+                      data-testid="timeline-photo"
+                      [class.selected]="isSelected(photo.id)"
+                      [style.width.px]="tileSize()"
+                      [style.height.px]="tileSize()"
+                      (click)="onPhotoClick(photo.id, $event.shiftKey)"
+                    >
+                      <img
+                        [src]="getThumbnailUrl(photo)"
+                        [alt]="photo.filename"
+                        loading="lazy"
+                      />
+                      @if (photo.mediaType === MediaType.Video) {
+                        <div class="video-indicator">
+                          <mat-icon>videocam</mat-icon>
+                        </div>
+                      }
+                      <div class="photo-overlay">
+                        <mat-checkbox
+                          [checked]="isSelected(photo.id)"
+                          (change)="onPhotoClick(photo.id, false)"
+                        >
+                        </mat-checkbox>
+                        <button
+                          mat-icon-button
+                          (click)="
+                            openDetail.emit(photo); $event.stopPropagation()
+                          "
+                          matTooltip="View Details"
+                        >
+                          <mat-icon>fullscreen</mat-icon>
+                        </button>
+                      </div>
+                    </div>
+                  } @else {
+                    <div
+                      class="photo-tile placeholder"
+                      [style.width.px]="tileSize()"
+                      [style.height.px]="tileSize()"
+                    ></div>
+                  }
+                }
+              } @else {
+                {{ row.label }}
+              }
+            </div>
+          </cdk-virtual-scroll-viewport>
+        </div>
+
+        <nav class="scrubber" aria-label="Jump to year">
+          @for (entry of layout().years; track entry.year) {
+            <button
+              type="button"
+              class="scrubber-year"
+              [class.active]="entry.year === currentYear()"
+              (click)="jumpToYear(entry.year)"
+            >
+              {{ entry.year }}
+            </button>
+          }
+        </nav>
+      </div>
+    }
+  `,
+  styles: [
+    `
+      :host {
+        display: block;
+      }
+
+      .loading-container {
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        justify-content: center;
+        padding: 48px;
+        gap: 16px;
+      }
+
+      .empty-state {
+        text-align: center;
+        padding: 48px;
+      }
+
+      .empty-state mat-icon {
+        font-size: 64px;
+        width: 64px;
+        height: 64px;
+        color: rgba(0, 0, 0, 0.3);
+      }
+
+      .empty-state h2 {
+        margin: 16px 0 8px;
+      }
+
+      .empty-state p {
+        color: rgba(0, 0, 0, 0.6);
+      }
+
+      .timeline {
+        display: flex;
+        gap: 8px;
+        height: calc(100vh - 280px);
+        min-height: 400px;
+      }
+
+      .timeline-main {
+        position: relative;
+        flex: 1;
+        min-width: 0;
+      }
+
+      .timeline-viewport {
+        height: 100%;
+      }
+
+      .sticky-header {
+        position: absolute;
+        top: 0;
+        left: 0;
+        right: 16px;
+        z-index: 1;
+        padding: 8px 0;
+        font-size: 18px;
+        font-weight: 500;
+        background: rgba(250, 250, 250, 0.95);
+        box-shadow: 0 2px 4px rgba(0, 0, 0, 0.08);
+      }
+
+      .timeline-row {
+        display: flex;
+        align-items: flex-end;
+        box-sizing: border-box;
+      }
+
+      .timeline-row.year {
+        font-size: 28px;
+        font-weight: 500;
+        padding-bottom: 4px;
+      }
+
+      .timeline-row.month {
+        font-size: 18px;
+        font-weight: 500;
+        padding-bottom: 6px;
+      }
+
+      .timeline-row.day {
+        font-size: 13px;
+        color: rgba(0, 0, 0, 0.6);
+        padding-bottom: 6px;
+      }
+
+      .timeline-row.photos {
+        align-items: flex-start;
+        gap: 8px;
+      }
+
+      .photo-tile {
+        position: relative;
+        flex: none;
+        border-radius: 4px;
+        overflow: hidden;
+        background: #f5f5f5;
+        cursor: pointer;
+        user-select: none;
+      }
+
+      .photo-tile.selected {
+        outline: 3px solid #667eea;
+        outline-offset: -3px;
+      }
+
+      .photo-tile img {
+        width: 100%;
+        height: 100%;
+        object-fit: cover;
+      }
+
+      .video-indicator {
+        position: absolute;
+        bottom: 8px;
+        left: 8px;
+        background: rgba(0, 0, 0, 0.7);
+        color: white;
+        border-radius: 4px;
+        padding: 4px;
+        display: flex;
+        align-items: center;
+      }
+
+      .video-indicator mat-icon {
+        font-size: 18px;
+        width: 18px;
+        height: 18px;
+      }
+
+      .photo-overlay {
+        position: absolute;
+        top: 0;
+        left: 0;
+        right: 0;
+        display: flex;
+        justify-content: space-between;
+        padding: 4px;
+        background: linear-gradient(rgba(0, 0, 0, 0.4), transparent);
+        opacity: 0;
+        transition: opacity 0.2s;
+      }
+
+      /* Clicks on the checkbox reach the tile, which handles shift-click */
+      .photo-overlay mat-checkbox {
+        pointer-events: none;
+      }
+
+      .photo-tile:hover .photo-overlay,
+      .photo-tile.selected .photo-overlay {
+        opacity: 1;
+      }
+
+      @media (hover: none) {
+        .photo-overlay {
+          opacity: 1;
+        }
+      }
+
+      .scrubber {
+        display: flex;
+        flex-direction: column;
+        width: 56px;
+        overflow-y: auto;
+      }
+
+      .scrubber-year {
+        border: none;
+        background: none;
+        padding: 6px 4px;
+        font-size: 12px;
+        color: rgba(0, 0, 0, 0.6);
+        cursor: pointer;
+        border-radius: 4px;
+      }
+
+      .scrubber-year:hover {
+        background: rgba(0, 0, 0, 0.05);
+      }
+
+      .scrubber-year.active {
+        color: #667eea;
+        font-weight: 600;
+      }
+    `,
+  ],
+})
+export class PhotoTimelineComponent implements OnChanges, OnInit, OnDestroy {
+  private readonly photoService = inject(PhotoService);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly scrollStrategy = inject(TimelineScrollStrategy);
+  private readonly host = inject<ElementRef<HTMLElement>>(ElementRef);
+  private readonly destroy$ = new Subject<void>();
+  private loadSubscription = new Subscription();
+  /** Pages fetched or in flight since the last reload. */
+  private readonly requestedPages = new Set<number>();
+  private columns = 1;
+
+  /** Library filters; paging and sort options are ignored. */
+  @Input() filter: PhotoFilterRequest = {};
+  @Input() selectedIds: number[] = [];
+  @Output() photoClick = new EventEmitter<TimelinePhotoClick>();
+  @Output() openDetail = new EventEmitter<PhotoListDto>();
+
+  readonly MediaType = MediaType;
+
+  days = signal<TimelineDayDto[]>([]);
+  /** Photos in timeline order, with gaps for pages not yet loaded. */
+  photos = signal<(PhotoListDto | undefined)[]>([]);
+  layout = signal<TimelineLayout>(EMPTY_LAYOUT);
+  tileSize = signal(MIN_TILE_SIZE);
+  isLoading = signal(false);
+  topRow = signal(0);
+
+  private readonly topDate = computed(
+    () => this.layout().rows[this.topRow()]?.date ?? null,
+  );
+  stickyLabel = computed(() => {
+    const date = this.topDate();
+    // The first rows already show the newest month's headers
+    return date && this.topRow() > 0
+      ? formatTimelineLabel("month", date)
+      : null;
+  });
+  currentYear = computed(() => {
+    const date = this.topDate();
+    return date ? Number(date.slice(0, 4)) : null;
+  });
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes["filter"]) {
+      if (!changes["filter"].firstChange) {
+        this.scrollStrategy.scrollToIndex(0, "auto");
+      }
+      this.reload();
+    }
+  }
+
+  ngOnInit(): void {
+    this.scrollStrategy.renderedRangeChange
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((range) => this.loadRange(range));
+    this.scrollStrategy.scrolledIndexChange
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((row) => this.topRow.set(row));
+  }
+
+  ngOnDestroy(): void {
+    this.loadSubscription.unsubscribe();
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  @HostListener("window:resize")
+  onResize(): void {
+    if (this.days().length > 0) {
+      this.applyLayout();
+    }
+  }
+
+  /**
+   * Reloads the day counts and drops every loaded photo, keeping the scroll
+   * position.
+   */
+  reload(): void {
+    // Drop any responses still in flight for the previous filter
+    this.loadSubscription.unsubscribe();
+    this.loadSubscription = new Subscription();
+    this.requestedPages.clear();
+    this.isLoading.set(true);
+
+    this.loadSubscription.add(
+      this.photoService.getTimeline(this.filter).subscribe({
+        next: (days) => {
+          this.days.set(days);
+          this.photos.set([]);
+          this.isLoading.set(false);
+          this.applyLayout();
+        },
+        error: (error) => {
+          console.error("Failed to load timeline:", error);
+          this.isLoading.set(false);
+          this.snackBar.open("Failed to load timeline", "Close", {
+            duration: 3000,
+          });
+        },
+      }),
+    );
+  }
+
+  jumpToYear(year: number): void {
+    const entry = this.layout().years.find((y) => y.year === year);
+    if (entry) {
+      this.scrollStrategy.scrollToIndex(entry.row, "smooth");
+    }
+  }
+
+  getThumbnailUrl(photo: PhotoListDto): string {
+    return this.photoService.getThumbnailUrl(photo);
+  }
+
+  isSelected(id: number): boolean {
+    return this.selectedIds.includes(id);
+  }
+
+  onPhotoClick(id: number, shiftKey: boolean): void {
+    this.photoClick.emit({
+      id,
+      shiftKey,
+      orderedIds: this.photos().flatMap((photo) => (photo ? [photo.id] : [])),
+    });
+  }
+
+  trackRow(_: number, row: TimelineRow): string {
+    return `${row.kind}:${row.date}:${row.indexes[0] ?? ""}`;
+  }
+
+  private applyLayout(): void {
+    const width = this.host.nativeElement.clientWidth - RESERVED_WIDTH;
+    this.columns = Math.max(
+      1,
+      Math.floor((width + TILE_GAP) / (MIN_TILE_SIZE + TILE_GAP)),
+    );
+    this.tileSize.set(
+      Math.max(
+        MIN_TILE_SIZE,
+        Math.floor((width - TILE_GAP * (this.columns - 1)) / this.columns),
+      ),
+    );
+
+    const layout = layoutTimeline(
+      this.days(),
+      this.columns,
+      this.tileSize() + TILE_GAP,
+    );
+    this.layout.set(layout);
+    this.scrollStrategy.setLayout(layout);
+  }
+
+  /**
+   * Fetches the pages holding the photos of the rendered rows.
+   */
+  private loadRange({ start, end }: ListRange): void {
+    const indexes = this.layout()
+      .rows.slice(start, end)
+      .flatMap((row) => row.indexes);
+    if (indexes.length === 0) return;
+
+    const firstPage = Math.floor(indexes[0] / PAGE_SIZE) + 1;
+    const lastPage = Math.floor(indexes[indexes.length - 1] / PAGE_SIZE) + 1;
+    for (let page = firstPage; page <= lastPage; page++) {
+      this.loadPage(page);
+    }
+  }
+
+  private loadPage(page: number): void {
+    if (this.requestedPages.has(page)) return;
+    this.requestedPages.add(page);
+
+    const request: PhotoFilterRequest = {
+      ...this.filter,
+      page,
+      pageSize: PAGE_SIZE,
+      // Same order as the timeline, with ties broken by ID on the server
+      sortBy: "date",
+      sortDirection: "desc",
+    };
+
+    this.loadSubscription.add(
+      this.photoService.getPhotos(request).subscribe({
+        next: (result) => {
+          this.photos.update((photos) => {
+            const next = [...photos];
+            result.data.forEach((photo, i) => {
+              next[(page - 1) * PAGE_SIZE + i] = photo;
+            });
+            return next;
+          });
+        },
+        error: (error) => {
+          console.error("Failed to load photos:", error);
+          // Let the next scroll retry the page
+          this.requestedPages.delete(page);
+        },
+      }),
+    );
+  }
+}
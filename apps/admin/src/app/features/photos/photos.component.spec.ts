@@ -1,16 +1,78 @@
 import { TestBed } from "@angular/core/testing";
-import { of } from "rxjs";
+import { HttpResponse } from "@angular/common/http";
+import { BehaviorSubject, Subject, of } from "rxjs";
 import { describe, it, expect, vi } from "vitest";
-import { MatDialog } from "@angular/material/dialog";
+import { MatDialog, MatDialogRef } from "@angular/material/dialog";
 import { MatSnackBar } from "@angular/material/snack-bar";
+import {
+  ActivatedRoute,
+  Params,
+  Router,
+  convertToParamMap,
+} from "@angular/router";
 import { PhotosComponent } from "./photos.component";
+import { BulkAssignDialogComponent } from "./bulk-assign-dialog.component";
 import {
   BulkOperationResult,
+  MediaType,
+  PhotoListDto,
   RefreshThumbnailsResult,
   UploadResult,
 } from "../../core/models";
 import { PhotoService } from "../../core/services/photo.service";
 import { StorageService } from "../../core/services/storage.service";
+import { UploadManagerService } from "../../core/services/upload-manager.service";
+import { AlbumService } from "../../core/services/album.service";
+import { TagService } from "../../core/services/tag.service";
+
+function createRouteStub(params: Params = {}) {
+  return { queryParamMap: new BehaviorSubject(convertToParamMap(params)) };
+}
+
+const albumServiceStub = {
+  getAlbums: vi.fn(() => of([])),
+} as Partial<AlbumService>;
+
+const tagServiceStub = {
+  getTags: vi.fn(() => of([])),
+} as Partial<TagService>;
+
+function setup(params: Params = {}, photos: PhotoListDto[] = []) {
+  const photoServiceStub = {
+    getPhotos: vi.fn(() =>
+      of({
+        data: photos,
+        pagination: {
+          page: 1,
+          pageSize: 24,
+          totalItems: photos.length,
+          totalPages: 1,
+        },
+      }),
+    ),
+    getThumbnailUrl: vi.fn(() => ""),
+    getTimeline: vi.fn(() => of([])),
+  } as Partial<PhotoService>;
+  const routerStub = { navigate: vi.fn() };
+  const route = createRouteStub(params);
+
+  TestBed.configureTestingModule({
+    imports: [PhotosComponent],
+    providers: [
+      { provide: PhotoService, useValue: photoServiceStub },
+      { provide: StorageService, useValue: {} },
+      { provide: AlbumService, useValue: albumServiceStub },
+      { provide: TagService, useValue: tagServiceStub },
+      { provide: Router, useValue: routerStub },
+      { provide: ActivatedRoute, useValue: route },
+    ],
+  });
+
+  const fixture = TestBed.createComponent(PhotosComponent);
+  fixture.detectChanges();
+
+  return { fixture, photoServiceStub, routerStub, route };
+}
 
 describe("PhotosComponent", () => {
   it("loads photos and shows empty state when none exist", () => {
@@ -52,7 +114,9 @@ describe("PhotosComponent", () => {
     };
 
     const storageServiceStub = {
-      uploadFile: vi.fn(() => of(uploadResult)),
+      uploadFileWithProgress: vi.fn(() =>
+        of(new HttpResponse({ body: uploadResult })),
+      ),
     } as Partial<StorageService>;
 
     const dialogStub = {
@@ -71,6 +135,10 @@ describe("PhotosComponent", () => {
         { provide: StorageService, useValue: storageServiceStub },
         { provide: MatDialog, useValue: dialogStub },
         { provide: MatSnackBar, useValue: snackBarStub },
+        { provide: AlbumService, useValue: albumServiceStub },
+        { provide: TagService, useValue: tagServiceStub },
+        { provide: Router, useValue: { navigate: vi.fn() } },
+        { provide: ActivatedRoute, useValue: createRouteStub() },
       ],
     });
 
@@ -80,4 +148,315 @@ describe("PhotosComponent", () => {
     expect(photoServiceStub.getPhotos).toHaveBeenCalled();
     expect(fixture.nativeElement.textContent).toContain("No photos yet");
   });
+
+  describe("filters", () => {
+    it("loads photos using the filters in the URL", () => {
+      const { fixture, photoServiceStub } = setup({
+        search: "beach",
+        albumId: "3",
+        mediaType: "1",
+        dateFrom: "2024-06-01",
+        dateTo: "2024-06-30",
+        sortBy: "dateTaken",
+        sortDirection: "asc",
+        page: "2",
+      });
+
+      expect(photoServiceStub.getPhotos).toHaveBeenCalledWith({
+        page: 2,
+        pageSize: 24,
+        search: "beach",
+        albumId: 3,
+        mediaType: MediaType.Video,
+        dateFrom: "2024-06-01",
+        dateTo: "2024-06-30T23:59:59",
+        sortBy: "dateTaken",
+        sortDirection: "asc",
+      });
+      expect(fixture.componentInstance.hasActiveFilters()).toBe(true);
+      expect(fixture.componentInstance.sortLabel()).toBe("Oldest taken");
+      expect(fixture.nativeElement.textContent).toContain(
+        "No matching photos",
+      );
+    });
+
+    it("ignores invalid query params", () => {
+      const { fixture, photoServiceStub } = setup({
+        albumId: "abc",
+        mediaType: "7",
+        dateFrom: "yesterday",
+        sortBy: "size",
+      });
+
+      expect(photoServiceStub.getPhotos).toHaveBeenCalledWith({
+        page: 1,
+        pageSize: 24,
+        sortBy: "dateAdded",
+        sortDirection: "desc",
+      });
+      expect(fixture.componentInstance.hasActiveFilters()).toBe(false);
+    });
+
+    it("writes filter changes to the URL and returns to the first page", () => {
+      const { fixture, routerStub, route } = setup({ tagId: "5", page: "3" });
+
+      fixture.componentInstance.updateFilters({ mediaType: MediaType.Photo });
+
+      expect(routerStub.navigate).toHaveBeenCalledWith([], {
+        relativeTo: route,
+        queryParams: { tagId: 5, mediaType: MediaType.Photo },
+      });
+    });
+
+    it("reloads when the URL changes", () => {
+      const { photoServiceStub, route } = setup();
+
+      route.queryParamMap.next(convertToParamMap({ tagId: "8" }));
+
+      expect(photoServiceStub.getPhotos).toHaveBeenCalledTimes(2);
+      expect(photoServiceStub.getPhotos).toHaveBeenLastCalledWith(
+        expect.objectContaining({ tagId: 8 }),
+      );
+    });
+
+    it("debounces the search box before updating the URL", () => {
+      vi.useFakeTimers();
+      const { fixture, routerStub, route } = setup();
+
+      fixture.componentInstance.onSearchChange("be");
+      fixture.componentInstance.onSearchChange("beach ");
+      expect(routerStub.navigate).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(300);
+
+      expect(routerStub.navigate).toHaveBeenCalledTimes(1);
+      expect(routerStub.navigate).toHaveBeenCalledWith([], {
+        relativeTo: route,
+        queryParams: { search: "beach" },
+      });
+      vi.useRealTimers();
+    });
+
+    it("filters by a map area only when all its bounds are valid", () => {
+      const area = {
+        minLatitude: "48.1",
+        maxLatitude: "48.3",
+        minLongitude: "16.2",
+        maxLongitude: "16.5",
+      };
+      const { fixture, photoServiceStub, routerStub, route } = setup(area);
+
+      expect(photoServiceStub.getPhotos).toHaveBeenCalledWith(
+        expect.objectContaining({
+          minLatitude: 48.1,
+          maxLatitude: 48.3,
+          minLongitude: 16.2,
+          maxLongitude: 16.5,
+        }),
+      );
+      expect(
+        fixture.nativeElement.querySelector('[data-testid="area-filter"]'),
+      ).not.toBeNull();
+
+      fixture.componentInstance.clearArea();
+      expect(routerStub.navigate).toHaveBeenCalledWith([], {
+        relativeTo: route,
+        queryParams: {},
+      });
+
+      route.queryParamMap.next(
+        convertToParamMap({ ...area, maxLatitude: "95" }),
+      );
+      expect(photoServiceStub.getPhotos).toHaveBeenLastCalledWith({
+        page: 1,
+        pageSize: 24,
+        sortBy: "dateAdded",
+        sortDirection: "desc",
+      });
+      expect(fixture.componentInstance.hasArea()).toBe(false);
+    });
+
+    it("keeps the sort order when clearing filters", () => {
+      const { fixture, routerStub, route } = setup({
+        albumId: "3",
+        sortBy: "filename",
+        sortDirection: "asc",
+      });
+
+      fixture.componentInstance.clearFilters();
+
+      expect(routerStub.navigate).toHaveBeenCalledWith([], {
+        relativeTo: route,
+        queryParams: { sortBy: "filename", sortDirection: "asc" },
+      });
+    });
+  });
+
+  describe("timeline", () => {
+    it("writes the view to the URL and returns to the first page", () => {
+      const { fixture, routerStub, route } = setup({ tagId: "5", page: "3" });
+
+      fixture.componentInstance.setView("timeline");
+
+      expect(routerStub.navigate).toHaveBeenCalledWith([], {
+        relativeTo: route,
+        queryParams: { tagId: 5, view: "timeline" },
+      });
+    });
+
+    it("shows the timeline instead of the paged grid", () => {
+      const { fixture, photoServiceStub } = setup({
+        view: "timeline",
+        albumId: "3",
+      });
+      const element: HTMLElement = fixture.nativeElement;
+
+      expect(element.querySelector("app-photo-timeline")).not.toBeNull();
+      expect(element.querySelector("mat-paginator")).toBeNull();
+      expect(photoServiceStub.getTimeline).toHaveBeenCalledWith({ albumId: 3 });
+      expect(photoServiceStub.getPhotos).not.toHaveBeenCalled();
+    });
+
+    it("selects ranges in timeline order", () => {
+      const { fixture } = setup({ view: "timeline" });
+      const component = fixture.componentInstance;
+      const ids = [9, 7, 8, 3];
+
+      component.onPhotoClick(7, { shiftKey: false }, ids);
+      component.onPhotoClick(3, { shiftKey: true }, ids);
+
+      expect(component.selectedPhotos()).toEqual([7, 8, 3]);
+    });
+  });
+
+  describe("selection", () => {
+    function photo(id: number): PhotoListDto {
+      return {
+        id,
+        filename: `photo${id}.jpg`,
+        thumbnailPath: `thumb/photo${id}.jpg`,
+        width: 800,
+        height: 600,
+        mediaType: MediaType.Photo,
+        dateTaken: null,
+        dateAdded: "2025-01-01T00:00:00Z",
+        location: null,
+        albumCount: 0,
+        tagCount: 0,
+      };
+    }
+
+    const page = [1, 2, 3, 4, 5].map(photo);
+
+    it("selects a range with shift-click", () => {
+      const { fixture } = setup({}, page);
+      const component = fixture.componentInstance;
+
+      component.onPhotoClick(2, new MouseEvent("click"));
+      component.onPhotoClick(4, new MouseEvent("click", { shiftKey: true }));
+
+      expect(component.selectedPhotos()).toEqual([2, 3, 4]);
+
+      // The anchor stays put, so a second range extends from the same photo
+      component.onPhotoClick(1, new MouseEvent("click", { shiftKey: true }));
+      expect([...component.selectedPhotos()].sort()).toEqual([1, 2, 3, 4]);
+    });
+
+    it("toggles when shift-clicking without an anchor", () => {
+      const { fixture } = setup({}, page);
+      const component = fixture.componentInstance;
+
+      component.onPhotoClick(3, new MouseEvent("click", { shiftKey: true }));
+
+      expect(component.selectedPhotos()).toEqual([3]);
+    });
+
+    it("selects and clears every photo on the page", () => {
+      const { fixture } = setup({}, page);
+      const component = fixture.componentInstance;
+
+      component.toggleSelection(2);
+      expect(component.someOnPageSelected()).toBe(true);
+
+      component.toggleSelectPage();
+      expect(component.allOnPageSelected()).toBe(true);
+      expect(component.selectedPhotos().length).toBe(5);
+
+      fixture.detectChanges();
+      expect(
+        fixture.nativeElement.querySelector('[data-testid="bulk-bar"]')
+          .textContent,
+      ).toContain("5 selected");
+
+      component.toggleSelectPage();
+      expect(component.selectedPhotos()).toEqual([]);
+    });
+
+    it("clears the selection after a fully successful bulk action", () => {
+      const { fixture, photoServiceStub } = setup({}, page);
+      const component = fixture.componentInstance;
+      // The component's MatDialogModule shadows a stub provided to TestBed
+      const dialog = fixture.debugElement.injector.get(MatDialog);
+      const open = vi.spyOn(dialog, "open").mockReturnValue({
+        afterClosed: () => of({ successCount: 2, failedCount: 0, errors: [] }),
+      } as MatDialogRef<unknown>);
+
+      component.toggleSelection(1);
+      component.toggleSelection(2);
+      component.openBulkDialog("addTags");
+
+      expect(open).toHaveBeenCalledWith(
+        BulkAssignDialogComponent,
+        expect.objectContaining({
+          data: { action: "addTags", photoIds: [1, 2] },
+        }),
+      );
+      expect(component.selectedPhotos()).toEqual([]);
+      expect(photoServiceStub.getPhotos).toHaveBeenCalledTimes(2);
+      vi.restoreAllMocks();
+    });
+
+    it("keeps the selection when a bulk action partly fails", () => {
+      const { fixture } = setup({}, page);
+      const component = fixture.componentInstance;
+      const dialog = fixture.debugElement.injector.get(MatDialog);
+      vi.spyOn(dialog, "open").mockReturnValue({
+        afterClosed: () =>
+          of({ successCount: 1, failedCount: 1, errors: ["Photo 2 failed"] }),
+      } as MatDialogRef<unknown>);
+
+      component.toggleSelection(1);
+      component.toggleSelection(2);
+      component.openBulkDialog("removeFromAlbum");
+
+      expect(component.selectedPhotos()).toEqual([1, 2]);
+      vi.restoreAllMocks();
+    });
+  });
+  describe("uploads", () => {
+    it("queues dropped media files and reloads once uploads finish", () => {
+      const uploadsFinished$ = new Subject<UploadResult[]>();
+      const uploadManagerStub = {
+        enqueue: vi.fn(() => []),
+        uploadsFinished$,
+      };
+      TestBed.overrideProvider(UploadManagerService, {
+        useValue: uploadManagerStub,
+      });
+      const { fixture, photoServiceStub } = setup();
+      const photo = new File(["a"], "a.jpg", { type: "image/jpeg" });
+      const notes = new File(["b"], "notes.txt", { type: "text/plain" });
+
+      fixture.componentInstance.onDrop({
+        preventDefault: vi.fn(),
+        stopPropagation: vi.fn(),
+        dataTransfer: { files: [photo, notes] },
+      } as unknown as DragEvent);
+
+      expect(uploadManagerStub.enqueue).toHaveBeenCalledWith([photo]);
+
+      uploadsFinished$.next([]);
+      expect(photoServiceStub.getPhotos).toHaveBeenCalledTimes(2);
+    });
+  });
 });
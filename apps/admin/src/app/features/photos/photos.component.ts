@@ -2,16 +2,16 @@ import {
   Component,
   inject,
   signal,
+  computed,
   OnInit,
+  OnDestroy,
   ViewChild,
   ElementRef,
 } from "@angular/core";
 import { CommonModule } from "@angular/common";
 import { FormsModule } from "@angular/forms";
-import { MatCardModule } from "@angular/material/card";
 import { MatButtonModule } from "@angular/material/button";
 import { MatIconModule } from "@angular/material/icon";
-import { MatProgressBarModule } from "@angular/material/progress-bar";
 import { MatProgressSpinnerModule } from "@angular/material/progress-spinner";
 import { MatCheckboxModule } from "@angular/material/checkbox";
 import { MatMenuModule } from "@angular/material/menu";
@@ -22,16 +22,191 @@ import { MatSnackBar, MatSnackBarModule } from "@angular/material/snack-bar";
 import { MatTooltipModule } from "@angular/material/tooltip";
 import { MatSelectModule } from "@angular/material/select";
 import { MatFormFieldModule } from "@angular/material/form-field";
+import { MatInputModule } from "@angular/material/input";
+import { MatButtonToggleModule } from "@angular/material/button-toggle";
+import { MatDatepickerModule } from "@angular/material/datepicker";
+import { MatNativeDateModule } from "@angular/material/core";
+import { ActivatedRoute, ParamMap, Params, Router } from "@angular/router";
+import {
+  Subject,
+  Subscription,
+  debounceTime,
+  distinctUntilChanged,
+  takeUntil,
+} from "rxjs";
 import { PhotoService } from "../../core/services/photo.service";
-import { StorageService } from "../../core/services/storage.service";
-import { PhotoListDto, MediaType } from "../../core/models";
+import { UploadManagerService } from "../../core/services/upload-manager.service";
+import { AlbumService } from "../../core/services/album.service";
+import { TagService } from "../../core/services/tag.service";
+import {
+  PhotoListDto,
+  MediaType,
+  AlbumDto,
+  TagDto,
+  PhotoFilterRequest,
+} from "../../core/models";
 import { PhotoDetailDialogComponent } from "./photo-detail-dialog.component";
+import {
+  BulkAction,
+  BulkAssignDialogComponent,
+} from "./bulk-assign-dialog.component";
+import { PhotoTimelineComponent } from "./photo-timeline.component";
+
+type SortField = "dateAdded" | "dateTaken" | "filename";
+type SortDirection = "asc" | "desc";
+type LibraryView = "grid" | "timeline";
+
+/**
+ * Library filters. Mirrored in the URL query string using the
+ * PhotoFilterRequest parameter names, so filtered views can be bookmarked.
+ */
+interface PhotoFilters {
+  search: string;
+  albumId: number | null;
+  tagId: number | null;
+  /** Local date as "YYYY-MM-DD". */
+  dateFrom: string | null;
+  /** Local date as "YYYY-MM-DD", inclusive. */
+  dateTo: string | null;
+  mediaType: MediaType | null;
+  /** Map area, set from the map view. Either all four bounds or none. */
+  minLatitude: number | null;
+  maxLatitude: number | null;
+  minLongitude: number | null;
+  maxLongitude: number | null;
+  sortBy: SortField;
+  sortDirection: SortDirection;
+}
+
+const DEFAULT_FILTERS: PhotoFilters = {
+  search: "",
+  albumId: null,
+  tagId: null,
+  dateFrom: null,
+  dateTo: null,
+  mediaType: null,
+  minLatitude: null,
+  maxLatitude: null,
+  minLongitude: null,
+  maxLongitude: null,
+  sortBy: "dateAdded",
+  sortDirection: "desc",
+};
+
+const DEFAULT_PAGE_SIZE = 24;
+
+/** Delay before a search box edit updates the URL, in milliseconds. */
+const SEARCH_DEBOUNCE = 300;
+
+const SORT_OPTIONS: {
+  label: string;
+  sortBy: SortField;
+  sortDirection: SortDirection;
+}[] = [
+  { label: "Newest added", sortBy: "dateAdded", sortDirection: "desc" },
+  { label: "Oldest added", sortBy: "dateAdded", sortDirection: "asc" },
+  { label: "Newest taken", sortBy: "dateTaken", sortDirection: "desc" },
+  { label: "Oldest taken", sortBy: "dateTaken", sortDirection: "asc" },
+  { label: "Filename A–Z", sortBy: "filename", sortDirection: "asc" },
+  { label: "Filename Z–A", sortBy: "filename", sortDirection: "desc" },
+];
+
+function parseId(value: string | null): number | null {
+  const id = Number(value);
+  return value && Number.isInteger(id) && id > 0 ? id : null;
+}
 
-interface UploadProgress {
-  file: File;
-  progress: number;
-  status: "pending" | "uploading" | "success" | "error";
-  error?: string;
+function parseDate(value: string | null): string | null {
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+}
+
+function parseCoordinate(value: string | null, limit: number): number | null {
+  const coordinate = Number(value);
+  return value && Math.abs(coordinate) <= limit ? coordinate : null;
+}
+
+function parseArea(
+  params: ParamMap,
+): Pick<
+  PhotoFilters,
+  "minLatitude" | "maxLatitude" | "minLongitude" | "maxLongitude"
+> {
+  const area = {
+    minLatitude: parseCoordinate(params.get("minLatitude"), 90),
+    maxLatitude: parseCoordinate(params.get("maxLatitude"), 90),
+    minLongitude: parseCoordinate(params.get("minLongitude"), 180),
+    maxLongitude: parseCoordinate(params.get("maxLongitude"), 180),
+  };
+  // A partial area would select a strip of the world, so ignore it
+  return Object.values(area).every((bound) => bound !== null)
+    ? area
+    : {
+        minLatitude: null,
+        maxLatitude: null,
+        minLongitude: null,
+        maxLongitude: null,
+      };
+}
+
+function parseFilters(params: ParamMap): PhotoFilters {
+  const mediaType = Number(params.get("mediaType"));
+  const sortBy = params.get("sortBy");
+  const sortDirection = params.get("sortDirection");
+
+  return {
+    search: params.get("search")?.trim() ?? "",
+    albumId: parseId(params.get("albumId")),
+    tagId: parseId(params.get("tagId")),
+    dateFrom: parseDate(params.get("dateFrom")),
+    dateTo: parseDate(params.get("dateTo")),
+    mediaType:
+      params.has("mediaType") &&
+      (mediaType === MediaType.Photo || mediaType === MediaType.Video)
+        ? mediaType
+        : null,
+    ...parseArea(params),
+    sortBy: SORT_OPTIONS.some((option) => option.sortBy === sortBy)
+      ? (sortBy as SortField)
+      : DEFAULT_FILTERS.sortBy,
+    sortDirection:
+      sortDirection === "asc" || sortDirection === "desc"
+        ? sortDirection
+        : DEFAULT_FILTERS.sortDirection,
+  };
+}
+
+/**
+ * Builds query params for the filters, leaving out defaults to keep URLs short.
+ */
+function toQueryParams(
+  filters: PhotoFilters,
+  page: number,
+  pageSize: number,
+  view: LibraryView,
+): Params {
+  const params: Params = {};
+  if (view !== "grid") params["view"] = view;
+  for (const key of Object.keys(filters) as (keyof PhotoFilters)[]) {
+    const value = filters[key];
+    if (value !== null && value !== "" && value !== DEFAULT_FILTERS[key]) {
+      params[key] = value;
+    }
+  }
+  if (page > 1) params["page"] = page;
+  if (pageSize !== DEFAULT_PAGE_SIZE) params["pageSize"] = pageSize;
+  return params;
+}
+
+function formatLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function parseLocalDate(value: string | null): Date | null {
+  if (!value) return null;
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
 }
 
 @Component({
@@ -40,10 +215,8 @@ interface UploadProgress {
   imports: [
     CommonModule,
     FormsModule,
-    MatCardModule,
     MatButtonModule,
     MatIconModule,
-    MatProgressBarModule,
     MatProgressSpinnerModule,
     MatCheckboxModule,
     MatMenuModule,
@@ -54,6 +227,11 @@ interface UploadProgress {
     MatTooltipModule,
     MatSelectModule,
     MatFormFieldModule,
+    MatInputModule,
+    MatButtonToggleModule,
+    MatDatepickerModule,
+    MatNativeDateModule,
+    PhotoTimelineComponent,
   ],
   template: `
     <div class="photos-container">
@@ -61,30 +239,6 @@ interface UploadProgress {
       <div class="header">
         <h1>Photos</h1>
         <div class="header-actions">
-          @if (selectedPhotos().length > 0) {
-            <button mat-stroked-button color="warn" (click)="deleteSelected()">
-              <mat-icon>delete</mat-icon>
-              Delete ({{ selectedPhotos().length }})
-            </button>
-            <button mat-stroked-button [matMenuTriggerFor]="bulkMenu">
-              <mat-icon>more_vert</mat-icon>
-              More Actions
-            </button>
-            <mat-menu #bulkMenu="matMenu">
-              <button mat-menu-item>
-                <mat-icon>collections</mat-icon>
-                Add to Album
-              </button>
-              <button mat-menu-item>
-                <mat-icon>label</mat-icon>
-                Add Tags
-              </button>
-              <button mat-menu-item (click)="regenerateThumbnails()">
-                <mat-icon>refresh</mat-icon>
-                Regenerate Thumbnails
-              </button>
-            </mat-menu>
-          }
           <button mat-raised-button color="primary" (click)="fileInput.click()">
             <mat-icon>upload</mat-icon>
             Upload Photos
@@ -100,50 +254,199 @@ interface UploadProgress {
         </div>
       </div>
 
-      <!-- Upload Progress -->
-      @if (uploadQueue().length > 0) {
-        <mat-card class="upload-card">
-          <mat-card-header>
-            <mat-card-title
-              >Uploading {{ uploadQueue().length }} file(s)</mat-card-title
+      <!-- Filters -->
+      <div class="filter-toolbar">
+        <mat-form-field
+          appearance="outline"
+          subscriptSizing="dynamic"
+          class="search-field"
+        >
+          <mat-label>Search</mat-label>
+          <mat-icon matPrefix>search</mat-icon>
+          <input
+            matInput
+            placeholder="Filename or location"
+            [ngModel]="searchText()"
+            (ngModelChange)="onSearchChange($event)"
+          />
+          @if (searchText()) {
+            <button
+              mat-icon-button
+              matSuffix
+              (click)="clearSearch()"
+              aria-label="Clear search"
             >
-          </mat-card-header>
-          <mat-card-content>
-            @for (upload of uploadQueue(); track upload.file.name) {
-              <div class="upload-item">
-                <div class="upload-info">
-                  <span class="filename">{{ upload.file.name }}</span>
-                  <span class="status" [class]="upload.status">
-                    @switch (upload.status) {
-                      @case ("pending") {
-                        Waiting...
-                      }
-                      @case ("uploading") {
-                        {{ upload.progress }}%
-                      }
-                      @case ("success") {
-                        Complete
-                      }
-                      @case ("error") {
-                        Failed: {{ upload.error }}
-                      }
-                    }
-                  </span>
-                </div>
-                <mat-progress-bar
-                  [mode]="
-                    upload.status === 'uploading'
-                      ? 'determinate'
-                      : 'indeterminate'
-                  "
-                  [value]="upload.progress"
-                  [color]="upload.status === 'error' ? 'warn' : 'primary'"
-                >
-                </mat-progress-bar>
-              </div>
+              <mat-icon>close</mat-icon>
+            </button>
+          }
+        </mat-form-field>
+
+        <mat-form-field appearance="outline" subscriptSizing="dynamic">
+          <mat-label>Album</mat-label>
+          <mat-select
+            [value]="filters().albumId"
+            (selectionChange)="updateFilters({ albumId: $event.value })"
+          >
+            <mat-option [value]="null">All albums</mat-option>
+            @for (album of albums(); track album.id) {
+              <mat-option [value]="album.id">{{ album.name }}</mat-option>
+            }
+          </mat-select>
+        </mat-form-field>
+
+        <mat-form-field appearance="outline" subscriptSizing="dynamic">
+          <mat-label>Tag</mat-label>
+          <mat-select
+            [value]="filters().tagId"
+            (selectionChange)="updateFilters({ tagId: $event.value })"
+          >
+            <mat-option [value]="null">All tags</mat-option>
+            @for (tag of tags(); track tag.id) {
+              <mat-option [value]="tag.id">{{ tag.name }}</mat-option>
             }
-          </mat-card-content>
-        </mat-card>
+          </mat-select>
+        </mat-form-field>
+
+        <mat-form-field appearance="outline" subscriptSizing="dynamic">
+          <mat-label>Date taken</mat-label>
+          <mat-date-range-input [rangePicker]="dateRangePicker">
+            <input
+              matStartDate
+              placeholder="From"
+              [value]="dateFrom()"
+              (dateChange)="pendingDateFrom = $event.value"
+            />
+            <input
+              matEndDate
+              placeholder="To"
+              [value]="dateTo()"
+              (dateChange)="applyDateRange($event.value)"
+            />
+          </mat-date-range-input>
+          <mat-datepicker-toggle
+            matIconSuffix
+            [for]="dateRangePicker"
+          ></mat-datepicker-toggle>
+          <mat-date-range-picker #dateRangePicker></mat-date-range-picker>
+        </mat-form-field>
+
+        <mat-button-toggle-group
+          [value]="filters().mediaType ?? 'all'"
+          (change)="
+            updateFilters({
+              mediaType: $event.value === 'all' ? null : $event.value,
+            })
+          "
+          aria-label="Media type"
+        >
+          <mat-button-toggle value="all">All</mat-button-toggle>
+          <mat-button-toggle [value]="MediaType.Photo"
+            >Photos</mat-button-toggle
+          >
+          <mat-button-toggle [value]="MediaType.Video"
+            >Videos</mat-button-toggle
+          >
+        </mat-button-toggle-group>
+
+        <mat-button-toggle-group
+          [value]="view()"
+          (change)="setView($event.value)"
+          aria-label="Layout"
+        >
+          <mat-button-toggle value="grid" matTooltip="Grid">
+            <mat-icon>grid_view</mat-icon>
+          </mat-button-toggle>
+          <mat-button-toggle value="timeline" matTooltip="Timeline">
+            <mat-icon>view_timeline</mat-icon>
+          </mat-button-toggle>
+        </mat-button-toggle-group>
+
+        <!-- The timeline is always newest first -->
+        @if (view() === "grid") {
+          <button mat-stroked-button [matMenuTriggerFor]="sortMenu">
+            <mat-icon>sort</mat-icon>
+            {{ sortLabel() }}
+          </button>
+        }
+        <mat-menu #sortMenu="matMenu">
+          @for (option of sortOptions; track option.label) {
+            <button
+              mat-menu-item
+              (click)="
+                updateFilters({
+                  sortBy: option.sortBy,
+                  sortDirection: option.sortDirection,
+                })
+              "
+            >
+              <mat-icon>{{
+                option.label === sortLabel() ? "check" : ""
+              }}</mat-icon>
+              {{ option.label }}
+            </button>
+          }
+        </mat-menu>
+
+        @if (hasArea()) {
+          <button
+            mat-stroked-button
+            (click)="clearArea()"
+            matTooltip="Show photos from everywhere"
+            data-testid="area-filter"
+          >
+            <mat-icon>map</mat-icon>
+            Map area
+            <mat-icon iconPositionEnd>close</mat-icon>
+          </button>
+        }
+
+        @if (hasActiveFilters()) {
+          <button mat-button (click)="clearFilters()">
+            <mat-icon>filter_alt_off</mat-icon>
+            Clear Filters
+          </button>
+        }
+      </div>
+
+      <!-- Bulk Actions -->
+      @if (selectedPhotos().length > 0) {
+        <div class="bulk-bar" data-testid="bulk-bar">
+          <span class="bulk-count"
+            >{{ selectedPhotos().length }} selected</span
+          >
+          <button mat-button (click)="openBulkDialog('addToAlbum')">
+            <mat-icon>library_add</mat-icon>
+            Add to Album
+          </button>
+          <button mat-button (click)="openBulkDialog('removeFromAlbum')">
+            <mat-icon>remove_circle_outline</mat-icon>
+            Remove from Album
+          </button>
+          <button mat-button (click)="openBulkDialog('addTags')">
+            <mat-icon>label</mat-icon>
+            Add Tags
+          </button>
+          <button mat-button (click)="openBulkDialog('removeTags')">
+            <mat-icon>label_off</mat-icon>
+            Remove Tags
+          </button>
+          <button mat-button (click)="regenerateThumbnails()">
+            <mat-icon>refresh</mat-icon>
+            Regenerate Thumbnails
+          </button>
+          <button mat-button color="warn" (click)="deleteSelected()">
+            <mat-icon>delete</mat-icon>
+            Delete
+          </button>
+          <span class="spacer"></span>
+          <button
+            mat-icon-button
+            (click)="clearSelection()"
+            aria-label="Clear selection"
+          >
+            <mat-icon>close</mat-icon>
+          </button>
+        </div>
       }
 
       <!-- Drop Zone -->
@@ -154,11 +457,27 @@ interface UploadProgress {
         (dragleave)="onDragLeave($event)"
         (drop)="onDrop($event)"
       >
-        @if (isLoading()) {
+        @if (view() === "timeline") {
+          <app-photo-timeline
+            [filter]="timelineFilter()"
+            [selectedIds]="selectedPhotos()"
+            (photoClick)="onPhotoClick($event.id, $event, $event.orderedIds)"
+            (openDetail)="openDetail($event)"
+          ></app-photo-timeline>
+        } @else if (isLoading()) {
           <div class="loading-container">
             <mat-spinner diameter="40"></mat-spinner>
             <p>Loading photos...</p>
           </div>
+        } @else if (photos().length === 0 && hasActiveFilters()) {
+          <div class="empty-state">
+            <mat-icon>search_off</mat-icon>
+            <h2>No matching photos</h2>
+            <p>No photos match the current filters.</p>
+            <button mat-stroked-button (click)="clearFilters()">
+              Clear Filters
+            </button>
+          </div>
         } @else if (photos().length === 0) {
           <!-- Empty State -->
           <div class="empty-state">
@@ -178,13 +497,24 @@ interface UploadProgress {
             </button>
           </div>
         } @else {
+          <div class="selection-row">
+            <mat-checkbox
+              [checked]="allOnPageSelected()"
+              [indeterminate]="someOnPageSelected()"
+              (change)="toggleSelectPage()"
+            >
+              Select all on page
+            </mat-checkbox>
+            <span class="hint">Shift-click to select a range</span>
+          </div>
+
           <!-- Photo Grid -->
           <div class="photo-grid">
             @for (photo of photos(); track photo.id) {
               <div
                 class="photo-card"
                 [class.selected]="isSelected(photo.id)"
-                (click)="toggleSelection(photo.id)"
+                (click)="onPhotoClick(photo.id, $event)"
               >
                 <div class="photo-thumbnail">
                   <img
@@ -200,7 +530,6 @@ interface UploadProgress {
                   <div class="photo-overlay">
                     <mat-checkbox
                       [checked]="isSelected(photo.id)"
-                      (click)="$event.stopPropagation()"
                       (change)="toggleSelection(photo.id)"
                     >
                     </mat-checkbox>
@@ -268,40 +597,52 @@ interface UploadProgress {
         flex-wrap: wrap;
       }
 
-      .upload-card {
+      .filter-toolbar {
+        display: flex;
+        align-items: center;
+        flex-wrap: wrap;
+        gap: 12px;
         margin-bottom: 24px;
       }
 
-      .upload-item {
-        margin: 12px 0;
+      .search-field {
+        flex: 1;
+        min-width: 220px;
       }
 
-      .upload-info {
+      .bulk-bar {
+        position: sticky;
+        top: 0;
+        z-index: 2;
         display: flex;
-        justify-content: space-between;
-        margin-bottom: 4px;
+        align-items: center;
+        flex-wrap: wrap;
+        gap: 4px;
+        padding: 8px 12px;
+        margin-bottom: 16px;
+        border-radius: 8px;
+        background: #e8eaf6;
       }
 
-      .filename {
+      .bulk-count {
         font-weight: 500;
-        overflow: hidden;
-        text-overflow: ellipsis;
-        white-space: nowrap;
-        max-width: 300px;
+        margin-right: 8px;
       }
 
-      .status {
-        font-size: 12px;
+      .spacer {
+        flex: 1;
       }
 
-      .status.success {
-        color: #4caf50;
-      }
-      .status.error {
-        color: #f44336;
+      .selection-row {
+        display: flex;
+        align-items: center;
+        gap: 16px;
+        margin-bottom: 8px;
       }
-      .status.uploading {
-        color: #2196f3;
+
+      .selection-row .hint {
+        font-size: 12px;
+        color: rgba(0, 0, 0, 0.5);
       }
 
       .drop-zone {
@@ -367,6 +708,12 @@ interface UploadProgress {
         cursor: pointer;
         transition: all 0.2s;
         position: relative;
+        user-select: none;
+      }
+
+      /* Clicks on the checkbox reach the card, which handles shift-click */
+      .photo-overlay mat-checkbox {
+        pointer-events: none;
       }
 
       .photo-card:hover {
@@ -475,37 +822,238 @@ interface UploadProgress {
     `,
   ],
 })
-export class PhotosComponent implements OnInit {
+export class PhotosComponent implements OnInit, OnDestroy {
   @ViewChild("fileInput") fileInput!: ElementRef<HTMLInputElement>;
+  @ViewChild(PhotoTimelineComponent) timeline?: PhotoTimelineComponent;
 
   private readonly photoService = inject(PhotoService);
-  private readonly storageService = inject(StorageService);
+  private readonly uploadManager = inject(UploadManagerService);
+  private readonly albumService = inject(AlbumService);
+  private readonly tagService = inject(TagService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
   private readonly dialog = inject(MatDialog);
   private readonly snackBar = inject(MatSnackBar);
+  private readonly destroy$ = new Subject<void>();
+  private readonly searchChanges$ = new Subject<string>();
+  private loadSubscription: Subscription | null = null;
+  /** Photo last clicked without shift, where range selection starts. */
+  private selectionAnchor: number | null = null;
 
   readonly MediaType = MediaType;
+  readonly sortOptions = SORT_OPTIONS;
 
   photos = signal<PhotoListDto[]>([]);
   totalPhotos = signal(0);
   currentPage = signal(0);
-  pageSize = signal(24);
+  pageSize = signal(DEFAULT_PAGE_SIZE);
   isLoading = signal(false);
   isDragOver = signal(false);
+  view = signal<LibraryView>("grid");
   selectedPhotos = signal<number[]>([]);
-  uploadQueue = signal<UploadProgress[]>([]);
+
+  filters = signal<PhotoFilters>(DEFAULT_FILTERS);
+  searchText = signal("");
+  albums = signal<AlbumDto[]>([]);
+  tags = signal<TagDto[]>([]);
+  pendingDateFrom: Date | null = null;
+
+  timelineFilter = computed(() => this.buildFilter());
+  dateFrom = computed(() => parseLocalDate(this.filters().dateFrom));
+  dateTo = computed(() => parseLocalDate(this.filters().dateTo));
+  hasActiveFilters = computed(() => {
+    const filters = this.filters();
+    return (
+      filters.search !== "" ||
+      filters.albumId !== null ||
+      filters.tagId !== null ||
+      filters.dateFrom !== null ||
+      filters.dateTo !== null ||
+      filters.mediaType !== null ||
+      this.hasArea()
+    );
+  });
+  hasArea = computed(() => this.filters().minLatitude !== null);
+  allOnPageSelected = computed(() => {
+    const selected = new Set(this.selectedPhotos());
+    const photos = this.photos();
+    return photos.length > 0 && photos.every((p) => selected.has(p.id));
+  });
+  someOnPageSelected = computed(() => {
+    const selected = new Set(this.selectedPhotos());
+    return (
+      !this.allOnPageSelected() &&
+      this.photos().some((p) => selected.has(p.id))
+    );
+  });
+  sortLabel = computed(() => {
+    const { sortBy, sortDirection } = this.filters();
+    return (
+      SORT_OPTIONS.find(
+        (option) =>
+          option.sortBy === sortBy && option.sortDirection === sortDirection,
+      )?.label ?? SORT_OPTIONS[0].label
+    );
+  });
 
   ngOnInit(): void {
-    this.loadPhotos();
+    this.loadFilterOptions();
+
+    // The URL is the source of truth: every filter or page change navigates,
+    // and each navigation reloads the photos
+    this.route.queryParamMap
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((params) => {
+        const filters = parseFilters(params);
+        this.filters.set(filters);
+        this.searchText.set(filters.search);
+        this.pendingDateFrom = parseLocalDate(filters.dateFrom);
+        this.currentPage.set((parseId(params.get("page")) ?? 1) - 1);
+        this.pageSize.set(
+          parseId(params.get("pageSize")) ?? DEFAULT_PAGE_SIZE,
+        );
+        this.view.set(params.get("view") === "timeline" ? "timeline" : "grid");
+        // The timeline reloads itself when its filter input changes
+        if (this.view() === "grid") {
+          this.loadPhotos();
+        }
+      });
+
+    this.searchChanges$
+      .pipe(
+        debounceTime(SEARCH_DEBOUNCE),
+        distinctUntilChanged(),
+        takeUntil(this.destroy$),
+      )
+      .subscribe((search) => this.updateFilters({ search: search.trim() }));
+
+    this.uploadManager.uploadsFinished$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.loadPhotos());
+  }
+
+  ngOnDestroy(): void {
+    this.loadSubscription?.unsubscribe();
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  private loadFilterOptions(): void {
+    this.albumService.getAlbums().subscribe({
+      next: (albums) => this.albums.set(albums),
+      error: (error) => console.error("Failed to load albums:", error),
+    });
+    this.tagService.getTags().subscribe({
+      next: (tags) => this.tags.set(tags),
+      error: (error) => console.error("Failed to load tags:", error),
+    });
+  }
+
+  /**
+   * Applies filter changes by updating the URL, returning to the first page.
+   */
+  updateFilters(changes: Partial<PhotoFilters>): void {
+    this.navigate({ ...this.filters(), ...changes }, 1, this.pageSize());
+  }
+
+  setView(view: LibraryView): void {
+    this.navigate(this.filters(), 1, this.pageSize(), view);
+  }
+
+  clearFilters(): void {
+    this.navigate(
+      {
+        ...DEFAULT_FILTERS,
+        sortBy: this.filters().sortBy,
+        sortDirection: this.filters().sortDirection,
+      },
+      1,
+      this.pageSize(),
+    );
+  }
+
+  onSearchChange(search: string): void {
+    this.searchText.set(search);
+    this.searchChanges$.next(search);
+  }
+
+  clearSearch(): void {
+    this.searchText.set("");
+    this.updateFilters({ search: "" });
+  }
+
+  clearArea(): void {
+    this.updateFilters({
+      minLatitude: null,
+      maxLatitude: null,
+      minLongitude: null,
+      maxLongitude: null,
+    });
+  }
+
+  applyDateRange(dateTo: Date | null): void {
+    this.updateFilters({
+      dateFrom: this.pendingDateFrom
+        ? formatLocalDate(this.pendingDateFrom)
+        : null,
+      dateTo: dateTo ? formatLocalDate(dateTo) : null,
+    });
+  }
+
+  private navigate(
+    filters: PhotoFilters,
+    page: number,
+    pageSize: number,
+    view: LibraryView = this.view(),
+  ): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: toQueryParams(filters, page, pageSize, view),
+    });
+  }
+
+  private buildRequest(): PhotoFilterRequest {
+    const filters = this.filters();
+    return {
+      ...this.buildFilter(),
+      page: this.currentPage() + 1,
+      pageSize: this.pageSize(),
+      sortBy: filters.sortBy,
+      sortDirection: filters.sortDirection,
+    };
+  }
+
+  private buildFilter(): PhotoFilterRequest {
+    const filters = this.filters();
+    const request: PhotoFilterRequest = {};
+    if (filters.search) request.search = filters.search;
+    if (filters.albumId !== null) request.albumId = filters.albumId;
+    if (filters.tagId !== null) request.tagId = filters.tagId;
+    if (filters.mediaType !== null) request.mediaType = filters.mediaType;
+    if (filters.dateFrom) request.dateFrom = filters.dateFrom;
+    // The API compares timestamps, so extend the end date over the whole day
+    if (filters.dateTo) request.dateTo = `${filters.dateTo}T23:59:59`;
+    if (filters.minLatitude !== null) {
+      request.minLatitude = filters.minLatitude;
+      request.maxLatitude = filters.maxLatitude!;
+      request.minLongitude = filters.minLongitude!;
+      request.maxLongitude = filters.maxLongitude!;
+    }
+    return request;
   }
 
   loadPhotos(): void {
+    if (this.view() === "timeline") {
+      this.timeline?.reload();
+      return;
+    }
+
     this.isLoading.set(true);
 
-    this.photoService
-      .getPhotos({
-        page: this.currentPage() + 1,
-        pageSize: this.pageSize(),
-      })
+    // Drop any response still in flight for an older filter
+    this.loadSubscription?.unsubscribe();
+    this.loadSubscription = this.photoService
+      .getPhotos(this.buildRequest())
       .subscribe({
         next: (result) => {
           this.photos.set(result.data);
@@ -548,6 +1096,70 @@ export class PhotosComponent implements OnInit {
     }
   }
 
+  /**
+   * Toggles a photo, or with shift held selects every photo between it and
+   * the previously clicked photo among the given photos, which default to
+   * the current page.
+   */
+  onPhotoClick(
+    id: number,
+    event: { shiftKey: boolean },
+    ids = this.photos().map((p) => p.id),
+  ): void {
+    const anchorIndex =
+      this.selectionAnchor === null ? -1 : ids.indexOf(this.selectionAnchor);
+
+    if (event.shiftKey && anchorIndex !== -1) {
+      const index = ids.indexOf(id);
+      const range = ids.slice(
+        Math.min(anchorIndex, index),
+        Math.max(anchorIndex, index) + 1,
+      );
+      this.selectedPhotos.update((selected) => [
+        ...new Set([...selected, ...range]),
+      ]);
+      return;
+    }
+
+    this.toggleSelection(id);
+    this.selectionAnchor = id;
+  }
+
+  toggleSelectPage(): void {
+    const pageIds = this.photos().map((p) => p.id);
+    if (this.allOnPageSelected()) {
+      this.selectedPhotos.update((selected) =>
+        selected.filter((id) => !pageIds.includes(id)),
+      );
+    } else {
+      this.selectedPhotos.update((selected) => [
+        ...new Set([...selected, ...pageIds]),
+      ]);
+    }
+  }
+
+  clearSelection(): void {
+    this.selectedPhotos.set([]);
+    this.selectionAnchor = null;
+  }
+
+  openBulkDialog(action: BulkAction): void {
+    const dialogRef = this.dialog.open(BulkAssignDialogComponent, {
+      width: "480px",
+      data: { action, photoIds: this.selectedPhotos() },
+    });
+
+    dialogRef.afterClosed().subscribe((result) => {
+      if (!result) return;
+
+      // Keep the selection after failures so the rest can be retried
+      if (result.failedCount === 0) {
+        this.clearSelection();
+      }
+      this.loadPhotos();
+    });
+  }
+
   deleteSelected(): void {
     const ids = this.selectedPhotos();
     if (ids.length === 0) return;
@@ -558,7 +1170,7 @@ export class PhotosComponent implements OnInit {
           this.snackBar.open(`Deleted ${ids.length} photo(s)`, "Close", {
             duration: 3000,
           });
-          this.selectedPhotos.set([]);
+          this.clearSelection();
           this.loadPhotos();
         },
         error: (error) => {
@@ -599,7 +1211,7 @@ export class PhotosComponent implements OnInit {
             { duration: 3000 },
           );
         }
-        this.selectedPhotos.set([]);
+        this.clearSelection();
         this.loadPhotos();
       },
       error: (error) => {
@@ -622,9 +1234,7 @@ export class PhotosComponent implements OnInit {
   }
 
   onPageChange(event: PageEvent): void {
-    this.currentPage.set(event.pageIndex);
-    this.pageSize.set(event.pageSize);
-    this.loadPhotos();
+    this.navigate(this.filters(), event.pageIndex + 1, event.pageSize);
   }
 
   onFilesSelected(event: Event): void {
@@ -663,45 +1273,7 @@ export class PhotosComponent implements OnInit {
     }
   }
 
-  private async uploadFiles(files: File[]): Promise<void> {
-    const queue: UploadProgress[] = files.map((file) => ({
-      file,
-      progress: 0,
-      status: "pending" as const,
-    }));
-
-    this.uploadQueue.set(queue);
-
-    for (let i = 0; i < queue.length; i++) {
-      queue[i].status = "uploading";
-      this.uploadQueue.set([...queue]);
-
-      try {
-        await this.uploadFile(queue[i]);
-        queue[i].status = "success";
-        queue[i].progress = 100;
-      } catch (error) {
-        queue[i].status = "error";
-        queue[i].error =
-          error instanceof Error ? error.message : "Upload failed";
-      }
-
-      this.uploadQueue.set([...queue]);
-    }
-
-    // Reload photos after upload
-    setTimeout(() => {
-      this.uploadQueue.set([]);
-      this.loadPhotos();
-    }, 2000);
-  }
-
-  private uploadFile(upload: UploadProgress): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.storageService.uploadFile(upload.file).subscribe({
-        next: () => resolve(),
-        error: (error) => reject(error),
-      });
-    });
+  private uploadFiles(files: File[]): void {
+    this.uploadManager.enqueue(files);
   }
 }
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { HEADER_HEIGHTS, findRowAt, layoutTimeline } from "./timeline-layout";
+
+const days = [
+  { date: "2025-06-02T00:00:00", count: 5 },
+  { date: "2025-06-01T00:00:00", count: 1 },
+  { date: "2025-05-20T00:00:00", count: 2 },
+  { date: "2024-12-31T00:00:00", count: 3 },
+];
+
+describe("layoutTimeline", () => {
+  it("adds year, month and day headers before each day's photos", () => {
+    const layout = layoutTimeline(days, 3, 100);
+
+    expect(layout.rows.map((row) => `${row.kind}:${row.date}`)).toEqual([
+      "year:2025-06-02",
+      "month:2025-06-02",
+      "day:2025-06-02",
+      "photos:2025-06-02",
+      "photos:2025-06-02",
+      "day:2025-06-01",
+      "photos:2025-06-01",
+      "month:2025-05-20",
+      "day:2025-05-20",
+      "photos:2025-05-20",
+      "year:2024-12-31",
+      "month:2024-12-31",
+      "day:2024-12-31",
+      "photos:2024-12-31",
+    ]);
+    expect(layout.years).toEqual([
+      { year: 2025, row: 0 },
+      { year: 2024, row: 10 },
+    ]);
+  });
+
+  it("splits each day into rows of photo indexes", () => {
+    const layout = layoutTimeline(days, 3, 100);
+    const photoRows = layout.rows.filter((row) => row.kind === "photos");
+
+    expect(photoRows.map((row) => row.indexes)).toEqual([
+      [0, 1, 2],
+      [3, 4],
+      [5],
+      [6, 7],
+      [8, 9, 10],
+    ]);
+  });
+
+  it("stacks rows using the header and photo row heights", () => {
+    const layout = layoutTimeline(days.slice(0, 1), 3, 100);
+
+    expect(layout.rows.map((row) => row.offset)).toEqual([
+      0,
+      HEADER_HEIGHTS.year,
+      HEADER_HEIGHTS.year + HEADER_HEIGHTS.month,
+      HEADER_HEIGHTS.year + HEADER_HEIGHTS.month + HEADER_HEIGHTS.day,
+      HEADER_HEIGHTS.year + HEADER_HEIGHTS.month + HEADER_HEIGHTS.day + 100,
+    ]);
+    expect(layout.totalHeight).toBe(
+      HEADER_HEIGHTS.year + HEADER_HEIGHTS.month + HEADER_HEIGHTS.day + 200,
+    );
+  });
+});
+
+describe("findRowAt", () => {
+  it("returns the row containing the offset", () => {
+    const { rows } = layoutTimeline(days, 3, 100);
+
+    expect(findRowAt(rows, 0)).toBe(0);
+    expect(findRowAt(rows, HEADER_HEIGHTS.year - 1)).toBe(0);
+    expect(findRowAt(rows, HEADER_HEIGHTS.year)).toBe(1);
+    expect(findRowAt(rows, rows[6].offset + 50)).toBe(6);
+    expect(findRowAt(rows, 1_000_000)).toBe(rows.length - 1);
+    expect(findRowAt([], 100)).toBe(0);
+  });
+});
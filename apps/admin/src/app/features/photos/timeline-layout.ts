@@ -0,0 +1,147 @@
+import { TimelineDayDto } from "../../core/models";
+
+export type TimelineRowKind = "year" | "month" | "day" | "photos";
+
+/**
+ * One row of the timeline: a year, month or day header, or a row of photo
+ * tiles. Rows carry their own position so the scroll strategy can map an
+ * offset to a row without measuring the DOM.
+ */
+export interface TimelineRow {
+  kind: TimelineRowKind;
+  /** Calendar day the row belongs to, as "YYYY-MM-DD". */
+  date: string;
+  label: string;
+  /** Indexes of the photos in this row, in library order (photo rows only). */
+  indexes: number[];
+  offset: number;
+  height: number;
+}
+
+export interface TimelineLayout {
+  rows: TimelineRow[];
+  totalHeight: number;
+  /** Index of each year's header row, newest year first. */
+  years: { year: number; row: number }[];
+}
+
+type HeaderKind = Exclude<TimelineRowKind, "photos">;
+
+export const HEADER_HEIGHTS: Record<HeaderKind, number> = {
+  year: 56,
+  month: 44,
+  day: 32,
+};
+
+export const EMPTY_LAYOUT: TimelineLayout = {
+  rows: [],
+  totalHeight: 0,
+  years: [],
+};
+
+function toLocalDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Formats a "YYYY-MM-DD" date for a header of the given kind.
+ */
+export function formatTimelineLabel(
+  kind: TimelineRowKind,
+  date: string,
+): string {
+  switch (kind) {
+    case "year":
+      return date.slice(0, 4);
+    case "month":
+      return toLocalDate(date).toLocaleDateString(undefined, {
+        month: "long",
+        year: "numeric",
+      });
+    case "day":
+      return toLocalDate(date).toLocaleDateString(undefined, {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+      });
+    default:
+      return "";
+  }
+}
+
+/**
+ * Lays out the timeline for the given day counts. Days must be newest first,
+ * matching the order photos are fetched in, so that the photos of each day
+ * occupy a contiguous range of indexes.
+ */
+export function layoutTimeline(
+  days: TimelineDayDto[],
+  columns: number,
+  photoRowHeight: number,
+): TimelineLayout {
+  const rows: TimelineRow[] = [];
+  const years: TimelineLayout["years"] = [];
+  let offset = 0;
+  let index = 0;
+  let previous: string | null = null;
+
+  const push = (kind: TimelineRowKind, date: string, indexes: number[]) => {
+    const height = kind === "photos" ? photoRowHeight : HEADER_HEIGHTS[kind];
+    rows.push({
+      kind,
+      date,
+      label: formatTimelineLabel(kind, date),
+      indexes,
+      offset,
+      height,
+    });
+    offset += height;
+  };
+
+  for (const day of days) {
+    // The API returns midnight timestamps; only the calendar date matters
+    const date = day.date.slice(0, 10);
+
+    if (previous?.slice(0, 4) !== date.slice(0, 4)) {
+      years.push({ year: Number(date.slice(0, 4)), row: rows.length });
+      push("year", date, []);
+    }
+    if (previous?.slice(0, 7) !== date.slice(0, 7)) {
+      push("month", date, []);
+    }
+    push("day", date, []);
+    previous = date;
+
+    for (let start = 0; start < day.count; start += columns) {
+      const count = Math.min(columns, day.count - start);
+      push(
+        "photos",
+        date,
+        Array.from({ length: count }, (_, i) => index + start + i),
+      );
+    }
+    index += day.count;
+  }
+
+  return { rows, totalHeight: offset, years };
+}
+
+/**
+ * Finds the row that contains the given scroll offset.
+ */
+export function findRowAt(rows: TimelineRow[], offset: number): number {
+  let low = 0;
+  let high = rows.length - 1;
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (rows[mid].offset <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return Math.max(0, low);
+}
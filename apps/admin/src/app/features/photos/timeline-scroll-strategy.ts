@@ -0,0 +1,90 @@
+import { Injectable } from "@angular/core";
+import { ListRange } from "@angular/cdk/collections";
+import {
+  CdkVirtualScrollViewport,
+  VirtualScrollStrategy,
+} from "@angular/cdk/scrolling";
+import { Subject, distinctUntilChanged } from "rxjs";
+import { EMPTY_LAYOUT, TimelineLayout, findRowAt } from "./timeline-layout";
+
+/** Extra content rendered above and below the viewport, in pixels. */
+const BUFFER_PX = 600;
+
+/**
+ * Virtual scroll strategy for timeline rows of mixed heights. Row positions
+ * come from the precomputed layout, so nothing is measured in the DOM.
+ */
+@Injectable()
+export class TimelineScrollStrategy implements VirtualScrollStrategy {
+  private readonly scrolledIndex$ = new Subject<number>();
+  private readonly renderedRange$ = new Subject<ListRange>();
+  private viewport: CdkVirtualScrollViewport | null = null;
+  private layout: TimelineLayout = EMPTY_LAYOUT;
+
+  /** Emits the index of the row at the top of the viewport. */
+  readonly scrolledIndexChange = this.scrolledIndex$.pipe(
+    distinctUntilChanged(),
+  );
+
+  /** Emits the range of rows rendered, including the buffer. */
+  readonly renderedRangeChange = this.renderedRange$.asObservable();
+
+  attach(viewport: CdkVirtualScrollViewport): void {
+    this.viewport = viewport;
+    this.update();
+  }
+
+  detach(): void {
+    this.viewport = null;
+  }
+
+  setLayout(layout: TimelineLayout): void {
+    this.layout = layout;
+    this.update();
+  }
+
+  onContentScrolled(): void {
+    this.updateRenderedRange();
+  }
+
+  onDataLengthChanged(): void {
+    this.updateRenderedRange();
+  }
+
+  onContentRendered(): void {
+    // Row sizes are known up front, so there is nothing to measure
+  }
+
+  onRenderedOffsetChanged(): void {
+    // Row sizes are known up front, so there is nothing to measure
+  }
+
+  scrollToIndex(index: number, behavior: ScrollBehavior): void {
+    const row = this.layout.rows[index];
+    if (row) {
+      this.viewport?.scrollToOffset(row.offset, behavior);
+    }
+  }
+
+  private update(): void {
+    this.viewport?.setTotalContentSize(this.layout.totalHeight);
+    this.updateRenderedRange();
+  }
+
+  private updateRenderedRange(): void {
+    if (!this.viewport) return;
+
+    const rows = this.layout.rows;
+    const offset = this.viewport.measureScrollOffset();
+    const size = this.viewport.getViewportSize();
+    const start = findRowAt(rows, Math.max(0, offset - BUFFER_PX));
+    const end = rows.length
+      ? findRowAt(rows, offset + size + BUFFER_PX) + 1
+      : 0;
+
+    this.viewport.setRenderedRange({ start, end });
+    this.viewport.setRenderedContentOffset(rows[start]?.offset ?? 0);
+    this.renderedRange$.next({ start, end });
+    this.scrolledIndex$.next(findRowAt(rows, offset));
+  }
+}
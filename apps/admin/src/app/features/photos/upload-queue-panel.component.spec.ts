@@ -0,0 +1,94 @@
+import { TestBed } from "@angular/core/testing";
+import { Subject, of } from "rxjs";
+import { describe, it, expect, vi } from "vitest";
+import { UploadQueuePanelComponent } from "./upload-queue-panel.component";
+import { StorageService } from "../../core/services/storage.service";
+import { UploadManagerService } from "../../core/services/upload-manager.service";
+import { FileHashService } from "../../core/services/file-hash.service";
+
+function setup(existingHashes: string[] = []) {
+  const uploads = new Subject<unknown>();
+  const storageServiceStub = {
+    uploadFileWithProgress: vi.fn(() => uploads),
+    cancelUploadSession: vi.fn(() => of(undefined)),
+    checkDuplicates: vi.fn(() => of({ existingHashes })),
+  } as Partial<StorageService>;
+
+  TestBed.configureTestingModule({
+    imports: [UploadQueuePanelComponent],
+    providers: [
+      { provide: StorageService, useValue: storageServiceStub },
+      {
+        provide: FileHashService,
+        useValue: { hash: (file: File) => of(`hash-${file.name}`) },
+      },
+    ],
+  });
+
+  const fixture = TestBed.createComponent(UploadQueuePanelComponent);
+  const manager = TestBed.inject(UploadManagerService);
+  fixture.detectChanges();
+
+  return { fixture, manager, uploads };
+}
+
+describe("UploadQueuePanelComponent", () => {
+  it("stays hidden while the queue is empty", () => {
+    const { fixture } = setup();
+
+    expect(
+      fixture.nativeElement.querySelector('[data-testid="upload-queue"]'),
+    ).toBeNull();
+  });
+
+  it("lists queued files and cancels one", () => {
+    const { fixture, manager } = setup();
+    manager.enqueue([new File(["data"], "beach.jpg")]);
+    fixture.detectChanges();
+
+    const items = fixture.nativeElement.querySelectorAll(
+      '[data-testid="upload-item"]',
+    );
+    expect(items.length).toBe(1);
+    expect(items[0].textContent).toContain("beach.jpg");
+    expect(fixture.componentInstance.title()).toBe("Uploading: 0 of 1 done");
+
+    const cancel: HTMLButtonElement = items[0].querySelector(
+      'button[aria-label="Cancel upload"]',
+    );
+    cancel.click();
+    fixture.detectChanges();
+
+    expect(manager.items()[0].status).toBe("cancelled");
+    expect(fixture.nativeElement.textContent).toContain("Cancelled");
+    expect(
+      fixture.nativeElement.querySelector('button[aria-label="Retry upload"]'),
+    ).toBeTruthy();
+  });
+
+  it("asks what to do with files already in the library", () => {
+    const { fixture, manager } = setup(["hash-beach.jpg"]);
+    manager.enqueue([new File(["data"], "beach.jpg")]);
+    fixture.detectChanges();
+
+    const prompt: HTMLElement = fixture.nativeElement.querySelector(
+      '[data-testid="duplicate-prompt"]',
+    );
+    expect(prompt.textContent).toContain("1 file is already in your library");
+    expect(fixture.componentInstance.title()).toBe(
+      "Waiting for your choice (1)",
+    );
+
+    const skip = Array.from(prompt.querySelectorAll("button")).find((button) =>
+      button.textContent?.includes("Skip"),
+    ) as HTMLButtonElement;
+    skip.click();
+    fixture.detectChanges();
+
+    expect(manager.items()[0].status).toBe("skipped");
+    expect(
+      fixture.nativeElement.querySelector('[data-testid="duplicate-prompt"]'),
+    ).toBeNull();
+    expect(fixture.nativeElement.textContent).toContain("Skipped");
+  });
+});
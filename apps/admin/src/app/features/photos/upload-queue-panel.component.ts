@@ -0,0 +1,337 @@
+import { Component, computed, inject, signal } from "@angular/core";
+import { MatCardModule } from "@angular/material/card";
+import { MatButtonModule } from "@angular/material/button";
+import { MatIconModule } from "@angular/material/icon";
+import { MatProgressBarModule } from "@angular/material/progress-bar";
+import { MatSelectModule } from "@angular/material/select";
+import { MatTooltipModule } from "@angular/material/tooltip";
+import {
+  MAX_UPLOAD_CONCURRENCY,
+  UploadItem,
+  UploadManagerService,
+} from "../../core/services/upload-manager.service";
+
+/**
+ * Floating panel showing the upload queue. Rendered by the app shell so
+ * uploads stay visible while moving between admin pages.
+ */
+@Component({
+  selector: "app-upload-queue-panel",
+  standalone: true,
+  imports: [
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressBarModule,
+    MatSelectModule,
+    MatTooltipModule,
+  ],
+  template: `
+    @if (uploads.items().length > 0) {
+      <mat-card class="upload-panel" data-testid="upload-queue">
+        <div class="panel-header">
+          <span class="title">{{ title() }}</span>
+          <button
+            mat-icon-button
+            (click)="collapsed.set(!collapsed())"
+            [attr.aria-label]="
+              collapsed() ? 'Expand uploads' : 'Collapse uploads'
+            "
+          >
+            <mat-icon>{{
+              collapsed() ? "expand_less" : "expand_more"
+            }}</mat-icon>
+          </button>
+        </div>
+        <mat-progress-bar
+          mode="determinate"
+          [value]="uploads.progress()"
+        ></mat-progress-bar>
+
+        @for (batch of uploads.duplicateBatches(); track batch.batchId) {
+          <div class="duplicate-prompt" data-testid="duplicate-prompt">
+            <span>
+              {{ batch.items.length }}
+              {{ batch.items.length === 1 ? "file is" : "files are" }} already
+              in your library
+            </span>
+            <div class="duplicate-actions">
+              <button
+                mat-button
+                (click)="uploads.resolveDuplicates(batch.batchId, 'skip')"
+              >
+                Skip
+              </button>
+              <button
+                mat-button
+                (click)="uploads.resolveDuplicates(batch.batchId, 'overwrite')"
+                matTooltip="Replace the existing photos, keeping their albums and tags"
+              >
+                Overwrite
+              </button>
+              <button
+                mat-button
+                (click)="uploads.resolveDuplicates(batch.batchId, 'keep')"
+              >
+                Keep Both
+              </button>
+            </div>
+          </div>
+        }
+
+        @if (!collapsed()) {
+          <div class="panel-toolbar">
+            <mat-select
+              class="concurrency"
+              [value]="uploads.concurrency()"
+              (selectionChange)="uploads.setConcurrency($event.value)"
+              aria-label="Parallel uploads"
+              matTooltip="Files uploaded at the same time"
+            >
+              @for (option of concurrencyOptions; track option) {
+                <mat-option [value]="option">{{ option }} at a time</mat-option>
+              }
+            </mat-select>
+            <span class="spacer"></span>
+            @if (uploads.activeCount() > 0) {
+              <button mat-button (click)="uploads.cancelAll()">
+                Cancel All
+              </button>
+            }
+            @if (finishedCount() > 0) {
+              <button mat-button (click)="uploads.clearFinished()">
+                Clear
+              </button>
+            }
+          </div>
+
+          <div class="upload-list">
+            @for (upload of uploads.items(); track upload.id) {
+              <div class="upload-item" data-testid="upload-item">
+                <div class="upload-info">
+                  <span class="filename">{{ upload.file.name }}</span>
+                  <span class="status" [class]="upload.status">
+                    @switch (upload.status) {
+                      @case ("hashing") {
+                        Checking...
+                      }
+                      @case ("duplicate") {
+                        Already in library
+                      }
+                      @case ("queued") {
+                        Waiting...
+                      }
+                      @case ("uploading") {
+                        {{ percent(upload) }}%
+                      }
+                      @case ("processing") {
+                        Processing...
+                      }
+                      @case ("retrying") {
+                        Retrying...
+                      }
+                      @case ("success") {
+                        Complete
+                      }
+                      @case ("error") {
+                        Failed: {{ upload.error }}
+                      }
+                      @case ("cancelled") {
+                        Cancelled
+                      }
+                      @case ("skipped") {
+                        Skipped
+                      }
+                    }
+                  </span>
+                  @if (
+                    upload.status === "error" ||
+                    upload.status === "cancelled" ||
+                    upload.status === "skipped"
+                  ) {
+                    <button
+                      mat-icon-button
+                      class="item-action"
+                      (click)="uploads.retry(upload.id)"
+                      aria-label="Retry upload"
+                    >
+                      <mat-icon>refresh</mat-icon>
+                    </button>
+                  } @else if (upload.status !== "success") {
+                    <button
+                      mat-icon-button
+                      class="item-action"
+                      (click)="uploads.cancel(upload.id)"
+                      aria-label="Cancel upload"
+                    >
+                      <mat-icon>close</mat-icon>
+                    </button>
+                  }
+                </div>
+                <mat-progress-bar
+                  [mode]="
+                    upload.status === 'processing'
+                      ? 'indeterminate'
+                      : 'determinate'
+                  "
+                  [value]="percent(upload)"
+                  [color]="upload.status === 'error' ? 'warn' : 'primary'"
+                >
+                </mat-progress-bar>
+              </div>
+            }
+          </div>
+        }
+      </mat-card>
+    }
+  `,
+  styles: [
+    `
+      .upload-panel {
+        position: fixed;
+        right: 24px;
+        bottom: 24px;
+        width: 360px;
+        max-width: calc(100vw - 48px);
+        z-index: 1000;
+        overflow: hidden;
+      }
+
+      .panel-header {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        padding: 4px 4px 4px 16px;
+      }
+
+      .title {
+        font-weight: 500;
+      }
+
+      .duplicate-prompt {
+        margin: 8px 16px 0;
+        padding: 8px 12px;
+        border-radius: 4px;
+        background: rgba(255, 152, 0, 0.12);
+        font-size: 13px;
+      }
+
+      .duplicate-actions {
+        display: flex;
+        justify-content: flex-end;
+        margin-top: 4px;
+      }
+
+      .panel-toolbar {
+        display: flex;
+        align-items: center;
+        padding: 8px 8px 0 16px;
+      }
+
+      .concurrency {
+        width: 120px;
+        font-size: 13px;
+      }
+
+      .spacer {
+        flex: 1 1 auto;
+      }
+
+      .upload-list {
+        max-height: 320px;
+        overflow-y: auto;
+        padding: 0 16px 12px;
+      }
+
+      .upload-item {
+        margin: 12px 0;
+      }
+
+      .upload-info {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin-bottom: 4px;
+      }
+
+      .filename {
+        flex: 1;
+        font-weight: 500;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+
+      .status {
+        font-size: 12px;
+        white-space: nowrap;
+        max-width: 140px;
+        overflow: hidden;
+        text-overflow: ellipsis;
+      }
+
+      .status.success {
+        color: #4caf50;
+      }
+      .status.error {
+        color: #f44336;
+      }
+      .status.uploading,
+      .status.processing {
+        color: #2196f3;
+      }
+      .status.duplicate {
+        color: #ff9800;
+      }
+
+      .item-action {
+        width: 32px;
+        height: 32px;
+        padding: 4px;
+      }
+    `,
+  ],
+})
+export class UploadQueuePanelComponent {
+  readonly uploads = inject(UploadManagerService);
+
+  readonly concurrencyOptions = Array.from(
+    { length: MAX_UPLOAD_CONCURRENCY },
+    (_, index) => index + 1,
+  );
+
+  collapsed = signal(false);
+
+  duplicateCount = computed(
+    () =>
+      this.uploads.items().filter((upload) => upload.status === "duplicate")
+        .length,
+  );
+
+  finishedCount = computed(
+    () =>
+      this.uploads.items().length -
+      this.uploads.activeCount() -
+      this.duplicateCount(),
+  );
+
+  title = computed(() => {
+    const total = this.uploads.items().length;
+    const active = this.uploads.activeCount();
+    if (active > 0) {
+      return `Uploading: ${total - active} of ${total} done`;
+    }
+    return this.duplicateCount() > 0
+      ? `Waiting for your choice (${this.duplicateCount()})`
+      : `Uploads finished (${total})`;
+  });
+
+  percent(upload: UploadItem): number {
+    if (upload.status === "success") {
+      return 100;
+    }
+    return upload.file.size > 0
+      ? Math.round((upload.loaded / upload.file.size) * 100)
+      : 0;
+  }
+}
@@ -0,0 +1,95 @@
+import { TestBed } from "@angular/core/testing";
+import { of } from "rxjs";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { MatSnackBar } from "@angular/material/snack-bar";
+import { RemoteComponent } from "./remote.component";
+import { DisplayRemoteService } from "../../core/services/display-remote.service";
+import { DisplayStatusDto, MediaType } from "../../core/models";
+
+describe("RemoteComponent", () => {
+  const status: DisplayStatusDto = {
+    currentPhoto: {
+      id: 7,
+      url: "/api/media/photos/7",
+      thumbnailUrl: null,
+      dateTaken: "2019-06-03T12:00:00Z",
+      location: "Lisbon, Portugal",
+      mediaType: MediaType.Photo,
+      duration: null,
+      width: 1920,
+      height: 1080,
+    },
+    isPaused: false,
+    settingsId: 1,
+    isConnected: true,
+    reportedAt: "2026-10-19T12:00:00Z",
+  };
+
+  function setup(remoteStatus: DisplayStatusDto, displayCount = 1) {
+    const remoteServiceStub = {
+      getStatus: vi.fn(() => of(remoteStatus)),
+      next: vi.fn(() => of({ displayCount })),
+      previous: vi.fn(() => of({ displayCount })),
+      pause: vi.fn(() => of({ displayCount })),
+      resume: vi.fn(() => of({ displayCount })),
+    } as Partial<DisplayRemoteService>;
+
+    TestBed.configureTestingModule({
+      imports: [RemoteComponent],
+      providers: [
+        { provide: DisplayRemoteService, useValue: remoteServiceStub },
+      ],
+    });
+
+    const fixture = TestBed.createComponent(RemoteComponent);
+    fixture.detectChanges();
+    const openSpy = vi
+      .spyOn(fixture.debugElement.injector.get(MatSnackBar), "open")
+      .mockReturnValue({} as never);
+    return { fixture, remoteServiceStub, openSpy };
+  }
+
+  afterEach(() => {
+    TestBed.resetTestingModule();
+  });
+
+  it("shows a preview of the photo on screen", () => {
+    const { fixture, remoteServiceStub } = setup(status);
+
+    expect(remoteServiceStub.getStatus).toHaveBeenCalled();
+    const img = fixture.nativeElement.querySelector(
+      ".preview img",
+    ) as HTMLImageElement;
+    expect(img.getAttribute("src")).toBe("/api/media/thumbnails/7");
+    expect(fixture.nativeElement.textContent).toContain("Lisbon, Portugal");
+    expect(fixture.nativeElement.textContent).toContain("Display connected");
+  });
+
+  it("offers resume while paused and sends commands", () => {
+    const { fixture, remoteServiceStub } = setup({ ...status, isPaused: true });
+
+    expect(fixture.nativeElement.textContent).toContain("Paused");
+    fixture.componentInstance.resume();
+    fixture.componentInstance.next();
+    fixture.componentInstance.previous();
+
+    expect(remoteServiceStub.resume).toHaveBeenCalled();
+    expect(remoteServiceStub.next).toHaveBeenCalled();
+    expect(remoteServiceStub.previous).toHaveBeenCalled();
+  });
+
+  it("warns when no display received the command", () => {
+    const { fixture, openSpy } = setup(
+      { ...status, isConnected: false },
+      0,
+    );
+
+    fixture.componentInstance.pause();
+
+    expect(openSpy).toHaveBeenCalledWith(
+      "No display is connected",
+      "Close",
+      { duration: 3000 },
+    );
+  });
+});
@@ -0,0 +1,341 @@
+import { Component, inject, signal, OnInit, OnDestroy } from "@angular/core";
+import { CommonModule } from "@angular/common";
+import { MatCardModule } from "@angular/material/card";
+import { MatButtonModule } from "@angular/material/button";
+import { MatIconModule } from "@angular/material/icon";
+import { MatProgressSpinnerModule } from "@angular/material/progress-spinner";
+import { MatSnackBar, MatSnackBarModule } from "@angular/material/snack-bar";
+import { MatTooltipModule } from "@angular/material/tooltip";
+import { Observable, Subject, interval, takeUntil } from "rxjs";
+import { DisplayRemoteService } from "../../core/services/display-remote.service";
+import {
+  DisplayStatusDto,
+  MediaType,
+  RemoteCommandResponse,
+} from "../../core/models";
+
+/** How often the live preview refreshes (ms). */
+const STATUS_REFRESH_INTERVAL = 3000;
+
+@Component({
+  selector: "app-remote",
+  standalone: true,
+  imports: [
+    CommonModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    MatSnackBarModule,
+    MatTooltipModule,
+  ],
+  template: `
+    <div class="remote-container">
+      <div class="header">
+        <h1>Remote</h1>
+        @if (status(); as s) {
+          <span class="connection" [class.online]="s.isConnected">
+            <mat-icon>{{ s.isConnected ? "cast_connected" : "cast" }}</mat-icon>
+            {{ s.isConnected ? "Display connected" : "No display connected" }}
+          </span>
+        }
+      </div>
+
+      @if (isLoading()) {
+        <div class="loading">
+          <mat-spinner diameter="40"></mat-spinner>
+        </div>
+      } @else {
+        <mat-card>
+          <div class="preview">
+            @if (status()?.currentPhoto; as photo) {
+              <img
+                [src]="getPreviewUrl(photo.id)"
+                [alt]="'Photo ' + photo.id"
+              />
+              @if (photo.mediaType === MediaType.Video) {
+                <mat-icon class="video-badge">videocam</mat-icon>
+              }
+              @if (status()?.isPaused) {
+                <span class="paused-badge">
+                  <mat-icon>pause</mat-icon>
+                  Paused
+                </span>
+              }
+            } @else {
+              <div class="empty-preview">
+                <mat-icon>tv_off</mat-icon>
+                <p>Nothing on screen yet</p>
+              </div>
+            }
+          </div>
+
+          @if (status()?.currentPhoto; as photo) {
+            <mat-card-content class="details">
+              @if (photo.dateTaken) {
+                <span>
+                  <mat-icon>event</mat-icon>
+                  {{ photo.dateTaken | date: "mediumDate" }}
+                </span>
+              }
+              @if (photo.location) {
+                <span>
+                  <mat-icon>place</mat-icon>
+                  {{ photo.location }}
+                </span>
+              }
+            </mat-card-content>
+          }
+
+          <mat-card-actions class="controls">
+            <button
+              mat-icon-button
+              matTooltip="Previous"
+              [disabled]="isSending()"
+              (click)="previous()"
+            >
+              <mat-icon>skip_previous</mat-icon>
+            </button>
+            @if (status()?.isPaused) {
+              <button
+                mat-fab
+                color="primary"
+                matTooltip="Resume"
+                [disabled]="isSending()"
+                (click)="resume()"
+              >
+                <mat-icon>play_arrow</mat-icon>
+              </button>
+            } @else {
+              <button
+                mat-fab
+                color="primary"
+                matTooltip="Pause"
+                [disabled]="isSending()"
+                (click)="pause()"
+              >
+                <mat-icon>pause</mat-icon>
+              </button>
+            }
+            <button
+              mat-icon-button
+              matTooltip="Next"
+              [disabled]="isSending()"
+              (click)="next()"
+            >
+              <mat-icon>skip_next</mat-icon>
+            </button>
+          </mat-card-actions>
+        </mat-card>
+        <p class="hint">
+          Use "Show on display" in a photo's details to put it on screen now.
+        </p>
+      }
+    </div>
+  `,
+  styles: [
+    `
+      .remote-container {
+        padding: 24px;
+        max-width: 700px;
+      }
+
+      .header {
+        display: flex;
+        align-items: center;
+        gap: 16px;
+        margin-bottom: 24px;
+      }
+
+      .connection {
+        display: inline-flex;
+        align-items: center;
+        gap: 6px;
+        padding: 4px 12px;
+        border-radius: 16px;
+        font-size: 13px;
+        background-color: rgba(0, 0, 0, 0.08);
+        color: rgba(0, 0, 0, 0.6);
+      }
+
+      .connection.online {
+        background-color: #4caf50;
+        color: white;
+      }
+
+      .connection mat-icon {
+        font-size: 18px;
+        width: 18px;
+        height: 18px;
+      }
+
+      .loading {
+        display: flex;
+        justify-content: center;
+        padding: 48px;
+      }
+
+      .preview {
+        position: relative;
+        aspect-ratio: 16 / 9;
+        background-color: #000;
+        border-radius: 4px 4px 0 0;
+        overflow: hidden;
+      }
+
+      .preview img {
+        width: 100%;
+        height: 100%;
+        object-fit: contain;
+      }
+
+      .empty-preview {
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        justify-content: center;
+        height: 100%;
+        color: rgba(255, 255, 255, 0.6);
+      }
+
+      .empty-preview mat-icon {
+        font-size: 48px;
+        width: 48px;
+        height: 48px;
+      }
+
+      .video-badge,
+      .paused-badge {
+        position: absolute;
+        top: 12px;
+        color: white;
+        background-color: rgba(0, 0, 0, 0.6);
+        border-radius: 16px;
+      }
+
+      .video-badge {
+        left: 12px;
+        padding: 4px;
+      }
+
+      .paused-badge {
+        right: 12px;
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+        padding: 4px 12px 4px 8px;
+        font-size: 13px;
+      }
+
+      .details {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 16px;
+        padding-top: 16px;
+        color: rgba(0, 0, 0, 0.6);
+      }
+
+      .details span {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+      }
+
+      .details mat-icon {
+        font-size: 18px;
+        width: 18px;
+        height: 18px;
+      }
+
+      .controls {
+        display: flex;
+        justify-content: center;
+        align-items: center;
+        gap: 24px;
+        padding: 16px;
+      }
+
+      .hint {
+        font-size: 12px;
+        color: rgba(0, 0, 0, 0.54);
+      }
+    `,
+  ],
+})
+export class RemoteComponent implements OnInit, OnDestroy {
+  private readonly remoteService = inject(DisplayRemoteService);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly destroy$ = new Subject<void>();
+
+  readonly MediaType = MediaType;
+
+  status = signal<DisplayStatusDto | null>(null);
+  isLoading = signal(true);
+  isSending = signal(false);
+
+  ngOnInit(): void {
+    this.refreshStatus();
+    interval(STATUS_REFRESH_INTERVAL)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.refreshStatus());
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  next(): void {
+    this.send(this.remoteService.next());
+  }
+
+  previous(): void {
+    this.send(this.remoteService.previous());
+  }
+
+  pause(): void {
+    this.send(this.remoteService.pause());
+  }
+
+  resume(): void {
+    this.send(this.remoteService.resume());
+  }
+
+  getPreviewUrl(photoId: number): string {
+    return `/api/media/thumbnails/${photoId}`;
+  }
+
+  private refreshStatus(): void {
+    this.remoteService.getStatus().subscribe({
+      next: (status) => {
+        this.status.set(status);
+        this.isLoading.set(false);
+      },
+      error: (error) => {
+        console.error("Failed to load display status:", error);
+        this.isLoading.set(false);
+      },
+    });
+  }
+
+  private send(command: Observable<RemoteCommandResponse>): void {
+    this.isSending.set(true);
+    command.subscribe({
+      next: (result) => {
+        this.isSending.set(false);
+        if (result.displayCount === 0) {
+          this.snackBar.open("No display is connected", "Close", {
+            duration: 3000,
+          });
+        }
+      },
+      error: (error) => {
+        console.error("Failed to send remote command:", error);
+        this.isSending.set(false);
+        this.snackBar.open("Failed to send command to the display", "Close", {
+          duration: 3000,
+        });
+      },
+    });
+  }
+}
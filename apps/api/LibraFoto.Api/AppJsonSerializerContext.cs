@@ -32,6 +32,25 @@ namespace LibraFoto.Api
     [JsonSerializable(typeof(DisplaySettingsDto))]
     [JsonSerializable(typeof(DisplaySettingsDto[]))]
     [JsonSerializable(typeof(IReadOnlyList<DisplaySettingsDto>))]
+    [JsonSerializable(typeof(PlaylistSourceDto))]
+    [JsonSerializable(typeof(DisplayEvent))]
+    [JsonSerializable(typeof(RemoteCommandType))]
+    [JsonSerializable(typeof(RemoteCommandRequest))]
+    [JsonSerializable(typeof(RemoteCommandResponse))]
+    [JsonSerializable(typeof(DisplayStatusReport))]
+    [JsonSerializable(typeof(DisplayStatusDto))]
+    [JsonSerializable(typeof(DisplayDeviceDto))]
+    [JsonSerializable(typeof(IReadOnlyList<DisplayDeviceDto>))]
+    [JsonSerializable(typeof(DeviceRegistrationRequest))]
+    [JsonSerializable(typeof(UpdateDisplayDeviceRequest))]
+    [JsonSerializable(typeof(DisplayHeartbeatRequest))]
+    [JsonSerializable(typeof(DisplayDeviceHealthDto))]
+    [JsonSerializable(typeof(IReadOnlyList<DisplayDeviceHealthDto>))]
+    [JsonSerializable(typeof(DisplayDeviceHealthStatus))]
+    [JsonSerializable(typeof(DisplayScheduleRuleDto))]
+    [JsonSerializable(typeof(IReadOnlyList<DisplayScheduleRuleDto>))]
+    [JsonSerializable(typeof(DisplayScheduleRuleRequest))]
+    [JsonSerializable(typeof(UpdateDisplayScheduleRequest))]
     [JsonSerializable(typeof(UpdateDisplaySettingsRequest))]
     [JsonSerializable(typeof(PhotoCountResponse))]
     [JsonSerializable(typeof(ResetResponse))]
@@ -39,6 +58,12 @@ namespace LibraFoto.Api
     [JsonSerializable(typeof(TransitionType))]
     [JsonSerializable(typeof(SourceType))]
     [JsonSerializable(typeof(MediaType))]
+    [JsonSerializable(typeof(OverlayPosition))]
+    [JsonSerializable(typeof(OverlaySize))]
+    [JsonSerializable(typeof(VideoPlayback))]
+    [JsonSerializable(typeof(VideoSegment))]
+    [JsonSerializable(typeof(CollageLayout))]
+    [JsonSerializable(typeof(QuietMode))]
     // Auth module DTOs
     [JsonSerializable(typeof(LoginRequest))]
     [JsonSerializable(typeof(LoginResponse))]
@@ -76,6 +101,15 @@ namespace LibraFoto.Api
     [JsonSerializable(typeof(UploadResult))]
     [JsonSerializable(typeof(BatchUploadResult))]
     [JsonSerializable(typeof(GuestUploadRequest))]
+    [JsonSerializable(typeof(CreateUploadSessionRequest))]
+    [JsonSerializable(typeof(UploadSessionDto))]
+    [JsonSerializable(typeof(DuplicateCheckRequest))]
+    [JsonSerializable(typeof(DuplicateCheckResult))]
+    [JsonSerializable(typeof(DuplicateGroupDto))]
+    [JsonSerializable(typeof(IReadOnlyList<DuplicateGroupDto>))]
+    [JsonSerializable(typeof(DuplicateScanResult))]
+    [JsonSerializable(typeof(ResolveDuplicatesRequest))]
+    [JsonSerializable(typeof(ResolveDuplicatesResult))]
     [JsonSerializable(typeof(ScannedFile))]
     [JsonSerializable(typeof(ScannedFile[]))]
     // Media module DTOs
@@ -87,12 +121,18 @@ namespace LibraFoto.Api
     [JsonSerializable(typeof(PhotoListDto[]))]
     [JsonSerializable(typeof(PagedResult<PhotoListDto>))]
     [JsonSerializable(typeof(PhotoCountDto))]
+    [JsonSerializable(typeof(TimelineDayDto))]
+    [JsonSerializable(typeof(IReadOnlyList<TimelineDayDto>))]
+    [JsonSerializable(typeof(PhotoLocationDto))]
+    [JsonSerializable(typeof(IReadOnlyList<PhotoLocationDto>))]
     [JsonSerializable(typeof(PhotoDetailDto))]
     [JsonSerializable(typeof(AlbumSummaryDto))]
     [JsonSerializable(typeof(AlbumSummaryDto[]))]
     [JsonSerializable(typeof(TagSummaryDto))]
     [JsonSerializable(typeof(TagSummaryDto[]))]
     [JsonSerializable(typeof(UpdatePhotoRequest))]
+    [JsonSerializable(typeof(PhotoEditsDto))]
+    [JsonSerializable(typeof(PhotoFocalPointDto))]
     [JsonSerializable(typeof(PhotoFilterRequest))]
     [JsonSerializable(typeof(BulkPhotoRequest))]
     [JsonSerializable(typeof(AddPhotosToAlbumRequest))]
@@ -0,0 +1,116 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace LibraFoto.Data.Entities
+{
+    /// <summary>
+    /// Represents a picture frame that has registered with the server.
+    /// Each device can be assigned its own display settings profile.
+    /// </summary>
+    public class DisplayDevice
+    {
+        /// <summary>
+        /// Primary key. SQLite INTEGER PRIMARY KEY for auto-increment.
+        /// </summary>
+        [Key]
+        [DatabaseGenerated(DatabaseGeneratedOption.Identity)]
+        public long Id { get; set; }
+
+        /// <summary>
+        /// Stable identifier generated by the display and kept in its local storage (unique).
+        /// </summary>
+        [Required]
+        [MaxLength(64)]
+        public string DeviceId { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Friendly name for the device (e.g., "Kitchen Frame").
+        /// </summary>
+        [Required]
+        [MaxLength(100)]
+        public string Name { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Assigned display settings profile. Null means the active profile is used.
+        /// </summary>
+        public long? DisplaySettingsId { get; set; }
+
+        /// <summary>
+        /// Photo the device reported as currently showing.
+        /// </summary>
+        public long? CurrentPhotoId { get; set; }
+
+        /// <summary>
+        /// Date the device first registered.
+        /// </summary>
+        public DateTime DateRegistered { get; set; } = DateTime.UtcNow;
+
+        /// <summary>
+        /// Last time the device registered or reported its status.
+        /// </summary>
+        public DateTime LastSeenAt { get; set; } = DateTime.UtcNow;
+
+        /// <summary>
+        /// Last time the device sent a health heartbeat.
+        /// </summary>
+        public DateTime? LastHeartbeatAt { get; set; }
+
+        /// <summary>
+        /// Seconds the display page had been running at the last heartbeat.
+        /// </summary>
+        public long? UptimeSeconds { get; set; }
+
+        /// <summary>
+        /// Last time the device successfully fetched photos from the API, as it reported.
+        /// </summary>
+        public DateTime? LastSuccessfulFetchAt { get; set; }
+
+        /// <summary>
+        /// Errors the display logged since its page was loaded.
+        /// </summary>
+        public int ErrorCount { get; set; }
+
+        /// <summary>
+        /// Bytes used by the display's offline media cache.
+        /// </summary>
+        public long? CacheUsageBytes { get; set; }
+
+        /// <summary>
+        /// Storage quota available to the display's browser, in bytes.
+        /// </summary>
+        public long? CacheQuotaBytes { get; set; }
+
+        /// <summary>
+        /// Screen width in pixels.
+        /// </summary>
+        public int? ScreenWidth { get; set; }
+
+        /// <summary>
+        /// Screen height in pixels.
+        /// </summary>
+        public int? ScreenHeight { get; set; }
+
+        /// <summary>
+        /// JavaScript heap in use, in bytes. Only reported by Chromium browsers.
+        /// </summary>
+        public long? JsHeapUsedBytes { get; set; }
+
+        /// <summary>
+        /// JavaScript heap size limit, in bytes. Only reported by Chromium browsers.
+        /// </summary>
+        public long? JsHeapLimitBytes { get; set; }
+
+        // Navigation properties
+
+        /// <summary>
+        /// The assigned display settings profile.
+        /// </summary>
+        [ForeignKey(nameof(DisplaySettingsId))]
+        public DisplaySettings? DisplaySettings { get; set; }
+
+        /// <summary>
+        /// Errors recently reported by the device.
+        /// </summary>
+        public ICollection<DisplayDeviceError> Errors { get; set; } = [];
+    }
+}
@@ -0,0 +1,50 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace LibraFoto.Data.Entities
+{
+    /// <summary>
+    /// An error logged by a display and sent with its health heartbeat.
+    /// Only the most recent errors are kept for each device.
+    /// </summary>
+    public class DisplayDeviceError
+    {
+        /// <summary>
+        /// Primary key. SQLite INTEGER PRIMARY KEY for auto-increment.
+        /// </summary>
+        [Key]
+        [DatabaseGenerated(DatabaseGeneratedOption.Identity)]
+        public long Id { get; set; }
+
+        /// <summary>
+        /// Device that reported the error.
+        /// </summary>
+        public long DisplayDeviceId { get; set; }
+
+        /// <summary>
+        /// When the error occurred on the display (UTC).
+        /// </summary>
+        public DateTime OccurredAt { get; set; }
+
+        /// <summary>
+        /// Error message.
+        /// </summary>
+        [Required]
+        [MaxLength(1000)]
+        public string Message { get; set; } = string.Empty;
+
+        /// <summary>
+        /// Where the error came from (e.g., "unhandledrejection" or a script location).
+        /// </summary>
+        [MaxLength(200)]
+        public string? Source { get; set; }
+
+        // Navigation properties
+
+        /// <summary>
+        /// The device that reported the error.
+        /// </summary>
+        [ForeignKey(nameof(DisplayDeviceId))]
+        public DisplayDevice DisplayDevice { get; set; } = null!;
+    }
+}
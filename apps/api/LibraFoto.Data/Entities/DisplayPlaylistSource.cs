@@ -0,0 +1,74 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace LibraFoto.Data.Entities
+{
+    /// <summary>
+    /// An album or tag that feeds a playlist slideshow, or a tag whose photos it leaves out.
+    /// Used when the display settings source type is Playlist.
+    /// </summary>
+    public class DisplayPlaylistSource
+    {
+        /// <summary>
+        /// Primary key. SQLite INTEGER PRIMARY KEY for auto-increment.
+        /// </summary>
+        [Key]
+        [DatabaseGenerated(DatabaseGeneratedOption.Identity)]
+        public long Id { get; set; }
+
+        /// <summary>
+        /// Display settings this source belongs to.
+        /// </summary>
+        public long DisplaySettingsId { get; set; }
+
+        /// <summary>
+        /// Album to draw photos from. Exactly one of AlbumId and TagId is set.
+        /// </summary>
+        public long? AlbumId { get; set; }
+
+        /// <summary>
+        /// Tag to draw photos from, or to exclude when <see cref="IsExcluded"/> is set.
+        /// </summary>
+        public long? TagId { get; set; }
+
+        /// <summary>
+        /// Whether photos with this tag are left out of the playlist.
+        /// </summary>
+        public bool IsExcluded { get; set; }
+
+        /// <summary>
+        /// Relative share of slides drawn from this source (1-10). Ignored for exclusions.
+        /// </summary>
+        public int Weight { get; set; } = 1;
+
+        /// <summary>
+        /// Only include photos taken on or after this date.
+        /// </summary>
+        public DateTime? DateFrom { get; set; }
+
+        /// <summary>
+        /// Only include photos taken on or before this date.
+        /// </summary>
+        public DateTime? DateTo { get; set; }
+
+        // Navigation properties
+
+        /// <summary>
+        /// The display settings this source belongs to.
+        /// </summary>
+        [ForeignKey(nameof(DisplaySettingsId))]
+        public DisplaySettings DisplaySettings { get; set; } = null!;
+
+        /// <summary>
+        /// The album photos are drawn from.
+        /// </summary>
+        [ForeignKey(nameof(AlbumId))]
+        public Album? Album { get; set; }
+
+        /// <summary>
+        /// The tag photos are drawn from or excluded by.
+        /// </summary>
+        [ForeignKey(nameof(TagId))]
+        public Tag? Tag { get; set; }
+    }
+}
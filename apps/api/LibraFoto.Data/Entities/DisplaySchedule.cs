@@ -0,0 +1,64 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+using LibraFoto.Data.Enums;
+
+namespace LibraFoto.Data.Entities
+{
+    /// <summary>
+    /// A time-of-day schedule rule for displays.
+    /// Either activates a settings profile or starts quiet hours during its time window.
+    /// </summary>
+    public class DisplaySchedule
+    {
+        /// <summary>
+        /// Primary key. SQLite INTEGER PRIMARY KEY for auto-increment.
+        /// </summary>
+        [Key]
+        [DatabaseGenerated(DatabaseGeneratedOption.Identity)]
+        public long Id { get; set; }
+
+        /// <summary>
+        /// Days the rule applies to, as a bitmask of <see cref="DayOfWeek"/> (bit 0 = Sunday).
+        /// For windows that cross midnight, the day is the one the window starts on.
+        /// </summary>
+        public int DaysOfWeek { get; set; }
+
+        /// <summary>
+        /// Start of the time window in 24-hour "HH:mm" format (display local time).
+        /// </summary>
+        [Required]
+        [MaxLength(5)]
+        public string StartTime { get; set; } = "00:00";
+
+        /// <summary>
+        /// End of the time window in 24-hour "HH:mm" format (exclusive).
+        /// An end at or before the start wraps past midnight.
+        /// </summary>
+        [Required]
+        [MaxLength(5)]
+        public string EndTime { get; set; } = "00:00";
+
+        /// <summary>
+        /// Settings profile to activate during the window. Null for quiet hours.
+        /// </summary>
+        public long? DisplaySettingsId { get; set; }
+
+        /// <summary>
+        /// Quiet hours mode for the window. Null when the rule activates a profile.
+        /// </summary>
+        public QuietMode? QuietMode { get; set; }
+
+        /// <summary>
+        /// Evaluation order. The first matching profile rule wins.
+        /// </summary>
+        public int SortOrder { get; set; }
+
+        // Navigation properties
+
+        /// <summary>
+        /// The settings profile activated by this rule.
+        /// </summary>
+        [ForeignKey(nameof(DisplaySettingsId))]
+        public DisplaySettings? DisplaySettings { get; set; }
+    }
+}
@@ -45,7 +45,7 @@ namespace LibraFoto.Data.Entities
         public SourceType SourceType { get; set; } = SourceType.All;
 
         /// <summary>
-        /// ID of the source (Album or Tag) when SourceType is not All.
+        /// ID of the source (Album or Tag) when SourceType is Album or Tag.
         /// </summary>
         public long? SourceId { get; set; }
 
@@ -59,9 +59,86 @@ namespace LibraFoto.Data.Entities
         /// </summary>
         public ImageFit ImageFit { get; set; } = ImageFit.Contain;
 
+        /// <summary>
+        /// Whether portrait photos are combined into collages on landscape screens.
+        /// </summary>
+        public CollageLayout CollageLayout { get; set; } = CollageLayout.Off;
+
+        /// <summary>
+        /// Whether to show a clock overlay on the slideshow.
+        /// </summary>
+        public bool ShowClock { get; set; }
+
+        /// <summary>
+        /// Screen corner for the clock overlay.
+        /// </summary>
+        public OverlayPosition ClockPosition { get; set; } = OverlayPosition.TopRight;
+
+        /// <summary>
+        /// Whether to show the date the current photo was taken.
+        /// </summary>
+        public bool ShowDateTaken { get; set; }
+
+        /// <summary>
+        /// Screen corner for the date taken overlay.
+        /// </summary>
+        public OverlayPosition DateTakenPosition { get; set; } = OverlayPosition.BottomLeft;
+
+        /// <summary>
+        /// Whether to show the location of the current photo.
+        /// </summary>
+        public bool ShowLocation { get; set; }
+
+        /// <summary>
+        /// Screen corner for the location overlay.
+        /// </summary>
+        public OverlayPosition LocationPosition { get; set; } = OverlayPosition.BottomLeft;
+
+        /// <summary>
+        /// Text size of the overlay elements.
+        /// </summary>
+        public OverlaySize OverlaySize { get; set; } = OverlaySize.Medium;
+
+        /// <summary>
+        /// Opacity of the overlay elements as a percentage (0-100).
+        /// </summary>
+        public int OverlayOpacity { get; set; } = 80;
+
+        /// <summary>
+        /// Whether videos play muted, with audio, or are skipped.
+        /// </summary>
+        public VideoPlayback VideoPlayback { get; set; } = VideoPlayback.Muted;
+
+        /// <summary>
+        /// Volume for videos played with audio as a percentage (0-100).
+        /// </summary>
+        public int VideoVolume { get; set; } = 50;
+
+        /// <summary>
+        /// Longest time a video stays on screen in seconds. 0 plays videos to the end.
+        /// </summary>
+        public int MaxVideoDuration { get; set; } = 30;
+
+        /// <summary>
+        /// Which part of a video longer than <see cref="MaxVideoDuration"/> is played.
+        /// </summary>
+        public VideoSegment VideoSegment { get; set; } = VideoSegment.Start;
+
+        /// <summary>
+        /// How many times a short video plays in a row, still limited by <see cref="MaxVideoDuration"/>.
+        /// </summary>
+        public int VideoLoopCount { get; set; } = 1;
+
         /// <summary>
         /// Whether this is the active display configuration.
         /// </summary>
         public bool IsActive { get; set; } = true;
+
+        // Navigation properties
+
+        /// <summary>
+        /// Albums and tags included in or excluded from the playlist when SourceType is Playlist.
+        /// </summary>
+        public ICollection<DisplayPlaylistSource> PlaylistSources { get; set; } = [];
     }
 }
@@ -105,6 +105,62 @@ namespace LibraFoto.Data.Entities
         [MaxLength(512)]
         public string? ProviderFileId { get; set; }
 
+        /// <summary>
+        /// SHA-256 hash (lowercase hex) of the originally uploaded file, used to detect duplicate uploads.
+        /// Photos added another way are hashed from their stored file when the library is scanned for duplicates.
+        /// </summary>
+        [MaxLength(64)]
+        public string? ContentHash { get; set; }
+
+        /// <summary>
+        /// 64-bit difference hash of the image, used to find near-duplicates such as resized or re-encoded copies.
+        /// Null until the library has been scanned for duplicates, and always null for videos.
+        /// </summary>
+        public long? PerceptualHash { get; set; }
+
+        /// <summary>
+        /// Clockwise rotation in degrees (0, 90, 180 or 270) applied after the EXIF orientation.
+        /// Edits are stored here and applied when the photo is rendered; the original file is never changed.
+        /// </summary>
+        public int Rotation { get; set; }
+
+        /// <summary>
+        /// Whether the photo is mirrored left to right after rotation.
+        /// </summary>
+        public bool FlipHorizontal { get; set; }
+
+        /// <summary>
+        /// Left edge of the crop as a fraction (0-1) of the rotated, flipped image width. Null when not cropped.
+        /// </summary>
+        public double? CropX { get; set; }
+
+        /// <summary>
+        /// Top edge of the crop as a fraction (0-1) of the rotated, flipped image height. Null when not cropped.
+        /// </summary>
+        public double? CropY { get; set; }
+
+        /// <summary>
+        /// Crop width as a fraction (0-1] of the rotated, flipped image width. Null when not cropped.
+        /// </summary>
+        public double? CropWidth { get; set; }
+
+        /// <summary>
+        /// Crop height as a fraction (0-1] of the rotated, flipped image height. Null when not cropped.
+        /// </summary>
+        public double? CropHeight { get; set; }
+
+        /// <summary>
+        /// Horizontal position of the point of interest as a fraction (0-1) of the edited image width.
+        /// Cover mode and Ken Burns keep this point in frame. Null when the centre is used.
+        /// </summary>
+        public double? FocalPointX { get; set; }
+
+        /// <summary>
+        /// Vertical position of the point of interest as a fraction (0-1) of the edited image height.
+        /// Null when the centre is used.
+        /// </summary>
+        public double? FocalPointY { get; set; }
+
         // Navigation properties
 
         /// <summary>
@@ -0,0 +1,23 @@
+namespace LibraFoto.Data.Enums
+{
+    /// <summary>
+    /// How the slideshow combines several photos on one screen.
+    /// </summary>
+    public enum CollageLayout
+    {
+        /// <summary>
+        /// Show every photo on its own.
+        /// </summary>
+        Off = 0,
+
+        /// <summary>
+        /// Show two portrait photos side by side on a landscape screen.
+        /// </summary>
+        PairPortraits = 1,
+
+        /// <summary>
+        /// Combine a portrait photo with up to three others, chosen by their aspect ratios.
+        /// </summary>
+        Mosaic = 2
+    }
+}
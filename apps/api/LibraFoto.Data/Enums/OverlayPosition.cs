@@ -0,0 +1,28 @@
+namespace LibraFoto.Data.Enums
+{
+    /// <summary>
+    /// Screen corner where a slideshow overlay element is rendered.
+    /// </summary>
+    public enum OverlayPosition
+    {
+        /// <summary>
+        /// Top-left corner of the screen.
+        /// </summary>
+        TopLeft = 0,
+
+        /// <summary>
+        /// Top-right corner of the screen.
+        /// </summary>
+        TopRight = 1,
+
+        /// <summary>
+        /// Bottom-left corner of the screen.
+        /// </summary>
+        BottomLeft = 2,
+
+        /// <summary>
+        /// Bottom-right corner of the screen.
+        /// </summary>
+        BottomRight = 3
+    }
+}
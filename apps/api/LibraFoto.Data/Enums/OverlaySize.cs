@@ -0,0 +1,23 @@
+namespace LibraFoto.Data.Enums
+{
+    /// <summary>
+    /// Text size of the slideshow overlay.
+    /// </summary>
+    public enum OverlaySize
+    {
+        /// <summary>
+        /// Small, unobtrusive text.
+        /// </summary>
+        Small = 0,
+
+        /// <summary>
+        /// Medium text, readable from across a room.
+        /// </summary>
+        Medium = 1,
+
+        /// <summary>
+        /// Large text for big screens or distant viewing.
+        /// </summary>
+        Large = 2
+    }
+}
@@ -0,0 +1,18 @@
+namespace LibraFoto.Data.Enums
+{
+    /// <summary>
+    /// What a display shows during scheduled quiet hours.
+    /// </summary>
+    public enum QuietMode
+    {
+        /// <summary>
+        /// Blank the screen.
+        /// </summary>
+        Black = 0,
+
+        /// <summary>
+        /// Show a dimmed clock on a black background.
+        /// </summary>
+        DimClock = 1
+    }
+}
@@ -18,6 +18,16 @@ namespace LibraFoto.Data.Enums
         /// <summary>
         /// Show photos with a specific tag.
         /// </summary>
-        Tag = 2
+        Tag = 2,
+
+        /// <summary>
+        /// Show photos from several weighted albums and tags, minus excluded tags.
+        /// </summary>
+        Playlist = 3,
+
+        /// <summary>
+        /// Show mostly photos taken on this day in past years (or this week when there are none), mixed with the other photos.
+        /// </summary>
+        Memories = 4
     }
 }
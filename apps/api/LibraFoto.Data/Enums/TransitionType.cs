@@ -11,13 +11,58 @@ namespace LibraFoto.Data.Enums
         Fade = 0,
 
         /// <summary>
-        /// Slide transition (slides in from side).
+        /// Slide transition (slides in from the right, moving left).
         /// </summary>
         Slide = 1,
 
         /// <summary>
         /// Ken Burns effect (slow pan and zoom while displaying).
         /// </summary>
-        KenBurns = 2
+        KenBurns = 2,
+
+        /// <summary>
+        /// Zoom transition (the new photo grows into view).
+        /// </summary>
+        Zoom = 3,
+
+        /// <summary>
+        /// Fades the photo to black, then fades the next photo in.
+        /// </summary>
+        DipToBlack = 4,
+
+        /// <summary>
+        /// Slide transition moving right.
+        /// </summary>
+        SlideRight = 5,
+
+        /// <summary>
+        /// Slide transition moving up.
+        /// </summary>
+        SlideUp = 6,
+
+        /// <summary>
+        /// Slide transition moving down.
+        /// </summary>
+        SlideDown = 7,
+
+        /// <summary>
+        /// Rotates the photos like the faces of a cube.
+        /// </summary>
+        Cube = 8,
+
+        /// <summary>
+        /// Flips the photo over like a card to reveal the next one.
+        /// </summary>
+        Flip = 9,
+
+        /// <summary>
+        /// Blurs the photo away while the next one comes into focus.
+        /// </summary>
+        Blur = 10,
+
+        /// <summary>
+        /// Picks a different transition for every slide.
+        /// </summary>
+        Random = 11
     }
 }
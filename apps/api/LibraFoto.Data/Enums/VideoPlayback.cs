@@ -0,0 +1,23 @@
+namespace LibraFoto.Data.Enums
+{
+    /// <summary>
+    /// How the slideshow plays videos.
+    /// </summary>
+    public enum VideoPlayback
+    {
+        /// <summary>
+        /// Play videos without sound.
+        /// </summary>
+        Muted = 0,
+
+        /// <summary>
+        /// Play videos with sound at the configured volume.
+        /// </summary>
+        WithAudio = 1,
+
+        /// <summary>
+        /// Leave videos out of the slideshow.
+        /// </summary>
+        Skip = 2
+    }
+}
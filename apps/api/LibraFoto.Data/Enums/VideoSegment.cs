@@ -0,0 +1,18 @@
+namespace LibraFoto.Data.Enums
+{
+    /// <summary>
+    /// Which part of a video longer than the maximum duration is played.
+    /// </summary>
+    public enum VideoSegment
+    {
+        /// <summary>
+        /// Play from the beginning of the video.
+        /// </summary>
+        Start = 0,
+
+        /// <summary>
+        /// Play a randomly chosen part of the video.
+        /// </summary>
+        Random = 1
+    }
+}
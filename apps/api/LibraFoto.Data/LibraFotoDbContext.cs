@@ -58,6 +58,26 @@ namespace LibraFoto.Data
         /// </summary>
         public DbSet<DisplaySettings> DisplaySettings => Set<DisplaySettings>();
 
+        /// <summary>
+        /// Albums and tags feeding playlist slideshows.
+        /// </summary>
+        public DbSet<DisplayPlaylistSource> DisplayPlaylistSources => Set<DisplayPlaylistSource>();
+
+        /// <summary>
+        /// Registered picture frame devices.
+        /// </summary>
+        public DbSet<DisplayDevice> DisplayDevices => Set<DisplayDevice>();
+
+        /// <summary>
+        /// Errors recently reported by display devices.
+        /// </summary>
+        public DbSet<DisplayDeviceError> DisplayDeviceErrors => Set<DisplayDeviceError>();
+
+        /// <summary>
+        /// Time-of-day schedule rules for displays.
+        /// </summary>
+        public DbSet<DisplaySchedule> DisplaySchedules => Set<DisplaySchedule>();
+
         /// <summary>
         /// Guest upload links.
         /// </summary>
@@ -79,6 +99,7 @@ namespace LibraFoto.Data
                 entity.HasIndex(e => e.DateTaken);
                 entity.HasIndex(e => e.DateAdded);
                 entity.HasIndex(e => e.ProviderId);
+                entity.HasIndex(e => e.ContentHash);
                 entity.HasIndex(e => new { e.ProviderId, e.ProviderFileId }).IsUnique();
 
                 entity.HasOne(e => e.Provider)
@@ -158,6 +179,58 @@ namespace LibraFoto.Data
                 entity.HasIndex(e => e.IsActive);
             });
 
+            // DisplayPlaylistSource configuration
+            modelBuilder.Entity<DisplayPlaylistSource>(entity =>
+            {
+                entity.HasOne(e => e.DisplaySettings)
+                    .WithMany(s => s.PlaylistSources)
+                    .HasForeignKey(e => e.DisplaySettingsId)
+                    .OnDelete(DeleteBehavior.Cascade);
+
+                entity.HasOne(e => e.Album)
+                    .WithMany()
+                    .HasForeignKey(e => e.AlbumId)
+                    .OnDelete(DeleteBehavior.Cascade);
+
+                entity.HasOne(e => e.Tag)
+                    .WithMany()
+                    .HasForeignKey(e => e.TagId)
+                    .OnDelete(DeleteBehavior.Cascade);
+            });
+
+            // DisplayDevice configuration
+            modelBuilder.Entity<DisplayDevice>(entity =>
+            {
+                entity.HasIndex(e => e.DeviceId).IsUnique();
+
+                entity.HasOne(e => e.DisplaySettings)
+                    .WithMany()
+                    .HasForeignKey(e => e.DisplaySettingsId)
+                    .OnDelete(DeleteBehavior.SetNull);
+            });
+
+            // DisplayDeviceError configuration
+            modelBuilder.Entity<DisplayDeviceError>(entity =>
+            {
+                entity.HasIndex(e => new { e.DisplayDeviceId, e.OccurredAt });
+
+                entity.HasOne(e => e.DisplayDevice)
+                    .WithMany(d => d.Errors)
+                    .HasForeignKey(e => e.DisplayDeviceId)
+                    .OnDelete(DeleteBehavior.Cascade);
+            });
+
+            // DisplaySchedule configuration
+            modelBuilder.Entity<DisplaySchedule>(entity =>
+            {
+                entity.HasIndex(e => e.SortOrder);
+
+                entity.HasOne(e => e.DisplaySettings)
+                    .WithMany()
+                    .HasForeignKey(e => e.DisplaySettingsId)
+                    .OnDelete(DeleteBehavior.Cascade);
+            });
+
             // GuestLink configuration
             modelBuilder.Entity<GuestLink>(entity =>
             {
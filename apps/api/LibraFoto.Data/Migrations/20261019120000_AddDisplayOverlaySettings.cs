@@ -0,0 +1,108 @@
+using System.Diagnostics.CodeAnalysis;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace LibraFoto.Data.Migrations
+{
+    /// <inheritdoc />
+    [ExcludeFromCodeCoverage]
+    public partial class AddDisplayOverlaySettings : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<bool>(
+                name: "ShowClock",
+                table: "DisplaySettings",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<int>(
+                name: "ClockPosition",
+                table: "DisplaySettings",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 1);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "ShowDateTaken",
+                table: "DisplaySettings",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<int>(
+                name: "DateTakenPosition",
+                table: "DisplaySettings",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 2);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "ShowLocation",
+                table: "DisplaySettings",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<int>(
+                name: "LocationPosition",
+                table: "DisplaySettings",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 2);
+
+            migrationBuilder.AddColumn<int>(
+                name: "OverlaySize",
+                table: "DisplaySettings",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 1);
+
+            migrationBuilder.AddColumn<int>(
+                name: "OverlayOpacity",
+                table: "DisplaySettings",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 80);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "ShowClock",
+                table: "DisplaySettings");
+
+            migrationBuilder.DropColumn(
+                name: "ClockPosition",
+                table: "DisplaySettings");
+
+            migrationBuilder.DropColumn(
+                name: "ShowDateTaken",
+                table: "DisplaySettings");
+
+            migrationBuilder.DropColumn(
+                name: "DateTakenPosition",
+                table: "DisplaySettings");
+
+            migrationBuilder.DropColumn(
+                name: "ShowLocation",
+                table: "DisplaySettings");
+
+            migrationBuilder.DropColumn(
+                name: "LocationPosition",
+                table: "DisplaySettings");
+
+            migrationBuilder.DropColumn(
+                name: "OverlaySize",
+                table: "DisplaySettings");
+
+            migrationBuilder.DropColumn(
+                name: "OverlayOpacity",
+                table: "DisplaySettings");
+        }
+    }
+}
@@ -0,0 +1,59 @@
+using System;
+using System.Diagnostics.CodeAnalysis;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace LibraFoto.Data.Migrations
+{
+    /// <inheritdoc />
+    [ExcludeFromCodeCoverage]
+    public partial class AddDisplayDevices : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "DisplayDevices",
+                columns: table => new
+                {
+                    Id = table.Column<long>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    DeviceId = table.Column<string>(type: "TEXT", maxLength: 64, nullable: false),
+                    Name = table.Column<string>(type: "TEXT", maxLength: 100, nullable: false),
+                    DisplaySettingsId = table.Column<long>(type: "INTEGER", nullable: true),
+                    CurrentPhotoId = table.Column<long>(type: "INTEGER", nullable: true),
+                    DateRegistered = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    LastSeenAt = table.Column<DateTime>(type: "TEXT", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_DisplayDevices", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_DisplayDevices_DisplaySettings_DisplaySettingsId",
+                        column: x => x.DisplaySettingsId,
+                        principalTable: "DisplaySettings",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.SetNull);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_DisplayDevices_DeviceId",
+                table: "DisplayDevices",
+                column: "DeviceId",
+                unique: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_DisplayDevices_DisplaySettingsId",
+                table: "DisplayDevices",
+                column: "DisplaySettingsId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "DisplayDevices");
+        }
+    }
+}
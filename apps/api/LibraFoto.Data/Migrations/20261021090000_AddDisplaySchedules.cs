@@ -0,0 +1,57 @@
+using System.Diagnostics.CodeAnalysis;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace LibraFoto.Data.Migrations
+{
+    /// <inheritdoc />
+    [ExcludeFromCodeCoverage]
+    public partial class AddDisplaySchedules : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "DisplaySchedules",
+                columns: table => new
+                {
+                    Id = table.Column<long>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    DaysOfWeek = table.Column<int>(type: "INTEGER", nullable: false),
+                    StartTime = table.Column<string>(type: "TEXT", maxLength: 5, nullable: false),
+                    EndTime = table.Column<string>(type: "TEXT", maxLength: 5, nullable: false),
+                    DisplaySettingsId = table.Column<long>(type: "INTEGER", nullable: true),
+                    QuietMode = table.Column<int>(type: "INTEGER", nullable: true),
+                    SortOrder = table.Column<int>(type: "INTEGER", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_DisplaySchedules", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_DisplaySchedules_DisplaySettings_DisplaySettingsId",
+                        column: x => x.DisplaySettingsId,
+                        principalTable: "DisplaySettings",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_DisplaySchedules_DisplaySettingsId",
+                table: "DisplaySchedules",
+                column: "DisplaySettingsId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_DisplaySchedules_SortOrder",
+                table: "DisplaySchedules",
+                column: "SortOrder");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "DisplaySchedules");
+        }
+    }
+}
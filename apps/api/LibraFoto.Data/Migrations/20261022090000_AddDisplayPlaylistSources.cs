@@ -0,0 +1,76 @@
+using System;
+using System.Diagnostics.CodeAnalysis;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace LibraFoto.Data.Migrations
+{
+    /// <inheritdoc />
+    [ExcludeFromCodeCoverage]
+    public partial class AddDisplayPlaylistSources : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "DisplayPlaylistSources",
+                columns: table => new
+                {
+                    Id = table.Column<long>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    DisplaySettingsId = table.Column<long>(type: "INTEGER", nullable: false),
+                    AlbumId = table.Column<long>(type: "INTEGER", nullable: true),
+                    TagId = table.Column<long>(type: "INTEGER", nullable: true),
+                    IsExcluded = table.Column<bool>(type: "INTEGER", nullable: false),
+                    Weight = table.Column<int>(type: "INTEGER", nullable: false),
+                    DateFrom = table.Column<DateTime>(type: "TEXT", nullable: true),
+                    DateTo = table.Column<DateTime>(type: "TEXT", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_DisplayPlaylistSources", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_DisplayPlaylistSources_Albums_AlbumId",
+                        column: x => x.AlbumId,
+                        principalTable: "Albums",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_DisplayPlaylistSources_DisplaySettings_DisplaySettingsId",
+                        column: x => x.DisplaySettingsId,
+                        principalTable: "DisplaySettings",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_DisplayPlaylistSources_Tags_TagId",
+                        column: x => x.TagId,
+                        principalTable: "Tags",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_DisplayPlaylistSources_AlbumId",
+                table: "DisplayPlaylistSources",
+                column: "AlbumId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_DisplayPlaylistSources_DisplaySettingsId",
+                table: "DisplayPlaylistSources",
+                column: "DisplaySettingsId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_DisplayPlaylistSources_TagId",
+                table: "DisplayPlaylistSources",
+                column: "TagId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "DisplayPlaylistSources");
+        }
+    }
+}
@@ -0,0 +1,82 @@
+using System.Diagnostics.CodeAnalysis;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace LibraFoto.Data.Migrations
+{
+    /// <inheritdoc />
+    [ExcludeFromCodeCoverage]
+    public partial class AddPhotoEdits : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "Rotation",
+                table: "Photos",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "FlipHorizontal",
+                table: "Photos",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<double>(
+                name: "CropX",
+                table: "Photos",
+                type: "REAL",
+                nullable: true);
+
+            migrationBuilder.AddColumn<double>(
+                name: "CropY",
+                table: "Photos",
+                type: "REAL",
+                nullable: true);
+
+            migrationBuilder.AddColumn<double>(
+                name: "CropWidth",
+                table: "Photos",
+                type: "REAL",
+                nullable: true);
+
+            migrationBuilder.AddColumn<double>(
+                name: "CropHeight",
+                table: "Photos",
+                type: "REAL",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "Rotation",
+                table: "Photos");
+
+            migrationBuilder.DropColumn(
+                name: "FlipHorizontal",
+                table: "Photos");
+
+            migrationBuilder.DropColumn(
+                name: "CropX",
+                table: "Photos");
+
+            migrationBuilder.DropColumn(
+                name: "CropY",
+                table: "Photos");
+
+            migrationBuilder.DropColumn(
+                name: "CropWidth",
+                table: "Photos");
+
+            migrationBuilder.DropColumn(
+                name: "CropHeight",
+                table: "Photos");
+        }
+    }
+}
@@ -0,0 +1,152 @@
+using System;
+using System.Diagnostics.CodeAnalysis;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace LibraFoto.Data.Migrations
+{
+    /// <inheritdoc />
+    [ExcludeFromCodeCoverage]
+    public partial class AddDisplayDeviceHealth : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<long>(
+                name: "CacheQuotaBytes",
+                table: "DisplayDevices",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<long>(
+                name: "CacheUsageBytes",
+                table: "DisplayDevices",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "ErrorCount",
+                table: "DisplayDevices",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<long>(
+                name: "JsHeapLimitBytes",
+                table: "DisplayDevices",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<long>(
+                name: "JsHeapUsedBytes",
+                table: "DisplayDevices",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "LastHeartbeatAt",
+                table: "DisplayDevices",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "LastSuccessfulFetchAt",
+                table: "DisplayDevices",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "ScreenHeight",
+                table: "DisplayDevices",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "ScreenWidth",
+                table: "DisplayDevices",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<long>(
+                name: "UptimeSeconds",
+                table: "DisplayDevices",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "DisplayDeviceErrors",
+                columns: table => new
+                {
+                    Id = table.Column<long>(type: "INTEGER", nullable: false)
+                        .Annotation("Sqlite:Autoincrement", true),
+                    DisplayDeviceId = table.Column<long>(type: "INTEGER", nullable: false),
+                    OccurredAt = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    Message = table.Column<string>(type: "TEXT", maxLength: 1000, nullable: false),
+                    Source = table.Column<string>(type: "TEXT", maxLength: 200, nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_DisplayDeviceErrors", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_DisplayDeviceErrors_DisplayDevices_DisplayDeviceId",
+                        column: x => x.DisplayDeviceId,
+                        principalTable: "DisplayDevices",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_DisplayDeviceErrors_DisplayDeviceId_OccurredAt",
+                table: "DisplayDeviceErrors",
+                columns: new[] { "DisplayDeviceId", "OccurredAt" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "DisplayDeviceErrors");
+
+            migrationBuilder.DropColumn(
+                name: "CacheQuotaBytes",
+                table: "DisplayDevices");
+
+            migrationBuilder.DropColumn(
+                name: "CacheUsageBytes",
+                table: "DisplayDevices");
+
+            migrationBuilder.DropColumn(
+                name: "ErrorCount",
+                table: "DisplayDevices");
+
+            migrationBuilder.DropColumn(
+                name: "JsHeapLimitBytes",
+                table: "DisplayDevices");
+
+            migrationBuilder.DropColumn(
+                name: "JsHeapUsedBytes",
+                table: "DisplayDevices");
+
+            migrationBuilder.DropColumn(
+                name: "LastHeartbeatAt",
+                table: "DisplayDevices");
+
+            migrationBuilder.DropColumn(
+                name: "LastSuccessfulFetchAt",
+                table: "DisplayDevices");
+
+            migrationBuilder.DropColumn(
+                name: "ScreenHeight",
+                table: "DisplayDevices");
+
+            migrationBuilder.DropColumn(
+                name: "ScreenWidth",
+                table: "DisplayDevices");
+
+            migrationBuilder.DropColumn(
+                name: "UptimeSeconds",
+                table: "DisplayDevices");
+        }
+    }
+}
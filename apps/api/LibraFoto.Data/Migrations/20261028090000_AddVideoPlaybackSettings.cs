@@ -0,0 +1,75 @@
+using System.Diagnostics.CodeAnalysis;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace LibraFoto.Data.Migrations
+{
+    /// <inheritdoc />
+    [ExcludeFromCodeCoverage]
+    public partial class AddVideoPlaybackSettings : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "VideoPlayback",
+                table: "DisplaySettings",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<int>(
+                name: "VideoVolume",
+                table: "DisplaySettings",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 50);
+
+            migrationBuilder.AddColumn<int>(
+                name: "MaxVideoDuration",
+                table: "DisplaySettings",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 30);
+
+            migrationBuilder.AddColumn<int>(
+                name: "VideoSegment",
+                table: "DisplaySettings",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<int>(
+                name: "VideoLoopCount",
+                table: "DisplaySettings",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 1);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "VideoPlayback",
+                table: "DisplaySettings");
+
+            migrationBuilder.DropColumn(
+                name: "VideoVolume",
+                table: "DisplaySettings");
+
+            migrationBuilder.DropColumn(
+                name: "MaxVideoDuration",
+                table: "DisplaySettings");
+
+            migrationBuilder.DropColumn(
+                name: "VideoSegment",
+                table: "DisplaySettings");
+
+            migrationBuilder.DropColumn(
+                name: "VideoLoopCount",
+                table: "DisplaySettings");
+        }
+    }
+}
@@ -1,5 +1,6 @@
 using LibraFoto.Modules.Admin.Models;
 using LibraFoto.Modules.Admin.Services;
+using LibraFoto.Shared.DTOs;
 using Microsoft.AspNetCore.Builder;
 using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Http.HttpResults;
@@ -49,11 +50,15 @@ namespace LibraFoto.Modules.Admin.Endpoints
                 .WithName("RemoveAlbumCoverPhoto")
                 .WithSummary("Remove the cover photo from an album");
 
+            group.MapGet("/{id:long}/photos", GetAlbumPhotos)
+                .WithName("GetAlbumPhotos")
+                .WithSummary("Get the photos in an album in album order");
+
             group.MapPost("/{id:long}/photos", AddPhotosToAlbum)
                 .WithName("AddPhotosToAlbum")
                 .WithSummary("Add photos to an album");
 
-            group.MapDelete("/{id:long}/photos", RemovePhotosFromAlbum)
+            group.MapPost("/{id:long}/photos/remove", RemovePhotosFromAlbum)
                 .WithName("RemovePhotosFromAlbum")
                 .WithSummary("Remove photos from an album");
 
@@ -153,6 +158,22 @@ namespace LibraFoto.Modules.Admin.Endpoints
             return TypedResults.Ok(album);
         }
 
+        private static async Task<Results<Ok<PagedResult<PhotoListDto>>, NotFound>> GetAlbumPhotos(
+            long id,
+            IAlbumService albumService,
+            int page = 1,
+            int pageSize = 50,
+            CancellationToken ct = default)
+        {
+            var photos = await albumService.GetAlbumPhotosAsync(id, page, pageSize, ct);
+            if (photos is null)
+            {
+                return TypedResults.NotFound();
+            }
+
+            return TypedResults.Ok(photos);
+        }
+
         private static async Task<Ok<BulkOperationResult>> AddPhotosToAlbum(
             long id,
             [FromBody] AddPhotosToAlbumRequest request,
@@ -31,6 +31,14 @@ namespace LibraFoto.Modules.Admin.Endpoints
                 .WithName("GetAdminPhotoCount")
                 .WithSummary("Get total count of photos");
 
+            group.MapGet("/timeline", GetPhotoTimeline)
+                .WithName("GetPhotoTimeline")
+                .WithSummary("Get photo counts per day for the library timeline");
+
+            group.MapGet("/locations", GetPhotoLocations)
+                .WithName("GetPhotoLocations")
+                .WithSummary("Get the position of every geotagged photo");
+
             group.MapGet("/{id:long}", GetPhotoById)
                 .WithName("GetPhotoById")
                 .WithSummary("Get detailed information about a photo");
@@ -39,6 +47,18 @@ namespace LibraFoto.Modules.Admin.Endpoints
                 .WithName("UpdatePhoto")
                 .WithSummary("Update a photo's metadata");
 
+            group.MapPut("/{id:long}/edits", UpdatePhotoEdits)
+                .WithName("UpdatePhotoEdits")
+                .WithSummary("Set a photo's rotation, flip and crop without changing the original file");
+
+            group.MapPut("/{id:long}/focal-point", UpdateFocalPoint)
+                .WithName("UpdatePhotoFocalPoint")
+                .WithSummary("Set the point the display keeps in frame when cropping or panning");
+
+            group.MapDelete("/{id:long}/focal-point", ClearFocalPoint)
+                .WithName("ClearPhotoFocalPoint")
+                .WithSummary("Clear a photo's focal point so the display uses the centre");
+
             group.MapDelete("/{id:long}", DeletePhoto)
                 .WithName("DeletePhoto")
                 .WithSummary("Delete a single photo");
@@ -76,6 +96,10 @@ namespace LibraFoto.Modules.Admin.Endpoints
             DateTime? dateTo = null,
             MediaType? mediaType = null,
             string? search = null,
+            double? minLatitude = null,
+            double? maxLatitude = null,
+            double? minLongitude = null,
+            double? maxLongitude = null,
             string sortBy = "DateAdded",
             string sortDirection = "desc",
             CancellationToken ct = default)
@@ -90,6 +114,10 @@ namespace LibraFoto.Modules.Admin.Endpoints
                 DateTo = dateTo,
                 MediaType = mediaType,
                 Search = search,
+                MinLatitude = minLatitude,
+                MaxLatitude = maxLatitude,
+                MinLongitude = minLongitude,
+                MaxLongitude = maxLongitude,
                 SortBy = sortBy,
                 SortDirection = sortDirection
             };
@@ -106,6 +134,46 @@ namespace LibraFoto.Modules.Admin.Endpoints
             return TypedResults.Ok(result);
         }
 
+        private static async Task<Ok<IReadOnlyList<TimelineDayDto>>> GetPhotoTimeline(
+            IPhotoService photoService,
+            long? albumId = null,
+            long? tagId = null,
+            DateTime? dateFrom = null,
+            DateTime? dateTo = null,
+            MediaType? mediaType = null,
+            string? search = null,
+            double? minLatitude = null,
+            double? maxLatitude = null,
+            double? minLongitude = null,
+            double? maxLongitude = null,
+            CancellationToken ct = default)
+        {
+            var filter = new PhotoFilterRequest
+            {
+                AlbumId = albumId,
+                TagId = tagId,
+                DateFrom = dateFrom,
+                DateTo = dateTo,
+                MediaType = mediaType,
+                Search = search,
+                MinLatitude = minLatitude,
+                MaxLatitude = maxLatitude,
+                MinLongitude = minLongitude,
+                MaxLongitude = maxLongitude
+            };
+
+            var result = await photoService.GetTimelineAsync(filter, ct);
+            return TypedResults.Ok(result);
+        }
+
+        private static async Task<Ok<IReadOnlyList<PhotoLocationDto>>> GetPhotoLocations(
+            IPhotoService photoService,
+            CancellationToken ct = default)
+        {
+            var result = await photoService.GetPhotoLocationsAsync(ct);
+            return TypedResults.Ok(result);
+        }
+
         private static async Task<Results<Ok<PhotoDetailDto>, NotFound>> GetPhotoById(
             long id,
             IPhotoService photoService,
@@ -135,6 +203,81 @@ namespace LibraFoto.Modules.Admin.Endpoints
             return TypedResults.Ok(photo);
         }
 
+        private static async Task<Results<Ok<PhotoDetailDto>, NotFound, BadRequest<ApiError>>> UpdatePhotoEdits(
+            long id,
+            [FromBody] PhotoEditsDto request,
+            IPhotoService photoService,
+            CancellationToken ct = default)
+        {
+            if (request.Rotation is not (0 or 90 or 180 or 270))
+            {
+                return TypedResults.BadRequest(new ApiError(
+                    "VALIDATION_ERROR",
+                    "Rotation must be 0, 90, 180 or 270 degrees."));
+            }
+
+            if (request.Crop is { } crop && !IsValidCrop(crop))
+            {
+                return TypedResults.BadRequest(new ApiError(
+                    "VALIDATION_ERROR",
+                    "Crop must be a non-empty rectangle inside the photo, given as fractions between 0 and 1."));
+            }
+
+            var photo = await photoService.UpdatePhotoEditsAsync(id, request, ct);
+            if (photo is null)
+            {
+                return TypedResults.NotFound();
+            }
+
+            return TypedResults.Ok(photo);
+        }
+
+        private static bool IsValidCrop(PhotoCropDto crop)
+        {
+            // Allow for rounding in fractions computed by the client
+            const double tolerance = 1e-6;
+            return crop.X >= 0 && crop.Y >= 0
+                && crop.Width > 0 && crop.Height > 0
+                && crop.X + crop.Width <= 1 + tolerance
+                && crop.Y + crop.Height <= 1 + tolerance;
+        }
+
+        private static async Task<Results<Ok<PhotoDetailDto>, NotFound, BadRequest<ApiError>>> UpdateFocalPoint(
+            long id,
+            [FromBody] PhotoFocalPointDto request,
+            IPhotoService photoService,
+            CancellationToken ct = default)
+        {
+            if (request.X is < 0 or > 1 || request.Y is < 0 or > 1)
+            {
+                return TypedResults.BadRequest(new ApiError(
+                    "VALIDATION_ERROR",
+                    "Focal point must be given as fractions between 0 and 1."));
+            }
+
+            var photo = await photoService.UpdateFocalPointAsync(id, request, ct);
+            if (photo is null)
+            {
+                return TypedResults.NotFound();
+            }
+
+            return TypedResults.Ok(photo);
+        }
+
+        private static async Task<Results<Ok<PhotoDetailDto>, NotFound>> ClearFocalPoint(
+            long id,
+            IPhotoService photoService,
+            CancellationToken ct = default)
+        {
+            var photo = await photoService.UpdateFocalPointAsync(id, null, ct);
+            if (photo is null)
+            {
+                return TypedResults.NotFound();
+            }
+
+            return TypedResults.Ok(photo);
+        }
+
         private static async Task<Results<NoContent, NotFound>> DeletePhoto(
             long id,
             IPhotoService photoService,
@@ -5,6 +5,7 @@ using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Http.HttpResults;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.Routing;
+using Microsoft.Extensions.Configuration;
 
 namespace LibraFoto.Modules.Admin.Endpoints
 {
@@ -13,6 +14,10 @@ namespace LibraFoto.Modules.Admin.Endpoints
     /// </summary>
     public static class SystemEndpoints
     {
+        private const string DefaultTileUrl = "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+        private const string DefaultAttribution = "&copy; <a href=\"https://www.openstreetmap.org/copyright\">OpenStreetMap</a> contributors";
+        private const int DefaultMaxZoom = 19;
+
         /// <summary>
         /// Maps system endpoints to the route builder.
         /// </summary>
@@ -41,6 +46,11 @@ namespace LibraFoto.Modules.Admin.Endpoints
                 .WithSummary("Trigger application update")
                 .WithDescription("Triggers the update process. The application will restart after updating.");
 
+            group.MapGet("/map", GetMapConfig)
+                .WithName("GetMapConfig")
+                .WithSummary("Get map tile settings")
+                .WithDescription("Returns the tile server the admin map loads tiles from. Set Map:TileUrl to use a self-hosted or offline tile server.");
+
             return app;
         }
 
@@ -87,5 +97,27 @@ namespace LibraFoto.Modules.Admin.Endpoints
             var result = await systemService.TriggerUpdateAsync(cancellationToken);
             return TypedResults.Accepted((string?)null, result);
         }
+
+        /// <summary>
+        /// Gets the map tile settings, falling back to OpenStreetMap.
+        /// </summary>
+        private static Ok<MapConfigResponse> GetMapConfig([FromServices] IConfiguration configuration)
+        {
+            var tileUrl = configuration["Map:TileUrl"];
+            var attribution = configuration["Map:Attribution"];
+            var maxZoom = int.TryParse(configuration["Map:MaxZoom"], out var zoom)
+                ? Math.Clamp(zoom, 1, 22)
+                : DefaultMaxZoom;
+
+            if (string.IsNullOrWhiteSpace(tileUrl))
+            {
+                return TypedResults.Ok(new MapConfigResponse(
+                    DefaultTileUrl,
+                    string.IsNullOrWhiteSpace(attribution) ? DefaultAttribution : attribution,
+                    maxZoom));
+            }
+
+            return TypedResults.Ok(new MapConfigResponse(tileUrl, attribution ?? string.Empty, maxZoom));
+        }
     }
 }
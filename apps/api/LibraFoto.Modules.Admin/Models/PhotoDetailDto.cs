@@ -24,7 +24,9 @@ namespace LibraFoto.Modules.Admin.Models
         long? ProviderId,
         string? ProviderName,
         AlbumSummaryDto[] Albums,
-        TagSummaryDto[] Tags
+        TagSummaryDto[] Tags,
+        PhotoEditsDto Edits,
+        PhotoFocalPointDto? FocalPoint
     );
 
     /// <summary>
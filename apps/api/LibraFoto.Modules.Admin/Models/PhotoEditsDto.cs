@@ -0,0 +1,22 @@
+namespace LibraFoto.Modules.Admin.Models
+{
+    /// <summary>
+    /// Non-destructive edits of a photo. They are applied when the photo is rendered;
+    /// the original file is never changed.
+    /// </summary>
+    public record PhotoEditsDto(
+        int Rotation,
+        bool FlipHorizontal,
+        PhotoCropDto? Crop
+    );
+
+    /// <summary>
+    /// Crop rectangle with each edge as a fraction (0-1) of the rotated, flipped image.
+    /// </summary>
+    public record PhotoCropDto(
+        double X,
+        double Y,
+        double Width,
+        double Height
+    );
+}
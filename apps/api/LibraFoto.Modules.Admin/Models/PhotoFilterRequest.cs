@@ -48,7 +48,28 @@ namespace LibraFoto.Modules.Admin.Models
         public string? Search { get; init; }
 
         /// <summary>
-        /// Sort field (DateTaken, DateAdded, Filename).
+        /// Southern edge of the area to search, in degrees.
+        /// </summary>
+        public double? MinLatitude { get; init; }
+
+        /// <summary>
+        /// Northern edge of the area to search, in degrees.
+        /// </summary>
+        public double? MaxLatitude { get; init; }
+
+        /// <summary>
+        /// Western edge of the area to search, in degrees.
+        /// Greater than <see cref="MaxLongitude"/> when the area crosses the antimeridian.
+        /// </summary>
+        public double? MinLongitude { get; init; }
+
+        /// <summary>
+        /// Eastern edge of the area to search, in degrees.
+        /// </summary>
+        public double? MaxLongitude { get; init; }
+
+        /// <summary>
+        /// Sort field (DateTaken, DateAdded, Filename, or Date for DateTaken falling back to DateAdded).
         /// </summary>
         public string SortBy { get; init; } = "DateAdded";
 
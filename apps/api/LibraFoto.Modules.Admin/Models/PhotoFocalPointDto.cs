@@ -0,0 +1,10 @@
+namespace LibraFoto.Modules.Admin.Models
+{
+    /// <summary>
+    /// Point of interest the display keeps in frame, as fractions (0-1) of the edited image.
+    /// </summary>
+    public record PhotoFocalPointDto(
+        double X,
+        double Y
+    );
+}
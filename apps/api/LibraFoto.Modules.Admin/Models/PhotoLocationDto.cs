@@ -0,0 +1,18 @@
+namespace LibraFoto.Modules.Admin.Models
+{
+    /// <summary>
+    /// Position of a geotagged photo for the map view.
+    /// </summary>
+    /// <param name="Id">The photo ID.</param>
+    /// <param name="Filename">The photo filename.</param>
+    /// <param name="Latitude">Latitude in degrees.</param>
+    /// <param name="Longitude">Longitude in degrees.</param>
+    /// <param name="DateTaken">When the photo was taken, if known.</param>
+    public record PhotoLocationDto(
+        long Id,
+        string Filename,
+        double Latitude,
+        double Longitude,
+        DateTime? DateTaken
+    );
+}
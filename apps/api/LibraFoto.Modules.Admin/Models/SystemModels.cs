@@ -103,4 +103,12 @@ namespace LibraFoto.Modules.Admin.Models
     /// <param name="Message">Status message about the update.</param>
     /// <param name="EstimatedDowntimeSeconds">Estimated downtime in seconds.</param>
     public record UpdateTriggerResponse(string Message, int EstimatedDowntimeSeconds);
+
+    /// <summary>
+    /// Tile server settings for the admin map.
+    /// </summary>
+    /// <param name="TileUrl">Tile URL template with {z}, {x} and {y} placeholders.</param>
+    /// <param name="Attribution">Attribution shown on the map, as HTML.</param>
+    /// <param name="MaxZoom">Highest zoom level the tile server provides.</param>
+    public record MapConfigResponse(string TileUrl, string Attribution, int MaxZoom);
 }
@@ -0,0 +1,9 @@
+namespace LibraFoto.Modules.Admin.Models
+{
+    /// <summary>
+    /// Number of photos on one day of the library timeline.
+    /// </summary>
+    /// <param name="Date">The day, from DateTaken or DateAdded when the date taken is unknown.</param>
+    /// <param name="Count">The number of photos on that day.</param>
+    public record TimelineDayDto(DateTime Date, int Count);
+}
@@ -1,6 +1,7 @@
 using LibraFoto.Data;
 using LibraFoto.Data.Entities;
 using LibraFoto.Modules.Admin.Models;
+using LibraFoto.Shared.DTOs;
 using Microsoft.EntityFrameworkCore;
 
 namespace LibraFoto.Modules.Admin.Services
@@ -151,6 +152,46 @@ namespace LibraFoto.Modules.Admin.Services
             return await GetAlbumByIdAsync(albumId, ct);
         }
 
+        public async Task<PagedResult<PhotoListDto>?> GetAlbumPhotosAsync(long albumId, int page, int pageSize, CancellationToken ct = default)
+        {
+            if (!await _db.Albums.AnyAsync(a => a.Id == albumId, ct))
+            {
+                return null;
+            }
+
+            var query = _db.PhotoAlbums.Where(pa => pa.AlbumId == albumId);
+            var totalItems = await query.CountAsync(ct);
+
+            page = Math.Max(1, page);
+            pageSize = Math.Clamp(pageSize, 1, 100);
+            var totalPages = (int)Math.Ceiling(totalItems / (double)pageSize);
+
+            var photos = await query
+                .OrderBy(pa => pa.SortOrder)
+                .ThenBy(pa => pa.DateAdded)
+                .Skip((page - 1) * pageSize)
+                .Take(pageSize)
+                .Select(pa => new PhotoListDto(
+                    pa.Photo.Id,
+                    pa.Photo.Filename,
+                    pa.Photo.ThumbnailPath ?? pa.Photo.FilePath,
+                    pa.Photo.Width,
+                    pa.Photo.Height,
+                    pa.Photo.MediaType,
+                    pa.Photo.DateTaken,
+                    pa.Photo.DateAdded,
+                    pa.Photo.Location,
+                    pa.Photo.PhotoAlbums.Count,
+                    pa.Photo.PhotoTags.Count
+                ))
+                .ToArrayAsync(ct);
+
+            return new PagedResult<PhotoListDto>(
+                photos,
+                new PaginationInfo(page, pageSize, totalItems, totalPages)
+            );
+        }
+
         public async Task<BulkOperationResult> AddPhotosAsync(long albumId, long[] photoIds, CancellationToken ct = default)
         {
             var errors = new List<string>();
@@ -1,4 +1,5 @@
 using LibraFoto.Modules.Admin.Models;
+using LibraFoto.Shared.DTOs;
 
 namespace LibraFoto.Modules.Admin.Services
 {
@@ -42,6 +43,12 @@ namespace LibraFoto.Modules.Admin.Services
         /// </summary>
         Task<AlbumDto?> RemoveCoverPhotoAsync(long albumId, CancellationToken ct = default);
 
+        /// <summary>
+        /// Gets a page of the photos in an album, in album order.
+        /// Returns null if the album does not exist.
+        /// </summary>
+        Task<PagedResult<PhotoListDto>?> GetAlbumPhotosAsync(long albumId, int page, int pageSize, CancellationToken ct = default);
+
         /// <summary>
         /// Adds photos to an album.
         /// </summary>
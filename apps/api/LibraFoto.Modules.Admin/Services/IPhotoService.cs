@@ -23,6 +23,16 @@ namespace LibraFoto.Modules.Admin.Services
         /// </summary>
         Task<PhotoDetailDto?> UpdatePhotoAsync(long id, UpdatePhotoRequest request, CancellationToken ct = default);
 
+        /// <summary>
+        /// Replaces a photo's rotation, flip and crop edits.
+        /// </summary>
+        Task<PhotoDetailDto?> UpdatePhotoEditsAsync(long id, PhotoEditsDto edits, CancellationToken ct = default);
+
+        /// <summary>
+        /// Sets the point the display keeps in frame, or clears it when null.
+        /// </summary>
+        Task<PhotoDetailDto?> UpdateFocalPointAsync(long id, PhotoFocalPointDto? focalPoint, CancellationToken ct = default);
+
         /// <summary>
         /// Deletes a single photo.
         /// </summary>
@@ -57,5 +67,16 @@ namespace LibraFoto.Modules.Admin.Services
         /// Gets the total count of photos.
         /// </summary>
         Task<PhotoCountDto> GetPhotoCountAsync(CancellationToken ct = default);
+
+        /// <summary>
+        /// Gets the number of matching photos per day, newest first.
+        /// Days come from DateTaken, falling back to DateAdded, matching the Date sort.
+        /// </summary>
+        Task<IReadOnlyList<TimelineDayDto>> GetTimelineAsync(PhotoFilterRequest filter, CancellationToken ct = default);
+
+        /// <summary>
+        /// Gets the position of every geotagged photo.
+        /// </summary>
+        Task<IReadOnlyList<PhotoLocationDto>> GetPhotoLocationsAsync(CancellationToken ct = default);
     }
 }
@@ -38,40 +38,7 @@ namespace LibraFoto.Modules.Admin.Services
 
         public async Task<PagedResult<PhotoListDto>> GetPhotosAsync(PhotoFilterRequest filter, CancellationToken ct = default)
         {
-            var query = _db.Photos.AsQueryable();
-
-            // Apply filters
-            if (filter.AlbumId.HasValue)
-            {
-                query = query.Where(p => p.PhotoAlbums.Any(pa => pa.AlbumId == filter.AlbumId.Value));
-            }
-
-            if (filter.TagId.HasValue)
-            {
-                query = query.Where(p => p.PhotoTags.Any(pt => pt.TagId == filter.TagId.Value));
-            }
-
-            if (filter.DateFrom.HasValue)
-            {
-                query = query.Where(p => p.DateTaken >= filter.DateFrom.Value);
-            }
-
-            if (filter.DateTo.HasValue)
-            {
-                query = query.Where(p => p.DateTaken <= filter.DateTo.Value);
-            }
-
-            if (filter.MediaType.HasValue)
-            {
-                query = query.Where(p => p.MediaType == filter.MediaType.Value);
-            }
-
-            if (!string.IsNullOrWhiteSpace(filter.Search))
-            {
-                var search = filter.Search.ToLower();
-                query = query.Where(p => p.Filename.ToLower().Contains(search) ||
-                                         (p.Location != null && p.Location.ToLower().Contains(search)));
-            }
+            var query = ApplyFilters(_db.Photos.AsQueryable(), filter);
 
             // Get total count before pagination
             var totalItems = await query.CountAsync(ct);
@@ -85,6 +52,10 @@ namespace LibraFoto.Modules.Admin.Services
                 "filename" => filter.SortDirection?.ToLower() == "asc"
                     ? query.OrderBy(p => p.Filename)
                     : query.OrderByDescending(p => p.Filename),
+                // Ties are broken by ID so pages line up with the timeline
+                "date" => filter.SortDirection?.ToLower() == "asc"
+                    ? query.OrderBy(p => p.DateTaken ?? p.DateAdded).ThenBy(p => p.Id)
+                    : query.OrderByDescending(p => p.DateTaken ?? p.DateAdded).ThenByDescending(p => p.Id),
                 _ => filter.SortDirection?.ToLower() == "asc"
                     ? query.OrderBy(p => p.DateAdded)
                     : query.OrderByDescending(p => p.DateAdded)
@@ -119,6 +90,96 @@ namespace LibraFoto.Modules.Admin.Services
             );
         }
 
+        public async Task<IReadOnlyList<TimelineDayDto>> GetTimelineAsync(PhotoFilterRequest filter, CancellationToken ct = default)
+        {
+            return await ApplyFilters(_db.Photos.AsQueryable(), filter)
+                .GroupBy(p => (p.DateTaken ?? p.DateAdded).Date)
+                .OrderByDescending(g => g.Key)
+                .Select(g => new TimelineDayDto(g.Key, g.Count()))
+                .ToListAsync(ct);
+        }
+
+        public async Task<IReadOnlyList<PhotoLocationDto>> GetPhotoLocationsAsync(CancellationToken ct = default)
+        {
+            return await _db.Photos
+                .Where(p => p.Latitude != null && p.Longitude != null)
+                .OrderBy(p => p.Id)
+                .Select(p => new PhotoLocationDto(
+                    p.Id,
+                    p.Filename,
+                    p.Latitude!.Value,
+                    p.Longitude!.Value,
+                    p.DateTaken
+                ))
+                .ToListAsync(ct);
+        }
+
+        private static IQueryable<Photo> ApplyFilters(IQueryable<Photo> query, PhotoFilterRequest filter)
+        {
+            if (filter.AlbumId.HasValue)
+            {
+                query = query.Where(p => p.PhotoAlbums.Any(pa => pa.AlbumId == filter.AlbumId.Value));
+            }
+
+            if (filter.TagId.HasValue)
+            {
+                query = query.Where(p => p.PhotoTags.Any(pt => pt.TagId == filter.TagId.Value));
+            }
+
+            if (filter.DateFrom.HasValue)
+            {
+                query = query.Where(p => p.DateTaken >= filter.DateFrom.Value);
+            }
+
+            if (filter.DateTo.HasValue)
+            {
+                query = query.Where(p => p.DateTaken <= filter.DateTo.Value);
+            }
+
+            if (filter.MediaType.HasValue)
+            {
+                query = query.Where(p => p.MediaType == filter.MediaType.Value);
+            }
+
+            if (!string.IsNullOrWhiteSpace(filter.Search))
+            {
+                var search = filter.Search.ToLower();
+                query = query.Where(p => p.Filename.ToLower().Contains(search) ||
+                                         (p.Location != null && p.Location.ToLower().Contains(search)));
+            }
+
+            if (filter.MinLatitude.HasValue)
+            {
+                query = query.Where(p => p.Latitude >= filter.MinLatitude.Value);
+            }
+
+            if (filter.MaxLatitude.HasValue)
+            {
+                query = query.Where(p => p.Latitude <= filter.MaxLatitude.Value);
+            }
+
+            if (filter.MinLongitude > filter.MaxLongitude)
+            {
+                // The area wraps around the antimeridian
+                query = query.Where(p => p.Longitude >= filter.MinLongitude!.Value ||
+                                         p.Longitude <= filter.MaxLongitude!.Value);
+            }
+            else
+            {
+                if (filter.MinLongitude.HasValue)
+                {
+                    query = query.Where(p => p.Longitude >= filter.MinLongitude.Value);
+                }
+
+                if (filter.MaxLongitude.HasValue)
+                {
+                    query = query.Where(p => p.Longitude <= filter.MaxLongitude.Value);
+                }
+            }
+
+            return query;
+        }
+
         public async Task<PhotoDetailDto?> GetPhotoByIdAsync(long id, CancellationToken ct = default)
         {
             return await _db.Photos
@@ -142,7 +203,16 @@ namespace LibraFoto.Modules.Admin.Services
                     p.ProviderId,
                     p.Provider != null ? p.Provider.Name : null,
                     p.PhotoAlbums.Select(pa => new AlbumSummaryDto(pa.Album.Id, pa.Album.Name)).ToArray(),
-                    p.PhotoTags.Select(pt => new TagSummaryDto(pt.Tag.Id, pt.Tag.Name, pt.Tag.Color)).ToArray()
+                    p.PhotoTags.Select(pt => new TagSummaryDto(pt.Tag.Id, pt.Tag.Name, pt.Tag.Color)).ToArray(),
+                    new PhotoEditsDto(
+                        p.Rotation,
+                        p.FlipHorizontal,
+                        p.CropX != null && p.CropY != null && p.CropWidth != null && p.CropHeight != null
+                            ? new PhotoCropDto(p.CropX.Value, p.CropY.Value, p.CropWidth.Value, p.CropHeight.Value)
+                            : null),
+                    p.FocalPointX != null && p.FocalPointY != null
+                        ? new PhotoFocalPointDto(p.FocalPointX.Value, p.FocalPointY.Value)
+                        : null
                 ))
                 .FirstOrDefaultAsync(ct);
         }
@@ -175,6 +245,42 @@ namespace LibraFoto.Modules.Admin.Services
             return await GetPhotoByIdAsync(id, ct);
         }
 
+        public async Task<PhotoDetailDto?> UpdatePhotoEditsAsync(long id, PhotoEditsDto edits, CancellationToken ct = default)
+        {
+            var photo = await _db.Photos.FindAsync([id], ct);
+            if (photo is null)
+            {
+                return null;
+            }
+
+            photo.Rotation = edits.Rotation;
+            photo.FlipHorizontal = edits.FlipHorizontal;
+            photo.CropX = edits.Crop?.X;
+            photo.CropY = edits.Crop?.Y;
+            photo.CropWidth = edits.Crop?.Width;
+            photo.CropHeight = edits.Crop?.Height;
+
+            await _db.SaveChangesAsync(ct);
+
+            return await GetPhotoByIdAsync(id, ct);
+        }
+
+        public async Task<PhotoDetailDto?> UpdateFocalPointAsync(long id, PhotoFocalPointDto? focalPoint, CancellationToken ct = default)
+        {
+            var photo = await _db.Photos.FindAsync([id], ct);
+            if (photo is null)
+            {
+                return null;
+            }
+
+            photo.FocalPointX = focalPoint?.X;
+            photo.FocalPointY = focalPoint?.Y;
+
+            await _db.SaveChangesAsync(ct);
+
+            return await GetPhotoByIdAsync(id, ct);
+        }
+
         public async Task<bool> DeletePhotoAsync(long id, CancellationToken ct = default)
         {
             var photo = await _db.Photos.FindAsync([id], ct);
@@ -19,9 +19,24 @@ namespace LibraFoto.Modules.Display
             // Register display settings service (scoped for per-request database context)
             services.AddScoped<IDisplaySettingsService, DisplaySettingsService>();
 
+            // Register display device registry (scoped for per-request database context)
+            services.AddScoped<IDisplayDeviceService, DisplayDeviceService>();
+
+            // Register display schedule service (scoped for per-request database context)
+            services.AddScoped<IDisplayScheduleService, DisplayScheduleService>();
+
             // Register slideshow service as singleton (maintains state across requests, creates scoped DbContext internally)
             services.AddSingleton<ISlideshowService, SlideshowService>();
 
+            // Register display event fan-out as singleton (shared subscriber list across requests)
+            services.AddSingleton<IDisplayEventService, DisplayEventService>();
+
+            // Register display status tracking as singleton (latest report shared across requests)
+            services.AddSingleton<IDisplayStatusService, DisplayStatusService>();
+
+            // Watch the photo library and notify connected displays of changes
+            services.AddHostedService<PhotoLibraryWatcher>();
+
             return services;
         }
 
@@ -39,6 +54,18 @@ namespace LibraFoto.Modules.Display
             // Map display config endpoints (/api/display/config/*)
             app.MapDisplayConfigEndpoints();
 
+            // Map display event stream endpoints (/api/display/events)
+            app.MapDisplayEventEndpoints();
+
+            // Map display remote control endpoints (/api/display/remote/*)
+            app.MapDisplayRemoteEndpoints();
+
+            // Map display device registry endpoints (/api/display/devices/*)
+            app.MapDisplayDeviceEndpoints();
+
+            // Map display schedule endpoints (/api/display/schedule)
+            app.MapDisplayScheduleEndpoints();
+
             return app;
         }
     }
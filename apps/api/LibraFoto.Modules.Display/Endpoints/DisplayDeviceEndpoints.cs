@@ -0,0 +1,237 @@
+using LibraFoto.Modules.Display.Models;
+using LibraFoto.Modules.Display.Services;
+using LibraFoto.Shared.DTOs;
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Http.HttpResults;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Routing;
+
+namespace LibraFoto.Modules.Display.Endpoints
+{
+    /// <summary>
+    /// Endpoints for the display device registry.
+    /// Displays register themselves on startup and send health heartbeats; admins name them,
+    /// assign settings profiles and check their health.
+    /// </summary>
+    public static class DisplayDeviceEndpoints
+    {
+        private const int MaxDeviceIdLength = 64;
+        private const int MaxNameLength = 100;
+
+        /// <summary>
+        /// Maps display device endpoints.
+        /// </summary>
+        public static IEndpointRouteBuilder MapDisplayDeviceEndpoints(this IEndpointRouteBuilder app)
+        {
+            var group = app.MapGroup("/api/display/devices")
+                .WithTags("Display Devices");
+
+            // Called by the display frontend, which does not authenticate
+            group.MapPost("/register", RegisterDevice)
+                .WithName("RegisterDisplayDevice")
+                .WithSummary("Register a display device")
+                .WithDescription("Registers a display by its stable device ID, or refreshes its last-seen time.");
+
+            group.MapGet("/{deviceId}/settings", GetDeviceSettings)
+                .WithName("GetDisplayDeviceSettings")
+                .WithSummary("Get settings for a device")
+                .WithDescription("Returns the settings profile assigned to the device, then the profile selected by the display's schedule, then the active profile.");
+
+            group.MapPost("/{deviceId}/heartbeat", RecordHeartbeat)
+                .WithName("RecordDisplayDeviceHeartbeat")
+                .WithSummary("Report device health")
+                .WithDescription("Called by the display every minute with its uptime, last successful fetch, error counts, cache usage, screen size, memory use and new errors.");
+
+            group.MapGet("/health", GetDeviceHealth)
+                .WithName("GetDisplayDeviceHealth")
+                .WithSummary("Get display device health")
+                .WithDescription("Returns every registered device with its online, stale or offline status, latest heartbeat and recent errors.")
+                .RequireAuthorization();
+
+            group.MapGet("/", GetDevices)
+                .WithName("GetDisplayDevices")
+                .WithSummary("Get all display devices")
+                .WithDescription("Returns all registered devices with their assigned profile, last-seen time and current photo.")
+                .RequireAuthorization();
+
+            group.MapPut("/{id:long}", UpdateDevice)
+                .WithName("UpdateDisplayDevice")
+                .WithSummary("Update a display device")
+                .WithDescription("Renames a device and assigns its settings profile.")
+                .RequireAuthorization();
+
+            group.MapDelete("/{id:long}", DeleteDevice)
+                .WithName("DeleteDisplayDevice")
+                .WithSummary("Delete a display device")
+                .WithDescription("Removes a device from the registry. It registers again the next time it starts.")
+                .RequireAuthorization();
+
+            return app;
+        }
+
+        /// <summary>
+        /// Registers a display device.
+        /// </summary>
+        private static async Task<Results<Ok<DisplayDeviceDto>, BadRequest<ApiError>>> RegisterDevice(
+            [FromBody] DeviceRegistrationRequest request,
+            [FromServices] IDisplayDeviceService deviceService,
+            CancellationToken cancellationToken)
+        {
+            if (string.IsNullOrWhiteSpace(request.DeviceId) || request.DeviceId.Length > MaxDeviceIdLength)
+            {
+                return TypedResults.BadRequest(new ApiError(
+                    "VALIDATION_ERROR",
+                    $"Device ID is required and cannot exceed {MaxDeviceIdLength} characters."));
+            }
+
+            if (request.Name != null && request.Name.Length > MaxNameLength)
+            {
+                return TypedResults.BadRequest(new ApiError(
+                    "VALIDATION_ERROR",
+                    $"Device name cannot exceed {MaxNameLength} characters."));
+            }
+
+            var device = await deviceService.RegisterAsync(request, cancellationToken);
+            return TypedResults.Ok(device);
+        }
+
+        /// <summary>
+        /// Gets the settings a device should use.
+        /// </summary>
+        private static async Task<Ok<DisplaySettingsDto>> GetDeviceSettings(
+            string deviceId,
+            [FromQuery] long? scheduledSettingsId,
+            [FromServices] IDisplayDeviceService deviceService,
+            CancellationToken cancellationToken)
+        {
+            var settings = await deviceService.GetSettingsForDeviceAsync(deviceId, scheduledSettingsId, cancellationToken);
+            return TypedResults.Ok(settings);
+        }
+
+        /// <summary>
+        /// Records a health heartbeat from a display.
+        /// </summary>
+        private static async Task<Results<NoContent, NotFound<ApiError>, BadRequest<ApiError>>> RecordHeartbeat(
+            string deviceId,
+            [FromBody] DisplayHeartbeatRequest request,
+            [FromServices] IDisplayDeviceService deviceService,
+            CancellationToken cancellationToken)
+        {
+            if (request.UptimeSeconds < 0 || request.ErrorCount < 0 ||
+                request.ScreenWidth < 0 || request.ScreenHeight < 0 ||
+                request.CacheUsageBytes < 0 || request.JsHeapUsedBytes < 0)
+            {
+                return TypedResults.BadRequest(new ApiError(
+                    "VALIDATION_ERROR",
+                    "Heartbeat values cannot be negative."));
+            }
+
+            if (request.Errors.Count > DisplayDeviceService.MaxStoredErrors)
+            {
+                return TypedResults.BadRequest(new ApiError(
+                    "VALIDATION_ERROR",
+                    $"A heartbeat can report at most {DisplayDeviceService.MaxStoredErrors} errors."));
+            }
+
+            var recorded = await deviceService.RecordHeartbeatAsync(deviceId, request, cancellationToken);
+
+            // Lets a display that was removed from the registry know to register again
+            if (!recorded)
+            {
+                return TypedResults.NotFound(new ApiError(
+                    "DEVICE_NOT_FOUND",
+                    $"Display device {deviceId} is not registered."));
+            }
+
+            return TypedResults.NoContent();
+        }
+
+        /// <summary>
+        /// Gets the health of all registered devices.
+        /// </summary>
+        private static async Task<Ok<IReadOnlyList<DisplayDeviceHealthDto>>> GetDeviceHealth(
+            [FromServices] IDisplayDeviceService deviceService,
+            CancellationToken cancellationToken)
+        {
+            var health = await deviceService.GetHealthAsync(cancellationToken);
+            return TypedResults.Ok(health);
+        }
+
+        /// <summary>
+        /// Gets all registered devices.
+        /// </summary>
+        private static async Task<Ok<IReadOnlyList<DisplayDeviceDto>>> GetDevices(
+            [FromServices] IDisplayDeviceService deviceService,
+            CancellationToken cancellationToken)
+        {
+            var devices = await deviceService.GetAllAsync(cancellationToken);
+            return TypedResults.Ok(devices);
+        }
+
+        /// <summary>
+        /// Updates a device's name and settings profile.
+        /// </summary>
+        private static async Task<Results<Ok<DisplayDeviceDto>, NotFound<ApiError>, BadRequest<ApiError>>> UpdateDevice(
+            long id,
+            [FromBody] UpdateDisplayDeviceRequest request,
+            [FromServices] IDisplayDeviceService deviceService,
+            [FromServices] IDisplaySettingsService settingsService,
+            [FromServices] IDisplayEventService eventService,
+            CancellationToken cancellationToken)
+        {
+            if (string.IsNullOrWhiteSpace(request.Name) || request.Name.Length > MaxNameLength)
+            {
+                return TypedResults.BadRequest(new ApiError(
+                    "VALIDATION_ERROR",
+                    $"Device name is required and cannot exceed {MaxNameLength} characters."));
+            }
+
+            if (request.DisplaySettingsId.HasValue &&
+                await settingsService.GetByIdAsync(request.DisplaySettingsId.Value, cancellationToken) == null)
+            {
+                return TypedResults.BadRequest(new ApiError(
+                    "SETTINGS_NOT_FOUND",
+                    $"Display settings with ID {request.DisplaySettingsId.Value} not found."));
+            }
+
+            var device = await deviceService.UpdateAsync(id, request, cancellationToken);
+
+            if (device == null)
+            {
+                return TypedResults.NotFound(new ApiError(
+                    "DEVICE_NOT_FOUND",
+                    $"Display device with ID {id} not found."));
+            }
+
+            // Tell connected displays to reload so the device picks up its new profile
+            eventService.Publish(new DisplayEvent { Type = DisplayEventTypes.SettingsChanged });
+
+            return TypedResults.Ok(device);
+        }
+
+        /// <summary>
+        /// Deletes a device from the registry.
+        /// </summary>
+        private static async Task<Results<NoContent, NotFound<ApiError>>> DeleteDevice(
+            long id,
+            [FromServices] IDisplayDeviceService deviceService,
+            [FromServices] IDisplayEventService eventService,
+            CancellationToken cancellationToken)
+        {
+            var deleted = await deviceService.DeleteAsync(id, cancellationToken);
+
+            if (!deleted)
+            {
+                return TypedResults.NotFound(new ApiError(
+                    "DEVICE_NOT_FOUND",
+                    $"Display device with ID {id} not found."));
+            }
+
+            // The device falls back to the active profile
+            eventService.Publish(new DisplayEvent { Type = DisplayEventTypes.SettingsChanged });
+
+            return TypedResults.NoContent();
+        }
+    }
+}
@@ -0,0 +1,56 @@
+using System.Net.ServerSentEvents;
+using LibraFoto.Modules.Display.Models;
+using LibraFoto.Modules.Display.Services;
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Http.HttpResults;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Routing;
+
+namespace LibraFoto.Modules.Display.Endpoints
+{
+    /// <summary>
+    /// Endpoints for the display event stream.
+    /// Pushes settings changes, library changes and remote commands to displays.
+    /// </summary>
+    public static class DisplayEventEndpoints
+    {
+        /// <summary>
+        /// Maps display event endpoints.
+        /// </summary>
+        public static IEndpointRouteBuilder MapDisplayEventEndpoints(this IEndpointRouteBuilder app)
+        {
+            var group = app.MapGroup("/api/display/events")
+                .WithTags("Display Events");
+
+            group.MapGet("/", GetEventStream)
+                .WithName("GetDisplayEventStream")
+                .WithSummary("Subscribe to display events")
+                .WithDescription("Server-sent event stream of settings changes, photo library changes and remote commands.");
+
+            return app;
+        }
+
+        /// <summary>
+        /// Streams display events to the caller until the connection closes.
+        /// </summary>
+        private static ServerSentEventsResult<DisplayEvent> GetEventStream(
+            HttpContext httpContext,
+            [FromServices] IDisplayEventService eventService,
+            CancellationToken cancellationToken)
+        {
+            // Stop nginx from buffering the stream
+            httpContext.Response.Headers["X-Accel-Buffering"] = "no";
+
+            return TypedResults.ServerSentEvents(ToSseItems(eventService.SubscribeAsync(cancellationToken)));
+        }
+
+        private static async IAsyncEnumerable<SseItem<DisplayEvent>> ToSseItems(IAsyncEnumerable<DisplayEvent> events)
+        {
+            await foreach (var displayEvent in events)
+            {
+                yield return new SseItem<DisplayEvent>(displayEvent, displayEvent.Type);
+            }
+        }
+    }
+}
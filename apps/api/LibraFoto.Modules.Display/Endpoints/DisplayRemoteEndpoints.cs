@@ -0,0 +1,123 @@
+using LibraFoto.Modules.Display.Models;
+using LibraFoto.Modules.Display.Services;
+using LibraFoto.Shared.DTOs;
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Http.HttpResults;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Routing;
+
+namespace LibraFoto.Modules.Display.Endpoints
+{
+    /// <summary>
+    /// Endpoints for remote control of running displays.
+    /// Commands are pushed to displays over the display event stream.
+    /// </summary>
+    public static class DisplayRemoteEndpoints
+    {
+        /// <summary>
+        /// Maps display remote control endpoints.
+        /// </summary>
+        public static IEndpointRouteBuilder MapDisplayRemoteEndpoints(this IEndpointRouteBuilder app)
+        {
+            var group = app.MapGroup("/api/display/remote")
+                .WithTags("Display Remote");
+
+            group.MapPost("/commands", SendCommand)
+                .WithName("SendDisplayRemoteCommand")
+                .WithSummary("Send a remote command")
+                .WithDescription("Sends next, previous, pause, resume or show-photo to connected displays.")
+                .RequireAuthorization();
+
+            group.MapGet("/status", GetStatus)
+                .WithName("GetDisplayRemoteStatus")
+                .WithSummary("Get display status")
+                .WithDescription("Returns the photo currently on screen and whether the slideshow is paused.")
+                .RequireAuthorization();
+
+            // Reported by the display frontend, which does not authenticate
+            group.MapPut("/status", ReportStatus)
+                .WithName("ReportDisplayRemoteStatus")
+                .WithSummary("Report display status")
+                .WithDescription("Called by the display frontend whenever the photo or pause state changes.");
+
+            return app;
+        }
+
+        /// <summary>
+        /// Sends a remote command to connected displays.
+        /// </summary>
+        private static async Task<Results<Ok<RemoteCommandResponse>, BadRequest<ApiError>, NotFound<ApiError>>> SendCommand(
+            [FromBody] RemoteCommandRequest request,
+            [FromServices] ISlideshowService slideshowService,
+            [FromServices] IDisplayEventService eventService,
+            CancellationToken cancellationToken)
+        {
+            if (!Enum.IsDefined(request.Command))
+            {
+                return TypedResults.BadRequest(new ApiError(
+                    "VALIDATION_ERROR",
+                    "Unknown remote command."));
+            }
+
+            PhotoDto? photo = null;
+            if (request.Command == RemoteCommandType.ShowPhoto)
+            {
+                if (!request.PhotoId.HasValue)
+                {
+                    return TypedResults.BadRequest(new ApiError(
+                        "VALIDATION_ERROR",
+                        "Photo ID is required to show a photo."));
+                }
+
+                photo = await slideshowService.GetPhotoByIdAsync(request.PhotoId.Value, cancellationToken);
+                if (photo == null)
+                {
+                    return TypedResults.NotFound(new ApiError(
+                        "PHOTO_NOT_FOUND",
+                        $"Photo with ID {request.PhotoId.Value} not found."));
+                }
+            }
+
+            eventService.Publish(new DisplayEvent
+            {
+                Type = DisplayEventTypes.RemoteCommand,
+                Command = request.Command,
+                Photo = photo
+            });
+
+            return TypedResults.Ok(new RemoteCommandResponse { DisplayCount = eventService.SubscriberCount });
+        }
+
+        /// <summary>
+        /// Gets the latest status reported by a display.
+        /// </summary>
+        private static async Task<Ok<DisplayStatusDto>> GetStatus(
+            [FromServices] IDisplayStatusService statusService,
+            CancellationToken cancellationToken)
+        {
+            var status = await statusService.GetStatusAsync(cancellationToken);
+            return TypedResults.Ok(status);
+        }
+
+        /// <summary>
+        /// Records the status reported by a display.
+        /// </summary>
+        private static async Task<NoContent> ReportStatus(
+            [FromBody] DisplayStatusReport report,
+            [FromServices] IDisplayStatusService statusService,
+            [FromServices] IDisplayDeviceService deviceService,
+            CancellationToken cancellationToken)
+        {
+            statusService.Report(report);
+
+            // Registered devices also track what they are showing for the devices page
+            if (!string.IsNullOrEmpty(report.DeviceId))
+            {
+                await deviceService.RecordStatusAsync(report.DeviceId, report.PhotoId, cancellationToken);
+            }
+
+            return TypedResults.NoContent();
+        }
+    }
+}
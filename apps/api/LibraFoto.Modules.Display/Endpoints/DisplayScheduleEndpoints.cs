@@ -0,0 +1,120 @@
+using System.Globalization;
+using LibraFoto.Modules.Display.Models;
+using LibraFoto.Modules.Display.Services;
+using LibraFoto.Shared.DTOs;
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Http.HttpResults;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Routing;
+
+namespace LibraFoto.Modules.Display.Endpoints
+{
+    /// <summary>
+    /// Endpoints for the time-of-day display schedule.
+    /// Rules switch settings profiles and start quiet hours; displays evaluate them locally.
+    /// </summary>
+    public static class DisplayScheduleEndpoints
+    {
+        /// <summary>
+        /// Bitmask with a bit set for every day of the week.
+        /// </summary>
+        private const int AllDays = 0b111_1111;
+
+        /// <summary>
+        /// Maps display schedule endpoints.
+        /// </summary>
+        public static IEndpointRouteBuilder MapDisplayScheduleEndpoints(this IEndpointRouteBuilder app)
+        {
+            var group = app.MapGroup("/api/display/schedule")
+                .WithTags("Display Schedule");
+
+            // Read by the display frontend, which does not authenticate
+            group.MapGet("/", GetSchedule)
+                .WithName("GetDisplaySchedule")
+                .WithSummary("Get the display schedule")
+                .WithDescription("Returns the time-of-day rules that switch profiles and start quiet hours.");
+
+            group.MapPut("/", UpdateSchedule)
+                .WithName("UpdateDisplaySchedule")
+                .WithSummary("Replace the display schedule")
+                .WithDescription("Replaces all schedule rules. Rules are evaluated in the order given.")
+                .RequireAuthorization();
+
+            return app;
+        }
+
+        /// <summary>
+        /// Gets all schedule rules.
+        /// </summary>
+        private static async Task<Ok<IReadOnlyList<DisplayScheduleRuleDto>>> GetSchedule(
+            [FromServices] IDisplayScheduleService scheduleService,
+            CancellationToken cancellationToken)
+        {
+            var rules = await scheduleService.GetRulesAsync(cancellationToken);
+            return TypedResults.Ok(rules);
+        }
+
+        /// <summary>
+        /// Replaces all schedule rules.
+        /// </summary>
+        private static async Task<Results<Ok<IReadOnlyList<DisplayScheduleRuleDto>>, BadRequest<ApiError>>> UpdateSchedule(
+            [FromBody] UpdateDisplayScheduleRequest request,
+            [FromServices] IDisplayScheduleService scheduleService,
+            [FromServices] IDisplaySettingsService settingsService,
+            [FromServices] IDisplayEventService eventService,
+            CancellationToken cancellationToken)
+        {
+            foreach (var rule in request.Rules)
+            {
+                if (rule.DaysOfWeek is < 1 or > AllDays)
+                {
+                    return TypedResults.BadRequest(new ApiError(
+                        "VALIDATION_ERROR",
+                        "Each rule must apply to at least one day of the week."));
+                }
+
+                if (!IsValidTime(rule.StartTime) || !IsValidTime(rule.EndTime))
+                {
+                    return TypedResults.BadRequest(new ApiError(
+                        "VALIDATION_ERROR",
+                        "Start and end times must use the 24-hour HH:mm format."));
+                }
+
+                if (rule.DisplaySettingsId.HasValue == rule.QuietMode.HasValue)
+                {
+                    return TypedResults.BadRequest(new ApiError(
+                        "VALIDATION_ERROR",
+                        "Each rule must either activate a profile or start quiet hours."));
+                }
+
+                if (rule.QuietMode.HasValue && !Enum.IsDefined(rule.QuietMode.Value))
+                {
+                    return TypedResults.BadRequest(new ApiError(
+                        "VALIDATION_ERROR",
+                        "Unknown quiet hours mode."));
+                }
+
+                if (rule.DisplaySettingsId.HasValue &&
+                    await settingsService.GetByIdAsync(rule.DisplaySettingsId.Value, cancellationToken) == null)
+                {
+                    return TypedResults.BadRequest(new ApiError(
+                        "SETTINGS_NOT_FOUND",
+                        $"Display settings with ID {rule.DisplaySettingsId.Value} not found."));
+                }
+            }
+
+            var rules = await scheduleService.ReplaceRulesAsync(request.Rules, cancellationToken);
+
+            // Tell connected displays to reload the schedule
+            eventService.Publish(new DisplayEvent { Type = DisplayEventTypes.ScheduleChanged });
+
+            return TypedResults.Ok(rules);
+        }
+
+        private static bool IsValidTime(string value)
+        {
+            return TimeOnly.TryParseExact(value, "HH:mm", CultureInfo.InvariantCulture, DateTimeStyles.None, out _);
+        }
+    }
+}
@@ -1,3 +1,4 @@
+using LibraFoto.Data.Enums;
 using LibraFoto.Modules.Display.Models;
 using LibraFoto.Modules.Display.Services;
 using LibraFoto.Shared.DTOs;
@@ -110,6 +111,7 @@ namespace LibraFoto.Modules.Display.Endpoints
             [FromBody] UpdateDisplaySettingsRequest request,
             [FromServices] IDisplaySettingsService settingsService,
             [FromServices] ISlideshowService slideshowService,
+            [FromServices] IDisplayEventService eventService,
             CancellationToken cancellationToken)
         {
             // Validate slide duration
@@ -128,6 +130,44 @@ namespace LibraFoto.Modules.Display.Endpoints
                     "Transition duration cannot be negative."));
             }
 
+            // Validate transition
+            if (request.Transition.HasValue && !Enum.IsDefined(request.Transition.Value))
+            {
+                return TypedResults.BadRequest(new ApiError(
+                    "VALIDATION_ERROR",
+                    "Unknown transition."));
+            }
+
+            // Validate collage layout
+            if (request.CollageLayout.HasValue && !Enum.IsDefined(request.CollageLayout.Value))
+            {
+                return TypedResults.BadRequest(new ApiError(
+                    "VALIDATION_ERROR",
+                    "Unknown collage layout."));
+            }
+
+            // Validate overlay opacity
+            if (request.OverlayOpacity.HasValue && (request.OverlayOpacity.Value < 0 || request.OverlayOpacity.Value > 100))
+            {
+                return TypedResults.BadRequest(new ApiError(
+                    "VALIDATION_ERROR",
+                    "Overlay opacity must be between 0 and 100."));
+            }
+
+            // Validate video playback
+            var videoError = ValidateVideoSettings(request);
+            if (videoError != null)
+            {
+                return TypedResults.BadRequest(new ApiError("VALIDATION_ERROR", videoError));
+            }
+
+            // Validate playlist sources
+            var playlistError = ValidatePlaylistSources(request, isNew: false);
+            if (playlistError != null)
+            {
+                return TypedResults.BadRequest(new ApiError("VALIDATION_ERROR", playlistError));
+            }
+
             var settings = await settingsService.UpdateAsync(id, request, cancellationToken);
 
             if (settings == null)
@@ -140,6 +180,9 @@ namespace LibraFoto.Modules.Display.Endpoints
             // Reset slideshow sequence when settings change
             slideshowService.ResetSequence(id);
 
+            // Tell connected displays to reload their settings
+            eventService.Publish(new DisplayEvent { Type = DisplayEventTypes.SettingsChanged, SettingsId = id });
+
             return TypedResults.Ok(settings);
         }
 
@@ -167,6 +210,44 @@ namespace LibraFoto.Modules.Display.Endpoints
                     "Transition duration cannot be negative."));
             }
 
+            // Validate transition
+            if (request.Transition.HasValue && !Enum.IsDefined(request.Transition.Value))
+            {
+                return TypedResults.BadRequest(new ApiError(
+                    "VALIDATION_ERROR",
+                    "Unknown transition."));
+            }
+
+            // Validate collage layout
+            if (request.CollageLayout.HasValue && !Enum.IsDefined(request.CollageLayout.Value))
+            {
+                return TypedResults.BadRequest(new ApiError(
+                    "VALIDATION_ERROR",
+                    "Unknown collage layout."));
+            }
+
+            // Validate overlay opacity
+            if (request.OverlayOpacity.HasValue && (request.OverlayOpacity.Value < 0 || request.OverlayOpacity.Value > 100))
+            {
+                return TypedResults.BadRequest(new ApiError(
+                    "VALIDATION_ERROR",
+                    "Overlay opacity must be between 0 and 100."));
+            }
+
+            // Validate video playback
+            var videoError = ValidateVideoSettings(request);
+            if (videoError != null)
+            {
+                return TypedResults.BadRequest(new ApiError("VALIDATION_ERROR", videoError));
+            }
+
+            // Validate playlist sources
+            var playlistError = ValidatePlaylistSources(request, isNew: true);
+            if (playlistError != null)
+            {
+                return TypedResults.BadRequest(new ApiError("VALIDATION_ERROR", playlistError));
+            }
+
             var settings = await settingsService.CreateAsync(request, cancellationToken);
 
             return TypedResults.Created($"/api/display/settings/{settings.Id}", settings);
@@ -178,6 +259,7 @@ namespace LibraFoto.Modules.Display.Endpoints
         private static async Task<Results<NoContent, NotFound<ApiError>, BadRequest<ApiError>>> DeleteSettings(
             long id,
             [FromServices] IDisplaySettingsService settingsService,
+            [FromServices] IDisplayEventService eventService,
             CancellationToken cancellationToken)
         {
             var deleted = await settingsService.DeleteAsync(id, cancellationToken);
@@ -199,6 +281,9 @@ namespace LibraFoto.Modules.Display.Endpoints
                     "Cannot delete the last display settings configuration."));
             }
 
+            // Deleting the active settings activates another configuration
+            eventService.Publish(new DisplayEvent { Type = DisplayEventTypes.SettingsChanged, SettingsId = id });
+
             return TypedResults.NoContent();
         }
 
@@ -209,6 +294,7 @@ namespace LibraFoto.Modules.Display.Endpoints
             long id,
             [FromServices] IDisplaySettingsService settingsService,
             [FromServices] ISlideshowService slideshowService,
+            [FromServices] IDisplayEventService eventService,
             CancellationToken cancellationToken)
         {
             var settings = await settingsService.SetActiveAsync(id, cancellationToken);
@@ -223,7 +309,73 @@ namespace LibraFoto.Modules.Display.Endpoints
             // Reset slideshow to use new active settings
             slideshowService.ResetSequence(null);
 
+            eventService.Publish(new DisplayEvent { Type = DisplayEventTypes.SettingsChanged, SettingsId = id });
+
             return TypedResults.Ok(settings);
         }
+
+        /// <summary>
+        /// Checks the video playback settings in a request, returning an error message or null.
+        /// </summary>
+        private static string? ValidateVideoSettings(UpdateDisplaySettingsRequest request)
+        {
+            if (request.VideoVolume is < 0 or > 100)
+            {
+                return "Video volume must be between 0 and 100.";
+            }
+
+            if (request.MaxVideoDuration < 0)
+            {
+                return "Max video duration cannot be negative.";
+            }
+
+            if (request.VideoLoopCount is < 1 or > 10)
+            {
+                return "Video loop count must be between 1 and 10.";
+            }
+
+            return null;
+        }
+
+        /// <summary>
+        /// Checks the playlist sources in a request, returning an error message or null.
+        /// </summary>
+        private static string? ValidatePlaylistSources(UpdateDisplaySettingsRequest request, bool isNew)
+        {
+            var sources = request.PlaylistSources ?? [];
+
+            foreach (var source in sources)
+            {
+                if (source.AlbumId.HasValue == source.TagId.HasValue)
+                {
+                    return "Each playlist source must be either an album or a tag.";
+                }
+
+                if (source.IsExcluded && source.AlbumId.HasValue)
+                {
+                    return "Only tags can be excluded from a playlist.";
+                }
+
+                if (source.Weight is < 1 or > 10)
+                {
+                    return "Playlist source weight must be between 1 and 10.";
+                }
+
+                if (source.DateFrom > source.DateTo)
+                {
+                    return "Playlist source start date must not be after its end date.";
+                }
+            }
+
+            // Existing sources are kept when an update leaves them out
+            if (request.SourceType == SourceType.Playlist &&
+                (request.PlaylistSources != null || isNew) &&
+                !sources.Any(s => !s.IsExcluded))
+            {
+                return "A playlist needs at least one album or tag to show.";
+            }
+
+            return null;
+        }
     }
 }
@@ -48,6 +48,11 @@ namespace LibraFoto.Modules.Display.Endpoints
                 .WithSummary("Reset the slideshow sequence")
                 .WithDescription("Resets the slideshow to the beginning. Useful after settings changes.");
 
+            group.MapPost("/{id:long}/favorite", AddToFavorites)
+                .WithName("AddDisplayPhotoToFavorites")
+                .WithSummary("Mark a photo as favorite")
+                .WithDescription("Adds the photo to the Favorites tag. Used by the display's on-screen controls.");
+
             return app;
         }
 
@@ -130,6 +135,24 @@ namespace LibraFoto.Modules.Display.Endpoints
 
             return TypedResults.Ok(new ResetResponse(true, "Slideshow sequence has been reset."));
         }
+
+        /// <summary>
+        /// Adds a photo to the Favorites tag.
+        /// </summary>
+        private static async Task<Results<NoContent, NotFound<ApiError>>> AddToFavorites(
+            long id,
+            [FromServices] ISlideshowService slideshowService,
+            CancellationToken cancellationToken)
+        {
+            if (!await slideshowService.AddToFavoritesAsync(id, cancellationToken))
+            {
+                return TypedResults.NotFound(new ApiError(
+                    "PHOTO_NOT_FOUND",
+                    $"Photo with ID {id} not found."));
+            }
+
+            return TypedResults.NoContent();
+        }
     }
 
     /// <summary>
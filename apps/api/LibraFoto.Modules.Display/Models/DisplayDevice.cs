@@ -0,0 +1,295 @@
+namespace LibraFoto.Modules.Display.Models
+{
+    /// <summary>
+    /// Registered display device with its assigned settings profile.
+    /// </summary>
+    public record DisplayDeviceDto
+    {
+        /// <summary>
+        /// Unique identifier.
+        /// </summary>
+        public long Id { get; init; }
+
+        /// <summary>
+        /// Stable identifier generated by the display.
+        /// </summary>
+        public string DeviceId { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Friendly name for the device.
+        /// </summary>
+        public string Name { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Assigned settings profile. Null means the active profile is used.
+        /// </summary>
+        public long? DisplaySettingsId { get; init; }
+
+        /// <summary>
+        /// Name of the assigned settings profile, if any.
+        /// </summary>
+        public string? DisplaySettingsName { get; init; }
+
+        /// <summary>
+        /// Photo the device last reported as showing.
+        /// </summary>
+        public long? CurrentPhotoId { get; init; }
+
+        /// <summary>
+        /// When the device first registered (UTC).
+        /// </summary>
+        public DateTime DateRegistered { get; init; }
+
+        /// <summary>
+        /// When the device last registered or reported its status (UTC).
+        /// </summary>
+        public DateTime LastSeenAt { get; init; }
+    }
+
+    /// <summary>
+    /// Request sent by a display when it starts up.
+    /// </summary>
+    public record DeviceRegistrationRequest
+    {
+        /// <summary>
+        /// Stable identifier generated by the display.
+        /// </summary>
+        public string DeviceId { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Suggested friendly name. Only used when the device registers for the first time.
+        /// </summary>
+        public string? Name { get; init; }
+    }
+
+    /// <summary>
+    /// Request to rename a device or change its settings profile.
+    /// </summary>
+    public record UpdateDisplayDeviceRequest
+    {
+        /// <summary>
+        /// Friendly name for the device.
+        /// </summary>
+        public string Name { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Settings profile to assign. Null to follow the active profile.
+        /// </summary>
+        public long? DisplaySettingsId { get; init; }
+    }
+
+    /// <summary>
+    /// Health of a device based on how recently it was heard from.
+    /// </summary>
+    public enum DisplayDeviceHealthStatus
+    {
+        /// <summary>
+        /// Heartbeats are arriving on schedule.
+        /// </summary>
+        Online = 0,
+
+        /// <summary>
+        /// Missed a few heartbeats; the frame may be restarting or losing its connection.
+        /// </summary>
+        Stale = 1,
+
+        /// <summary>
+        /// Not heard from for a long time.
+        /// </summary>
+        Offline = 2
+    }
+
+    /// <summary>
+    /// Periodic health report sent by a display.
+    /// </summary>
+    public record DisplayHeartbeatRequest
+    {
+        /// <summary>
+        /// Photo currently on screen.
+        /// </summary>
+        public long? CurrentPhotoId { get; init; }
+
+        /// <summary>
+        /// Seconds since the display page was loaded.
+        /// </summary>
+        public long UptimeSeconds { get; init; }
+
+        /// <summary>
+        /// When the display last fetched photos from the API successfully (UTC).
+        /// </summary>
+        public DateTime? LastSuccessfulFetchAt { get; init; }
+
+        /// <summary>
+        /// Errors logged since the display page was loaded.
+        /// </summary>
+        public int ErrorCount { get; init; }
+
+        /// <summary>
+        /// Bytes used by the display's offline media cache.
+        /// </summary>
+        public long? CacheUsageBytes { get; init; }
+
+        /// <summary>
+        /// Storage quota available to the display's browser, in bytes.
+        /// </summary>
+        public long? CacheQuotaBytes { get; init; }
+
+        /// <summary>
+        /// Screen width in pixels.
+        /// </summary>
+        public int ScreenWidth { get; init; }
+
+        /// <summary>
+        /// Screen height in pixels.
+        /// </summary>
+        public int ScreenHeight { get; init; }
+
+        /// <summary>
+        /// JavaScript heap in use, in bytes, where the browser reports it.
+        /// </summary>
+        public long? JsHeapUsedBytes { get; init; }
+
+        /// <summary>
+        /// JavaScript heap size limit, in bytes, where the browser reports it.
+        /// </summary>
+        public long? JsHeapLimitBytes { get; init; }
+
+        /// <summary>
+        /// Errors logged since the previous heartbeat.
+        /// </summary>
+        public IReadOnlyList<DisplayErrorReport> Errors { get; init; } = [];
+    }
+
+    /// <summary>
+    /// An error logged by a display.
+    /// </summary>
+    public record DisplayErrorReport
+    {
+        /// <summary>
+        /// When the error occurred (UTC).
+        /// </summary>
+        public DateTime OccurredAt { get; init; }
+
+        /// <summary>
+        /// Error message.
+        /// </summary>
+        public string Message { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Where the error came from, if known.
+        /// </summary>
+        public string? Source { get; init; }
+    }
+
+    /// <summary>
+    /// Registered device with its latest health report and recent errors.
+    /// </summary>
+    public record DisplayDeviceHealthDto
+    {
+        /// <summary>
+        /// Unique identifier.
+        /// </summary>
+        public long Id { get; init; }
+
+        /// <summary>
+        /// Stable identifier generated by the display.
+        /// </summary>
+        public string DeviceId { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Friendly name for the device.
+        /// </summary>
+        public string Name { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Health based on when the device was last seen.
+        /// </summary>
+        public DisplayDeviceHealthStatus Status { get; init; }
+
+        /// <summary>
+        /// When the device last registered or reported its status (UTC).
+        /// </summary>
+        public DateTime LastSeenAt { get; init; }
+
+        /// <summary>
+        /// When the device last sent a heartbeat (UTC). Null if it never has.
+        /// </summary>
+        public DateTime? LastHeartbeatAt { get; init; }
+
+        /// <summary>
+        /// Photo the device last reported as showing.
+        /// </summary>
+        public long? CurrentPhotoId { get; init; }
+
+        /// <summary>
+        /// Seconds the display page had been running at the last heartbeat.
+        /// </summary>
+        public long? UptimeSeconds { get; init; }
+
+        /// <summary>
+        /// When the device last fetched photos successfully (UTC).
+        /// </summary>
+        public DateTime? LastSuccessfulFetchAt { get; init; }
+
+        /// <summary>
+        /// Errors logged since the display page was loaded.
+        /// </summary>
+        public int ErrorCount { get; init; }
+
+        /// <summary>
+        /// Bytes used by the offline media cache.
+        /// </summary>
+        public long? CacheUsageBytes { get; init; }
+
+        /// <summary>
+        /// Storage quota available to the display's browser, in bytes.
+        /// </summary>
+        public long? CacheQuotaBytes { get; init; }
+
+        /// <summary>
+        /// Screen width in pixels.
+        /// </summary>
+        public int? ScreenWidth { get; init; }
+
+        /// <summary>
+        /// Screen height in pixels.
+        /// </summary>
+        public int? ScreenHeight { get; init; }
+
+        /// <summary>
+        /// JavaScript heap in use, in bytes.
+        /// </summary>
+        public long? JsHeapUsedBytes { get; init; }
+
+        /// <summary>
+        /// JavaScript heap size limit, in bytes.
+        /// </summary>
+        public long? JsHeapLimitBytes { get; init; }
+
+        /// <summary>
+        /// Most recent errors, newest first.
+        /// </summary>
+        public IReadOnlyList<DisplayDeviceErrorDto> RecentErrors { get; init; } = [];
+    }
+
+    /// <summary>
+    /// An error reported by a device.
+    /// </summary>
+    public record DisplayDeviceErrorDto
+    {
+        /// <summary>
+        /// When the error occurred on the display (UTC).
+        /// </summary>
+        public DateTime OccurredAt { get; init; }
+
+        /// <summary>
+        /// Error message.
+        /// </summary>
+        public string Message { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Where the error came from, if known.
+        /// </summary>
+        public string? Source { get; init; }
+    }
+}
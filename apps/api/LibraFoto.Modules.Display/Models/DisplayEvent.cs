@@ -0,0 +1,65 @@
+namespace LibraFoto.Modules.Display.Models
+{
+    /// <summary>
+    /// Event types pushed to display frontends over the event stream.
+    /// Values are used as the SSE event name.
+    /// </summary>
+    public static class DisplayEventTypes
+    {
+        /// <summary>
+        /// Display settings were updated, activated or deleted.
+        /// </summary>
+        public const string SettingsChanged = "settings-changed";
+
+        /// <summary>
+        /// Photos were added, removed or re-organized.
+        /// </summary>
+        public const string PhotoLibraryChanged = "photo-library-changed";
+
+        /// <summary>
+        /// A remote control command was sent from the admin UI.
+        /// </summary>
+        public const string RemoteCommand = "remote-command";
+
+        /// <summary>
+        /// The time-of-day schedule was updated.
+        /// </summary>
+        public const string ScheduleChanged = "schedule-changed";
+
+        /// <summary>
+        /// Keep-alive event sent when the stream is otherwise idle.
+        /// </summary>
+        public const string Heartbeat = "heartbeat";
+    }
+
+    /// <summary>
+    /// Event pushed to display frontends over the event stream.
+    /// </summary>
+    public record DisplayEvent
+    {
+        /// <summary>
+        /// Event type (see <see cref="DisplayEventTypes"/>).
+        /// </summary>
+        public string Type { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Settings configuration the event applies to. Null applies to all displays.
+        /// </summary>
+        public long? SettingsId { get; init; }
+
+        /// <summary>
+        /// Command to run for <see cref="DisplayEventTypes.RemoteCommand"/> events.
+        /// </summary>
+        public RemoteCommandType? Command { get; init; }
+
+        /// <summary>
+        /// Photo to show for <see cref="RemoteCommandType.ShowPhoto"/> commands.
+        /// </summary>
+        public PhotoDto? Photo { get; init; }
+
+        /// <summary>
+        /// When the event was raised (UTC).
+        /// </summary>
+        public DateTime Timestamp { get; init; } = DateTime.UtcNow;
+    }
+}
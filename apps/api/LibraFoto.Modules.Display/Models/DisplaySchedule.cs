@@ -0,0 +1,82 @@
+using LibraFoto.Data.Enums;
+
+namespace LibraFoto.Modules.Display.Models
+{
+    /// <summary>
+    /// Time-of-day schedule rule. Displays evaluate rules against their local clock.
+    /// </summary>
+    public record DisplayScheduleRuleDto
+    {
+        /// <summary>
+        /// Unique identifier.
+        /// </summary>
+        public long Id { get; init; }
+
+        /// <summary>
+        /// Days the rule applies to, as a bitmask of <see cref="DayOfWeek"/> (bit 0 = Sunday).
+        /// </summary>
+        public int DaysOfWeek { get; init; }
+
+        /// <summary>
+        /// Start of the window in 24-hour "HH:mm" format.
+        /// </summary>
+        public string StartTime { get; init; } = "00:00";
+
+        /// <summary>
+        /// End of the window in 24-hour "HH:mm" format (exclusive). Wraps past midnight when at or before the start.
+        /// </summary>
+        public string EndTime { get; init; } = "00:00";
+
+        /// <summary>
+        /// Settings profile to activate during the window. Null for quiet hours.
+        /// </summary>
+        public long? DisplaySettingsId { get; init; }
+
+        /// <summary>
+        /// Quiet hours mode for the window. Null when the rule activates a profile.
+        /// </summary>
+        public QuietMode? QuietMode { get; init; }
+    }
+
+    /// <summary>
+    /// A schedule rule as submitted by the admin UI.
+    /// </summary>
+    public record DisplayScheduleRuleRequest
+    {
+        /// <summary>
+        /// Days the rule applies to, as a bitmask of <see cref="DayOfWeek"/> (bit 0 = Sunday).
+        /// </summary>
+        public int DaysOfWeek { get; init; }
+
+        /// <summary>
+        /// Start of the window in 24-hour "HH:mm" format.
+        /// </summary>
+        public string StartTime { get; init; } = string.Empty;
+
+        /// <summary>
+        /// End of the window in 24-hour "HH:mm" format.
+        /// </summary>
+        public string EndTime { get; init; } = string.Empty;
+
+        /// <summary>
+        /// Settings profile to activate. Set this or <see cref="QuietMode"/>, not both.
+        /// </summary>
+        public long? DisplaySettingsId { get; init; }
+
+        /// <summary>
+        /// Quiet hours mode. Set this or <see cref="DisplaySettingsId"/>, not both.
+        /// </summary>
+        public QuietMode? QuietMode { get; init; }
+    }
+
+    /// <summary>
+    /// Request to replace the whole display schedule.
+    /// </summary>
+    public record UpdateDisplayScheduleRequest
+    {
+        /// <summary>
+        /// Rules in evaluation order. The first matching profile rule wins.
+        /// </summary>
+        public IReadOnlyList<DisplayScheduleRuleRequest> Rules { get; init; } = [];
+    }
+}
@@ -39,10 +39,15 @@ namespace LibraFoto.Modules.Display.Models
         public SourceType SourceType { get; init; } = SourceType.All;
 
         /// <summary>
-        /// ID of the source (Album or Tag) when SourceType is not All.
+        /// ID of the source when SourceType is Album or Tag.
         /// </summary>
         public long? SourceId { get; init; }
 
+        /// <summary>
+        /// Albums and tags to draw from, and tags to leave out, when SourceType is Playlist.
+        /// </summary>
+        public IReadOnlyList<PlaylistSourceDto> PlaylistSources { get; init; } = [];
+
         /// <summary>
         /// Whether to shuffle photos randomly.
         /// </summary>
@@ -52,6 +57,76 @@ namespace LibraFoto.Modules.Display.Models
         /// How images should be fitted within the display area.
         /// </summary>
         public ImageFit ImageFit { get; init; } = ImageFit.Contain;
+
+        /// <summary>
+        /// Whether portrait photos are combined into collages on landscape screens.
+        /// </summary>
+        public CollageLayout CollageLayout { get; init; } = CollageLayout.Off;
+
+        /// <summary>
+        /// Whether to show a clock overlay on the slideshow.
+        /// </summary>
+        public bool ShowClock { get; init; }
+
+        /// <summary>
+        /// Screen corner for the clock overlay.
+        /// </summary>
+        public OverlayPosition ClockPosition { get; init; } = OverlayPosition.TopRight;
+
+        /// <summary>
+        /// Whether to show the date the current photo was taken.
+        /// </summary>
+        public bool ShowDateTaken { get; init; }
+
+        /// <summary>
+        /// Screen corner for the date taken overlay.
+        /// </summary>
+        public OverlayPosition DateTakenPosition { get; init; } = OverlayPosition.BottomLeft;
+
+        /// <summary>
+        /// Whether to show the location of the current photo.
+        /// </summary>
+        public bool ShowLocation { get; init; }
+
+        /// <summary>
+        /// Screen corner for the location overlay.
+        /// </summary>
+        public OverlayPosition LocationPosition { get; init; } = OverlayPosition.BottomLeft;
+
+        /// <summary>
+        /// Text size of the overlay elements.
+        /// </summary>
+        public OverlaySize OverlaySize { get; init; } = OverlaySize.Medium;
+
+        /// <summary>
+        /// Opacity of the overlay elements as a percentage (0-100).
+        /// </summary>
+        public int OverlayOpacity { get; init; } = 80;
+
+        /// <summary>
+        /// Whether videos play muted, with audio, or are skipped.
+        /// </summary>
+        public VideoPlayback VideoPlayback { get; init; } = VideoPlayback.Muted;
+
+        /// <summary>
+        /// Volume for videos played with audio as a percentage (0-100).
+        /// </summary>
+        public int VideoVolume { get; init; } = 50;
+
+        /// <summary>
+        /// Longest time a video stays on screen in seconds. 0 plays videos to the end.
+        /// </summary>
+        public int MaxVideoDuration { get; init; } = 30;
+
+        /// <summary>
+        /// Which part of a video longer than the maximum duration is played.
+        /// </summary>
+        public VideoSegment VideoSegment { get; init; } = VideoSegment.Start;
+
+        /// <summary>
+        /// How many times a short video plays in a row (1-10), still limited by the maximum duration.
+        /// </summary>
+        public int VideoLoopCount { get; init; } = 1;
     }
 
     /// <summary>
@@ -85,10 +160,15 @@ namespace LibraFoto.Modules.Display.Models
         public SourceType? SourceType { get; init; }
 
         /// <summary>
-        /// ID of the source (Album or Tag) when SourceType is not All.
+        /// ID of the source when SourceType is Album or Tag.
         /// </summary>
         public long? SourceId { get; init; }
 
+        /// <summary>
+        /// Playlist sources. Replaces the existing sources when set.
+        /// </summary>
+        public IReadOnlyList<PlaylistSourceDto>? PlaylistSources { get; init; }
+
         /// <summary>
         /// Whether to shuffle photos randomly.
         /// </summary>
@@ -98,5 +178,111 @@ namespace LibraFoto.Modules.Display.Models
         /// How images should be fitted within the display area.
         /// </summary>
         public ImageFit? ImageFit { get; init; }
+
+        /// <summary>
+        /// Whether portrait photos are combined into collages on landscape screens.
+        /// </summary>
+        public CollageLayout? CollageLayout { get; init; }
+
+        /// <summary>
+        /// Whether to show a clock overlay on the slideshow.
+        /// </summary>
+        public bool? ShowClock { get; init; }
+
+        /// <summary>
+        /// Screen corner for the clock overlay.
+        /// </summary>
+        public OverlayPosition? ClockPosition { get; init; }
+
+        /// <summary>
+        /// Whether to show the date the current photo was taken.
+        /// </summary>
+        public bool? ShowDateTaken { get; init; }
+
+        /// <summary>
+        /// Screen corner for the date taken overlay.
+        /// </summary>
+        public OverlayPosition? DateTakenPosition { get; init; }
+
+        /// <summary>
+        /// Whether to show the location of the current photo.
+        /// </summary>
+        public bool? ShowLocation { get; init; }
+
+        /// <summary>
+        /// Screen corner for the location overlay.
+        /// </summary>
+        public OverlayPosition? LocationPosition { get; init; }
+
+        /// <summary>
+        /// Text size of the overlay elements.
+        /// </summary>
+        public OverlaySize? OverlaySize { get; init; }
+
+        /// <summary>
+        /// Opacity of the overlay elements as a percentage (0-100).
+        /// </summary>
+        public int? OverlayOpacity { get; init; }
+
+        /// <summary>
+        /// Whether videos play muted, with audio, or are skipped.
+        /// </summary>
+        public VideoPlayback? VideoPlayback { get; init; }
+
+        /// <summary>
+        /// Volume for videos played with audio as a percentage (0-100).
+        /// </summary>
+        public int? VideoVolume { get; init; }
+
+        /// <summary>
+        /// Longest time a video stays on screen in seconds. 0 plays videos to the end.
+        /// </summary>
+        public int? MaxVideoDuration { get; init; }
+
+        /// <summary>
+        /// Which part of a video longer than the maximum duration is played.
+        /// </summary>
+        public VideoSegment? VideoSegment { get; init; }
+
+        /// <summary>
+        /// How many times a short video plays in a row (1-10), still limited by the maximum duration.
+        /// </summary>
+        public int? VideoLoopCount { get; init; }
+    }
+
+    /// <summary>
+    /// An album or tag in a playlist, or a tag whose photos the playlist leaves out.
+    /// </summary>
+    public record PlaylistSourceDto
+    {
+        /// <summary>
+        /// Album to draw photos from. Set this or <see cref="TagId"/>, not both.
+        /// </summary>
+        public long? AlbumId { get; init; }
+
+        /// <summary>
+        /// Tag to draw photos from, or to exclude when <see cref="IsExcluded"/> is set.
+        /// </summary>
+        public long? TagId { get; init; }
+
+        /// <summary>
+        /// Whether photos with this tag are left out. Only tags can be excluded.
+        /// </summary>
+        public bool IsExcluded { get; init; }
+
+        /// <summary>
+        /// Relative share of slides drawn from this source (1-10).
+        /// </summary>
+        public int Weight { get; init; } = 1;
+
+        /// <summary>
+        /// Only include photos taken on or after this date.
+        /// </summary>
+        public DateTime? DateFrom { get; init; }
+
+        /// <summary>
+        /// Only include photos taken on or before this date.
+        /// </summary>
+        public DateTime? DateTo { get; init; }
     }
 }
@@ -44,13 +44,23 @@ namespace LibraFoto.Modules.Display.Models
         public double? Duration { get; init; }
 
         /// <summary>
-        /// Width of the photo in pixels.
+        /// Width of the photo in pixels, after rotation and cropping.
         /// </summary>
         public int Width { get; init; }
 
         /// <summary>
-        /// Height of the photo in pixels.
+        /// Height of the photo in pixels, after rotation and cropping.
         /// </summary>
         public int Height { get; init; }
+
+        /// <summary>
+        /// Horizontal position (0-1) of the point to keep in frame. Null to use the centre.
+        /// </summary>
+        public double? FocalPointX { get; init; }
+
+        /// <summary>
+        /// Vertical position (0-1) of the point to keep in frame. Null to use the centre.
+        /// </summary>
+        public double? FocalPointY { get; init; }
     }
 }
@@ -0,0 +1,117 @@
+namespace LibraFoto.Modules.Display.Models
+{
+    /// <summary>
+    /// Remote control commands that can be sent to a running display.
+    /// </summary>
+    public enum RemoteCommandType
+    {
+        /// <summary>
+        /// Skip to the next photo.
+        /// </summary>
+        Next = 0,
+
+        /// <summary>
+        /// Go back to the previous photo.
+        /// </summary>
+        Previous = 1,
+
+        /// <summary>
+        /// Pause the slideshow.
+        /// </summary>
+        Pause = 2,
+
+        /// <summary>
+        /// Resume a paused slideshow.
+        /// </summary>
+        Resume = 3,
+
+        /// <summary>
+        /// Show a specific photo immediately.
+        /// </summary>
+        ShowPhoto = 4
+    }
+
+    /// <summary>
+    /// Request to send a remote control command to connected displays.
+    /// </summary>
+    public record RemoteCommandRequest
+    {
+        /// <summary>
+        /// Command to send.
+        /// </summary>
+        public RemoteCommandType Command { get; init; }
+
+        /// <summary>
+        /// Photo to show. Required for <see cref="RemoteCommandType.ShowPhoto"/>.
+        /// </summary>
+        public long? PhotoId { get; init; }
+    }
+
+    /// <summary>
+    /// Response after a remote control command was sent.
+    /// </summary>
+    public record RemoteCommandResponse
+    {
+        /// <summary>
+        /// Number of connected displays the command was sent to.
+        /// </summary>
+        public int DisplayCount { get; init; }
+    }
+
+    /// <summary>
+    /// Playback status reported by a display.
+    /// </summary>
+    public record DisplayStatusReport
+    {
+        /// <summary>
+        /// ID of the photo currently on screen.
+        /// </summary>
+        public long? PhotoId { get; init; }
+
+        /// <summary>
+        /// Whether the slideshow is paused.
+        /// </summary>
+        public bool IsPaused { get; init; }
+
+        /// <summary>
+        /// Settings configuration the display is using.
+        /// </summary>
+        public long? SettingsId { get; init; }
+
+        /// <summary>
+        /// Stable identifier of the reporting device, if it has registered.
+        /// </summary>
+        public string? DeviceId { get; init; }
+    }
+
+    /// <summary>
+    /// Latest display playback status for the admin remote.
+    /// </summary>
+    public record DisplayStatusDto
+    {
+        /// <summary>
+        /// Photo currently on screen, if known.
+        /// </summary>
+        public PhotoDto? CurrentPhoto { get; init; }
+
+        /// <summary>
+        /// Whether the slideshow is paused.
+        /// </summary>
+        public bool IsPaused { get; init; }
+
+        /// <summary>
+        /// Settings configuration the display is using.
+        /// </summary>
+        public long? SettingsId { get; init; }
+
+        /// <summary>
+        /// Whether at least one display is connected to the event stream.
+        /// </summary>
+        public bool IsConnected { get; init; }
+
+        /// <summary>
+        /// When the display last reported its status (UTC). Null if it never has.
+        /// </summary>
+        public DateTime? ReportedAt { get; init; }
+    }
+}
@@ -0,0 +1,319 @@
+using LibraFoto.Data;
+using LibraFoto.Data.Entities;
+using LibraFoto.Modules.Display.Models;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+
+namespace LibraFoto.Modules.Display.Services
+{
+    /// <summary>
+    /// Service for the display device registry.
+    /// Stores registered frames and resolves the settings profile each one should use.
+    /// </summary>
+    public class DisplayDeviceService : IDisplayDeviceService
+    {
+        /// <summary>
+        /// Errors kept per device; older ones are removed as new ones arrive.
+        /// </summary>
+        public const int MaxStoredErrors = 50;
+
+        /// <summary>
+        /// Errors returned with each device's health report.
+        /// </summary>
+        public const int RecentErrorLimit = 20;
+
+        /// <summary>
+        /// Devices heard from within this window are online. Displays send a
+        /// heartbeat every minute, so this allows a couple to go missing.
+        /// </summary>
+        public static readonly TimeSpan OnlineThreshold = TimeSpan.FromMinutes(3);
+
+        /// <summary>
+        /// Devices heard from within this window are stale; after it they are offline.
+        /// </summary>
+        public static readonly TimeSpan StaleThreshold = TimeSpan.FromMinutes(30);
+
+        private const int MaxErrorMessageLength = 1000;
+        private const int MaxErrorSourceLength = 200;
+
+        private readonly LibraFotoDbContext _dbContext;
+        private readonly IDisplaySettingsService _settingsService;
+        private readonly ILogger<DisplayDeviceService> _logger;
+
+        public DisplayDeviceService(
+            LibraFotoDbContext dbContext,
+            IDisplaySettingsService settingsService,
+            ILogger<DisplayDeviceService> logger)
+        {
+            _dbContext = dbContext;
+            _settingsService = settingsService;
+            _logger = logger;
+        }
+
+        /// <inheritdoc />
+        public async Task<DisplayDeviceDto> RegisterAsync(DeviceRegistrationRequest request, CancellationToken cancellationToken = default)
+        {
+            var device = await _dbContext.DisplayDevices
+                .Include(d => d.DisplaySettings)
+                .FirstOrDefaultAsync(d => d.DeviceId == request.DeviceId, cancellationToken);
+
+            if (device == null)
+            {
+                device = new DisplayDevice
+                {
+                    DeviceId = request.DeviceId,
+                    Name = string.IsNullOrWhiteSpace(request.Name)
+                        ? $"Frame {request.DeviceId[..Math.Min(6, request.DeviceId.Length)]}"
+                        : request.Name.Trim()
+                };
+                _dbContext.DisplayDevices.Add(device);
+                _logger.LogInformation("Registered display device {DeviceId} as '{Name}'", device.DeviceId, device.Name);
+            }
+
+            device.LastSeenAt = DateTime.UtcNow;
+            await _dbContext.SaveChangesAsync(cancellationToken);
+
+            return MapToDto(device);
+        }
+
+        /// <inheritdoc />
+        public async Task<IReadOnlyList<DisplayDeviceDto>> GetAllAsync(CancellationToken cancellationToken = default)
+        {
+            var devices = await _dbContext.DisplayDevices
+                .AsNoTracking()
+                .Include(d => d.DisplaySettings)
+                .OrderBy(d => d.Name)
+                .ToListAsync(cancellationToken);
+
+            return devices.Select(MapToDto).ToList();
+        }
+
+        /// <inheritdoc />
+        public async Task<DisplayDeviceDto?> UpdateAsync(long id, UpdateDisplayDeviceRequest request, CancellationToken cancellationToken = default)
+        {
+            var device = await _dbContext.DisplayDevices
+                .FirstOrDefaultAsync(d => d.Id == id, cancellationToken);
+
+            if (device == null)
+            {
+                return null;
+            }
+
+            device.Name = request.Name.Trim();
+            device.DisplaySettingsId = request.DisplaySettingsId;
+            await _dbContext.SaveChangesAsync(cancellationToken);
+
+            // Reload the navigation so the profile name reflects the new assignment
+            await _dbContext.Entry(device).Reference(d => d.DisplaySettings).LoadAsync(cancellationToken);
+
+            _logger.LogInformation("Updated display device {DeviceId}", device.DeviceId);
+            return MapToDto(device);
+        }
+
+        /// <inheritdoc />
+        public async Task<bool> DeleteAsync(long id, CancellationToken cancellationToken = default)
+        {
+            var device = await _dbContext.DisplayDevices
+                .FirstOrDefaultAsync(d => d.Id == id, cancellationToken);
+
+            if (device == null)
+            {
+                return false;
+            }
+
+            _dbContext.DisplayDevices.Remove(device);
+            await _dbContext.SaveChangesAsync(cancellationToken);
+
+            _logger.LogInformation("Deleted display device {DeviceId}", device.DeviceId);
+            return true;
+        }
+
+        /// <inheritdoc />
+        public async Task<DisplaySettingsDto> GetSettingsForDeviceAsync(string deviceId, long? scheduledSettingsId = null, CancellationToken cancellationToken = default)
+        {
+            var assignedSettingsId = await _dbContext.DisplayDevices
+                .AsNoTracking()
+                .Where(d => d.DeviceId == deviceId)
+                .Select(d => d.DisplaySettingsId)
+                .FirstOrDefaultAsync(cancellationToken);
+
+            // An assigned profile takes precedence over the schedule
+            foreach (var settingsId in new[] { assignedSettingsId, scheduledSettingsId })
+            {
+                if (!settingsId.HasValue)
+                {
+                    continue;
+                }
+
+                var settings = await _settingsService.GetByIdAsync(settingsId.Value, cancellationToken);
+                if (settings != null)
+                {
+                    return settings;
+                }
+            }
+
+            return await _settingsService.GetActiveSettingsAsync(cancellationToken);
+        }
+
+        /// <inheritdoc />
+        public async Task RecordStatusAsync(string deviceId, long? photoId, CancellationToken cancellationToken = default)
+        {
+            var device = await _dbContext.DisplayDevices
+                .FirstOrDefaultAsync(d => d.DeviceId == deviceId, cancellationToken);
+
+            if (device == null)
+            {
+                return;
+            }
+
+            device.CurrentPhotoId = photoId;
+            device.LastSeenAt = DateTime.UtcNow;
+            await _dbContext.SaveChangesAsync(cancellationToken);
+        }
+
+        /// <inheritdoc />
+        public async Task<bool> RecordHeartbeatAsync(string deviceId, DisplayHeartbeatRequest heartbeat, CancellationToken cancellationToken = default)
+        {
+            var device = await _dbContext.DisplayDevices
+                .FirstOrDefaultAsync(d => d.DeviceId == deviceId, cancellationToken);
+
+            if (device == null)
+            {
+                return false;
+            }
+
+            var now = DateTime.UtcNow;
+            device.LastSeenAt = now;
+            device.LastHeartbeatAt = now;
+            device.CurrentPhotoId = heartbeat.CurrentPhotoId;
+            device.UptimeSeconds = heartbeat.UptimeSeconds;
+            device.LastSuccessfulFetchAt = heartbeat.LastSuccessfulFetchAt;
+            device.ErrorCount = heartbeat.ErrorCount;
+            device.CacheUsageBytes = heartbeat.CacheUsageBytes;
+            device.CacheQuotaBytes = heartbeat.CacheQuotaBytes;
+            device.ScreenWidth = heartbeat.ScreenWidth;
+            device.ScreenHeight = heartbeat.ScreenHeight;
+            device.JsHeapUsedBytes = heartbeat.JsHeapUsedBytes;
+            device.JsHeapLimitBytes = heartbeat.JsHeapLimitBytes;
+
+            foreach (var error in heartbeat.Errors.TakeLast(MaxStoredErrors))
+            {
+                _dbContext.DisplayDeviceErrors.Add(new DisplayDeviceError
+                {
+                    DisplayDeviceId = device.Id,
+                    OccurredAt = error.OccurredAt,
+                    Message = Truncate(error.Message, MaxErrorMessageLength),
+                    Source = error.Source == null ? null : Truncate(error.Source, MaxErrorSourceLength)
+                });
+            }
+
+            await _dbContext.SaveChangesAsync(cancellationToken);
+
+            if (heartbeat.Errors.Count > 0)
+            {
+                await PruneErrorsAsync(device.Id, cancellationToken);
+            }
+
+            return true;
+        }
+
+        /// <inheritdoc />
+        public async Task<IReadOnlyList<DisplayDeviceHealthDto>> GetHealthAsync(CancellationToken cancellationToken = default)
+        {
+            var devices = await _dbContext.DisplayDevices
+                .AsNoTracking()
+                .OrderBy(d => d.Name)
+                .ToListAsync(cancellationToken);
+
+            // At most MaxStoredErrors per device, so loading them all stays small
+            var errorsByDevice = (await _dbContext.DisplayDeviceErrors
+                    .AsNoTracking()
+                    .OrderByDescending(e => e.OccurredAt)
+                    .ThenByDescending(e => e.Id)
+                    .ToListAsync(cancellationToken))
+                .ToLookup(e => e.DisplayDeviceId);
+
+            var now = DateTime.UtcNow;
+            return devices.Select(device => new DisplayDeviceHealthDto
+            {
+                Id = device.Id,
+                DeviceId = device.DeviceId,
+                Name = device.Name,
+                Status = GetHealthStatus(device.LastSeenAt, now),
+                LastSeenAt = device.LastSeenAt,
+                LastHeartbeatAt = device.LastHeartbeatAt,
+                CurrentPhotoId = device.CurrentPhotoId,
+                UptimeSeconds = device.UptimeSeconds,
+                LastSuccessfulFetchAt = device.LastSuccessfulFetchAt,
+                ErrorCount = device.ErrorCount,
+                CacheUsageBytes = device.CacheUsageBytes,
+                CacheQuotaBytes = device.CacheQuotaBytes,
+                ScreenWidth = device.ScreenWidth,
+                ScreenHeight = device.ScreenHeight,
+                JsHeapUsedBytes = device.JsHeapUsedBytes,
+                JsHeapLimitBytes = device.JsHeapLimitBytes,
+                RecentErrors = errorsByDevice[device.Id]
+                    .Take(RecentErrorLimit)
+                    .Select(e => new DisplayDeviceErrorDto
+                    {
+                        OccurredAt = e.OccurredAt,
+                        Message = e.Message,
+                        Source = e.Source
+                    })
+                    .ToList()
+            }).ToList();
+        }
+
+        /// <summary>
+        /// Removes all but the newest <see cref="MaxStoredErrors"/> errors of a device.
+        /// </summary>
+        private async Task PruneErrorsAsync(long displayDeviceId, CancellationToken cancellationToken)
+        {
+            var oldErrors = await _dbContext.DisplayDeviceErrors
+                .Where(e => e.DisplayDeviceId == displayDeviceId)
+                .OrderByDescending(e => e.OccurredAt)
+                .ThenByDescending(e => e.Id)
+                .Skip(MaxStoredErrors)
+                .ToListAsync(cancellationToken);
+
+            if (oldErrors.Count > 0)
+            {
+                _dbContext.DisplayDeviceErrors.RemoveRange(oldErrors);
+                await _dbContext.SaveChangesAsync(cancellationToken);
+            }
+        }
+
+        private static DisplayDeviceHealthStatus GetHealthStatus(DateTime lastSeenAt, DateTime now)
+        {
+            var silence = now - lastSeenAt;
+            if (silence <= OnlineThreshold)
+            {
+                return DisplayDeviceHealthStatus.Online;
+            }
+
+            return silence <= StaleThreshold
+                ? DisplayDeviceHealthStatus.Stale
+                : DisplayDeviceHealthStatus.Offline;
+        }
+
+        private static string Truncate(string value, int maxLength)
+        {
+            return value.Length <= maxLength ? value : value[..maxLength];
+        }
+
+        private static DisplayDeviceDto MapToDto(DisplayDevice device)
+        {
+            return new DisplayDeviceDto
+            {
+                Id = device.Id,
+                DeviceId = device.DeviceId,
+                Name = device.Name,
+                DisplaySettingsId = device.DisplaySettingsId,
+                DisplaySettingsName = device.DisplaySettings?.Name,
+                CurrentPhotoId = device.CurrentPhotoId,
+                DateRegistered = device.DateRegistered,
+                LastSeenAt = device.LastSeenAt
+            };
+        }
+    }
+}
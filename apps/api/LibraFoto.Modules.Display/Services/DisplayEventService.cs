@@ -0,0 +1,87 @@
+using System.Collections.Concurrent;
+using System.Runtime.CompilerServices;
+using System.Threading.Channels;
+using LibraFoto.Modules.Display.Models;
+using Microsoft.Extensions.Logging;
+
+namespace LibraFoto.Modules.Display.Services
+{
+    /// <summary>
+    /// In-memory fan-out of display events to event stream subscribers.
+    /// Registered as singleton so all requests share the subscriber list.
+    /// </summary>
+    public class DisplayEventService : IDisplayEventService
+    {
+        private const int SubscriberBufferSize = 32;
+
+        private readonly ConcurrentDictionary<Guid, Channel<DisplayEvent>> _subscribers = new();
+        private readonly ILogger<DisplayEventService> _logger;
+
+        public DisplayEventService(ILogger<DisplayEventService> logger)
+        {
+            _logger = logger;
+        }
+
+        /// <summary>
+        /// Idle time after which a heartbeat event is emitted.
+        /// </summary>
+        internal TimeSpan HeartbeatInterval { get; init; } = TimeSpan.FromSeconds(25);
+
+        /// <inheritdoc />
+        public int SubscriberCount => _subscribers.Count;
+
+        /// <inheritdoc />
+        public async IAsyncEnumerable<DisplayEvent> SubscribeAsync(
+            [EnumeratorCancellation] CancellationToken cancellationToken = default)
+        {
+            var id = Guid.NewGuid();
+            // Slow displays only need the latest events, so drop the oldest when the buffer fills
+            var channel = Channel.CreateBounded<DisplayEvent>(new BoundedChannelOptions(SubscriberBufferSize)
+            {
+                FullMode = BoundedChannelFullMode.DropOldest,
+                SingleReader = true
+            });
+
+            _subscribers[id] = channel;
+            _logger.LogDebug("Display subscribed to events ({Count} connected)", _subscribers.Count);
+
+            try
+            {
+                while (!cancellationToken.IsCancellationRequested)
+                {
+                    DisplayEvent next;
+                    using (var idleCts = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken))
+                    {
+                        idleCts.CancelAfter(HeartbeatInterval);
+                        try
+                        {
+                            next = await channel.Reader.ReadAsync(idleCts.Token);
+                        }
+                        catch (OperationCanceledException) when (!cancellationToken.IsCancellationRequested)
+                        {
+                            next = new DisplayEvent { Type = DisplayEventTypes.Heartbeat };
+                        }
+                    }
+
+                    yield return next;
+                }
+            }
+            finally
+            {
+                _subscribers.TryRemove(id, out _);
+                _logger.LogDebug("Display unsubscribed from events ({Count} connected)", _subscribers.Count);
+            }
+        }
+
+        /// <inheritdoc />
+        public void Publish(DisplayEvent displayEvent)
+        {
+            foreach (var channel in _subscribers.Values)
+            {
+                channel.Writer.TryWrite(displayEvent);
+            }
+
+            _logger.LogDebug("Published {EventType} to {Count} displays", displayEvent.Type, _subscribers.Count);
+        }
+    }
+}
@@ -0,0 +1,76 @@
+using LibraFoto.Data;
+using LibraFoto.Data.Entities;
+using LibraFoto.Modules.Display.Models;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+
+namespace LibraFoto.Modules.Display.Services
+{
+    /// <summary>
+    /// Service for the display schedule.
+    /// Rules are evaluated by each display against its own clock, so the server only stores them.
+    /// </summary>
+    public class DisplayScheduleService : IDisplayScheduleService
+    {
+        private readonly LibraFotoDbContext _dbContext;
+        private readonly ILogger<DisplayScheduleService> _logger;
+
+        public DisplayScheduleService(
+            LibraFotoDbContext dbContext,
+            ILogger<DisplayScheduleService> logger)
+        {
+            _dbContext = dbContext;
+            _logger = logger;
+        }
+
+        /// <inheritdoc />
+        public async Task<IReadOnlyList<DisplayScheduleRuleDto>> GetRulesAsync(CancellationToken cancellationToken = default)
+        {
+            var rules = await _dbContext.DisplaySchedules
+                .AsNoTracking()
+                .OrderBy(r => r.SortOrder)
+                .ThenBy(r => r.Id)
+                .ToListAsync(cancellationToken);
+
+            return rules.Select(MapToDto).ToList();
+        }
+
+        /// <inheritdoc />
+        public async Task<IReadOnlyList<DisplayScheduleRuleDto>> ReplaceRulesAsync(IReadOnlyList<DisplayScheduleRuleRequest> rules, CancellationToken cancellationToken = default)
+        {
+            var existing = await _dbContext.DisplaySchedules.ToListAsync(cancellationToken);
+            _dbContext.DisplaySchedules.RemoveRange(existing);
+
+            var entities = rules
+                .Select((rule, index) => new DisplaySchedule
+                {
+                    DaysOfWeek = rule.DaysOfWeek,
+                    StartTime = rule.StartTime,
+                    EndTime = rule.EndTime,
+                    DisplaySettingsId = rule.DisplaySettingsId,
+                    QuietMode = rule.QuietMode,
+                    SortOrder = index
+                })
+                .ToList();
+            _dbContext.DisplaySchedules.AddRange(entities);
+
+            await _dbContext.SaveChangesAsync(cancellationToken);
+
+            _logger.LogInformation("Saved display schedule with {RuleCount} rules", entities.Count);
+            return entities.Select(MapToDto).ToList();
+        }
+
+        private static DisplayScheduleRuleDto MapToDto(DisplaySchedule rule)
+        {
+            return new DisplayScheduleRuleDto
+            {
+                Id = rule.Id,
+                DaysOfWeek = rule.DaysOfWeek,
+                StartTime = rule.StartTime,
+                EndTime = rule.EndTime,
+                DisplaySettingsId = rule.DisplaySettingsId,
+                QuietMode = rule.QuietMode
+            };
+        }
+    }
+}
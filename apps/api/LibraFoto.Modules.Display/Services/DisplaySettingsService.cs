@@ -28,6 +28,7 @@ namespace LibraFoto.Modules.Display.Services
         {
             var settings = await _dbContext.DisplaySettings
                 .AsNoTracking()
+                .Include(s => s.PlaylistSources)
                 .FirstOrDefaultAsync(s => s.IsActive, cancellationToken);
 
             if (settings != null)
@@ -38,6 +39,7 @@ namespace LibraFoto.Modules.Display.Services
             // No active settings, try to get the first one
             settings = await _dbContext.DisplaySettings
                 .AsNoTracking()
+                .Include(s => s.PlaylistSources)
                 .FirstOrDefaultAsync(cancellationToken);
 
             if (settings != null)
@@ -55,6 +57,7 @@ namespace LibraFoto.Modules.Display.Services
         {
             var settings = await _dbContext.DisplaySettings
                 .AsNoTracking()
+                .Include(s => s.PlaylistSources)
                 .FirstOrDefaultAsync(s => s.Id == id, cancellationToken);
 
             return settings != null ? MapToDto(settings) : null;
@@ -65,6 +68,7 @@ namespace LibraFoto.Modules.Display.Services
         {
             var settings = await _dbContext.DisplaySettings
                 .AsNoTracking()
+                .Include(s => s.PlaylistSources)
                 .OrderBy(s => s.Name)
                 .ToListAsync(cancellationToken);
 
@@ -75,6 +79,7 @@ namespace LibraFoto.Modules.Display.Services
         public async Task<DisplaySettingsDto?> UpdateAsync(long id, UpdateDisplaySettingsRequest request, CancellationToken cancellationToken = default)
         {
             var settings = await _dbContext.DisplaySettings
+                .Include(s => s.PlaylistSources)
                 .FirstOrDefaultAsync(s => s.Id == id, cancellationToken);
 
             if (settings == null)
@@ -113,6 +118,7 @@ namespace LibraFoto.Modules.Display.Services
         public async Task<bool> DeleteAsync(long id, CancellationToken cancellationToken = default)
         {
             var settings = await _dbContext.DisplaySettings
+                .Include(s => s.PlaylistSources)
                 .FirstOrDefaultAsync(s => s.Id == id, cancellationToken);
 
             if (settings == null)
@@ -151,6 +157,7 @@ namespace LibraFoto.Modules.Display.Services
         public async Task<DisplaySettingsDto?> SetActiveAsync(long id, CancellationToken cancellationToken = default)
         {
             var settings = await _dbContext.DisplaySettings
+                .Include(s => s.PlaylistSources)
                 .FirstOrDefaultAsync(s => s.Id == id, cancellationToken);
 
             if (settings == null)
@@ -219,6 +226,23 @@ namespace LibraFoto.Modules.Display.Services
                 settings.SourceId = request.SourceId.Value;
             }
 
+            if (request.PlaylistSources != null)
+            {
+                settings.PlaylistSources.Clear();
+                foreach (var source in request.PlaylistSources)
+                {
+                    settings.PlaylistSources.Add(new DisplayPlaylistSource
+                    {
+                        AlbumId = source.AlbumId,
+                        TagId = source.TagId,
+                        IsExcluded = source.IsExcluded,
+                        Weight = source.Weight,
+                        DateFrom = source.DateFrom,
+                        DateTo = source.DateTo
+                    });
+                }
+            }
+
             if (request.Shuffle.HasValue)
             {
                 settings.Shuffle = request.Shuffle.Value;
@@ -228,6 +252,76 @@ namespace LibraFoto.Modules.Display.Services
             {
                 settings.ImageFit = request.ImageFit.Value;
             }
+
+            if (request.CollageLayout.HasValue)
+            {
+                settings.CollageLayout = request.CollageLayout.Value;
+            }
+
+            if (request.ShowClock.HasValue)
+            {
+                settings.ShowClock = request.ShowClock.Value;
+            }
+
+            if (request.ClockPosition.HasValue)
+            {
+                settings.ClockPosition = request.ClockPosition.Value;
+            }
+
+            if (request.ShowDateTaken.HasValue)
+            {
+                settings.ShowDateTaken = request.ShowDateTaken.Value;
+            }
+
+            if (request.DateTakenPosition.HasValue)
+            {
+                settings.DateTakenPosition = request.DateTakenPosition.Value;
+            }
+
+            if (request.ShowLocation.HasValue)
+            {
+                settings.ShowLocation = request.ShowLocation.Value;
+            }
+
+            if (request.LocationPosition.HasValue)
+            {
+                settings.LocationPosition = request.LocationPosition.Value;
+            }
+
+            if (request.OverlaySize.HasValue)
+            {
+                settings.OverlaySize = request.OverlaySize.Value;
+            }
+
+            if (request.OverlayOpacity.HasValue)
+            {
+                settings.OverlayOpacity = request.OverlayOpacity.Value;
+            }
+
+            if (request.VideoPlayback.HasValue)
+            {
+                settings.VideoPlayback = request.VideoPlayback.Value;
+            }
+
+            if (request.VideoVolume.HasValue)
+            {
+                settings.VideoVolume = request.VideoVolume.Value;
+            }
+
+            if (request.MaxVideoDuration.HasValue)
+            {
+                settings.MaxVideoDuration = request.MaxVideoDuration.Value;
+            }
+
+            if (request.VideoSegment.HasValue)
+            {
+                settings.VideoSegment = request.VideoSegment.Value;
+            }
+
+            if (request.VideoLoopCount.HasValue)
+            {
+                settings.VideoLoopCount = request.VideoLoopCount.Value;
+            }
         }
 
         private static DisplaySettingsDto MapToDto(DisplaySettings settings)
@@ -241,8 +335,34 @@ namespace LibraFoto.Modules.Display.Services
                 TransitionDuration = settings.TransitionDuration,
                 SourceType = settings.SourceType,
                 SourceId = settings.SourceId,
+                PlaylistSources = settings.PlaylistSources
+                    .OrderBy(p => p.Id)
+                    .Select(p => new PlaylistSourceDto
+                    {
+                        AlbumId = p.AlbumId,
+                        TagId = p.TagId,
+                        IsExcluded = p.IsExcluded,
+                        Weight = p.Weight,
+                        DateFrom = p.DateFrom,
+                        DateTo = p.DateTo
+                    })
+                    .ToList(),
                 Shuffle = settings.Shuffle,
-                ImageFit = settings.ImageFit
+                ImageFit = settings.ImageFit,
+                CollageLayout = settings.CollageLayout,
+                ShowClock = settings.ShowClock,
+                ClockPosition = settings.ClockPosition,
+                ShowDateTaken = settings.ShowDateTaken,
+                DateTakenPosition = settings.DateTakenPosition,
+                ShowLocation = settings.ShowLocation,
+                LocationPosition = settings.LocationPosition,
+                OverlaySize = settings.OverlaySize,
+                OverlayOpacity = settings.OverlayOpacity,
+                VideoPlayback = settings.VideoPlayback,
+                VideoVolume = settings.VideoVolume,
+                MaxVideoDuration = settings.MaxVideoDuration,
+                VideoSegment = settings.VideoSegment,
+                VideoLoopCount = settings.VideoLoopCount
             };
         }
     }
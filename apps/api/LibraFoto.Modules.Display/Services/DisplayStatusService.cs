@@ -0,0 +1,50 @@
+using LibraFoto.Modules.Display.Models;
+
+namespace LibraFoto.Modules.Display.Services
+{
+    /// <summary>
+    /// Keeps the most recent status reported by a display in memory.
+    /// Registered as singleton so reports survive across requests.
+    /// </summary>
+    public class DisplayStatusService : IDisplayStatusService
+    {
+        private readonly ISlideshowService _slideshowService;
+        private readonly IDisplayEventService _eventService;
+
+        private volatile ReportedStatus? _latest;
+
+        public DisplayStatusService(ISlideshowService slideshowService, IDisplayEventService eventService)
+        {
+            _slideshowService = slideshowService;
+            _eventService = eventService;
+        }
+
+        /// <inheritdoc />
+        public void Report(DisplayStatusReport report)
+        {
+            _latest = new ReportedStatus(report, DateTime.UtcNow);
+        }
+
+        /// <inheritdoc />
+        public async Task<DisplayStatusDto> GetStatusAsync(CancellationToken cancellationToken = default)
+        {
+            var latest = _latest;
+            var report = latest?.Report;
+
+            var photo = report?.PhotoId is long photoId
+                ? await _slideshowService.GetPhotoByIdAsync(photoId, cancellationToken)
+                : null;
+
+            return new DisplayStatusDto
+            {
+                CurrentPhoto = photo,
+                IsPaused = report?.IsPaused ?? false,
+                SettingsId = report?.SettingsId,
+                IsConnected = _eventService.SubscriberCount > 0,
+                ReportedAt = latest?.ReportedAt
+            };
+        }
+
+        private sealed record ReportedStatus(DisplayStatusReport Report, DateTime ReportedAt);
+    }
+}
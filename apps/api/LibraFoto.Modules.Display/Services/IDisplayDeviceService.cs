@@ -0,0 +1,80 @@
+using LibraFoto.Modules.Display.Models;
+
+namespace LibraFoto.Modules.Display.Services
+{
+    /// <summary>
+    /// Interface for the display device registry.
+    /// Tracks registered frames and the settings profile assigned to each.
+    /// </summary>
+    public interface IDisplayDeviceService
+    {
+        /// <summary>
+        /// Registers a device, or refreshes its last-seen time if it is already known.
+        /// </summary>
+        /// <param name="request">Registration request from the display.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>The registered device.</returns>
+        Task<DisplayDeviceDto> RegisterAsync(DeviceRegistrationRequest request, CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Gets all registered devices.
+        /// </summary>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>List of devices ordered by name.</returns>
+        Task<IReadOnlyList<DisplayDeviceDto>> GetAllAsync(CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Renames a device and changes its settings profile.
+        /// </summary>
+        /// <param name="id">Device ID to update.</param>
+        /// <param name="request">Update request with new values.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>The updated device, or null if not found.</returns>
+        Task<DisplayDeviceDto?> UpdateAsync(long id, UpdateDisplayDeviceRequest request, CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Removes a device from the registry.
+        /// </summary>
+        /// <param name="id">Device ID to delete.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>True if deleted, false if not found.</returns>
+        Task<bool> DeleteAsync(long id, CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Gets the settings a device should use: its assigned profile, then the
+        /// profile its schedule selected, then the active profile.
+        /// </summary>
+        /// <param name="deviceId">Stable identifier generated by the display.</param>
+        /// <param name="scheduledSettingsId">Profile selected by the display schedule, if any.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>The settings for the device.</returns>
+        Task<DisplaySettingsDto> GetSettingsForDeviceAsync(string deviceId, long? scheduledSettingsId = null, CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Records the photo a device is showing and refreshes its last-seen time.
+        /// Unknown devices are ignored.
+        /// </summary>
+        /// <param name="deviceId">Stable identifier generated by the display.</param>
+        /// <param name="photoId">Photo currently on screen.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        Task RecordStatusAsync(string deviceId, long? photoId, CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Stores a device's health heartbeat and the errors it reported, and
+        /// refreshes its last-seen time. Only the most recent errors are kept.
+        /// </summary>
+        /// <param name="deviceId">Stable identifier generated by the display.</param>
+        /// <param name="heartbeat">Health report from the display.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>True if recorded, false if the device is not registered.</returns>
+        Task<bool> RecordHeartbeatAsync(string deviceId, DisplayHeartbeatRequest heartbeat, CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Gets every registered device with its online/stale/offline status,
+        /// latest heartbeat and recent errors.
+        /// </summary>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>List of device health reports ordered by name.</returns>
+        Task<IReadOnlyList<DisplayDeviceHealthDto>> GetHealthAsync(CancellationToken cancellationToken = default);
+    }
+}
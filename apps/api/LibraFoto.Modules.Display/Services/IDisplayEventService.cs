@@ -0,0 +1,29 @@
+using LibraFoto.Modules.Display.Models;
+
+namespace LibraFoto.Modules.Display.Services
+{
+    /// <summary>
+    /// Interface for pushing events to connected display frontends.
+    /// </summary>
+    public interface IDisplayEventService
+    {
+        /// <summary>
+        /// Number of displays currently subscribed to the event stream.
+        /// </summary>
+        int SubscriberCount { get; }
+
+        /// <summary>
+        /// Subscribes to display events.
+        /// Emits heartbeat events while idle so proxies keep the connection open.
+        /// </summary>
+        /// <param name="cancellationToken">Cancellation token that ends the subscription.</param>
+        /// <returns>Stream of events until cancelled.</returns>
+        IAsyncEnumerable<DisplayEvent> SubscribeAsync(CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Publishes an event to all subscribed displays.
+        /// </summary>
+        /// <param name="displayEvent">The event to publish.</param>
+        void Publish(DisplayEvent displayEvent);
+    }
+}
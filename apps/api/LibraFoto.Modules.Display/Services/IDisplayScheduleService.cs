@@ -0,0 +1,26 @@
+using LibraFoto.Modules.Display.Models;
+
+namespace LibraFoto.Modules.Display.Services
+{
+    /// <summary>
+    /// Interface for the display schedule.
+    /// Stores the time-of-day rules that switch profiles and start quiet hours.
+    /// </summary>
+    public interface IDisplayScheduleService
+    {
+        /// <summary>
+        /// Gets all schedule rules in evaluation order.
+        /// </summary>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>List of schedule rules.</returns>
+        Task<IReadOnlyList<DisplayScheduleRuleDto>> GetRulesAsync(CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Replaces all schedule rules.
+        /// </summary>
+        /// <param name="rules">New rules in evaluation order.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>The saved rules.</returns>
+        Task<IReadOnlyList<DisplayScheduleRuleDto>> ReplaceRulesAsync(IReadOnlyList<DisplayScheduleRuleRequest> rules, CancellationToken cancellationToken = default);
+    }
+}
@@ -0,0 +1,23 @@
+using LibraFoto.Modules.Display.Models;
+
+namespace LibraFoto.Modules.Display.Services
+{
+    /// <summary>
+    /// Interface for tracking the playback status reported by displays.
+    /// </summary>
+    public interface IDisplayStatusService
+    {
+        /// <summary>
+        /// Records the latest status reported by a display.
+        /// </summary>
+        /// <param name="report">The reported status.</param>
+        void Report(DisplayStatusReport report);
+
+        /// <summary>
+        /// Gets the latest reported status, including the current photo.
+        /// </summary>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>The latest display status.</returns>
+        Task<DisplayStatusDto> GetStatusAsync(CancellationToken cancellationToken = default);
+    }
+}
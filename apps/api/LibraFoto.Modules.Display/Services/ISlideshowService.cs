@@ -49,5 +49,23 @@ namespace LibraFoto.Modules.Display.Services
         /// <param name="cancellationToken">Cancellation token.</param>
         /// <returns>Total photo count.</returns>
         Task<int> GetPhotoCountAsync(long? settingsId = null, CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Gets a specific photo by ID.
+        /// Does not affect the slideshow sequence.
+        /// </summary>
+        /// <param name="photoId">The photo ID.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>The photo, or null if not found.</returns>
+        Task<PhotoDto?> GetPhotoByIdAsync(long photoId, CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Adds a photo to the Favorites tag, creating the tag if needed.
+        /// Does nothing if the photo is already a favorite.
+        /// </summary>
+        /// <param name="photoId">The photo ID.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>True if the photo exists, false if not found.</returns>
+        Task<bool> AddToFavoritesAsync(long photoId, CancellationToken cancellationToken = default);
     }
 }
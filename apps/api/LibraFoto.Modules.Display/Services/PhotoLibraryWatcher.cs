@@ -0,0 +1,99 @@
+using LibraFoto.Data;
+using LibraFoto.Modules.Display.Models;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+
+namespace LibraFoto.Modules.Display.Services
+{
+    /// <summary>
+    /// Background service that detects photo library changes and pushes
+    /// <see cref="DisplayEventTypes.PhotoLibraryChanged"/> events to connected displays.
+    /// Uploads, syncs and edits happen in other modules, so the library is fingerprinted
+    /// periodically instead of coupling those modules to the display event stream.
+    /// Only queries the database while at least one display is subscribed.
+    /// </summary>
+    public class PhotoLibraryWatcher : BackgroundService
+    {
+        private readonly IServiceScopeFactory _scopeFactory;
+        private readonly IDisplayEventService _eventService;
+        private readonly ILogger<PhotoLibraryWatcher> _logger;
+
+        private string? _lastFingerprint;
+
+        public PhotoLibraryWatcher(
+            IServiceScopeFactory scopeFactory,
+            IDisplayEventService eventService,
+            ILogger<PhotoLibraryWatcher> logger)
+        {
+            _scopeFactory = scopeFactory;
+            _eventService = eventService;
+            _logger = logger;
+        }
+
+        /// <summary>
+        /// Interval between library checks.
+        /// </summary>
+        internal TimeSpan CheckInterval { get; init; } = TimeSpan.FromSeconds(15);
+
+        /// <inheritdoc />
+        protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+        {
+            using var timer = new PeriodicTimer(CheckInterval);
+
+            while (await timer.WaitForNextTickAsync(stoppingToken))
+            {
+                try
+                {
+                    await CheckForChangesAsync(stoppingToken);
+                }
+                catch (Exception ex) when (ex is not OperationCanceledException)
+                {
+                    _logger.LogWarning(ex, "Failed to check photo library for changes");
+                }
+            }
+        }
+
+        /// <summary>
+        /// Compares the library fingerprint with the previous check and publishes
+        /// an event when it differs.
+        /// </summary>
+        /// <returns>True if a change event was published.</returns>
+        internal async Task<bool> CheckForChangesAsync(CancellationToken cancellationToken = default)
+        {
+            if (_eventService.SubscriberCount == 0)
+            {
+                // Nobody is listening; forget the baseline so a stale one is not compared later
+                _lastFingerprint = null;
+                return false;
+            }
+
+            var fingerprint = await GetLibraryFingerprintAsync(cancellationToken);
+            var changed = _lastFingerprint != null && fingerprint != _lastFingerprint;
+            _lastFingerprint = fingerprint;
+
+            if (!changed)
+            {
+                return false;
+            }
+
+            _logger.LogInformation("Photo library changed, notifying displays");
+            _eventService.Publish(new DisplayEvent { Type = DisplayEventTypes.PhotoLibraryChanged });
+            return true;
+        }
+
+        private async Task<string> GetLibraryFingerprintAsync(CancellationToken cancellationToken)
+        {
+            using var scope = _scopeFactory.CreateScope();
+            var dbContext = scope.ServiceProvider.GetRequiredService<LibraFotoDbContext>();
+
+            var photoCount = await dbContext.Photos.CountAsync(cancellationToken);
+            var maxPhotoId = await dbContext.Photos.MaxAsync(p => (long?)p.Id, cancellationToken) ?? 0;
+            var albumLinks = await dbContext.PhotoAlbums.CountAsync(cancellationToken);
+            var tagLinks = await dbContext.PhotoTags.CountAsync(cancellationToken);
+
+            return $"{photoCount}:{maxPhotoId}:{albumLinks}:{tagLinks}";
+        }
+    }
+}
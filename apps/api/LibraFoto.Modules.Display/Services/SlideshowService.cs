@@ -1,4 +1,7 @@
 using System.Collections.Concurrent;
+using System.Globalization;
+using System.Security.Cryptography;
+using System.Text;
 using LibraFoto.Data;
 using LibraFoto.Data.Entities;
 using LibraFoto.Data.Enums;
@@ -19,6 +22,21 @@ namespace LibraFoto.Modules.Display.Services
         private readonly IServiceScopeFactory _scopeFactory;
         private readonly ILogger<SlideshowService> _logger;
 
+        /// <summary>
+        /// Name of the tag that collects photos favorited on a display.
+        /// </summary>
+        internal const string FavoritesTagName = "Favorites";
+
+        /// <summary>
+        /// Days either side of today that count as "this week" for memories.
+        /// </summary>
+        internal const int MemoriesWeekRadius = 3;
+
+        /// <summary>
+        /// Slides taken from memories for each slide from the rest of the library.
+        /// </summary>
+        internal const int MemoriesWeight = 4;
+
         // Thread-safe storage for slideshow state per settings ID
         private static readonly ConcurrentDictionary<long, SlideshowState> _states = new();
 
@@ -43,7 +61,8 @@ namespace LibraFoto.Modules.Display.Services
             }
 
             var state = GetOrCreateState(settings.Id);
-            var photos = await GetFilteredPhotoIdsAsync(scope, settings, cancellationToken);
+            var sources = await GetPhotoSourcesAsync(scope, settings, cancellationToken);
+            var photos = GetDistinctPhotoIds(sources);
 
             if (photos.Count == 0)
             {
@@ -54,14 +73,14 @@ namespace LibraFoto.Modules.Display.Services
             // Rebuild queue if empty or settings changed
             if (state.PhotoQueue.Count == 0 || state.NeedsRefresh)
             {
-                RebuildQueue(state, photos, settings.Shuffle);
+                RebuildQueue(state, sources, settings.Shuffle);
             }
 
             // Get next photo ID from queue
             if (!state.PhotoQueue.TryDequeue(out var photoId))
             {
                 // Queue exhausted, rebuild
-                RebuildQueue(state, photos, settings.Shuffle);
+                RebuildQueue(state, sources, settings.Shuffle);
                 if (!state.PhotoQueue.TryDequeue(out photoId))
                 {
                     return null;
@@ -110,7 +129,8 @@ namespace LibraFoto.Modules.Display.Services
             }
 
             var state = GetOrCreateState(settings.Id);
-            var photos = await GetFilteredPhotoIdsAsync(scope, settings, cancellationToken);
+            var sources = await GetPhotoSourcesAsync(scope, settings, cancellationToken);
+            var photos = GetDistinctPhotoIds(sources);
 
             if (photos.Count == 0)
             {
@@ -120,7 +140,7 @@ namespace LibraFoto.Modules.Display.Services
             // Rebuild queue if empty or needs refresh
             if (state.PhotoQueue.Count == 0 || state.NeedsRefresh)
             {
-                RebuildQueue(state, photos, settings.Shuffle);
+                RebuildQueue(state, sources, settings.Shuffle);
             }
 
             // Peek at the next N photos without dequeuing
@@ -174,11 +194,56 @@ namespace LibraFoto.Modules.Display.Services
                 return 0;
             }
 
+            if (settings.SourceType is SourceType.Playlist or SourceType.Memories)
+            {
+                // These sources are resolved in memory; playlist sources can overlap, so count each photo once
+                var sources = await GetPhotoSourcesAsync(scope, settings, cancellationToken);
+                return GetDistinctPhotoIds(sources).Count;
+            }
+
             var dbContext = scope.ServiceProvider.GetRequiredService<LibraFotoDbContext>();
             var query = BuildPhotoQuery(dbContext, settings);
             return await query.CountAsync(cancellationToken);
         }
 
+        /// <inheritdoc />
+        public async Task<PhotoDto?> GetPhotoByIdAsync(long photoId, CancellationToken cancellationToken = default)
+        {
+            using var scope = _scopeFactory.CreateScope();
+            return await GetPhotoDtoByIdAsync(scope, photoId, cancellationToken);
+        }
+
+        /// <inheritdoc />
+        public async Task<bool> AddToFavoritesAsync(long photoId, CancellationToken cancellationToken = default)
+        {
+            using var scope = _scopeFactory.CreateScope();
+            var dbContext = scope.ServiceProvider.GetRequiredService<LibraFotoDbContext>();
+
+            if (!await dbContext.Photos.AnyAsync(p => p.Id == photoId, cancellationToken))
+            {
+                return false;
+            }
+
+            var tag = await dbContext.Tags.FirstOrDefaultAsync(t => t.Name == FavoritesTagName, cancellationToken);
+            if (tag == null)
+            {
+                tag = new Tag { Name = FavoritesTagName };
+                dbContext.Tags.Add(tag);
+                await dbContext.SaveChangesAsync(cancellationToken);
+            }
+
+            var isFavorite = await dbContext.PhotoTags
+                .AnyAsync(pt => pt.PhotoId == photoId && pt.TagId == tag.Id, cancellationToken);
+            if (!isFavorite)
+            {
+                dbContext.PhotoTags.Add(new PhotoTag { PhotoId = photoId, TagId = tag.Id });
+                await dbContext.SaveChangesAsync(cancellationToken);
+                _logger.LogDebug("Added photo {PhotoId} to favorites", photoId);
+            }
+
+            return true;
+        }
+
         private async Task<DisplaySettingsDto?> GetSettingsAsync(IDisplaySettingsService settingsService, long? settingsId, CancellationToken cancellationToken)
         {
             if (settingsId.HasValue)
@@ -194,16 +259,129 @@ namespace LibraFoto.Modules.Display.Services
             return _states.GetOrAdd(settingsId, _ => new SlideshowState());
         }
 
-        private async Task<List<long>> GetFilteredPhotoIdsAsync(IServiceScope scope, DisplaySettingsDto settings, CancellationToken cancellationToken)
+        private async Task<List<PhotoSource>> GetPhotoSourcesAsync(IServiceScope scope, DisplaySettingsDto settings, CancellationToken cancellationToken)
         {
             var dbContext = scope.ServiceProvider.GetRequiredService<LibraFotoDbContext>();
-            var query = BuildPhotoQuery(dbContext, settings);
-            return await query.Select(p => p.Id).ToListAsync(cancellationToken);
+
+            if (settings.SourceType == SourceType.Memories)
+            {
+                // Memories take most slides, with the rest of the library mixed in and used alone on days without any
+                var memoryIds = await GetMemoryPhotoIdsAsync(dbContext, DateTime.Now.Date, SkipsVideos(settings), cancellationToken);
+                var libraryIds = await BuildPhotoQuery(dbContext, settings).Select(p => p.Id).ToListAsync(cancellationToken);
+                if (memoryIds.Count == 0)
+                {
+                    return [new PhotoSource(libraryIds, 1)];
+                }
+
+                return [new PhotoSource(memoryIds, MemoriesWeight), new PhotoSource(libraryIds, 1)];
+            }
+
+            if (settings.SourceType != SourceType.Playlist)
+            {
+                var ids = await BuildPhotoQuery(dbContext, settings).Select(p => p.Id).ToListAsync(cancellationToken);
+                return [new PhotoSource(ids, 1)];
+            }
+
+            var excludedTagIds = settings.PlaylistSources
+                .Where(s => s.IsExcluded && s.TagId.HasValue)
+                .Select(s => s.TagId!.Value)
+                .ToList();
+
+            var sources = new List<PhotoSource>();
+            foreach (var source in settings.PlaylistSources.Where(s => !s.IsExcluded))
+            {
+                var ids = await BuildPlaylistSourceQuery(dbContext, source, excludedTagIds, SkipsVideos(settings))
+                    .Select(p => p.Id)
+                    .ToListAsync(cancellationToken);
+
+                if (ids.Count > 0)
+                {
+                    sources.Add(new PhotoSource(ids, Math.Max(source.Weight, 1)));
+                }
+            }
+
+            return sources;
+        }
+
+        /// <summary>
+        /// Finds photos taken on this calendar day in earlier years. When there are none,
+        /// widens to the surrounding week.
+        /// </summary>
+        private static async Task<List<long>> GetMemoryPhotoIdsAsync(LibraFotoDbContext dbContext, DateTime today, bool skipVideos, CancellationToken cancellationToken)
+        {
+            var library = FilterMediaType(dbContext.Photos.AsNoTracking(), skipVideos);
+
+            // Anything newer than a year (less the week window) is not a memory yet
+            var cutoff = today.AddYears(-1).AddDays(MemoriesWeekRadius + 1);
+            var taken = library.Where(p => p.DateTaken.HasValue && p.DateTaken.Value < cutoff);
+
+            var day = today.Month * 100 + today.Day;
+            var ids = await taken
+                .Where(p => p.DateTaken!.Value.Month * 100 + p.DateTaken.Value.Day == day)
+                .OrderBy(p => p.DateTaken)
+                .Select(p => p.Id)
+                .ToListAsync(cancellationToken);
+            if (ids.Count > 0)
+            {
+                return ids;
+            }
+
+            var week = Enumerable.Range(-MemoriesWeekRadius, MemoriesWeekRadius * 2 + 1)
+                .Select(offset => today.AddDays(offset))
+                .Select(date => date.Month * 100 + date.Day)
+                .ToList();
+            return await taken
+                .Where(p => week.Contains(p.DateTaken!.Value.Month * 100 + p.DateTaken.Value.Day))
+                .OrderBy(p => p.DateTaken)
+                .Select(p => p.Id)
+                .ToListAsync(cancellationToken);
+        }
+
+        private static List<long> GetDistinctPhotoIds(List<PhotoSource> sources)
+        {
+            return sources.Count == 1
+                ? sources[0].PhotoIds
+                : sources.SelectMany(s => s.PhotoIds).Distinct().ToList();
+        }
+
+        private static IQueryable<Photo> BuildPlaylistSourceQuery(LibraFotoDbContext dbContext, PlaylistSourceDto source, List<long> excludedTagIds, bool skipVideos)
+        {
+            var query = FilterMediaType(dbContext.Photos.AsNoTracking(), skipVideos);
+
+            if (source.AlbumId.HasValue)
+            {
+                query = query.Where(p => p.PhotoAlbums.Any(pa => pa.AlbumId == source.AlbumId.Value));
+            }
+            else if (source.TagId.HasValue)
+            {
+                query = query.Where(p => p.PhotoTags.Any(pt => pt.TagId == source.TagId.Value));
+            }
+
+            // Photos without a date taken fall back to when they were added
+            if (source.DateFrom.HasValue)
+            {
+                var from = source.DateFrom.Value.Date;
+                query = query.Where(p => (p.DateTaken ?? p.DateAdded) >= from);
+            }
+
+            if (source.DateTo.HasValue)
+            {
+                // The end date is inclusive
+                var until = source.DateTo.Value.Date.AddDays(1);
+                query = query.Where(p => (p.DateTaken ?? p.DateAdded) < until);
+            }
+
+            if (excludedTagIds.Count > 0)
+            {
+                query = query.Where(p => !p.PhotoTags.Any(pt => excludedTagIds.Contains(pt.TagId)));
+            }
+
+            return query.OrderBy(p => p.Id);
         }
 
         private IQueryable<Photo> BuildPhotoQuery(LibraFotoDbContext dbContext, DisplaySettingsDto settings)
         {
-            IQueryable<Photo> query = dbContext.Photos.AsNoTracking();
+            var query = FilterMediaType(dbContext.Photos.AsNoTracking(), SkipsVideos(settings));
 
             switch (settings.SourceType)
             {
@@ -224,21 +402,95 @@ namespace LibraFoto.Modules.Display.Services
             return query;
         }
 
-        private void RebuildQueue(SlideshowState state, List<long> photoIds, bool shuffle)
+        private static bool SkipsVideos(DisplaySettingsDto settings)
+        {
+            return settings.VideoPlayback == VideoPlayback.Skip;
+        }
+
+        private static IQueryable<Photo> FilterMediaType(IQueryable<Photo> query, bool skipVideos)
+        {
+            return skipVideos ? query.Where(p => p.MediaType != MediaType.Video) : query;
+        }
+
+        private void RebuildQueue(SlideshowState state, List<PhotoSource> sources, bool shuffle)
         {
             state.PhotoQueue.Clear();
 
-            var orderedIds = shuffle
-                ? photoIds.OrderBy(_ => Random.Shared.Next()).ToList()
-                : photoIds;
+            if (sources.Count == 1)
+            {
+                var photoIds = sources[0].PhotoIds;
+                var orderedIds = shuffle
+                    ? photoIds.OrderBy(_ => Random.Shared.Next()).ToList()
+                    : photoIds;
 
-            foreach (var id in orderedIds)
+                foreach (var id in orderedIds)
+                {
+                    state.PhotoQueue.Enqueue(id);
+                }
+            }
+            else if (sources.Count > 1)
             {
-                state.PhotoQueue.Enqueue(id);
+                foreach (var id in BuildWeightedSequence(sources, shuffle))
+                {
+                    state.PhotoQueue.Enqueue(id);
+                }
             }
 
             state.NeedsRefresh = false;
-            _logger.LogDebug("Rebuilt slideshow queue with {Count} photos, shuffle={Shuffle}", orderedIds.Count, shuffle);
+            _logger.LogDebug("Rebuilt slideshow queue with {Count} photos from {Sources} sources, shuffle={Shuffle}",
+                state.PhotoQueue.Count, sources.Count, shuffle);
+        }
+
+        /// <summary>
+        /// Interleaves several sources so each supplies slides in proportion to its weight.
+        /// The sequence is as long as the number of distinct photos. A source that runs out
+        /// starts over, so small heavily weighted sources repeat rather than losing their share.
+        /// Without shuffle, sources are picked by smooth weighted round-robin and keep their order.
+        /// </summary>
+        private static List<long> BuildWeightedSequence(List<PhotoSource> sources, bool shuffle)
+        {
+            var length = GetDistinctPhotoIds(sources).Count;
+            var totalWeight = sources.Sum(s => s.Weight);
+            var cursors = sources
+                .Select(s => new SourceCursor(shuffle ? s.PhotoIds.OrderBy(_ => Random.Shared.Next()).ToList() : s.PhotoIds))
+                .ToList();
+            var credits = new int[sources.Count];
+            var queued = new HashSet<long>();
+            var sequence = new List<long>(length);
+
+            while (sequence.Count < length)
+            {
+                int pick;
+                if (shuffle)
+                {
+                    var roll = Random.Shared.Next(totalWeight);
+                    pick = 0;
+                    while (roll >= sources[pick].Weight)
+                    {
+                        roll -= sources[pick].Weight;
+                        pick++;
+                    }
+                }
+                else
+                {
+                    pick = 0;
+                    for (var i = 0; i < sources.Count; i++)
+                    {
+                        credits[i] += sources[i].Weight;
+                        if (credits[i] > credits[pick])
+                        {
+                            pick = i;
+                        }
+                    }
+                    credits[pick] -= totalWeight;
+                }
+
+                var id = cursors[pick].Next(queued);
+                queued.Add(id);
+                sequence.Add(id);
+            }
+
+            return sequence;
         }
 
         private async Task<PhotoDto?> GetPhotoDtoByIdAsync(IServiceScope scope, long id, CancellationToken cancellationToken)
@@ -258,20 +510,107 @@ namespace LibraFoto.Modules.Display.Services
 
         private static PhotoDto MapToDto(Photo photo)
         {
+            var version = GetEditVersion(photo);
+            var (width, height) = GetEditedSize(photo);
             return new PhotoDto
             {
                 Id = photo.Id,
-                Url = $"/api/media/photos/{photo.Id}",
-                ThumbnailUrl = photo.ThumbnailPath != null ? $"/api/media/photos/{photo.Id}/thumbnail" : null,
+                Url = $"/api/media/photos/{photo.Id}{version}",
+                ThumbnailUrl = photo.ThumbnailPath != null ? $"/api/media/photos/{photo.Id}/thumbnail{version}" : null,
                 DateTaken = photo.DateTaken,
                 Location = photo.Location,
                 MediaType = photo.MediaType,
                 Duration = photo.Duration,
-                Width = photo.Width,
-                Height = photo.Height
+                Width = width,
+                Height = height,
+                FocalPointX = photo.FocalPointX,
+                FocalPointY = photo.FocalPointY
             };
         }
 
+        /// <summary>
+        /// Returns the size of the photo as displayed: rotated a quarter turn swaps width and height,
+        /// and the crop keeps its fraction of each side.
+        /// </summary>
+        internal static (int Width, int Height) GetEditedSize(Photo photo)
+        {
+            var quarterTurn = photo.Rotation is 90 or 270;
+            double width = quarterTurn ? photo.Height : photo.Width;
+            double height = quarterTurn ? photo.Width : photo.Height;
+
+            if (photo.CropWidth is { } cropWidth && photo.CropHeight is { } cropHeight)
+            {
+                width *= cropWidth;
+                height *= cropHeight;
+            }
+
+            return ((int)Math.Round(width), (int)Math.Round(height));
+        }
+
+        /// <summary>
+        /// Returns a query string that changes whenever the photo's rotation, flip or crop changes,
+        /// so displays and their service worker fetch the edited rendition instead of a cached one.
+        /// Unedited photos keep their plain URL. Uses the same hash as the media module's ImageEdits.Version,
+        /// which names the rendition stored on disk.
+        /// </summary>
+        internal static string GetEditVersion(Photo photo)
+        {
+            if (photo.Rotation == 0 && !photo.FlipHorizontal && photo.CropWidth is null)
+            {
+                return string.Empty;
+            }
+
+            var edits = string.Join(
+                ";",
+                photo.Rotation,
+                photo.FlipHorizontal,
+                photo.CropX?.ToString("R", CultureInfo.InvariantCulture),
+                photo.CropY?.ToString("R", CultureInfo.InvariantCulture),
+                photo.CropWidth?.ToString("R", CultureInfo.InvariantCulture),
+                photo.CropHeight?.ToString("R", CultureInfo.InvariantCulture));
+            var hash = SHA256.HashData(Encoding.UTF8.GetBytes(edits));
+            return $"?v={Convert.ToHexStringLower(hash)[..12]}";
+        }
+
+        /// <summary>
+        /// Photos drawn from one album, tag or filter, with their relative share of slides.
+        /// </summary>
+        private sealed record PhotoSource(List<long> PhotoIds, int Weight);
+
+        /// <summary>
+        /// Walks a source's photos in a loop, preferring photos not yet queued.
+        /// </summary>
+        private sealed class SourceCursor
+        {
+            private readonly List<long> _photoIds;
+            private int _position;
+            private bool _exhausted;
+
+            public SourceCursor(List<long> photoIds)
+            {
+                _photoIds = photoIds;
+            }
+
+            public long Next(HashSet<long> queued)
+            {
+                for (var i = 0; !_exhausted && i < _photoIds.Count; i++)
+                {
+                    var id = _photoIds[(_position + i) % _photoIds.Count];
+                    if (!queued.Contains(id))
+                    {
+                        _position = (_position + i + 1) % _photoIds.Count;
+                        return id;
+                    }
+                }
+
+                // Everything here is already queued, so repeat in order
+                _exhausted = true;
+                var repeat = _photoIds[_position];
+                _position = (_position + 1) % _photoIds.Count;
+                return repeat;
+            }
+        }
+
         /// <summary>
         /// Internal state for tracking slideshow progress.
         /// </summary>
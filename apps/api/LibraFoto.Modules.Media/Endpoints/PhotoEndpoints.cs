@@ -1,11 +1,15 @@
 using LibraFoto.Data;
 using LibraFoto.Data.Enums;
+using LibraFoto.Modules.Media.Models;
+using LibraFoto.Modules.Media.Services;
 using LibraFoto.Shared.Configuration;
 using Microsoft.AspNetCore.Builder;
 using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Http.HttpResults;
+using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.Routing;
 using Microsoft.Extensions.Configuration;
+using Microsoft.Net.Http.Headers;
 
 namespace LibraFoto.Modules.Media.Endpoints
 {
@@ -20,19 +24,22 @@ namespace LibraFoto.Modules.Media.Endpoints
 
             group.MapGet("/{photoId:long}", GetPhoto)
                 .WithName("GetPhoto")
-                .WithDescription("Get the full-size photo or video file");
+                .WithDescription("Get the full-size photo or video file, with any rotation, flip and crop edits applied unless ?original=true");
 
             return app;
         }
 
         /// <summary>
-        /// Gets the full-size photo or video file.
+        /// Gets the full-size photo or video file. Edited photos are rendered from the untouched original once
+        /// per edit, and tagged with the edit version so clients can revalidate cheaply.
         /// </summary>
         private static async Task<Results<FileStreamHttpResult, NotFound>> GetPhoto(
             long photoId,
             LibraFotoDbContext dbContext,
             IConfiguration configuration,
-            CancellationToken ct)
+            IEditedPhotoCache editedPhotoCache,
+            [FromQuery] bool original = false,
+            CancellationToken ct = default)
         {
             var photo = await dbContext.Photos.FindAsync([photoId], ct);
             if (photo is null)
@@ -50,6 +57,23 @@ namespace LibraFoto.Modules.Media.Endpoints
                     return TypedResults.NotFound();
                 }
 
+                var edits = ImageEdits.FromPhoto(photo);
+                if (!original && photo.MediaType == MediaType.Photo && !edits.IsEmpty)
+                {
+                    var renditionPath = await editedPhotoCache.GetRenditionPathAsync(photo.Id, absolutePath, edits, ct);
+                    if (renditionPath is null)
+                    {
+                        return TypedResults.NotFound();
+                    }
+
+                    var rendition = new FileStream(renditionPath, FileMode.Open, FileAccess.Read, FileShare.Read);
+                    return TypedResults.File(
+                        rendition,
+                        "image/jpeg",
+                        entityTag: new EntityTagHeaderValue($"\"{photo.Id}-{edits.Version}\""),
+                        enableRangeProcessing: true);
+                }
+
                 var fileStream = new FileStream(absolutePath, FileMode.Open, FileAccess.Read, FileShare.Read);
                 var contentType = GetContentTypeFromFilename(photo.Filename, photo.MediaType);
                 return TypedResults.File(fileStream, contentType, enableRangeProcessing: true);
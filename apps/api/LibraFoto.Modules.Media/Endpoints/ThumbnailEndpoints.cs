@@ -208,7 +208,7 @@ namespace LibraFoto.Modules.Media.Endpoints
         }
 
         /// <summary>
-        /// Generates a thumbnail from the photo's source file in local storage.
+        /// Generates a thumbnail from the photo's source file in local storage, applying its stored edits.
         /// </summary>
         private static async Task<ThumbnailResult?> GenerateThumbnailFromSource(
             LibraFoto.Data.Entities.Photo photo,
@@ -222,7 +222,10 @@ namespace LibraFoto.Modules.Media.Endpoints
 
             if (File.Exists(absolutePath))
             {
-                return await thumbnailService.GenerateThumbnailAsync(absolutePath, photo.Id, dateTaken, ct);
+                var edits = ImageEdits.FromPhoto(photo);
+                return edits.IsEmpty
+                    ? await thumbnailService.GenerateThumbnailAsync(absolutePath, photo.Id, dateTaken, ct)
+                    : await thumbnailService.GenerateThumbnailAsync(absolutePath, photo.Id, dateTaken, edits, ct);
             }
 
             return null;
@@ -27,6 +27,15 @@ namespace LibraFoto.Modules.Media
                 return new ThumbnailService(thumbnailPath);
             });
 
+            // Edited renditions live under the thumbnails folder, which library scans skip
+            services.AddScoped<IEditedPhotoCache>(sp =>
+            {
+                var configuration = sp.GetRequiredService<IConfiguration>();
+                var storagePath = configuration["Storage:LocalPath"] ?? LibraFotoDefaults.GetDefaultPhotosPath();
+                var renditionPath = Path.Combine(storagePath, ".thumbnails", "edited");
+                return new EditedPhotoCache(sp.GetRequiredService<IImageProcessor>(), renditionPath);
+            });
+
             services.AddScoped<IMetadataService, MetadataService>();
             services.AddScoped<IImageProcessor, ImageProcessor>();
 
@@ -0,0 +1,105 @@
+using System.Globalization;
+using System.Security.Cryptography;
+using System.Text;
+using LibraFoto.Data.Entities;
+using SixLabors.ImageSharp;
+
+namespace LibraFoto.Modules.Media.Models
+{
+    /// <summary>
+    /// Non-destructive edits stored for a photo and applied whenever it is rendered.
+    /// </summary>
+    public record ImageEdits
+    {
+        /// <summary>
+        /// Clockwise rotation in degrees, applied after EXIF orientation. Valid values: 0, 90, 180, 270.
+        /// </summary>
+        public int Rotation { get; init; }
+
+        /// <summary>
+        /// Whether to mirror the image left to right after rotating.
+        /// </summary>
+        public bool FlipHorizontal { get; init; }
+
+        /// <summary>
+        /// Region to keep after rotating and flipping. Null to keep the whole image.
+        /// </summary>
+        public CropRegion? Crop { get; init; }
+
+        /// <summary>
+        /// True when the edits leave the image unchanged.
+        /// </summary>
+        public bool IsEmpty => Rotation == 0 && !FlipHorizontal && Crop is null;
+
+        /// <summary>
+        /// Short hash that changes whenever the edits change. It matches the version the slideshow adds to
+        /// edited photo URLs, and is empty when there are no edits.
+        /// </summary>
+        public string Version
+        {
+            get
+            {
+                if (IsEmpty)
+                {
+                    return string.Empty;
+                }
+
+                var edits = string.Join(
+                    ";",
+                    Rotation,
+                    FlipHorizontal,
+                    Crop?.X.ToString("R", CultureInfo.InvariantCulture),
+                    Crop?.Y.ToString("R", CultureInfo.InvariantCulture),
+                    Crop?.Width.ToString("R", CultureInfo.InvariantCulture),
+                    Crop?.Height.ToString("R", CultureInfo.InvariantCulture));
+                var hash = SHA256.HashData(Encoding.UTF8.GetBytes(edits));
+                return Convert.ToHexStringLower(hash)[..12];
+            }
+        }
+
+        /// <summary>
+        /// Reads the edits stored on a photo.
+        /// </summary>
+        public static ImageEdits FromPhoto(Photo photo) => new()
+        {
+            Rotation = photo.Rotation,
+            FlipHorizontal = photo.FlipHorizontal,
+            Crop = photo is { CropX: { } x, CropY: { } y, CropWidth: { } width, CropHeight: { } height }
+                ? new CropRegion(x, y, width, height)
+                : null
+        };
+
+        /// <summary>
+        /// Adds the edits to a set of processing options.
+        /// </summary>
+        public ProcessingOptions ApplyTo(ProcessingOptions options) => options with
+        {
+            RotationDegrees = Rotation,
+            FlipHorizontal = FlipHorizontal,
+            Crop = Crop
+        };
+    }
+
+    /// <summary>
+    /// Crop rectangle with each edge given as a fraction (0-1) of the image size,
+    /// so it stays valid for any rendition of the image.
+    /// </summary>
+    /// <param name="X">Left edge as a fraction of the width.</param>
+    /// <param name="Y">Top edge as a fraction of the height.</param>
+    /// <param name="Width">Width as a fraction of the width.</param>
+    /// <param name="Height">Height as a fraction of the height.</param>
+    public record CropRegion(double X, double Y, double Width, double Height)
+    {
+        /// <summary>
+        /// Converts the region to pixels for an image of the given size, keeping at least one pixel.
+        /// </summary>
+        public Rectangle ToRectangle(Size size)
+        {
+            var left = Math.Clamp((int)Math.Round(X * size.Width), 0, size.Width - 1);
+            var top = Math.Clamp((int)Math.Round(Y * size.Height), 0, size.Height - 1);
+            var width = Math.Clamp((int)Math.Round(Width * size.Width), 1, size.Width - left);
+            var height = Math.Clamp((int)Math.Round(Height * size.Height), 1, size.Height - top);
+            return new Rectangle(left, top, width, height);
+        }
+    }
+}
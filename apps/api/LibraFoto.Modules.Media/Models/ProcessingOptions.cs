@@ -55,6 +55,11 @@ namespace LibraFoto.Modules.Media.Models
         /// </summary>
         public bool FlipVertical { get; init; }
 
+        /// <summary>
+        /// Region to keep after rotating and flipping, before resizing. Null to keep the whole image.
+        /// </summary>
+        public CropRegion? Crop { get; init; }
+
         /// <summary>
         /// Target output format. Null to preserve original format.
         /// </summary>
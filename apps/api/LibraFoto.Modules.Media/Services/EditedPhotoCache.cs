@@ -0,0 +1,82 @@
+using LibraFoto.Modules.Media.Models;
+
+namespace LibraFoto.Modules.Media.Services
+{
+    /// <summary>
+    /// Stores edited photo renditions as JPEGs named by photo ID and edit version, next to the thumbnails.
+    /// </summary>
+    public class EditedPhotoCache : IEditedPhotoCache
+    {
+        private readonly IImageProcessor _imageProcessor;
+        private readonly string _renditionBasePath;
+
+        public EditedPhotoCache(IImageProcessor imageProcessor, string renditionBasePath)
+        {
+            _imageProcessor = imageProcessor;
+            _renditionBasePath = renditionBasePath;
+            Directory.CreateDirectory(_renditionBasePath);
+        }
+
+        public string RenditionBasePath => _renditionBasePath;
+
+        public async Task<string?> GetRenditionPathAsync(
+            long photoId,
+            string sourcePath,
+            ImageEdits edits,
+            CancellationToken cancellationToken = default)
+        {
+            var renditionPath = Path.Combine(_renditionBasePath, $"{photoId}_{edits.Version}.jpg");
+            if (File.Exists(renditionPath)
+                && File.GetLastWriteTimeUtc(renditionPath) >= File.GetLastWriteTimeUtc(sourcePath))
+            {
+                return renditionPath;
+            }
+
+            // Render to a temporary file so concurrent requests never serve a partly written rendition
+            var tempPath = $"{renditionPath}.{Guid.NewGuid():N}.tmp";
+            bool rendered;
+            await using (var source = File.OpenRead(sourcePath))
+            await using (var output = File.Create(tempPath))
+            {
+                var options = edits.ApplyTo(ProcessingOptions.FullQuality() with
+                {
+                    OutputFormat = ImageOutputFormat.Jpeg
+                });
+                rendered = await _imageProcessor.ProcessAsync(source, output, options, cancellationToken);
+            }
+
+            if (!rendered)
+            {
+                File.Delete(tempPath);
+                return null;
+            }
+
+            File.Move(tempPath, renditionPath, overwrite: true);
+            DeleteStaleRenditions(photoId, renditionPath);
+            return renditionPath;
+        }
+
+        /// <summary>
+        /// Removes renditions made for the photo's earlier edits.
+        /// </summary>
+        private void DeleteStaleRenditions(long photoId, string currentPath)
+        {
+            foreach (var path in Directory.GetFiles(_renditionBasePath, $"{photoId}_*.jpg"))
+            {
+                if (path == currentPath)
+                {
+                    continue;
+                }
+
+                try
+                {
+                    File.Delete(path);
+                }
+                catch (IOException)
+                {
+                    // Still being served; it is removed after the next edit instead
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,30 @@
+using LibraFoto.Modules.Media.Models;
+
+namespace LibraFoto.Modules.Media.Services
+{
+    /// <summary>
+    /// Keeps full-size renditions of edited photos on disk, so a photo is only rendered again when its edits change.
+    /// </summary>
+    public interface IEditedPhotoCache
+    {
+        /// <summary>
+        /// Gets the rendition of a photo with its edits applied, rendering it first when there is none for
+        /// the current edits or the original changed since.
+        /// </summary>
+        /// <param name="photoId">Photo ID for naming the rendition file.</param>
+        /// <param name="sourcePath">Path to the original image file.</param>
+        /// <param name="edits">Rotation, flip and crop to apply after EXIF orientation.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>Absolute path to the JPEG rendition, or null if the original could not be rendered.</returns>
+        Task<string?> GetRenditionPathAsync(
+            long photoId,
+            string sourcePath,
+            ImageEdits edits,
+            CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Gets the base path for rendition storage.
+        /// </summary>
+        string RenditionBasePath { get; }
+    }
+}
@@ -35,6 +35,22 @@ namespace LibraFoto.Modules.Media.Services
             DateTime dateTaken,
             CancellationToken cancellationToken = default);
 
+        /// <summary>
+        /// Generates a 400x400 thumbnail from a file path with the photo's edits applied.
+        /// </summary>
+        /// <param name="sourcePath">Path to the source image file.</param>
+        /// <param name="photoId">Photo ID for naming the thumbnail file.</param>
+        /// <param name="dateTaken">Date taken for organizing thumbnail paths by year/month.</param>
+        /// <param name="edits">Rotation, flip and crop to apply after EXIF orientation.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>Result containing thumbnail path and dimensions.</returns>
+        Task<ThumbnailResult> GenerateThumbnailAsync(
+            string sourcePath,
+            long photoId,
+            DateTime dateTaken,
+            ImageEdits edits,
+            CancellationToken cancellationToken = default);
+
         /// <summary>
         /// Gets the path to an existing thumbnail.
         /// </summary>
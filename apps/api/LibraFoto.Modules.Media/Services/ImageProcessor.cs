@@ -228,6 +228,12 @@ namespace LibraFoto.Modules.Media.Services
                     ctx.Flip(FlipMode.Vertical);
                 }
 
+                // Apply crop
+                if (options.Crop is not null)
+                {
+                    ctx.Crop(options.Crop.ToRectangle(ctx.GetCurrentSize()));
+                }
+
                 // Apply resize
                 if (options.MaxDimension.HasValue || options.Width.HasValue || options.Height.HasValue)
                 {
@@ -30,7 +30,7 @@ namespace LibraFoto.Modules.Media.Services
             CancellationToken cancellationToken = default)
         {
             using var image = await Image.LoadAsync(sourceStream, cancellationToken);
-            return await GenerateThumbnailInternalAsync(image, photoId, dateTaken, cancellationToken);
+            return await GenerateThumbnailInternalAsync(image, photoId, dateTaken, null, cancellationToken);
         }
 
         public async Task<ThumbnailResult> GenerateThumbnailAsync(
@@ -40,26 +40,57 @@ namespace LibraFoto.Modules.Media.Services
             CancellationToken cancellationToken = default)
         {
             using var image = await Image.LoadAsync(sourcePath, cancellationToken);
-            return await GenerateThumbnailInternalAsync(image, photoId, dateTaken, cancellationToken);
+            return await GenerateThumbnailInternalAsync(image, photoId, dateTaken, null, cancellationToken);
+        }
+
+        public async Task<ThumbnailResult> GenerateThumbnailAsync(
+            string sourcePath,
+            long photoId,
+            DateTime dateTaken,
+            ImageEdits edits,
+            CancellationToken cancellationToken = default)
+        {
+            using var image = await Image.LoadAsync(sourcePath, cancellationToken);
+            return await GenerateThumbnailInternalAsync(image, photoId, dateTaken, edits, cancellationToken);
         }
 
         private async Task<ThumbnailResult> GenerateThumbnailInternalAsync(
             Image image,
             long photoId,
             DateTime dateTaken,
+            ImageEdits? edits,
             CancellationToken cancellationToken)
         {
             var thumbnailPath = GetThumbnailFilePath(photoId, dateTaken);
 
             // Create a clone to avoid modifying the original
-            using var thumbnail = image.Clone(ctx => ctx
-                .AutoOrient()
-                .Resize(new ResizeOptions
+            using var thumbnail = image.Clone(ctx =>
+            {
+                ctx.AutoOrient();
+
+                if (edits is not null)
+                {
+                    if (edits.Rotation != 0)
+                    {
+                        ctx.Rotate(edits.Rotation);
+                    }
+                    if (edits.FlipHorizontal)
+                    {
+                        ctx.Flip(FlipMode.Horizontal);
+                    }
+                    if (edits.Crop is not null)
+                    {
+                        ctx.Crop(edits.Crop.ToRectangle(ctx.GetCurrentSize()));
+                    }
+                }
+
+                ctx.Resize(new ResizeOptions
                 {
                     Size = new Size(ThumbnailSize, ThumbnailSize),
                     Mode = ResizeMode.Max,
                     Sampler = KnownResamplers.Lanczos3
-                }));
+                });
+            });
 
             var encoder = new JpegEncoder { Quality = ThumbnailQuality };
 
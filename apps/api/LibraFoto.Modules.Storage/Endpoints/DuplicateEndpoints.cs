@@ -0,0 +1,101 @@
+using LibraFoto.Modules.Storage.Interfaces;
+using LibraFoto.Modules.Storage.Models;
+using LibraFoto.Modules.Storage.Services;
+using LibraFoto.Shared.DTOs;
+using Microsoft.AspNetCore.Builder;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Http.HttpResults;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Routing;
+
+namespace LibraFoto.Modules.Storage.Endpoints
+{
+    /// <summary>
+    /// Endpoints for reviewing and resolving duplicate photos already in the library.
+    /// </summary>
+    public static class DuplicateEndpoints
+    {
+        /// <summary>
+        /// Maps duplicate review endpoints.
+        /// </summary>
+        public static IEndpointRouteBuilder MapDuplicateEndpoints(this IEndpointRouteBuilder app)
+        {
+            var group = app.MapGroup("/api/admin/duplicates")
+                .WithTags("Duplicates")
+                .RequireAuthorization();
+
+            group.MapGet("/", GetDuplicateGroups)
+                .WithName("GetDuplicateGroups")
+                .WithSummary("Get duplicate photo groups")
+                .WithDescription("Groups photos with identical content or nearly identical perceptual hashes.");
+
+            group.MapPost("/scan", ScanForDuplicates)
+                .WithName("ScanForDuplicates")
+                .WithSummary("Hash photos for duplicate detection")
+                .WithDescription("Hashes the next batch of photos missing a content or perceptual hash. Repeat with the returned lastPhotoId until nothing remains.");
+
+            group.MapPost("/resolve", ResolveDuplicates)
+                .WithName("ResolveDuplicates")
+                .WithSummary("Resolve a duplicate group")
+                .WithDescription("Keeps one photo and deletes the others, merging their album and tag memberships into the kept photo. Photos that are not exact or near-duplicates of the kept photo are rejected.");
+
+            return app;
+        }
+
+        /// <summary>
+        /// Gets the groups of duplicate photos.
+        /// </summary>
+        private static async Task<Ok<IReadOnlyList<DuplicateGroupDto>>> GetDuplicateGroups(
+            [FromServices] IDuplicateDetectionService duplicates,
+            CancellationToken cancellationToken)
+        {
+            return TypedResults.Ok(await duplicates.GetDuplicateGroupsAsync(cancellationToken));
+        }
+
+        /// <summary>
+        /// Hashes the next batch of photos after the given ID.
+        /// </summary>
+        private static async Task<Ok<DuplicateScanResult>> ScanForDuplicates(
+            [FromServices] IDuplicateDetectionService duplicates,
+            [FromQuery] long afterId = 0,
+            CancellationToken cancellationToken = default)
+        {
+            var result = await duplicates.IndexPhotosAsync(
+                afterId, DuplicateDetectionService.ScanBatchSize, cancellationToken);
+            return TypedResults.Ok(result);
+        }
+
+        /// <summary>
+        /// Keeps one photo of a duplicate group and deletes the others.
+        /// </summary>
+        private static async Task<Results<Ok<ResolveDuplicatesResult>, BadRequest<ApiError>, NotFound<ApiError>>> ResolveDuplicates(
+            ResolveDuplicatesRequest request,
+            [FromServices] IDuplicateDetectionService duplicates,
+            CancellationToken cancellationToken)
+        {
+            if (request.DeletePhotoIds.Count == 0)
+            {
+                return TypedResults.BadRequest(new ApiError("NO_PHOTOS", "Select at least one photo to delete"));
+            }
+
+            if (request.DeletePhotoIds.Contains(request.KeepPhotoId))
+            {
+                return TypedResults.BadRequest(new ApiError("INVALID_SELECTION", "The kept photo cannot also be deleted"));
+            }
+
+            try
+            {
+                var result = await duplicates.ResolveDuplicatesAsync(
+                    request.KeepPhotoId, request.DeletePhotoIds, cancellationToken);
+
+                return result is null
+                    ? TypedResults.NotFound(new ApiError("PHOTO_NOT_FOUND", $"Photo {request.KeepPhotoId} not found"))
+                    : TypedResults.Ok(result);
+            }
+            catch (InvalidOperationException ex)
+            {
+                return TypedResults.BadRequest(new ApiError("NOT_DUPLICATES", ex.Message));
+            }
+        }
+    }
+}
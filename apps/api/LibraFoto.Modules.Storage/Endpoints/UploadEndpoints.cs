@@ -56,6 +56,37 @@ namespace LibraFoto.Modules.Storage.Endpoints
                 .WithSummary("Upload multiple files")
                 .WithDescription("Uploads multiple photo or video files to local storage.");
 
+            authGroup.MapPost("/duplicates", CheckDuplicates)
+                .WithName("CheckDuplicateUploads")
+                .WithSummary("Check for duplicate uploads")
+                .WithDescription("Returns which of the given SHA-256 file hashes already exist in the library.");
+
+            // Chunked, resumable uploads for large files
+            authGroup.MapPost("/sessions", CreateUploadSession)
+                .WithName("CreateUploadSession")
+                .WithSummary("Start a chunked upload")
+                .WithDescription("Starts a resumable upload session for a large photo or video file.");
+
+            authGroup.MapGet("/sessions/{sessionId}", GetUploadSession)
+                .WithName("GetUploadSession")
+                .WithSummary("Get a chunked upload")
+                .WithDescription("Gets an upload session, including the number of bytes received so far.");
+
+            authGroup.MapPut("/sessions/{sessionId}/chunks", UploadChunk)
+                .WithName("UploadChunk")
+                .WithSummary("Upload a chunk")
+                .WithDescription("Appends the raw request body to an upload session at the given byte offset.");
+
+            authGroup.MapPost("/sessions/{sessionId}/complete", CompleteUploadSession)
+                .WithName("CompleteUploadSession")
+                .WithSummary("Complete a chunked upload")
+                .WithDescription("Imports the fully received file and removes the upload session.");
+
+            authGroup.MapDelete("/sessions/{sessionId}", CancelUploadSession)
+                .WithName("CancelUploadSession")
+                .WithSummary("Cancel a chunked upload")
+                .WithDescription("Removes an upload session and the bytes received so far.");
+
             // Guest upload endpoints (via guest link)
             var guestGroup = app.MapGroup("/api/guest/upload")
                 .WithTags("Guest Upload")
@@ -67,6 +98,11 @@ namespace LibraFoto.Modules.Storage.Endpoints
                 .WithSummary("Upload via guest link")
                 .WithDescription("Uploads files using a guest link for authentication.");
 
+            guestGroup.MapPost("/{linkId}/duplicates", GuestCheckDuplicates)
+                .WithName("GuestCheckDuplicateUploads")
+                .WithSummary("Check for duplicate uploads via guest link")
+                .WithDescription("Returns which of the given SHA-256 file hashes already exist in the library.");
+
             // File access endpoints (for serving files)
             var fileGroup = app.MapGroup("/api/files")
                 .WithTags("Files")
@@ -86,9 +122,11 @@ namespace LibraFoto.Modules.Storage.Endpoints
         private static async Task<Results<Ok<UploadResult>, BadRequest<ApiError>>> UploadFile(
             IFormFile file,
             [FromQuery] long? albumId,
+            [FromQuery] bool? overwrite,
             [FromServices] IStorageProviderFactory providerFactory,
             [FromServices] IMediaScannerService mediaScanner,
             [FromServices] IImageImportService imageImport,
+            [FromServices] IDuplicateDetectionService duplicates,
             [FromServices] IConfiguration configuration,
             [FromServices] LibraFotoDbContext dbContext,
             [FromServices] ILogger<object> logger,
@@ -122,6 +160,13 @@ namespace LibraFoto.Modules.Storage.Endpoints
 
             try
             {
+                // Hash the original upload (before any resizing) so clients can detect duplicates
+                string contentHash;
+                await using (var hashStream = file.OpenReadStream())
+                {
+                    contentHash = await duplicates.ComputeContentHashAsync(hashStream, cancellationToken);
+                }
+
                 // STEP 1: Create Photo record in database to get ID
                 var dateTaken = DateTime.UtcNow; // TODO: Extract from EXIF
                 photo = new Photo
@@ -134,6 +179,7 @@ namespace LibraFoto.Modules.Storage.Endpoints
                     DateAdded = DateTime.UtcNow,
                     DateTaken = dateTaken,
                     ProviderId = provider.ProviderId,
+                    ContentHash = contentHash,
                     Width = 0, // Will be updated
                     Height = 0
                 };
@@ -236,6 +282,12 @@ namespace LibraFoto.Modules.Storage.Endpoints
 
                 await dbContext.SaveChangesAsync(cancellationToken);
 
+                // Replace photos with identical content if requested
+                if (overwrite == true)
+                {
+                    await duplicates.ReplaceDuplicatesAsync(photo, cancellationToken);
+                }
+
                 logger.LogInformation("Successfully uploaded file {FileName} as photo {PhotoId} at {FilePath}",
                     file.FileName, photo.Id, relativePath);
 
@@ -311,9 +363,11 @@ namespace LibraFoto.Modules.Storage.Endpoints
         private static async Task<Results<Ok<BatchUploadResult>, BadRequest<ApiError>>> UploadBatch(
             IFormFileCollection files,
             [FromQuery] long? albumId,
+            [FromQuery] bool? overwrite,
             [FromServices] IStorageProviderFactory providerFactory,
             [FromServices] IMediaScannerService mediaScanner,
             [FromServices] IImageImportService imageImport,
+            [FromServices] IDuplicateDetectionService duplicates,
             [FromServices] IConfiguration configuration,
             [FromServices] LibraFotoDbContext dbContext,
             [FromServices] ILogger<object> logger,
@@ -357,9 +411,11 @@ namespace LibraFoto.Modules.Storage.Endpoints
                 var result = await ProcessSingleUploadAsync(
                     file,
                     albumId,
+                    overwrite == true,
                     providerFactory,
                     mediaScanner,
                     imageImport,
+                    duplicates,
                     configuration,
                     dbContext,
                     logger,
@@ -392,9 +448,11 @@ namespace LibraFoto.Modules.Storage.Endpoints
         private static async Task<UploadResult> ProcessSingleUploadAsync(
             IFormFile file,
             long? albumId,
+            bool overwrite,
             IStorageProviderFactory providerFactory,
             IMediaScannerService mediaScanner,
             IImageImportService imageImport,
+            IDuplicateDetectionService duplicates,
             IConfiguration configuration,
             LibraFotoDbContext dbContext,
             ILogger<object> logger,
@@ -412,6 +470,12 @@ namespace LibraFoto.Modules.Storage.Endpoints
 
             try
             {
+                string contentHash;
+                await using (var hashStream = file.OpenReadStream())
+                {
+                    contentHash = await duplicates.ComputeContentHashAsync(hashStream, cancellationToken);
+                }
+
                 // STEP 1: Create Photo record
                 var dateTaken = DateTime.UtcNow;
                 photo = new Photo
@@ -424,6 +488,7 @@ namespace LibraFoto.Modules.Storage.Endpoints
                     DateAdded = DateTime.UtcNow,
                     DateTaken = dateTaken,
                     ProviderId = provider.ProviderId,
+                    ContentHash = contentHash,
                     Width = 0,
                     Height = 0
                 };
@@ -515,6 +580,11 @@ namespace LibraFoto.Modules.Storage.Endpoints
 
                 await dbContext.SaveChangesAsync(cancellationToken);
 
+                if (overwrite)
+                {
+                    await duplicates.ReplaceDuplicatesAsync(photo, cancellationToken);
+                }
+
                 logger.LogInformation("Successfully uploaded {FileName} as photo {PhotoId}", file.FileName, photo.Id);
 
                 return new UploadResult
@@ -566,6 +636,178 @@ namespace LibraFoto.Modules.Storage.Endpoints
             }
         }
 
+        /// <summary>
+        /// Checks which file hashes already exist so clients can skip duplicate uploads.
+        /// </summary>
+        private static async Task<Results<Ok<DuplicateCheckResult>, BadRequest<ApiError>>> CheckDuplicates(
+            DuplicateCheckRequest request,
+            [FromServices] IDuplicateDetectionService duplicates,
+            CancellationToken cancellationToken)
+        {
+            if (request.Hashes.Count > DuplicateDetectionService.MaxHashesPerCheck)
+            {
+                return TypedResults.BadRequest(new ApiError("TOO_MANY_HASHES",
+                    $"At most {DuplicateDetectionService.MaxHashesPerCheck} hashes can be checked at once"));
+            }
+
+            var existing = await duplicates.FindExistingHashesAsync(request.Hashes, cancellationToken);
+            return TypedResults.Ok(new DuplicateCheckResult { ExistingHashes = existing });
+        }
+
+        /// <summary>
+        /// Starts a chunked upload session after validating the file details.
+        /// </summary>
+        private static async Task<Results<Created<UploadSessionDto>, BadRequest<ApiError>>> CreateUploadSession(
+            CreateUploadSessionRequest request,
+            [FromServices] IUploadSessionService uploadSessions,
+            [FromServices] IMediaScannerService mediaScanner,
+            CancellationToken cancellationToken)
+        {
+            if (string.IsNullOrWhiteSpace(request.FileName))
+            {
+                return TypedResults.BadRequest(new ApiError("INVALID_FILE_NAME", "A file name is required"));
+            }
+
+            if (request.FileSize <= 0)
+            {
+                return TypedResults.BadRequest(new ApiError("NO_FILE", "File is empty"));
+            }
+
+            if (request.FileSize > UploadSessionService.MaxSessionFileSize)
+            {
+                return TypedResults.BadRequest(new ApiError("FILE_TOO_LARGE",
+                    $"File exceeds maximum size of {UploadSessionService.MaxSessionFileSize / 1024 / 1024} MB"));
+            }
+
+            if (!mediaScanner.IsSupportedMediaFile(request.FileName))
+            {
+                return TypedResults.BadRequest(new ApiError("UNSUPPORTED_TYPE", $"File type not supported: {Path.GetExtension(request.FileName)}"));
+            }
+
+            var session = await uploadSessions.CreateSessionAsync(request, cancellationToken);
+            return TypedResults.Created($"/api/admin/upload/sessions/{session.Id}", session);
+        }
+
+        /// <summary>
+        /// Gets an upload session so a client can resume from the received byte count.
+        /// </summary>
+        private static async Task<Results<Ok<UploadSessionDto>, NotFound<ApiError>>> GetUploadSession(
+            string sessionId,
+            [FromServices] IUploadSessionService uploadSessions,
+            CancellationToken cancellationToken)
+        {
+            var session = await uploadSessions.GetSessionAsync(sessionId, cancellationToken);
+            if (session == null)
+            {
+                return TypedResults.NotFound(new ApiError("SESSION_NOT_FOUND", "Upload session not found"));
+            }
+
+            return TypedResults.Ok(session);
+        }
+
+        /// <summary>
+        /// Appends the raw request body to an upload session.
+        /// </summary>
+        private static async Task<Results<Ok<UploadSessionDto>, NotFound<ApiError>, Conflict<ApiError>>> UploadChunk(
+            string sessionId,
+            [FromQuery] long offset,
+            HttpRequest request,
+            [FromServices] IUploadSessionService uploadSessions,
+            CancellationToken cancellationToken)
+        {
+            try
+            {
+                var session = await uploadSessions.AppendChunkAsync(sessionId, offset, request.Body, cancellationToken);
+                if (session == null)
+                {
+                    return TypedResults.NotFound(new ApiError("SESSION_NOT_FOUND", "Upload session not found"));
+                }
+
+                return TypedResults.Ok(session);
+            }
+            catch (InvalidOperationException ex)
+            {
+                return TypedResults.Conflict(new ApiError("CHUNK_REJECTED", ex.Message));
+            }
+        }
+
+        /// <summary>
+        /// Imports a fully received upload session with the same atomic steps as a single upload.
+        /// The session is removed afterwards, whether the import succeeded or not.
+        /// </summary>
+        private static async Task<Results<Ok<UploadResult>, BadRequest<ApiError>, NotFound<ApiError>, Conflict<ApiError>>> CompleteUploadSession(
+            string sessionId,
+            [FromServices] IUploadSessionService uploadSessions,
+            [FromServices] IStorageProviderFactory providerFactory,
+            [FromServices] IMediaScannerService mediaScanner,
+            [FromServices] IImageImportService imageImport,
+            [FromServices] IDuplicateDetectionService duplicates,
+            [FromServices] IConfiguration configuration,
+            [FromServices] LibraFotoDbContext dbContext,
+            [FromServices] ILogger<object> logger,
+            CancellationToken cancellationToken)
+        {
+            var session = await uploadSessions.GetSessionAsync(sessionId, cancellationToken);
+            if (session == null)
+            {
+                return TypedResults.NotFound(new ApiError("SESSION_NOT_FOUND", "Upload session not found"));
+            }
+
+            if (!session.IsComplete)
+            {
+                return TypedResults.Conflict(new ApiError("INCOMPLETE_UPLOAD",
+                    $"Received {session.ReceivedBytes} of {session.FileSize} bytes"));
+            }
+
+            UploadResult result;
+            await using (var content = uploadSessions.OpenContent(sessionId))
+            {
+                var file = new FormFile(content, 0, session.FileSize, "file", session.FileName)
+                {
+                    Headers = new HeaderDictionary(),
+                    ContentType = session.ContentType ?? mediaScanner.GetContentType(session.FileName)
+                };
+
+                result = await ProcessSingleUploadAsync(
+                    file,
+                    session.AlbumId,
+                    session.Overwrite,
+                    providerFactory,
+                    mediaScanner,
+                    imageImport,
+                    duplicates,
+                    configuration,
+                    dbContext,
+                    logger,
+                    cancellationToken);
+            }
+
+            await uploadSessions.DeleteSessionAsync(sessionId, CancellationToken.None);
+
+            if (!result.Success)
+            {
+                return TypedResults.BadRequest(new ApiError("UPLOAD_FAILED", result.ErrorMessage ?? "Upload failed"));
+            }
+
+            return TypedResults.Ok(result);
+        }
+
+        /// <summary>
+        /// Cancels an upload session and discards the received bytes.
+        /// </summary>
+        private static async Task<Results<NoContent, NotFound<ApiError>>> CancelUploadSession(
+            string sessionId,
+            [FromServices] IUploadSessionService uploadSessions,
+            CancellationToken cancellationToken)
+        {
+            if (!await uploadSessions.DeleteSessionAsync(sessionId, cancellationToken))
+            {
+                return TypedResults.NotFound(new ApiError("SESSION_NOT_FOUND", "Upload session not found"));
+            }
+
+            return TypedResults.NoContent();
+        }
+
         /// <summary>
         /// Uploads files via guest link with atomic operations.
         /// </summary>
@@ -575,6 +817,7 @@ namespace LibraFoto.Modules.Storage.Endpoints
             [FromServices] IStorageProviderFactory providerFactory,
             [FromServices] IMediaScannerService mediaScanner,
             [FromServices] IImageImportService imageImport,
+            [FromServices] IDuplicateDetectionService duplicates,
             [FromServices] IConfiguration configuration,
             [FromServices] LibraFotoDbContext dbContext,
             [FromServices] ILogger<object> logger,
@@ -620,13 +863,16 @@ namespace LibraFoto.Modules.Storage.Endpoints
                     continue;
                 }
 
-                // Use the same atomic upload logic with guest link's target album
+                // Use the same atomic upload logic with guest link's target album.
+                // Guests can never replace existing photos.
                 var result = await ProcessSingleUploadAsync(
                     file,
                     guestLink.TargetAlbumId,
+                    false,
                     providerFactory,
                     mediaScanner,
                     imageImport,
+                    duplicates,
                     configuration,
                     dbContext,
                     logger,
@@ -663,6 +909,41 @@ namespace LibraFoto.Modules.Storage.Endpoints
             });
         }
 
+        /// <summary>
+        /// Checks which file hashes already exist, for guests uploading via a guest link.
+        /// Only the matching hashes are returned, never details of the existing photos.
+        /// </summary>
+        private static async Task<Results<Ok<DuplicateCheckResult>, BadRequest<ApiError>, NotFound<ApiError>>> GuestCheckDuplicates(
+            string linkId,
+            DuplicateCheckRequest request,
+            [FromServices] IDuplicateDetectionService duplicates,
+            [FromServices] LibraFotoDbContext dbContext,
+            CancellationToken cancellationToken)
+        {
+            var guestLink = await dbContext.GuestLinks
+                .AsNoTracking()
+                .FirstOrDefaultAsync(g => g.Id == linkId, cancellationToken);
+
+            if (guestLink == null)
+            {
+                return TypedResults.NotFound(new ApiError("LINK_NOT_FOUND", "Guest link not found"));
+            }
+
+            if (guestLink.ExpiresAt.HasValue && guestLink.ExpiresAt.Value < DateTime.UtcNow)
+            {
+                return TypedResults.BadRequest(new ApiError("LINK_EXPIRED", "Guest link has expired"));
+            }
+
+            if (request.Hashes.Count > DuplicateDetectionService.MaxHashesPerCheck)
+            {
+                return TypedResults.BadRequest(new ApiError("TOO_MANY_HASHES",
+                    $"At most {DuplicateDetectionService.MaxHashesPerCheck} hashes can be checked at once"));
+            }
+
+            var existing = await duplicates.FindExistingHashesAsync(request.Hashes, cancellationToken);
+            return TypedResults.Ok(new DuplicateCheckResult { ExistingHashes = existing });
+        }
+
         /// <summary>
         /// Gets a file from storage.
         /// </summary>
@@ -0,0 +1,71 @@
+using LibraFoto.Data.Entities;
+using LibraFoto.Modules.Storage.Models;
+
+namespace LibraFoto.Modules.Storage.Interfaces
+{
+    /// <summary>
+    /// Service for detecting uploads whose content is already in the library, and for reviewing the
+    /// copies the library already contains.
+    /// Identical content is found by SHA-256 hash, visually similar photos by perceptual hash.
+    /// </summary>
+    public interface IDuplicateDetectionService
+    {
+        /// <summary>
+        /// Computes the content hash of a file.
+        /// </summary>
+        /// <param name="content">The file content, read from its current position to the end.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>The SHA-256 hash as lowercase hex.</returns>
+        Task<string> ComputeContentHashAsync(Stream content, CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Finds which of the given hashes belong to photos already in the library.
+        /// Hashes that are not valid SHA-256 hex strings are ignored.
+        /// </summary>
+        /// <param name="hashes">Hashes to look up.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>The matching hashes as lowercase hex.</returns>
+        Task<IReadOnlyList<string>> FindExistingHashesAsync(IEnumerable<string> hashes, CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Replaces every other photo with the same content hash by the given photo.
+        /// Album memberships, tags and album covers move to the replacement; the old records and their
+        /// local files are removed.
+        /// </summary>
+        /// <param name="replacement">The newly uploaded photo.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>The number of photos replaced.</returns>
+        Task<int> ReplaceDuplicatesAsync(Photo replacement, CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Hashes the next batch of photos, by ID, that are missing a content or perceptual hash.
+        /// Photos whose file cannot be read are skipped and stay unhashed.
+        /// </summary>
+        /// <param name="afterId">Only photos with a higher ID are hashed.</param>
+        /// <param name="batchSize">Maximum number of photos to hash.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>Progress of the scan, including the ID to continue from.</returns>
+        Task<DuplicateScanResult> IndexPhotosAsync(long afterId, int batchSize, CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Groups the photos that share a content hash or have nearly the same perceptual hash.
+        /// </summary>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>Groups of two or more photos.</returns>
+        Task<IReadOnlyList<DuplicateGroupDto>> GetDuplicateGroupsAsync(CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Keeps one photo and deletes the others. Album memberships, tags and album covers of the deleted
+        /// photos move to the kept photo.
+        /// </summary>
+        /// <param name="keepPhotoId">Photo to keep.</param>
+        /// <param name="deletePhotoIds">Photos to delete. IDs that don't exist are ignored.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>The result, or null when the photo to keep doesn't exist.</returns>
+        /// <exception cref="InvalidOperationException">Thrown when a photo to delete is neither an exact nor a near-duplicate of the kept photo.</exception>
+        Task<ResolveDuplicatesResult?> ResolveDuplicatesAsync(
+            long keepPhotoId,
+            IReadOnlyCollection<long> deletePhotoIds,
+            CancellationToken cancellationToken = default);
+    }
+}
@@ -0,0 +1,53 @@
+using LibraFoto.Modules.Storage.Models;
+
+namespace LibraFoto.Modules.Storage.Interfaces
+{
+    /// <summary>
+    /// Service for chunked, resumable uploads. Chunks are appended to a temporary file
+    /// until the whole file has been received and can be imported like a regular upload.
+    /// </summary>
+    public interface IUploadSessionService
+    {
+        /// <summary>
+        /// Starts a new upload session.
+        /// </summary>
+        /// <param name="request">File details for the session.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>The created session.</returns>
+        Task<UploadSessionDto> CreateSessionAsync(CreateUploadSessionRequest request, CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Gets an upload session, including how many bytes have been received.
+        /// </summary>
+        /// <param name="sessionId">The session identifier.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>The session, or null if it does not exist.</returns>
+        Task<UploadSessionDto?> GetSessionAsync(string sessionId, CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Appends a chunk to an upload session.
+        /// </summary>
+        /// <param name="sessionId">The session identifier.</param>
+        /// <param name="offset">Byte offset of the chunk; must equal the bytes received so far.</param>
+        /// <param name="data">Chunk content.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>The updated session, or null if it does not exist.</returns>
+        /// <exception cref="InvalidOperationException">Thrown when the offset does not match or the chunk exceeds the file size.</exception>
+        Task<UploadSessionDto?> AppendChunkAsync(string sessionId, long offset, Stream data, CancellationToken cancellationToken = default);
+
+        /// <summary>
+        /// Opens the received content of a session for reading.
+        /// </summary>
+        /// <param name="sessionId">The session identifier.</param>
+        /// <returns>A read stream over the received bytes.</returns>
+        Stream OpenContent(string sessionId);
+
+        /// <summary>
+        /// Deletes an upload session and its received content.
+        /// </summary>
+        /// <param name="sessionId">The session identifier.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>True if the session existed.</returns>
+        Task<bool> DeleteSessionAsync(string sessionId, CancellationToken cancellationToken = default);
+    }
+}
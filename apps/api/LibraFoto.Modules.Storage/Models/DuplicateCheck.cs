@@ -0,0 +1,24 @@
+namespace LibraFoto.Modules.Storage.Models
+{
+    /// <summary>
+    /// Request to check which file content hashes already exist in the library.
+    /// </summary>
+    public record DuplicateCheckRequest
+    {
+        /// <summary>
+        /// SHA-256 hashes (hex) of the files about to be uploaded.
+        /// </summary>
+        public required IReadOnlyList<string> Hashes { get; init; }
+    }
+
+    /// <summary>
+    /// Result of a duplicate check.
+    /// </summary>
+    public record DuplicateCheckResult
+    {
+        /// <summary>
+        /// The requested hashes (lowercase hex) that match a photo already in the library.
+        /// </summary>
+        public IReadOnlyList<string> ExistingHashes { get; init; } = [];
+    }
+}
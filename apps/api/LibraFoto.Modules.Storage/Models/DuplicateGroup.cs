@@ -0,0 +1,145 @@
+using LibraFoto.Data.Enums;
+
+namespace LibraFoto.Modules.Storage.Models
+{
+    /// <summary>
+    /// Photos in the library that are copies of each other.
+    /// </summary>
+    public record DuplicateGroupDto
+    {
+        /// <summary>
+        /// True when every photo in the group has identical content; false when some are only visually similar.
+        /// </summary>
+        public bool IsExactMatch { get; init; }
+
+        /// <summary>
+        /// Photos in the group, highest resolution and largest file first.
+        /// </summary>
+        public IReadOnlyList<DuplicatePhotoDto> Photos { get; init; } = [];
+    }
+
+    /// <summary>
+    /// A photo in a duplicate group, with the details needed to pick which copy to keep.
+    /// </summary>
+    public record DuplicatePhotoDto
+    {
+        /// <summary>
+        /// Photo ID.
+        /// </summary>
+        public long Id { get; init; }
+
+        /// <summary>
+        /// Current filename.
+        /// </summary>
+        public required string Filename { get; init; }
+
+        /// <summary>
+        /// Width in pixels.
+        /// </summary>
+        public int Width { get; init; }
+
+        /// <summary>
+        /// Height in pixels.
+        /// </summary>
+        public int Height { get; init; }
+
+        /// <summary>
+        /// File size in bytes.
+        /// </summary>
+        public long FileSize { get; init; }
+
+        /// <summary>
+        /// Type of media (Photo or Video).
+        /// </summary>
+        public MediaType MediaType { get; init; }
+
+        /// <summary>
+        /// Date the photo was taken, if known.
+        /// </summary>
+        public DateTime? DateTaken { get; init; }
+
+        /// <summary>
+        /// Date the photo was added to LibraFoto.
+        /// </summary>
+        public DateTime DateAdded { get; init; }
+
+        /// <summary>
+        /// Name of the storage provider the photo came from. Null for direct uploads.
+        /// </summary>
+        public string? ProviderName { get; init; }
+
+        /// <summary>
+        /// Albums the photo belongs to.
+        /// </summary>
+        public IReadOnlyList<DuplicateAlbumDto> Albums { get; init; } = [];
+    }
+
+    /// <summary>
+    /// Album membership of a photo in a duplicate group.
+    /// </summary>
+    public record DuplicateAlbumDto
+    {
+        /// <summary>
+        /// Album ID.
+        /// </summary>
+        public long Id { get; init; }
+
+        /// <summary>
+        /// Album name.
+        /// </summary>
+        public required string Name { get; init; }
+    }
+
+    /// <summary>
+    /// Progress of indexing the library for duplicate detection.
+    /// </summary>
+    public record DuplicateScanResult
+    {
+        /// <summary>
+        /// Number of photos hashed in this batch.
+        /// </summary>
+        public int Processed { get; init; }
+
+        /// <summary>
+        /// Number of photos after <see cref="LastPhotoId"/> still waiting to be hashed.
+        /// </summary>
+        public int Remaining { get; init; }
+
+        /// <summary>
+        /// ID of the last photo looked at. Pass it as <c>afterId</c> to continue the scan.
+        /// </summary>
+        public long LastPhotoId { get; init; }
+    }
+
+    /// <summary>
+    /// Request to resolve a duplicate group by keeping one photo and deleting the others.
+    /// </summary>
+    public record ResolveDuplicatesRequest
+    {
+        /// <summary>
+        /// Photo to keep. It receives the album and tag memberships of the deleted photos.
+        /// </summary>
+        public long KeepPhotoId { get; init; }
+
+        /// <summary>
+        /// Photos to delete.
+        /// </summary>
+        public required IReadOnlyList<long> DeletePhotoIds { get; init; }
+    }
+
+    /// <summary>
+    /// Result of resolving a duplicate group.
+    /// </summary>
+    public record ResolveDuplicatesResult
+    {
+        /// <summary>
+        /// ID of the photo that was kept.
+        /// </summary>
+        public long KeptPhotoId { get; init; }
+
+        /// <summary>
+        /// Number of photos deleted.
+        /// </summary>
+        public int DeletedCount { get; init; }
+    }
+}
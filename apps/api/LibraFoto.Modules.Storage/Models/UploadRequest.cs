@@ -22,7 +22,8 @@ namespace LibraFoto.Modules.Storage.Models
         public string? CustomFilename { get; init; }
 
         /// <summary>
-        /// Whether to overwrite if a file with the same name exists.
+        /// Whether to replace photos with identical content (same content hash) already in the library.
+        /// The new photo takes over their album and tag memberships.
         /// </summary>
         public bool Overwrite { get; init; } = false;
     }
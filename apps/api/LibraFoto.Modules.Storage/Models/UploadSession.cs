@@ -0,0 +1,89 @@
+namespace LibraFoto.Modules.Storage.Models
+{
+    /// <summary>
+    /// Request to start a chunked, resumable upload.
+    /// </summary>
+    public record CreateUploadSessionRequest
+    {
+        /// <summary>
+        /// Original filename of the file being uploaded.
+        /// </summary>
+        public required string FileName { get; init; }
+
+        /// <summary>
+        /// Total size of the file in bytes.
+        /// </summary>
+        public long FileSize { get; init; }
+
+        /// <summary>
+        /// MIME content type of the file.
+        /// </summary>
+        public string? ContentType { get; init; }
+
+        /// <summary>
+        /// Target album ID to add the uploaded file to (optional).
+        /// </summary>
+        public long? AlbumId { get; init; }
+
+        /// <summary>
+        /// Whether to replace photos with identical content already in the library.
+        /// </summary>
+        public bool Overwrite { get; init; }
+    }
+
+    /// <summary>
+    /// State of a chunked upload session.
+    /// </summary>
+    public record UploadSessionDto
+    {
+        /// <summary>
+        /// Session identifier used in chunk and completion requests.
+        /// </summary>
+        public required string Id { get; init; }
+
+        /// <summary>
+        /// Original filename of the file being uploaded.
+        /// </summary>
+        public required string FileName { get; init; }
+
+        /// <summary>
+        /// Total size of the file in bytes.
+        /// </summary>
+        public long FileSize { get; init; }
+
+        /// <summary>
+        /// MIME content type of the file.
+        /// </summary>
+        public string? ContentType { get; init; }
+
+        /// <summary>
+        /// Target album ID to add the uploaded file to (optional).
+        /// </summary>
+        public long? AlbumId { get; init; }
+
+        /// <summary>
+        /// Whether to replace photos with identical content already in the library.
+        /// </summary>
+        public bool Overwrite { get; init; }
+
+        /// <summary>
+        /// Number of bytes received so far. The next chunk must start at this offset.
+        /// </summary>
+        public long ReceivedBytes { get; init; }
+
+        /// <summary>
+        /// Recommended chunk size in bytes.
+        /// </summary>
+        public int ChunkSize { get; init; }
+
+        /// <summary>
+        /// When the session was started.
+        /// </summary>
+        public DateTime CreatedAt { get; init; }
+
+        /// <summary>
+        /// Whether all bytes of the file have been received.
+        /// </summary>
+        public bool IsComplete => ReceivedBytes >= FileSize;
+    }
+}
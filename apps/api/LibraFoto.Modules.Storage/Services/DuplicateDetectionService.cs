@@ -0,0 +1,433 @@
+using System.Security.Cryptography;
+using LibraFoto.Data;
+using LibraFoto.Data.Entities;
+using LibraFoto.Data.Enums;
+using LibraFoto.Modules.Storage.Interfaces;
+using LibraFoto.Modules.Storage.Models;
+using LibraFoto.Shared.Configuration;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+
+namespace LibraFoto.Modules.Storage.Services
+{
+    /// <summary>
+    /// Detects duplicate uploads by the SHA-256 hash of the uploaded file, and finds copies already in the
+    /// library by content hash and perceptual hash.
+    /// Upload hashes are taken before images are resized, so they match the hash clients compute locally.
+    /// </summary>
+    public class DuplicateDetectionService : IDuplicateDetectionService
+    {
+        /// <summary>
+        /// Maximum number of hashes accepted in a single lookup.
+        /// </summary>
+        public const int MaxHashesPerCheck = 1000;
+
+        /// <summary>
+        /// Number of photos hashed per scan request. Decoding images is slow on small devices.
+        /// </summary>
+        public const int ScanBatchSize = 25;
+
+        /// <summary>
+        /// Maximum number of differing perceptual hash bits for two photos to count as near-duplicates.
+        /// </summary>
+        public const int NearDuplicateMaxDistance = 5;
+
+        private readonly LibraFotoDbContext _dbContext;
+        private readonly string _storagePath;
+        private readonly ILogger<DuplicateDetectionService> _logger;
+
+        public DuplicateDetectionService(
+            LibraFotoDbContext dbContext,
+            IConfiguration configuration,
+            ILogger<DuplicateDetectionService> logger)
+        {
+            _dbContext = dbContext;
+            _storagePath = configuration["Storage:LocalPath"] ?? LibraFotoDefaults.GetDefaultPhotosPath();
+            _logger = logger;
+        }
+
+        public async Task<string> ComputeContentHashAsync(Stream content, CancellationToken cancellationToken = default)
+        {
+            var hash = await SHA256.HashDataAsync(content, cancellationToken);
+            return Convert.ToHexStringLower(hash);
+        }
+
+        public async Task<IReadOnlyList<string>> FindExistingHashesAsync(IEnumerable<string> hashes, CancellationToken cancellationToken = default)
+        {
+            var normalized = hashes
+                .Select(h => h.Trim().ToLowerInvariant())
+                .Where(IsValidHash)
+                .Distinct()
+                .Take(MaxHashesPerCheck)
+                .ToList();
+
+            if (normalized.Count == 0)
+            {
+                return [];
+            }
+
+            return await _dbContext.Photos
+                .AsNoTracking()
+                .Where(p => p.ContentHash != null && normalized.Contains(p.ContentHash))
+                .Select(p => p.ContentHash!)
+                .Distinct()
+                .ToListAsync(cancellationToken);
+        }
+
+        public async Task<int> ReplaceDuplicatesAsync(Photo replacement, CancellationToken cancellationToken = default)
+        {
+            if (string.IsNullOrEmpty(replacement.ContentHash))
+            {
+                return 0;
+            }
+
+            var duplicates = await _dbContext.Photos
+                .Include(p => p.PhotoAlbums)
+                .Include(p => p.PhotoTags)
+                .Where(p => p.ContentHash == replacement.ContentHash && p.Id != replacement.Id)
+                .ToListAsync(cancellationToken);
+
+            if (duplicates.Count == 0)
+            {
+                return 0;
+            }
+
+            await MergeIntoAsync(replacement, duplicates, cancellationToken);
+
+            _logger.LogInformation("Replaced {Count} duplicate(s) of photo {PhotoId}", duplicates.Count, replacement.Id);
+
+            return duplicates.Count;
+        }
+
+        public async Task<DuplicateScanResult> IndexPhotosAsync(long afterId, int batchSize, CancellationToken cancellationToken = default)
+        {
+            var photos = await UnhashedPhotos(afterId)
+                .OrderBy(p => p.Id)
+                .Take(batchSize)
+                .ToListAsync(cancellationToken);
+
+            var processed = 0;
+            foreach (var photo in photos)
+            {
+                if (await TryIndexPhotoAsync(photo, cancellationToken))
+                {
+                    processed++;
+                }
+            }
+
+            await _dbContext.SaveChangesAsync(cancellationToken);
+
+            var lastPhotoId = photos.Count > 0 ? photos[^1].Id : afterId;
+            return new DuplicateScanResult
+            {
+                Processed = processed,
+                Remaining = await UnhashedPhotos(lastPhotoId).CountAsync(cancellationToken),
+                LastPhotoId = lastPhotoId
+            };
+        }
+
+        public async Task<IReadOnlyList<DuplicateGroupDto>> GetDuplicateGroupsAsync(CancellationToken cancellationToken = default)
+        {
+            var hashes = await _dbContext.Photos
+                .AsNoTracking()
+                .Where(p => p.ContentHash != null || p.PerceptualHash != null)
+                .Select(p => new { p.Id, p.ContentHash, p.PerceptualHash })
+                .ToListAsync(cancellationToken);
+
+            var parents = new Dictionary<long, long>();
+
+            foreach (var sameContent in hashes.Where(h => h.ContentHash != null).GroupBy(h => h.ContentHash))
+            {
+                var first = sameContent.First().Id;
+                foreach (var photo in sameContent.Skip(1))
+                {
+                    Union(parents, first, photo.Id);
+                }
+            }
+
+            // Two hashes within the maximum distance are identical in at least one of
+            // (distance + 1) bit segments, so only photos sharing a segment are compared.
+            var perceptual = hashes.Where(h => h.PerceptualHash.HasValue).ToList();
+            const int segments = NearDuplicateMaxDistance + 1;
+            for (var segment = 0; segment < segments; segment++)
+            {
+                var offset = segment * 64 / segments;
+                var mask = (1UL << ((segment + 1) * 64 / segments - offset)) - 1;
+                var buckets = perceptual.GroupBy(h => (unchecked((ulong)h.PerceptualHash!.Value) >> offset) & mask);
+
+                foreach (var bucket in buckets)
+                {
+                    var members = bucket.ToList();
+                    for (var i = 0; i < members.Count; i++)
+                    {
+                        for (var j = i + 1; j < members.Count; j++)
+                        {
+                            if (PerceptualHash.Distance(members[i].PerceptualHash!.Value, members[j].PerceptualHash!.Value) <= NearDuplicateMaxDistance)
+                            {
+                                Union(parents, members[i].Id, members[j].Id);
+                            }
+                        }
+                    }
+                }
+            }
+
+            var components = parents.Keys
+                .GroupBy(id => Find(parents, id))
+                .Select(g => g.ToList())
+                .Where(ids => ids.Count > 1)
+                .ToList();
+
+            if (components.Count == 0)
+            {
+                return [];
+            }
+
+            var memberIds = components.SelectMany(ids => ids).ToList();
+            var contentHashes = hashes.ToDictionary(h => h.Id, h => h.ContentHash);
+            var photos = await _dbContext.Photos
+                .AsNoTracking()
+                .Where(p => memberIds.Contains(p.Id))
+                .Select(p => new DuplicatePhotoDto
+                {
+                    Id = p.Id,
+                    Filename = p.Filename,
+                    Width = p.Width,
+                    Height = p.Height,
+                    FileSize = p.FileSize,
+                    MediaType = p.MediaType,
+                    DateTaken = p.DateTaken,
+                    DateAdded = p.DateAdded,
+                    ProviderName = p.Provider != null ? p.Provider.Name : null,
+                    Albums = p.PhotoAlbums
+                        .Select(pa => new DuplicateAlbumDto { Id = pa.Album.Id, Name = pa.Album.Name })
+                        .ToList()
+                })
+                .ToDictionaryAsync(p => p.Id, cancellationToken);
+
+            return components
+                .Select(ids => new DuplicateGroupDto
+                {
+                    IsExactMatch = ids.Select(id => contentHashes[id]).Distinct().Count() == 1
+                        && contentHashes[ids[0]] != null,
+                    Photos = ids
+                        .Select(id => photos[id])
+                        .OrderByDescending(p => (long)p.Width * p.Height)
+                        .ThenByDescending(p => p.FileSize)
+                        .ThenBy(p => p.Id)
+                        .ToList()
+                })
+                .OrderByDescending(g => g.IsExactMatch)
+                .ThenBy(g => g.Photos.Min(p => p.Id))
+                .ToList();
+        }
+
+        public async Task<ResolveDuplicatesResult?> ResolveDuplicatesAsync(
+            long keepPhotoId,
+            IReadOnlyCollection<long> deletePhotoIds,
+            CancellationToken cancellationToken = default)
+        {
+            var kept = await _dbContext.Photos.FirstOrDefaultAsync(p => p.Id == keepPhotoId, cancellationToken);
+            if (kept is null)
+            {
+                return null;
+            }
+
+            var ids = deletePhotoIds.Where(id => id != keepPhotoId).Distinct().ToList();
+            var duplicates = await _dbContext.Photos
+                .Include(p => p.PhotoAlbums)
+                .Include(p => p.PhotoTags)
+                .Where(p => ids.Contains(p.Id))
+                .ToListAsync(cancellationToken);
+
+            var rejected = duplicates.Where(p => !IsDuplicateOf(kept, p)).Select(p => p.Id).ToList();
+            if (rejected.Count > 0)
+            {
+                throw new InvalidOperationException(
+                    $"Photos {string.Join(", ", rejected)} are not duplicates of photo {kept.Id}");
+            }
+
+            if (duplicates.Count > 0)
+            {
+                await MergeIntoAsync(kept, duplicates, cancellationToken);
+                _logger.LogInformation("Kept photo {PhotoId} and deleted {Count} duplicate(s)", kept.Id, duplicates.Count);
+            }
+
+            return new ResolveDuplicatesResult { KeptPhotoId = kept.Id, DeletedCount = duplicates.Count };
+        }
+
+        /// <summary>
+        /// Whether a photo has the same content as the kept photo, or a perceptual hash close enough to
+        /// count as a near-duplicate.
+        /// </summary>
+        private static bool IsDuplicateOf(Photo kept, Photo photo)
+        {
+            if (kept.ContentHash is not null && photo.ContentHash == kept.ContentHash)
+            {
+                return true;
+            }
+
+            return kept.PerceptualHash is long keptHash
+                && photo.PerceptualHash is long hash
+                && PerceptualHash.Distance(keptHash, hash) <= NearDuplicateMaxDistance;
+        }
+
+        /// <summary>
+        /// Moves album memberships, tags and album covers from the duplicates to the kept photo, then removes
+        /// the duplicates and their local files.
+        /// </summary>
+        private async Task MergeIntoAsync(Photo kept, List<Photo> duplicates, CancellationToken cancellationToken)
+        {
+            var albumIds = await _dbContext.PhotoAlbums
+                .Where(pa => pa.PhotoId == kept.Id)
+                .Select(pa => pa.AlbumId)
+                .ToListAsync(cancellationToken);
+            var tagIds = await _dbContext.PhotoTags
+                .Where(pt => pt.PhotoId == kept.Id)
+                .Select(pt => pt.TagId)
+                .ToListAsync(cancellationToken);
+
+            var duplicateIds = duplicates.Select(p => p.Id).ToList();
+            var coveredAlbums = await _dbContext.Albums
+                .Where(a => a.CoverPhotoId.HasValue && duplicateIds.Contains(a.CoverPhotoId.Value))
+                .ToListAsync(cancellationToken);
+
+            foreach (var album in coveredAlbums)
+            {
+                album.CoverPhoto = kept;
+            }
+
+            var albumIdSet = albumIds.ToHashSet();
+            var tagIdSet = tagIds.ToHashSet();
+
+            foreach (var duplicate in duplicates)
+            {
+                foreach (var photoAlbum in duplicate.PhotoAlbums)
+                {
+                    if (albumIdSet.Add(photoAlbum.AlbumId))
+                    {
+                        _dbContext.PhotoAlbums.Add(new PhotoAlbum
+                        {
+                            PhotoId = kept.Id,
+                            AlbumId = photoAlbum.AlbumId,
+                            SortOrder = photoAlbum.SortOrder,
+                            DateAdded = photoAlbum.DateAdded
+                        });
+                    }
+                }
+
+                foreach (var photoTag in duplicate.PhotoTags)
+                {
+                    if (tagIdSet.Add(photoTag.TagId))
+                    {
+                        _dbContext.PhotoTags.Add(new PhotoTag
+                        {
+                            PhotoId = kept.Id,
+                            TagId = photoTag.TagId,
+                            DateAdded = photoTag.DateAdded
+                        });
+                    }
+                }
+
+                _dbContext.Photos.Remove(duplicate);
+            }
+
+            await _dbContext.SaveChangesAsync(cancellationToken);
+
+            // Files are removed after the records so a failed save never leaves photos without files
+            foreach (var duplicate in duplicates)
+            {
+                DeleteLocalFile(duplicate.FilePath);
+                DeleteLocalFile(duplicate.ThumbnailPath);
+            }
+        }
+
+        private IQueryable<Photo> UnhashedPhotos(long afterId) =>
+            _dbContext.Photos.Where(p => p.Id > afterId
+                && (p.ContentHash == null || (p.PerceptualHash == null && p.MediaType == MediaType.Photo)));
+
+        private async Task<bool> TryIndexPhotoAsync(Photo photo, CancellationToken cancellationToken)
+        {
+            var absolutePath = Path.Combine(_storagePath, photo.FilePath);
+            if (string.IsNullOrEmpty(photo.FilePath) || !File.Exists(absolutePath))
+            {
+                _logger.LogDebug("Skipping photo {PhotoId} in duplicate scan: file not found", photo.Id);
+                return false;
+            }
+
+            try
+            {
+                if (photo.ContentHash is null)
+                {
+                    await using var content = File.OpenRead(absolutePath);
+                    photo.ContentHash = await ComputeContentHashAsync(content, cancellationToken);
+                }
+
+                if (photo.PerceptualHash is null && photo.MediaType == MediaType.Photo)
+                {
+                    await using var content = File.OpenRead(absolutePath);
+                    photo.PerceptualHash = await PerceptualHash.ComputeAsync(content, cancellationToken);
+                }
+
+                return true;
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                _logger.LogWarning(ex, "Failed to hash photo {PhotoId} for duplicate detection", photo.Id);
+                return false;
+            }
+        }
+
+        private void DeleteLocalFile(string? relativePath)
+        {
+            if (string.IsNullOrEmpty(relativePath))
+            {
+                return;
+            }
+
+            try
+            {
+                var absolutePath = Path.Combine(_storagePath, relativePath);
+                if (File.Exists(absolutePath))
+                {
+                    File.Delete(absolutePath);
+                }
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Failed to delete replaced file {Path}", relativePath);
+            }
+        }
+
+        private static bool IsValidHash(string hash) =>
+            hash.Length == 64 && hash.All(char.IsAsciiHexDigitLower);
+
+        private static long Find(Dictionary<long, long> parents, long id)
+        {
+            if (!parents.TryGetValue(id, out var parent))
+            {
+                parents[id] = id;
+                return id;
+            }
+
+            if (parent == id)
+            {
+                return id;
+            }
+
+            var root = Find(parents, parent);
+            parents[id] = root;
+            return root;
+        }
+
+        private static void Union(Dictionary<long, long> parents, long a, long b)
+        {
+            var rootA = Find(parents, a);
+            var rootB = Find(parents, b);
+            if (rootA != rootB)
+            {
+                parents[rootB] = rootA;
+            }
+        }
+    }
+}
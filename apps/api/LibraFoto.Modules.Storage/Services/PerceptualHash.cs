@@ -0,0 +1,65 @@
+using System.Numerics;
+using SixLabors.ImageSharp;
+using SixLabors.ImageSharp.PixelFormats;
+using SixLabors.ImageSharp.Processing;
+
+namespace LibraFoto.Modules.Storage.Services
+{
+    /// <summary>
+    /// Difference hash (dHash) of an image: a 64-bit fingerprint that stays nearly the same when an image
+    /// is resized, re-encoded or slightly recolored, so copies can be found by comparing bits.
+    /// </summary>
+    public static class PerceptualHash
+    {
+        private const int HashWidth = 8;
+        private const int HashHeight = 8;
+
+        /// <summary>
+        /// Computes the perceptual hash of an encoded image.
+        /// </summary>
+        /// <param name="content">The image file content.</param>
+        /// <param name="cancellationToken">Cancellation token.</param>
+        /// <returns>The 64-bit hash.</returns>
+        public static async Task<long> ComputeAsync(Stream content, CancellationToken cancellationToken = default)
+        {
+            using var image = await Image.LoadAsync<L8>(content, cancellationToken);
+            return Compute(image);
+        }
+
+        /// <summary>
+        /// Computes the perceptual hash of a decoded grayscale image.
+        /// Each bit records whether a pixel of the image shrunk to 9x8 is darker than its right neighbour.
+        /// </summary>
+        public static long Compute(Image<L8> image)
+        {
+            using var small = image.Clone(ctx => ctx
+                .AutoOrient()
+                .Resize(new ResizeOptions
+                {
+                    Size = new Size(HashWidth + 1, HashHeight),
+                    Mode = ResizeMode.Stretch,
+                    Sampler = KnownResamplers.Box
+                }));
+
+            ulong hash = 0;
+            for (var y = 0; y < HashHeight; y++)
+            {
+                for (var x = 0; x < HashWidth; x++)
+                {
+                    if (small[x, y].PackedValue < small[x + 1, y].PackedValue)
+                    {
+                        hash |= 1UL << (y * HashWidth + x);
+                    }
+                }
+            }
+
+            return unchecked((long)hash);
+        }
+
+        /// <summary>
+        /// Number of differing bits between two hashes. 0 means visually identical.
+        /// </summary>
+        public static int Distance(long a, long b) =>
+            BitOperations.PopCount(unchecked((ulong)(a ^ b)));
+    }
+}
@@ -0,0 +1,201 @@
+using System.Text.Json;
+using LibraFoto.Modules.Storage.Interfaces;
+using LibraFoto.Modules.Storage.Models;
+using LibraFoto.Shared.Configuration;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging;
+
+namespace LibraFoto.Modules.Storage.Services
+{
+    /// <summary>
+    /// File-backed upload sessions stored under <c>{Storage:LocalPath}/.uploads</c>.
+    /// Each session has a JSON metadata file and a part file holding the bytes received so far,
+    /// so an interrupted upload can resume from the part file's length.
+    /// </summary>
+    public class UploadSessionService : IUploadSessionService
+    {
+        /// <summary>
+        /// Recommended chunk size (8 MB), well below the proxy's request body limit.
+        /// </summary>
+        public const int DefaultChunkSize = 8 * 1024 * 1024;
+
+        /// <summary>
+        /// Maximum size of a file uploaded in chunks (4 GB).
+        /// </summary>
+        public const long MaxSessionFileSize = 4L * 1024 * 1024 * 1024;
+
+        /// <summary>
+        /// Sessions not completed within this period are removed.
+        /// </summary>
+        private static readonly TimeSpan SessionLifetime = TimeSpan.FromHours(24);
+
+        private readonly string _sessionsPath;
+        private readonly ILogger<UploadSessionService> _logger;
+
+        public UploadSessionService(IConfiguration configuration, ILogger<UploadSessionService> logger)
+        {
+            var storagePath = configuration["Storage:LocalPath"] ?? LibraFotoDefaults.GetDefaultPhotosPath();
+            _sessionsPath = Path.Combine(storagePath, ".uploads");
+            _logger = logger;
+        }
+
+        public async Task<UploadSessionDto> CreateSessionAsync(CreateUploadSessionRequest request, CancellationToken cancellationToken = default)
+        {
+            Directory.CreateDirectory(_sessionsPath);
+            RemoveExpiredSessions();
+
+            var session = new UploadSessionDto
+            {
+                Id = Guid.NewGuid().ToString("N"),
+                FileName = Path.GetFileName(request.FileName),
+                FileSize = request.FileSize,
+                ContentType = request.ContentType,
+                AlbumId = request.AlbumId,
+                Overwrite = request.Overwrite,
+                ReceivedBytes = 0,
+                ChunkSize = DefaultChunkSize,
+                CreatedAt = DateTime.UtcNow
+            };
+
+            await File.WriteAllTextAsync(GetMetadataPath(session.Id), JsonSerializer.Serialize(session), cancellationToken);
+            await File.Create(GetContentPath(session.Id)).DisposeAsync();
+
+            _logger.LogInformation("Started upload session {SessionId} for {FileName} ({FileSize} bytes)",
+                session.Id, session.FileName, session.FileSize);
+
+            return session;
+        }
+
+        public async Task<UploadSessionDto?> GetSessionAsync(string sessionId, CancellationToken cancellationToken = default)
+        {
+            if (!IsValidSessionId(sessionId))
+            {
+                return null;
+            }
+
+            var metadataPath = GetMetadataPath(sessionId);
+            var contentPath = GetContentPath(sessionId);
+            if (!File.Exists(metadataPath) || !File.Exists(contentPath))
+            {
+                return null;
+            }
+
+            var json = await File.ReadAllTextAsync(metadataPath, cancellationToken);
+            var session = JsonSerializer.Deserialize<UploadSessionDto>(json);
+            if (session == null)
+            {
+                return null;
+            }
+
+            return session with { ReceivedBytes = new FileInfo(contentPath).Length };
+        }
+
+        public async Task<UploadSessionDto?> AppendChunkAsync(string sessionId, long offset, Stream data, CancellationToken cancellationToken = default)
+        {
+            var session = await GetSessionAsync(sessionId, cancellationToken);
+            if (session == null)
+            {
+                return null;
+            }
+
+            if (offset != session.ReceivedBytes)
+            {
+                throw new InvalidOperationException(
+                    $"Chunk offset {offset} does not match the {session.ReceivedBytes} bytes received so far");
+            }
+
+            await using (var target = new FileStream(GetContentPath(sessionId), FileMode.Append, FileAccess.Write, FileShare.None))
+            {
+                var buffer = new byte[81920];
+                int read;
+                while ((read = await data.ReadAsync(buffer, cancellationToken)) > 0)
+                {
+                    if (target.Length + read > session.FileSize)
+                    {
+                        // Drop the partial chunk so the client can resend from the same offset
+                        target.SetLength(offset);
+                        throw new InvalidOperationException("Chunk exceeds the declared file size");
+                    }
+
+                    await target.WriteAsync(buffer.AsMemory(0, read), cancellationToken);
+                }
+            }
+
+            return await GetSessionAsync(sessionId, cancellationToken);
+        }
+
+        public Stream OpenContent(string sessionId)
+        {
+            if (!IsValidSessionId(sessionId))
+            {
+                throw new FileNotFoundException("Upload session not found", sessionId);
+            }
+
+            return new FileStream(GetContentPath(sessionId), FileMode.Open, FileAccess.Read, FileShare.Read);
+        }
+
+        public Task<bool> DeleteSessionAsync(string sessionId, CancellationToken cancellationToken = default)
+        {
+            if (!IsValidSessionId(sessionId))
+            {
+                return Task.FromResult(false);
+            }
+
+            var metadataPath = GetMetadataPath(sessionId);
+            var existed = File.Exists(metadataPath);
+
+            TryDelete(metadataPath);
+            TryDelete(GetContentPath(sessionId));
+
+            return Task.FromResult(existed);
+        }
+
+        private void RemoveExpiredSessions()
+        {
+            var cutoff = DateTime.UtcNow - SessionLifetime;
+
+            foreach (var metadataPath in Directory.EnumerateFiles(_sessionsPath, "*.json"))
+            {
+                if (File.GetLastWriteTimeUtc(metadataPath) >= cutoff)
+                {
+                    continue;
+                }
+
+                var sessionId = Path.GetFileNameWithoutExtension(metadataPath);
+                var contentPath = GetContentPath(sessionId);
+
+                // A part file written recently belongs to an upload that is still in progress
+                if (File.Exists(contentPath) && File.GetLastWriteTimeUtc(contentPath) >= cutoff)
+                {
+                    continue;
+                }
+
+                _logger.LogInformation("Removing expired upload session {SessionId}", sessionId);
+                TryDelete(metadataPath);
+                TryDelete(contentPath);
+            }
+        }
+
+        private void TryDelete(string path)
+        {
+            try
+            {
+                if (File.Exists(path))
+                {
+                    File.Delete(path);
+                }
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Failed to delete upload session file {Path}", path);
+            }
+        }
+
+        private static bool IsValidSessionId(string sessionId) =>
+            Guid.TryParseExact(sessionId, "N", out _);
+
+        private string GetMetadataPath(string sessionId) => Path.Combine(_sessionsPath, $"{sessionId}.json");
+
+        private string GetContentPath(string sessionId) => Path.Combine(_sessionsPath, $"{sessionId}.part");
+    }
+}
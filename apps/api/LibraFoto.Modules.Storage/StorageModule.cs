@@ -29,6 +29,12 @@ namespace LibraFoto.Modules.Storage
             // Register image import service for upload processing
             services.AddScoped<IImageImportService, ImageImportService>();
 
+            // Register upload session service for chunked, resumable uploads
+            services.AddScoped<IUploadSessionService, UploadSessionService>();
+
+            // Register duplicate detection for upload checks and the duplicate review page
+            services.AddScoped<IDuplicateDetectionService, DuplicateDetectionService>();
+
             // Register Google Photos Picker service
             services.AddScoped<GooglePhotosPickerService>();
 
@@ -46,6 +52,9 @@ namespace LibraFoto.Modules.Storage
             // Map file upload endpoints
             app.MapUploadEndpoints();
 
+            // Map duplicate review endpoints
+            app.MapDuplicateEndpoints();
+
             // Map Google Photos OAuth endpoints
             app.MapGooglePhotosOAuthEndpoints();
 
@@ -4,10 +4,21 @@
  * HTML, JS, and CSS are always fetched from network
  */
 
-const MEDIA_CACHE = "librafoto-media-v3";
+const MEDIA_CACHE = "librafoto-media-v4";
 
-// Maximum cached media items
-const MAX_MEDIA_CACHE_ITEMS = 100;
+// Storage budget for cached media, passed as ?cacheMb= on the script URL
+const DEFAULT_MEDIA_CACHE_MB = 500;
+const MEDIA_CACHE_BUDGET_BYTES =
+  (parseInt(new URL(self.location.href).searchParams.get("cacheMb"), 10) ||
+    DEFAULT_MEDIA_CACHE_MB) *
+  1024 *
+  1024;
+
+// Header recording the body size of each cached response
+const SIZE_HEADER = "X-LibraFoto-Size";
+
+// Sizes of cached entries by URL, rebuilt from the cache on first use
+let mediaSizes = null;
 
 /**
  * Install event - skip waiting immediately
@@ -58,7 +69,7 @@ self.addEventListener("fetch", (event) => {
     url.pathname.includes("/media/photos/") ||
     url.pathname.includes("/media/thumbnails/")
   ) {
-    event.respondWith(cacheFirstMedia(event.request));
+    event.respondWith(cacheFirstMedia(event));
     return;
   }
 
@@ -67,30 +78,36 @@ self.addEventListener("fetch", (event) => {
 });
 
 /**
- * Cache-first strategy for media with LRU eviction
+ * Cache-first strategy for media with LRU eviction.
+ * Cache writes finish in the background so responses are never held up.
  */
-async function cacheFirstMedia(request) {
+async function cacheFirstMedia(event) {
+  const request = event.request;
   const cache = await caches.open(MEDIA_CACHE);
   const cached = await cache.match(request);
 
   if (cached) {
     console.log("[SW] Serving from cache:", request.url);
+    // Re-adding an entry moves it to the end of the cache's key order,
+    // which keeps the keys sorted from least to most recently used
+    event.waitUntil(
+      cache.put(request, cached.clone()).catch((error) => {
+        console.warn("[SW] Failed to update cache order:", request.url, error);
+      })
+    );
     return cached;
   }
 
   try {
     const response = await fetch(request);
 
-    // Cache successful media responses
-    if (response.ok) {
-      // Clone response before caching
-      const responseToCache = response.clone();
-
-      // Evict old entries if cache is full
-      await evictOldMediaIfNeeded(cache);
-
-      cache.put(request, responseToCache);
-      console.log("[SW] Cached media:", request.url);
+    // Cache complete media responses (not partial video ranges)
+    if (response.status === 200) {
+      event.waitUntil(
+        storeMedia(cache, request, response.clone()).catch((error) => {
+          console.warn("[SW] Failed to cache media:", request.url, error);
+        })
+      );
     }
 
     return response;
@@ -101,20 +118,72 @@ async function cacheFirstMedia(request) {
 }
 
 /**
- * Evict old media entries if cache exceeds limit
+ * Store a media response, evicting least recently used entries to stay
+ * within the storage budget
  */
-async function evictOldMediaIfNeeded(cache) {
+async function storeMedia(cache, request, response) {
+  const body = await response.blob();
+  if (body.size > MEDIA_CACHE_BUDGET_BYTES) {
+    console.warn("[SW] Media larger than cache budget:", request.url);
+    return;
+  }
+
+  await evictMediaToFit(cache, body.size);
+
+  const headers = new Headers(response.headers);
+  headers.set(SIZE_HEADER, String(body.size));
+  await cache.put(
+    request,
+    new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers
+    })
+  );
+  mediaSizes.set(request.url, body.size);
+  console.log("[SW] Cached media:", request.url);
+}
+
+/**
+ * Evict least recently used media until the new entry fits the budget
+ */
+async function evictMediaToFit(cache, incomingBytes) {
+  const sizes = await getMediaSizes(cache);
+  let total = incomingBytes;
+  for (const size of sizes.values()) {
+    total += size;
+  }
+  if (total <= MEDIA_CACHE_BUDGET_BYTES) return;
+
+  // Keys are ordered from least to most recently used
   const keys = await cache.keys();
+  for (const request of keys) {
+    if (total <= MEDIA_CACHE_BUDGET_BYTES) break;
 
-  if (keys.length >= MAX_MEDIA_CACHE_ITEMS) {
-    // Delete oldest entries (first in, first out)
-    const toDelete = keys.slice(0, keys.length - MAX_MEDIA_CACHE_ITEMS + 10);
+    total -= sizes.get(request.url) || 0;
+    sizes.delete(request.url);
+    await cache.delete(request);
+    console.log("[SW] Evicted from cache:", request.url);
+  }
+}
 
-    for (const request of toDelete) {
-      await cache.delete(request);
-      console.log("[SW] Evicted from cache:", request.url);
-    }
+/**
+ * Get the sizes of cached media, reading them from the cache once per
+ * worker start
+ */
+async function getMediaSizes(cache) {
+  if (mediaSizes) return mediaSizes;
+
+  const sizes = new Map();
+  for (const request of await cache.keys()) {
+    const response = await cache.match(request);
+    sizes.set(
+      request.url,
+      parseInt(response?.headers.get(SIZE_HEADER) || "0", 10)
+    );
   }
+  mediaSizes = sizes;
+  return mediaSizes;
 }
 
 /**
@@ -148,6 +217,8 @@ async function clearAllCaches() {
       .filter((name) => name.startsWith("librafoto-"))
       .map((name) => caches.delete(name))
   );
+  // Empty rather than null, so a store already in progress can still record its size
+  mediaSizes = new Map();
   console.log("[SW] All caches cleared");
 }
 
@@ -159,9 +230,12 @@ async function preloadPhotos(urls) {
 
   for (const url of urls) {
     try {
-      const response = await fetch(url);
-      if (response.ok) {
-        await cache.put(url, response);
+      const request = new Request(url);
+      if (await cache.match(request)) continue;
+
+      const response = await fetch(request);
+      if (response.status === 200) {
+        await storeMedia(cache, request, response);
         console.log("[SW] Preloaded:", url);
       }
     } catch (error) {
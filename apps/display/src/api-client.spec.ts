@@ -4,8 +4,9 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { ApiClient, TransitionType, SourceType } from "./api-client";
-import type { PhotoDto, DisplaySettingsDto } from "./types";
+import type { PhotoDto, DisplaySettingsDto, DisplayHeartbeat } from "./types";
 import { MediaType } from "./types";
+import { MemorySnapshotStore, OfflinePlaylist } from "./offline-playlist";
 
 // Mock config module
 vi.mock("./config", () => ({
@@ -17,7 +18,6 @@ vi.mock("./config", () => ({
     preloadThreshold: 3,
     retryDelay: 100, // Short delay for tests
     maxRetries: 3,
-    maxVideoDuration: 30,
   })),
   logger: {
     debug: vi.fn(),
@@ -27,6 +27,11 @@ vi.mock("./config", () => ({
   },
 }));
 
+vi.mock("./device", () => ({
+  getDeviceId: vi.fn(() => "frame-1"),
+  getDeviceName: vi.fn(() => "Kitchen"),
+}));
+
 describe("ApiClient", () => {
   let apiClient: ApiClient;
   let fetchSpy: ReturnType<typeof vi.spyOn>;
@@ -157,6 +162,308 @@ describe("ApiClient", () => {
     });
   });
 
+  describe("addToFavorites", () => {
+    it("should POST to the photo's favorite endpoint", async () => {
+      fetchSpy.mockResolvedValueOnce({ ok: true, status: 204 } as Response);
+
+      const result = await apiClient.addToFavorites(12);
+      expect(result.success).toBe(true);
+      expect(fetchSpy).toHaveBeenCalledWith(
+        expect.stringContaining("/display/photos/12/favorite"),
+        expect.objectContaining({ method: "POST" }),
+      );
+    });
+
+    it("should return the API error when the photo is missing", async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        json: () =>
+          Promise.resolve({ code: "PHOTO_NOT_FOUND", message: "Not found" }),
+      } as Response);
+
+      const result = await apiClient.addToFavorites(99);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("PHOTO_NOT_FOUND");
+      }
+    });
+  });
+
+  describe("reportStatus", () => {
+    it("should PUT the status with the current settings ID", async () => {
+      fetchSpy
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ id: 3, name: "Kitchen" }),
+        } as Response)
+        .mockResolvedValueOnce({ ok: true, status: 204 } as Response);
+      await apiClient.getSettings();
+
+      const result = await apiClient.reportStatus({
+        photoId: 9,
+        isPaused: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(fetchSpy).toHaveBeenLastCalledWith("/api/display/remote/status", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          photoId: 9,
+          isPaused: true,
+          settingsId: 3,
+          deviceId: null,
+        }),
+      });
+    });
+
+    it("should include the device ID once registered", async () => {
+      fetchSpy
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({ id: 1, deviceId: "frame-1", name: "Kitchen" }),
+        } as Response)
+        .mockResolvedValueOnce({ ok: true, status: 204 } as Response);
+      await apiClient.registerDevice();
+
+      await apiClient.reportStatus({ photoId: 9, isPaused: false });
+
+      const [, init] = fetchSpy.mock.calls[1];
+      expect(JSON.parse((init as RequestInit).body as string).deviceId).toBe(
+        "frame-1",
+      );
+    });
+
+    it("should handle network errors", async () => {
+      fetchSpy.mockRejectedValueOnce(new Error("offline"));
+
+      const result = await apiClient.reportStatus({
+        photoId: null,
+        isPaused: false,
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("NETWORK_ERROR");
+      }
+    });
+  });
+
+  describe("device registration", () => {
+    it("should register with the stored device ID and name", async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({ id: 1, deviceId: "frame-1", name: "Kitchen" }),
+      } as Response);
+
+      const result = await apiClient.registerDevice();
+
+      expect(result.success).toBe(true);
+      expect(fetchSpy).toHaveBeenCalledWith(
+        "/api/display/devices/register",
+        expect.objectContaining({
+          method: "POST",
+          body: JSON.stringify({ deviceId: "frame-1", name: "Kitchen" }),
+        }),
+      );
+    });
+
+    it("should load settings for the device once registered", async () => {
+      fetchSpy
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({ id: 1, deviceId: "frame-1", name: "Kitchen" }),
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ id: 5, name: "Evening" }),
+        } as Response);
+
+      await apiClient.registerDevice();
+      const result = await apiClient.getSettings();
+
+      expect(result.success).toBe(true);
+      expect(fetchSpy).toHaveBeenLastCalledWith(
+        "/api/display/devices/frame-1/settings",
+      );
+    });
+
+    it("should keep using the active settings when registration fails", async () => {
+      fetchSpy
+        .mockRejectedValueOnce(new Error("offline"))
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ id: 1, name: "Default" }),
+        } as Response);
+
+      const registration = await apiClient.registerDevice();
+      await apiClient.getSettings();
+
+      expect(registration.success).toBe(false);
+      expect(fetchSpy).toHaveBeenLastCalledWith("/api/display/settings");
+    });
+
+    it("should notify registration listeners and share a registration in flight", async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({ id: 1, deviceId: "frame-1", name: "Kitchen" }),
+      } as Response);
+      const callback = vi.fn();
+      apiClient.onRegistered(callback);
+
+      expect(apiClient.isRegistered()).toBe(false);
+      await Promise.all([
+        apiClient.registerDevice(),
+        apiClient.registerDevice(),
+      ]);
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(apiClient.isRegistered()).toBe(true);
+      expect(callback).toHaveBeenCalledWith(
+        expect.objectContaining({ deviceId: "frame-1" }),
+      );
+    });
+  });
+
+  describe("heartbeat", () => {
+    const heartbeat: DisplayHeartbeat = {
+      currentPhotoId: 4,
+      uptimeSeconds: 120,
+      lastSuccessfulFetchAt: null,
+      errorCount: 0,
+      cacheUsageBytes: null,
+      cacheQuotaBytes: null,
+      screenWidth: 1920,
+      screenHeight: 1080,
+      jsHeapUsedBytes: null,
+      jsHeapLimitBytes: null,
+      errors: [],
+    };
+
+    it("should not send before the device is registered", async () => {
+      const result = await apiClient.sendHeartbeat(heartbeat);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("NOT_REGISTERED");
+      }
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it("should POST the heartbeat for the registered device", async () => {
+      fetchSpy
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({ id: 1, deviceId: "frame-1", name: "Kitchen" }),
+        } as Response)
+        .mockResolvedValueOnce({ ok: true, status: 204 } as Response);
+      await apiClient.registerDevice();
+
+      const result = await apiClient.sendHeartbeat(heartbeat);
+
+      expect(result.success).toBe(true);
+      expect(fetchSpy).toHaveBeenLastCalledWith(
+        "/api/display/devices/frame-1/heartbeat",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(heartbeat),
+        },
+      );
+    });
+
+    it("should report a device missing from the registry", async () => {
+      fetchSpy
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({ id: 1, deviceId: "frame-1", name: "Kitchen" }),
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 404,
+          json: () =>
+            Promise.resolve({
+              code: "DEVICE_NOT_FOUND",
+              message: "Device not found",
+            }),
+        } as Response);
+      await apiClient.registerDevice();
+
+      const result = await apiClient.sendHeartbeat(heartbeat);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe("DEVICE_NOT_FOUND");
+      }
+    });
+
+    it("should remember when a fetch last succeeded", async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ totalPhotos: 3 }),
+      } as Response);
+      expect(apiClient.getLastSuccessfulFetchAt()).toBeNull();
+
+      await apiClient.getPhotoCount();
+
+      expect(apiClient.getLastSuccessfulFetchAt()).not.toBeNull();
+    });
+  });
+
+  describe("schedule", () => {
+    it("should load the schedule rules", async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve([{ id: 1, daysOfWeek: 127 }]),
+      } as Response);
+
+      const result = await apiClient.getSchedule();
+
+      expect(result.success).toBe(true);
+      expect(fetchSpy).toHaveBeenCalledWith("/api/display/schedule");
+    });
+
+    it("should pass the scheduled profile to the device settings route", async () => {
+      fetchSpy
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({ id: 1, deviceId: "frame-1", name: "Kitchen" }),
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ id: 7, name: "Morning" }),
+        } as Response);
+
+      await apiClient.registerDevice();
+      apiClient.setScheduledSettingsId(7, false);
+      await apiClient.getSettings();
+
+      expect(fetchSpy).toHaveBeenLastCalledWith(
+        "/api/display/devices/frame-1/settings?scheduledSettingsId=7",
+      );
+    });
+
+    it("should load the scheduled profile directly when not registered", async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ id: 7, name: "Morning" }),
+      } as Response);
+
+      apiClient.setScheduledSettingsId(7, false);
+      await apiClient.getSettings();
+
+      expect(fetchSpy).toHaveBeenLastCalledWith("/api/display/settings/7");
+    });
+  });
+
   describe("settings", () => {
     it("should return settings on success", async () => {
       const mockSettings: DisplaySettingsDto = {
@@ -312,6 +619,12 @@ describe("ApiClient", () => {
       };
 
       expect(apiClient.getPhotoUrl(localPhoto)).toBe("/api/media/photos/1");
+      expect(
+        apiClient.getPhotoUrl({
+          ...localPhoto,
+          url: "/api/media/photos/1?v=0123456789ab",
+        }),
+      ).toBe("/api/media/photos/1?v=0123456789ab");
       expect(apiClient.getPhotoUrl(httpPhoto)).toBe(
         "http://example.com/test.jpg",
       );
@@ -425,6 +738,108 @@ describe("ApiClient", () => {
     });
   });
 
+  describe("offline playlist", () => {
+    const photos: PhotoDto[] = [1, 2, 3].map((id) => ({
+      id,
+      url: `/photos/${id}.jpg`,
+      mediaType: MediaType.Photo,
+      width: 100,
+      height: 100,
+    }));
+
+    beforeEach(() => {
+      apiClient = new ApiClient(
+        new OfflinePlaylist(new MemorySnapshotStore(), 50),
+      );
+      vi.spyOn(apiClient, "preloadImage").mockResolvedValue(undefined);
+    });
+
+    it("should cycle through previously loaded photos while the API is unreachable", async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(photos),
+      } as Response);
+      await apiClient.preloadPhotosWithImages(3);
+      expect(apiClient.isOffline()).toBe(false);
+
+      fetchSpy.mockRejectedValue(new Error("Network error"));
+      const first = await apiClient.preloadPhotosWithImages(2);
+      const second = await apiClient.preloadPhotosWithImages(2);
+
+      expect(apiClient.isOffline()).toBe(true);
+      expect(first.map((p) => p.id)).toEqual([1, 2]);
+      expect(second.map((p) => p.id)).toEqual([3, 1]);
+    });
+
+    it("should skip offline photos whose media is no longer cached", async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(photos),
+      } as Response);
+      await apiClient.preloadPhotosWithImages(3);
+
+      fetchSpy.mockResolvedValue({
+        ok: false,
+        status: 502,
+        statusText: "Bad Gateway",
+        json: () => Promise.reject(new Error("Not JSON")),
+      } as Response);
+      vi.mocked(apiClient.preloadImage)
+        .mockRejectedValueOnce(new Error("Failed to load"))
+        .mockResolvedValue(undefined);
+
+      const result = await apiClient.preloadPhotosWithImages(3);
+
+      expect(apiClient.isOffline()).toBe(true);
+      expect(result.map((p) => p.id)).toEqual([2, 3]);
+    });
+
+    it("should resume the live playlist when the API is reachable again", async () => {
+      fetchSpy.mockRejectedValue(new Error("Network error"));
+      expect(await apiClient.preloadPhotosWithImages(3)).toEqual([]);
+      expect(apiClient.isOffline()).toBe(true);
+
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(photos),
+      } as Response);
+      const result = await apiClient.preloadPhotosWithImages(3);
+
+      expect(apiClient.isOffline()).toBe(false);
+      expect(result).toHaveLength(3);
+    });
+
+    it("should not fall back when the API rejects the request", async () => {
+      fetchSpy.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        json: () =>
+          Promise.resolve({ code: "VALIDATION_ERROR", message: "Bad count" }),
+      } as Response);
+
+      const result = await apiClient.preloadPhotosWithImages(3);
+
+      expect(result).toEqual([]);
+      expect(apiClient.isOffline()).toBe(false);
+    });
+
+    it("should remember the last loaded settings", async () => {
+      const settings = apiClient.getDefaultSettings();
+      fetchSpy.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ ...settings, id: 4, slideDuration: 30 }),
+      } as Response);
+
+      expect(await apiClient.getCachedSettings()).toBeNull();
+      await apiClient.getSettings();
+
+      expect(await apiClient.getCachedSettings()).toMatchObject({
+        id: 4,
+        slideDuration: 30,
+      });
+    });
+  });
+
   describe("settings polling", () => {
     beforeEach(() => {
       vi.useFakeTimers();
@@ -526,6 +941,227 @@ describe("ApiClient", () => {
     });
   });
 
+  describe("event stream", () => {
+    class MockEventSource {
+      static instances: MockEventSource[] = [];
+      onopen: (() => void) | null = null;
+      onerror: (() => void) | null = null;
+      closed = false;
+      private listeners = new Map<string, (event: MessageEvent) => void>();
+
+      constructor(public url: string) {
+        MockEventSource.instances.push(this);
+      }
+
+      addEventListener(type: string, listener: (event: MessageEvent) => void) {
+        this.listeners.set(type, listener);
+      }
+
+      close() {
+        this.closed = true;
+      }
+
+      emit(type: string, data: unknown = {}) {
+        this.listeners.get(type)?.({
+          data: JSON.stringify(data),
+        } as MessageEvent);
+      }
+    }
+
+    const baseSettings: DisplaySettingsDto = {
+      id: 1,
+      name: "Settings",
+      slideDuration: 10,
+      transition: TransitionType.Fade,
+      transitionDuration: 1000,
+      sourceType: SourceType.All,
+      shuffle: true,
+    } as DisplaySettingsDto;
+
+    const settingsResponse = (settings: DisplaySettingsDto) =>
+      ({
+        ok: true,
+        json: () => Promise.resolve(settings),
+      }) as Response;
+
+    beforeEach(() => {
+      MockEventSource.instances = [];
+      vi.stubGlobal("EventSource", MockEventSource);
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      apiClient.stopEventStream();
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+    });
+
+    it("should connect to the events endpoint once", () => {
+      apiClient.startEventStream();
+      apiClient.startEventStream();
+
+      expect(MockEventSource.instances).toHaveLength(1);
+      expect(MockEventSource.instances[0].url).toBe("/api/display/events");
+      // No polling while the stream is healthy
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("should notify settings listeners on settings-changed events", async () => {
+      fetchSpy
+        .mockResolvedValueOnce(settingsResponse(baseSettings))
+        .mockResolvedValueOnce(
+          settingsResponse({ ...baseSettings, slideDuration: 20 }),
+        );
+      const callback = vi.fn();
+      apiClient.onSettingsChange(callback);
+
+      apiClient.startEventStream();
+      const source = MockEventSource.instances[0];
+      source.onopen?.();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(callback).not.toHaveBeenCalled();
+
+      source.emit("settings-changed", { type: "settings-changed", settingsId: 1 });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(callback).toHaveBeenCalledWith(
+        expect.objectContaining({ slideDuration: 20 }),
+      );
+    });
+
+    it("should notify library and remote command listeners", () => {
+      const libraryCallback = vi.fn();
+      const commandCallback = vi.fn();
+      apiClient.onLibraryChange(libraryCallback);
+      const unregister = apiClient.onRemoteCommand(commandCallback);
+
+      apiClient.startEventStream();
+      const source = MockEventSource.instances[0];
+      source.emit("photo-library-changed");
+      source.emit("remote-command", { type: "remote-command" });
+
+      expect(libraryCallback).toHaveBeenCalledTimes(1);
+      expect(commandCallback).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "remote-command" }),
+      );
+
+      unregister();
+      source.emit("remote-command", { type: "remote-command" });
+      expect(commandCallback).toHaveBeenCalledTimes(1);
+    });
+
+    it("should notify schedule listeners on schedule-changed events", () => {
+      const callback = vi.fn();
+      apiClient.onScheduleChange(callback);
+
+      apiClient.startEventStream();
+      MockEventSource.instances[0].emit("schedule-changed", {
+        type: "schedule-changed",
+      });
+
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it("should notify settings listeners when the schedule switches profile", async () => {
+      fetchSpy
+        .mockResolvedValueOnce(settingsResponse(baseSettings))
+        .mockResolvedValueOnce(
+          settingsResponse({ ...baseSettings, id: 7, name: "Morning" }),
+        );
+      const callback = vi.fn();
+      apiClient.onSettingsChange(callback);
+
+      apiClient.startEventStream();
+      MockEventSource.instances[0].onopen?.();
+      await vi.advanceTimersByTimeAsync(0);
+
+      apiClient.setScheduledSettingsId(7);
+      apiClient.setScheduledSettingsId(7);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(callback).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 7 }),
+      );
+    });
+
+    it("should fall back to polling and reconnect with backoff", async () => {
+      fetchSpy.mockResolvedValue(settingsResponse(baseSettings));
+
+      apiClient.startEventStream();
+      MockEventSource.instances[0].onerror?.();
+
+      expect(MockEventSource.instances[0].closed).toBe(true);
+      // Polling interval plus the reconnect timer
+      expect(vi.getTimerCount()).toBe(2);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(MockEventSource.instances).toHaveLength(2);
+
+      // Second failure waits twice as long
+      MockEventSource.instances[1].onerror?.();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(MockEventSource.instances).toHaveLength(2);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(MockEventSource.instances).toHaveLength(3);
+
+      // Reconnecting stops the fallback polling
+      MockEventSource.instances[2].onopen?.();
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("should retry a failed registration when the stream connects", async () => {
+      fetchSpy
+        .mockRejectedValueOnce(new Error("offline"))
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({ id: 1, deviceId: "frame-1", name: "Kitchen" }),
+        } as Response)
+        .mockResolvedValue(settingsResponse(baseSettings));
+      await apiClient.registerDevice();
+
+      apiClient.startEventStream();
+      MockEventSource.instances[0].onopen?.();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(apiClient.isRegistered()).toBe(true);
+      expect(fetchSpy).toHaveBeenNthCalledWith(
+        2,
+        "/api/display/devices/register",
+        expect.objectContaining({ method: "POST" }),
+      );
+
+      // Already registered, so later reconnects don't register again
+      MockEventSource.instances[0].onopen?.();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(
+        fetchSpy.mock.calls.filter(
+          ([url]) => url === "/api/display/devices/register",
+        ),
+      ).toHaveLength(2);
+    });
+
+    it("should poll when EventSource is unavailable", () => {
+      vi.stubGlobal("EventSource", undefined);
+      fetchSpy.mockResolvedValue(settingsResponse(baseSettings));
+
+      apiClient.startEventStream();
+
+      expect(vi.getTimerCount()).toBe(1);
+    });
+
+    it("should stop everything when the stream is stopped", () => {
+      fetchSpy.mockResolvedValue(settingsResponse(baseSettings));
+
+      apiClient.startEventStream();
+      MockEventSource.instances[0].onerror?.();
+      apiClient.stopEventStream();
+
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+
   describe("image preloading", () => {
     it("should preload multiple images in parallel", async () => {
       const urls = ["/img1.jpg", "/img2.jpg", "/img3.jpg"];
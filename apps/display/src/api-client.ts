@@ -10,15 +10,38 @@ import {
   type ResetResponse,
   type ApiError,
   type DisplayConfigResponse,
+  type DisplayEvent,
+  type DisplayStatusReport,
+  type DisplayDeviceDto,
+  type DisplayHeartbeat,
+  type DisplayScheduleRule,
   TransitionType,
   SourceType,
   ImageFit,
+  CollageLayout,
+  OverlayPosition,
+  OverlaySize,
+  RemoteCommandType,
+  VideoPlayback,
+  VideoSegment,
 } from "./types";
 import { getConfig, logger, type AppConfig } from "./config";
+import { getDeviceId, getDeviceName } from "./device";
+import { OfflinePlaylist } from "./offline-playlist";
 
 // Re-export types for convenience
-export type { PhotoDto, DisplaySettingsDto, ApiError };
-export { TransitionType, SourceType, ImageFit };
+export type { PhotoDto, DisplaySettingsDto, ApiError, DisplayEvent };
+export {
+  TransitionType,
+  SourceType,
+  ImageFit,
+  CollageLayout,
+  OverlayPosition,
+  OverlaySize,
+  RemoteCommandType,
+  VideoPlayback,
+  VideoSegment,
+};
 
 /**
  * Result type for API operations that can fail.
@@ -32,25 +55,70 @@ export type ApiResult<T> =
  */
 export type SettingsChangeCallback = (settings: DisplaySettingsDto) => void;
 
+/**
+ * Event callback type for photo library changes.
+ */
+export type LibraryChangeCallback = () => void;
+
+/**
+ * Event callback type for remote control commands.
+ */
+export type RemoteCommandCallback = (event: DisplayEvent) => void;
+
+/**
+ * Event callback type for display schedule changes.
+ */
+export type ScheduleChangeCallback = () => void;
+
+/**
+ * Event callback type for a successful device registration.
+ */
+export type RegisteredCallback = (device: DisplayDeviceDto) => void;
+
+/** Initial delay before reconnecting a dropped event stream (ms). */
+const EVENT_STREAM_INITIAL_RECONNECT_DELAY = 1000;
+
+/** Upper bound for the event stream reconnect backoff (ms). */
+const EVENT_STREAM_MAX_RECONNECT_DELAY = 60000;
+
 /**
  * API Client for the LibraFoto Display Frontend.
  * Handles all communication with the backend API including:
  * - Slideshow photo retrieval (next, current, preload)
+ * - Device registration, per-device settings and health heartbeats
+ * - Time-of-day display schedule
  * - Display settings management
  * - Thumbnail URLs
- * - Polling for settings changes
+ * - Event stream for settings, library and remote command updates
+ * - Polling for settings changes when the event stream is unavailable
+ * - Falling back to the offline playlist while the API is unreachable
  */
 export class ApiClient {
   private config: AppConfig;
   private baseUrl: string;
   private settingsId: number | null = null;
+  private deviceId: string | null = null;
+  private scheduledSettingsId: number | null = null;
   private settingsPollingTimer: number | null = null;
   private settingsChangeCallbacks: SettingsChangeCallback[] = [];
+  private libraryChangeCallbacks: LibraryChangeCallback[] = [];
+  private remoteCommandCallbacks: RemoteCommandCallback[] = [];
+  private scheduleChangeCallbacks: ScheduleChangeCallback[] = [];
+  private registeredCallbacks: RegisteredCallback[] = [];
+  private registration: Promise<ApiResult<DisplayDeviceDto>> | null = null;
+  private registrationFailed = false;
+  private eventSource: EventSource | null = null;
+  private eventStreamReconnectTimer: number | null = null;
+  private eventStreamReconnectDelay = EVENT_STREAM_INITIAL_RECONNECT_DELAY;
   private lastSettingsHash: string | null = null;
   private retryCount: Map<string, number> = new Map();
+  private offlinePlaylist: OfflinePlaylist;
+  private offline = false;
+  private lastSuccessfulFetchAt: string | null = null;
 
-  constructor() {
+  constructor(offlinePlaylist = new OfflinePlaylist()) {
     this.config = getConfig();
+    this.offlinePlaylist = offlinePlaylist;
     this.baseUrl = this.config.apiBaseUrl;
     logger.debug("ApiClient initialized with base URL:", this.baseUrl);
   }
@@ -156,22 +224,216 @@ export class ApiClient {
     }
   }
 
+  /**
+   * Adds a photo to the Favorites tag.
+   */
+  async addToFavorites(photoId: number): Promise<ApiResult<void>> {
+    const url = this.buildUrl(`/display/photos/${photoId}/favorite`);
+    try {
+      const response = await fetch(url, { method: "POST" });
+      if (!response.ok) {
+        const error = await this.parseError(response);
+        logger.error("Failed to add photo to favorites:", error);
+        return { success: false, error };
+      }
+      logger.debug("Photo added to favorites:", photoId);
+      return { success: true, data: undefined };
+    } catch (error) {
+      logger.error("Network error adding photo to favorites:", error);
+      return {
+        success: false,
+        error: this.createNetworkError(error),
+      };
+    }
+  }
+
+  // ============================================================================
+  // Device Endpoints
+  // ============================================================================
+
+  /**
+   * Registers this display with the backend using its stable device ID.
+   * Once registered, settings are loaded from the profile assigned to the device.
+   * Concurrent calls share the registration already in flight.
+   */
+  registerDevice(): Promise<ApiResult<DisplayDeviceDto>> {
+    this.registration ??= this.sendRegistration().then((result) => {
+      this.registration = null;
+      this.registrationFailed = !result.success;
+      return result;
+    });
+    return this.registration;
+  }
+
+  /**
+   * Whether the backend has accepted this display's registration.
+   */
+  isRegistered(): boolean {
+    return this.deviceId !== null;
+  }
+
+  /**
+   * Registers a callback to be called when the device registers successfully.
+   * @returns A function to unregister the callback
+   */
+  onRegistered(callback: RegisteredCallback): () => void {
+    this.registeredCallbacks.push(callback);
+    return () => {
+      const index = this.registeredCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.registeredCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Sends a health heartbeat for this device.
+   * Fails with DEVICE_NOT_FOUND when the device was removed from the registry.
+   */
+  async sendHeartbeat(heartbeat: DisplayHeartbeat): Promise<ApiResult<void>> {
+    if (this.deviceId === null) {
+      return {
+        success: false,
+        error: {
+          code: "NOT_REGISTERED",
+          message: "Device is not registered yet",
+        },
+      };
+    }
+
+    const url = `${this.baseUrl}/display/devices/${encodeURIComponent(this.deviceId)}/heartbeat`;
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(heartbeat),
+      });
+      if (!response.ok) {
+        const error = await this.parseError(response);
+        logger.warn("Failed to send heartbeat:", error);
+        return { success: false, error };
+      }
+      return { success: true, data: undefined };
+    } catch (error) {
+      logger.warn("Network error sending heartbeat:", error);
+      return {
+        success: false,
+        error: this.createNetworkError(error),
+      };
+    }
+  }
+
+  /**
+   * Gets when a request to the API last succeeded (ISO 8601), if ever.
+   */
+  getLastSuccessfulFetchAt(): string | null {
+    return this.lastSuccessfulFetchAt;
+  }
+
+  // ============================================================================
+  // Schedule Endpoints
+  // ============================================================================
+
+  /**
+   * Gets the time-of-day schedule rules in evaluation order.
+   */
+  async getSchedule(): Promise<ApiResult<DisplayScheduleRule[]>> {
+    return this.fetchWithRetry<DisplayScheduleRule[]>(
+      `${this.baseUrl}/display/schedule`,
+      "getSchedule",
+    );
+  }
+
+  /**
+   * Sets the profile selected by the display schedule. A profile assigned to
+   * the device still takes precedence.
+   * @param settingsId Scheduled profile, or null when no rule applies
+   * @param refresh Re-check settings and notify listeners if the profile changed
+   */
+  setScheduledSettingsId(settingsId: number | null, refresh = true): void {
+    if (settingsId === this.scheduledSettingsId) return;
+
+    this.scheduledSettingsId = settingsId;
+    logger.info(
+      settingsId === null
+        ? "Schedule returned to the default profile"
+        : `Schedule selected profile ${settingsId}`,
+    );
+    if (refresh) {
+      this.checkForSettingsChanges();
+    }
+  }
+
+  // ============================================================================
+  // Remote Control Endpoints
+  // ============================================================================
+
+  /**
+   * Reports what the display is showing so the admin remote can preview it.
+   */
+  async reportStatus(
+    status: Omit<DisplayStatusReport, "settingsId" | "deviceId">,
+  ): Promise<ApiResult<void>> {
+    const url = `${this.baseUrl}/display/remote/status`;
+    const report: DisplayStatusReport = {
+      ...status,
+      settingsId: this.settingsId,
+      deviceId: this.deviceId,
+    };
+    try {
+      const response = await fetch(url, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(report),
+      });
+      if (!response.ok) {
+        const error = await this.parseError(response);
+        logger.warn("Failed to report display status:", error);
+        return { success: false, error };
+      }
+      return { success: true, data: undefined };
+    } catch (error) {
+      logger.warn("Network error reporting display status:", error);
+      return {
+        success: false,
+        error: this.createNetworkError(error),
+      };
+    }
+  }
+
   // ============================================================================
   // Settings Endpoints
   // ============================================================================
 
   /**
-   * Gets the currently active display settings.
+   * Gets the display settings for this device: its assigned profile once
+   * registered, then the profile selected by the schedule, otherwise the
+   * globally active settings.
    */
   async getSettings(): Promise<ApiResult<DisplaySettingsDto>> {
+    let url: string;
+    if (this.deviceId !== null) {
+      const path = `/display/devices/${encodeURIComponent(this.deviceId)}/settings`;
+      url =
+        this.scheduledSettingsId !== null
+          ? this.buildUrl(path, {
+              scheduledSettingsId: this.scheduledSettingsId.toString(),
+            })
+          : this.buildUrl(path);
+    } else if (this.scheduledSettingsId !== null) {
+      url = this.buildUrl(`/display/settings/${this.scheduledSettingsId}`);
+    } else {
+      url = this.buildUrl("/display/settings");
+    }
     const result = await this.fetchWithRetry<DisplaySettingsDto>(
-      this.buildUrl("/display/settings"),
+      url,
       "getSettings",
     );
 
     if (result.success) {
       this.settingsId = result.data.id;
       // Note: lastSettingsHash is only updated by polling logic to allow change detection
+      void this.offlinePlaylist.saveSettings(result.data);
       return result;
     }
 
@@ -185,6 +447,7 @@ export class ApiClient {
       );
       if (fallback.success) {
         this.settingsId = fallback.data.id;
+        void this.offlinePlaylist.saveSettings(fallback.data);
         return fallback;
       }
     }
@@ -213,6 +476,13 @@ export class ApiClient {
     );
   }
 
+  /**
+   * Gets the settings from the last successful load, kept for offline starts.
+   */
+  async getCachedSettings(): Promise<DisplaySettingsDto | null> {
+    return this.offlinePlaylist.getSettings();
+  }
+
   /**
    * Gets default display settings when API is unavailable.
    */
@@ -226,6 +496,20 @@ export class ApiClient {
       sourceType: SourceType.All,
       shuffle: true,
       imageFit: ImageFit.Contain,
+      collageLayout: CollageLayout.Off,
+      showClock: false,
+      clockPosition: OverlayPosition.TopRight,
+      showDateTaken: false,
+      dateTakenPosition: OverlayPosition.BottomLeft,
+      showLocation: false,
+      locationPosition: OverlayPosition.BottomLeft,
+      overlaySize: OverlaySize.Medium,
+      overlayOpacity: 80,
+      videoPlayback: VideoPlayback.Muted,
+      videoVolume: 50,
+      maxVideoDuration: 30,
+      videoSegment: VideoSegment.Start,
+      videoLoopCount: 1,
     };
   }
 
@@ -244,6 +528,7 @@ export class ApiClient {
   /**
    * Builds the URL for a photo's full-size image.
    * This uses the URL provided in the PhotoDto, which may be a file path or cloud URL.
+   * The edit version (?v=) is kept, so a rotated or cropped photo is not served from cache.
    */
   getPhotoUrl(photo: PhotoDto): string {
     // If the URL is already absolute, return it as-is
@@ -251,7 +536,139 @@ export class ApiClient {
       return photo.url;
     }
     // Otherwise, it's a relative path served by the API
-    return `${this.baseUrl}/media/photos/${photo.id}`;
+    const queryStart = photo.url.indexOf("?");
+    const query = queryStart >= 0 ? photo.url.slice(queryStart) : "";
+    return `${this.baseUrl}/media/photos/${photo.id}${query}`;
+  }
+
+  // ============================================================================
+  // Real-time Updates (Event Stream)
+  // ============================================================================
+
+  /**
+   * Subscribes to the display event stream.
+   * Falls back to settings polling while the stream is down and reconnects
+   * with exponential backoff.
+   */
+  startEventStream(): void {
+    if (this.eventSource !== null || this.eventStreamReconnectTimer !== null) {
+      return; // Already connected or reconnecting
+    }
+
+    if (typeof EventSource === "undefined") {
+      logger.warn("EventSource not supported, using settings polling");
+      this.startSettingsPolling();
+      return;
+    }
+
+    logger.debug("Connecting to display event stream...");
+    const source = new EventSource(this.buildUrl("/display/events"));
+    this.eventSource = source;
+
+    source.onopen = () => {
+      logger.info("Display event stream connected");
+      this.eventStreamReconnectDelay = EVENT_STREAM_INITIAL_RECONNECT_DELAY;
+      this.stopSettingsPolling();
+      // The API is reachable again, so retry a registration that failed earlier
+      if (this.registrationFailed) {
+        void this.registerDevice();
+      }
+      // Catch up on anything missed while disconnected
+      this.checkForSettingsChanges();
+    };
+
+    source.onerror = () => {
+      if (this.eventSource !== source) return;
+      logger.warn(
+        `Display event stream dropped, polling until reconnect in ${this.eventStreamReconnectDelay}ms`,
+      );
+      source.close();
+      this.eventSource = null;
+      this.startSettingsPolling();
+      this.scheduleEventStreamReconnect();
+    };
+
+    source.addEventListener("settings-changed", () => {
+      logger.debug("Settings changed event received");
+      this.checkForSettingsChanges();
+    });
+
+    source.addEventListener("schedule-changed", () => {
+      logger.info("Display schedule changed, notifying listeners");
+      this.notifyScheduleChange();
+    });
+
+    source.addEventListener("photo-library-changed", () => {
+      logger.info("Photo library changed, notifying listeners");
+      this.notifyLibraryChange();
+    });
+
+    source.addEventListener("remote-command", (event) => {
+      const displayEvent = this.parseEvent((event as MessageEvent).data);
+      if (displayEvent) {
+        logger.info("Remote command received:", displayEvent);
+        this.notifyRemoteCommand(displayEvent);
+      }
+    });
+  }
+
+  /**
+   * Closes the event stream and stops any fallback polling.
+   */
+  stopEventStream(): void {
+    if (this.eventStreamReconnectTimer !== null) {
+      clearTimeout(this.eventStreamReconnectTimer);
+      this.eventStreamReconnectTimer = null;
+    }
+    if (this.eventSource !== null) {
+      this.eventSource.close();
+      this.eventSource = null;
+      logger.debug("Display event stream closed");
+    }
+    this.eventStreamReconnectDelay = EVENT_STREAM_INITIAL_RECONNECT_DELAY;
+    this.stopSettingsPolling();
+  }
+
+  /**
+   * Registers a callback to be called when the photo library changes.
+   * @returns A function to unregister the callback
+   */
+  onLibraryChange(callback: LibraryChangeCallback): () => void {
+    this.libraryChangeCallbacks.push(callback);
+    return () => {
+      const index = this.libraryChangeCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.libraryChangeCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Registers a callback to be called when a remote command arrives.
+   * @returns A function to unregister the callback
+   */
+  onRemoteCommand(callback: RemoteCommandCallback): () => void {
+    this.remoteCommandCallbacks.push(callback);
+    return () => {
+      const index = this.remoteCommandCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.remoteCommandCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Registers a callback to be called when the display schedule changes.
+   * @returns A function to unregister the callback
+   */
+  onScheduleChange(callback: ScheduleChangeCallback): () => void {
+    this.scheduleChangeCallbacks.push(callback);
+    return () => {
+      const index = this.scheduleChangeCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.scheduleChangeCallbacks.splice(index, 1);
+      }
+    };
   }
 
   // ============================================================================
@@ -269,24 +686,7 @@ export class ApiClient {
 
     logger.debug("Starting settings polling...");
 
-    const poll = async () => {
-      try {
-        const result = await this.getSettings();
-        if (result.success) {
-          const newHash = this.hashSettings(result.data);
-          if (
-            this.lastSettingsHash !== null &&
-            newHash !== this.lastSettingsHash
-          ) {
-            logger.info("Settings changed, notifying listeners");
-            this.notifySettingsChange(result.data);
-          }
-          this.lastSettingsHash = newHash;
-        }
-      } catch (error) {
-        logger.warn("Settings poll failed:", error);
-      }
-    };
+    const poll = () => this.checkForSettingsChanges();
 
     // Run initial poll to set baseline hash
     poll();
@@ -354,18 +754,57 @@ export class ApiClient {
 
   /**
    * Preloads photos and their images for smooth slideshow transitions.
+   * While the API is unreachable, photos come from the offline playlist
+   * and only those still in the media cache are returned.
    * @returns Array of successfully preloaded photos
    */
   async preloadPhotosWithImages(count?: number): Promise<PhotoDto[]> {
     const result = await this.getPreloadPhotos(count);
     if (!result.success) {
-      logger.warn("Failed to fetch photos for preloading");
-      return [];
+      if (!this.isUnreachable(result.error)) {
+        logger.warn("Failed to fetch photos for preloading");
+        return [];
+      }
+
+      if (!this.offline) {
+        logger.warn(
+          "API unreachable, playing photos from the offline playlist",
+        );
+        this.offline = true;
+      }
+      return this.preloadImagesOf(
+        await this.offlinePlaylist.nextPhotos(
+          count ?? this.config.preloadCount,
+        ),
+      );
     }
 
-    const photos = result.data;
+    if (this.offline) {
+      logger.info("API reachable again, resuming the live playlist");
+      this.offline = false;
+    }
+
+    const loaded = await this.preloadImagesOf(result.data);
+    void this.offlinePlaylist.addPhotos(loaded);
+    return loaded;
+  }
 
-    // Preload all photo images in parallel
+  /**
+   * Whether the last preload fell back to the offline playlist.
+   */
+  isOffline(): boolean {
+    return this.offline;
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Preloads the images of the given photos in parallel.
+   * @returns The photos whose image loaded
+   */
+  private async preloadImagesOf(photos: PhotoDto[]): Promise<PhotoDto[]> {
     const preloadPromises = photos.map(async (photo) => {
       try {
         await this.preloadImage(this.getPhotoUrl(photo));
@@ -379,10 +818,6 @@ export class ApiClient {
     return results.filter((p): p is PhotoDto => p !== null);
   }
 
-  // ============================================================================
-  // Private Helpers
-  // ============================================================================
-
   /**
    * Builds a full URL with optional query parameters.
    */
@@ -443,6 +878,7 @@ export class ApiClient {
 
       const data = await response.json();
       this.retryCount.delete(operationKey);
+      this.lastSuccessfulFetchAt = new Date().toISOString();
       return { success: true, data };
     } catch (error) {
       if (currentRetry < this.config.maxRetries) {
@@ -466,6 +902,17 @@ export class ApiClient {
     }
   }
 
+  /**
+   * Whether an error means the API could not be reached at all, either
+   * from the network or from a proxy in front of a stopped API.
+   */
+  private isUnreachable(error: ApiError): boolean {
+    return (
+      error.code === "NETWORK_ERROR" ||
+      ["HTTP_502", "HTTP_503", "HTTP_504"].includes(error.code)
+    );
+  }
+
   /**
    * Parses an error response from the API.
    */
@@ -500,6 +947,87 @@ export class ApiClient {
     };
   }
 
+  /**
+   * Sends the registration request and records the device ID on success.
+   */
+  private async sendRegistration(): Promise<ApiResult<DisplayDeviceDto>> {
+    const url = `${this.baseUrl}/display/devices/register`;
+    const deviceId = getDeviceId();
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ deviceId, name: getDeviceName() }),
+      });
+      if (!response.ok) {
+        const error = await this.parseError(response);
+        logger.warn("Failed to register device:", error);
+        return { success: false, error };
+      }
+      const data: DisplayDeviceDto = await response.json();
+      this.deviceId = data.deviceId;
+      logger.info(`Registered as device "${data.name}"`);
+      this.notifyRegistered(data);
+      return { success: true, data };
+    } catch (error) {
+      logger.warn("Network error registering device:", error);
+      return {
+        success: false,
+        error: this.createNetworkError(error),
+      };
+    }
+  }
+
+  /**
+   * Fetches settings and notifies listeners if they differ from the last check.
+   * The first check only records the baseline.
+   */
+  private async checkForSettingsChanges(): Promise<void> {
+    try {
+      const result = await this.getSettings();
+      if (result.success) {
+        const newHash = this.hashSettings(result.data);
+        if (
+          this.lastSettingsHash !== null &&
+          newHash !== this.lastSettingsHash
+        ) {
+          logger.info("Settings changed, notifying listeners");
+          this.notifySettingsChange(result.data);
+        }
+        this.lastSettingsHash = newHash;
+      }
+    } catch (error) {
+      logger.warn("Settings check failed:", error);
+    }
+  }
+
+  /**
+   * Schedules an event stream reconnect, doubling the delay each attempt.
+   */
+  private scheduleEventStreamReconnect(): void {
+    const delay = this.eventStreamReconnectDelay;
+    this.eventStreamReconnectDelay = Math.min(
+      delay * 2,
+      EVENT_STREAM_MAX_RECONNECT_DELAY,
+    );
+    this.eventStreamReconnectTimer = window.setTimeout(() => {
+      this.eventStreamReconnectTimer = null;
+      this.startEventStream();
+    }, delay);
+  }
+
+  /**
+   * Parses the JSON payload of a stream event.
+   */
+  private parseEvent(data: string): DisplayEvent | null {
+    try {
+      return JSON.parse(data) as DisplayEvent;
+    } catch (error) {
+      logger.warn("Ignoring malformed display event:", data, error);
+      return null;
+    }
+  }
+
   /**
    * Creates a hash of settings for change detection.
    */
@@ -520,6 +1048,58 @@ export class ApiClient {
     }
   }
 
+  /**
+   * Notifies all registered callbacks of photo library changes.
+   */
+  private notifyLibraryChange(): void {
+    for (const callback of this.libraryChangeCallbacks) {
+      try {
+        callback();
+      } catch (error) {
+        logger.error("Error in library change callback:", error);
+      }
+    }
+  }
+
+  /**
+   * Notifies all registered callbacks of a display schedule change.
+   */
+  private notifyScheduleChange(): void {
+    for (const callback of this.scheduleChangeCallbacks) {
+      try {
+        callback();
+      } catch (error) {
+        logger.error("Error in schedule change callback:", error);
+      }
+    }
+  }
+
+  /**
+   * Notifies all registered callbacks of a successful device registration.
+   */
+  private notifyRegistered(device: DisplayDeviceDto): void {
+    for (const callback of this.registeredCallbacks) {
+      try {
+        callback(device);
+      } catch (error) {
+        logger.error("Error in registration callback:", error);
+      }
+    }
+  }
+
+  /**
+   * Notifies all registered callbacks of a remote command.
+   */
+  private notifyRemoteCommand(event: DisplayEvent): void {
+    for (const callback of this.remoteCommandCallbacks) {
+      try {
+        callback(event);
+      } catch (error) {
+        logger.error("Error in remote command callback:", error);
+      }
+    }
+  }
+
   /**
    * Delays execution for a specified time.
    */
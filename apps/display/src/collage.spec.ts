@@ -0,0 +1,179 @@
+/**
+ * Unit tests for collage.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { CollageView, getOrientation, planCollage } from "./collage";
+import { CollageLayout, MediaType, type PhotoDto } from "./types";
+
+function photo(id: number, width: number, height: number): PhotoDto {
+  return {
+    id,
+    url: `/api/media/photos/${id}`,
+    mediaType: MediaType.Photo,
+    width,
+    height,
+  };
+}
+
+const portrait = (id: number) => photo(id, 1080, 1920);
+const landscape = (id: number) => photo(id, 1920, 1080);
+
+describe("getOrientation", () => {
+  it("should tell portrait from landscape photos", () => {
+    expect(getOrientation(portrait(1))).toBe("portrait");
+    expect(getOrientation(landscape(1))).toBe("landscape");
+    expect(getOrientation(photo(1, 1000, 1000))).toBe("landscape");
+  });
+
+  it("should skip videos and photos without a size", () => {
+    expect(
+      getOrientation({ ...portrait(1), mediaType: MediaType.Video }),
+    ).toBeNull();
+    expect(getOrientation(photo(1, 0, 0))).toBeNull();
+  });
+});
+
+describe("planCollage", () => {
+  it("should pair a portrait with the next portrait in the queue", () => {
+    const queue = [landscape(2), portrait(3), portrait(4)];
+
+    const plan = planCollage(
+      portrait(1),
+      queue,
+      CollageLayout.PairPortraits,
+      true,
+    );
+
+    expect(plan?.arrangement).toBe("pair");
+    expect(plan?.photos.map((p) => p.id)).toEqual([1, 3]);
+  });
+
+  it("should only collage portrait photos on landscape screens", () => {
+    const queue = [portrait(2), portrait(3)];
+
+    expect(
+      planCollage(landscape(1), queue, CollageLayout.Mosaic, true),
+    ).toBeNull();
+    expect(
+      planCollage(portrait(1), queue, CollageLayout.Mosaic, false),
+    ).toBeNull();
+    expect(planCollage(portrait(1), queue, CollageLayout.Off, true)).toBeNull();
+  });
+
+  it("should prefer the largest mosaic the queue allows", () => {
+    const queue = [landscape(2), portrait(3), landscape(4), portrait(5)];
+
+    const plan = planCollage(portrait(1), queue, CollageLayout.Mosaic, true);
+
+    expect(plan?.arrangement).toBe("quad");
+    expect(plan?.photos.map((p) => p.id)).toEqual([1, 3, 2, 4]);
+  });
+
+  it("should fall back to smaller mosaics", () => {
+    expect(
+      planCollage(
+        portrait(1),
+        [portrait(2), portrait(3)],
+        CollageLayout.Mosaic,
+        true,
+      )?.arrangement,
+    ).toBe("triple");
+    expect(
+      planCollage(
+        portrait(1),
+        [landscape(2), landscape(3)],
+        CollageLayout.Mosaic,
+        true,
+      )?.arrangement,
+    ).toBe("stack");
+    expect(
+      planCollage(portrait(1), [portrait(2)], CollageLayout.Mosaic, true)
+        ?.arrangement,
+    ).toBe("pair");
+  });
+
+  it("should only look a few photos ahead for companions", () => {
+    const queue = [1, 2, 3, 4, 5, 6].map((id) => landscape(id + 1));
+    queue.push(portrait(8));
+
+    expect(
+      planCollage(portrait(1), queue, CollageLayout.PairPortraits, true),
+    ).toBeNull();
+  });
+});
+
+describe("CollageView", () => {
+  let root: HTMLElement;
+  let view: CollageView;
+
+  const tiles = [
+    { url: "/api/media/photos/1", position: "" },
+    { url: "/api/media/photos/2", position: "90% 10%" },
+  ];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    root = document.createElement("div");
+    view = new CollageView(root);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should start hidden", () => {
+    expect(view.isVisible()).toBe(false);
+  });
+
+  it("should fade in the collage cells", async () => {
+    const shown = view.show("pair", tiles, 500);
+
+    const collage = root.querySelector(".collage") as HTMLElement;
+    expect(view.isVisible()).toBe(true);
+    expect(collage.classList.contains("collage-pair")).toBe(true);
+    expect(collage.classList.contains("fade-in")).toBe(true);
+    expect(collage.style.getPropertyValue("--transition-duration")).toBe(
+      "500ms",
+    );
+    const images = Array.from(collage.querySelectorAll("img"));
+    expect(images.map((img) => img.getAttribute("src"))).toEqual([
+      "/api/media/photos/1",
+      "/api/media/photos/2",
+    ]);
+    expect(images[1].style.objectPosition).toBe("90% 10%");
+
+    await vi.advanceTimersByTimeAsync(500);
+    await shown;
+    expect(collage.classList.contains("fade-in")).toBe(false);
+  });
+
+  it("should replace the previous collage once the new one is shown", async () => {
+    const first = view.show("pair", tiles, 500);
+    await vi.advanceTimersByTimeAsync(500);
+    await first;
+
+    const second = view.show("triple", tiles, 500);
+    expect(root.children).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(500);
+    await second;
+
+    expect(root.children).toHaveLength(1);
+    expect(root.querySelector(".collage-triple")).not.toBeNull();
+  });
+
+  it("should fade out and hide the collage", async () => {
+    const shown = view.show("pair", tiles, 500);
+    await vi.advanceTimersByTimeAsync(500);
+    await shown;
+
+    view.hide(800);
+    expect(root.querySelector(".collage")?.classList.contains("fade-out")).toBe(
+      true,
+    );
+
+    vi.advanceTimersByTime(800);
+    expect(view.isVisible()).toBe(false);
+    expect(root.children).toHaveLength(0);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Collage Layouts
+ * Combines portrait photos into one slide so they fill a landscape screen
+ */
+
+import { CollageLayout, MediaType, type PhotoDto } from "./types";
+
+/** How many queued photos are searched for collage companions. */
+const COLLAGE_LOOKAHEAD = 6;
+
+/**
+ * Shape of a photo, or null when it is a video or its size is unknown.
+ */
+export type Orientation = "portrait" | "landscape";
+
+/**
+ * Arrangement of the photos in a collage.
+ * - pair: two portraits side by side
+ * - triple: three portraits side by side
+ * - stack: a portrait beside two stacked landscapes
+ * - quad: two portraits beside two stacked landscapes
+ */
+export type CollageArrangement = "pair" | "triple" | "stack" | "quad";
+
+/** Photo shape needed for each cell, in the order the cells are laid out. */
+const ARRANGEMENT_CELLS: Record<CollageArrangement, Orientation[]> = {
+  pair: ["portrait", "portrait"],
+  triple: ["portrait", "portrait", "portrait"],
+  stack: ["portrait", "landscape", "landscape"],
+  quad: ["portrait", "portrait", "landscape", "landscape"],
+};
+
+/** Arrangements to try for each layout setting, largest first. */
+const LAYOUT_ARRANGEMENTS: Record<CollageLayout, CollageArrangement[]> = {
+  [CollageLayout.Off]: [],
+  [CollageLayout.PairPortraits]: ["pair"],
+  [CollageLayout.Mosaic]: ["quad", "triple", "stack", "pair"],
+};
+
+/**
+ * Photos to show together and how to arrange them.
+ */
+export interface CollagePlan {
+  arrangement: CollageArrangement;
+  /** Photos in cell order; the first is the photo the collage was planned for. */
+  photos: PhotoDto[];
+}
+
+/**
+ * A photo cell in a rendered collage.
+ */
+export interface CollageTile {
+  url: string;
+  /** CSS object-position that keeps the photo's focal point in frame. */
+  position: string;
+}
+
+/**
+ * Returns whether a photo is portrait or landscape. Square photos count as
+ * landscape, since they already fill most of a landscape screen.
+ */
+export function getOrientation(photo: PhotoDto): Orientation | null {
+  if (
+    photo.mediaType === MediaType.Video ||
+    !(photo.width > 0) ||
+    !(photo.height > 0)
+  ) {
+    return null;
+  }
+  return photo.height > photo.width ? "portrait" : "landscape";
+}
+
+/**
+ * Plans a collage for a portrait photo from the photos queued after it.
+ * Companions are taken from the first few queued photos of the right shape,
+ * so the order of the slideshow is mostly kept.
+ * @param queue Photos queued after the photo; companions are not removed
+ * @param landscapeScreen Whether the screen is wider than it is tall
+ * @returns The plan, or null to show the photo on its own
+ */
+export function planCollage(
+  photo: PhotoDto,
+  queue: PhotoDto[],
+  layout: CollageLayout,
+  landscapeScreen: boolean,
+): CollagePlan | null {
+  if (!landscapeScreen || getOrientation(photo) !== "portrait") return null;
+
+  const candidates = queue.slice(0, COLLAGE_LOOKAHEAD);
+  for (const arrangement of LAYOUT_ARRANGEMENTS[layout] ?? []) {
+    const companions = findCompanions(
+      ARRANGEMENT_CELLS[arrangement].slice(1),
+      candidates,
+    );
+    if (companions) {
+      return { arrangement, photos: [photo, ...companions] };
+    }
+  }
+  return null;
+}
+
+/**
+ * Picks a distinct photo for each cell, or returns null if any cell can't be filled.
+ */
+function findCompanions(
+  cells: Orientation[],
+  candidates: PhotoDto[],
+): PhotoDto[] | null {
+  const picked: PhotoDto[] = [];
+  for (const orientation of cells) {
+    const match = candidates.find(
+      (photo) =>
+        !picked.includes(photo) && getOrientation(photo) === orientation,
+    );
+    if (!match) return null;
+    picked.push(match);
+  }
+  return picked;
+}
+
+/**
+ * Full-screen layer that shows collages above the slides.
+ */
+export class CollageView {
+  private readonly root: HTMLElement;
+
+  constructor(root: HTMLElement) {
+    this.root = root;
+    this.root.innerHTML = "";
+    this.root.classList.add("hidden");
+  }
+
+  /**
+   * Fades in a collage over the slides, or over the collage already shown.
+   * @param duration Length of the fade (ms)
+   * @returns Resolves once the collage is fully shown
+   */
+  show(
+    arrangement: CollageArrangement,
+    tiles: CollageTile[],
+    duration: number,
+  ): Promise<void> {
+    const previous = Array.from(this.root.children);
+
+    const collage = document.createElement("div");
+    collage.className = `collage collage-${arrangement} fade-in`;
+    collage.style.setProperty("--transition-duration", `${duration}ms`);
+    for (const tile of tiles) {
+      const img = document.createElement("img");
+      img.src = tile.url;
+      img.alt = "";
+      img.style.objectPosition = tile.position;
+      collage.appendChild(img);
+    }
+
+    this.root.appendChild(collage);
+    this.root.classList.remove("hidden");
+
+    return new Promise((resolve) => {
+      window.setTimeout(() => {
+        for (const element of previous) {
+          element.remove();
+        }
+        collage.classList.remove("fade-in");
+        resolve();
+      }, duration);
+    });
+  }
+
+  /**
+   * Fades out the collage, uncovering the slides.
+   * @param duration Length of the fade (ms)
+   */
+  hide(duration: number): void {
+    if (!this.isVisible()) return;
+
+    const collages = Array.from(this.root.children) as HTMLElement[];
+    for (const collage of collages) {
+      collage.style.setProperty("--transition-duration", `${duration}ms`);
+      collage.classList.remove("fade-in");
+      collage.classList.add("fade-out");
+    }
+
+    window.setTimeout(() => {
+      for (const collage of collages) {
+        collage.remove();
+      }
+      // A collage shown during the fade keeps the layer visible
+      if (this.root.children.length === 0) {
+        this.root.classList.add("hidden");
+      }
+    }, duration);
+  }
+
+  /**
+   * Checks if a collage is currently shown.
+   */
+  isVisible(): boolean {
+    return !this.root.classList.contains("hidden");
+  }
+}
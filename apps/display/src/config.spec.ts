@@ -15,7 +15,9 @@ vi.stubGlobal("import", {
       VITE_PRELOAD_THRESHOLD: "",
       VITE_RETRY_DELAY: "",
       VITE_MAX_RETRIES: "",
-      VITE_MAX_VIDEO_DURATION: "",
+      VITE_HISTORY_SIZE: "",
+      VITE_MEDIA_CACHE_MB: "",
+      VITE_OFFLINE_PLAYLIST_SIZE: "",
       DEV: false,
     },
   },
@@ -32,7 +34,9 @@ describe("getConfig", () => {
     expect(config.preloadThreshold).toBe(3);
     expect(config.retryDelay).toBe(5000);
     expect(config.maxRetries).toBe(3);
-    expect(config.maxVideoDuration).toBe(30);
+    expect(config.historySize).toBe(50);
+    expect(config.mediaCacheMb).toBe(500);
+    expect(config.offlinePlaylistSize).toBe(200);
   });
 });
 
@@ -21,8 +21,12 @@ export interface AppConfig {
   retryDelay: number;
   /** Maximum retry attempts */
   maxRetries: number;
-  /** Maximum video duration in seconds before skipping */
-  maxVideoDuration: number;
+  /** Number of shown photos kept for previous-photo navigation */
+  historySize: number;
+  /** Storage budget for cached photos and videos (MB) */
+  mediaCacheMb: number;
+  /** Number of recently fetched photos kept for offline playback */
+  offlinePlaylistSize: number;
 }
 
 /**
@@ -55,9 +59,13 @@ export function getConfig(): AppConfig {
     retryDelay: parseInt(import.meta.env.VITE_RETRY_DELAY || "5000", 10),
     maxRetries: parseInt(import.meta.env.VITE_MAX_RETRIES || "3", 10),
 
-    // Video configuration
-    maxVideoDuration: parseInt(
-      import.meta.env.VITE_MAX_VIDEO_DURATION || "30",
+    // Navigation history configuration
+    historySize: parseInt(import.meta.env.VITE_HISTORY_SIZE || "50", 10),
+
+    // Offline configuration
+    mediaCacheMb: parseInt(import.meta.env.VITE_MEDIA_CACHE_MB || "500", 10),
+    offlinePlaylistSize: parseInt(
+      import.meta.env.VITE_OFFLINE_PLAYLIST_SIZE || "200",
       10,
     ),
   };
@@ -93,7 +101,9 @@ declare global {
     readonly VITE_PRELOAD_THRESHOLD?: string;
     readonly VITE_RETRY_DELAY?: string;
     readonly VITE_MAX_RETRIES?: string;
-    readonly VITE_MAX_VIDEO_DURATION?: string;
+    readonly VITE_HISTORY_SIZE?: string;
+    readonly VITE_MEDIA_CACHE_MB?: string;
+    readonly VITE_OFFLINE_PLAYLIST_SIZE?: string;
     readonly DEV: boolean;
   }
 
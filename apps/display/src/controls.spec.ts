@@ -0,0 +1,153 @@
+/**
+ * Unit tests for controls.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  TouchControls,
+  describePhoto,
+  CONTROL_BAR_HIDE_DELAY,
+  MAX_ZOOM,
+  type TouchControlActions,
+} from "./controls";
+import { MediaType, type PhotoDto } from "./types";
+
+const photo: PhotoDto = {
+  id: 7,
+  url: "/media/photos/7",
+  dateTaken: "2019-06-03T12:00:00Z",
+  location: "Lisbon, Portugal",
+  mediaType: MediaType.Photo,
+  width: 4000,
+  height: 3000,
+};
+
+describe("describePhoto", () => {
+  it("lists date, location and dimensions", () => {
+    const lines = describePhoto(photo);
+
+    expect(lines[0]).toContain("2019");
+    expect(lines).toContain("Lisbon, Portugal");
+    expect(lines).toContain("4000 × 3000");
+  });
+
+  it("falls back when nothing is known", () => {
+    const unknown: PhotoDto = {
+      ...photo,
+      dateTaken: undefined,
+      location: undefined,
+      width: 0,
+      height: 0,
+    };
+    expect(describePhoto(unknown)).toEqual(["No details available"]);
+  });
+});
+
+describe("TouchControls", () => {
+  let root: HTMLElement;
+  let image: HTMLElement;
+  let actions: { [K in keyof TouchControlActions]: ReturnType<typeof vi.fn> };
+  let controls: TouchControls;
+
+  const bar = () => root.querySelector(".control-bar") as HTMLElement;
+  const details = () => root.querySelector("#photo-details") as HTMLElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    root = document.createElement("div");
+    image = document.createElement("img");
+    document.body.append(root, image);
+
+    let paused = false;
+    actions = {
+      togglePause: vi.fn(() => {
+        paused = !paused;
+      }),
+      isPaused: vi.fn(() => paused),
+      addToFavorites: vi.fn(() => Promise.resolve(true)),
+    };
+    controls = new TouchControls(
+      root,
+      image,
+      actions as unknown as TouchControlActions,
+    );
+    controls.setPhoto(photo);
+  });
+
+  afterEach(() => {
+    controls.destroy();
+    root.remove();
+    image.remove();
+    vi.useRealTimers();
+  });
+
+  it("toggles the control bar on tap and hides it after a delay", () => {
+    expect(bar().classList.contains("hidden")).toBe(true);
+
+    controls.handleTap();
+    expect(bar().classList.contains("hidden")).toBe(false);
+
+    vi.advanceTimersByTime(CONTROL_BAR_HIDE_DELAY);
+    expect(bar().classList.contains("hidden")).toBe(true);
+  });
+
+  it("toggles pause from the control bar", () => {
+    controls.showBar();
+    const pauseButton = root.querySelector("#control-pause") as HTMLElement;
+    expect(pauseButton.getAttribute("aria-label")).toBe("Pause");
+
+    pauseButton.click();
+
+    expect(actions.togglePause).toHaveBeenCalledTimes(1);
+    expect(pauseButton.getAttribute("aria-label")).toBe("Resume");
+  });
+
+  it("marks the photo as favorite until the photo changes", async () => {
+    const favoriteButton = root.querySelector(
+      "#control-favorite",
+    ) as HTMLElement;
+
+    favoriteButton.click();
+    await vi.waitFor(() =>
+      expect(favoriteButton.classList.contains("active")).toBe(true),
+    );
+    expect(actions.addToFavorites).toHaveBeenCalledWith(photo);
+
+    controls.setPhoto({ ...photo, id: 8 });
+    expect(favoriteButton.classList.contains("active")).toBe(false);
+  });
+
+  it("shows details and closes them on the next tap", () => {
+    controls.showDetails();
+    expect(details().classList.contains("hidden")).toBe(false);
+    expect(details().textContent).toContain("Lisbon, Portugal");
+
+    controls.handleTap();
+    expect(details().classList.contains("hidden")).toBe(true);
+    expect(bar().classList.contains("hidden")).toBe(true);
+  });
+
+  it("zooms within bounds and resets on photo change", () => {
+    controls.pinch(2);
+    controls.endPinch();
+    expect(controls.getZoom()).toBe(2);
+    expect(image.style.getPropertyValue("--zoom")).toBe("2");
+
+    // Scale is relative to the committed zoom
+    controls.pinch(10);
+    controls.endPinch();
+    expect(controls.getZoom()).toBe(MAX_ZOOM);
+
+    controls.setPhoto({ ...photo, id: 8 });
+    expect(controls.getZoom()).toBe(1);
+    expect(image.style.getPropertyValue("--zoom")).toBe("");
+  });
+
+  it("snaps back when a pinch ends barely zoomed", () => {
+    controls.pinch(1.02);
+    controls.endPinch();
+
+    expect(controls.getZoom()).toBe(1);
+    expect(image.classList.contains("zoomed")).toBe(false);
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Touch Controls
+ * On-screen control bar, photo details panel and pinch-to-zoom for touchscreen frames
+ */
+
+import { formatDateTaken } from "./overlay";
+import { MediaType, type PhotoDto } from "./types";
+
+/** Time (ms) the control bar stays visible without interaction. */
+export const CONTROL_BAR_HIDE_DELAY = 5000;
+
+/** Time (ms) the photo details panel stays visible. */
+export const DETAILS_HIDE_DELAY = 10000;
+
+/** Largest pinch-zoom factor. */
+export const MAX_ZOOM = 4;
+
+/**
+ * Slideshow operations triggered from the control bar.
+ */
+export interface TouchControlActions {
+  togglePause(): void;
+  isPaused(): boolean;
+  /** Resolves to true when the photo was added to favorites. */
+  addToFavorites(photo: PhotoDto): Promise<boolean>;
+}
+
+/**
+ * Builds the detail lines shown for a photo.
+ */
+export function describePhoto(photo: PhotoDto): string[] {
+  const lines: string[] = [];
+
+  const dateTaken = formatDateTaken(photo.dateTaken);
+  if (dateTaken) lines.push(dateTaken);
+  if (photo.location) lines.push(photo.location);
+  if (photo.width > 0 && photo.height > 0) {
+    lines.push(`${photo.width} × ${photo.height}`);
+  }
+  if (photo.mediaType === MediaType.Video && photo.duration) {
+    lines.push(`Video · ${Math.round(photo.duration)}s`);
+  }
+
+  return lines.length > 0 ? lines : ["No details available"];
+}
+
+/**
+ * Touch UI layered over the slideshow: a control bar toggled by tap,
+ * a details panel shown by long-press, and zoom on the current image.
+ */
+export class TouchControls {
+  private readonly image: HTMLElement;
+  private readonly actions: TouchControlActions;
+  private readonly bar: HTMLElement;
+  private readonly pauseButton: HTMLButtonElement;
+  private readonly favoriteButton: HTMLButtonElement;
+  private readonly details: HTMLElement;
+
+  private photo: PhotoDto | null = null;
+  private zoom = 1;
+  private pinchZoom = 1;
+  private barTimer: number | null = null;
+  private detailsTimer: number | null = null;
+
+  constructor(
+    root: HTMLElement,
+    image: HTMLElement,
+    actions: TouchControlActions,
+  ) {
+    this.image = image;
+    this.actions = actions;
+    root.innerHTML = "";
+
+    this.bar = document.createElement("div");
+    this.bar.className = "control-bar hidden";
+    // Keep taps on the bar from reaching the gesture recognizer
+    this.bar.addEventListener("touchstart", (e) => e.stopPropagation(), {
+      passive: true,
+    });
+
+    this.pauseButton = this.createButton("control-pause", () => {
+      this.actions.togglePause();
+      this.updatePauseButton();
+      this.scheduleBarHide();
+    });
+    const infoButton = this.createButton("control-info", () => {
+      this.hideBar();
+      this.showDetails();
+    });
+    infoButton.textContent = "ⓘ";
+    infoButton.setAttribute("aria-label", "Photo details");
+    this.favoriteButton = this.createButton("control-favorite", () => {
+      this.favoriteCurrentPhoto();
+    });
+    this.updateFavoriteButton(false);
+
+    this.details = document.createElement("div");
+    this.details.id = "photo-details";
+    this.details.className = "hidden";
+
+    root.append(this.bar, this.details);
+  }
+
+  /**
+   * Handles a tap on the slideshow: closes the details panel if open,
+   * otherwise toggles the control bar.
+   */
+  handleTap(): void {
+    if (!this.details.classList.contains("hidden")) {
+      this.hideDetails();
+    } else if (this.bar.classList.contains("hidden")) {
+      this.showBar();
+    } else {
+      this.hideBar();
+    }
+  }
+
+  /**
+   * Shows the control bar and starts its auto-hide countdown.
+   */
+  showBar(): void {
+    this.updatePauseButton();
+    this.bar.classList.remove("hidden");
+    this.scheduleBarHide();
+  }
+
+  /**
+   * Hides the control bar.
+   */
+  hideBar(): void {
+    this.clearBarTimer();
+    this.bar.classList.add("hidden");
+  }
+
+  /**
+   * Shows details of the current photo.
+   */
+  showDetails(): void {
+    if (!this.photo) return;
+
+    this.renderDetails(this.photo);
+    this.details.classList.remove("hidden");
+
+    this.clearDetailsTimer();
+    this.detailsTimer = window.setTimeout(() => {
+      this.detailsTimer = null;
+      this.hideDetails();
+    }, DETAILS_HIDE_DELAY);
+  }
+
+  /**
+   * Hides the photo details panel.
+   */
+  hideDetails(): void {
+    this.clearDetailsTimer();
+    this.details.classList.add("hidden");
+  }
+
+  /**
+   * Updates the photo the controls act on. Resets zoom and favorite state.
+   */
+  setPhoto(photo: PhotoDto | null): void {
+    this.photo = photo;
+    this.resetZoom();
+    this.updateFavoriteButton(false);
+
+    if (photo && !this.details.classList.contains("hidden")) {
+      this.renderDetails(photo);
+    }
+  }
+
+  /**
+   * Applies an in-progress pinch relative to the zoom at pinch start.
+   */
+  pinch(scale: number): void {
+    this.pinchZoom = Math.min(MAX_ZOOM, Math.max(1, this.zoom * scale));
+    this.image.style.setProperty("--zoom", String(this.pinchZoom));
+    this.image.classList.toggle("zoomed", this.pinchZoom > 1);
+  }
+
+  /**
+   * Commits the zoom reached by the last pinch.
+   */
+  endPinch(): void {
+    this.zoom = this.pinchZoom;
+    // Snap back when the pinch ends barely zoomed in
+    if (this.zoom <= 1.05) {
+      this.resetZoom();
+    }
+  }
+
+  /**
+   * Returns the image to its normal size.
+   */
+  resetZoom(): void {
+    this.zoom = 1;
+    this.pinchZoom = 1;
+    this.image.style.removeProperty("--zoom");
+    this.image.classList.remove("zoomed");
+  }
+
+  /**
+   * Current committed zoom factor.
+   */
+  getZoom(): number {
+    return this.zoom;
+  }
+
+  /**
+   * Stops the auto-hide timers.
+   */
+  destroy(): void {
+    this.clearBarTimer();
+    this.clearDetailsTimer();
+  }
+
+  private createButton(id: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.id = id;
+    button.type = "button";
+    button.className = "control-button";
+    button.addEventListener("click", onClick);
+    this.bar.appendChild(button);
+    return button;
+  }
+
+  private async favoriteCurrentPhoto(): Promise<void> {
+    this.scheduleBarHide();
+    const photo = this.photo;
+    if (!photo) return;
+
+    const added = await this.actions.addToFavorites(photo);
+    // Ignore the result if the slideshow moved on meanwhile
+    if (added && this.photo === photo) {
+      this.updateFavoriteButton(true);
+    }
+  }
+
+  private updatePauseButton(): void {
+    const paused = this.actions.isPaused();
+    this.pauseButton.textContent = paused ? "▶" : "⏸";
+    this.pauseButton.setAttribute("aria-label", paused ? "Resume" : "Pause");
+  }
+
+  private updateFavoriteButton(isFavorite: boolean): void {
+    this.favoriteButton.textContent = isFavorite ? "♥" : "♡";
+    this.favoriteButton.classList.toggle("active", isFavorite);
+    this.favoriteButton.setAttribute(
+      "aria-label",
+      isFavorite ? "Added to favorites" : "Add to favorites",
+    );
+  }
+
+  private renderDetails(photo: PhotoDto): void {
+    this.details.replaceChildren(
+      ...describePhoto(photo).map((line) => {
+        const row = document.createElement("div");
+        row.textContent = line;
+        return row;
+      }),
+    );
+  }
+
+  private scheduleBarHide(): void {
+    this.clearBarTimer();
+    this.barTimer = window.setTimeout(() => {
+      this.barTimer = null;
+      this.hideBar();
+    }, CONTROL_BAR_HIDE_DELAY);
+  }
+
+  private clearBarTimer(): void {
+    if (this.barTimer !== null) {
+      clearTimeout(this.barTimer);
+      this.barTimer = null;
+    }
+  }
+
+  private clearDetailsTimer(): void {
+    if (this.detailsTimer !== null) {
+      clearTimeout(this.detailsTimer);
+      this.detailsTimer = null;
+    }
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for device.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  getDeviceId,
+  getDeviceName,
+  DEVICE_ID_STORAGE_KEY,
+  DEVICE_NAME_STORAGE_KEY,
+} from "./device";
+
+vi.mock("./config", () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe("getDeviceId", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("generates an ID once and reuses it", () => {
+    const first = getDeviceId();
+
+    expect(first).not.toBe("");
+    expect(localStorage.getItem(DEVICE_ID_STORAGE_KEY)).toBe(first);
+    expect(getDeviceId()).toBe(first);
+  });
+
+  it("returns the stored ID", () => {
+    localStorage.setItem(DEVICE_ID_STORAGE_KEY, "frame-1");
+
+    expect(getDeviceId()).toBe("frame-1");
+  });
+
+  it("keeps a stable ID for the page when storage is unavailable", () => {
+    vi.spyOn(Storage.prototype, "getItem").mockImplementation(() => {
+      throw new Error("denied");
+    });
+
+    expect(getDeviceId()).toBe(getDeviceId());
+  });
+});
+
+describe("getDeviceName", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    window.history.replaceState(null, "", "/");
+  });
+
+  it("returns undefined when no name was given", () => {
+    expect(getDeviceName()).toBeUndefined();
+  });
+
+  it("remembers the name from the URL", () => {
+    window.history.replaceState(null, "", "/?name=Kitchen%20Frame");
+    expect(getDeviceName()).toBe("Kitchen Frame");
+
+    window.history.replaceState(null, "", "/");
+    expect(getDeviceName()).toBe("Kitchen Frame");
+    expect(localStorage.getItem(DEVICE_NAME_STORAGE_KEY)).toBe(
+      "Kitchen Frame",
+    );
+  });
+});
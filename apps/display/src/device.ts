@@ -0,0 +1,67 @@
+/**
+ * Device identity for the display frontend.
+ * Each frame keeps a stable ID in localStorage so the backend can
+ * assign it its own settings profile.
+ */
+
+import { logger } from "./config";
+
+/** localStorage key for the stable device ID. */
+export const DEVICE_ID_STORAGE_KEY = "librafoto.deviceId";
+
+/** localStorage key for the friendly name suggested via the `name` URL parameter. */
+export const DEVICE_NAME_STORAGE_KEY = "librafoto.deviceName";
+
+// Used when localStorage is unavailable so the ID is at least stable for this page load
+let fallbackDeviceId: string | null = null;
+
+/**
+ * Gets the stable device ID, generating and persisting one on first use.
+ */
+export function getDeviceId(): string {
+  try {
+    const stored = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+    if (stored) return stored;
+
+    const id = generateDeviceId();
+    localStorage.setItem(DEVICE_ID_STORAGE_KEY, id);
+    logger.info("Generated new device ID:", id);
+    return id;
+  } catch (error) {
+    logger.warn("localStorage unavailable, device ID will not persist:", error);
+    fallbackDeviceId ??= generateDeviceId();
+    return fallbackDeviceId;
+  }
+}
+
+/**
+ * Gets the friendly name suggested for this device.
+ * A `?name=` URL parameter (e.g. in the kiosk start URL) is remembered
+ * for later loads. Returns undefined to let the backend pick a default.
+ */
+export function getDeviceName(): string | undefined {
+  const fromUrl = new URLSearchParams(window.location.search)
+    .get("name")
+    ?.trim();
+
+  try {
+    if (fromUrl) {
+      localStorage.setItem(DEVICE_NAME_STORAGE_KEY, fromUrl);
+      return fromUrl;
+    }
+    return localStorage.getItem(DEVICE_NAME_STORAGE_KEY) ?? undefined;
+  } catch {
+    return fromUrl || undefined;
+  }
+}
+
+/**
+ * Generates a random device ID.
+ */
+function generateDeviceId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  // crypto.randomUUID requires a secure context; frames on plain HTTP fall back
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for gestures.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  GestureRecognizer,
+  LONG_PRESS_DELAY,
+  SWIPE_MIN_DISTANCE,
+  type GestureHandlers,
+} from "./gestures";
+
+type Point = [number, number];
+
+/**
+ * Dispatches a synthetic touch event. jsdom has no Touch constructor,
+ * so touch lists are plain arrays of coordinates.
+ */
+function touch(
+  target: EventTarget,
+  type: "touchstart" | "touchmove" | "touchend" | "touchcancel",
+  touches: Point[],
+  changedTouches: Point[] = touches,
+): void {
+  const toList = (points: Point[]) =>
+    points.map(([clientX, clientY]) => ({ clientX, clientY }));
+  const event = new Event(type, { bubbles: true });
+  Object.defineProperty(event, "touches", { value: toList(touches) });
+  Object.defineProperty(event, "changedTouches", {
+    value: toList(changedTouches),
+  });
+  target.dispatchEvent(event);
+}
+
+function createHandlers() {
+  return {
+    onSwipeLeft: vi.fn(),
+    onSwipeRight: vi.fn(),
+    onTap: vi.fn(),
+    onLongPress: vi.fn(),
+    onPinch: vi.fn(),
+    onPinchEnd: vi.fn(),
+  } satisfies Required<GestureHandlers>;
+}
+
+describe("GestureRecognizer", () => {
+  let target: HTMLElement;
+  let handlers: ReturnType<typeof createHandlers>;
+  let recognizer: GestureRecognizer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    target = document.createElement("div");
+    document.body.appendChild(target);
+    handlers = createHandlers();
+    recognizer = new GestureRecognizer(target, handlers);
+  });
+
+  afterEach(() => {
+    recognizer.destroy();
+    target.remove();
+    vi.useRealTimers();
+  });
+
+  it("recognizes a swipe left", () => {
+    touch(target, "touchstart", [[300, 200]]);
+    touch(target, "touchmove", [[200, 205]]);
+    touch(target, "touchend", [], [[300 - SWIPE_MIN_DISTANCE - 10, 210]]);
+
+    expect(handlers.onSwipeLeft).toHaveBeenCalledTimes(1);
+    expect(handlers.onSwipeRight).not.toHaveBeenCalled();
+    expect(handlers.onTap).not.toHaveBeenCalled();
+  });
+
+  it("recognizes a swipe right", () => {
+    touch(target, "touchstart", [[100, 200]]);
+    touch(target, "touchend", [], [[250, 190]]);
+
+    expect(handlers.onSwipeRight).toHaveBeenCalledTimes(1);
+    expect(handlers.onSwipeLeft).not.toHaveBeenCalled();
+  });
+
+  it("ignores short and mostly vertical movement", () => {
+    touch(target, "touchstart", [[100, 100]]);
+    touch(target, "touchend", [], [[130, 100]]);
+
+    touch(target, "touchstart", [[100, 100]]);
+    touch(target, "touchend", [], [[170, 300]]);
+
+    expect(handlers.onSwipeLeft).not.toHaveBeenCalled();
+    expect(handlers.onSwipeRight).not.toHaveBeenCalled();
+    expect(handlers.onTap).not.toHaveBeenCalled();
+  });
+
+  it("recognizes a tap", () => {
+    touch(target, "touchstart", [[100, 100]]);
+    touch(target, "touchend", [], [[103, 102]]);
+
+    expect(handlers.onTap).toHaveBeenCalledTimes(1);
+    expect(handlers.onLongPress).not.toHaveBeenCalled();
+  });
+
+  it("recognizes a long-press without also tapping", () => {
+    touch(target, "touchstart", [[100, 100]]);
+    vi.advanceTimersByTime(LONG_PRESS_DELAY);
+    touch(target, "touchend", [], [[100, 100]]);
+
+    expect(handlers.onLongPress).toHaveBeenCalledTimes(1);
+    expect(handlers.onTap).not.toHaveBeenCalled();
+  });
+
+  it("cancels the long-press when the finger moves", () => {
+    touch(target, "touchstart", [[100, 100]]);
+    touch(target, "touchmove", [[160, 100]]);
+    vi.advanceTimersByTime(LONG_PRESS_DELAY);
+
+    expect(handlers.onLongPress).not.toHaveBeenCalled();
+  });
+
+  it("reports pinch scale relative to the starting distance", () => {
+    touch(target, "touchstart", [
+      [100, 100],
+      [200, 100],
+    ]);
+    touch(target, "touchmove", [
+      [50, 100],
+      [250, 100],
+    ]);
+
+    expect(handlers.onPinch).toHaveBeenLastCalledWith(2);
+  });
+
+  it("ends a pinch without tapping when fingers lift one at a time", () => {
+    touch(target, "touchstart", [[100, 100]]);
+    touch(target, "touchstart", [
+      [100, 100],
+      [200, 100],
+    ]);
+    touch(target, "touchend", [[100, 100]], [[200, 100]]);
+    touch(target, "touchend", [], [[100, 100]]);
+    vi.advanceTimersByTime(LONG_PRESS_DELAY);
+
+    expect(handlers.onPinchEnd).toHaveBeenCalledTimes(1);
+    expect(handlers.onTap).not.toHaveBeenCalled();
+    expect(handlers.onLongPress).not.toHaveBeenCalled();
+  });
+
+  it("stops listening after destroy", () => {
+    recognizer.destroy();
+
+    touch(target, "touchstart", [[100, 100]]);
+    touch(target, "touchend", [], [[100, 100]]);
+
+    expect(handlers.onTap).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Touch gesture handling for the display frontend
+ */
+
+/** Minimum horizontal travel (px) for a touch to count as a swipe. */
+export const SWIPE_MIN_DISTANCE = 50;
+
+/** Maximum travel (px) for a touch to still count as a tap or long-press. */
+export const TAP_MAX_DISTANCE = 10;
+
+/** Hold time (ms) before a stationary touch becomes a long-press. */
+export const LONG_PRESS_DELAY = 600;
+
+/**
+ * Callbacks for recognized gestures. All are optional.
+ */
+export interface GestureHandlers {
+  /** Finger moved right-to-left. */
+  onSwipeLeft?: () => void;
+  /** Finger moved left-to-right. */
+  onSwipeRight?: () => void;
+  /** Short touch without movement. */
+  onTap?: () => void;
+  /** Touch held in place for LONG_PRESS_DELAY. */
+  onLongPress?: () => void;
+  /** Two-finger pinch; scale is relative to the finger distance at pinch start. */
+  onPinch?: (scale: number) => void;
+  /** Pinch finished (fewer than two fingers remain). */
+  onPinchEnd?: () => void;
+}
+
+interface TouchPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Distance between the first two touches of a touch list.
+ */
+function touchDistance(touches: TouchList): number {
+  const dx = touches[0].clientX - touches[1].clientX;
+  const dy = touches[0].clientY - touches[1].clientY;
+  return Math.hypot(dx, dy);
+}
+
+/**
+ * Recognizes swipe, tap, long-press and pinch gestures from touch events.
+ * A touch sequence that involves two fingers only ever produces pinch
+ * callbacks, so lifting one finger after a pinch never reads as a tap.
+ */
+export class GestureRecognizer {
+  private readonly target: HTMLElement | Document;
+  private readonly handlers: GestureHandlers;
+
+  private start: TouchPoint | null = null;
+  private longPressTimer: number | null = null;
+  private longPressFired = false;
+  private pinchStartDistance: number | null = null;
+  private multiTouch = false;
+
+  constructor(target: HTMLElement | Document, handlers: GestureHandlers) {
+    this.target = target;
+    this.handlers = handlers;
+
+    this.target.addEventListener("touchstart", this.handleTouchStart, {
+      passive: true,
+    });
+    this.target.addEventListener("touchmove", this.handleTouchMove, {
+      passive: true,
+    });
+    this.target.addEventListener("touchend", this.handleTouchEnd, {
+      passive: true,
+    });
+    this.target.addEventListener("touchcancel", this.handleTouchCancel, {
+      passive: true,
+    });
+  }
+
+  /**
+   * Removes the touch listeners and cancels any pending long-press.
+   */
+  destroy(): void {
+    this.target.removeEventListener("touchstart", this.handleTouchStart);
+    this.target.removeEventListener("touchmove", this.handleTouchMove);
+    this.target.removeEventListener("touchend", this.handleTouchEnd);
+    this.target.removeEventListener("touchcancel", this.handleTouchCancel);
+    this.reset();
+  }
+
+  private readonly handleTouchStart = (event: Event): void => {
+    const { touches } = event as TouchEvent;
+
+    if (touches.length >= 2) {
+      this.multiTouch = true;
+      this.start = null;
+      this.clearLongPress();
+      this.pinchStartDistance = touchDistance(touches);
+      return;
+    }
+
+    if (this.multiTouch) return;
+
+    this.start = { x: touches[0].clientX, y: touches[0].clientY };
+    this.longPressFired = false;
+    this.clearLongPress();
+    this.longPressTimer = window.setTimeout(() => {
+      this.longPressTimer = null;
+      this.longPressFired = true;
+      this.handlers.onLongPress?.();
+    }, LONG_PRESS_DELAY);
+  };
+
+  private readonly handleTouchMove = (event: Event): void => {
+    const { touches } = event as TouchEvent;
+
+    if (touches.length >= 2 && this.pinchStartDistance) {
+      this.handlers.onPinch?.(touchDistance(touches) / this.pinchStartDistance);
+      return;
+    }
+
+    if (!this.start || this.longPressTimer === null) return;
+
+    // Moving too far turns a potential long-press into a swipe
+    const dx = touches[0].clientX - this.start.x;
+    const dy = touches[0].clientY - this.start.y;
+    if (Math.hypot(dx, dy) > TAP_MAX_DISTANCE) {
+      this.clearLongPress();
+    }
+  };
+
+  private readonly handleTouchEnd = (event: Event): void => {
+    const { touches, changedTouches } = event as TouchEvent;
+
+    if (this.multiTouch) {
+      if (this.pinchStartDistance !== null && touches.length < 2) {
+        this.pinchStartDistance = null;
+        this.handlers.onPinchEnd?.();
+      }
+      if (touches.length === 0) {
+        this.multiTouch = false;
+      }
+      return;
+    }
+
+    this.clearLongPress();
+    if (!this.start || this.longPressFired) {
+      this.start = null;
+      return;
+    }
+
+    const dx = changedTouches[0].clientX - this.start.x;
+    const dy = changedTouches[0].clientY - this.start.y;
+    this.start = null;
+
+    if (Math.abs(dx) >= SWIPE_MIN_DISTANCE && Math.abs(dx) >= Math.abs(dy)) {
+      if (dx < 0) {
+        this.handlers.onSwipeLeft?.();
+      } else {
+        this.handlers.onSwipeRight?.();
+      }
+    } else if (Math.hypot(dx, dy) <= TAP_MAX_DISTANCE) {
+      this.handlers.onTap?.();
+    }
+  };
+
+  private readonly handleTouchCancel = (): void => {
+    if (this.pinchStartDistance !== null) {
+      this.handlers.onPinchEnd?.();
+    }
+    this.reset();
+  };
+
+  private reset(): void {
+    this.clearLongPress();
+    this.start = null;
+    this.longPressFired = false;
+    this.pinchStartDistance = null;
+    this.multiTouch = false;
+  }
+
+  private clearLongPress(): void {
+    if (this.longPressTimer !== null) {
+      clearTimeout(this.longPressTimer);
+      this.longPressTimer = null;
+    }
+  }
+}
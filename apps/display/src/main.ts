@@ -7,11 +7,20 @@ import { Slideshow } from "./slideshow";
 import { ApiClient } from "./api-client";
 import { logger, getConfig } from "./config";
 import { handleEscapeKey } from "./keyboard";
+import { GestureRecognizer } from "./gestures";
+import { TouchControls } from "./controls";
+import { handleRemoteCommand } from "./remote";
+import { Telemetry } from "./telemetry";
 import "./styles.css";
 
 // Application instance references
 let slideshow: Slideshow | null = null;
 let apiClient: ApiClient | null = null;
+let touchControls: TouchControls | null = null;
+let gestures: GestureRecognizer | null = null;
+
+// Created up front so errors during startup are reported too
+const telemetry = new Telemetry();
 
 /**
  * Registers the service worker for offline support.
@@ -19,9 +28,12 @@ let apiClient: ApiClient | null = null;
 async function registerServiceWorker(): Promise<void> {
   if ("serviceWorker" in navigator) {
     try {
-      const registration = await navigator.serviceWorker.register("/sw.js", {
-        scope: "/",
-      });
+      // The worker reads its media cache budget from the script URL
+      const { mediaCacheMb } = getConfig();
+      const registration = await navigator.serviceWorker.register(
+        `/sw.js?cacheMb=${mediaCacheMb}`,
+        { scope: "/" },
+      );
 
       logger.info("Service Worker registered:", registration.scope);
 
@@ -63,15 +75,44 @@ async function initializeApp(): Promise<void> {
     apiClient = new ApiClient();
     slideshow = new Slideshow(apiClient);
 
+    // Report display health to the backend, including a failed start
+    const startedSlideshow = slideshow;
+    telemetry.start(
+      apiClient,
+      () => startedSlideshow.getCurrentPhoto()?.id ?? null,
+    );
+
+    // Let the admin remote drive the slideshow
+    apiClient.onRemoteCommand((event) => {
+      if (slideshow) {
+        handleRemoteCommand(slideshow, event);
+      }
+    });
+
+    // Touch controls for touchscreen frames
+    setupTouchControls(slideshow, apiClient);
+
     // Start the slideshow
     await slideshow.start();
 
+    // The slideshow shows start-up failures on screen rather than throwing
+    const startError = slideshow.getError();
+    if (startError) {
+      telemetry.recordError(startError, "startup");
+      void telemetry.sendHeartbeat();
+    }
+
     // Hide cursor after a period of inactivity
     setupCursorHiding();
 
     logger.info("LibraFoto Display initialized successfully");
   } catch (error) {
     logger.error("Failed to initialize LibraFoto Display:", error);
+    telemetry.recordError(
+      `Failed to start: ${error instanceof Error ? error.message : String(error)}`,
+      "startup",
+    );
+    void telemetry.sendHeartbeat();
     showFatalError(
       "Failed to start the slideshow. Please check your connection and refresh the page.",
     );
@@ -123,6 +164,45 @@ function setupCursorHiding(): void {
   }, CURSOR_HIDE_DELAY);
 }
 
+/**
+ * Sets up the on-screen touch controls and gesture handling.
+ * Swipes navigate, tap toggles the control bar, long-press shows
+ * photo details and pinch zooms the current image.
+ */
+function setupTouchControls(show: Slideshow, client: ApiClient): void {
+  const root = document.getElementById("touch-controls");
+  const image = document.getElementById("current-slide");
+  if (!root || !image) return;
+
+  // Replace listeners from a previous initialization (bfcache restore)
+  gestures?.destroy();
+  touchControls?.destroy();
+
+  const controls = new TouchControls(root, image, {
+    togglePause: () => (show.isPaused() ? show.resume() : show.pause()),
+    isPaused: () => show.isPaused(),
+    addToFavorites: async (photo) =>
+      (await client.addToFavorites(photo.id)).success,
+  });
+  show.onPhotoChange((photo) => controls.setPhoto(photo));
+
+  gestures = new GestureRecognizer(document, {
+    onSwipeLeft: () => {
+      show.next();
+      logger.debug("Next photo via swipe");
+    },
+    onSwipeRight: () => {
+      show.showPreviousSlide();
+      logger.debug("Previous photo via swipe");
+    },
+    onTap: () => controls.handleTap(),
+    onLongPress: () => controls.showDetails(),
+    onPinch: (scale) => controls.pinch(scale),
+    onPinchEnd: () => controls.endPinch(),
+  });
+  touchControls = controls;
+}
+
 /**
  * Handles visibility changes (pause when tab is hidden).
  */
@@ -168,6 +248,18 @@ function handleKeydown(event: KeyboardEvent): void {
       }
       break;
 
+    case "ArrowRight":
+      event.preventDefault();
+      slideshow.next();
+      logger.debug("Next photo via keyboard");
+      break;
+
+    case "ArrowLeft":
+      event.preventDefault();
+      slideshow.showPreviousSlide();
+      logger.debug("Previous photo via keyboard");
+      break;
+
     case "F11":
       // Enter fullscreen (browser handles this, but log it)
       logger.debug("Fullscreen toggle requested");
@@ -185,6 +277,10 @@ function handleKeydown(event: KeyboardEvent): void {
  */
 function handleError(event: ErrorEvent): void {
   logger.error("Runtime error:", event.error);
+  const source = event.filename
+    ? `${event.filename}:${event.lineno}:${event.colno}`
+    : "error";
+  telemetry.recordError(event.message || String(event.error), source);
 }
 
 /**
@@ -192,6 +288,11 @@ function handleError(event: ErrorEvent): void {
  */
 function handleUnhandledRejection(event: PromiseRejectionEvent): void {
   logger.error("Unhandled promise rejection:", event.reason);
+  const reason = event.reason;
+  telemetry.recordError(
+    reason instanceof Error ? reason.message : String(reason),
+    "unhandledrejection",
+  );
 }
 
 // ============================================================================
@@ -209,6 +310,7 @@ window.addEventListener("pageshow", (event) => {
     logger.debug("Page restored from bfcache, reinitializing...");
     // Stop existing slideshow if running
     slideshow?.stop();
+    telemetry.stop();
     // Reinitialize the app
     initializeApp();
   }
@@ -230,5 +332,6 @@ window.addEventListener("unhandledrejection", handleUnhandledRejection);
 // Cleanup on page unload
 window.addEventListener("beforeunload", () => {
   slideshow?.stop();
+  telemetry.stop();
   logger.debug("App cleanup completed");
 });
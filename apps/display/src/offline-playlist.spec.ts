@@ -0,0 +1,169 @@
+/**
+ * Unit tests for offline-playlist.ts
+ */
+
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import {
+  IndexedDbSnapshotStore,
+  MemorySnapshotStore,
+  OFFLINE_DB_NAME,
+  OfflinePlaylist,
+  createSnapshotStore,
+  type SnapshotStore,
+} from "./offline-playlist";
+import { MediaType, type DisplaySettingsDto, type PhotoDto } from "./types";
+
+vi.mock("./config", () => ({
+  getConfig: vi.fn(() => ({ offlinePlaylistSize: 200 })),
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function photo(id: number): PhotoDto {
+  return {
+    id,
+    url: `/photos/${id}.jpg`,
+    mediaType: MediaType.Photo,
+    width: 100,
+    height: 100,
+  };
+}
+
+describe("OfflinePlaylist", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should cycle through the remembered photos", async () => {
+    const playlist = new OfflinePlaylist(new MemorySnapshotStore(), 10);
+    await playlist.addPhotos([photo(1), photo(2), photo(3)]);
+
+    expect((await playlist.nextPhotos(2)).map((p) => p.id)).toEqual([1, 2]);
+    expect((await playlist.nextPhotos(2)).map((p) => p.id)).toEqual([3, 1]);
+    expect((await playlist.nextPhotos(5)).map((p) => p.id)).toEqual([2, 3, 1]);
+  });
+
+  it("should return nothing before any photos are remembered", async () => {
+    const playlist = new OfflinePlaylist(new MemorySnapshotStore(), 10);
+
+    expect(await playlist.nextPhotos(3)).toEqual([]);
+    expect(await playlist.getSettings()).toBeNull();
+  });
+
+  it("should drop the oldest photos once full", async () => {
+    const playlist = new OfflinePlaylist(new MemorySnapshotStore(), 3);
+    await playlist.addPhotos([photo(1), photo(2), photo(3)]);
+
+    // Seeing a photo again makes it the newest
+    await playlist.addPhotos([photo(1), photo(4)]);
+
+    expect((await playlist.nextPhotos(3)).map((p) => p.id)).toEqual([3, 1, 4]);
+  });
+
+  it("should restore the snapshot saved by an earlier page load", async () => {
+    const store = new MemorySnapshotStore();
+    const settings = { id: 2, name: "Kitchen" } as DisplaySettingsDto;
+    const earlier = new OfflinePlaylist(store, 10);
+    await earlier.addPhotos([photo(5), photo(6)]);
+    await earlier.saveSettings(settings);
+
+    const playlist = new OfflinePlaylist(store, 10);
+
+    expect((await playlist.nextPhotos(2)).map((p) => p.id)).toEqual([5, 6]);
+    expect(await playlist.getSettings()).toEqual(settings);
+  });
+
+  it("should keep working in memory when the store fails", async () => {
+    const store: SnapshotStore = {
+      load: vi.fn(() => Promise.reject(new Error("blocked"))),
+      save: vi.fn(() => Promise.reject(new Error("quota exceeded"))),
+    };
+    const playlist = new OfflinePlaylist(store, 10);
+
+    await playlist.addPhotos([photo(1)]);
+
+    expect(store.save).toHaveBeenCalled();
+    expect((await playlist.nextPhotos(1)).map((p) => p.id)).toEqual([1]);
+  });
+
+  it("should fall back to memory when IndexedDB is unavailable", () => {
+    expect(createSnapshotStore()).toBeInstanceOf(MemorySnapshotStore);
+  });
+});
+
+describe("IndexedDbSnapshotStore", () => {
+  let factory: IDBFactory;
+
+  const snapshot = {
+    photos: [photo(1), photo(2)],
+    settings: { id: 3, name: "Kitchen" } as DisplaySettingsDto,
+  };
+
+  beforeEach(() => {
+    // A fresh database for every test
+    factory = new IDBFactory();
+    vi.stubGlobal("indexedDB", factory);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("should load nothing before a snapshot is saved", async () => {
+    const store = new IndexedDbSnapshotStore();
+
+    expect(await store.load()).toBeNull();
+  });
+
+  it("should keep the snapshot across page loads", async () => {
+    await new IndexedDbSnapshotStore().save(snapshot);
+
+    // A new store stands in for the page after a reload or reboot
+    const reloaded = new IndexedDbSnapshotStore();
+
+    expect(await reloaded.load()).toEqual(snapshot);
+  });
+
+  it("should replace the previous snapshot when saving", async () => {
+    const store = new IndexedDbSnapshotStore();
+    await store.save(snapshot);
+
+    await store.save({ photos: [photo(4)], settings: null });
+
+    expect(await store.load()).toEqual({ photos: [photo(4)], settings: null });
+  });
+
+  it("should create the database once and reuse the connection", async () => {
+    const open = vi.spyOn(factory, "open");
+    const store = new IndexedDbSnapshotStore();
+
+    await store.save(snapshot);
+    await store.load();
+
+    expect(open).toHaveBeenCalledTimes(1);
+    expect(open).toHaveBeenCalledWith(OFFLINE_DB_NAME, 1);
+  });
+
+  it("should open the database again after a failed open", async () => {
+    const open = vi.spyOn(factory, "open").mockImplementationOnce(() => {
+      throw new DOMException("Database blocked", "UnknownError");
+    });
+    const store = new IndexedDbSnapshotStore();
+
+    await expect(store.load()).rejects.toThrow("Database blocked");
+    await store.save(snapshot);
+
+    expect(await store.load()).toEqual(snapshot);
+    expect(open).toHaveBeenCalledTimes(2);
+  });
+
+  it("should be used when IndexedDB is available", () => {
+    expect(createSnapshotStore()).toBeInstanceOf(IndexedDbSnapshotStore);
+  });
+});
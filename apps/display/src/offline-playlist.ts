@@ -0,0 +1,190 @@
+/**
+ * Offline playlist for the display frontend.
+ * Remembers recently fetched photos and the last loaded settings in
+ * IndexedDB so the frame can keep cycling through cached media while the
+ * API is unreachable.
+ */
+
+import { getConfig, logger } from "./config";
+import type { DisplaySettingsDto, PhotoDto } from "./types";
+
+/** IndexedDB database holding the playlist snapshot. */
+export const OFFLINE_DB_NAME = "librafoto-display";
+
+const OFFLINE_STORE_NAME = "snapshot";
+const SNAPSHOT_KEY = "playlist";
+
+/**
+ * Persisted state of the offline playlist.
+ */
+export interface PlaylistSnapshot {
+  /** Recently fetched photos, oldest first */
+  photos: PhotoDto[];
+  /** Settings from the last successful load */
+  settings: DisplaySettingsDto | null;
+}
+
+/**
+ * Storage backend for the playlist snapshot.
+ */
+export interface SnapshotStore {
+  load(): Promise<PlaylistSnapshot | null>;
+  save(snapshot: PlaylistSnapshot): Promise<void>;
+}
+
+/**
+ * Keeps the snapshot in IndexedDB so it survives reloads and reboots.
+ */
+export class IndexedDbSnapshotStore implements SnapshotStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  async load(): Promise<PlaylistSnapshot | null> {
+    const db = await this.open();
+    const request = db
+      .transaction(OFFLINE_STORE_NAME)
+      .objectStore(OFFLINE_STORE_NAME)
+      .get(SNAPSHOT_KEY);
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () =>
+        resolve((request.result as PlaylistSnapshot | undefined) ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async save(snapshot: PlaylistSnapshot): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(OFFLINE_STORE_NAME, "readwrite");
+    transaction.objectStore(OFFLINE_STORE_NAME).put(snapshot, SNAPSHOT_KEY);
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(OFFLINE_DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(OFFLINE_STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      // Allow a later call to try again
+      this.db = null;
+      throw error;
+    });
+    return this.db;
+  }
+}
+
+/**
+ * Keeps the snapshot for this page load only, where IndexedDB is unavailable.
+ */
+export class MemorySnapshotStore implements SnapshotStore {
+  private snapshot: PlaylistSnapshot | null = null;
+
+  async load(): Promise<PlaylistSnapshot | null> {
+    return this.snapshot;
+  }
+
+  async save(snapshot: PlaylistSnapshot): Promise<void> {
+    this.snapshot = snapshot;
+  }
+}
+
+/**
+ * Creates the best available snapshot store for this browser.
+ */
+export function createSnapshotStore(): SnapshotStore {
+  if (typeof indexedDB === "undefined") {
+    logger.warn("IndexedDB unavailable, offline playlist will not persist");
+    return new MemorySnapshotStore();
+  }
+  return new IndexedDbSnapshotStore();
+}
+
+/**
+ * Playlist the slideshow falls back to while the API is unreachable.
+ * Photos are only added after their image has loaded, so the service
+ * worker has them in its media cache.
+ */
+export class OfflinePlaylist {
+  private snapshot: Promise<PlaylistSnapshot> | null = null;
+  private cursor = 0;
+
+  constructor(
+    private readonly store: SnapshotStore = createSnapshotStore(),
+    private readonly maxPhotos = getConfig().offlinePlaylistSize,
+  ) {}
+
+  /**
+   * Remembers freshly fetched photos, dropping the oldest once full.
+   */
+  async addPhotos(photos: PhotoDto[]): Promise<void> {
+    if (photos.length === 0) return;
+
+    const snapshot = await this.load();
+    const ids = new Set(photos.map((photo) => photo.id));
+    snapshot.photos = [
+      ...snapshot.photos.filter((photo) => !ids.has(photo.id)),
+      ...photos,
+    ].slice(-this.maxPhotos);
+    await this.persist(snapshot);
+  }
+
+  /**
+   * Gets the next photos to show, cycling through the whole playlist.
+   */
+  async nextPhotos(count: number): Promise<PhotoDto[]> {
+    const { photos } = await this.load();
+    const taken = Math.min(count, photos.length);
+    const result: PhotoDto[] = [];
+
+    for (let i = 0; i < taken; i++) {
+      result.push(photos[(this.cursor + i) % photos.length]);
+    }
+    if (photos.length > 0) {
+      this.cursor = (this.cursor + taken) % photos.length;
+    }
+    return result;
+  }
+
+  /**
+   * Remembers the settings from the last successful load.
+   */
+  async saveSettings(settings: DisplaySettingsDto): Promise<void> {
+    const snapshot = await this.load();
+    snapshot.settings = settings;
+    await this.persist(snapshot);
+  }
+
+  /**
+   * Gets the settings from the last successful load, if any.
+   */
+  async getSettings(): Promise<DisplaySettingsDto | null> {
+    return (await this.load()).settings;
+  }
+
+  private load(): Promise<PlaylistSnapshot> {
+    this.snapshot ??= this.store
+      .load()
+      .catch((error) => {
+        logger.warn("Failed to read offline playlist:", error);
+        return null;
+      })
+      .then((snapshot) => snapshot ?? { photos: [], settings: null });
+    return this.snapshot;
+  }
+
+  private async persist(snapshot: PlaylistSnapshot): Promise<void> {
+    try {
+      await this.store.save(snapshot);
+    } catch (error) {
+      logger.warn("Failed to save offline playlist:", error);
+    }
+  }
+}
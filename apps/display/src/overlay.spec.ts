@@ -0,0 +1,209 @@
+/**
+ * Unit tests for overlay.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  InfoOverlay,
+  formatDateTaken,
+  formatMemory,
+  formatYearsAgo,
+  type OverlaySettings,
+} from "./overlay";
+import {
+  MediaType,
+  OverlayPosition,
+  OverlaySize,
+  SourceType,
+  type PhotoDto,
+} from "./types";
+
+const baseSettings: OverlaySettings = {
+  showClock: false,
+  clockPosition: OverlayPosition.TopRight,
+  showDateTaken: false,
+  dateTakenPosition: OverlayPosition.BottomLeft,
+  showLocation: false,
+  locationPosition: OverlayPosition.BottomLeft,
+  overlaySize: OverlaySize.Medium,
+  overlayOpacity: 80,
+  sourceType: SourceType.All,
+};
+
+const photo: PhotoDto = {
+  id: 1,
+  url: "/media/photos/1",
+  dateTaken: "2019-06-03T12:00:00Z",
+  location: "Lisbon, Portugal",
+  mediaType: MediaType.Photo,
+  width: 1920,
+  height: 1080,
+};
+
+describe("formatYearsAgo", () => {
+  const now = new Date(2024, 5, 10);
+
+  it("returns null for dates less than a year ago", () => {
+    expect(formatYearsAgo(new Date(2023, 6, 1), now)).toBeNull();
+  });
+
+  it("uses singular phrasing for exactly one year", () => {
+    expect(formatYearsAgo(new Date(2023, 5, 10), now)).toBe("1 year ago");
+  });
+
+  it("counts only completed years", () => {
+    expect(formatYearsAgo(new Date(2019, 5, 11), now)).toBe("4 years ago");
+    expect(formatYearsAgo(new Date(2019, 5, 10), now)).toBe("5 years ago");
+  });
+});
+
+describe("formatDateTaken", () => {
+  it("returns null for missing or invalid dates", () => {
+    expect(formatDateTaken(undefined)).toBeNull();
+    expect(formatDateTaken("not-a-date")).toBeNull();
+  });
+
+  it("appends years-ago phrasing", () => {
+    const text = formatDateTaken("2019-06-03T12:00:00Z", new Date(2024, 5, 10));
+    expect(text).toContain("2019");
+    expect(text).toContain("5 years ago");
+  });
+});
+
+describe("formatMemory", () => {
+  const now = new Date(2024, 5, 10, 9, 30);
+
+  it("describes photos from this day in earlier years", () => {
+    expect(formatMemory("2021-06-10T18:00:00", now)).toBe("3 years ago today");
+    expect(formatMemory("2023-06-10T08:00:00", now)).toBe("1 year ago today");
+  });
+
+  it("describes photos from this week in earlier years", () => {
+    expect(formatMemory("2019-06-13T12:00:00", now)).toBe(
+      "5 years ago this week",
+    );
+    expect(formatMemory("2019-06-07T12:00:00", now)).toBe(
+      "5 years ago this week",
+    );
+  });
+
+  it("counts the week across new year", () => {
+    expect(
+      formatMemory("2020-12-30T12:00:00", new Date(2024, 0, 2, 9, 0)),
+    ).toBe("3 years ago this week");
+  });
+
+  it("returns null for other dates and for this year", () => {
+    expect(formatMemory("2019-06-20T12:00:00", now)).toBeNull();
+    expect(formatMemory("2024-06-10T07:00:00", now)).toBeNull();
+    expect(formatMemory(undefined, now)).toBeNull();
+    expect(formatMemory("not-a-date", now)).toBeNull();
+  });
+});
+
+describe("InfoOverlay", () => {
+  let root: HTMLElement;
+  let overlay: InfoOverlay;
+
+  beforeEach(() => {
+    root = document.createElement("div");
+    document.body.appendChild(root);
+    overlay = new InfoOverlay(root);
+  });
+
+  afterEach(() => {
+    overlay.destroy();
+    root.remove();
+    vi.useRealTimers();
+  });
+
+  it("hides every element by default", () => {
+    overlay.applySettings(baseSettings);
+    overlay.setPhoto(photo);
+
+    expect(root.querySelectorAll(".overlay-item:not(.hidden)")).toHaveLength(0);
+  });
+
+  it("places enabled elements in their configured corners", () => {
+    overlay.applySettings({
+      ...baseSettings,
+      showDateTaken: true,
+      showLocation: true,
+      locationPosition: OverlayPosition.TopLeft,
+    });
+    overlay.setPhoto(photo);
+
+    const date = root.querySelector("#overlay-date") as HTMLElement;
+    const location = root.querySelector("#overlay-location") as HTMLElement;
+
+    expect(date.classList.contains("hidden")).toBe(false);
+    expect(date.parentElement?.classList.contains("bottom-left")).toBe(true);
+    expect(location.textContent).toBe("Lisbon, Portugal");
+    expect(location.parentElement?.classList.contains("top-left")).toBe(true);
+  });
+
+  it("hides photo details that are not available", () => {
+    overlay.applySettings({
+      ...baseSettings,
+      showDateTaken: true,
+      showLocation: true,
+    });
+    overlay.setPhoto({ ...photo, dateTaken: undefined, location: undefined });
+
+    expect(
+      root.querySelector("#overlay-date")?.classList.contains("hidden"),
+    ).toBe(true);
+    expect(
+      root.querySelector("#overlay-location")?.classList.contains("hidden"),
+    ).toBe(true);
+  });
+
+  it("shows the memories banner only for the memories source", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 5, 10, 9, 15));
+    const memory = { ...photo, dateTaken: "2021-06-10T12:00:00" };
+    const banner = () => root.querySelector("#overlay-memory") as HTMLElement;
+
+    overlay.applySettings(baseSettings);
+    overlay.setPhoto(memory);
+    expect(banner().classList.contains("hidden")).toBe(true);
+
+    overlay.applySettings({ ...baseSettings, sourceType: SourceType.Memories });
+    expect(banner().classList.contains("hidden")).toBe(false);
+    expect(banner().textContent).toBe("3 years ago today");
+    expect(banner().parentElement).toBe(root);
+  });
+
+  it("applies size and opacity", () => {
+    overlay.applySettings({
+      ...baseSettings,
+      overlaySize: OverlaySize.Large,
+      overlayOpacity: 50,
+    });
+
+    expect(root.classList.contains("overlay-large")).toBe(true);
+    expect(root.style.opacity).toBe("0.5");
+
+    overlay.applySettings({ ...baseSettings, overlaySize: OverlaySize.Small });
+    expect(root.classList.contains("overlay-large")).toBe(false);
+    expect(root.classList.contains("overlay-small")).toBe(true);
+  });
+
+  it("ticks the clock while enabled and stops when disabled", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 5, 10, 9, 15));
+
+    overlay.applySettings({ ...baseSettings, showClock: true });
+    const clock = root.querySelector("#overlay-time") as HTMLElement;
+    const first = clock.textContent;
+    expect(clock.classList.contains("hidden")).toBe(false);
+
+    vi.setSystemTime(new Date(2024, 5, 10, 9, 16));
+    vi.advanceTimersByTime(1000);
+    expect(clock.textContent).not.toBe(first);
+
+    overlay.applySettings(baseSettings);
+    expect(clock.classList.contains("hidden")).toBe(true);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
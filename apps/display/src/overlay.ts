@@ -0,0 +1,296 @@
+/**
+ * Info Overlay
+ * Renders the clock, photo taken-date and location on top of the slideshow
+ */
+
+import {
+  type DisplaySettingsDto,
+  type PhotoDto,
+  OverlayPosition,
+  OverlaySize,
+  SourceType,
+} from "./types";
+
+/** Interval between clock refreshes in milliseconds. */
+const CLOCK_REFRESH_INTERVAL = 1000;
+
+/** Days either side of an anniversary that still count as "this week". */
+const MEMORY_WEEK_RADIUS = 3;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** CSS class for each overlay corner, indexed by OverlayPosition. */
+const CORNER_CLASSES: Record<OverlayPosition, string> = {
+  [OverlayPosition.TopLeft]: "top-left",
+  [OverlayPosition.TopRight]: "top-right",
+  [OverlayPosition.BottomLeft]: "bottom-left",
+  [OverlayPosition.BottomRight]: "bottom-right",
+};
+
+/** CSS class for each overlay text size. */
+const SIZE_CLASSES: Record<OverlaySize, string> = {
+  [OverlaySize.Small]: "overlay-small",
+  [OverlaySize.Medium]: "overlay-medium",
+  [OverlaySize.Large]: "overlay-large",
+};
+
+/**
+ * Overlay settings subset of the display settings.
+ */
+export type OverlaySettings = Pick<
+  DisplaySettingsDto,
+  | "showClock"
+  | "clockPosition"
+  | "showDateTaken"
+  | "dateTakenPosition"
+  | "showLocation"
+  | "locationPosition"
+  | "overlaySize"
+  | "overlayOpacity"
+  | "sourceType"
+>;
+
+/**
+ * Returns "N years ago" phrasing for a past date, or null when the date is
+ * less than a year old (or in the future).
+ * @param date The date to describe
+ * @param now Reference date (defaults to the current time)
+ */
+export function formatYearsAgo(date: Date, now: Date = new Date()): string | null {
+  let years = now.getFullYear() - date.getFullYear();
+  const beforeAnniversary =
+    now.getMonth() < date.getMonth() ||
+    (now.getMonth() === date.getMonth() && now.getDate() < date.getDate());
+  if (beforeAnniversary) {
+    years--;
+  }
+
+  if (years < 1) {
+    return null;
+  }
+  return years === 1 ? "1 year ago" : `${years} years ago`;
+}
+
+/**
+ * Formats a photo's taken date for display, e.g. "June 3, 2019 · 5 years ago".
+ * @param dateTaken ISO 8601 date string
+ * @param now Reference date (defaults to the current time)
+ * @returns The formatted text, or null if the date is missing or invalid
+ */
+export function formatDateTaken(
+  dateTaken: string | undefined,
+  now: Date = new Date(),
+): string | null {
+  if (!dateTaken) return null;
+
+  const date = new Date(dateTaken);
+  if (Number.isNaN(date.getTime())) return null;
+
+  const formatted = date.toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+  const yearsAgo = formatYearsAgo(date, now);
+  return yearsAgo ? `${formatted} · ${yearsAgo}` : formatted;
+}
+
+/**
+ * Describes a photo as a memory, e.g. "3 years ago today" or "5 years ago this
+ * week", matching how the server picks photos for the memories source.
+ * @param dateTaken ISO 8601 date string
+ * @param now Reference date (defaults to the current time)
+ * @returns The banner text, or null when the photo is not from this day or
+ * week in an earlier year
+ */
+export function formatMemory(
+  dateTaken: string | undefined,
+  now: Date = new Date(),
+): string | null {
+  if (!dateTaken) return null;
+
+  const date = new Date(dateTaken);
+  if (Number.isNaN(date.getTime())) return null;
+
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  // Check neighbouring years too, so late December counts in early January
+  for (const year of [
+    today.getFullYear(),
+    today.getFullYear() - 1,
+    today.getFullYear() + 1,
+  ]) {
+    const anniversary = new Date(year, date.getMonth(), date.getDate());
+    const days = Math.round(
+      Math.abs(anniversary.getTime() - today.getTime()) / MS_PER_DAY,
+    );
+    const years = year - date.getFullYear();
+    if (days > MEMORY_WEEK_RADIUS || years < 1) continue;
+
+    const yearsText = years === 1 ? "1 year ago" : `${years} years ago`;
+    return days === 0 ? `${yearsText} today` : `${yearsText} this week`;
+  }
+
+  return null;
+}
+
+/**
+ * Overlay layer showing the clock and details of the current photo.
+ * Each element can be toggled and placed in any screen corner.
+ */
+export class InfoOverlay {
+  private readonly root: HTMLElement;
+  private readonly corners = new Map<OverlayPosition, HTMLElement>();
+  private readonly clockElement: HTMLElement;
+  private readonly dateElement: HTMLElement;
+  private readonly locationElement: HTMLElement;
+  private readonly memoryElement: HTMLElement;
+
+  private settings: OverlaySettings | null = null;
+  private photo: PhotoDto | null = null;
+  private clockTimer: number | null = null;
+
+  constructor(root: HTMLElement) {
+    this.root = root;
+    this.root.innerHTML = "";
+
+    for (const position of Object.keys(CORNER_CLASSES).map(Number)) {
+      const corner = document.createElement("div");
+      corner.className = `overlay-corner ${CORNER_CLASSES[position as OverlayPosition]}`;
+      this.root.appendChild(corner);
+      this.corners.set(position as OverlayPosition, corner);
+    }
+
+    this.clockElement = this.createItem("overlay-time");
+    this.dateElement = this.createItem("overlay-date");
+    this.locationElement = this.createItem("overlay-location");
+
+    // The memories banner sits centred at the top rather than in a corner
+    this.memoryElement = this.createItem("overlay-memory");
+    this.root.appendChild(this.memoryElement);
+  }
+
+  /**
+   * Applies overlay settings, re-positioning and toggling elements.
+   */
+  applySettings(settings: OverlaySettings): void {
+    this.settings = settings;
+
+    this.placeItem(this.clockElement, settings.clockPosition);
+    this.placeItem(this.dateElement, settings.dateTakenPosition);
+    this.placeItem(this.locationElement, settings.locationPosition);
+
+    for (const sizeClass of Object.values(SIZE_CLASSES)) {
+      this.root.classList.remove(sizeClass);
+    }
+    this.root.classList.add(
+      SIZE_CLASSES[settings.overlaySize] ?? SIZE_CLASSES[OverlaySize.Medium],
+    );
+    this.root.style.opacity = String(
+      Math.min(100, Math.max(0, settings.overlayOpacity)) / 100,
+    );
+
+    if (settings.showClock) {
+      this.startClock();
+    } else {
+      this.stopClock();
+    }
+
+    this.render();
+  }
+
+  /**
+   * Updates the photo details shown in the overlay.
+   */
+  setPhoto(photo: PhotoDto | null): void {
+    this.photo = photo;
+    this.render();
+  }
+
+  /**
+   * Stops the clock and detaches timers.
+   */
+  destroy(): void {
+    this.stopClock();
+  }
+
+  private createItem(id: string): HTMLElement {
+    const item = document.createElement("div");
+    item.id = id;
+    item.className = "overlay-item hidden";
+    return item;
+  }
+
+  private placeItem(item: HTMLElement, position: OverlayPosition): void {
+    const corner =
+      this.corners.get(position) ??
+      this.corners.get(OverlayPosition.BottomLeft)!;
+    if (item.parentElement !== corner) {
+      corner.appendChild(item);
+    }
+  }
+
+  private startClock(): void {
+    if (this.clockTimer !== null) return;
+    this.clockTimer = window.setInterval(
+      () => this.renderClock(),
+      CLOCK_REFRESH_INTERVAL,
+    );
+  }
+
+  private stopClock(): void {
+    if (this.clockTimer !== null) {
+      clearInterval(this.clockTimer);
+      this.clockTimer = null;
+    }
+  }
+
+  private render(): void {
+    this.renderClock();
+
+    const dateText = this.settings?.showDateTaken
+      ? formatDateTaken(this.photo?.dateTaken)
+      : null;
+    this.setItemText(this.dateElement, dateText);
+
+    const locationText = this.settings?.showLocation
+      ? (this.photo?.location ?? null)
+      : null;
+    this.setItemText(this.locationElement, locationText);
+
+    const memoryText =
+      this.settings?.sourceType === SourceType.Memories
+        ? formatMemory(this.photo?.dateTaken)
+        : null;
+    this.setItemText(this.memoryElement, memoryText);
+  }
+
+  private renderClock(): void {
+    if (!this.settings?.showClock) {
+      this.setItemText(this.clockElement, null);
+      return;
+    }
+
+    const now = new Date();
+    const time = now.toLocaleTimeString(undefined, {
+      hour: "numeric",
+      minute: "2-digit",
+    });
+    const date = now.toLocaleDateString(undefined, {
+      weekday: "long",
+      month: "long",
+      day: "numeric",
+    });
+    this.setItemText(this.clockElement, `${time}\n${date}`);
+  }
+
+  private setItemText(item: HTMLElement, text: string | null): void {
+    if (text) {
+      item.textContent = text;
+      item.classList.remove("hidden");
+    } else {
+      item.textContent = "";
+      item.classList.add("hidden");
+    }
+  }
+}
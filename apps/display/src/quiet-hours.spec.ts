@@ -0,0 +1,55 @@
+/**
+ * Unit tests for quiet-hours.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { QuietHoursScreen } from "./quiet-hours";
+import { QuietMode } from "./types";
+
+describe("QuietHoursScreen", () => {
+  let root: HTMLElement;
+  let screen: QuietHoursScreen;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    root = document.createElement("div");
+    screen = new QuietHoursScreen(root);
+  });
+
+  afterEach(() => {
+    screen.destroy();
+    vi.useRealTimers();
+  });
+
+  function clock(): HTMLElement {
+    return root.querySelector(".quiet-clock") as HTMLElement;
+  }
+
+  it("should start hidden", () => {
+    expect(screen.isVisible()).toBe(false);
+  });
+
+  it("should show a black screen without the clock", () => {
+    screen.show(QuietMode.Black);
+
+    expect(screen.isVisible()).toBe(true);
+    expect(clock().classList.contains("hidden")).toBe(true);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("should show and refresh a dimmed clock", () => {
+    screen.show(QuietMode.DimClock);
+
+    expect(clock().classList.contains("hidden")).toBe(false);
+    expect(clock().textContent).not.toBe("");
+    expect(vi.getTimerCount()).toBe(1);
+  });
+
+  it("should stop the clock when hidden", () => {
+    screen.show(QuietMode.DimClock);
+    screen.hide();
+
+    expect(screen.isVisible()).toBe(false);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
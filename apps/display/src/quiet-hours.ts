@@ -0,0 +1,86 @@
+/**
+ * Quiet Hours Screen
+ * Covers the slideshow with a black screen or a dimmed clock
+ */
+
+import { QuietMode } from "./types";
+
+/** Interval between clock refreshes in milliseconds. */
+const CLOCK_REFRESH_INTERVAL = 1000;
+
+/**
+ * Full-screen layer shown while quiet hours are in effect.
+ */
+export class QuietHoursScreen {
+  private readonly root: HTMLElement;
+  private readonly clockElement: HTMLElement;
+  private clockTimer: number | null = null;
+
+  constructor(root: HTMLElement) {
+    this.root = root;
+    this.root.innerHTML = "";
+    this.root.classList.add("hidden");
+
+    this.clockElement = document.createElement("div");
+    this.clockElement.className = "quiet-clock hidden";
+    this.root.appendChild(this.clockElement);
+  }
+
+  /**
+   * Shows the quiet screen in the given mode.
+   */
+  show(mode: QuietMode): void {
+    this.root.classList.remove("hidden");
+
+    if (mode === QuietMode.DimClock) {
+      this.clockElement.classList.remove("hidden");
+      this.renderClock();
+      if (this.clockTimer === null) {
+        this.clockTimer = window.setInterval(
+          () => this.renderClock(),
+          CLOCK_REFRESH_INTERVAL,
+        );
+      }
+    } else {
+      this.clockElement.classList.add("hidden");
+      this.stopClock();
+    }
+  }
+
+  /**
+   * Hides the quiet screen.
+   */
+  hide(): void {
+    this.root.classList.add("hidden");
+    this.clockElement.classList.add("hidden");
+    this.stopClock();
+  }
+
+  /**
+   * Checks if the quiet screen is currently shown.
+   */
+  isVisible(): boolean {
+    return !this.root.classList.contains("hidden");
+  }
+
+  /**
+   * Stops the clock and detaches timers.
+   */
+  destroy(): void {
+    this.stopClock();
+  }
+
+  private stopClock(): void {
+    if (this.clockTimer !== null) {
+      clearInterval(this.clockTimer);
+      this.clockTimer = null;
+    }
+  }
+
+  private renderClock(): void {
+    this.clockElement.textContent = new Date().toLocaleTimeString(undefined, {
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  }
+}
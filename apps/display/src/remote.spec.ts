@@ -0,0 +1,94 @@
+/**
+ * Unit tests for remote.ts
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { handleRemoteCommand, type RemoteControllable } from "./remote";
+import { MediaType, RemoteCommandType, type DisplayEvent } from "./types";
+
+// Mock the logger
+vi.mock("./config", () => ({
+  logger: {
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+function commandEvent(
+  command: RemoteCommandType,
+  extra: Partial<DisplayEvent> = {},
+): DisplayEvent {
+  return {
+    type: "remote-command",
+    command,
+    timestamp: "2026-10-19T12:00:00Z",
+    ...extra,
+  };
+}
+
+describe("handleRemoteCommand", () => {
+  let slideshow: {
+    [K in keyof RemoteControllable]: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    slideshow = {
+      next: vi.fn(),
+      showPreviousSlide: vi.fn(),
+      pause: vi.fn(),
+      resume: vi.fn(),
+      showPhoto: vi.fn(),
+    };
+  });
+
+  it.each([
+    [RemoteCommandType.Next, "next"],
+    [RemoteCommandType.Previous, "showPreviousSlide"],
+    [RemoteCommandType.Pause, "pause"],
+    [RemoteCommandType.Resume, "resume"],
+  ] as const)("maps command %i to %s", (command, method) => {
+    handleRemoteCommand(
+      slideshow as unknown as RemoteControllable,
+      commandEvent(command),
+    );
+
+    expect(slideshow[method]).toHaveBeenCalledTimes(1);
+  });
+
+  it("shows the photo sent with a show photo command", () => {
+    const photo = {
+      id: 42,
+      url: "/api/media/photos/42",
+      mediaType: MediaType.Photo,
+      width: 800,
+      height: 600,
+    };
+
+    handleRemoteCommand(
+      slideshow as unknown as RemoteControllable,
+      commandEvent(RemoteCommandType.ShowPhoto, { photo }),
+    );
+
+    expect(slideshow.showPhoto).toHaveBeenCalledWith(photo);
+  });
+
+  it("ignores show photo commands without a photo", () => {
+    handleRemoteCommand(
+      slideshow as unknown as RemoteControllable,
+      commandEvent(RemoteCommandType.ShowPhoto),
+    );
+
+    expect(slideshow.showPhoto).not.toHaveBeenCalled();
+  });
+
+  it("ignores unknown commands", () => {
+    handleRemoteCommand(
+      slideshow as unknown as RemoteControllable,
+      commandEvent(99 as RemoteCommandType),
+    );
+
+    for (const method of Object.values(slideshow)) {
+      expect(method).not.toHaveBeenCalled();
+    }
+  });
+});
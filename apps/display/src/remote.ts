@@ -0,0 +1,52 @@
+/**
+ * Remote control handling for the display frontend
+ */
+
+import { logger } from "./config";
+import { RemoteCommandType, type DisplayEvent } from "./types";
+import type { Slideshow } from "./slideshow";
+
+/**
+ * Slideshow operations available to the remote control.
+ */
+export type RemoteControllable = Pick<
+  Slideshow,
+  "next" | "showPreviousSlide" | "pause" | "resume" | "showPhoto"
+>;
+
+/**
+ * Maps a remote-command event from the admin UI onto the slideshow.
+ */
+export function handleRemoteCommand(
+  slideshow: RemoteControllable,
+  event: DisplayEvent,
+): void {
+  switch (event.command) {
+    case RemoteCommandType.Next:
+      slideshow.next();
+      break;
+
+    case RemoteCommandType.Previous:
+      slideshow.showPreviousSlide();
+      break;
+
+    case RemoteCommandType.Pause:
+      slideshow.pause();
+      break;
+
+    case RemoteCommandType.Resume:
+      slideshow.resume();
+      break;
+
+    case RemoteCommandType.ShowPhoto:
+      if (event.photo) {
+        slideshow.showPhoto(event.photo);
+      } else {
+        logger.warn("Show photo command without a photo, ignoring");
+      }
+      break;
+
+    default:
+      logger.warn("Unknown remote command:", event.command);
+  }
+}
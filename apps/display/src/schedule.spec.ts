@@ -0,0 +1,213 @@
+/**
+ * Unit tests for schedule.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { isRuleActive, resolveSchedule, DisplayScheduler } from "./schedule";
+import { QuietMode, type DisplayScheduleRule } from "./types";
+
+vi.mock("./config", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const MONDAY = 1 << 1;
+const TUESDAY = 1 << 2;
+
+/** Local time on Monday, October 19, 2026. */
+function monday(hours: number, minutes = 0): Date {
+  return new Date(2026, 9, 19, hours, minutes);
+}
+
+/** Local time on Tuesday, October 20, 2026. */
+function tuesday(hours: number, minutes = 0): Date {
+  return new Date(2026, 9, 20, hours, minutes);
+}
+
+function rule(overrides: Partial<DisplayScheduleRule>): DisplayScheduleRule {
+  return {
+    id: 1,
+    daysOfWeek: MONDAY,
+    startTime: "07:00",
+    endTime: "09:00",
+    displaySettingsId: 2,
+    quietMode: null,
+    ...overrides,
+  };
+}
+
+describe("isRuleActive", () => {
+  it("should match inside a same-day window on a selected day", () => {
+    const morning = rule({});
+
+    expect(isRuleActive(morning, monday(7))).toBe(true);
+    expect(isRuleActive(morning, monday(8, 59))).toBe(true);
+    expect(isRuleActive(morning, monday(9))).toBe(false);
+    expect(isRuleActive(morning, monday(6, 59))).toBe(false);
+    expect(isRuleActive(morning, tuesday(8))).toBe(false);
+  });
+
+  it("should continue an overnight window into the next morning", () => {
+    const night = rule({ startTime: "22:00", endTime: "06:30" });
+
+    expect(isRuleActive(night, monday(23))).toBe(true);
+    expect(isRuleActive(night, tuesday(6))).toBe(true);
+    expect(isRuleActive(night, tuesday(6, 30))).toBe(false);
+    // Started Sunday night, which is not selected
+    expect(isRuleActive(night, monday(5))).toBe(false);
+    expect(isRuleActive(night, tuesday(23))).toBe(false);
+  });
+
+  it("should cover the whole day when start and end are equal", () => {
+    const allDay = rule({ startTime: "00:00", endTime: "00:00" });
+
+    expect(isRuleActive(allDay, monday(0))).toBe(true);
+    expect(isRuleActive(allDay, monday(23, 59))).toBe(true);
+    expect(isRuleActive(allDay, tuesday(0))).toBe(false);
+  });
+
+  it("should ignore malformed times", () => {
+    expect(isRuleActive(rule({ startTime: "7am" }), monday(8))).toBe(false);
+  });
+});
+
+describe("resolveSchedule", () => {
+  const rules: DisplayScheduleRule[] = [
+    rule({ id: 1, displaySettingsId: 2 }),
+    rule({
+      id: 2,
+      daysOfWeek: MONDAY | TUESDAY,
+      startTime: "06:00",
+      endTime: "12:00",
+      displaySettingsId: 3,
+    }),
+    rule({
+      id: 3,
+      startTime: "08:00",
+      endTime: "08:30",
+      displaySettingsId: null,
+      quietMode: QuietMode.Black,
+    }),
+  ];
+
+  it("should pick the first matching profile rule", () => {
+    expect(resolveSchedule(rules, monday(7, 30))).toEqual({
+      settingsId: 2,
+      quietMode: null,
+    });
+    expect(resolveSchedule(rules, tuesday(7, 30))).toEqual({
+      settingsId: 3,
+      quietMode: null,
+    });
+  });
+
+  it("should report quiet hours alongside the scheduled profile", () => {
+    expect(resolveSchedule(rules, monday(8, 15))).toEqual({
+      settingsId: 2,
+      quietMode: QuietMode.Black,
+    });
+  });
+
+  it("should select nothing outside every window", () => {
+    expect(resolveSchedule(rules, monday(13))).toEqual({
+      settingsId: null,
+      quietMode: null,
+    });
+  });
+});
+
+describe("DisplayScheduler", () => {
+  function createMockApiClient(data: DisplayScheduleRule[]) {
+    let scheduleListener: (() => void) | null = null;
+    return {
+      getSchedule: vi.fn(() => Promise.resolve({ success: true, data })),
+      setScheduledSettingsId: vi.fn(),
+      onScheduleChange: vi.fn((cb: () => void) => {
+        scheduleListener = cb;
+        return () => {
+          scheduleListener = null;
+        };
+      }),
+      emitScheduleChange: () => scheduleListener?.(),
+    };
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(monday(7, 59));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should apply the schedule on start without refreshing settings", async () => {
+    const apiClient = createMockApiClient([rule({})]);
+    const onQuietModeChange = vi.fn();
+    const scheduler = new DisplayScheduler(
+      apiClient as any,
+      onQuietModeChange,
+    );
+
+    await scheduler.start();
+
+    expect(apiClient.setScheduledSettingsId).toHaveBeenCalledWith(2, false);
+    expect(onQuietModeChange).not.toHaveBeenCalled();
+    scheduler.stop();
+  });
+
+  it("should enter and leave quiet hours as time passes", async () => {
+    const apiClient = createMockApiClient([
+      rule({
+        startTime: "08:00",
+        endTime: "08:01",
+        displaySettingsId: null,
+        quietMode: QuietMode.DimClock,
+      }),
+    ]);
+    const onQuietModeChange = vi.fn();
+    const scheduler = new DisplayScheduler(
+      apiClient as any,
+      onQuietModeChange,
+    );
+    await scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(onQuietModeChange).toHaveBeenLastCalledWith(QuietMode.DimClock);
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(onQuietModeChange).toHaveBeenLastCalledWith(null);
+    expect(onQuietModeChange).toHaveBeenCalledTimes(2);
+    scheduler.stop();
+  });
+
+  it("should reload the rules when the schedule changes", async () => {
+    const apiClient = createMockApiClient([]);
+    const scheduler = new DisplayScheduler(apiClient as any, vi.fn());
+    await scheduler.start();
+
+    apiClient.getSchedule.mockResolvedValueOnce({
+      success: true,
+      data: [rule({ displaySettingsId: 4 })],
+    });
+    apiClient.emitScheduleChange();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(apiClient.setScheduledSettingsId).toHaveBeenLastCalledWith(
+      4,
+      true,
+    );
+    scheduler.stop();
+  });
+
+  it("should stop re-evaluating once stopped", async () => {
+    const apiClient = createMockApiClient([]);
+    const scheduler = new DisplayScheduler(apiClient as any, vi.fn());
+    await scheduler.start();
+
+    scheduler.stop();
+    apiClient.emitScheduleChange();
+
+    expect(vi.getTimerCount()).toBe(0);
+    expect(apiClient.getSchedule).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Display Schedule
+ * Evaluates time-of-day rules against the display's local clock
+ */
+
+import { logger } from "./config";
+import type { ApiClient } from "./api-client";
+import type { DisplayScheduleRule, QuietMode } from "./types";
+
+/** Interval between schedule evaluations in milliseconds. */
+const SCHEDULE_CHECK_INTERVAL = 30000;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * What the schedule selects at a given moment.
+ */
+export interface ScheduleState {
+  /** Profile to show, or null for the device's normal settings. */
+  settingsId: number | null;
+  /** Quiet hours mode in effect, or null when the slideshow should run. */
+  quietMode: QuietMode | null;
+}
+
+/**
+ * Converts "HH:mm" to minutes after midnight, or null if malformed.
+ */
+function parseTime(value: string): number | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+function startsOn(rule: DisplayScheduleRule, day: number): boolean {
+  return (rule.daysOfWeek & (1 << day)) !== 0;
+}
+
+/**
+ * Checks whether a rule's window contains the given local time.
+ * Windows ending at or before their start run past midnight and count
+ * towards the day they started on; equal times cover the whole day.
+ * @param rule The rule to check
+ * @param now Reference time (defaults to the current time)
+ */
+export function isRuleActive(
+  rule: DisplayScheduleRule,
+  now: Date = new Date(),
+): boolean {
+  const start = parseTime(rule.startTime);
+  const end = parseTime(rule.endTime);
+  if (start === null || end === null) return false;
+
+  const day = now.getDay();
+  const minute = now.getHours() * 60 + now.getMinutes();
+
+  if (start === end) {
+    return startsOn(rule, day);
+  }
+
+  if (start < end) {
+    return startsOn(rule, day) && minute >= start && minute < end;
+  }
+
+  // Overnight window: the evening part belongs to today, the morning part to yesterday
+  const yesterday = (day + 6) % 7;
+  return (
+    (startsOn(rule, day) && minute >= start && minute < MINUTES_PER_DAY) ||
+    (startsOn(rule, yesterday) && minute < end)
+  );
+}
+
+/**
+ * Resolves the profile and quiet hours mode selected by a schedule.
+ * The first matching profile rule wins, as does the first matching quiet rule.
+ * @param rules Rules in evaluation order
+ * @param now Reference time (defaults to the current time)
+ */
+export function resolveSchedule(
+  rules: DisplayScheduleRule[],
+  now: Date = new Date(),
+): ScheduleState {
+  const state: ScheduleState = { settingsId: null, quietMode: null };
+
+  for (const rule of rules) {
+    if (!isRuleActive(rule, now)) continue;
+
+    if (rule.quietMode != null) {
+      state.quietMode ??= rule.quietMode;
+    } else if (rule.displaySettingsId != null) {
+      state.settingsId ??= rule.displaySettingsId;
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Callback invoked when quiet hours start, change mode or end.
+ */
+export type QuietModeCallback = (mode: QuietMode | null) => void;
+
+/**
+ * Loads the display schedule and applies it as time passes.
+ * Profile switches go through the API client so the slideshow reacts as it
+ * does to any other settings change; quiet hours are reported to a callback.
+ */
+export class DisplayScheduler {
+  private readonly apiClient: ApiClient;
+  private readonly onQuietModeChange: QuietModeCallback;
+  private rules: DisplayScheduleRule[] = [];
+  private quietMode: QuietMode | null = null;
+  private checkTimer: number | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(apiClient: ApiClient, onQuietModeChange: QuietModeCallback) {
+    this.apiClient = apiClient;
+    this.onQuietModeChange = onQuietModeChange;
+  }
+
+  /**
+   * Loads the rules, applies the current state and starts re-evaluating.
+   * The scheduled profile is selected without a settings refresh, so call
+   * this before the slideshow loads its settings.
+   */
+  async start(): Promise<void> {
+    this.stop();
+
+    await this.loadRules();
+    this.evaluate(false);
+
+    this.unsubscribe = this.apiClient.onScheduleChange(async () => {
+      await this.loadRules();
+      this.evaluate(true);
+    });
+    this.checkTimer = window.setInterval(
+      () => this.evaluate(true),
+      SCHEDULE_CHECK_INTERVAL,
+    );
+  }
+
+  /**
+   * Stops re-evaluating the schedule.
+   */
+  stop(): void {
+    if (this.checkTimer !== null) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  private async loadRules(): Promise<void> {
+    const result = await this.apiClient.getSchedule();
+    if (result.success) {
+      this.rules = result.data;
+      logger.debug(`Loaded ${this.rules.length} schedule rules`);
+    } else {
+      // Keep the last known rules so a brief outage does not end quiet hours
+      logger.warn("Failed to load display schedule:", result.error);
+    }
+  }
+
+  private evaluate(refreshSettings: boolean): void {
+    const state = resolveSchedule(this.rules);
+
+    this.apiClient.setScheduledSettingsId(state.settingsId, refreshSettings);
+
+    if (state.quietMode !== this.quietMode) {
+      this.quietMode = state.quietMode;
+      logger.info(
+        state.quietMode === null
+          ? "Quiet hours ended"
+          : `Quiet hours started (mode ${state.quietMode})`,
+      );
+      this.onQuietModeChange(state.quietMode);
+    }
+  }
+}
@@ -5,7 +5,18 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { JSDOM } from "jsdom";
 import type { PhotoDto, DisplaySettingsDto } from "./types";
-import { MediaType, TransitionType, SourceType, ImageFit } from "./types";
+import {
+  MediaType,
+  TransitionType,
+  SourceType,
+  ImageFit,
+  CollageLayout,
+  OverlayPosition,
+  OverlaySize,
+  QuietMode,
+  VideoPlayback,
+  VideoSegment,
+} from "./types";
 
 // Mock config module
 vi.mock("./config", () => ({
@@ -17,7 +28,7 @@ vi.mock("./config", () => ({
     preloadThreshold: 3,
     retryDelay: 100,
     maxRetries: 3,
-    maxVideoDuration: 30,
+    historySize: 50,
   })),
   logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
 }));
@@ -36,10 +47,12 @@ function setupDOM() {
       <body>
         <img id="current-slide" src="" />
         <img id="next-slide" src="" class="hidden" />
+        <div id="collage" class="hidden"></div>
         <div id="video-container" class="hidden"></div>
         <div id="loading-indicator" class="hidden">Loading...</div>
         <div id="error-indicator" class="hidden"></div>
         <div id="qr-overlay" class="hidden"></div>
+        <div id="quiet-hours" class="hidden"></div>
         <div id="overlay">
           <div id="overlay-date"></div>
           <div id="overlay-time"></div>
@@ -63,20 +76,49 @@ function createTestSettings(
     sourceType: SourceType.All,
     shuffle: true,
     imageFit: ImageFit.Cover,
+    collageLayout: CollageLayout.Off,
+    showClock: false,
+    clockPosition: OverlayPosition.TopRight,
+    showDateTaken: false,
+    dateTakenPosition: OverlayPosition.BottomLeft,
+    showLocation: false,
+    locationPosition: OverlayPosition.BottomLeft,
+    overlaySize: OverlaySize.Medium,
+    overlayOpacity: 80,
+    videoPlayback: VideoPlayback.Muted,
+    videoVolume: 50,
+    maxVideoDuration: 30,
+    videoSegment: VideoSegment.Start,
+    videoLoopCount: 1,
     ...overrides,
   };
 }
 
 function createMockApiClient() {
   return {
+    registerDevice: vi.fn(() =>
+      Promise.resolve({
+        success: true,
+        data: { id: 1, deviceId: "test-device", name: "Test Frame" },
+      }),
+    ),
     getSettings: vi.fn(),
     getDefaultSettings: vi.fn(() => createTestSettings()),
+    getCachedSettings: vi.fn(() => Promise.resolve(null)),
     getPhotoCount: vi.fn(),
     getNextPhoto: vi.fn(),
     preloadPhotosWithImages: vi.fn(),
-    startSettingsPolling: vi.fn(),
-    stopSettingsPolling: vi.fn(),
+    isOffline: vi.fn(() => false),
+    isRegistered: vi.fn(() => true),
+    onRegistered: vi.fn((_cb: any) => () => {}),
+    startEventStream: vi.fn(),
+    stopEventStream: vi.fn(),
     onSettingsChange: vi.fn((_cb: any) => () => {}),
+    onLibraryChange: vi.fn((_cb: any) => () => {}),
+    getSchedule: vi.fn(() => Promise.resolve({ success: true, data: [] })),
+    setScheduledSettingsId: vi.fn(),
+    onScheduleChange: vi.fn((_cb: any) => () => {}),
+    reportStatus: vi.fn(() => Promise.resolve({ success: true })),
     getPhotoUrl: vi.fn((photo: PhotoDto) => `/api/media/photos/${photo.id}`),
     preloadImage: vi.fn(),
     getDisplayConfig: vi.fn(() =>
@@ -130,10 +172,110 @@ describe("Slideshow", () => {
   });
 
   describe("stop", () => {
-    it("should stop settings polling", () => {
+    it("should close the event stream", () => {
+      const slideshow = new Slideshow(mockApiClient as any);
+      slideshow.stop();
+      expect(mockApiClient.stopEventStream).toHaveBeenCalled();
+    });
+  });
+
+  describe("quiet hours", () => {
+    it("should pause behind the quiet screen and resume afterwards", () => {
+      const slideshow = new Slideshow(mockApiClient as any);
+      const screen = document.getElementById("quiet-hours")!;
+
+      slideshow.setQuietMode(QuietMode.DimClock);
+      expect(slideshow.isPaused()).toBe(true);
+      expect(screen.classList.contains("hidden")).toBe(false);
+      expect(
+        screen.querySelector(".quiet-clock")!.classList.contains("hidden"),
+      ).toBe(false);
+
+      // Resuming from the remote or a visibility change waits for quiet hours to end
+      slideshow.resume();
+      expect(slideshow.isPaused()).toBe(true);
+
+      slideshow.setQuietMode(null);
+      expect(slideshow.isPaused()).toBe(false);
+      expect(screen.classList.contains("hidden")).toBe(true);
+      slideshow.stop();
+    });
+
+    it("should stay paused after quiet hours if it was paused before", () => {
+      const slideshow = new Slideshow(mockApiClient as any);
+      slideshow.pause();
+
+      slideshow.setQuietMode(QuietMode.Black);
+      slideshow.setQuietMode(null);
+
+      expect(slideshow.isPaused()).toBe(true);
+      slideshow.stop();
+    });
+
+    it("should load the schedule before the first settings request", async () => {
+      mockApiClient.getSettings.mockResolvedValue({
+        success: true,
+        data: createTestSettings(),
+      });
+      mockApiClient.getPhotoCount.mockResolvedValue({
+        success: true,
+        data: { totalPhotos: 0 },
+      });
+
+      const slideshow = new Slideshow(mockApiClient as any);
+      await slideshow.start();
+
+      expect(mockApiClient.setScheduledSettingsId).toHaveBeenCalledWith(
+        null,
+        false,
+      );
+      expect(
+        mockApiClient.getSchedule.mock.invocationCallOrder[0],
+      ).toBeLessThan(mockApiClient.getSettings.mock.invocationCallOrder[0]);
+      slideshow.stop();
+    });
+  });
+
+  describe("library changes", () => {
+    it("should restart immediately when photos arrive in an empty library", async () => {
+      let libraryCallback!: () => void;
+      mockApiClient.onLibraryChange.mockImplementation((cb) => {
+        libraryCallback = cb;
+        return () => {};
+      });
+      mockApiClient.getSettings.mockResolvedValue({
+        success: true,
+        data: createTestSettings(),
+      });
+      mockApiClient.getPhotoCount.mockResolvedValue({
+        success: true,
+        data: { totalPhotos: 0 },
+      });
+
       const slideshow = new Slideshow(mockApiClient as any);
+      await slideshow.start();
+      expect(mockApiClient.startEventStream).toHaveBeenCalled();
+      expect(mockApiClient.getPhotoCount).toHaveBeenCalledTimes(1);
+
+      libraryCallback();
+      await vi.waitFor(() =>
+        expect(mockApiClient.getPhotoCount).toHaveBeenCalledTimes(2),
+      );
       slideshow.stop();
-      expect(mockApiClient.stopSettingsPolling).toHaveBeenCalled();
+    });
+
+    it("should ignore library changes before the slideshow starts", () => {
+      let libraryCallback!: () => void;
+      mockApiClient.onLibraryChange.mockImplementation((cb) => {
+        libraryCallback = cb;
+        return () => {};
+      });
+
+      new Slideshow(mockApiClient as any);
+      libraryCallback();
+
+      expect(mockApiClient.preloadPhotosWithImages).not.toHaveBeenCalled();
+      expect(mockApiClient.getSettings).not.toHaveBeenCalled();
     });
   });
 
@@ -171,6 +313,108 @@ describe("Slideshow", () => {
       expect(mockApiClient.getDefaultSettings).toHaveBeenCalled();
     });
 
+    it("should register the device before loading settings", async () => {
+      mockApiClient.getSettings.mockResolvedValue({
+        success: true,
+        data: createTestSettings(),
+      });
+      mockApiClient.getPhotoCount.mockResolvedValue({
+        success: true,
+        data: { totalPhotos: 0 },
+      });
+
+      const slideshow = new Slideshow(mockApiClient as any);
+      await slideshow.start();
+
+      expect(
+        mockApiClient.registerDevice.mock.invocationCallOrder[0],
+      ).toBeLessThan(mockApiClient.getSettings.mock.invocationCallOrder[0]);
+    });
+
+    it("should keep starting when device registration fails", async () => {
+      mockApiClient.registerDevice.mockResolvedValue({
+        success: false,
+        error: { code: "NETWORK_ERROR" },
+      } as any);
+      mockApiClient.getSettings.mockResolvedValue({
+        success: true,
+        data: createTestSettings(),
+      });
+      mockApiClient.getPhotoCount.mockResolvedValue({
+        success: true,
+        data: { totalPhotos: 0 },
+      });
+
+      const slideshow = new Slideshow(mockApiClient as any);
+      await slideshow.start();
+
+      expect(mockApiClient.getSettings).toHaveBeenCalled();
+      expect(mockApiClient.startEventStream).toHaveBeenCalled();
+    });
+
+    it("should retry registration when back online and load the device's settings", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      let registeredCallback!: () => void;
+      let registered = false;
+      mockApiClient.onRegistered.mockImplementation((cb) => {
+        registeredCallback = cb;
+        return () => {};
+      });
+      mockApiClient.isRegistered.mockImplementation(() => registered);
+      mockApiClient.registerDevice
+        .mockResolvedValueOnce({
+          success: false,
+          error: { code: "NETWORK_ERROR" },
+        } as any)
+        .mockImplementationOnce(async () => {
+          registered = true;
+          registeredCallback();
+          return {
+            success: true,
+            data: { id: 1, deviceId: "test-device", name: "Test Frame" },
+          };
+        });
+      mockApiClient.getSettings
+        .mockResolvedValueOnce({ success: true, data: createTestSettings() })
+        .mockResolvedValueOnce({
+          success: true,
+          data: createTestSettings({ id: 5, showClock: true }),
+        });
+      mockApiClient.getPhotoCount.mockResolvedValue({
+        success: true,
+        data: { totalPhotos: 1 },
+      });
+      mockApiClient.preloadPhotosWithImages.mockResolvedValue([
+        {
+          id: 1,
+          url: "/api/media/photos/1",
+          mediaType: MediaType.Photo,
+          width: 1920,
+          height: 1080,
+        },
+      ]);
+      mockApiClient.preloadImage.mockResolvedValue(undefined);
+
+      const slideshow = new Slideshow(mockApiClient as any);
+      await slideshow.start();
+      const clock = document.getElementById("overlay-time")!;
+      expect(clock.classList.contains("hidden")).toBe(true);
+
+      window.dispatchEvent(new Event("online"));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(mockApiClient.registerDevice).toHaveBeenCalledTimes(2);
+      expect(mockApiClient.getSettings).toHaveBeenCalledTimes(2);
+      expect(clock.classList.contains("hidden")).toBe(false);
+
+      // Already registered, so coming back online again doesn't re-register
+      window.dispatchEvent(new Event("online"));
+      expect(mockApiClient.registerDevice).toHaveBeenCalledTimes(2);
+
+      slideshow.stop();
+      vi.useRealTimers();
+    });
+
     it("should show error with QR code when no photos available", async () => {
       mockApiClient.getSettings.mockResolvedValue({
         success: true,
@@ -472,6 +716,33 @@ describe("Slideshow", () => {
       expect(mockApiClient.onSettingsChange).toHaveBeenCalled();
     });
 
+    it("should apply overlay settings live", () => {
+      let settingsCallback!: (settings: DisplaySettingsDto) => void;
+      mockApiClient.onSettingsChange.mockImplementation((cb) => {
+        settingsCallback = cb;
+        return () => {};
+      });
+
+      const slideshow = new Slideshow(mockApiClient as any);
+      settingsCallback(
+        createTestSettings({
+          showClock: true,
+          clockPosition: OverlayPosition.BottomRight,
+          overlayOpacity: 60,
+        }),
+      );
+
+      const overlay = document.getElementById("overlay")!;
+      const clock = document.getElementById("overlay-time")!;
+      expect(clock.classList.contains("hidden")).toBe(false);
+      expect(clock.parentElement?.classList.contains("bottom-right")).toBe(
+        true,
+      );
+      expect(overlay.style.opacity).toBe("0.6");
+
+      slideshow.stop();
+    });
+
     it("should clear preload queue when source changes", () => {
       let settingsCallback!: (settings: DisplaySettingsDto) => void;
       mockApiClient.onSettingsChange.mockImplementation((cb) => {
@@ -521,6 +792,44 @@ describe("Slideshow", () => {
       expect(slideshow).toBeDefined();
     });
 
+    it("should clear preload queue when playlist sources change", () => {
+      let settingsCallback!: (settings: DisplaySettingsDto) => void;
+      mockApiClient.onSettingsChange.mockImplementation((cb) => {
+        settingsCallback = cb;
+        return () => {};
+      });
+      mockApiClient.preloadPhotosWithImages.mockResolvedValue([]);
+
+      const source = {
+        albumId: 1,
+        tagId: null,
+        isExcluded: false,
+        weight: 1,
+        dateFrom: null,
+        dateTo: null,
+      };
+      const slideshow = new Slideshow(mockApiClient as any);
+      settingsCallback?.(
+        createTestSettings({
+          sourceType: SourceType.Playlist,
+          playlistSources: [source],
+        }),
+      );
+
+      mockApiClient.preloadPhotosWithImages.mockClear();
+
+      // Same playlist, different weight
+      settingsCallback?.(
+        createTestSettings({
+          sourceType: SourceType.Playlist,
+          playlistSources: [{ ...source, weight: 5 }],
+        }),
+      );
+
+      expect(mockApiClient.preloadPhotosWithImages).toHaveBeenCalled();
+      expect(slideshow).toBeDefined();
+    });
+
     it("should update object-fit when imageFit changes", () => {
       let settingsCallback!: (settings: DisplaySettingsDto) => void;
       mockApiClient.onSettingsChange.mockImplementation((cb) => {
@@ -730,6 +1039,52 @@ describe("Slideshow", () => {
       vi.useRealTimers();
     });
 
+    it("should play a different transition for each slide in Random mode", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+
+      const testPhoto: PhotoDto = {
+        id: 1,
+        url: "/api/media/photos/1",
+        dateTaken: new Date().toISOString(),
+        mediaType: MediaType.Photo,
+        width: 1920,
+        height: 1080,
+      };
+      mockApiClient.getSettings.mockResolvedValue({
+        success: true,
+        data: createTestSettings({ transition: TransitionType.Random }),
+      });
+      mockApiClient.getPhotoCount.mockResolvedValue({
+        success: true,
+        data: { totalPhotos: 10 },
+      });
+      mockApiClient.preloadPhotosWithImages.mockResolvedValue([testPhoto]);
+      mockApiClient.preloadImage.mockResolvedValue(undefined);
+      mockApiClient.getNextPhoto.mockResolvedValue({
+        success: true,
+        data: testPhoto,
+      });
+
+      const slideshow = new Slideshow(mockApiClient as any);
+      await slideshow.start();
+
+      const nextSlide = document.getElementById(
+        "next-slide",
+      ) as HTMLImageElement;
+
+      await vi.advanceTimersByTimeAsync(10000);
+      const first = nextSlide.className;
+      await vi.advanceTimersByTimeAsync(11000);
+      const second = nextSlide.className;
+
+      expect(first).not.toContain("hidden");
+      expect(second).not.toContain("hidden");
+      expect(second).not.toBe(first);
+
+      slideshow.stop();
+      vi.useRealTimers();
+    });
+
     it("should handle instant transition", async () => {
       vi.useFakeTimers({ shouldAdvanceTime: true });
 
@@ -773,6 +1128,207 @@ describe("Slideshow", () => {
     });
   });
 
+  describe("focal point", () => {
+    const focalPhoto: PhotoDto = {
+      id: 2,
+      url: "/api/media/photos/2",
+      mediaType: MediaType.Photo,
+      width: 1080,
+      height: 1920,
+      focalPointX: 0.9,
+      focalPointY: 0.1,
+    };
+
+    it("positions Cover mode around the focal point", async () => {
+      const { getObjectPosition } = await import("./slideshow");
+
+      expect(getObjectPosition(focalPhoto, ImageFit.Cover)).toBe("90% 10%");
+      expect(getObjectPosition(focalPhoto, ImageFit.Contain)).toBe("");
+      expect(
+        getObjectPosition({ ...focalPhoto, focalPointX: null }, ImageFit.Cover),
+      ).toBe("");
+    });
+
+    it("pans Ken Burns toward the focal point", async () => {
+      const { getKenBurnsMotion } = await import("./slideshow");
+      const random = vi.fn(() => 0.75);
+
+      const motion = getKenBurnsMotion(focalPhoto, random);
+
+      // Point near the top right: move the image left and down
+      expect(motion.x).toBeCloseTo(-1.3);
+      expect(motion.y).toBeCloseTo(1.3);
+      expect(motion.origin).toBe("90% 10%");
+      expect(random).not.toHaveBeenCalled();
+    });
+
+    it("pans Ken Burns randomly without a focal point", async () => {
+      const { getKenBurnsMotion } = await import("./slideshow");
+
+      const motion = getKenBurnsMotion(
+        { ...focalPhoto, focalPointX: undefined, focalPointY: undefined },
+        () => 0.75,
+      );
+
+      expect(motion.x).toBeCloseTo(1.25);
+      expect(motion.y).toBeCloseTo(1.25);
+      expect(motion.origin).toBe("");
+    });
+
+    it("applies the focal point to the incoming slide", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+
+      mockApiClient.getSettings.mockResolvedValue({
+        success: true,
+        data: createTestSettings({ transition: TransitionType.KenBurns }),
+      });
+      mockApiClient.getPhotoCount.mockResolvedValue({
+        success: true,
+        data: { totalPhotos: 10 },
+      });
+      mockApiClient.preloadPhotosWithImages.mockResolvedValue([focalPhoto]);
+      mockApiClient.preloadImage.mockResolvedValue(undefined);
+      mockApiClient.getNextPhoto.mockResolvedValue({
+        success: true,
+        data: focalPhoto,
+      });
+
+      const slideshow = new Slideshow(mockApiClient as any);
+      await slideshow.start();
+
+      const nextSlide = document.getElementById(
+        "next-slide",
+      ) as HTMLImageElement;
+
+      await vi.advanceTimersByTimeAsync(10000);
+
+      expect(nextSlide.classList.contains("ken-burns-fade-in")).toBe(true);
+      expect(nextSlide.style.objectPosition).toBe("90% 10%");
+      expect(nextSlide.style.transformOrigin).toBe("90% 10%");
+
+      slideshow.stop();
+      vi.useRealTimers();
+    });
+  });
+
+  describe("collages", () => {
+    const photo = (id: number, width: number, height: number): PhotoDto => ({
+      id,
+      url: `/api/media/photos/${id}`,
+      mediaType: MediaType.Photo,
+      width,
+      height,
+    });
+    const photos = [
+      photo(1, 1080, 1920),
+      photo(2, 1920, 1080),
+      photo(3, 1080, 1920),
+      photo(4, 1920, 1080),
+    ];
+
+    async function startWithCollages(collageLayout: CollageLayout) {
+      mockApiClient.getSettings.mockResolvedValue({
+        success: true,
+        data: createTestSettings({ collageLayout }),
+      });
+      mockApiClient.getPhotoCount.mockResolvedValue({
+        success: true,
+        data: { totalPhotos: photos.length },
+      });
+      mockApiClient.preloadPhotosWithImages
+        .mockResolvedValueOnce([...photos])
+        .mockResolvedValue([]);
+      mockApiClient.preloadImage.mockResolvedValue(undefined);
+
+      const slideshow = new Slideshow(mockApiClient as any);
+      await slideshow.start();
+      slideshow.pause();
+      return slideshow;
+    }
+
+    function collageSources(): string[] {
+      return Array.from(
+        document.querySelectorAll<HTMLImageElement>("#collage img"),
+      ).map((img) => img.getAttribute("src") ?? "");
+    }
+
+    it("pairs portrait photos and skips the paired photo in the queue", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      const slideshow = await startWithCollages(CollageLayout.PairPortraits);
+
+      const collage = document.getElementById("collage") as HTMLElement;
+      expect(collage.classList.contains("hidden")).toBe(false);
+      expect(collage.querySelector(".collage-pair")).not.toBeNull();
+      expect(collageSources()).toEqual([
+        "/api/media/photos/1",
+        "/api/media/photos/3",
+      ]);
+      expect(slideshow.getCurrentPhoto()?.id).toBe(1);
+
+      // The next slide is the landscape photo, shown on its own
+      const next = slideshow.next();
+      await vi.advanceTimersByTimeAsync(1500);
+      await next;
+      expect(slideshow.getCurrentPhoto()?.id).toBe(2);
+      expect(collage.classList.contains("hidden")).toBe(true);
+
+      // Photo 3 was shown in the collage, so photo 4 follows
+      const last = slideshow.next();
+      await vi.advanceTimersByTimeAsync(1500);
+      await last;
+      expect(slideshow.getCurrentPhoto()?.id).toBe(4);
+
+      slideshow.stop();
+      vi.useRealTimers();
+    });
+
+    it("replays the collage when going back", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      const slideshow = await startWithCollages(CollageLayout.Mosaic);
+
+      // Mosaic fills two portraits and two stacked landscapes
+      expect(collageSources()).toEqual([
+        "/api/media/photos/1",
+        "/api/media/photos/3",
+        "/api/media/photos/2",
+        "/api/media/photos/4",
+      ]);
+
+      mockApiClient.getNextPhoto.mockResolvedValue({
+        success: true,
+        data: photo(5, 1920, 1080),
+      });
+      const next = slideshow.next();
+      await vi.advanceTimersByTimeAsync(1500);
+      await next;
+      expect(slideshow.getCurrentPhoto()?.id).toBe(5);
+
+      const previous = slideshow.showPreviousSlide();
+      await vi.advanceTimersByTimeAsync(1500);
+      await previous;
+      expect(slideshow.getCurrentPhoto()?.id).toBe(1);
+      expect(
+        document.querySelector("#collage .collage-quad:not(.fade-out)"),
+      ).not.toBeNull();
+
+      slideshow.stop();
+      vi.useRealTimers();
+    });
+
+    it("shows photos on their own when collages are off", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      const slideshow = await startWithCollages(CollageLayout.Off);
+
+      expect(
+        document.getElementById("collage")?.classList.contains("hidden"),
+      ).toBe(true);
+      expect(collageSources()).toEqual([]);
+
+      slideshow.stop();
+      vi.useRealTimers();
+    });
+  });
+
   describe("video playback", () => {
     // Video tests are skipped because JSDOM doesn't implement HTMLMediaElement
     // methods and events (play, pause, canplay, loadedmetadata, etc.) which
@@ -929,6 +1485,350 @@ describe("Slideshow", () => {
     });
   });
 
+  describe("offline playback", () => {
+    const unreachable = {
+      success: false,
+      error: { code: "NETWORK_ERROR", message: "Failed to fetch" },
+    };
+    const photos: PhotoDto[] = [1, 2, 3, 4].map((id) => ({
+      id,
+      url: `/api/media/photos/${id}`,
+      mediaType: MediaType.Photo,
+      width: 1920,
+      height: 1080,
+    }));
+
+    it("should start from the last known settings and offline playlist", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      mockApiClient.getSettings.mockResolvedValue(unreachable);
+      mockApiClient.getCachedSettings.mockResolvedValue(
+        createTestSettings({ slideDuration: 42 }) as any,
+      );
+      mockApiClient.getPhotoCount.mockResolvedValue(unreachable);
+      mockApiClient.getDisplayConfig.mockResolvedValue(unreachable as any);
+      mockApiClient.isOffline.mockReturnValue(true);
+      mockApiClient.preloadPhotosWithImages.mockResolvedValue([photos[0]]);
+      mockApiClient.preloadImage.mockResolvedValue(undefined);
+
+      const slideshow = new Slideshow(mockApiClient as any);
+      await slideshow.start();
+
+      expect(mockApiClient.getDefaultSettings).not.toHaveBeenCalled();
+      expect(slideshow.getCurrentPhoto()?.id).toBe(1);
+      expect(
+        document
+          .getElementById("error-indicator")
+          ?.classList.contains("hidden"),
+      ).toBe(true);
+
+      slideshow.stop();
+      vi.useRealTimers();
+    });
+
+    it("should leave cached videos out when videos are skipped", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      const video: PhotoDto = {
+        id: 9,
+        url: "/api/media/photos/9",
+        mediaType: MediaType.Video,
+        width: 1920,
+        height: 1080,
+        duration: 12,
+      };
+      mockApiClient.getSettings.mockResolvedValue(unreachable);
+      mockApiClient.getCachedSettings.mockResolvedValue(
+        createTestSettings({ videoPlayback: VideoPlayback.Skip }) as any,
+      );
+      mockApiClient.getPhotoCount.mockResolvedValue(unreachable);
+      mockApiClient.getDisplayConfig.mockResolvedValue(unreachable as any);
+      mockApiClient.isOffline.mockReturnValue(true);
+      mockApiClient.preloadPhotosWithImages.mockResolvedValue([
+        video,
+        photos[1],
+      ]);
+      mockApiClient.preloadImage.mockResolvedValue(undefined);
+
+      const slideshow = new Slideshow(mockApiClient as any);
+      await slideshow.start();
+
+      expect(slideshow.getCurrentPhoto()?.id).toBe(2);
+
+      slideshow.stop();
+      vi.useRealTimers();
+    });
+
+    it("should wait for the API when nothing is available offline", async () => {
+      vi.useFakeTimers();
+      mockApiClient.getSettings.mockResolvedValue(unreachable);
+      mockApiClient.getPhotoCount.mockResolvedValue(unreachable);
+      mockApiClient.preloadPhotosWithImages.mockResolvedValue([]);
+
+      const slideshow = new Slideshow(mockApiClient as any);
+      await slideshow.start();
+
+      expect(document.getElementById("error-indicator")?.textContent).toContain(
+        "Could not load any photos",
+      );
+      expect(mockApiClient.getPhotoCount).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(10000);
+      expect(mockApiClient.getPhotoCount).toHaveBeenCalledTimes(2);
+
+      slideshow.stop();
+      vi.useRealTimers();
+    });
+
+    it("should replace queued offline photos when the network comes back", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      let offline = true;
+      mockApiClient.isOffline.mockImplementation(() => offline);
+      mockApiClient.getSettings.mockResolvedValue(unreachable);
+      mockApiClient.getPhotoCount.mockResolvedValue(unreachable);
+      mockApiClient.preloadPhotosWithImages
+        .mockResolvedValueOnce(photos.slice(0, 3))
+        .mockImplementation(async () => {
+          offline = false;
+          return [photos[3]];
+        });
+      mockApiClient.preloadImage.mockResolvedValue(undefined);
+
+      const slideshow = new Slideshow(mockApiClient as any);
+      await slideshow.start();
+      await vi.advanceTimersByTimeAsync(1500);
+      slideshow.pause();
+      expect(slideshow.getCurrentPhoto()?.id).toBe(1);
+
+      window.dispatchEvent(new Event("online"));
+      await vi.advanceTimersByTimeAsync(200);
+      expect(mockApiClient.preloadPhotosWithImages).toHaveBeenCalledTimes(2);
+
+      const next = slideshow.next();
+      await vi.advanceTimersByTimeAsync(1500);
+      await next;
+      expect(slideshow.getCurrentPhoto()?.id).toBe(4);
+
+      slideshow.stop();
+      vi.useRealTimers();
+    });
+  });
+
+  describe("remote control", () => {
+    const photoA: PhotoDto = {
+      id: 1,
+      url: "/api/media/photos/1",
+      mediaType: MediaType.Photo,
+      width: 1920,
+      height: 1080,
+    };
+    const photoB: PhotoDto = { ...photoA, id: 2, url: "/api/media/photos/2" };
+    const photoC: PhotoDto = { ...photoA, id: 3, url: "/api/media/photos/3" };
+
+    async function startWithPhotos() {
+      mockApiClient.getSettings.mockResolvedValue({
+        success: true,
+        data: createTestSettings(),
+      });
+      mockApiClient.getPhotoCount.mockResolvedValue({
+        success: true,
+        data: { totalPhotos: 2 },
+      });
+      mockApiClient.preloadPhotosWithImages
+        .mockResolvedValueOnce([photoA, photoB])
+        .mockResolvedValue([]);
+      mockApiClient.preloadImage.mockResolvedValue(undefined);
+
+      const slideshow = new Slideshow(mockApiClient as any);
+      await slideshow.start();
+      await vi.advanceTimersByTimeAsync(1500);
+      return slideshow;
+    }
+
+    it("should skip and go back while paused without resuming", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      const slideshow = await startWithPhotos();
+      expect(slideshow.getCurrentPhoto()?.id).toBe(1);
+
+      slideshow.pause();
+      const next = slideshow.next();
+      await vi.advanceTimersByTimeAsync(1500);
+      await next;
+      expect(slideshow.getCurrentPhoto()?.id).toBe(2);
+      expect(slideshow.isPaused()).toBe(true);
+
+      const previous = slideshow.showPreviousSlide();
+      await vi.advanceTimersByTimeAsync(1500);
+      await previous;
+      expect(slideshow.getCurrentPhoto()?.id).toBe(1);
+      expect(mockApiClient.getNextPhoto).not.toHaveBeenCalled();
+
+      slideshow.stop();
+      vi.useRealTimers();
+    });
+
+    it("should notify photo change listeners", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      const onPhotoChange = vi.fn();
+      mockApiClient.getSettings.mockResolvedValue({
+        success: true,
+        data: createTestSettings(),
+      });
+      mockApiClient.getPhotoCount.mockResolvedValue({
+        success: true,
+        data: { totalPhotos: 1 },
+      });
+      mockApiClient.preloadPhotosWithImages.mockResolvedValue([photoA]);
+      mockApiClient.preloadImage.mockResolvedValue(undefined);
+
+      const slideshow = new Slideshow(mockApiClient as any);
+      const unsubscribe = slideshow.onPhotoChange(onPhotoChange);
+      await slideshow.start();
+      await vi.advanceTimersByTimeAsync(1500);
+
+      expect(onPhotoChange).toHaveBeenCalledWith(photoA);
+
+      unsubscribe();
+      slideshow.pause();
+      const show = slideshow.showPhoto(photoB);
+      await vi.advanceTimersByTimeAsync(1500);
+      await show;
+      expect(onPhotoChange).toHaveBeenCalledTimes(1);
+
+      slideshow.stop();
+      vi.useRealTimers();
+    });
+
+    it("should show a requested photo and report status", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      const slideshow = await startWithPhotos();
+
+      const show = slideshow.showPhoto(photoC);
+      await vi.advanceTimersByTimeAsync(1500);
+      await show;
+
+      expect(slideshow.getCurrentPhoto()?.id).toBe(3);
+      expect(mockApiClient.reportStatus).toHaveBeenLastCalledWith({
+        photoId: 3,
+        isPaused: false,
+      });
+
+      slideshow.pause();
+      expect(mockApiClient.reportStatus).toHaveBeenLastCalledWith({
+        photoId: 3,
+        isPaused: true,
+      });
+
+      slideshow.stop();
+      vi.useRealTimers();
+    });
+  });
+
+  describe("history navigation", () => {
+    const photos: PhotoDto[] = [1, 2, 3].map((id) => ({
+      id,
+      url: `/api/media/photos/${id}`,
+      mediaType: MediaType.Photo,
+      width: 1920,
+      height: 1080,
+    }));
+
+    async function startWithPhotos(transition = TransitionType.Fade) {
+      mockApiClient.getSettings.mockResolvedValue({
+        success: true,
+        data: createTestSettings({ transition }),
+      });
+      mockApiClient.getPhotoCount.mockResolvedValue({
+        success: true,
+        data: { totalPhotos: photos.length },
+      });
+      mockApiClient.preloadPhotosWithImages
+        .mockResolvedValueOnce([...photos])
+        .mockResolvedValue([]);
+      mockApiClient.preloadImage.mockResolvedValue(undefined);
+
+      const slideshow = new Slideshow(mockApiClient as any);
+      await slideshow.start();
+      await vi.advanceTimersByTimeAsync(1500);
+      slideshow.pause();
+      return slideshow;
+    }
+
+    async function step(promise: Promise<void>) {
+      await vi.advanceTimersByTimeAsync(1500);
+      await promise;
+    }
+
+    it("should replay history forward without consuming the queue", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      const slideshow = await startWithPhotos();
+
+      await step(slideshow.next());
+      await step(slideshow.showPreviousSlide());
+      expect(slideshow.getCurrentPhoto()?.id).toBe(1);
+
+      // Forward again replays photo 2 from history, then continues with 3
+      await step(slideshow.next());
+      expect(slideshow.getCurrentPhoto()?.id).toBe(2);
+      await step(slideshow.next());
+      expect(slideshow.getCurrentPhoto()?.id).toBe(3);
+      expect(mockApiClient.getNextPhoto).not.toHaveBeenCalled();
+
+      slideshow.stop();
+      vi.useRealTimers();
+    });
+
+    it("should stay on the first photo when history is exhausted", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      const slideshow = await startWithPhotos();
+
+      await step(slideshow.showPreviousSlide());
+      expect(slideshow.getCurrentPhoto()?.id).toBe(1);
+
+      slideshow.stop();
+      vi.useRealTimers();
+    });
+
+    it("should drop the oldest photos once history is full", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      const { getConfig } = await import("./config");
+      vi.mocked(getConfig).mockReturnValueOnce({
+        ...getConfig(),
+        historySize: 2,
+      });
+      const slideshow = await startWithPhotos();
+
+      await step(slideshow.next());
+      await step(slideshow.next());
+      await step(slideshow.showPreviousSlide());
+      await step(slideshow.showPreviousSlide());
+
+      expect(slideshow.getCurrentPhoto()?.id).toBe(2);
+
+      slideshow.stop();
+      vi.useRealTimers();
+    });
+
+    it("should reverse the slide transition when going back", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      const slideshow = await startWithPhotos(TransitionType.Slide);
+      await step(slideshow.next());
+
+      const nextSlide = document.getElementById(
+        "next-slide",
+      ) as HTMLImageElement;
+      const previous = slideshow.showPreviousSlide();
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(nextSlide.classList.contains("slide-in-right")).toBe(true);
+      expect(nextSlide.classList.contains("slide-in-left")).toBe(false);
+
+      await step(previous);
+      expect(nextSlide.classList.contains("slide-in-right")).toBe(false);
+
+      slideshow.stop();
+      vi.useRealTimers();
+    });
+  });
+
   describe("error handling", () => {
     it("should show error when start fails", async () => {
       vi.useFakeTimers({ shouldAdvanceTime: true });
@@ -941,6 +1841,7 @@ describe("Slideshow", () => {
       const errorIndicator = document.getElementById("error-indicator");
       expect(errorIndicator?.classList.contains("hidden")).toBe(false);
       expect(errorIndicator?.textContent).toContain("Failed to start");
+      expect(slideshow.getError()).toContain("Failed to start");
 
       slideshow.stop();
       vi.useRealTimers();
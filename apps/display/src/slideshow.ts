@@ -11,8 +11,36 @@ import {
   ImageFit,
 } from "./api-client";
 import { getConfig, logger } from "./config";
-import { MediaType } from "./types";
+import {
+  CollageLayout,
+  MediaType,
+  VideoPlayback,
+  type QuietMode,
+} from "./types";
 import { generateQrCodeDataUrl } from "./qr-code";
+import { InfoOverlay } from "./overlay";
+import { DisplayScheduler } from "./schedule";
+import { QuietHoursScreen } from "./quiet-hours";
+import {
+  applyVideoAudio,
+  isPlayable,
+  planVideo,
+  playVideo,
+} from "./video-playback";
+import { getTransition, pickTransition } from "./transitions/registry";
+import type { TransitionContext } from "./transitions/transition";
+import { clearKenBurns, freezeKenBurns } from "./transitions/ken-burns";
+import { CollageView, planCollage, type CollagePlan } from "./collage";
+
+export {
+  getKenBurnsMotion,
+  type KenBurnsMotion,
+} from "./transitions/ken-burns";
+
+/**
+ * Callback invoked when a different photo is shown.
+ */
+export type PhotoChangeCallback = (photo: PhotoDto) => void;
 
 /**
  * State of the slideshow.
@@ -24,6 +52,24 @@ interface SlideshowState {
   error: string | null;
 }
 
+/**
+ * Returns the CSS object-position that keeps a photo's focal point in frame.
+ * Only Cover mode crops the photo, so other modes keep the default centre ("").
+ */
+export function getObjectPosition(
+  photo: PhotoDto | null,
+  imageFit: ImageFit,
+): string {
+  if (
+    imageFit !== ImageFit.Cover ||
+    photo?.focalPointX == null ||
+    photo.focalPointY == null
+  ) {
+    return "";
+  }
+  return `${photo.focalPointX * 100}% ${photo.focalPointY * 100}%`;
+}
+
 /**
  * Main slideshow controller class.
  * Manages photo/video display, transitions, and preloading.
@@ -35,7 +81,18 @@ export class Slideshow {
   // State
   private settings: DisplaySettingsDto | null = null;
   private currentPhoto: PhotoDto | null = null;
+  // Transition played for the previous slide, so Random mode can vary it
+  private lastTransition: TransitionType | null = null;
   private preloadedPhotos: PhotoDto[] = [];
+  // Collages planned for shown photos, so going back replays them
+  private collagePlans = new WeakMap<PhotoDto, CollagePlan>();
+  // Recently shown photos (oldest first) and the position of the current one
+  private history: PhotoDto[] = [];
+  private historyIndex = -1;
+  private photoChangeCallbacks: PhotoChangeCallback[] = [];
+  private quietMode: QuietMode | null = null;
+  // Whether quiet hours paused the slideshow, so they only resume what they paused
+  private pausedForQuietHours = false;
   private state: SlideshowState = {
     isInitialized: false,
     isPaused: false,
@@ -49,6 +106,7 @@ export class Slideshow {
   private videoMaxDurationTimer: number | null = null;
   private qrOverlayTimer: number | null = null;
   private noPhotosPollingTimer: number | null = null;
+  private readonly onlineListener = () => this.handleOnline();
 
   // DOM elements
   private currentSlide: HTMLImageElement;
@@ -61,6 +119,10 @@ export class Slideshow {
   private readonly blurBackground: HTMLElement | null;
   private readonly blurBackgroundCurrentImg: HTMLImageElement | null;
   private readonly blurBackgroundNextImg: HTMLImageElement | null;
+  private readonly collageView: CollageView | null;
+  private readonly infoOverlay: InfoOverlay | null;
+  private readonly quietScreen: QuietHoursScreen | null;
+  private readonly scheduler: DisplayScheduler;
 
   constructor(apiClient: ApiClient) {
     this.apiClient = apiClient;
@@ -83,11 +145,32 @@ export class Slideshow {
     this.blurBackgroundNextImg = document.getElementById(
       "blur-background-next-img",
     ) as HTMLImageElement;
+    const collageRoot = document.getElementById("collage");
+    this.collageView = collageRoot ? new CollageView(collageRoot) : null;
+    const overlayRoot = document.getElementById("overlay");
+    this.infoOverlay = overlayRoot ? new InfoOverlay(overlayRoot) : null;
+    const quietRoot = document.getElementById("quiet-hours");
+    this.quietScreen = quietRoot ? new QuietHoursScreen(quietRoot) : null;
+
+    // Switch profiles and enter quiet hours on the schedule
+    this.scheduler = new DisplayScheduler(apiClient, (mode) =>
+      this.setQuietMode(mode),
+    );
 
     // Listen for settings changes
     this.apiClient.onSettingsChange((newSettings) => {
       this.handleSettingsChange(newSettings);
     });
+
+    // Listen for photo library changes
+    this.apiClient.onLibraryChange(() => {
+      this.handleLibraryChange();
+    });
+
+    // Switch to the device's profile once a late registration goes through
+    this.apiClient.onRegistered(() => {
+      void this.handleRegistered();
+    });
   }
 
   /**
@@ -119,19 +202,43 @@ export class Slideshow {
     }
 
     try {
+      // Register so the device's assigned profile is used; the active profile otherwise
+      const registration = await this.apiClient.registerDevice();
+      if (!registration.success) {
+        logger.warn("Device registration failed, using active settings");
+      }
+
+      // Select the scheduled profile before the first settings load
+      await this.scheduler.start();
+
       // Load settings
       const settingsResult = await this.apiClient.getSettings();
       if (settingsResult.success) {
         this.settings = settingsResult.data;
         logger.debug("Settings loaded:", this.settings);
       } else {
-        logger.warn("Failed to load settings, using defaults");
-        this.settings = this.apiClient.getDefaultSettings();
+        const cachedSettings = await this.apiClient.getCachedSettings();
+        if (cachedSettings) {
+          logger.warn("Failed to load settings, using last known settings");
+          this.settings = cachedSettings;
+        } else {
+          logger.warn("Failed to load settings, using defaults");
+          this.settings = this.apiClient.getDefaultSettings();
+        }
       }
+      this.infoOverlay?.applySettings(this.settings);
+
+      // Subscribe to pushed settings and library updates
+      this.apiClient.startEventStream();
 
-      // Check if there are photos available
+      // Re-sync as soon as the network comes back after an offline spell
+      window.addEventListener("online", this.onlineListener);
+
+      // Check if there are photos available; when the count can't be
+      // fetched, try the offline playlist before giving up
       const countResult = await this.apiClient.getPhotoCount();
-      const hasPhotos = countResult.success && countResult.data.totalPhotos > 0;
+      const hasPhotos =
+        !countResult.success || countResult.data.totalPhotos > 0;
 
       // Always fetch admin URL and generate QR code for startup display
       let qrCodeDataUrl: string | null = null;
@@ -175,6 +282,8 @@ export class Slideshow {
         this.showError(
           "Could not load any photos. Please check your connection.",
         );
+        // Restart once the API is reachable again
+        this.startNoPhotosPolling();
         return;
       }
 
@@ -183,9 +292,6 @@ export class Slideshow {
       this.showLoading(false);
       await this.showNextSlide();
 
-      // Start settings polling for real-time updates
-      this.apiClient.startSettingsPolling();
-
       logger.info("Slideshow started successfully");
     } catch (error) {
       logger.error("Failed to start slideshow:", error);
@@ -201,6 +307,7 @@ export class Slideshow {
 
     this.state.isPaused = true;
     this.clearTimers();
+    this.reportStatus();
     logger.debug("Slideshow paused");
   }
 
@@ -209,19 +316,90 @@ export class Slideshow {
    */
   resume(): void {
     if (!this.state.isPaused) return;
+    if (this.quietMode !== null) {
+      logger.debug("Quiet hours in effect, staying paused");
+      return;
+    }
 
     this.state.isPaused = false;
     this.scheduleNextSlide();
+    this.reportStatus();
     logger.debug("Slideshow resumed");
   }
 
+  /**
+   * Skips to the next photo immediately, even while paused.
+   */
+  async next(): Promise<void> {
+    if (!this.state.isInitialized) return;
+
+    this.clearSlideTimer();
+    await this.advanceSlide();
+  }
+
+  /**
+   * Goes back to the previously shown photo, even while paused.
+   * Replays from the local history, so the server-side sequence is not advanced.
+   */
+  async showPreviousSlide(): Promise<void> {
+    if (!this.state.isInitialized) return;
+
+    if (this.historyIndex <= 0) {
+      logger.debug("No earlier photo in history");
+      return;
+    }
+
+    this.clearSlideTimer();
+    this.historyIndex--;
+    await this.displayPhoto(this.history[this.historyIndex], true);
+  }
+
+  /**
+   * Shows a specific photo immediately, then continues the sequence.
+   */
+  async showPhoto(photo: PhotoDto): Promise<void> {
+    if (!this.state.isInitialized) return;
+
+    this.clearSlideTimer();
+    this.recordHistory(photo);
+    await this.displayPhoto(photo);
+  }
+
+  /**
+   * Starts or ends quiet hours. The slideshow is paused behind the quiet
+   * screen and resumed afterwards unless it was already paused.
+   * @param mode Quiet hours mode, or null to end quiet hours
+   */
+  setQuietMode(mode: QuietMode | null): void {
+    if (mode !== null) {
+      if (this.quietMode === null && !this.state.isPaused) {
+        this.pause();
+        this.pausedForQuietHours = true;
+      }
+      this.quietMode = mode;
+      this.quietScreen?.show(mode);
+      return;
+    }
+
+    this.quietMode = null;
+    this.quietScreen?.hide();
+    if (this.pausedForQuietHours) {
+      this.pausedForQuietHours = false;
+      this.resume();
+    }
+  }
+
   /**
    * Stops the slideshow completely.
    */
   stop(): void {
     this.clearTimers();
     this.stopNoPhotosPolling();
-    this.apiClient.stopSettingsPolling();
+    this.scheduler.stop();
+    this.apiClient.stopEventStream();
+    window.removeEventListener("online", this.onlineListener);
+    this.infoOverlay?.destroy();
+    this.quietScreen?.destroy();
     this.state.isInitialized = false;
     logger.info("Slideshow stopped");
   }
@@ -264,6 +442,20 @@ export class Slideshow {
     }
   }
 
+  /**
+   * Registers a callback to be called when a different photo is shown.
+   * @returns A function to unregister the callback
+   */
+  onPhotoChange(callback: PhotoChangeCallback): () => void {
+    this.photoChangeCallbacks.push(callback);
+    return () => {
+      const index = this.photoChangeCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.photoChangeCallbacks.splice(index, 1);
+      }
+    };
+  }
+
   /**
    * Checks if the slideshow is currently paused.
    */
@@ -271,6 +463,13 @@ export class Slideshow {
     return this.state.isPaused;
   }
 
+  /**
+   * Gets the error shown instead of the slideshow, if any.
+   */
+  getError(): string | null {
+    return this.state.error;
+  }
+
   /**
    * Gets the current photo being displayed.
    */
@@ -291,12 +490,19 @@ export class Slideshow {
     const oldSettings = this.settings;
     this.settings = newSettings;
 
+    // Overlay settings are cheap to re-apply, so always refresh them
+    this.infoOverlay?.applySettings(newSettings);
+
     // If source changed, reset preload queue
     if (
       oldSettings &&
       (oldSettings.sourceType !== newSettings.sourceType ||
         oldSettings.sourceId !== newSettings.sourceId ||
-        oldSettings.shuffle !== newSettings.shuffle)
+        oldSettings.shuffle !== newSettings.shuffle ||
+        (oldSettings.videoPlayback === VideoPlayback.Skip) !==
+          (newSettings.videoPlayback === VideoPlayback.Skip) ||
+        JSON.stringify(oldSettings.playlistSources ?? []) !==
+          JSON.stringify(newSettings.playlistSources ?? []))
     ) {
       logger.debug("Source changed, clearing preload queue");
       this.preloadedPhotos = [];
@@ -312,6 +518,10 @@ export class Slideshow {
         newSettings.imageFit === ImageFit.Contain ? "contain" : "cover";
       this.currentSlide.style.objectFit = objectFit;
       this.nextSlide.style.objectFit = objectFit;
+      this.currentSlide.style.objectPosition = getObjectPosition(
+        this.currentPhoto,
+        newSettings.imageFit,
+      );
 
       // Update blur background visibility (needs photo URL)
       if (this.currentPhoto) {
@@ -330,17 +540,44 @@ export class Slideshow {
     }
   }
 
+  /**
+   * Handles photo library changes pushed by the API.
+   */
+  private handleLibraryChange(): void {
+    if (this.noPhotosPollingTimer !== null) {
+      logger.info("Photo library changed while empty, restarting slideshow...");
+      this.stopNoPhotosPolling();
+      this.start();
+      return;
+    }
+
+    if (!this.state.isInitialized) return;
+
+    // Queued photos may have been removed or re-organized
+    logger.debug("Photo library changed, refreshing preload queue");
+    this.preloadedPhotos = [];
+    this.preloadPhotos();
+  }
+
   /**
    * Shows the next slide in the sequence.
    */
   private async showNextSlide(): Promise<void> {
     if (this.state.isPaused || !this.state.isInitialized) return;
 
-    // Clean up any current video
-    this.cleanupVideo();
+    await this.advanceSlide();
+  }
 
-    // Clear Ken Burns from next slide only (current slide keeps animation until transition completes)
-    this.clearKenBurnsAnimation(this.nextSlide);
+  /**
+   * Takes the next photo from the preload queue (or the API) and shows it.
+   * After going back, replays forward through history first.
+   */
+  private async advanceSlide(): Promise<void> {
+    if (this.historyIndex < this.history.length - 1) {
+      this.historyIndex++;
+      await this.displayPhoto(this.history[this.historyIndex]);
+      return;
+    }
 
     // Get next photo from preloaded queue or fetch new one
     let nextPhoto = this.preloadedPhotos.shift();
@@ -365,14 +602,80 @@ export class Slideshow {
       this.schedulePreload();
     }
 
+    this.planCollage(nextPhoto);
+    this.recordHistory(nextPhoto);
+    await this.displayPhoto(nextPhoto);
+  }
+
+  /**
+   * Combines a portrait photo with queued photos when collages are enabled
+   * and the screen is landscape. The companions are taken out of the queue.
+   */
+  private planCollage(photo: PhotoDto): void {
+    if (!this.collageView || !this.settings) return;
+
+    const plan = planCollage(
+      photo,
+      this.preloadedPhotos,
+      this.settings.collageLayout ?? CollageLayout.Off,
+      window.innerWidth > window.innerHeight,
+    );
+    if (!plan) return;
+
+    const companions = plan.photos.slice(1);
+    this.preloadedPhotos = this.preloadedPhotos.filter(
+      (queued) => !companions.includes(queued),
+    );
+    this.collagePlans.set(photo, plan);
+  }
+
+  /**
+   * Inserts a photo into the history after the current position.
+   * The oldest entries are dropped once the history is full.
+   */
+  private recordHistory(photo: PhotoDto): void {
+    this.historyIndex++;
+    this.history.splice(this.historyIndex, 0, photo);
+
+    const overflow = this.history.length - this.config.historySize;
+    if (overflow > 0) {
+      this.history.splice(0, overflow);
+      this.historyIndex = Math.max(0, this.historyIndex - overflow);
+    }
+  }
+
+  /**
+   * Transitions to a photo or video and schedules the following slide.
+   * @param reverse Play the transition backwards (used when going back)
+   */
+  private async displayPhoto(photo: PhotoDto, reverse = false): Promise<void> {
+    // Clean up any current video
+    this.cleanupVideo();
+
+    // Clear Ken Burns from next slide only (current slide keeps animation until transition completes)
+    clearKenBurns(this.nextSlide);
+
+    // Collages are only replayed while the setting is still on
+    const plan =
+      this.settings?.collageLayout !== CollageLayout.Off
+        ? this.collagePlans.get(photo)
+        : undefined;
+
     // Transition to the new slide
     try {
-      if (nextPhoto.mediaType === MediaType.Video) {
-        await this.transitionToVideo(nextPhoto);
+      if (plan) {
+        await this.transitionToCollage(plan);
+      } else if (photo.mediaType === MediaType.Video) {
+        this.hideCollage();
+        await this.transitionToVideo(photo);
       } else {
-        await this.transitionTo(nextPhoto);
+        this.hideCollage();
+        await this.transitionTo(photo, reverse);
       }
-      this.currentPhoto = nextPhoto;
+      this.currentPhoto = photo;
+      this.infoOverlay?.setPhoto(photo);
+      this.notifyPhotoChange(photo);
+      this.reportStatus();
     } catch (error) {
       logger.error("Failed to transition to next slide:", error);
     }
@@ -381,6 +684,29 @@ export class Slideshow {
     this.scheduleNextSlide();
   }
 
+  /**
+   * Notifies all registered callbacks of the newly shown photo.
+   */
+  private notifyPhotoChange(photo: PhotoDto): void {
+    for (const callback of this.photoChangeCallbacks) {
+      try {
+        callback(photo);
+      } catch (error) {
+        logger.error("Error in photo change callback:", error);
+      }
+    }
+  }
+
+  /**
+   * Reports the current photo and pause state for the admin remote preview.
+   */
+  private reportStatus(): void {
+    this.apiClient.reportStatus({
+      photoId: this.currentPhoto?.id ?? null,
+      isPaused: this.state.isPaused,
+    });
+  }
+
   /**
    * Schedules the next slide transition.
    */
@@ -417,15 +743,33 @@ export class Slideshow {
     // Hide current image with fade out
     this.currentSlide.classList.add("fade-out");
 
+    const settings = this.settings;
     return new Promise((resolve, reject) => {
-      // Create video element
+      // Create video element; playback starts once its length is known
       const video = document.createElement("video");
-      video.src = videoUrl;
-      video.muted = true; // Required for autoplay
+      applyVideoAudio(video, settings);
       video.playsInline = true;
-      video.autoplay = true;
+      video.preload = "auto";
       video.className = "video-player fade-in";
 
+      let plan = planVideo(photo.duration, settings);
+      let playsLeft = plan.playCount;
+
+      video.onloadedmetadata = () => {
+        // The file knows its length even when the library does not
+        if (!photo.duration && Number.isFinite(video.duration)) {
+          plan = planVideo(video.duration, settings);
+          playsLeft = plan.playCount;
+        }
+        if (plan.startAt > 0) {
+          video.currentTime = plan.startAt;
+        }
+        playVideo(video).catch((error) => {
+          logger.error("Video playback failed:", error);
+          reject(error);
+        });
+      };
+
       // Handle video loaded
       video.oncanplay = () => {
         logger.debug("Video can play");
@@ -435,11 +779,29 @@ export class Slideshow {
         logger.debug("Video started playing");
         // Hide the image
         this.currentSlide.style.opacity = "0";
+
+        // Max duration handling - move on after maxVideoDuration seconds
+        if (plan.stopAfter !== null && this.videoMaxDurationTimer === null) {
+          this.videoMaxDurationTimer = window.setTimeout(() => {
+            logger.debug("Video max duration reached, skipping");
+            this.showNextSlide();
+          }, plan.stopAfter * 1000);
+        }
         resolve();
       };
 
-      // Handle video end - transition to next slide
+      // Handle video end - replay short clips, then transition to next slide
       video.onended = () => {
+        playsLeft--;
+        if (playsLeft > 0) {
+          logger.debug(`Video ended, replaying (${playsLeft} left)`);
+          video.currentTime = 0;
+          playVideo(video).catch((error) => {
+            logger.warn("Video replay failed:", error);
+            this.showNextSlide();
+          });
+          return;
+        }
         logger.debug("Video ended");
         this.showNextSlide();
       };
@@ -451,16 +813,8 @@ export class Slideshow {
         reject(new Error("Failed to load video"));
       };
 
-      // Max duration handling - skip after maxVideoDuration seconds
-      const maxDuration = this.config.maxVideoDuration ?? 30;
-      if (photo.duration && photo.duration > maxDuration) {
-        this.videoMaxDurationTimer = window.setTimeout(() => {
-          logger.debug("Video max duration reached, skipping");
-          this.showNextSlide();
-        }, maxDuration * 1000);
-      }
-
       // Add video to container
+      video.src = videoUrl;
       this.videoContainer.innerHTML = "";
       this.videoContainer.appendChild(video);
       this.videoContainer.classList.remove("hidden");
@@ -495,7 +849,10 @@ export class Slideshow {
   /**
    * Transitions to a new photo with the configured animation.
    */
-  private async transitionTo(photo: PhotoDto): Promise<void> {
+  private async transitionTo(
+    photo: PhotoDto,
+    reverse = false,
+  ): Promise<void> {
     if (!this.settings) return;
 
     const photoUrl = this.apiClient.getPhotoUrl(photo);
@@ -515,166 +872,87 @@ export class Slideshow {
 
     // Set up next slide
     this.nextSlide.src = photoUrl;
+    this.nextSlide.style.objectPosition = getObjectPosition(
+      photo,
+      this.settings.imageFit,
+    );
 
-    // Get transition settings
-    const transition = this.settings.transition;
-    const duration = this.settings.transitionDuration;
-
-    return new Promise((resolve) => {
-      // Apply transition based on type
-      if (transition === TransitionType.Fade) {
-        this.applyFadeTransition(duration, resolve);
-      } else if (transition === TransitionType.Slide) {
-        this.applySlideTransition(duration, resolve);
-      } else if (transition === TransitionType.KenBurns) {
-        this.applyKenBurnsTransition(duration, resolve);
-      } else {
-        // Default: instant switch
-        this.applyInstantTransition(photoUrl, resolve);
-      }
-    });
-  }
-
-  /**
-   * Applies a fade transition between slides.
-   */
-  private applyFadeTransition(duration: number, onComplete: () => void): void {
-    // Show next slide and start fade
-    this.nextSlide.classList.remove("hidden");
-    this.nextSlide.classList.add("visible", "fade-in");
-    this.currentSlide.classList.add("fade-out");
+    // Random mode plays a different transition for every slide
+    const type = pickTransition(this.settings.transition, this.lastTransition);
+    const transition = getTransition(type);
+    if (!transition) {
+      // Default: instant switch
+      return new Promise((resolve) =>
+        this.applyInstantTransition(photoUrl, resolve),
+      );
+    }
+    this.lastTransition = type;
 
-    setTimeout(() => {
-      // Swap slides
-      const nextSrc = this.nextSlide.src;
-      this.currentSlide.src = nextSrc;
+    const context: TransitionContext = {
+      current: this.currentSlide,
+      next: this.nextSlide,
+      photo,
+      duration: this.settings.transitionDuration,
+      slideDuration: this.settings.slideDuration,
+      reverse,
+    };
 
-      // Reset classes
-      this.currentSlide.classList.remove("fade-out");
-      this.nextSlide.classList.remove("visible", "fade-in");
-      this.nextSlide.classList.add("hidden");
-      this.nextSlide.src = "";
+    // Hold a panning Ken Burns slide where it is while it transitions out
+    freezeKenBurns(this.currentSlide);
+    transition.start(context);
 
-      onComplete();
-    }, duration);
-  }
-
-  /**
-   * Applies a slide transition between slides.
-   */
-  private applySlideTransition(duration: number, onComplete: () => void): void {
-    // Show next slide and start slide animation
-    this.nextSlide.classList.remove("hidden");
-    this.nextSlide.classList.add("slide-in-left");
-    this.currentSlide.classList.add("slide-out-left");
+    return new Promise((resolve) => {
+      setTimeout(() => {
+        // Swap slides
+        this.currentSlide.src = this.nextSlide.src;
+        this.currentSlide.style.objectPosition =
+          this.nextSlide.style.objectPosition;
+        clearKenBurns(this.currentSlide);
 
-    setTimeout(() => {
-      // Swap slides
-      const nextSrc = this.nextSlide.src;
-      this.currentSlide.src = nextSrc;
+        transition.end(context);
 
-      // Reset classes
-      this.currentSlide.classList.remove("slide-out-left");
-      this.nextSlide.classList.remove("slide-in-left");
-      this.nextSlide.classList.add("hidden");
-      this.nextSlide.src = "";
+        // Reset next slide
+        this.nextSlide.classList.add("hidden");
+        this.nextSlide.src = "";
 
-      onComplete();
-    }, duration);
+        resolve();
+      }, context.duration);
+    });
   }
 
   /**
-   * Applies a Ken Burns transition (pan and zoom effect).
-   * The image fades in, then slowly pans and zooms during the slide duration.
+   * Fades in a collage over the slides.
    */
-  private applyKenBurnsTransition(
-    duration: number,
-    onComplete: () => void,
-  ): void {
-    // Freeze current slide at its final Ken Burns position before fading
-    this.freezeKenBurnsPosition(this.currentSlide);
-
-    // Generate random pan direction for variety
-    const xDir = Math.random() > 0.5 ? 1 : -1;
-    const yDir = Math.random() > 0.5 ? 1 : -1;
-    const xAmount = (Math.random() * 1 + 0.5) * xDir; // 0.5% to 1.5%
-    const yAmount = (Math.random() * 1 + 0.5) * yDir; // 0.5% to 1.5%
-
-    // Set CSS custom properties for the Ken Burns animation
-    const slideDuration = this.settings?.slideDuration ?? 10;
-    this.nextSlide.style.setProperty("--slide-duration", `${slideDuration}s`);
-    this.nextSlide.style.setProperty("--transition-duration", `${duration}ms`);
-    this.nextSlide.style.setProperty("--ken-burns-x", `${xAmount}%`);
-    this.nextSlide.style.setProperty("--ken-burns-y", `${yAmount}%`);
-
-    // Show next slide with Ken Burns fade-in, then apply Ken Burns pan/zoom
-    this.nextSlide.classList.remove("hidden");
-    this.nextSlide.classList.add("visible", "ken-burns-fade-in");
-    this.currentSlide.classList.add("fade-out");
+  private async transitionToCollage(plan: CollagePlan): Promise<void> {
+    if (!this.settings || !this.collageView) return;
 
-    // After fade transition, start the Ken Burns pan/zoom effect
-    setTimeout(() => {
-      // Remove fade class and add Ken Burns pan/zoom
-      this.nextSlide.classList.remove("ken-burns-fade-in");
-      this.nextSlide.classList.add("ken-burns");
-
-      // Swap slides
-      const nextSrc = this.nextSlide.src;
-      this.currentSlide.src = nextSrc;
-
-      // Clear the frozen position and reset current slide
-      this.clearKenBurnsAnimation(this.currentSlide);
-
-      // Copy Ken Burns properties to current slide
-      this.currentSlide.style.setProperty(
-        "--slide-duration",
-        `${slideDuration}s`,
+    const urls = plan.photos.map((photo) => this.apiClient.getPhotoUrl(photo));
+    try {
+      await Promise.all(urls.map((url) => this.apiClient.preloadImage(url)));
+    } catch (error) {
+      logger.warn(
+        "Failed to preload collage images, attempting to display anyway:",
+        error,
       );
-      this.currentSlide.style.setProperty("--ken-burns-x", `${xAmount}%`);
-      this.currentSlide.style.setProperty("--ken-burns-y", `${yAmount}%`);
-      this.currentSlide.classList.add("ken-burns");
-
-      // Reset next slide
-      this.currentSlide.classList.remove("fade-out");
-      this.nextSlide.classList.remove("visible", "ken-burns");
-      this.nextSlide.classList.add("hidden");
-      this.nextSlide.src = "";
-
-      onComplete();
-    }, duration);
-  }
-
-  /**
-   * Freezes the Ken Burns animation at its current position.
-   * Gets the computed transform and applies it as an inline style,
-   * then removes the animation class so it doesn't snap back.
-   */
-  private freezeKenBurnsPosition(element: HTMLElement): void {
-    if (!element.classList.contains("ken-burns")) return;
-
-    // Get the current computed transform
-    const computedStyle = window.getComputedStyle(element);
-    const currentTransform = computedStyle.transform;
-
-    // Apply the current transform as an inline style
-    if (currentTransform && currentTransform !== "none") {
-      element.style.transform = currentTransform;
     }
 
-    // Remove the animation class (the inline transform keeps it in place)
-    element.classList.remove("ken-burns");
+    const tiles = plan.photos.map((photo, index) => ({
+      url: urls[index],
+      position: getObjectPosition(photo, ImageFit.Cover),
+    }));
+    await this.collageView.show(
+      plan.arrangement,
+      tiles,
+      this.settings.transitionDuration,
+    );
   }
 
   /**
-   * Clears Ken Burns animation from an element.
+   * Fades out the collage while the next slide transitions in underneath.
    */
-  private clearKenBurnsAnimation(element: HTMLElement): void {
-    element.classList.remove("ken-burns", "ken-burns-fade-in");
-    element.style.removeProperty("--slide-duration");
-    element.style.removeProperty("--transition-duration");
-    element.style.removeProperty("--ken-burns-x");
-    element.style.removeProperty("--ken-burns-y");
-    element.style.removeProperty("transform"); // Clear frozen position
+  private hideCollage(): void {
+    if (!this.settings) return;
+    this.collageView?.hide(this.settings.transitionDuration);
   }
 
   /**
@@ -685,6 +963,8 @@ export class Slideshow {
     onComplete: () => void,
   ): void {
     this.currentSlide.src = photoUrl;
+    this.currentSlide.style.objectPosition =
+      this.nextSlide.style.objectPosition;
     onComplete();
   }
 
@@ -744,18 +1024,62 @@ export class Slideshow {
     }
   }
 
+  /**
+   * Reloads the settings after the device registers while the slideshow is
+   * running, so the profile assigned to the device replaces the active one.
+   */
+  private async handleRegistered(): Promise<void> {
+    if (!this.state.isInitialized) return;
+
+    const settingsResult = await this.apiClient.getSettings();
+    if (settingsResult.success) {
+      this.handleSettingsChange(settingsResult.data);
+    } else {
+      logger.warn("Failed to load the device's settings after registering");
+    }
+  }
+
+  /**
+   * Refreshes the preload queue right away when the network comes back
+   * while playing from the offline playlist. Also retries a failed device
+   * registration.
+   */
+  private handleOnline(): void {
+    if (!this.state.isInitialized) return;
+
+    // Registration failed while the API was unreachable; try again now
+    if (!this.apiClient.isRegistered()) {
+      void this.apiClient.registerDevice();
+    }
+
+    if (!this.apiClient.isOffline()) return;
+
+    logger.info("Network back online, re-syncing with the API");
+    this.schedulePreload();
+  }
+
   /**
    * Preloads photos into the queue.
    */
   private async preloadPhotos(): Promise<void> {
     logger.debug("Preloading photos...");
 
+    const wasOffline = this.apiClient.isOffline();
     const photos = await this.apiClient.preloadPhotosWithImages(
       this.config.preloadCount,
     );
 
+    if (wasOffline && !this.apiClient.isOffline()) {
+      // Back online: the live playlist replaces the cached photos still queued
+      this.preloadedPhotos = [];
+    }
+
     if (photos.length > 0) {
-      this.preloadedPhotos.push(...photos);
+      // Offline playlists may still hold videos from before they were skipped
+      const settings = this.settings;
+      this.preloadedPhotos.push(
+        ...photos.filter((photo) => !settings || isPlayable(photo, settings)),
+      );
       logger.debug(
         `Preloaded ${photos.length} photos, queue size: ${this.preloadedPhotos.length}`,
       );
@@ -783,10 +1107,7 @@ export class Slideshow {
    * the QR code should fade out independently of slideshow pause/resume.
    */
   private clearTimers(): void {
-    if (this.slideTimer !== null) {
-      clearTimeout(this.slideTimer);
-      this.slideTimer = null;
-    }
+    this.clearSlideTimer();
     if (this.preloadTimer !== null) {
       clearTimeout(this.preloadTimer);
       this.preloadTimer = null;
@@ -799,6 +1120,16 @@ export class Slideshow {
     // The QR overlay should continue its countdown even when paused
   }
 
+  /**
+   * Cancels the pending slide transition.
+   */
+  private clearSlideTimer(): void {
+    if (this.slideTimer !== null) {
+      clearTimeout(this.slideTimer);
+      this.slideTimer = null;
+    }
+  }
+
   /**
    * Shows or hides the loading indicator.
    */
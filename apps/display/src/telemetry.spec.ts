@@ -0,0 +1,200 @@
+/**
+ * Unit tests for telemetry.ts
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { HEARTBEAT_INTERVAL, MAX_PENDING_ERRORS, Telemetry } from "./telemetry";
+import type { ApiClient, ApiResult } from "./api-client";
+import type { DisplayHeartbeat } from "./types";
+
+vi.mock("./config", () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function createClient(
+  result: ApiResult<void> = { success: true, data: undefined },
+) {
+  return {
+    sendHeartbeat: vi.fn(
+      async (_heartbeat: DisplayHeartbeat): Promise<ApiResult<void>> => result,
+    ),
+    getLastSuccessfulFetchAt: vi.fn(() => "2026-10-19T08:00:00.000Z"),
+    registerDevice: vi.fn(async () => ({ success: true })),
+  };
+}
+
+function lastHeartbeat(client: ReturnType<typeof createClient>) {
+  return client.sendHeartbeat.mock.calls.at(-1)![0];
+}
+
+describe("Telemetry", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-19T09:00:00Z"));
+    vi.stubGlobal("navigator", {
+      storage: {
+        estimate: vi.fn(async () => ({ usage: 1024, quota: 4096 })),
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("should report the display state in the heartbeat", async () => {
+    const telemetry = new Telemetry();
+    const client = createClient();
+    vi.advanceTimersByTime(90_000);
+
+    telemetry.start(client as unknown as ApiClient, () => 42);
+    await vi.advanceTimersByTimeAsync(0);
+    telemetry.stop();
+
+    expect(lastHeartbeat(client)).toMatchObject({
+      currentPhotoId: 42,
+      uptimeSeconds: 90,
+      lastSuccessfulFetchAt: "2026-10-19T08:00:00.000Z",
+      errorCount: 0,
+      cacheUsageBytes: 1024,
+      cacheQuotaBytes: 4096,
+      screenWidth: window.screen.width,
+      screenHeight: window.screen.height,
+      errors: [],
+    });
+  });
+
+  it("should send a heartbeat every interval until stopped", async () => {
+    const telemetry = new Telemetry();
+    const client = createClient();
+
+    telemetry.start(client as unknown as ApiClient, () => null);
+    await vi.advanceTimersByTimeAsync(HEARTBEAT_INTERVAL * 2);
+    expect(client.sendHeartbeat).toHaveBeenCalledTimes(3);
+
+    telemetry.stop();
+    await vi.advanceTimersByTimeAsync(HEARTBEAT_INTERVAL * 2);
+    expect(client.sendHeartbeat).toHaveBeenCalledTimes(3);
+  });
+
+  it("should send recorded errors once and keep counting them", async () => {
+    const telemetry = new Telemetry();
+    const client = createClient();
+    telemetry.recordError("Boom", "main.js:1:2");
+
+    telemetry.start(client as unknown as ApiClient, () => null);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(lastHeartbeat(client).errors).toEqual([
+      {
+        occurredAt: "2026-10-19T09:00:00.000Z",
+        message: "Boom",
+        source: "main.js:1:2",
+      },
+    ]);
+
+    telemetry.recordError("Again");
+    await vi.advanceTimersByTimeAsync(HEARTBEAT_INTERVAL);
+    telemetry.stop();
+
+    expect(lastHeartbeat(client).errorCount).toBe(2);
+    expect(lastHeartbeat(client).errors.map((e) => e.message)).toEqual([
+      "Again",
+    ]);
+  });
+
+  it("should keep errors until a heartbeat is accepted", async () => {
+    const telemetry = new Telemetry();
+    const client = createClient({
+      success: false,
+      error: { code: "NETWORK_ERROR", message: "offline" },
+    });
+    telemetry.recordError("Boom");
+
+    telemetry.start(client as unknown as ApiClient, () => null);
+    await vi.advanceTimersByTimeAsync(HEARTBEAT_INTERVAL);
+    telemetry.stop();
+
+    expect(client.sendHeartbeat).toHaveBeenCalledTimes(2);
+    expect(lastHeartbeat(client).errors).toHaveLength(1);
+    expect(client.registerDevice).not.toHaveBeenCalled();
+  });
+
+  it("should only keep the most recent errors", async () => {
+    const telemetry = new Telemetry();
+    const client = createClient();
+    for (let i = 0; i < MAX_PENDING_ERRORS + 5; i++) {
+      telemetry.recordError(`Error ${i}`);
+    }
+
+    telemetry.start(client as unknown as ApiClient, () => null);
+    await vi.advanceTimersByTimeAsync(0);
+    telemetry.stop();
+
+    const heartbeat = lastHeartbeat(client);
+    expect(heartbeat.errorCount).toBe(MAX_PENDING_ERRORS + 5);
+    expect(heartbeat.errors).toHaveLength(MAX_PENDING_ERRORS);
+    expect(heartbeat.errors[0].message).toBe("Error 5");
+  });
+
+  it("should only clear the errors that were sent", async () => {
+    const telemetry = new Telemetry();
+    const client = createClient();
+    telemetry.recordError("Boom");
+    client.sendHeartbeat.mockImplementationOnce(async () => {
+      // Enough new errors to push the one being sent out of the queue
+      for (let i = 0; i < MAX_PENDING_ERRORS; i++) {
+        telemetry.recordError(`Error ${i}`);
+      }
+      return { success: true, data: undefined };
+    });
+
+    telemetry.start(client as unknown as ApiClient, () => null);
+    await vi.advanceTimersByTimeAsync(HEARTBEAT_INTERVAL);
+    telemetry.stop();
+
+    const errors = lastHeartbeat(client).errors;
+    expect(errors).toHaveLength(MAX_PENDING_ERRORS);
+    expect(errors[0].message).toBe("Error 0");
+  });
+
+  it.each(["DEVICE_NOT_FOUND", "NOT_REGISTERED"])(
+    "should register again on %s",
+    async (code) => {
+      const telemetry = new Telemetry();
+      const client = createClient({
+        success: false,
+        error: { code, message: "not registered" },
+      });
+
+      telemetry.start(client as unknown as ApiClient, () => null);
+      await vi.advanceTimersByTimeAsync(0);
+      telemetry.stop();
+
+      expect(client.registerDevice).toHaveBeenCalledTimes(1);
+    },
+  );
+
+  it("should report unknown storage and heap without the browser APIs", async () => {
+    vi.stubGlobal("navigator", {});
+    const telemetry = new Telemetry();
+    const client = createClient();
+
+    telemetry.start(client as unknown as ApiClient, () => null);
+    await vi.advanceTimersByTimeAsync(0);
+    telemetry.stop();
+
+    expect(lastHeartbeat(client)).toMatchObject({
+      cacheUsageBytes: null,
+      cacheQuotaBytes: null,
+      jsHeapUsedBytes: null,
+      jsHeapLimitBytes: null,
+    });
+  });
+});
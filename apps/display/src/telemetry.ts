@@ -0,0 +1,140 @@
+/**
+ * Health telemetry for the display frontend.
+ * Collects runtime errors and periodically reports the display's health
+ * to the backend so the admin UI can tell which frames are working.
+ */
+
+import { logger } from "./config";
+import type { ApiClient } from "./api-client";
+import type { DisplayErrorReport, DisplayHeartbeat } from "./types";
+
+/** Interval between heartbeats (ms). */
+export const HEARTBEAT_INTERVAL = 60000;
+
+/** Most errors kept between heartbeats; matches the backend limit. */
+export const MAX_PENDING_ERRORS = 50;
+
+/**
+ * Non-standard Chromium extension exposing JS heap usage.
+ */
+interface PerformanceMemory {
+  usedJSHeapSize: number;
+  jsHeapSizeLimit: number;
+}
+
+/**
+ * Reports display health to the backend.
+ * Errors can be recorded before start() so failures during startup are
+ * included in the first heartbeat.
+ */
+export class Telemetry {
+  private readonly startedAt = Date.now();
+  private client: ApiClient | null = null;
+  private getCurrentPhotoId: () => number | null = () => null;
+  private heartbeatTimer: number | null = null;
+  private errorCount = 0;
+  private pendingErrors: DisplayErrorReport[] = [];
+
+  /**
+   * Records an error to send with the next heartbeat.
+   */
+  recordError(message: string, source: string | null = null): void {
+    this.errorCount++;
+    this.pendingErrors.push({
+      occurredAt: new Date().toISOString(),
+      message,
+      source,
+    });
+    if (this.pendingErrors.length > MAX_PENDING_ERRORS) {
+      this.pendingErrors.splice(
+        0,
+        this.pendingErrors.length - MAX_PENDING_ERRORS,
+      );
+    }
+  }
+
+  /**
+   * Starts sending heartbeats, beginning with one right away.
+   * @param client API client of the running slideshow
+   * @param getCurrentPhotoId Returns the photo currently on screen
+   */
+  start(client: ApiClient, getCurrentPhotoId: () => number | null): void {
+    this.stop();
+    this.client = client;
+    this.getCurrentPhotoId = getCurrentPhotoId;
+    void this.sendHeartbeat();
+    this.heartbeatTimer = window.setInterval(() => {
+      void this.sendHeartbeat();
+    }, HEARTBEAT_INTERVAL);
+    logger.debug("Telemetry started");
+  }
+
+  /**
+   * Stops sending heartbeats. Recorded errors are kept.
+   */
+  stop(): void {
+    if (this.heartbeatTimer !== null) {
+      window.clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.client = null;
+  }
+
+  /**
+   * Sends a heartbeat now. Errors are only cleared once the backend has
+   * accepted them, and the device is registered again if it was removed or
+   * never registered.
+   */
+  async sendHeartbeat(): Promise<void> {
+    const client = this.client;
+    if (!client) return;
+
+    const heartbeat = await this.collect(client);
+    const result = await client.sendHeartbeat(heartbeat);
+
+    if (result.success) {
+      // Errors recorded while sending may have pushed sent ones out already
+      const sent = new Set(heartbeat.errors);
+      this.pendingErrors = this.pendingErrors.filter((e) => !sent.has(e));
+      return;
+    }
+
+    if (result.error.code === "DEVICE_NOT_FOUND") {
+      logger.info("Device missing from registry, registering again");
+      await client.registerDevice();
+    } else if (result.error.code === "NOT_REGISTERED") {
+      logger.info("Device not registered yet, retrying registration");
+      await client.registerDevice();
+    }
+  }
+
+  private async collect(client: ApiClient): Promise<DisplayHeartbeat> {
+    const storage = await this.estimateStorage();
+    const memory = (performance as Performance & { memory?: PerformanceMemory })
+      .memory;
+
+    return {
+      currentPhotoId: this.getCurrentPhotoId(),
+      uptimeSeconds: Math.floor((Date.now() - this.startedAt) / 1000),
+      lastSuccessfulFetchAt: client.getLastSuccessfulFetchAt(),
+      errorCount: this.errorCount,
+      cacheUsageBytes: storage?.usage ?? null,
+      cacheQuotaBytes: storage?.quota ?? null,
+      screenWidth: window.screen.width,
+      screenHeight: window.screen.height,
+      jsHeapUsedBytes: memory?.usedJSHeapSize ?? null,
+      jsHeapLimitBytes: memory?.jsHeapSizeLimit ?? null,
+      errors: [...this.pendingErrors],
+    };
+  }
+
+  private async estimateStorage(): Promise<StorageEstimate | null> {
+    if (!navigator.storage?.estimate) return null;
+    try {
+      return await navigator.storage.estimate();
+    } catch (error) {
+      logger.warn("Failed to estimate storage usage:", error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Blur transition: the current photo blurs away while the next one comes
+ * into focus.
+ */
+
+import { cssTransition } from "./transition";
+
+export const blur = cssTransition(() => ({
+  enter: ["blur-in"],
+  exit: ["blur-out"],
+}));
@@ -0,0 +1,14 @@
+/**
+ * Cube transition: the photos turn like two faces of a cube.
+ * Going back turns the cube the other way.
+ */
+
+import { cssTransition } from "./transition";
+
+export const cube = cssTransition((reverse) => {
+  const direction = reverse ? "right" : "left";
+  return {
+    enter: [`cube-in-${direction}`],
+    exit: [`cube-out-${direction}`],
+  };
+});
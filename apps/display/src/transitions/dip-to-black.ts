@@ -0,0 +1,11 @@
+/**
+ * Dip-to-black transition: the current photo fades to black during the first
+ * half of the transition, and the next photo fades in from black.
+ */
+
+import { cssTransition } from "./transition";
+
+export const dipToBlack = cssTransition(() => ({
+  enter: ["dip-to-black-in"],
+  exit: ["dip-to-black-out"],
+}));
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the CSS transition effects: blur, cube, dip-to-black, fade,
+ * flip, slide and zoom. The cssTransition contract they share is covered in
+ * transition.spec.ts.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { Transition } from "./transition";
+import { blur } from "./blur";
+import { cube } from "./cube";
+import { dipToBlack } from "./dip-to-black";
+import { fade } from "./fade";
+import { flip } from "./flip";
+import { slideDown, slideLeft, slideRight, slideUp } from "./slide";
+import { zoom } from "./zoom";
+import { createContext } from "./test-context";
+
+/** Classes added to the next and current slide. */
+type SlideClasses = [next: string[], current: string[]];
+
+describe("transition effects", () => {
+  it.each<[string, Transition, SlideClasses, SlideClasses]>([
+    [
+      "fade",
+      fade,
+      [["visible", "fade-in"], ["fade-out"]],
+      [["visible", "fade-in"], ["fade-out"]],
+    ],
+    ["blur", blur, [["blur-in"], ["blur-out"]], [["blur-in"], ["blur-out"]]],
+    [
+      "dipToBlack",
+      dipToBlack,
+      [["dip-to-black-in"], ["dip-to-black-out"]],
+      [["dip-to-black-in"], ["dip-to-black-out"]],
+    ],
+    [
+      "zoom",
+      zoom,
+      [["zoom-in-enter"], ["zoom-in-exit"]],
+      [["zoom-out-enter"], ["zoom-out-exit"]],
+    ],
+    [
+      "cube",
+      cube,
+      [["cube-in-left"], ["cube-out-left"]],
+      [["cube-in-right"], ["cube-out-right"]],
+    ],
+    [
+      "flip",
+      flip,
+      [["flip-in-left"], ["flip-out-left"]],
+      [["flip-in-right"], ["flip-out-right"]],
+    ],
+    [
+      "slideLeft",
+      slideLeft,
+      [["slide-in-left"], ["slide-out-left"]],
+      [["slide-in-right"], ["slide-out-right"]],
+    ],
+    [
+      "slideRight",
+      slideRight,
+      [["slide-in-right"], ["slide-out-right"]],
+      [["slide-in-left"], ["slide-out-left"]],
+    ],
+    [
+      "slideUp",
+      slideUp,
+      [["slide-in-up"], ["slide-out-up"]],
+      [["slide-in-down"], ["slide-out-down"]],
+    ],
+    [
+      "slideDown",
+      slideDown,
+      [["slide-in-down"], ["slide-out-down"]],
+      [["slide-in-up"], ["slide-out-up"]],
+    ],
+  ])(
+    "%s should animate forwards and back",
+    (_name, transition, forward, back) => {
+      const forwards = createContext();
+      transition.start(forwards);
+      expect([
+        Array.from(forwards.next.classList),
+        Array.from(forwards.current.classList),
+      ]).toEqual(forward);
+
+      const backwards = createContext({ reverse: true });
+      transition.start(backwards);
+      expect([
+        Array.from(backwards.next.classList),
+        Array.from(backwards.current.classList),
+      ]).toEqual(back);
+    },
+  );
+});
@@ -0,0 +1,10 @@
+/**
+ * Fade transition: crossfades from one photo to the next.
+ */
+
+import { cssTransition } from "./transition";
+
+export const fade = cssTransition(() => ({
+  enter: ["visible", "fade-in"],
+  exit: ["fade-out"],
+}));
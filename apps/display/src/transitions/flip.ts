@@ -0,0 +1,14 @@
+/**
+ * Flip transition: the current photo flips over like a card, with the next
+ * photo on its back. Going back flips the other way.
+ */
+
+import { cssTransition } from "./transition";
+
+export const flip = cssTransition((reverse) => {
+  const direction = reverse ? "right" : "left";
+  return {
+    enter: [`flip-in-${direction}`],
+    exit: [`flip-out-${direction}`],
+  };
+});
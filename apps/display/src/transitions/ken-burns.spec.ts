@@ -0,0 +1,87 @@
+/**
+ * Unit tests for transitions/ken-burns.ts
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { clearKenBurns, freezeKenBurns, kenBurns } from "./ken-burns";
+import { createContext as createBaseContext } from "./test-context";
+
+function createContext() {
+  const context = createBaseContext({ slideDuration: 15 });
+  context.photo = { ...context.photo, focalPointX: 0.9, focalPointY: 0.1 };
+  return context;
+}
+
+describe("kenBurns", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should fade the next photo in with its pan and zoom", () => {
+    const context = createContext();
+
+    kenBurns.start(context);
+
+    const { next, current } = context;
+    expect([...next.classList]).toEqual(["visible", "ken-burns-fade-in"]);
+    expect([...current.classList]).toEqual(["fade-out"]);
+    expect(next.style.getPropertyValue("--slide-duration")).toBe("15s");
+    expect(next.style.getPropertyValue("--transition-duration")).toBe("1000ms");
+    expect(next.style.transformOrigin).toBe("90% 10%");
+  });
+
+  it("should keep panning the photo on the current slide", () => {
+    const context = createContext();
+
+    kenBurns.start(context);
+    const x = context.next.style.getPropertyValue("--ken-burns-x");
+    kenBurns.end(context);
+
+    const { next, current } = context;
+    expect([...current.classList]).toEqual(["ken-burns"]);
+    expect(current.style.getPropertyValue("--slide-duration")).toBe("15s");
+    expect(current.style.getPropertyValue("--ken-burns-x")).toBe(x);
+    expect(current.style.transformOrigin).toBe("90% 10%");
+    expect([...next.classList]).toEqual([]);
+    expect(next.style.getPropertyValue("--ken-burns-x")).toBe("");
+    expect(next.style.transformOrigin).toBe("");
+  });
+
+  it("should freeze a panning slide where it is", () => {
+    const element = document.createElement("img");
+    element.classList.add("ken-burns");
+    vi.spyOn(window, "getComputedStyle").mockReturnValue({
+      transform: "matrix(1.02, 0, 0, 1.02, 4, 2)",
+    } as CSSStyleDeclaration);
+
+    freezeKenBurns(element);
+
+    expect(element.classList.contains("ken-burns")).toBe(false);
+    expect(element.style.transform).toBe("matrix(1.02, 0, 0, 1.02, 4, 2)");
+  });
+
+  it("should leave slides without Ken Burns alone when freezing", () => {
+    const element = document.createElement("img");
+    const getComputedStyle = vi.spyOn(window, "getComputedStyle");
+
+    freezeKenBurns(element);
+
+    expect(getComputedStyle).not.toHaveBeenCalled();
+    expect(element.style.transform).toBe("");
+  });
+
+  it("should clear the animation and frozen position", () => {
+    const element = document.createElement("img");
+    element.classList.add("ken-burns", "other");
+    element.style.setProperty("--ken-burns-x", "1%");
+    element.style.transform = "scale(1.05)";
+    element.style.transformOrigin = "10% 10%";
+
+    clearKenBurns(element);
+
+    expect([...element.classList]).toEqual(["other"]);
+    expect(element.style.getPropertyValue("--ken-burns-x")).toBe("");
+    expect(element.style.transform).toBe("");
+    expect(element.style.transformOrigin).toBe("");
+  });
+});
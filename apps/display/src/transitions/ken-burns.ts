@@ -0,0 +1,128 @@
+/**
+ * Ken Burns transition: the next photo fades in, then slowly pans and zooms
+ * for as long as it stays on screen.
+ */
+
+import type { PhotoDto } from "../types";
+import type { Transition } from "./transition";
+
+/**
+ * Pan and zoom origin for one Ken Burns slide.
+ */
+export interface KenBurnsMotion {
+  /** Horizontal pan in percent of the image width. */
+  x: number;
+  /** Vertical pan in percent of the image height. */
+  y: number;
+  /** CSS transform-origin to zoom around, or "" for the centre. */
+  origin: string;
+}
+
+/**
+ * Picks the Ken Burns pan for a photo. Without a focal point the direction is
+ * random; with one, the image zooms around the point and pans it toward the
+ * centre of the screen, further the closer it sits to an edge.
+ */
+export function getKenBurnsMotion(
+  photo: PhotoDto | null,
+  random: () => number = Math.random,
+): KenBurnsMotion {
+  const fx = photo?.focalPointX;
+  const fy = photo?.focalPointY;
+  const hasFocalPoint = fx != null && fy != null;
+  return {
+    x: getKenBurnsPan(hasFocalPoint ? fx : null, random),
+    y: getKenBurnsPan(hasFocalPoint ? fy : null, random),
+    origin: hasFocalPoint ? `${fx * 100}% ${fy * 100}%` : "",
+  };
+}
+
+/**
+ * Pan along one axis: 0.5% to 1.5%, towards the focal point when it is off-centre.
+ */
+function getKenBurnsPan(
+  focalPoint: number | null,
+  random: () => number,
+): number {
+  const offset = focalPoint === null ? 0 : 0.5 - focalPoint;
+  if (Math.abs(offset) < 0.05) {
+    const direction = random() > 0.5 ? 1 : -1;
+    return (random() * 1 + 0.5) * direction;
+  }
+  // Moving the image away from the point's side brings the point inwards
+  return Math.sign(offset) * (0.5 + Math.min(Math.abs(offset), 0.5) * 2);
+}
+
+/** Custom properties that drive the Ken Burns animation. */
+const MOTION_PROPERTIES = [
+  "--slide-duration",
+  "--ken-burns-x",
+  "--ken-burns-y",
+];
+
+/**
+ * Freezes the Ken Burns animation at its current position.
+ * Gets the computed transform and applies it as an inline style,
+ * then removes the animation class so it doesn't snap back.
+ */
+export function freezeKenBurns(element: HTMLElement): void {
+  if (!element.classList.contains("ken-burns")) return;
+
+  // Get the current computed transform
+  const computedStyle = window.getComputedStyle(element);
+  const currentTransform = computedStyle.transform;
+
+  // Apply the current transform as an inline style
+  if (currentTransform && currentTransform !== "none") {
+    element.style.transform = currentTransform;
+  }
+
+  // Remove the animation class (the inline transform keeps it in place)
+  element.classList.remove("ken-burns");
+}
+
+/**
+ * Clears Ken Burns animation from an element.
+ */
+export function clearKenBurns(element: HTMLElement): void {
+  element.classList.remove("ken-burns", "ken-burns-fade-in");
+  for (const property of MOTION_PROPERTIES) {
+    element.style.removeProperty(property);
+  }
+  element.style.removeProperty("--transition-duration");
+  element.style.removeProperty("transform"); // Clear frozen position
+  element.style.removeProperty("transform-origin");
+}
+
+export const kenBurns: Transition = {
+  start({ current, next, photo, duration, slideDuration }) {
+    // Pan toward the focal point, or in a random direction for variety
+    const motion = getKenBurnsMotion(photo);
+
+    next.style.setProperty("--slide-duration", `${slideDuration}s`);
+    next.style.setProperty("--transition-duration", `${duration}ms`);
+    next.style.setProperty("--ken-burns-x", `${motion.x}%`);
+    next.style.setProperty("--ken-burns-y", `${motion.y}%`);
+    next.style.transformOrigin = motion.origin;
+
+    // Fade the next slide in; the pan and zoom starts once it is on screen
+    next.classList.remove("hidden");
+    next.classList.add("visible", "ken-burns-fade-in");
+    current.classList.add("fade-out");
+  },
+  end({ current, next }) {
+    // Carry the motion over to the current slide and start panning
+    for (const property of MOTION_PROPERTIES) {
+      current.style.setProperty(
+        property,
+        next.style.getPropertyValue(property),
+      );
+    }
+    current.style.transformOrigin = next.style.transformOrigin;
+    current.classList.add("ken-burns");
+    current.classList.remove("fade-out");
+
+    next.classList.remove("visible");
+    clearKenBurns(next);
+  },
+};
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for transitions/registry.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { getTransition, pickTransition, registerTransition } from "./registry";
+import { cssTransition } from "./transition";
+import { fade } from "./fade";
+import { slideLeft } from "./slide";
+import { TransitionType } from "../types";
+
+describe("transition registry", () => {
+  it("should have a transition for every type except Random", () => {
+    const types = Object.values(TransitionType).filter(
+      (value): value is TransitionType => typeof value === "number",
+    );
+
+    for (const type of types) {
+      if (type === TransitionType.Random) {
+        expect(getTransition(type)).toBeUndefined();
+      } else {
+        expect(getTransition(type)).toBeDefined();
+      }
+    }
+    expect(getTransition(TransitionType.Fade)).toBe(fade);
+    expect(getTransition(TransitionType.Slide)).toBe(slideLeft);
+  });
+
+  it("should play the configured transition", () => {
+    expect(pickTransition(TransitionType.Cube, TransitionType.Cube)).toBe(
+      TransitionType.Cube,
+    );
+  });
+
+  it("should pick a different transition each slide in Random mode", () => {
+    // The lowest random value picks the first candidate
+    expect(pickTransition(TransitionType.Random, null, () => 0)).toBe(
+      TransitionType.Fade,
+    );
+    expect(
+      pickTransition(TransitionType.Random, TransitionType.Fade, () => 0),
+    ).toBe(TransitionType.Slide);
+
+    let previous: TransitionType | null = null;
+    for (let i = 0; i < 50; i++) {
+      const picked = pickTransition(TransitionType.Random, previous);
+      expect(picked).not.toBe(previous);
+      expect(picked).not.toBe(TransitionType.Random);
+      previous = picked;
+    }
+  });
+
+  it("should include registered transitions", () => {
+    const custom = cssTransition(() => ({ enter: ["a"], exit: ["b"] }));
+    const type = 99 as TransitionType;
+
+    registerTransition(type, custom);
+
+    expect(getTransition(type)).toBe(custom);
+    expect(pickTransition(TransitionType.Random, null, () => 0.9999)).toBe(
+      type,
+    );
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Transition registry.
+ * Maps each TransitionType to its implementation and picks the transition
+ * for every slide, including a different one per slide in Random mode.
+ */
+
+import { TransitionType } from "../types";
+import type { Transition } from "./transition";
+import { blur } from "./blur";
+import { cube } from "./cube";
+import { dipToBlack } from "./dip-to-black";
+import { fade } from "./fade";
+import { flip } from "./flip";
+import { kenBurns } from "./ken-burns";
+import { slideDown, slideLeft, slideRight, slideUp } from "./slide";
+import { zoom } from "./zoom";
+
+const transitions = new Map<TransitionType, Transition>([
+  [TransitionType.Fade, fade],
+  [TransitionType.Slide, slideLeft],
+  [TransitionType.KenBurns, kenBurns],
+  [TransitionType.Zoom, zoom],
+  [TransitionType.DipToBlack, dipToBlack],
+  [TransitionType.SlideRight, slideRight],
+  [TransitionType.SlideUp, slideUp],
+  [TransitionType.SlideDown, slideDown],
+  [TransitionType.Cube, cube],
+  [TransitionType.Flip, flip],
+  [TransitionType.Blur, blur],
+]);
+
+/**
+ * Adds a transition, or replaces the one registered for the type.
+ * Registered transitions are included in Random mode.
+ */
+export function registerTransition(
+  type: TransitionType,
+  transition: Transition,
+): void {
+  transitions.set(type, transition);
+}
+
+/**
+ * Returns the transition for a type, or undefined when none is registered.
+ */
+export function getTransition(type: TransitionType): Transition | undefined {
+  return transitions.get(type);
+}
+
+/**
+ * Resolves the configured transition to the one to play for the next slide.
+ * Random mode picks any registered transition other than the previous one.
+ * @param previous Transition played for the previous slide, if any
+ * @param random Source of randomness (0 to 1)
+ */
+export function pickTransition(
+  type: TransitionType,
+  previous: TransitionType | null,
+  random: () => number = Math.random,
+): TransitionType {
+  if (type !== TransitionType.Random) return type;
+
+  const all = [...transitions.keys()];
+  const candidates = all.filter((candidate) => candidate !== previous);
+  const pool = candidates.length > 0 ? candidates : all;
+  return pool[Math.floor(random() * pool.length) % pool.length];
+}
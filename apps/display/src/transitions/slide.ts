@@ -0,0 +1,33 @@
+/**
+ * Slide transitions: the next photo pushes the current one off screen.
+ * Going back through history slides the opposite way.
+ */
+
+import { cssTransition, type Transition } from "./transition";
+
+/**
+ * Direction the photos move in.
+ */
+type SlideDirection = "left" | "right" | "up" | "down";
+
+const OPPOSITE: Record<SlideDirection, SlideDirection> = {
+  left: "right",
+  right: "left",
+  up: "down",
+  down: "up",
+};
+
+function slide(direction: SlideDirection): Transition {
+  return cssTransition((reverse) => {
+    const moving = reverse ? OPPOSITE[direction] : direction;
+    return {
+      enter: [`slide-in-${moving}`],
+      exit: [`slide-out-${moving}`],
+    };
+  });
+}
+
+export const slideLeft = slide("left");
+export const slideRight = slide("right");
+export const slideUp = slide("up");
+export const slideDown = slide("down");
@@ -0,0 +1,32 @@
+/**
+ * Shared fixture for the transition specs.
+ */
+
+import type { TransitionContext } from "./transition";
+import { MediaType } from "../types";
+
+/**
+ * Creates a transition context with a shown current slide and a hidden next slide.
+ * @param overrides Context fields to replace, e.g. reverse or the photo
+ */
+export function createContext(
+  overrides: Partial<TransitionContext> = {},
+): TransitionContext {
+  const next = document.createElement("img");
+  next.classList.add("hidden");
+  return {
+    current: document.createElement("img"),
+    next,
+    photo: {
+      id: 1,
+      url: "/api/media/photos/1",
+      mediaType: MediaType.Photo,
+      width: 1920,
+      height: 1080,
+    },
+    duration: 1000,
+    slideDuration: 10,
+    reverse: false,
+    ...overrides,
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Unit tests for transitions/transition.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { cssTransition } from "./transition";
+import { createContext } from "./test-context";
+
+describe("cssTransition", () => {
+  const transition = cssTransition((reverse) => ({
+    enter: [reverse ? "in-back" : "in", "visible"],
+    exit: [reverse ? "out-back" : "out"],
+  }));
+
+  it("should animate both slides for the transition duration", () => {
+    const context = createContext({ duration: 800 });
+
+    transition.start(context);
+
+    expect(context.next.classList.contains("hidden")).toBe(false);
+    expect(Array.from(context.next.classList)).toEqual(["in", "visible"]);
+    expect(Array.from(context.current.classList)).toEqual(["out"]);
+    expect(context.next.style.getPropertyValue("--transition-duration")).toBe(
+      "800ms",
+    );
+    expect(
+      context.current.style.getPropertyValue("--transition-duration"),
+    ).toBe("800ms");
+  });
+
+  it("should use the reverse classes when going back", () => {
+    const context = createContext({ reverse: true });
+
+    transition.start(context);
+
+    expect(context.next.classList.contains("in-back")).toBe(true);
+    expect(context.current.classList.contains("out-back")).toBe(true);
+  });
+
+  it("should remove everything it added when it ends", () => {
+    const context = createContext();
+    context.current.classList.add("other");
+
+    transition.start(context);
+    transition.end(context);
+
+    expect(Array.from(context.next.classList)).toEqual([]);
+    expect(Array.from(context.current.classList)).toEqual(["other"]);
+    expect(context.next.style.getPropertyValue("--transition-duration")).toBe(
+      "",
+    );
+    expect(
+      context.current.style.getPropertyValue("--transition-duration"),
+    ).toBe("");
+  });
+});
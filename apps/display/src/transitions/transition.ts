@@ -0,0 +1,77 @@
+/**
+ * Slide transition contract.
+ * A transition animates from the photo on the current slide to the photo
+ * loaded into the next slide.
+ */
+
+import type { PhotoDto } from "../types";
+
+/**
+ * Everything a transition needs to animate one slide change.
+ */
+export interface TransitionContext {
+  /** Slide on screen, still showing the outgoing photo. */
+  current: HTMLImageElement;
+  /** Hidden slide already showing the incoming photo. */
+  next: HTMLImageElement;
+  /** Photo being transitioned to. */
+  photo: PhotoDto;
+  /** Length of the transition (ms). */
+  duration: number;
+  /** How long the photo stays on screen (seconds). */
+  slideDuration: number;
+  /** Whether the slideshow is going back through history. */
+  reverse: boolean;
+}
+
+/**
+ * A slide transition.
+ * The slideshow calls start() once the incoming photo is loaded, copies the
+ * photo onto the current slide after the transition duration, calls end(),
+ * and then hides the next slide again.
+ */
+export interface Transition {
+  /** Starts animating both slides. */
+  start(context: TransitionContext): void;
+  /** Clears the animation once the current slide shows the incoming photo. */
+  end(context: TransitionContext): void;
+}
+
+/**
+ * CSS classes a transition adds to each slide.
+ */
+export interface TransitionClasses {
+  /** Classes for the incoming slide. */
+  enter: string[];
+  /** Classes for the outgoing slide. */
+  exit: string[];
+}
+
+/**
+ * Creates a transition that plays CSS animations on both slides.
+ * The animations run for the transition duration via --transition-duration.
+ * @param getClasses Classes for the slides, going forwards or back
+ */
+export function cssTransition(
+  getClasses: (reverse: boolean) => TransitionClasses,
+): Transition {
+  return {
+    start({ current, next, duration, reverse }) {
+      const { enter, exit } = getClasses(reverse);
+      for (const slide of [current, next]) {
+        slide.style.setProperty("--transition-duration", `${duration}ms`);
+      }
+      next.classList.remove("hidden");
+      next.classList.add(...enter);
+      current.classList.add(...exit);
+    },
+    end({ current, next, reverse }) {
+      const { enter, exit } = getClasses(reverse);
+      current.classList.remove(...exit);
+      next.classList.remove(...enter);
+      for (const slide of [current, next]) {
+        slide.style.removeProperty("--transition-duration");
+      }
+    },
+  };
+}
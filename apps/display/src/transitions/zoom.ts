@@ -0,0 +1,14 @@
+/**
+ * Zoom transition: the next photo grows into view while the current one
+ * grows past the screen and fades. Going back zooms out instead.
+ */
+
+import { cssTransition } from "./transition";
+
+export const zoom = cssTransition((reverse) => {
+  const direction = reverse ? "out" : "in";
+  return {
+    enter: [`zoom-${direction}-enter`],
+    exit: [`zoom-${direction}-exit`],
+  };
+});
@@ -13,10 +13,28 @@
 export enum TransitionType {
   /** Fade transition (crossfade between images). */
   Fade = 0,
-  /** Slide transition (slides in from side). */
+  /** Slide transition (slides in from the right, moving left). */
   Slide = 1,
   /** Ken Burns effect (slow pan and zoom while displaying). */
   KenBurns = 2,
+  /** Zoom transition (the new photo grows into view). */
+  Zoom = 3,
+  /** Fades the photo to black, then fades the next photo in. */
+  DipToBlack = 4,
+  /** Slide transition moving right. */
+  SlideRight = 5,
+  /** Slide transition moving up. */
+  SlideUp = 6,
+  /** Slide transition moving down. */
+  SlideDown = 7,
+  /** Rotates the photos like the faces of a cube. */
+  Cube = 8,
+  /** Flips the photo over like a card to reveal the next one. */
+  Flip = 9,
+  /** Blurs the photo away while the next one comes into focus. */
+  Blur = 10,
+  /** Picks a different transition for every slide. */
+  Random = 11,
 }
 
 /**
@@ -29,6 +47,10 @@ export enum SourceType {
   Album = 1,
   /** Show photos with a specific tag. */
   Tag = 2,
+  /** Show photos from several weighted albums and tags, minus excluded tags. */
+  Playlist = 3,
+  /** Show mostly photos taken on this day (or week) in past years, mixed with all photos. */
+  Memories = 4,
 }
 
 /**
@@ -51,6 +73,65 @@ export enum ImageFit {
   Cover = 1,
 }
 
+/**
+ * How portrait photos are combined on a landscape screen.
+ */
+export enum CollageLayout {
+  /** Show every photo on its own. */
+  Off = 0,
+  /** Show two portrait photos side by side. */
+  PairPortraits = 1,
+  /** Combine three or four photos into a mosaic when the queue allows. */
+  Mosaic = 2,
+}
+
+/**
+ * Screen corner where a slideshow overlay element is rendered.
+ */
+export enum OverlayPosition {
+  TopLeft = 0,
+  TopRight = 1,
+  BottomLeft = 2,
+  BottomRight = 3,
+}
+
+/**
+ * Text size of the slideshow overlay.
+ */
+export enum OverlaySize {
+  Small = 0,
+  Medium = 1,
+  Large = 2,
+}
+
+/**
+ * How the slideshow plays videos.
+ */
+export enum VideoPlayback {
+  Muted = 0,
+  WithAudio = 1,
+  /** Videos are left out of the slideshow. */
+  Skip = 2,
+}
+
+/**
+ * Which part of a video longer than the max duration is played.
+ */
+export enum VideoSegment {
+  /** Play from the beginning. */
+  Start = 0,
+  /** Play a randomly chosen part. */
+  Random = 1,
+}
+
+/**
+ * What the screen shows during quiet hours.
+ */
+export enum QuietMode {
+  Black = 0,
+  DimClock = 1,
+}
+
 // ============================================================================
 // DTOs (matching LibraFoto.Modules.Display.Models)
 // ============================================================================
@@ -74,10 +155,32 @@ export interface PhotoDto {
   mediaType: MediaType;
   /** Duration in seconds for video files. Null for photos. */
   duration?: number;
-  /** Width of the photo in pixels. */
+  /** Width of the photo in pixels, after rotation and cropping. */
   width: number;
-  /** Height of the photo in pixels. */
+  /** Height of the photo in pixels, after rotation and cropping. */
   height: number;
+  /** Horizontal position (0-1) of the point to keep in frame. Null for the centre. */
+  focalPointX?: number | null;
+  /** Vertical position (0-1) of the point to keep in frame. Null for the centre. */
+  focalPointY?: number | null;
+}
+
+/**
+ * An album or tag in a playlist, or a tag whose photos the playlist leaves out.
+ */
+export interface PlaylistSource {
+  /** Album to draw photos from. */
+  albumId: number | null;
+  /** Tag to draw photos from, or to exclude. */
+  tagId: number | null;
+  /** Whether photos with this tag are left out. */
+  isExcluded: boolean;
+  /** Relative share of slides drawn from this source (1-10). */
+  weight: number;
+  /** Only include photos taken on or after this date. */
+  dateFrom: string | null;
+  /** Only include photos taken on or before this date. */
+  dateTo: string | null;
 }
 
 /**
@@ -97,12 +200,42 @@ export interface DisplaySettingsDto {
   transitionDuration: number;
   /** Source type for filtering which photos to display. */
   sourceType: SourceType;
-  /** ID of the source (Album or Tag) when SourceType is not All. */
+  /** ID of the source when SourceType is Album or Tag. */
   sourceId?: number;
+  /** Albums and tags to draw from, and tags to leave out, when SourceType is Playlist. */
+  playlistSources?: PlaylistSource[];
   /** Whether to shuffle photos randomly. */
   shuffle: boolean;
   /** How images should be fitted within the display area. */
   imageFit: ImageFit;
+  /** Whether portrait photos are combined into collages on landscape screens. */
+  collageLayout: CollageLayout;
+  /** Whether to show a clock overlay. */
+  showClock: boolean;
+  /** Screen corner for the clock overlay. */
+  clockPosition: OverlayPosition;
+  /** Whether to show the date the current photo was taken. */
+  showDateTaken: boolean;
+  /** Screen corner for the date taken overlay. */
+  dateTakenPosition: OverlayPosition;
+  /** Whether to show the location of the current photo. */
+  showLocation: boolean;
+  /** Screen corner for the location overlay. */
+  locationPosition: OverlayPosition;
+  /** Text size of the overlay elements. */
+  overlaySize: OverlaySize;
+  /** Opacity of the overlay elements as a percentage (0-100). */
+  overlayOpacity: number;
+  /** Whether videos play muted, with audio, or are skipped. */
+  videoPlayback: VideoPlayback;
+  /** Volume for videos played with audio as a percentage (0-100). */
+  videoVolume: number;
+  /** Longest time a video stays on screen in seconds. 0 plays videos to the end. */
+  maxVideoDuration: number;
+  /** Which part of a video longer than maxVideoDuration is played. */
+  videoSegment: VideoSegment;
+  /** How many times a short video plays in a row, still limited by maxVideoDuration. */
+  videoLoopCount: number;
 }
 
 /**
@@ -129,6 +262,22 @@ export interface ApiError {
   details?: unknown;
 }
 
+/**
+ * Time-of-day schedule rule. Either switches to a settings profile or
+ * starts quiet hours while the current local time is inside its window.
+ */
+export interface DisplayScheduleRule {
+  id: number;
+  /** Bitmask of days the rule starts on; bit 0 is Sunday. */
+  daysOfWeek: number;
+  /** Local start time ("HH:mm"). */
+  startTime: string;
+  /** Local end time ("HH:mm"); at or before the start wraps past midnight. */
+  endTime: string;
+  displaySettingsId?: number | null;
+  quietMode?: QuietMode | null;
+}
+
 /**
  * Response for display config endpoint.
  */
@@ -136,6 +285,115 @@ export interface DisplayConfigResponse {
   adminUrl: string;
 }
 
+// ============================================================================
+// Event Stream Types
+// ============================================================================
+
+/**
+ * Event names sent on the display event stream.
+ */
+export type DisplayEventType =
+  | "settings-changed"
+  | "schedule-changed"
+  | "photo-library-changed"
+  | "remote-command"
+  | "heartbeat";
+
+/**
+ * Remote control commands sent from the admin UI.
+ */
+export enum RemoteCommandType {
+  /** Skip to the next photo. */
+  Next = 0,
+  /** Go back to the previous photo. */
+  Previous = 1,
+  /** Pause the slideshow. */
+  Pause = 2,
+  /** Resume a paused slideshow. */
+  Resume = 3,
+  /** Show a specific photo immediately. */
+  ShowPhoto = 4,
+}
+
+/**
+ * Event pushed by the backend over the display event stream.
+ */
+export interface DisplayEvent {
+  /** Event type. */
+  type: DisplayEventType;
+  /** Settings configuration the event applies to, if any. */
+  settingsId?: number | null;
+  /** Command to run for remote-command events. */
+  command?: RemoteCommandType | null;
+  /** Photo to show for ShowPhoto commands. */
+  photo?: PhotoDto | null;
+  /** When the event was raised (ISO 8601). */
+  timestamp: string;
+}
+
+/**
+ * Playback status reported to the backend for the admin remote preview.
+ */
+export interface DisplayStatusReport {
+  /** ID of the photo currently on screen. */
+  photoId: number | null;
+  /** Whether the slideshow is paused. */
+  isPaused: boolean;
+  /** Settings configuration in use. */
+  settingsId: number | null;
+  /** Stable ID of this device, once registered. */
+  deviceId: string | null;
+}
+
+/**
+ * An error logged by the display, sent with the next heartbeat.
+ */
+export interface DisplayErrorReport {
+  /** When the error occurred (ISO 8601). */
+  occurredAt: string;
+  message: string;
+  /** Script location or event type the error came from. */
+  source: string | null;
+}
+
+/**
+ * Periodic health report sent to the backend.
+ */
+export interface DisplayHeartbeat {
+  /** ID of the photo currently on screen. */
+  currentPhotoId: number | null;
+  /** Seconds since the page was loaded. */
+  uptimeSeconds: number;
+  /** When photos or settings were last fetched from the API (ISO 8601). */
+  lastSuccessfulFetchAt: string | null;
+  /** Errors logged since the page was loaded. */
+  errorCount: number;
+  /** Bytes stored by this origin (media cache and offline playlist). */
+  cacheUsageBytes: number | null;
+  /** Storage quota available to this origin, in bytes. */
+  cacheQuotaBytes: number | null;
+  screenWidth: number;
+  screenHeight: number;
+  /** JavaScript heap in use, in bytes (Chromium only). */
+  jsHeapUsedBytes: number | null;
+  /** JavaScript heap size limit, in bytes (Chromium only). */
+  jsHeapLimitBytes: number | null;
+  /** Errors logged since the previous heartbeat. */
+  errors: DisplayErrorReport[];
+}
+
+/**
+ * Display device as registered with the backend.
+ */
+export interface DisplayDeviceDto {
+  id: number;
+  deviceId: string;
+  name: string;
+  displaySettingsId?: number | null;
+  currentPhotoId?: number | null;
+  lastSeenAt: string;
+}
+
 // ============================================================================
 // Application State Types
 // ============================================================================
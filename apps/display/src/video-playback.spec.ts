@@ -0,0 +1,154 @@
+/**
+ * Unit tests for video-playback.ts
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  MAX_VIDEO_LOOPS,
+  applyVideoAudio,
+  isPlayable,
+  planVideo,
+  playVideo,
+  type VideoSettings,
+} from "./video-playback";
+import { MediaType, VideoPlayback, VideoSegment, type PhotoDto } from "./types";
+
+vi.mock("./config", () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const defaults: VideoSettings = {
+  videoPlayback: VideoPlayback.Muted,
+  videoVolume: 50,
+  maxVideoDuration: 30,
+  videoSegment: VideoSegment.Start,
+  videoLoopCount: 1,
+};
+
+function media(mediaType: MediaType): PhotoDto {
+  return { id: 1, url: "/media/1", mediaType, width: 100, height: 100 };
+}
+
+describe("planVideo", () => {
+  it("should stop long videos at the max duration", () => {
+    expect(planVideo(120, defaults)).toEqual({
+      startAt: 0,
+      stopAfter: 30,
+      playCount: 1,
+    });
+  });
+
+  it("should pick a random segment that fits inside the video", () => {
+    const settings = { ...defaults, videoSegment: VideoSegment.Random };
+
+    expect(planVideo(120, settings, () => 0.5).startAt).toBe(45);
+    expect(planVideo(120, settings, () => 1).startAt).toBe(90);
+    // Short clips always start at the beginning
+    expect(planVideo(20, settings, () => 0.5).startAt).toBe(0);
+  });
+
+  it("should repeat short clips up to the loop count", () => {
+    const settings = { ...defaults, videoLoopCount: 3 };
+
+    expect(planVideo(8, settings)).toEqual({
+      startAt: 0,
+      stopAfter: 30,
+      playCount: 3,
+    });
+    // Long videos play once
+    expect(planVideo(45, settings).playCount).toBe(1);
+  });
+
+  it("should keep the loop count within range", () => {
+    expect(planVideo(5, { ...defaults, videoLoopCount: 0 }).playCount).toBe(1);
+    expect(planVideo(5, { ...defaults, videoLoopCount: 99 }).playCount).toBe(
+      MAX_VIDEO_LOOPS,
+    );
+  });
+
+  it("should play to the end without a max duration", () => {
+    const settings = {
+      ...defaults,
+      maxVideoDuration: 0,
+      videoSegment: VideoSegment.Random,
+    };
+
+    expect(planVideo(600, settings)).toEqual({
+      startAt: 0,
+      stopAfter: null,
+      playCount: 1,
+    });
+  });
+
+  it("should still limit videos of unknown length", () => {
+    expect(planVideo(null, defaults).stopAfter).toBe(30);
+  });
+});
+
+describe("isPlayable", () => {
+  it("should only leave out videos when they are skipped", () => {
+    const skip = { ...defaults, videoPlayback: VideoPlayback.Skip };
+
+    expect(isPlayable(media(MediaType.Video), defaults)).toBe(true);
+    expect(isPlayable(media(MediaType.Video), skip)).toBe(false);
+    expect(isPlayable(media(MediaType.Photo), skip)).toBe(true);
+  });
+});
+
+describe("applyVideoAudio", () => {
+  it("should mute videos by default", () => {
+    const video = document.createElement("video");
+
+    applyVideoAudio(video, defaults);
+
+    expect(video.muted).toBe(true);
+  });
+
+  it("should set the volume when playing with audio", () => {
+    const video = document.createElement("video");
+
+    applyVideoAudio(video, {
+      ...defaults,
+      videoPlayback: VideoPlayback.WithAudio,
+      videoVolume: 25,
+    });
+
+    expect(video.muted).toBe(false);
+    expect(video.volume).toBe(0.25);
+  });
+});
+
+describe("playVideo", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should fall back to muted playback when sound is blocked", async () => {
+    const video = document.createElement("video");
+    video.muted = false;
+    const play = vi
+      .spyOn(video, "play")
+      .mockRejectedValueOnce(new DOMException("blocked", "NotAllowedError"))
+      .mockResolvedValueOnce(undefined);
+
+    await playVideo(video);
+
+    expect(play).toHaveBeenCalledTimes(2);
+    expect(video.muted).toBe(true);
+  });
+
+  it("should pass on other playback errors", async () => {
+    const video = document.createElement("video");
+    video.muted = true;
+    vi.spyOn(video, "play").mockRejectedValue(
+      new DOMException("unsupported", "NotSupportedError"),
+    );
+
+    await expect(playVideo(video)).rejects.toThrow("unsupported");
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Video playback policy for the display frontend.
+ * Decides how long a video stays on screen, where it starts, how often
+ * short clips repeat, and whether it plays with sound.
+ */
+
+import { logger } from "./config";
+import {
+  MediaType,
+  VideoPlayback,
+  VideoSegment,
+  type DisplaySettingsDto,
+  type PhotoDto,
+} from "./types";
+
+/** Most times a short clip is repeated; matches the backend limit. */
+export const MAX_VIDEO_LOOPS = 10;
+
+/**
+ * Display settings that control video playback.
+ */
+export type VideoSettings = Pick<
+  DisplaySettingsDto,
+  | "videoPlayback"
+  | "videoVolume"
+  | "maxVideoDuration"
+  | "videoSegment"
+  | "videoLoopCount"
+>;
+
+/**
+ * How a single video is played.
+ */
+export interface VideoPlan {
+  /** Position playback starts from (seconds). */
+  startAt: number;
+  /** Time on screen before moving on (seconds), or null to play to the end. */
+  stopAfter: number | null;
+  /** How many times the video plays in a row. */
+  playCount: number;
+}
+
+/**
+ * Works out how to play a video of the given length.
+ * Videos longer than the max duration play once, from the start or from a
+ * random point; shorter clips repeat up to the loop count, still stopping
+ * at the max duration.
+ * @param duration Length of the video in seconds, if known
+ * @param random Source of randomness for the segment start (0 to 1)
+ */
+export function planVideo(
+  duration: number | null | undefined,
+  settings: VideoSettings,
+  random: () => number = Math.random,
+): VideoPlan {
+  const maxDuration = Math.max(0, settings.maxVideoDuration);
+  const stopAfter = maxDuration > 0 ? maxDuration : null;
+  const isLong = stopAfter !== null && duration != null && duration > stopAfter;
+
+  if (isLong) {
+    const startAt =
+      settings.videoSegment === VideoSegment.Random
+        ? random() * (duration - stopAfter)
+        : 0;
+    return { startAt, stopAfter, playCount: 1 };
+  }
+
+  const playCount = Math.min(
+    MAX_VIDEO_LOOPS,
+    Math.max(1, Math.floor(settings.videoLoopCount)),
+  );
+  return { startAt: 0, stopAfter, playCount };
+}
+
+/**
+ * Whether the slideshow should show this photo or video at all.
+ */
+export function isPlayable(photo: PhotoDto, settings: VideoSettings): boolean {
+  return (
+    photo.mediaType !== MediaType.Video ||
+    settings.videoPlayback !== VideoPlayback.Skip
+  );
+}
+
+/**
+ * Mutes the video or sets its volume from the settings.
+ */
+export function applyVideoAudio(
+  video: HTMLVideoElement,
+  settings: VideoSettings,
+): void {
+  if (settings.videoPlayback === VideoPlayback.WithAudio) {
+    video.muted = false;
+    video.volume = Math.min(100, Math.max(0, settings.videoVolume)) / 100;
+  } else {
+    video.muted = true;
+  }
+}
+
+/**
+ * Starts playback, falling back to muted playback when the browser blocks
+ * autoplay with sound.
+ */
+export async function playVideo(video: HTMLVideoElement): Promise<void> {
+  try {
+    await video.play();
+  } catch (error) {
+    if (
+      video.muted ||
+      !(error instanceof DOMException) ||
+      error.name !== "NotAllowedError"
+    ) {
+      throw error;
+    }
+    logger.warn("Autoplay with sound was blocked, playing muted");
+    video.muted = true;
+    await video.play();
+  }
+}
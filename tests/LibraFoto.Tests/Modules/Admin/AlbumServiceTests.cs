@@ -212,6 +212,45 @@ namespace LibraFoto.Tests.Modules.Admin
             await Assert.That(result).IsFalse();
         }
 
+        [Test]
+        public async Task GetAlbumPhotosAsync_ReturnsPhotosInAlbumOrder()
+        {
+            // Arrange
+            var album = new Album { Name = "Test" };
+            var first = new Photo { Filename = "first.jpg", FilePath = "first.jpg", FileSize = 100 };
+            var second = new Photo { Filename = "second.jpg", FilePath = "second.jpg", FileSize = 100 };
+            var third = new Photo { Filename = "third.jpg", FilePath = "third.jpg", FileSize = 100 };
+            _db.Albums.Add(album);
+            _db.Photos.AddRange(first, second, third);
+            await _db.SaveChangesAsync();
+            _db.PhotoAlbums.AddRange(
+                new PhotoAlbum { AlbumId = album.Id, PhotoId = first.Id, SortOrder = 2 },
+                new PhotoAlbum { AlbumId = album.Id, PhotoId = second.Id, SortOrder = 0 },
+                new PhotoAlbum { AlbumId = album.Id, PhotoId = third.Id, SortOrder = 1 });
+            await _db.SaveChangesAsync();
+
+            // Act
+            var firstPage = await _service.GetAlbumPhotosAsync(album.Id, 1, 2);
+            var secondPage = await _service.GetAlbumPhotosAsync(album.Id, 2, 2);
+
+            // Assert
+            await Assert.That(firstPage).IsNotNull();
+            await Assert.That(string.Join(",", firstPage!.Data.Select(p => p.Filename))).IsEqualTo("second.jpg,third.jpg");
+            await Assert.That(firstPage.Pagination.TotalItems).IsEqualTo(3);
+            await Assert.That(firstPage.Pagination.TotalPages).IsEqualTo(2);
+            await Assert.That(secondPage!.Data.Single().Filename).IsEqualTo("first.jpg");
+        }
+
+        [Test]
+        public async Task GetAlbumPhotosAsync_WithInvalidAlbumId_ReturnsNull()
+        {
+            // Act
+            var result = await _service.GetAlbumPhotosAsync(999, 1, 50);
+
+            // Assert
+            await Assert.That(result).IsNull();
+        }
+
         [Test]
         public async Task SetCoverPhotoAsync_WithValidIds_SetsCoverPhoto()
         {
@@ -3,6 +3,7 @@ using LibraFoto.Data.Entities;
 using LibraFoto.Modules.Admin.Endpoints;
 using LibraFoto.Modules.Admin.Models;
 using LibraFoto.Modules.Admin.Services;
+using LibraFoto.Shared.DTOs;
 using LibraFoto.Tests.Helpers;
 using Microsoft.Data.Sqlite;
 using Microsoft.EntityFrameworkCore;
@@ -110,6 +111,44 @@ namespace LibraFoto.Tests.Modules.Admin.Endpoints
 
         #endregion
 
+        #region GetAlbumPhotos Tests
+
+        [Test]
+        public async Task GetAlbumPhotos_WithExistingAlbum_ReturnsPhotosInAlbumOrder()
+        {
+            // Arrange
+            _db.Albums.Add(new Album { Id = 1, Name = "Test Album", DateCreated = DateTime.UtcNow });
+            for (int i = 1; i <= 3; i++)
+            {
+                _db.Photos.Add(TestHelpers.CreateTestPhoto(id: i, filename: $"photo{i}.jpg"));
+                _db.PhotoAlbums.Add(new PhotoAlbum { AlbumId = 1, PhotoId = i, SortOrder = 4 - i });
+            }
+            await _db.SaveChangesAsync();
+
+            // Act
+            var method = typeof(AlbumEndpoints).GetMethod("GetAlbumPhotos", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
+            var result = await (Task<Microsoft.AspNetCore.Http.HttpResults.Results<Microsoft.AspNetCore.Http.HttpResults.Ok<PagedResult<PhotoListDto>>, Microsoft.AspNetCore.Http.HttpResults.NotFound>>)method!.Invoke(null, new object[] { 1L, _albumService, 1, 50, CancellationToken.None })!;
+
+            // Assert
+            var okResult = result.Result as Microsoft.AspNetCore.Http.HttpResults.Ok<PagedResult<PhotoListDto>>;
+            await Assert.That(okResult).IsNotNull();
+            await Assert.That(string.Join(",", okResult!.Value!.Data.Select(p => p.Id))).IsEqualTo("3,2,1");
+        }
+
+        [Test]
+        public async Task GetAlbumPhotos_WithNonExistentAlbum_ReturnsNotFound()
+        {
+            // Act
+            var method = typeof(AlbumEndpoints).GetMethod("GetAlbumPhotos", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
+            var result = await (Task<Microsoft.AspNetCore.Http.HttpResults.Results<Microsoft.AspNetCore.Http.HttpResults.Ok<PagedResult<PhotoListDto>>, Microsoft.AspNetCore.Http.HttpResults.NotFound>>)method!.Invoke(null, new object[] { 999L, _albumService, 1, 50, CancellationToken.None })!;
+
+            // Assert
+            var notFoundResult = result.Result as Microsoft.AspNetCore.Http.HttpResults.NotFound;
+            await Assert.That(notFoundResult).IsNotNull();
+        }
+
+        #endregion
+
         #region CreateAlbum Tests
 
         [Test]
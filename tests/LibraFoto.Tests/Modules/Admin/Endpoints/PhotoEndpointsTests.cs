@@ -237,6 +237,26 @@ namespace LibraFoto.Tests.Modules.Admin.Endpoints
             await Assert.That(result.Value!.Data.Length).IsEqualTo(1);
         }
 
+        [Test]
+        public async Task GetPhotos_WithArea_PassesBoundsToService()
+        {
+            // Arrange
+            var pagedResult = new PagedResult<PhotoListDto>([], new PaginationInfo(1, 50, 0, 0));
+            _photoService.GetPhotosAsync(Arg.Any<PhotoFilterRequest>(), Arg.Any<CancellationToken>())
+                .Returns(pagedResult);
+
+            // Act
+            await PhotoEndpoints_TestHelper.GetPhotos(_photoService,
+                minLatitude: 48.1, maxLatitude: 48.3, minLongitude: 16.2, maxLongitude: 16.5);
+
+            // Assert
+            await _photoService.Received(1).GetPhotosAsync(
+                Arg.Is<PhotoFilterRequest>(f =>
+                    f.MinLatitude == 48.1 && f.MaxLatitude == 48.3 &&
+                    f.MinLongitude == 16.2 && f.MaxLongitude == 16.5),
+                Arg.Any<CancellationToken>());
+        }
+
         #endregion
 
         #region GetPhotoCount Tests
@@ -275,6 +295,60 @@ namespace LibraFoto.Tests.Modules.Admin.Endpoints
 
         #endregion
 
+        #region GetPhotoTimeline Tests
+
+        [Test]
+        public async Task GetPhotoTimeline_PassesFiltersToService()
+        {
+            // Arrange
+            IReadOnlyList<TimelineDayDto> days =
+            [
+                new TimelineDayDto(new DateTime(2025, 6, 1), 3),
+                new TimelineDayDto(new DateTime(2025, 5, 28), 1)
+            ];
+            _photoService.GetTimelineAsync(Arg.Any<PhotoFilterRequest>(), Arg.Any<CancellationToken>())
+                .Returns(days);
+
+            // Act
+            var result = await PhotoEndpoints_TestHelper.GetPhotoTimeline(_photoService,
+                albumId: 5, mediaType: MediaType.Photo, search: "beach");
+
+            // Assert
+            await Assert.That(result.Value).IsNotNull();
+            await Assert.That(result.Value!.Count).IsEqualTo(2);
+            await _photoService.Received(1).GetTimelineAsync(
+                Arg.Is<PhotoFilterRequest>(f =>
+                    f.AlbumId == 5 && f.MediaType == MediaType.Photo && f.Search == "beach"),
+                Arg.Any<CancellationToken>());
+        }
+
+        #endregion
+
+        #region GetPhotoLocations Tests
+
+        [Test]
+        public async Task GetPhotoLocations_ReturnsLocationsFromService()
+        {
+            // Arrange
+            IReadOnlyList<PhotoLocationDto> locations =
+            [
+                new PhotoLocationDto(1, "vienna.jpg", 48.2082, 16.3738, new DateTime(2025, 6, 1)),
+                new PhotoLocationDto(2, "paris.jpg", 48.8566, 2.3522, null)
+            ];
+            _photoService.GetPhotoLocationsAsync(Arg.Any<CancellationToken>())
+                .Returns(locations);
+
+            // Act
+            var result = await PhotoEndpoints_TestHelper.GetPhotoLocations(_photoService);
+
+            // Assert
+            await Assert.That(result.Value).IsNotNull();
+            await Assert.That(result.Value!.Count).IsEqualTo(2);
+            await Assert.That(result.Value[1].Filename).IsEqualTo("paris.jpg");
+        }
+
+        #endregion
+
         #region GetPhotoById Tests
 
         [Test]
@@ -449,6 +523,141 @@ namespace LibraFoto.Tests.Modules.Admin.Endpoints
 
         #endregion
 
+        #region UpdatePhotoEdits Tests
+
+        [Test]
+        public async Task UpdatePhotoEdits_WithValidEdits_ReturnsOkWithUpdatedPhoto()
+        {
+            // Arrange
+            var request = new PhotoEditsDto(90, true, new PhotoCropDto(0.1, 0, 0.8, 1));
+            var updatedPhoto = CreatePhotoDetailDto(50, "photo.jpg") with { Edits = request };
+            _photoService.UpdatePhotoEditsAsync(50, request, Arg.Any<CancellationToken>())
+                .Returns(updatedPhoto);
+
+            // Act
+            var result = await PhotoEndpoints_TestHelper.UpdatePhotoEdits(50, request, _photoService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<Ok<PhotoDetailDto>>();
+            var okResult = (Ok<PhotoDetailDto>)result.Result;
+            await Assert.That(okResult.Value!.Edits).IsEqualTo(request);
+        }
+
+        [Test]
+        public async Task UpdatePhotoEdits_WithUnsupportedRotation_ReturnsBadRequest()
+        {
+            // Arrange
+            var request = new PhotoEditsDto(45, false, null);
+
+            // Act
+            var result = await PhotoEndpoints_TestHelper.UpdatePhotoEdits(50, request, _photoService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            await _photoService.DidNotReceive().UpdatePhotoEditsAsync(
+                Arg.Any<long>(), Arg.Any<PhotoEditsDto>(), Arg.Any<CancellationToken>());
+        }
+
+        [Test]
+        public async Task UpdatePhotoEdits_WithCropOutsidePhoto_ReturnsBadRequest()
+        {
+            // Arrange
+            var request = new PhotoEditsDto(0, false, new PhotoCropDto(0.5, 0, 0.6, 1));
+
+            // Act
+            var result = await PhotoEndpoints_TestHelper.UpdatePhotoEdits(50, request, _photoService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            await _photoService.DidNotReceive().UpdatePhotoEditsAsync(
+                Arg.Any<long>(), Arg.Any<PhotoEditsDto>(), Arg.Any<CancellationToken>());
+        }
+
+        [Test]
+        public async Task UpdatePhotoEdits_WithInvalidId_ReturnsNotFound()
+        {
+            // Arrange
+            var request = new PhotoEditsDto(180, false, null);
+            _photoService.UpdatePhotoEditsAsync(999, request, Arg.Any<CancellationToken>())
+                .Returns((PhotoDetailDto?)null);
+
+            // Act
+            var result = await PhotoEndpoints_TestHelper.UpdatePhotoEdits(999, request, _photoService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<NotFound>();
+        }
+
+        #endregion
+
+        #region FocalPoint Tests
+
+        [Test]
+        public async Task UpdateFocalPoint_WithValidPoint_ReturnsOkWithUpdatedPhoto()
+        {
+            // Arrange
+            var request = new PhotoFocalPointDto(0.3, 0.25);
+            var updatedPhoto = CreatePhotoDetailDto(50, "photo.jpg") with { FocalPoint = request };
+            _photoService.UpdateFocalPointAsync(50, request, Arg.Any<CancellationToken>())
+                .Returns(updatedPhoto);
+
+            // Act
+            var result = await PhotoEndpoints_TestHelper.UpdateFocalPoint(50, request, _photoService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<Ok<PhotoDetailDto>>();
+            var okResult = (Ok<PhotoDetailDto>)result.Result;
+            await Assert.That(okResult.Value!.FocalPoint).IsEqualTo(request);
+        }
+
+        [Test]
+        public async Task UpdateFocalPoint_WithPointOutsidePhoto_ReturnsBadRequest()
+        {
+            // Arrange
+            var request = new PhotoFocalPointDto(1.2, 0.5);
+
+            // Act
+            var result = await PhotoEndpoints_TestHelper.UpdateFocalPoint(50, request, _photoService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            await _photoService.DidNotReceive().UpdateFocalPointAsync(
+                Arg.Any<long>(), Arg.Any<PhotoFocalPointDto?>(), Arg.Any<CancellationToken>());
+        }
+
+        [Test]
+        public async Task UpdateFocalPoint_WithInvalidId_ReturnsNotFound()
+        {
+            // Arrange
+            var request = new PhotoFocalPointDto(0.5, 0.5);
+            _photoService.UpdateFocalPointAsync(999, request, Arg.Any<CancellationToken>())
+                .Returns((PhotoDetailDto?)null);
+
+            // Act
+            var result = await PhotoEndpoints_TestHelper.UpdateFocalPoint(999, request, _photoService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<NotFound>();
+        }
+
+        [Test]
+        public async Task ClearFocalPoint_ClearsPoint_ReturnsOk()
+        {
+            // Arrange
+            var updatedPhoto = CreatePhotoDetailDto(50, "photo.jpg");
+            _photoService.UpdateFocalPointAsync(50, null, Arg.Any<CancellationToken>())
+                .Returns(updatedPhoto);
+
+            // Act
+            var result = await PhotoEndpoints_TestHelper.ClearFocalPoint(50, _photoService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<Ok<PhotoDetailDto>>();
+            await _photoService.Received(1).UpdateFocalPointAsync(50, null, Arg.Any<CancellationToken>());
+        }
+
+        #endregion
+
         #region DeletePhoto Tests
 
         [Test]
@@ -832,7 +1041,9 @@ namespace LibraFoto.Tests.Modules.Admin.Endpoints
                 null,
                 null,
                 [],
-                []);
+                [],
+                new PhotoEditsDto(0, false, null),
+                null);
         }
 
         #endregion
@@ -853,6 +1064,10 @@ namespace LibraFoto.Tests.Modules.Admin.Endpoints
             DateTime? dateTo = null,
             MediaType? mediaType = null,
             string? search = null,
+            double? minLatitude = null,
+            double? maxLatitude = null,
+            double? minLongitude = null,
+            double? maxLongitude = null,
             string sortBy = "DateAdded",
             string sortDirection = "desc")
         {
@@ -862,7 +1077,8 @@ namespace LibraFoto.Tests.Modules.Admin.Endpoints
             var result = method!.Invoke(null, new object?[]
             {
                 service, page, pageSize, albumId, tagId, dateFrom, dateTo,
-                mediaType, search, sortBy, sortDirection, CancellationToken.None
+                mediaType, search, minLatitude, maxLatitude, minLongitude, maxLongitude,
+                sortBy, sortDirection, CancellationToken.None
             });
             return await (Task<Ok<PagedResult<PhotoListDto>>>)result!;
         }
@@ -876,6 +1092,39 @@ namespace LibraFoto.Tests.Modules.Admin.Endpoints
             return await (Task<Ok<PhotoCountDto>>)result!;
         }
 
+        public static async Task<Ok<IReadOnlyList<TimelineDayDto>>> GetPhotoTimeline(
+            IPhotoService service,
+            long? albumId = null,
+            long? tagId = null,
+            DateTime? dateFrom = null,
+            DateTime? dateTo = null,
+            MediaType? mediaType = null,
+            string? search = null,
+            double? minLatitude = null,
+            double? maxLatitude = null,
+            double? minLongitude = null,
+            double? maxLongitude = null)
+        {
+            var method = typeof(PhotoEndpoints)
+                .GetMethod("GetPhotoTimeline", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
+
+            var result = method!.Invoke(null, new object?[]
+            {
+                service, albumId, tagId, dateFrom, dateTo, mediaType, search,
+                minLatitude, maxLatitude, minLongitude, maxLongitude, CancellationToken.None
+            });
+            return await (Task<Ok<IReadOnlyList<TimelineDayDto>>>)result!;
+        }
+
+        public static async Task<Ok<IReadOnlyList<PhotoLocationDto>>> GetPhotoLocations(IPhotoService service)
+        {
+            var method = typeof(PhotoEndpoints)
+                .GetMethod("GetPhotoLocations", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
+
+            var result = method!.Invoke(null, new object[] { service, CancellationToken.None });
+            return await (Task<Ok<IReadOnlyList<PhotoLocationDto>>>)result!;
+        }
+
         public static async Task<Results<Ok<PhotoDetailDto>, NotFound>> GetPhotoById(
             long id, IPhotoService service)
         {
@@ -896,6 +1145,36 @@ namespace LibraFoto.Tests.Modules.Admin.Endpoints
             return await (Task<Results<Ok<PhotoDetailDto>, NotFound>>)result!;
         }
 
+        public static async Task<Results<Ok<PhotoDetailDto>, NotFound, BadRequest<ApiError>>> UpdatePhotoEdits(
+            long id, PhotoEditsDto request, IPhotoService service)
+        {
+            var method = typeof(PhotoEndpoints)
+                .GetMethod("UpdatePhotoEdits", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
+
+            var result = method!.Invoke(null, new object[] { id, request, service, CancellationToken.None });
+            return await (Task<Results<Ok<PhotoDetailDto>, NotFound, BadRequest<ApiError>>>)result!;
+        }
+
+        public static async Task<Results<Ok<PhotoDetailDto>, NotFound, BadRequest<ApiError>>> UpdateFocalPoint(
+            long id, PhotoFocalPointDto request, IPhotoService service)
+        {
+            var method = typeof(PhotoEndpoints)
+                .GetMethod("UpdateFocalPoint", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
+
+            var result = method!.Invoke(null, new object[] { id, request, service, CancellationToken.None });
+            return await (Task<Results<Ok<PhotoDetailDto>, NotFound, BadRequest<ApiError>>>)result!;
+        }
+
+        public static async Task<Results<Ok<PhotoDetailDto>, NotFound>> ClearFocalPoint(
+            long id, IPhotoService service)
+        {
+            var method = typeof(PhotoEndpoints)
+                .GetMethod("ClearFocalPoint", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
+
+            var result = method!.Invoke(null, new object[] { id, service, CancellationToken.None });
+            return await (Task<Results<Ok<PhotoDetailDto>, NotFound>>)result!;
+        }
+
         public static async Task<Results<NoContent, NotFound>> DeletePhoto(
             long id, IPhotoService service)
         {
@@ -1,6 +1,7 @@
 using LibraFoto.Modules.Admin.Endpoints;
 using LibraFoto.Modules.Admin.Models;
 using LibraFoto.Modules.Admin.Services;
+using Microsoft.Extensions.Configuration;
 using NSubstitute;
 
 namespace LibraFoto.Tests.Modules.Admin.Endpoints
@@ -165,5 +166,60 @@ namespace LibraFoto.Tests.Modules.Admin.Endpoints
         }
 
         #endregion
+
+        #region GetMapConfig Tests
+
+        private static Microsoft.AspNetCore.Http.HttpResults.Ok<MapConfigResponse> GetMapConfig(Dictionary<string, string?> settings)
+        {
+            var configuration = new ConfigurationBuilder().AddInMemoryCollection(settings).Build();
+            var method = typeof(SystemEndpoints).GetMethod("GetMapConfig", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
+            return (Microsoft.AspNetCore.Http.HttpResults.Ok<MapConfigResponse>)method!.Invoke(null, new object[] { configuration })!;
+        }
+
+        [Test]
+        public async Task GetMapConfig_WithoutSettings_ReturnsOpenStreetMap()
+        {
+            // Act
+            var result = GetMapConfig([]);
+
+            // Assert
+            await Assert.That(result.Value!.TileUrl).IsEqualTo("https://tile.openstreetmap.org/{z}/{x}/{y}.png");
+            await Assert.That(result.Value.Attribution).Contains("OpenStreetMap");
+            await Assert.That(result.Value.MaxZoom).IsEqualTo(19);
+        }
+
+        [Test]
+        public async Task GetMapConfig_WithTileServer_ReturnsConfiguredSettings()
+        {
+            // Act
+            var result = GetMapConfig(new Dictionary<string, string?>
+            {
+                ["Map:TileUrl"] = "http://tiles.local/{z}/{x}/{y}.png",
+                ["Map:Attribution"] = "Local tiles",
+                ["Map:MaxZoom"] = "16"
+            });
+
+            // Assert
+            await Assert.That(result.Value!.TileUrl).IsEqualTo("http://tiles.local/{z}/{x}/{y}.png");
+            await Assert.That(result.Value.Attribution).IsEqualTo("Local tiles");
+            await Assert.That(result.Value.MaxZoom).IsEqualTo(16);
+        }
+
+        [Test]
+        public async Task GetMapConfig_WithBlankTileUrlAndOutOfRangeZoom_FallsBackAndClamps()
+        {
+            // Act
+            var result = GetMapConfig(new Dictionary<string, string?>
+            {
+                ["Map:TileUrl"] = " ",
+                ["Map:MaxZoom"] = "30"
+            });
+
+            // Assert
+            await Assert.That(result.Value!.TileUrl).IsEqualTo("https://tile.openstreetmap.org/{z}/{x}/{y}.png");
+            await Assert.That(result.Value.MaxZoom).IsEqualTo(22);
+        }
+
+        #endregion
     }
 }
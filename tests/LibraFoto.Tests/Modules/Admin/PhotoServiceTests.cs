@@ -509,6 +509,72 @@ namespace LibraFoto.Tests.Modules.Admin
             await Assert.That(result.Data.Length).IsEqualTo(2);
         }
 
+        [Test]
+        public async Task GetPhotosAsync_WithArea_ReturnsPhotosInsideBounds()
+        {
+            // Arrange
+            var vienna = TestHelpers.CreateTestPhoto(id: 1, filename: "vienna.jpg");
+            vienna.Latitude = 48.2082;
+            vienna.Longitude = 16.3738;
+            var paris = TestHelpers.CreateTestPhoto(id: 2, filename: "paris.jpg");
+            paris.Latitude = 48.8566;
+            paris.Longitude = 2.3522;
+            var untagged = TestHelpers.CreateTestPhoto(id: 3, filename: "untagged.jpg");
+
+            _db.Photos.AddRange(vienna, paris, untagged);
+            await _db.SaveChangesAsync();
+
+            var filter = new PhotoFilterRequest
+            {
+                MinLatitude = 48.0,
+                MaxLatitude = 48.5,
+                MinLongitude = 16.0,
+                MaxLongitude = 16.6
+            };
+
+            // Act
+            var result = await _service.GetPhotosAsync(filter);
+
+            // Assert
+            await Assert.That(result.Data.Length).IsEqualTo(1);
+            await Assert.That(result.Data[0].Filename).IsEqualTo("vienna.jpg");
+        }
+
+        [Test]
+        public async Task GetPhotosAsync_WithAreaAcrossAntimeridian_ReturnsPhotosOnBothSides()
+        {
+            // Arrange
+            var fiji = TestHelpers.CreateTestPhoto(id: 1, filename: "fiji.jpg");
+            fiji.Latitude = -17.7;
+            fiji.Longitude = 178.0;
+            var samoa = TestHelpers.CreateTestPhoto(id: 2, filename: "samoa.jpg");
+            samoa.Latitude = -13.8;
+            samoa.Longitude = -171.8;
+            var sydney = TestHelpers.CreateTestPhoto(id: 3, filename: "sydney.jpg");
+            sydney.Latitude = -33.9;
+            sydney.Longitude = 151.2;
+
+            _db.Photos.AddRange(fiji, samoa, sydney);
+            await _db.SaveChangesAsync();
+
+            var filter = new PhotoFilterRequest
+            {
+                MinLatitude = -40,
+                MaxLatitude = 0,
+                MinLongitude = 170,
+                MaxLongitude = -160,
+                SortBy = "filename",
+                SortDirection = "asc"
+            };
+
+            // Act
+            var result = await _service.GetPhotosAsync(filter);
+
+            // Assert
+            var filenames = string.Join(",", result.Data.Select(p => p.Filename));
+            await Assert.That(filenames).IsEqualTo("fiji.jpg,samoa.jpg");
+        }
+
         [Test]
         public async Task GetPhotosAsync_SortByDateTakenAscending_ReturnsSortedResults()
         {
@@ -605,6 +671,31 @@ namespace LibraFoto.Tests.Modules.Admin
             await Assert.That(result.Data[2].Filename).IsEqualTo("first.jpg");
         }
 
+        [Test]
+        public async Task GetPhotosAsync_SortByDateDescending_FallsBackToDateAdded()
+        {
+            // Arrange
+            var taken = TestHelpers.CreateTestPhoto(id: 1, filename: "taken.jpg");
+            taken.DateTaken = new DateTime(2025, 6, 1, 0, 0, 0, DateTimeKind.Utc);
+            taken.DateAdded = new DateTime(2026, 1, 1, 0, 0, 0, DateTimeKind.Utc);
+            var undated = TestHelpers.CreateTestPhoto(id: 2, filename: "undated.jpg");
+            undated.DateAdded = new DateTime(2025, 9, 1, 0, 0, 0, DateTimeKind.Utc);
+            var older = TestHelpers.CreateTestPhoto(id: 3, filename: "older.jpg");
+            older.DateTaken = new DateTime(2024, 3, 1, 0, 0, 0, DateTimeKind.Utc);
+
+            _db.Photos.AddRange(taken, undated, older);
+            await _db.SaveChangesAsync();
+
+            var filter = new PhotoFilterRequest { SortBy = "Date", SortDirection = "desc" };
+
+            // Act
+            var result = await _service.GetPhotosAsync(filter);
+
+            // Assert
+            var filenames = string.Join(",", result.Data.Select(p => p.Filename));
+            await Assert.That(filenames).IsEqualTo("undated.jpg,taken.jpg,older.jpg");
+        }
+
         [Test]
         public async Task GetPhotosAsync_WithPaginationPageTwo_ReturnsCorrectPage()
         {
@@ -1000,6 +1091,125 @@ namespace LibraFoto.Tests.Modules.Admin
 
         #endregion
 
+        #region UpdatePhotoEditsAsync Tests
+
+        [Test]
+        public async Task UpdatePhotoEditsAsync_WithNonExistentPhoto_ReturnsNull()
+        {
+            // Arrange
+            var edits = new PhotoEditsDto(90, false, null);
+
+            // Act
+            var result = await _service.UpdatePhotoEditsAsync(999, edits);
+
+            // Assert
+            await Assert.That(result).IsNull();
+        }
+
+        [Test]
+        public async Task UpdatePhotoEditsAsync_StoresEditsWithoutTouchingFile()
+        {
+            // Arrange
+            var photo = TestHelpers.CreateTestPhoto(id: 1);
+            var filePath = photo.FilePath;
+            _db.Photos.Add(photo);
+            await _db.SaveChangesAsync();
+
+            var edits = new PhotoEditsDto(270, true, new PhotoCropDto(0.1, 0.2, 0.5, 0.6));
+
+            // Act
+            var result = await _service.UpdatePhotoEditsAsync(1, edits);
+
+            // Assert
+            await Assert.That(result).IsNotNull();
+            await Assert.That(result!.Edits).IsEqualTo(edits);
+
+            var updated = await _db.Photos.FindAsync(1L);
+            await Assert.That(updated!.Rotation).IsEqualTo(270);
+            await Assert.That(updated.FlipHorizontal).IsTrue();
+            await Assert.That(updated.CropWidth).IsEqualTo(0.5);
+            await Assert.That(updated.FilePath).IsEqualTo(filePath);
+        }
+
+        [Test]
+        public async Task UpdatePhotoEditsAsync_WithoutCrop_ClearsPreviousCrop()
+        {
+            // Arrange
+            var photo = TestHelpers.CreateTestPhoto(id: 1);
+            photo.Rotation = 90;
+            photo.CropX = 0;
+            photo.CropY = 0;
+            photo.CropWidth = 0.5;
+            photo.CropHeight = 0.5;
+            _db.Photos.Add(photo);
+            await _db.SaveChangesAsync();
+
+            // Act
+            var result = await _service.UpdatePhotoEditsAsync(1, new PhotoEditsDto(0, false, null));
+
+            // Assert
+            await Assert.That(result!.Edits).IsEqualTo(new PhotoEditsDto(0, false, null));
+            var updated = await _db.Photos.FindAsync(1L);
+            await Assert.That(updated!.CropX).IsNull();
+            await Assert.That(updated.CropHeight).IsNull();
+        }
+
+        #endregion
+
+        #region UpdateFocalPointAsync Tests
+
+        [Test]
+        public async Task UpdateFocalPointAsync_WithNonExistentPhoto_ReturnsNull()
+        {
+            // Act
+            var result = await _service.UpdateFocalPointAsync(999, new PhotoFocalPointDto(0.5, 0.5));
+
+            // Assert
+            await Assert.That(result).IsNull();
+        }
+
+        [Test]
+        public async Task UpdateFocalPointAsync_StoresPoint()
+        {
+            // Arrange
+            var photo = TestHelpers.CreateTestPhoto(id: 1);
+            _db.Photos.Add(photo);
+            await _db.SaveChangesAsync();
+
+            var focalPoint = new PhotoFocalPointDto(0.2, 0.35);
+
+            // Act
+            var result = await _service.UpdateFocalPointAsync(1, focalPoint);
+
+            // Assert
+            await Assert.That(result!.FocalPoint).IsEqualTo(focalPoint);
+            var updated = await _db.Photos.FindAsync(1L);
+            await Assert.That(updated!.FocalPointX).IsEqualTo(0.2);
+            await Assert.That(updated.FocalPointY).IsEqualTo(0.35);
+        }
+
+        [Test]
+        public async Task UpdateFocalPointAsync_WithNull_ClearsPoint()
+        {
+            // Arrange
+            var photo = TestHelpers.CreateTestPhoto(id: 1);
+            photo.FocalPointX = 0.8;
+            photo.FocalPointY = 0.1;
+            _db.Photos.Add(photo);
+            await _db.SaveChangesAsync();
+
+            // Act
+            var result = await _service.UpdateFocalPointAsync(1, null);
+
+            // Assert
+            await Assert.That(result!.FocalPoint).IsNull();
+            var updated = await _db.Photos.FindAsync(1L);
+            await Assert.That(updated!.FocalPointX).IsNull();
+            await Assert.That(updated.FocalPointY).IsNull();
+        }
+
+        #endregion
+
         #region GetPhotoCountAsync Tests
 
         [Test]
@@ -1031,6 +1241,85 @@ namespace LibraFoto.Tests.Modules.Admin
 
         #endregion
 
+        #region GetTimelineAsync Tests
+
+        [Test]
+        public async Task GetTimelineAsync_GroupsPhotosByDayNewestFirst()
+        {
+            // Arrange
+            var morning = TestHelpers.CreateTestPhoto(id: 1, filename: "morning.jpg");
+            morning.DateTaken = new DateTime(2025, 6, 1, 8, 0, 0, DateTimeKind.Utc);
+            var evening = TestHelpers.CreateTestPhoto(id: 2, filename: "evening.jpg");
+            evening.DateTaken = new DateTime(2025, 6, 1, 20, 0, 0, DateTimeKind.Utc);
+            var undated = TestHelpers.CreateTestPhoto(id: 3, filename: "undated.jpg");
+            undated.DateAdded = new DateTime(2025, 9, 12, 10, 0, 0, DateTimeKind.Utc);
+            var older = TestHelpers.CreateTestPhoto(id: 4, filename: "older.jpg");
+            older.DateTaken = new DateTime(2024, 3, 1, 12, 0, 0, DateTimeKind.Utc);
+
+            _db.Photos.AddRange(morning, evening, undated, older);
+            await _db.SaveChangesAsync();
+
+            // Act
+            var result = await _service.GetTimelineAsync(new PhotoFilterRequest());
+
+            // Assert
+            var days = string.Join(",", result.Select(d => $"{d.Date:yyyy-MM-dd}:{d.Count}"));
+            await Assert.That(days).IsEqualTo("2025-09-12:1,2025-06-01:2,2024-03-01:1");
+        }
+
+        [Test]
+        public async Task GetTimelineAsync_AppliesFilters()
+        {
+            // Arrange
+            var photo = TestHelpers.CreateTestPhoto(id: 1, filename: "photo.jpg");
+            photo.DateTaken = new DateTime(2025, 6, 1, 0, 0, 0, DateTimeKind.Utc);
+            var video = TestHelpers.CreateTestPhoto(id: 2, filename: "video.mp4", mediaType: MediaType.Video);
+            video.DateTaken = new DateTime(2025, 7, 1, 0, 0, 0, DateTimeKind.Utc);
+
+            _db.Photos.AddRange(photo, video);
+            await _db.SaveChangesAsync();
+
+            var filter = new PhotoFilterRequest { MediaType = MediaType.Video };
+
+            // Act
+            var result = await _service.GetTimelineAsync(filter);
+
+            // Assert
+            await Assert.That(result.Count).IsEqualTo(1);
+            await Assert.That(result[0].Date).IsEqualTo(new DateTime(2025, 7, 1));
+            await Assert.That(result[0].Count).IsEqualTo(1);
+        }
+
+        #endregion
+
+        #region GetPhotoLocationsAsync Tests
+
+        [Test]
+        public async Task GetPhotoLocationsAsync_ReturnsOnlyGeotaggedPhotos()
+        {
+            // Arrange
+            var paris = TestHelpers.CreateTestPhoto(id: 2, filename: "paris.jpg");
+            paris.Latitude = 48.8566;
+            paris.Longitude = 2.3522;
+            var vienna = TestHelpers.CreateTestPhoto(id: 1, filename: "vienna.jpg");
+            vienna.Latitude = 48.2082;
+            vienna.Longitude = 16.3738;
+            var untagged = TestHelpers.CreateTestPhoto(id: 3, filename: "untagged.jpg");
+
+            _db.Photos.AddRange(paris, vienna, untagged);
+            await _db.SaveChangesAsync();
+
+            // Act
+            var result = await _service.GetPhotoLocationsAsync();
+
+            // Assert
+            await Assert.That(string.Join(",", result.Select(p => p.Id))).IsEqualTo("1,2");
+            await Assert.That(result[0].Latitude).IsEqualTo(48.2082);
+            await Assert.That(result[0].Longitude).IsEqualTo(16.3738);
+        }
+
+        #endregion
+
         #region AddPhotosToAlbumAsync Tests
 
         [Test]
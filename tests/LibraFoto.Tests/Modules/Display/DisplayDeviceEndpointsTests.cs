@@ -0,0 +1,285 @@
+using LibraFoto.Modules.Display.Endpoints;
+using LibraFoto.Modules.Display.Models;
+using LibraFoto.Modules.Display.Services;
+using LibraFoto.Shared.DTOs;
+using Microsoft.AspNetCore.Http.HttpResults;
+using NSubstitute;
+
+namespace LibraFoto.Tests.Modules.Display
+{
+    /// <summary>
+    /// Tests for DisplayDeviceEndpoints covering registration, validation and
+    /// profile assignment.
+    /// </summary>
+    public class DisplayDeviceEndpointsTests
+    {
+        private IDisplayDeviceService _deviceService = null!;
+        private IDisplaySettingsService _settingsService = null!;
+        private IDisplayEventService _eventService = null!;
+
+        [Before(Test)]
+        public void Setup()
+        {
+            _deviceService = Substitute.For<IDisplayDeviceService>();
+            _settingsService = Substitute.For<IDisplaySettingsService>();
+            _eventService = Substitute.For<IDisplayEventService>();
+        }
+
+        #region RegisterDevice Tests
+
+        [Test]
+        public async Task RegisterDevice_ReturnsRegisteredDevice()
+        {
+            // Arrange
+            var request = new DeviceRegistrationRequest { DeviceId = "frame-1" };
+            var device = new DisplayDeviceDto { Id = 1, DeviceId = "frame-1", Name = "Frame frame-" };
+            _deviceService.RegisterAsync(request, Arg.Any<CancellationToken>()).Returns(device);
+
+            // Act
+            var result = await DisplayDeviceEndpoints_TestHelper.RegisterDevice(request, _deviceService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<Ok<DisplayDeviceDto>>();
+            await Assert.That(((Ok<DisplayDeviceDto>)result.Result).Value).IsEqualTo(device);
+        }
+
+        [Test]
+        [Arguments("")]
+        [Arguments("   ")]
+        public async Task RegisterDevice_WithoutDeviceId_ReturnsBadRequest(string deviceId)
+        {
+            // Act
+            var result = await DisplayDeviceEndpoints_TestHelper.RegisterDevice(
+                new DeviceRegistrationRequest { DeviceId = deviceId }, _deviceService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            await _deviceService.DidNotReceive().RegisterAsync(Arg.Any<DeviceRegistrationRequest>(), Arg.Any<CancellationToken>());
+        }
+
+        [Test]
+        public async Task RegisterDevice_WithTooLongDeviceId_ReturnsBadRequest()
+        {
+            // Act
+            var result = await DisplayDeviceEndpoints_TestHelper.RegisterDevice(
+                new DeviceRegistrationRequest { DeviceId = new string('a', 65) }, _deviceService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+        }
+
+        #endregion
+
+        #region RecordHeartbeat Tests
+
+        [Test]
+        public async Task RecordHeartbeat_ReturnsNoContent()
+        {
+            // Arrange
+            var request = new DisplayHeartbeatRequest { CurrentPhotoId = 7, UptimeSeconds = 120, ScreenWidth = 1920, ScreenHeight = 1200 };
+            _deviceService.RecordHeartbeatAsync("frame-1", request, Arg.Any<CancellationToken>()).Returns(true);
+
+            // Act
+            var result = await DisplayDeviceEndpoints_TestHelper.RecordHeartbeat("frame-1", request, _deviceService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<NoContent>();
+        }
+
+        [Test]
+        public async Task RecordHeartbeat_ForUnknownDevice_ReturnsNotFound()
+        {
+            // Arrange
+            _deviceService.RecordHeartbeatAsync("gone", Arg.Any<DisplayHeartbeatRequest>(), Arg.Any<CancellationToken>()).Returns(false);
+
+            // Act
+            var result = await DisplayDeviceEndpoints_TestHelper.RecordHeartbeat("gone", new DisplayHeartbeatRequest(), _deviceService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<NotFound<ApiError>>();
+        }
+
+        [Test]
+        public async Task RecordHeartbeat_WithNegativeValues_ReturnsBadRequest()
+        {
+            // Act
+            var result = await DisplayDeviceEndpoints_TestHelper.RecordHeartbeat(
+                "frame-1", new DisplayHeartbeatRequest { UptimeSeconds = -1 }, _deviceService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            await _deviceService.DidNotReceive().RecordHeartbeatAsync(
+                Arg.Any<string>(), Arg.Any<DisplayHeartbeatRequest>(), Arg.Any<CancellationToken>());
+        }
+
+        [Test]
+        public async Task RecordHeartbeat_WithTooManyErrors_ReturnsBadRequest()
+        {
+            // Arrange
+            var errors = Enumerable.Range(0, DisplayDeviceService.MaxStoredErrors + 1)
+                .Select(i => new DisplayErrorReport { OccurredAt = DateTime.UtcNow, Message = $"Error {i}" })
+                .ToList();
+
+            // Act
+            var result = await DisplayDeviceEndpoints_TestHelper.RecordHeartbeat(
+                "frame-1", new DisplayHeartbeatRequest { Errors = errors }, _deviceService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+        }
+
+        #endregion
+
+        #region UpdateDevice Tests
+
+        [Test]
+        public async Task UpdateDevice_PublishesSettingsChanged()
+        {
+            // Arrange
+            var request = new UpdateDisplayDeviceRequest { Name = "Kitchen", DisplaySettingsId = 3 };
+            _settingsService.GetByIdAsync(3, Arg.Any<CancellationToken>()).Returns(new DisplaySettingsDto { Id = 3 });
+            _deviceService.UpdateAsync(1, request, Arg.Any<CancellationToken>())
+                .Returns(new DisplayDeviceDto { Id = 1, Name = "Kitchen", DisplaySettingsId = 3 });
+
+            // Act
+            var result = await DisplayDeviceEndpoints_TestHelper.UpdateDevice(1, request, _deviceService, _settingsService, _eventService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<Ok<DisplayDeviceDto>>();
+            _eventService.Received(1).Publish(Arg.Is<DisplayEvent>(e =>
+                e.Type == DisplayEventTypes.SettingsChanged && e.SettingsId == null));
+        }
+
+        [Test]
+        public async Task UpdateDevice_WithoutName_ReturnsBadRequest()
+        {
+            // Act
+            var result = await DisplayDeviceEndpoints_TestHelper.UpdateDevice(
+                1, new UpdateDisplayDeviceRequest { Name = " " }, _deviceService, _settingsService, _eventService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+        }
+
+        [Test]
+        public async Task UpdateDevice_WithUnknownProfile_ReturnsBadRequest()
+        {
+            // Arrange
+            _settingsService.GetByIdAsync(99, Arg.Any<CancellationToken>()).Returns((DisplaySettingsDto?)null);
+
+            // Act
+            var result = await DisplayDeviceEndpoints_TestHelper.UpdateDevice(
+                1, new UpdateDisplayDeviceRequest { Name = "Kitchen", DisplaySettingsId = 99 },
+                _deviceService, _settingsService, _eventService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            var badRequest = (BadRequest<ApiError>)result.Result;
+            await Assert.That(badRequest.Value!.Code).IsEqualTo("SETTINGS_NOT_FOUND");
+            await _deviceService.DidNotReceive().UpdateAsync(Arg.Any<long>(), Arg.Any<UpdateDisplayDeviceRequest>(), Arg.Any<CancellationToken>());
+        }
+
+        [Test]
+        public async Task UpdateDevice_WhenNotFound_ReturnsNotFound()
+        {
+            // Arrange
+            _deviceService.UpdateAsync(1, Arg.Any<UpdateDisplayDeviceRequest>(), Arg.Any<CancellationToken>())
+                .Returns((DisplayDeviceDto?)null);
+
+            // Act
+            var result = await DisplayDeviceEndpoints_TestHelper.UpdateDevice(
+                1, new UpdateDisplayDeviceRequest { Name = "Kitchen" }, _deviceService, _settingsService, _eventService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<NotFound<ApiError>>();
+            _eventService.DidNotReceive().Publish(Arg.Any<DisplayEvent>());
+        }
+
+        #endregion
+
+        #region DeleteDevice Tests
+
+        [Test]
+        public async Task DeleteDevice_ReturnsNoContent()
+        {
+            // Arrange
+            _deviceService.DeleteAsync(1, Arg.Any<CancellationToken>()).Returns(true);
+
+            // Act
+            var result = await DisplayDeviceEndpoints_TestHelper.DeleteDevice(1, _deviceService, _eventService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<NoContent>();
+        }
+
+        [Test]
+        public async Task DeleteDevice_WhenNotFound_ReturnsNotFound()
+        {
+            // Arrange
+            _deviceService.DeleteAsync(1, Arg.Any<CancellationToken>()).Returns(false);
+
+            // Act
+            var result = await DisplayDeviceEndpoints_TestHelper.DeleteDevice(1, _deviceService, _eventService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<NotFound<ApiError>>();
+        }
+
+        #endregion
+    }
+
+    /// <summary>
+    /// Test helper to access private endpoint methods via reflection.
+    /// </summary>
+    internal static class DisplayDeviceEndpoints_TestHelper
+    {
+        public static async Task<Results<Ok<DisplayDeviceDto>, BadRequest<ApiError>>> RegisterDevice(
+            DeviceRegistrationRequest request,
+            IDisplayDeviceService deviceService)
+        {
+            var method = typeof(DisplayDeviceEndpoints)
+                .GetMethod("RegisterDevice", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
+
+            var result = method!.Invoke(null, new object[] { request, deviceService, CancellationToken.None });
+            return await (Task<Results<Ok<DisplayDeviceDto>, BadRequest<ApiError>>>)result!;
+        }
+
+        public static async Task<Results<NoContent, NotFound<ApiError>, BadRequest<ApiError>>> RecordHeartbeat(
+            string deviceId,
+            DisplayHeartbeatRequest request,
+            IDisplayDeviceService deviceService)
+        {
+            var method = typeof(DisplayDeviceEndpoints)
+                .GetMethod("RecordHeartbeat", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
+
+            var result = method!.Invoke(null, new object[] { deviceId, request, deviceService, CancellationToken.None });
+            return await (Task<Results<NoContent, NotFound<ApiError>, BadRequest<ApiError>>>)result!;
+        }
+
+        public static async Task<Results<Ok<DisplayDeviceDto>, NotFound<ApiError>, BadRequest<ApiError>>> UpdateDevice(
+            long id,
+            UpdateDisplayDeviceRequest request,
+            IDisplayDeviceService deviceService,
+            IDisplaySettingsService settingsService,
+            IDisplayEventService eventService)
+        {
+            var method = typeof(DisplayDeviceEndpoints)
+                .GetMethod("UpdateDevice", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
+
+            var result = method!.Invoke(null, new object[] { id, request, deviceService, settingsService, eventService, CancellationToken.None });
+            return await (Task<Results<Ok<DisplayDeviceDto>, NotFound<ApiError>, BadRequest<ApiError>>>)result!;
+        }
+
+        public static async Task<Results<NoContent, NotFound<ApiError>>> DeleteDevice(
+            long id,
+            IDisplayDeviceService deviceService,
+            IDisplayEventService eventService)
+        {
+            var method = typeof(DisplayDeviceEndpoints)
+                .GetMethod("DeleteDevice", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
+
+            var result = method!.Invoke(null, new object[] { id, deviceService, eventService, CancellationToken.None });
+            return await (Task<Results<NoContent, NotFound<ApiError>>>)result!;
+        }
+    }
+}
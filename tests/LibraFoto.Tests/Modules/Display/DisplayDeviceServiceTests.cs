@@ -0,0 +1,310 @@
+using LibraFoto.Data;
+using LibraFoto.Data.Entities;
+using LibraFoto.Modules.Display.Models;
+using LibraFoto.Modules.Display.Services;
+using Microsoft.Data.Sqlite;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging.Abstractions;
+using TUnit.Core;
+
+namespace LibraFoto.Tests.Modules.Display
+{
+    public class DisplayDeviceServiceTests
+    {
+        private SqliteConnection _connection = null!;
+        private LibraFotoDbContext _db = null!;
+        private DisplayDeviceService _service = null!;
+
+        [Before(Test)]
+        public async Task Setup()
+        {
+            _connection = new SqliteConnection($"Data Source=TestDb_{Guid.NewGuid():N};Mode=Memory;Cache=Shared");
+            await _connection.OpenAsync();
+            var options = new DbContextOptionsBuilder<LibraFotoDbContext>()
+                .UseSqlite(_connection).Options;
+            _db = new LibraFotoDbContext(options);
+            await _db.Database.EnsureCreatedAsync();
+            var settingsService = new DisplaySettingsService(_db, NullLogger<DisplaySettingsService>.Instance);
+            _service = new DisplayDeviceService(_db, settingsService, NullLogger<DisplayDeviceService>.Instance);
+        }
+
+        [After(Test)]
+        public async Task Cleanup()
+        {
+            await _db.DisposeAsync();
+            await _connection.DisposeAsync();
+        }
+
+        [Test]
+        public async Task RegisterAsync_CreatesDevice_WithDefaultName()
+        {
+            // Act
+            var result = await _service.RegisterAsync(new DeviceRegistrationRequest { DeviceId = "abcdef123456" });
+
+            // Assert
+            await Assert.That(result.Id).IsGreaterThan(0);
+            await Assert.That(result.Name).IsEqualTo("Frame abcdef");
+            await Assert.That(await _db.DisplayDevices.CountAsync()).IsEqualTo(1);
+        }
+
+        [Test]
+        public async Task RegisterAsync_ExistingDevice_KeepsNameAndRefreshesLastSeen()
+        {
+            // Arrange
+            var lastSeen = DateTime.UtcNow.AddDays(-1);
+            _db.DisplayDevices.Add(new DisplayDevice { DeviceId = "frame-1", Name = "Kitchen", LastSeenAt = lastSeen });
+            await _db.SaveChangesAsync();
+
+            // Act
+            var result = await _service.RegisterAsync(new DeviceRegistrationRequest { DeviceId = "frame-1", Name = "Other" });
+
+            // Assert
+            await Assert.That(result.Name).IsEqualTo("Kitchen");
+            await Assert.That(result.LastSeenAt).IsGreaterThan(lastSeen);
+            await Assert.That(await _db.DisplayDevices.CountAsync()).IsEqualTo(1);
+        }
+
+        [Test]
+        public async Task UpdateAsync_AssignsProfile()
+        {
+            // Arrange
+            var settings = new DisplaySettings { Name = "Evening" };
+            var device = new DisplayDevice { DeviceId = "frame-1", Name = "Kitchen" };
+            _db.AddRange(settings, device);
+            await _db.SaveChangesAsync();
+
+            // Act
+            var result = await _service.UpdateAsync(device.Id, new UpdateDisplayDeviceRequest
+            {
+                Name = " Living Room ",
+                DisplaySettingsId = settings.Id
+            });
+
+            // Assert
+            await Assert.That(result).IsNotNull();
+            await Assert.That(result!.Name).IsEqualTo("Living Room");
+            await Assert.That(result.DisplaySettingsId).IsEqualTo(settings.Id);
+            await Assert.That(result.DisplaySettingsName).IsEqualTo("Evening");
+        }
+
+        [Test]
+        public async Task UpdateAsync_ReturnsNull_WhenNotFound()
+        {
+            // Act
+            var result = await _service.UpdateAsync(999, new UpdateDisplayDeviceRequest { Name = "Kitchen" });
+
+            // Assert
+            await Assert.That(result).IsNull();
+        }
+
+        [Test]
+        public async Task DeleteAsync_RemovesDevice()
+        {
+            // Arrange
+            var device = new DisplayDevice { DeviceId = "frame-1", Name = "Kitchen" };
+            _db.DisplayDevices.Add(device);
+            await _db.SaveChangesAsync();
+
+            // Act
+            var deleted = await _service.DeleteAsync(device.Id);
+            var missing = await _service.DeleteAsync(device.Id);
+
+            // Assert
+            await Assert.That(deleted).IsTrue();
+            await Assert.That(missing).IsFalse();
+        }
+
+        [Test]
+        public async Task GetSettingsForDeviceAsync_ReturnsAssignedProfile()
+        {
+            // Arrange
+            var active = new DisplaySettings { Name = "Active", IsActive = true };
+            var assigned = new DisplaySettings { Name = "Assigned" };
+            _db.DisplaySettings.AddRange(active, assigned);
+            await _db.SaveChangesAsync();
+            _db.DisplayDevices.Add(new DisplayDevice { DeviceId = "frame-1", Name = "Kitchen", DisplaySettingsId = assigned.Id });
+            await _db.SaveChangesAsync();
+
+            // Act
+            var result = await _service.GetSettingsForDeviceAsync("frame-1");
+
+            // Assert
+            await Assert.That(result.Id).IsEqualTo(assigned.Id);
+        }
+
+        [Test]
+        public async Task GetSettingsForDeviceAsync_UsesScheduledProfile_WhenNoneAssigned()
+        {
+            // Arrange
+            var active = new DisplaySettings { Name = "Active", IsActive = true };
+            var scheduled = new DisplaySettings { Name = "Morning" };
+            var assigned = new DisplaySettings { Name = "Assigned" };
+            _db.DisplaySettings.AddRange(active, scheduled, assigned);
+            await _db.SaveChangesAsync();
+            _db.DisplayDevices.AddRange(
+                new DisplayDevice { DeviceId = "frame-1", Name = "Kitchen" },
+                new DisplayDevice { DeviceId = "frame-2", Name = "Hall", DisplaySettingsId = assigned.Id });
+            await _db.SaveChangesAsync();
+
+            // Act
+            var unassigned = await _service.GetSettingsForDeviceAsync("frame-1", scheduled.Id);
+            var withAssignment = await _service.GetSettingsForDeviceAsync("frame-2", scheduled.Id);
+            var missingProfile = await _service.GetSettingsForDeviceAsync("frame-1", 999);
+
+            // Assert
+            await Assert.That(unassigned.Id).IsEqualTo(scheduled.Id);
+            await Assert.That(withAssignment.Id).IsEqualTo(assigned.Id);
+            await Assert.That(missingProfile.Id).IsEqualTo(active.Id);
+        }
+
+        [Test]
+        [Arguments("frame-1")]
+        [Arguments("unknown")]
+        public async Task GetSettingsForDeviceAsync_FallsBackToActiveProfile(string deviceId)
+        {
+            // Arrange
+            var active = new DisplaySettings { Name = "Active", IsActive = true };
+            _db.DisplaySettings.Add(active);
+            _db.DisplayDevices.Add(new DisplayDevice { DeviceId = "frame-1", Name = "Kitchen" });
+            await _db.SaveChangesAsync();
+
+            // Act
+            var result = await _service.GetSettingsForDeviceAsync(deviceId);
+
+            // Assert
+            await Assert.That(result.Id).IsEqualTo(active.Id);
+        }
+
+        [Test]
+        public async Task DeletingProfile_UnassignsDevices()
+        {
+            // Arrange
+            var active = new DisplaySettings { Name = "Active", IsActive = true };
+            var assigned = new DisplaySettings { Name = "Assigned" };
+            _db.DisplaySettings.AddRange(active, assigned);
+            await _db.SaveChangesAsync();
+            _db.DisplayDevices.Add(new DisplayDevice { DeviceId = "frame-1", Name = "Kitchen", DisplaySettingsId = assigned.Id });
+            await _db.SaveChangesAsync();
+
+            // Act
+            _db.DisplaySettings.Remove(assigned);
+            await _db.SaveChangesAsync();
+            var result = await _service.GetSettingsForDeviceAsync("frame-1");
+
+            // Assert
+            await Assert.That(result.Id).IsEqualTo(active.Id);
+            var device = await _db.DisplayDevices.AsNoTracking().SingleAsync();
+            await Assert.That(device.DisplaySettingsId).IsNull();
+        }
+
+        [Test]
+        public async Task RecordStatusAsync_UpdatesCurrentPhoto()
+        {
+            // Arrange
+            _db.DisplayDevices.Add(new DisplayDevice { DeviceId = "frame-1", Name = "Kitchen" });
+            await _db.SaveChangesAsync();
+
+            // Act
+            await _service.RecordStatusAsync("frame-1", 42);
+            await _service.RecordStatusAsync("unknown", 7);
+
+            // Assert
+            var device = await _db.DisplayDevices.AsNoTracking().SingleAsync();
+            await Assert.That(device.CurrentPhotoId).IsEqualTo(42);
+        }
+
+        [Test]
+        public async Task RecordHeartbeatAsync_StoresTelemetryAndErrors()
+        {
+            // Arrange
+            _db.DisplayDevices.Add(new DisplayDevice { DeviceId = "frame-1", Name = "Kitchen", LastSeenAt = DateTime.UtcNow.AddDays(-1) });
+            await _db.SaveChangesAsync();
+            var fetchedAt = DateTime.UtcNow.AddMinutes(-2);
+
+            // Act
+            var recorded = await _service.RecordHeartbeatAsync("frame-1", new DisplayHeartbeatRequest
+            {
+                CurrentPhotoId = 9,
+                UptimeSeconds = 3600,
+                LastSuccessfulFetchAt = fetchedAt,
+                ErrorCount = 1,
+                CacheUsageBytes = 1024,
+                ScreenWidth = 1920,
+                ScreenHeight = 1200,
+                JsHeapUsedBytes = 2048,
+                Errors = [new DisplayErrorReport { OccurredAt = fetchedAt, Message = new string('x', 1500), Source = "main.ts" }]
+            });
+
+            // Assert
+            await Assert.That(recorded).IsTrue();
+            var device = await _db.DisplayDevices.AsNoTracking().SingleAsync();
+            await Assert.That(device.CurrentPhotoId).IsEqualTo(9);
+            await Assert.That(device.UptimeSeconds).IsEqualTo(3600);
+            await Assert.That(device.ScreenWidth).IsEqualTo(1920);
+            await Assert.That(device.LastHeartbeatAt).IsNotNull();
+            await Assert.That(device.LastSeenAt).IsGreaterThan(DateTime.UtcNow.AddMinutes(-1));
+            var error = await _db.DisplayDeviceErrors.AsNoTracking().SingleAsync();
+            await Assert.That(error.Message.Length).IsEqualTo(1000);
+            await Assert.That(error.Source).IsEqualTo("main.ts");
+        }
+
+        [Test]
+        public async Task RecordHeartbeatAsync_KeepsOnlyNewestErrors()
+        {
+            // Arrange
+            _db.DisplayDevices.Add(new DisplayDevice { DeviceId = "frame-1", Name = "Kitchen" });
+            await _db.SaveChangesAsync();
+            var start = DateTime.UtcNow.AddHours(-1);
+            var errors = Enumerable.Range(0, 60)
+                .Select(i => new DisplayErrorReport { OccurredAt = start.AddSeconds(i), Message = $"Error {i}" })
+                .ToList();
+
+            // Act
+            await _service.RecordHeartbeatAsync("frame-1", new DisplayHeartbeatRequest { Errors = errors.Take(30).ToList() });
+            await _service.RecordHeartbeatAsync("frame-1", new DisplayHeartbeatRequest { Errors = errors.Skip(30).ToList() });
+
+            // Assert
+            var stored = await _db.DisplayDeviceErrors.AsNoTracking().ToListAsync();
+            await Assert.That(stored.Count).IsEqualTo(DisplayDeviceService.MaxStoredErrors);
+            await Assert.That(stored.Min(e => e.OccurredAt)).IsEqualTo(start.AddSeconds(10));
+        }
+
+        [Test]
+        public async Task RecordHeartbeatAsync_ReturnsFalse_ForUnknownDevice()
+        {
+            // Act
+            var recorded = await _service.RecordHeartbeatAsync("unknown", new DisplayHeartbeatRequest());
+
+            // Assert
+            await Assert.That(recorded).IsFalse();
+        }
+
+        [Test]
+        public async Task GetHealthAsync_ReportsStatusAndRecentErrors()
+        {
+            // Arrange
+            var now = DateTime.UtcNow;
+            var online = new DisplayDevice { DeviceId = "frame-1", Name = "A Kitchen", LastSeenAt = now.AddMinutes(-1) };
+            _db.DisplayDevices.AddRange(
+                online,
+                new DisplayDevice { DeviceId = "frame-2", Name = "B Hall", LastSeenAt = now.AddMinutes(-10) },
+                new DisplayDevice { DeviceId = "frame-3", Name = "C Grandma", LastSeenAt = now.AddDays(-3) });
+            await _db.SaveChangesAsync();
+            _db.DisplayDeviceErrors.AddRange(
+                new DisplayDeviceError { DisplayDeviceId = online.Id, OccurredAt = now.AddMinutes(-5), Message = "older" },
+                new DisplayDeviceError { DisplayDeviceId = online.Id, OccurredAt = now.AddMinutes(-2), Message = "newer" });
+            await _db.SaveChangesAsync();
+
+            // Act
+            var result = await _service.GetHealthAsync();
+
+            // Assert
+            await Assert.That(result[0].Status).IsEqualTo(DisplayDeviceHealthStatus.Online);
+            await Assert.That(result[1].Status).IsEqualTo(DisplayDeviceHealthStatus.Stale);
+            await Assert.That(result[2].Status).IsEqualTo(DisplayDeviceHealthStatus.Offline);
+            await Assert.That(result[0].RecentErrors.Count).IsEqualTo(2);
+            await Assert.That(result[0].RecentErrors[0].Message).IsEqualTo("newer");
+            await Assert.That(result[1].RecentErrors.Count).IsEqualTo(0);
+        }
+    }
+}
@@ -0,0 +1,114 @@
+using LibraFoto.Modules.Display.Models;
+using LibraFoto.Modules.Display.Services;
+using Microsoft.Extensions.Logging.Abstractions;
+using TUnit.Core;
+
+namespace LibraFoto.Tests.Modules.Display
+{
+    public class DisplayEventServiceTests
+    {
+        private DisplayEventService _service = null!;
+
+        [Before(Test)]
+        public void Setup()
+        {
+            _service = new DisplayEventService(NullLogger<DisplayEventService>.Instance);
+        }
+
+        [Test]
+        public async Task Publish_DeliversEventToSubscriber()
+        {
+            // Arrange
+            using var cts = new CancellationTokenSource(TimeSpan.FromSeconds(5));
+            var enumerator = _service.SubscribeAsync(cts.Token).GetAsyncEnumerator(cts.Token);
+            var next = enumerator.MoveNextAsync();
+
+            // Act
+            _service.Publish(new DisplayEvent { Type = DisplayEventTypes.SettingsChanged, SettingsId = 7 });
+
+            // Assert
+            await Assert.That(await next).IsTrue();
+            await Assert.That(enumerator.Current.Type).IsEqualTo(DisplayEventTypes.SettingsChanged);
+            await Assert.That(enumerator.Current.SettingsId).IsEqualTo(7);
+
+            await cts.CancelAsync();
+            await enumerator.DisposeAsync();
+        }
+
+        [Test]
+        public async Task Publish_DeliversEventToEverySubscriber()
+        {
+            // Arrange
+            using var cts = new CancellationTokenSource(TimeSpan.FromSeconds(5));
+            var first = _service.SubscribeAsync(cts.Token).GetAsyncEnumerator(cts.Token);
+            var second = _service.SubscribeAsync(cts.Token).GetAsyncEnumerator(cts.Token);
+            var firstNext = first.MoveNextAsync();
+            var secondNext = second.MoveNextAsync();
+
+            // Act
+            _service.Publish(new DisplayEvent { Type = DisplayEventTypes.PhotoLibraryChanged });
+
+            // Assert
+            await Assert.That(_service.SubscriberCount).IsEqualTo(2);
+            await Assert.That(await firstNext).IsTrue();
+            await Assert.That(await secondNext).IsTrue();
+            await Assert.That(first.Current.Type).IsEqualTo(DisplayEventTypes.PhotoLibraryChanged);
+            await Assert.That(second.Current.Type).IsEqualTo(DisplayEventTypes.PhotoLibraryChanged);
+
+            await cts.CancelAsync();
+            await first.DisposeAsync();
+            await second.DisposeAsync();
+        }
+
+        [Test]
+        public async Task SubscribeAsync_EmitsHeartbeat_WhenIdle()
+        {
+            // Arrange
+            var service = new DisplayEventService(NullLogger<DisplayEventService>.Instance)
+            {
+                HeartbeatInterval = TimeSpan.FromMilliseconds(50)
+            };
+            using var cts = new CancellationTokenSource(TimeSpan.FromSeconds(5));
+            var enumerator = service.SubscribeAsync(cts.Token).GetAsyncEnumerator(cts.Token);
+
+            // Act
+            var moved = await enumerator.MoveNextAsync();
+
+            // Assert
+            await Assert.That(moved).IsTrue();
+            await Assert.That(enumerator.Current.Type).IsEqualTo(DisplayEventTypes.Heartbeat);
+
+            await cts.CancelAsync();
+            await enumerator.DisposeAsync();
+        }
+
+        [Test]
+        public async Task SubscribeAsync_RemovesSubscriber_WhenDisposed()
+        {
+            // Arrange
+            using var cts = new CancellationTokenSource(TimeSpan.FromSeconds(5));
+            var enumerator = _service.SubscribeAsync(cts.Token).GetAsyncEnumerator(cts.Token);
+            var next = enumerator.MoveNextAsync();
+            _service.Publish(new DisplayEvent { Type = DisplayEventTypes.SettingsChanged });
+            await next;
+            await Assert.That(_service.SubscriberCount).IsEqualTo(1);
+
+            // Act
+            await cts.CancelAsync();
+            await enumerator.DisposeAsync();
+
+            // Assert
+            await Assert.That(_service.SubscriberCount).IsEqualTo(0);
+        }
+
+        [Test]
+        public async Task Publish_WithNoSubscribers_DoesNotThrow()
+        {
+            // Act
+            _service.Publish(new DisplayEvent { Type = DisplayEventTypes.RemoteCommand });
+
+            // Assert
+            await Assert.That(_service.SubscriberCount).IsEqualTo(0);
+        }
+    }
+}
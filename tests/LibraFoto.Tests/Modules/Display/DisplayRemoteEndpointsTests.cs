@@ -0,0 +1,203 @@
+using LibraFoto.Modules.Display.Endpoints;
+using LibraFoto.Modules.Display.Models;
+using LibraFoto.Modules.Display.Services;
+using LibraFoto.Shared.DTOs;
+using Microsoft.AspNetCore.Http.HttpResults;
+using NSubstitute;
+
+namespace LibraFoto.Tests.Modules.Display
+{
+    /// <summary>
+    /// Tests for DisplayRemoteEndpoints covering command validation, publishing
+    /// and status reporting.
+    /// </summary>
+    public class DisplayRemoteEndpointsTests
+    {
+        private ISlideshowService _slideshowService = null!;
+        private IDisplayEventService _eventService = null!;
+        private IDisplayStatusService _statusService = null!;
+        private IDisplayDeviceService _deviceService = null!;
+
+        [Before(Test)]
+        public void Setup()
+        {
+            _slideshowService = Substitute.For<ISlideshowService>();
+            _eventService = Substitute.For<IDisplayEventService>();
+            _statusService = Substitute.For<IDisplayStatusService>();
+            _deviceService = Substitute.For<IDisplayDeviceService>();
+        }
+
+        #region SendCommand Tests
+
+        [Test]
+        [Arguments(RemoteCommandType.Next)]
+        [Arguments(RemoteCommandType.Previous)]
+        [Arguments(RemoteCommandType.Pause)]
+        [Arguments(RemoteCommandType.Resume)]
+        public async Task SendCommand_PublishesRemoteCommandEvent(RemoteCommandType command)
+        {
+            // Arrange
+            _eventService.SubscriberCount.Returns(2);
+            var request = new RemoteCommandRequest { Command = command };
+
+            // Act
+            var result = await DisplayRemoteEndpoints_TestHelper.SendCommand(request, _slideshowService, _eventService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<Ok<RemoteCommandResponse>>();
+            var okResult = (Ok<RemoteCommandResponse>)result.Result;
+            await Assert.That(okResult.Value!.DisplayCount).IsEqualTo(2);
+            _eventService.Received(1).Publish(Arg.Is<DisplayEvent>(e =>
+                e.Type == DisplayEventTypes.RemoteCommand && e.Command == command && e.Photo == null));
+        }
+
+        [Test]
+        public async Task SendCommand_ShowPhoto_IncludesPhotoInEvent()
+        {
+            // Arrange
+            var photo = new PhotoDto { Id = 42, Url = "/api/media/photos/42", Width = 800, Height = 600 };
+            _slideshowService.GetPhotoByIdAsync(42, Arg.Any<CancellationToken>()).Returns(photo);
+            var request = new RemoteCommandRequest { Command = RemoteCommandType.ShowPhoto, PhotoId = 42 };
+
+            // Act
+            var result = await DisplayRemoteEndpoints_TestHelper.SendCommand(request, _slideshowService, _eventService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<Ok<RemoteCommandResponse>>();
+            _eventService.Received(1).Publish(Arg.Is<DisplayEvent>(e =>
+                e.Command == RemoteCommandType.ShowPhoto && e.Photo != null && e.Photo.Id == 42));
+        }
+
+        [Test]
+        public async Task SendCommand_ShowPhotoWithoutPhotoId_ReturnsBadRequest()
+        {
+            // Arrange
+            var request = new RemoteCommandRequest { Command = RemoteCommandType.ShowPhoto };
+
+            // Act
+            var result = await DisplayRemoteEndpoints_TestHelper.SendCommand(request, _slideshowService, _eventService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            var badRequest = (BadRequest<ApiError>)result.Result;
+            await Assert.That(badRequest.Value!.Code).IsEqualTo("VALIDATION_ERROR");
+            _eventService.DidNotReceive().Publish(Arg.Any<DisplayEvent>());
+        }
+
+        [Test]
+        public async Task SendCommand_ShowPhotoWithUnknownPhoto_ReturnsNotFound()
+        {
+            // Arrange
+            _slideshowService.GetPhotoByIdAsync(999, Arg.Any<CancellationToken>()).Returns((PhotoDto?)null);
+            var request = new RemoteCommandRequest { Command = RemoteCommandType.ShowPhoto, PhotoId = 999 };
+
+            // Act
+            var result = await DisplayRemoteEndpoints_TestHelper.SendCommand(request, _slideshowService, _eventService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<NotFound<ApiError>>();
+            var notFound = (NotFound<ApiError>)result.Result;
+            await Assert.That(notFound.Value!.Code).IsEqualTo("PHOTO_NOT_FOUND");
+            _eventService.DidNotReceive().Publish(Arg.Any<DisplayEvent>());
+        }
+
+        [Test]
+        public async Task SendCommand_UnknownCommand_ReturnsBadRequest()
+        {
+            // Arrange
+            var request = new RemoteCommandRequest { Command = (RemoteCommandType)99 };
+
+            // Act
+            var result = await DisplayRemoteEndpoints_TestHelper.SendCommand(request, _slideshowService, _eventService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            _eventService.DidNotReceive().Publish(Arg.Any<DisplayEvent>());
+        }
+
+        #endregion
+
+        #region Status Tests
+
+        [Test]
+        public async Task ReportStatus_StoresReport()
+        {
+            // Arrange
+            var report = new DisplayStatusReport { PhotoId = 5, IsPaused = true, SettingsId = 1 };
+
+            // Act
+            var result = await DisplayRemoteEndpoints_TestHelper.ReportStatus(report, _statusService, _deviceService);
+
+            // Assert
+            await Assert.That(result).IsTypeOf<NoContent>();
+            _statusService.Received(1).Report(report);
+            await _deviceService.DidNotReceive().RecordStatusAsync(Arg.Any<string>(), Arg.Any<long?>(), Arg.Any<CancellationToken>());
+        }
+
+        [Test]
+        public async Task ReportStatus_WithDeviceId_RecordsDeviceStatus()
+        {
+            // Arrange
+            var report = new DisplayStatusReport { PhotoId = 5, DeviceId = "frame-1" };
+
+            // Act
+            await DisplayRemoteEndpoints_TestHelper.ReportStatus(report, _statusService, _deviceService);
+
+            // Assert
+            _statusService.Received(1).Report(report);
+            await _deviceService.Received(1).RecordStatusAsync("frame-1", 5, Arg.Any<CancellationToken>());
+        }
+
+        [Test]
+        public async Task GetStatus_ReturnsStatusFromService()
+        {
+            // Arrange
+            var status = new DisplayStatusDto { IsPaused = true, IsConnected = true };
+            _statusService.GetStatusAsync(Arg.Any<CancellationToken>()).Returns(status);
+
+            // Act
+            var result = await DisplayRemoteEndpoints_TestHelper.GetStatus(_statusService);
+
+            // Assert
+            await Assert.That(result.Value).IsEqualTo(status);
+        }
+
+        #endregion
+    }
+
+    /// <summary>
+    /// Test helper to access private endpoint methods via reflection.
+    /// </summary>
+    internal static class DisplayRemoteEndpoints_TestHelper
+    {
+        public static async Task<Results<Ok<RemoteCommandResponse>, BadRequest<ApiError>, NotFound<ApiError>>> SendCommand(
+            RemoteCommandRequest request,
+            ISlideshowService slideshowService,
+            IDisplayEventService eventService)
+        {
+            var method = typeof(DisplayRemoteEndpoints)
+                .GetMethod("SendCommand", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
+
+            var result = method!.Invoke(null, new object[] { request, slideshowService, eventService, CancellationToken.None });
+            return await (Task<Results<Ok<RemoteCommandResponse>, BadRequest<ApiError>, NotFound<ApiError>>>)result!;
+        }
+
+        public static async Task<Ok<DisplayStatusDto>> GetStatus(IDisplayStatusService statusService)
+        {
+            var method = typeof(DisplayRemoteEndpoints)
+                .GetMethod("GetStatus", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
+
+            var result = method!.Invoke(null, new object[] { statusService, CancellationToken.None });
+            return await (Task<Ok<DisplayStatusDto>>)result!;
+        }
+
+        public static async Task<NoContent> ReportStatus(DisplayStatusReport report, IDisplayStatusService statusService, IDisplayDeviceService deviceService)
+        {
+            var method = typeof(DisplayRemoteEndpoints)
+                .GetMethod("ReportStatus", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
+
+            var result = method!.Invoke(null, new object[] { report, statusService, deviceService, CancellationToken.None });
+            return await (Task<NoContent>)result!;
+        }
+    }
+}
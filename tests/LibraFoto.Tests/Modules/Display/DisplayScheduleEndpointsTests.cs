@@ -0,0 +1,128 @@
+using LibraFoto.Data.Enums;
+using LibraFoto.Modules.Display.Endpoints;
+using LibraFoto.Modules.Display.Models;
+using LibraFoto.Modules.Display.Services;
+using LibraFoto.Shared.DTOs;
+using Microsoft.AspNetCore.Http.HttpResults;
+using NSubstitute;
+
+namespace LibraFoto.Tests.Modules.Display
+{
+    /// <summary>
+    /// Tests for DisplayScheduleEndpoints covering rule validation and change events.
+    /// </summary>
+    public class DisplayScheduleEndpointsTests
+    {
+        private IDisplayScheduleService _scheduleService = null!;
+        private IDisplaySettingsService _settingsService = null!;
+        private IDisplayEventService _eventService = null!;
+
+        [Before(Test)]
+        public void Setup()
+        {
+            _scheduleService = Substitute.For<IDisplayScheduleService>();
+            _settingsService = Substitute.For<IDisplaySettingsService>();
+            _eventService = Substitute.For<IDisplayEventService>();
+            _settingsService.GetByIdAsync(1, Arg.Any<CancellationToken>()).Returns(new DisplaySettingsDto { Id = 1 });
+        }
+
+        [Test]
+        public async Task UpdateSchedule_SavesRulesAndPublishesScheduleChanged()
+        {
+            // Arrange
+            var request = new UpdateDisplayScheduleRequest
+            {
+                Rules =
+                [
+                    new DisplayScheduleRuleRequest { DaysOfWeek = 0b011_1110, StartTime = "07:00", EndTime = "09:00", DisplaySettingsId = 1 },
+                    new DisplayScheduleRuleRequest { DaysOfWeek = 0b111_1111, StartTime = "22:00", EndTime = "06:30", QuietMode = QuietMode.Black }
+                ]
+            };
+            _scheduleService.ReplaceRulesAsync(request.Rules, Arg.Any<CancellationToken>())
+                .Returns(new List<DisplayScheduleRuleDto> { new() { Id = 1 }, new() { Id = 2 } });
+
+            // Act
+            var result = await DisplayScheduleEndpoints_TestHelper.UpdateSchedule(request, _scheduleService, _settingsService, _eventService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<Ok<IReadOnlyList<DisplayScheduleRuleDto>>>();
+            _eventService.Received(1).Publish(Arg.Is<DisplayEvent>(e => e.Type == DisplayEventTypes.ScheduleChanged));
+        }
+
+        [Test]
+        [Arguments(0, "07:00", "09:00")]
+        [Arguments(128, "07:00", "09:00")]
+        [Arguments(1, "7am", "09:00")]
+        [Arguments(1, "07:00", "24:00")]
+        public async Task UpdateSchedule_WithInvalidWindow_ReturnsBadRequest(int days, string start, string end)
+        {
+            // Arrange
+            var request = new UpdateDisplayScheduleRequest
+            {
+                Rules = [new DisplayScheduleRuleRequest { DaysOfWeek = days, StartTime = start, EndTime = end, DisplaySettingsId = 1 }]
+            };
+
+            // Act
+            var result = await DisplayScheduleEndpoints_TestHelper.UpdateSchedule(request, _scheduleService, _settingsService, _eventService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            await _scheduleService.DidNotReceive().ReplaceRulesAsync(Arg.Any<IReadOnlyList<DisplayScheduleRuleRequest>>(), Arg.Any<CancellationToken>());
+        }
+
+        [Test]
+        public async Task UpdateSchedule_WithProfileAndQuietMode_ReturnsBadRequest()
+        {
+            // Arrange
+            var request = new UpdateDisplayScheduleRequest
+            {
+                Rules = [new DisplayScheduleRuleRequest { DaysOfWeek = 1, StartTime = "07:00", EndTime = "09:00", DisplaySettingsId = 1, QuietMode = QuietMode.Black }]
+            };
+
+            // Act
+            var result = await DisplayScheduleEndpoints_TestHelper.UpdateSchedule(request, _scheduleService, _settingsService, _eventService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+        }
+
+        [Test]
+        public async Task UpdateSchedule_WithUnknownProfile_ReturnsBadRequest()
+        {
+            // Arrange
+            _settingsService.GetByIdAsync(99, Arg.Any<CancellationToken>()).Returns((DisplaySettingsDto?)null);
+            var request = new UpdateDisplayScheduleRequest
+            {
+                Rules = [new DisplayScheduleRuleRequest { DaysOfWeek = 1, StartTime = "07:00", EndTime = "09:00", DisplaySettingsId = 99 }]
+            };
+
+            // Act
+            var result = await DisplayScheduleEndpoints_TestHelper.UpdateSchedule(request, _scheduleService, _settingsService, _eventService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            var badRequest = (BadRequest<ApiError>)result.Result;
+            await Assert.That(badRequest.Value!.Code).IsEqualTo("SETTINGS_NOT_FOUND");
+            _eventService.DidNotReceive().Publish(Arg.Any<DisplayEvent>());
+        }
+    }
+
+    /// <summary>
+    /// Test helper to access private endpoint methods via reflection.
+    /// </summary>
+    internal static class DisplayScheduleEndpoints_TestHelper
+    {
+        public static async Task<Results<Ok<IReadOnlyList<DisplayScheduleRuleDto>>, BadRequest<ApiError>>> UpdateSchedule(
+            UpdateDisplayScheduleRequest request,
+            IDisplayScheduleService scheduleService,
+            IDisplaySettingsService settingsService,
+            IDisplayEventService eventService)
+        {
+            var method = typeof(DisplayScheduleEndpoints)
+                .GetMethod("UpdateSchedule", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
+
+            var result = method!.Invoke(null, new object[] { request, scheduleService, settingsService, eventService, CancellationToken.None });
+            return await (Task<Results<Ok<IReadOnlyList<DisplayScheduleRuleDto>>, BadRequest<ApiError>>>)result!;
+        }
+    }
+}
@@ -0,0 +1,96 @@
+using LibraFoto.Data;
+using LibraFoto.Data.Entities;
+using LibraFoto.Data.Enums;
+using LibraFoto.Modules.Display.Models;
+using LibraFoto.Modules.Display.Services;
+using Microsoft.Data.Sqlite;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging.Abstractions;
+using TUnit.Core;
+
+namespace LibraFoto.Tests.Modules.Display
+{
+    public class DisplayScheduleServiceTests
+    {
+        private SqliteConnection _connection = null!;
+        private LibraFotoDbContext _db = null!;
+        private DisplayScheduleService _service = null!;
+
+        [Before(Test)]
+        public async Task Setup()
+        {
+            _connection = new SqliteConnection($"Data Source=TestDb_{Guid.NewGuid():N};Mode=Memory;Cache=Shared");
+            await _connection.OpenAsync();
+            var options = new DbContextOptionsBuilder<LibraFotoDbContext>()
+                .UseSqlite(_connection).Options;
+            _db = new LibraFotoDbContext(options);
+            await _db.Database.EnsureCreatedAsync();
+            _service = new DisplayScheduleService(_db, NullLogger<DisplayScheduleService>.Instance);
+        }
+
+        [After(Test)]
+        public async Task Cleanup()
+        {
+            await _db.DisposeAsync();
+            await _connection.DisposeAsync();
+        }
+
+        [Test]
+        public async Task GetRulesAsync_ReturnsEmpty_WhenNoneConfigured()
+        {
+            // Act
+            var result = await _service.GetRulesAsync();
+
+            // Assert
+            await Assert.That(result).IsEmpty();
+        }
+
+        [Test]
+        public async Task ReplaceRulesAsync_ReplacesRulesInOrder()
+        {
+            // Arrange
+            var kids = new DisplaySettings { Name = "Kids album" };
+            _db.DisplaySettings.Add(kids);
+            _db.DisplaySchedules.Add(new DisplaySchedule { DaysOfWeek = 1, StartTime = "01:00", EndTime = "02:00", QuietMode = QuietMode.Black });
+            await _db.SaveChangesAsync();
+
+            // Act
+            await _service.ReplaceRulesAsync(new[]
+            {
+                new DisplayScheduleRuleRequest { DaysOfWeek = 0b011_1110, StartTime = "07:00", EndTime = "09:00", DisplaySettingsId = kids.Id },
+                new DisplayScheduleRuleRequest { DaysOfWeek = 0b111_1111, StartTime = "22:00", EndTime = "06:30", QuietMode = QuietMode.DimClock }
+            });
+            var result = await _service.GetRulesAsync();
+
+            // Assert
+            await Assert.That(result.Count).IsEqualTo(2);
+            await Assert.That(result[0].DisplaySettingsId).IsEqualTo(kids.Id);
+            await Assert.That(result[0].StartTime).IsEqualTo("07:00");
+            await Assert.That(result[1].QuietMode).IsEqualTo(QuietMode.DimClock);
+            await Assert.That(result[1].EndTime).IsEqualTo("06:30");
+        }
+
+        [Test]
+        public async Task DeletingProfile_RemovesItsRules()
+        {
+            // Arrange
+            var kids = new DisplaySettings { Name = "Kids album" };
+            _db.DisplaySettings.Add(kids);
+            await _db.SaveChangesAsync();
+            await _service.ReplaceRulesAsync(new[]
+            {
+                new DisplayScheduleRuleRequest { DaysOfWeek = 1, StartTime = "07:00", EndTime = "09:00", DisplaySettingsId = kids.Id },
+                new DisplayScheduleRuleRequest { DaysOfWeek = 1, StartTime = "22:00", EndTime = "06:30", QuietMode = QuietMode.Black }
+            });
+
+            // Act
+            _db.DisplaySettings.Remove(kids);
+            await _db.SaveChangesAsync();
+            var result = await _service.GetRulesAsync();
+
+            // Assert
+            await Assert.That(result.Count).IsEqualTo(1);
+            await Assert.That(result[0].QuietMode).IsEqualTo(QuietMode.Black);
+        }
+    }
+}
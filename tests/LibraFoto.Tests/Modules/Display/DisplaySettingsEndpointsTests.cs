@@ -174,6 +174,41 @@ namespace LibraFoto.Tests.Modules.Display
             _slideshowService.Received(1).ResetSequence(1);
         }
 
+        [Test]
+        public async Task UpdateSettings_WithValidRequest_PublishesSettingsChangedEvent()
+        {
+            // Arrange
+            var eventService = Substitute.For<IDisplayEventService>();
+            var request = new UpdateDisplaySettingsRequest { SlideDuration = 15 };
+            _settingsService.UpdateAsync(1, request, Arg.Any<CancellationToken>())
+                .Returns(CreateDisplaySettingsDto(1, "Test", 15));
+
+            // Act
+            await DisplaySettingsEndpoints_TestHelper.UpdateSettings(
+                1, request, _settingsService, _slideshowService, eventService);
+
+            // Assert
+            eventService.Received(1).Publish(Arg.Is<DisplayEvent>(e =>
+                e.Type == DisplayEventTypes.SettingsChanged && e.SettingsId == 1));
+        }
+
+        [Test]
+        public async Task UpdateSettings_WhenNotFound_DoesNotPublishEvent()
+        {
+            // Arrange
+            var eventService = Substitute.For<IDisplayEventService>();
+            var request = new UpdateDisplaySettingsRequest { SlideDuration = 15 };
+            _settingsService.UpdateAsync(999, request, Arg.Any<CancellationToken>())
+                .Returns((DisplaySettingsDto?)null);
+
+            // Act
+            await DisplaySettingsEndpoints_TestHelper.UpdateSettings(
+                999, request, _settingsService, _slideshowService, eventService);
+
+            // Assert
+            eventService.DidNotReceive().Publish(Arg.Any<DisplayEvent>());
+        }
+
         [Test]
         public async Task UpdateSettings_WithMinimumSlideDuration_IsValid()
         {
@@ -407,6 +442,186 @@ namespace LibraFoto.Tests.Modules.Display
             _slideshowService.Received(1).ResetSequence(1);
         }
 
+        [Test]
+        [Arguments(-1)]
+        [Arguments(101)]
+        public async Task UpdateSettings_WithOverlayOpacityOutOfRange_ReturnsBadRequest(int opacity)
+        {
+            // Arrange
+            var request = new UpdateDisplaySettingsRequest { OverlayOpacity = opacity };
+
+            // Act
+            var result = await DisplaySettingsEndpoints_TestHelper.UpdateSettings(
+                1, request, _settingsService, _slideshowService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            var badRequestResult = (BadRequest<ApiError>)result.Result;
+            await Assert.That(badRequestResult.Value!.Code).IsEqualTo("VALIDATION_ERROR");
+            await Assert.That(badRequestResult.Value.Message).Contains("Overlay opacity");
+        }
+
+        [Test]
+        public async Task UpdateSettings_WithUnknownTransition_ReturnsBadRequest()
+        {
+            // Arrange
+            var request = new UpdateDisplaySettingsRequest { Transition = (TransitionType)99 };
+
+            // Act
+            var result = await DisplaySettingsEndpoints_TestHelper.UpdateSettings(
+                1, request, _settingsService, _slideshowService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            var badRequestResult = (BadRequest<ApiError>)result.Result;
+            await Assert.That(badRequestResult.Value!.Code).IsEqualTo("VALIDATION_ERROR");
+            await Assert.That(badRequestResult.Value.Message).Contains("transition");
+        }
+
+        [Test]
+        public async Task UpdateSettings_WithUnknownCollageLayout_ReturnsBadRequest()
+        {
+            // Arrange
+            var request = new UpdateDisplaySettingsRequest { CollageLayout = (CollageLayout)99 };
+
+            // Act
+            var result = await DisplaySettingsEndpoints_TestHelper.UpdateSettings(
+                1, request, _settingsService, _slideshowService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            var badRequestResult = (BadRequest<ApiError>)result.Result;
+            await Assert.That(badRequestResult.Value!.Code).IsEqualTo("VALIDATION_ERROR");
+            await Assert.That(badRequestResult.Value.Message).Contains("collage layout");
+        }
+
+        [Test]
+        [Arguments(-1, null, null, "Video volume")]
+        [Arguments(101, null, null, "Video volume")]
+        [Arguments(null, -5, null, "Max video duration")]
+        [Arguments(null, null, 0, "Video loop count")]
+        [Arguments(null, null, 11, "Video loop count")]
+        public async Task UpdateSettings_WithInvalidVideoSettings_ReturnsBadRequest(
+            int? volume, int? maxDuration, int? loopCount, string expectedMessage)
+        {
+            // Arrange
+            var request = new UpdateDisplaySettingsRequest
+            {
+                VideoVolume = volume,
+                MaxVideoDuration = maxDuration,
+                VideoLoopCount = loopCount
+            };
+
+            // Act
+            var result = await DisplaySettingsEndpoints_TestHelper.UpdateSettings(
+                1, request, _settingsService, _slideshowService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            var badRequestResult = (BadRequest<ApiError>)result.Result;
+            await Assert.That(badRequestResult.Value!.Code).IsEqualTo("VALIDATION_ERROR");
+            await Assert.That(badRequestResult.Value.Message).Contains(expectedMessage);
+            await _settingsService.DidNotReceive().UpdateAsync(
+                Arg.Any<long>(), Arg.Any<UpdateDisplaySettingsRequest>(), Arg.Any<CancellationToken>());
+        }
+
+        [Test]
+        public async Task UpdateSettings_WithPlaylistSources_IsValid()
+        {
+            // Arrange
+            var request = new UpdateDisplaySettingsRequest
+            {
+                SourceType = SourceType.Playlist,
+                PlaylistSources =
+                [
+                    new PlaylistSourceDto { AlbumId = 1, Weight = 10, DateFrom = new DateTime(2024, 1, 1), DateTo = new DateTime(2024, 1, 1) },
+                    new PlaylistSourceDto { TagId = 2 },
+                    new PlaylistSourceDto { TagId = 3, IsExcluded = true }
+                ]
+            };
+            _settingsService.UpdateAsync(1, request, Arg.Any<CancellationToken>())
+                .Returns(new DisplaySettingsDto { Id = 1, SourceType = SourceType.Playlist });
+
+            // Act
+            var result = await DisplaySettingsEndpoints_TestHelper.UpdateSettings(
+                1, request, _settingsService, _slideshowService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<Ok<DisplaySettingsDto>>();
+            _slideshowService.Received(1).ResetSequence(1);
+        }
+
+        [Test]
+        [Arguments(null, null, false, 1, "either an album or a tag")]
+        [Arguments(1L, 2L, false, 1, "either an album or a tag")]
+        [Arguments(1L, null, true, 1, "Only tags")]
+        [Arguments(null, 2L, false, 0, "weight")]
+        [Arguments(null, 2L, false, 11, "weight")]
+        public async Task UpdateSettings_WithInvalidPlaylistSource_ReturnsBadRequest(long? albumId, long? tagId, bool isExcluded, int weight, string message)
+        {
+            // Arrange
+            var request = new UpdateDisplaySettingsRequest
+            {
+                PlaylistSources = [new PlaylistSourceDto { AlbumId = albumId, TagId = tagId, IsExcluded = isExcluded, Weight = weight }]
+            };
+
+            // Act
+            var result = await DisplaySettingsEndpoints_TestHelper.UpdateSettings(
+                1, request, _settingsService, _slideshowService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            var badRequestResult = (BadRequest<ApiError>)result.Result;
+            await Assert.That(badRequestResult.Value!.Code).IsEqualTo("VALIDATION_ERROR");
+            await Assert.That(badRequestResult.Value.Message).Contains(message);
+            await _settingsService.DidNotReceive().UpdateAsync(Arg.Any<long>(), Arg.Any<UpdateDisplaySettingsRequest>(), Arg.Any<CancellationToken>());
+        }
+
+        [Test]
+        public async Task UpdateSettings_WithPlaylistDateRangeReversed_ReturnsBadRequest()
+        {
+            // Arrange
+            var request = new UpdateDisplaySettingsRequest
+            {
+                PlaylistSources = [new PlaylistSourceDto { TagId = 2, DateFrom = new DateTime(2024, 2, 1), DateTo = new DateTime(2024, 1, 1) }]
+            };
+
+            // Act
+            var result = await DisplaySettingsEndpoints_TestHelper.UpdateSettings(
+                1, request, _settingsService, _slideshowService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            var badRequestResult = (BadRequest<ApiError>)result.Result;
+            await Assert.That(badRequestResult.Value!.Message).Contains("start date");
+        }
+
+        [Test]
+        public async Task UpdateSettings_WithOverlaySettings_IsValid()
+        {
+            // Arrange
+            var request = new UpdateDisplaySettingsRequest
+            {
+                ShowClock = true,
+                ClockPosition = OverlayPosition.TopLeft,
+                ShowDateTaken = true,
+                ShowLocation = true,
+                LocationPosition = OverlayPosition.BottomRight,
+                OverlaySize = OverlaySize.Large,
+                OverlayOpacity = 100
+            };
+            var updatedSettings = CreateDisplaySettingsDto(1, "Test", 10);
+            _settingsService.UpdateAsync(1, request, Arg.Any<CancellationToken>())
+                .Returns(updatedSettings);
+
+            // Act
+            var result = await DisplaySettingsEndpoints_TestHelper.UpdateSettings(
+                1, request, _settingsService, _slideshowService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<Ok<DisplaySettingsDto>>();
+        }
+
         #endregion
 
         #region CreateSettings Tests
@@ -540,6 +755,55 @@ namespace LibraFoto.Tests.Modules.Display
             await Assert.That(createdResult.Location).IsEqualTo("/api/display/settings/5");
         }
 
+        [Test]
+        public async Task CreateSettings_WithOverlayOpacityOutOfRange_ReturnsBadRequest()
+        {
+            // Arrange
+            var request = new UpdateDisplaySettingsRequest { Name = "Test", OverlayOpacity = 150 };
+
+            // Act
+            var result = await DisplaySettingsEndpoints_TestHelper.CreateSettings(request, _settingsService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            await _settingsService.DidNotReceive().CreateAsync(Arg.Any<UpdateDisplaySettingsRequest>(), Arg.Any<CancellationToken>());
+        }
+
+        [Test]
+        public async Task CreateSettings_WithVideoVolumeOutOfRange_ReturnsBadRequest()
+        {
+            // Arrange
+            var request = new UpdateDisplaySettingsRequest { Name = "Test", VideoVolume = 150 };
+
+            // Act
+            var result = await DisplaySettingsEndpoints_TestHelper.CreateSettings(request, _settingsService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            await _settingsService.DidNotReceive().CreateAsync(Arg.Any<UpdateDisplaySettingsRequest>(), Arg.Any<CancellationToken>());
+        }
+
+        [Test]
+        public async Task CreateSettings_WithPlaylistWithoutIncludedSources_ReturnsBadRequest()
+        {
+            // Arrange
+            var request = new UpdateDisplaySettingsRequest
+            {
+                Name = "Playlist",
+                SourceType = SourceType.Playlist,
+                PlaylistSources = [new PlaylistSourceDto { TagId = 3, IsExcluded = true }]
+            };
+
+            // Act
+            var result = await DisplaySettingsEndpoints_TestHelper.CreateSettings(request, _settingsService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            var badRequestResult = (BadRequest<ApiError>)result.Result;
+            await Assert.That(badRequestResult.Value!.Message).Contains("at least one album or tag");
+            await _settingsService.DidNotReceive().CreateAsync(Arg.Any<UpdateDisplaySettingsRequest>(), Arg.Any<CancellationToken>());
+        }
+
         #endregion
 
         #region DeleteSettings Tests
@@ -587,10 +851,13 @@ namespace LibraFoto.Tests.Modules.Display
             _settingsService.GetByIdAsync(1, Arg.Any<CancellationToken>())
                 .Returns(existingSettings);
 
+            var eventService = Substitute.For<IDisplayEventService>();
+
             // Act
-            var result = await DisplaySettingsEndpoints_TestHelper.DeleteSettings(1, _settingsService);
+            var result = await DisplaySettingsEndpoints_TestHelper.DeleteSettings(1, _settingsService, eventService);
 
             // Assert
+            eventService.DidNotReceive().Publish(Arg.Any<DisplayEvent>());
             await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
             var badRequestResult = (BadRequest<ApiError>)result.Result;
             await Assert.That(badRequestResult.Value!.Code).IsEqualTo("CANNOT_DELETE_LAST");
@@ -655,6 +922,23 @@ namespace LibraFoto.Tests.Modules.Display
             _slideshowService.Received(1).ResetSequence(null);
         }
 
+        [Test]
+        public async Task ActivateSettings_PublishesSettingsChangedEvent()
+        {
+            // Arrange
+            var eventService = Substitute.For<IDisplayEventService>();
+            _settingsService.SetActiveAsync(3, Arg.Any<CancellationToken>())
+                .Returns(CreateDisplaySettingsDto(3, "New Active", 20));
+
+            // Act
+            await DisplaySettingsEndpoints_TestHelper.ActivateSettings(
+                3, _settingsService, _slideshowService, eventService);
+
+            // Assert
+            eventService.Received(1).Publish(Arg.Is<DisplayEvent>(e =>
+                e.Type == DisplayEventTypes.SettingsChanged && e.SettingsId == 3));
+        }
+
         #endregion
 
         #region Edge Cases Tests
@@ -845,12 +1129,13 @@ namespace LibraFoto.Tests.Modules.Display
             long id,
             UpdateDisplaySettingsRequest request,
             IDisplaySettingsService settingsService,
-            ISlideshowService slideshowService)
+            ISlideshowService slideshowService,
+            IDisplayEventService? eventService = null)
         {
             var method = typeof(DisplaySettingsEndpoints)
                 .GetMethod("UpdateSettings", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
 
-            var result = method!.Invoke(null, new object[] { id, request, settingsService, slideshowService, CancellationToken.None });
+            var result = method!.Invoke(null, new object[] { id, request, settingsService, slideshowService, eventService ?? Substitute.For<IDisplayEventService>(), CancellationToken.None });
             return await (Task<Results<Ok<DisplaySettingsDto>, NotFound<ApiError>, BadRequest<ApiError>>>)result!;
         }
 
@@ -866,24 +1151,25 @@ namespace LibraFoto.Tests.Modules.Display
         }
 
         public static async Task<Results<NoContent, NotFound<ApiError>, BadRequest<ApiError>>> DeleteSettings(
-            long id, IDisplaySettingsService settingsService)
+            long id, IDisplaySettingsService settingsService, IDisplayEventService? eventService = null)
         {
             var method = typeof(DisplaySettingsEndpoints)
                 .GetMethod("DeleteSettings", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
 
-            var result = method!.Invoke(null, new object[] { id, settingsService, CancellationToken.None });
+            var result = method!.Invoke(null, new object[] { id, settingsService, eventService ?? Substitute.For<IDisplayEventService>(), CancellationToken.None });
             return await (Task<Results<NoContent, NotFound<ApiError>, BadRequest<ApiError>>>)result!;
         }
 
         public static async Task<Results<Ok<DisplaySettingsDto>, NotFound<ApiError>>> ActivateSettings(
             long id,
             IDisplaySettingsService settingsService,
-            ISlideshowService slideshowService)
+            ISlideshowService slideshowService,
+            IDisplayEventService? eventService = null)
         {
             var method = typeof(DisplaySettingsEndpoints)
                 .GetMethod("ActivateSettings", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
 
-            var result = method!.Invoke(null, new object[] { id, settingsService, slideshowService, CancellationToken.None });
+            var result = method!.Invoke(null, new object[] { id, settingsService, slideshowService, eventService ?? Substitute.For<IDisplayEventService>(), CancellationToken.None });
             return await (Task<Results<Ok<DisplaySettingsDto>, NotFound<ApiError>>>)result!;
         }
     }
@@ -195,6 +195,173 @@ namespace LibraFoto.Tests.Modules.Display
             await Assert.That(result.Shuffle).IsTrue();
         }
 
+        [Test]
+        public async Task UpdateAsync_AppliesOverlaySettings()
+        {
+            // Arrange
+            var settings = new DisplaySettings { Name = "Overlay" };
+            _db.DisplaySettings.Add(settings);
+            await _db.SaveChangesAsync();
+
+            var request = new UpdateDisplaySettingsRequest
+            {
+                ShowClock = true,
+                ClockPosition = OverlayPosition.BottomRight,
+                ShowDateTaken = true,
+                DateTakenPosition = OverlayPosition.TopLeft,
+                ShowLocation = true,
+                LocationPosition = OverlayPosition.TopRight,
+                OverlaySize = OverlaySize.Small,
+                OverlayOpacity = 50
+            };
+
+            // Act
+            var result = await _service.UpdateAsync(settings.Id, request);
+
+            // Assert
+            await Assert.That(result).IsNotNull();
+            await Assert.That(result!.ShowClock).IsTrue();
+            await Assert.That(result.ClockPosition).IsEqualTo(OverlayPosition.BottomRight);
+            await Assert.That(result.ShowDateTaken).IsTrue();
+            await Assert.That(result.DateTakenPosition).IsEqualTo(OverlayPosition.TopLeft);
+            await Assert.That(result.ShowLocation).IsTrue();
+            await Assert.That(result.LocationPosition).IsEqualTo(OverlayPosition.TopRight);
+            await Assert.That(result.OverlaySize).IsEqualTo(OverlaySize.Small);
+            await Assert.That(result.OverlayOpacity).IsEqualTo(50);
+        }
+
+        [Test]
+        public async Task UpdateAsync_UpdatesVideoPlaybackSettings()
+        {
+            // Arrange
+            var settings = new DisplaySettings { Name = "Video" };
+            _db.DisplaySettings.Add(settings);
+            await _db.SaveChangesAsync();
+
+            var request = new UpdateDisplaySettingsRequest
+            {
+                VideoPlayback = VideoPlayback.WithAudio,
+                VideoVolume = 25,
+                MaxVideoDuration = 0,
+                VideoSegment = VideoSegment.Random,
+                VideoLoopCount = 3
+            };
+
+            // Act
+            var result = await _service.UpdateAsync(settings.Id, request);
+
+            // Assert
+            await Assert.That(result).IsNotNull();
+            await Assert.That(result!.VideoPlayback).IsEqualTo(VideoPlayback.WithAudio);
+            await Assert.That(result.VideoVolume).IsEqualTo(25);
+            await Assert.That(result.MaxVideoDuration).IsEqualTo(0);
+            await Assert.That(result.VideoSegment).IsEqualTo(VideoSegment.Random);
+            await Assert.That(result.VideoLoopCount).IsEqualTo(3);
+        }
+
+        [Test]
+        public async Task UpdateAsync_UpdatesCollageLayout()
+        {
+            // Arrange
+            var settings = new DisplaySettings { Name = "Collage" };
+            _db.DisplaySettings.Add(settings);
+            await _db.SaveChangesAsync();
+
+            var request = new UpdateDisplaySettingsRequest { CollageLayout = CollageLayout.Mosaic };
+
+            // Act
+            var result = await _service.UpdateAsync(settings.Id, request);
+
+            // Assert
+            await Assert.That(result).IsNotNull();
+            await Assert.That(result!.CollageLayout).IsEqualTo(CollageLayout.Mosaic);
+        }
+
+        [Test]
+        public async Task UpdateAsync_ReplacesPlaylistSources()
+        {
+            // Arrange
+            var album = new Album { Name = "Family" };
+            var tag = new Tag { Name = "Beach" };
+            var hidden = new Tag { Name = "Hidden" };
+            _db.Albums.Add(album);
+            _db.Tags.AddRange(tag, hidden);
+            var settings = new DisplaySettings { Name = "Playlist" };
+            settings.PlaylistSources.Add(new DisplayPlaylistSource { Tag = tag, Weight = 2 });
+            _db.DisplaySettings.Add(settings);
+            await _db.SaveChangesAsync();
+
+            var request = new UpdateDisplaySettingsRequest
+            {
+                SourceType = SourceType.Playlist,
+                PlaylistSources =
+                [
+                    new PlaylistSourceDto { AlbumId = album.Id, Weight = 3, DateFrom = new DateTime(2024, 1, 1) },
+                    new PlaylistSourceDto { TagId = hidden.Id, IsExcluded = true }
+                ]
+            };
+
+            // Act
+            var result = await _service.UpdateAsync(settings.Id, request);
+            var reloaded = await _service.GetByIdAsync(settings.Id);
+
+            // Assert
+            await Assert.That(result!.SourceType).IsEqualTo(SourceType.Playlist);
+            await Assert.That(reloaded!.PlaylistSources.Count).IsEqualTo(2);
+            await Assert.That(reloaded.PlaylistSources[0].AlbumId).IsEqualTo(album.Id);
+            await Assert.That(reloaded.PlaylistSources[0].Weight).IsEqualTo(3);
+            await Assert.That(reloaded.PlaylistSources[0].DateFrom).IsEqualTo(new DateTime(2024, 1, 1));
+            await Assert.That(reloaded.PlaylistSources[1].TagId).IsEqualTo(hidden.Id);
+            await Assert.That(reloaded.PlaylistSources[1].IsExcluded).IsTrue();
+            await Assert.That(await _db.DisplayPlaylistSources.CountAsync()).IsEqualTo(2);
+        }
+
+        [Test]
+        public async Task UpdateAsync_KeepsPlaylistSources_WhenNotProvided()
+        {
+            // Arrange
+            var tag = new Tag { Name = "Beach" };
+            _db.Tags.Add(tag);
+            var settings = new DisplaySettings { Name = "Playlist", SourceType = SourceType.Playlist };
+            settings.PlaylistSources.Add(new DisplayPlaylistSource { Tag = tag });
+            _db.DisplaySettings.Add(settings);
+            await _db.SaveChangesAsync();
+
+            // Act
+            var result = await _service.UpdateAsync(settings.Id, new UpdateDisplaySettingsRequest { SlideDuration = 30 });
+
+            // Assert
+            await Assert.That(result!.PlaylistSources.Count).IsEqualTo(1);
+            await Assert.That(result.PlaylistSources[0].TagId).IsEqualTo(tag.Id);
+        }
+
+        [Test]
+        public async Task GetActiveSettingsAsync_DefaultsOverlaysToHidden()
+        {
+            // Act
+            var result = await _service.GetActiveSettingsAsync();
+
+            // Assert
+            await Assert.That(result.ShowClock).IsFalse();
+            await Assert.That(result.ShowDateTaken).IsFalse();
+            await Assert.That(result.ShowLocation).IsFalse();
+            await Assert.That(result.OverlayOpacity).IsEqualTo(80);
+        }
+
+        [Test]
+        public async Task GetActiveSettingsAsync_DefaultsVideosToMutedThirtySeconds()
+        {
+            // Act
+            var result = await _service.GetActiveSettingsAsync();
+
+            // Assert
+            await Assert.That(result.VideoPlayback).IsEqualTo(VideoPlayback.Muted);
+            await Assert.That(result.VideoVolume).IsEqualTo(50);
+            await Assert.That(result.MaxVideoDuration).IsEqualTo(30);
+            await Assert.That(result.VideoSegment).IsEqualTo(VideoSegment.Start);
+            await Assert.That(result.VideoLoopCount).IsEqualTo(1);
+        }
+
         [Test]
         public async Task UpdateAsync_ReturnsNull_WhenNotExists()
         {
@@ -0,0 +1,71 @@
+using LibraFoto.Modules.Display.Models;
+using LibraFoto.Modules.Display.Services;
+using NSubstitute;
+using TUnit.Core;
+
+namespace LibraFoto.Tests.Modules.Display
+{
+    public class DisplayStatusServiceTests
+    {
+        private ISlideshowService _slideshowService = null!;
+        private IDisplayEventService _eventService = null!;
+        private DisplayStatusService _service = null!;
+
+        [Before(Test)]
+        public void Setup()
+        {
+            _slideshowService = Substitute.For<ISlideshowService>();
+            _eventService = Substitute.For<IDisplayEventService>();
+            _service = new DisplayStatusService(_slideshowService, _eventService);
+        }
+
+        [Test]
+        public async Task GetStatusAsync_BeforeAnyReport_ReturnsEmptyStatus()
+        {
+            // Act
+            var status = await _service.GetStatusAsync();
+
+            // Assert
+            await Assert.That(status.CurrentPhoto).IsNull();
+            await Assert.That(status.IsPaused).IsFalse();
+            await Assert.That(status.ReportedAt).IsNull();
+            await Assert.That(status.IsConnected).IsFalse();
+        }
+
+        [Test]
+        public async Task GetStatusAsync_ReturnsLatestReportWithPhoto()
+        {
+            // Arrange
+            var photo = new PhotoDto { Id = 7, Url = "/api/media/photos/7" };
+            _slideshowService.GetPhotoByIdAsync(7, Arg.Any<CancellationToken>()).Returns(photo);
+            _eventService.SubscriberCount.Returns(1);
+
+            _service.Report(new DisplayStatusReport { PhotoId = 3, IsPaused = false });
+            _service.Report(new DisplayStatusReport { PhotoId = 7, IsPaused = true, SettingsId = 2 });
+
+            // Act
+            var status = await _service.GetStatusAsync();
+
+            // Assert
+            await Assert.That(status.CurrentPhoto).IsEqualTo(photo);
+            await Assert.That(status.IsPaused).IsTrue();
+            await Assert.That(status.SettingsId).IsEqualTo(2);
+            await Assert.That(status.IsConnected).IsTrue();
+            await Assert.That(status.ReportedAt).IsNotNull();
+        }
+
+        [Test]
+        public async Task GetStatusAsync_WithoutPhoto_DoesNotQueryPhotos()
+        {
+            // Arrange
+            _service.Report(new DisplayStatusReport { IsPaused = true });
+
+            // Act
+            var status = await _service.GetStatusAsync();
+
+            // Assert
+            await Assert.That(status.CurrentPhoto).IsNull();
+            await _slideshowService.DidNotReceive().GetPhotoByIdAsync(Arg.Any<long>(), Arg.Any<CancellationToken>());
+        }
+    }
+}
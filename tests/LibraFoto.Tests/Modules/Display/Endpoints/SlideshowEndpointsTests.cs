@@ -480,6 +480,39 @@ namespace LibraFoto.Tests.Modules.Display.Endpoints
 
         #endregion
 
+        #region AddToFavorites Tests
+
+        [Test]
+        public async Task AddToFavorites_ReturnsNoContent_WhenPhotoExists()
+        {
+            // Arrange
+            _slideshowService.AddToFavoritesAsync(7, Arg.Any<CancellationToken>()).Returns(true);
+
+            // Act
+            var result = await SlideshowEndpoints_TestHelper.AddToFavorites(7, _slideshowService);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<NoContent>();
+            await _slideshowService.Received(1).AddToFavoritesAsync(7, Arg.Any<CancellationToken>());
+        }
+
+        [Test]
+        public async Task AddToFavorites_ReturnsNotFound_WhenPhotoMissing()
+        {
+            // Arrange
+            _slideshowService.AddToFavoritesAsync(99, Arg.Any<CancellationToken>()).Returns(false);
+
+            // Act
+            var result = await SlideshowEndpoints_TestHelper.AddToFavorites(99, _slideshowService);
+
+            // Assert
+            var notFound = result.Result as NotFound<ApiError>;
+            await Assert.That(notFound).IsNotNull();
+            await Assert.That(notFound!.Value!.Code).IsEqualTo("PHOTO_NOT_FOUND");
+        }
+
+        #endregion
+
         #region Helper Methods
 
         private static PhotoDto CreateSamplePhoto(long id)
@@ -562,5 +595,15 @@ namespace LibraFoto.Tests.Modules.Display.Endpoints
             var result = method!.Invoke(null, new object?[] { settingsId, service });
             return (Ok<ResetResponse>)result!;
         }
+
+        public static async Task<Results<NoContent, NotFound<ApiError>>> AddToFavorites(
+            long id, ISlideshowService service)
+        {
+            var method = typeof(SlideshowEndpoints)
+                .GetMethod("AddToFavorites", System.Reflection.BindingFlags.NonPublic | System.Reflection.BindingFlags.Static);
+
+            var result = method!.Invoke(null, new object?[] { id, service, CancellationToken.None });
+            return await (Task<Results<NoContent, NotFound<ApiError>>>)result!;
+        }
     }
 }
@@ -0,0 +1,152 @@
+using LibraFoto.Data;
+using LibraFoto.Data.Entities;
+using LibraFoto.Modules.Display.Models;
+using LibraFoto.Modules.Display.Services;
+using Microsoft.Data.Sqlite;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Logging.Abstractions;
+using NSubstitute;
+using TUnit.Core;
+
+namespace LibraFoto.Tests.Modules.Display
+{
+    public class PhotoLibraryWatcherTests
+    {
+        private SqliteConnection _connection = null!;
+        private LibraFotoDbContext _db = null!;
+        private ServiceProvider _serviceProvider = null!;
+        private IDisplayEventService _eventService = null!;
+        private PhotoLibraryWatcher _watcher = null!;
+
+        [Before(Test)]
+        public async Task Setup()
+        {
+            _connection = new SqliteConnection($"Data Source=TestDb_{Guid.NewGuid():N};Mode=Memory;Cache=Shared");
+            await _connection.OpenAsync();
+
+            var options = new DbContextOptionsBuilder<LibraFotoDbContext>()
+                .UseSqlite(_connection).Options;
+            _db = new LibraFotoDbContext(options);
+            await _db.Database.EnsureCreatedAsync();
+
+            var services = new ServiceCollection();
+            services.AddScoped<LibraFotoDbContext>(_ =>
+            {
+                var opts = new DbContextOptionsBuilder<LibraFotoDbContext>()
+                    .UseSqlite(_connection).Options;
+                return new LibraFotoDbContext(opts);
+            });
+            _serviceProvider = services.BuildServiceProvider();
+
+            _eventService = Substitute.For<IDisplayEventService>();
+            _eventService.SubscriberCount.Returns(1);
+
+            _watcher = new PhotoLibraryWatcher(
+                _serviceProvider.GetRequiredService<IServiceScopeFactory>(),
+                _eventService,
+                NullLogger<PhotoLibraryWatcher>.Instance);
+        }
+
+        [After(Test)]
+        public async Task Cleanup()
+        {
+            _watcher.Dispose();
+            await _serviceProvider.DisposeAsync();
+            await _db.DisposeAsync();
+            await _connection.DisposeAsync();
+        }
+
+        private async Task AddPhotoAsync(string filename)
+        {
+            _db.Photos.Add(new Photo
+            {
+                Filename = filename,
+                OriginalFilename = filename,
+                FilePath = filename,
+                Width = 1920,
+                Height = 1080
+            });
+            await _db.SaveChangesAsync();
+        }
+
+        [Test]
+        public async Task CheckForChangesAsync_FirstCheck_OnlyRecordsBaseline()
+        {
+            // Arrange
+            await AddPhotoAsync("first.jpg");
+
+            // Act
+            var changed = await _watcher.CheckForChangesAsync();
+
+            // Assert
+            await Assert.That(changed).IsFalse();
+            _eventService.DidNotReceive().Publish(Arg.Any<DisplayEvent>());
+        }
+
+        [Test]
+        public async Task CheckForChangesAsync_PublishesEvent_WhenPhotoAdded()
+        {
+            // Arrange
+            await _watcher.CheckForChangesAsync();
+            await AddPhotoAsync("new.jpg");
+
+            // Act
+            var changed = await _watcher.CheckForChangesAsync();
+
+            // Assert
+            await Assert.That(changed).IsTrue();
+            _eventService.Received(1).Publish(Arg.Is<DisplayEvent>(e =>
+                e.Type == DisplayEventTypes.PhotoLibraryChanged));
+        }
+
+        [Test]
+        public async Task CheckForChangesAsync_DoesNotPublish_WhenLibraryUnchanged()
+        {
+            // Arrange
+            await AddPhotoAsync("same.jpg");
+            await _watcher.CheckForChangesAsync();
+
+            // Act
+            var changed = await _watcher.CheckForChangesAsync();
+
+            // Assert
+            await Assert.That(changed).IsFalse();
+            _eventService.DidNotReceive().Publish(Arg.Any<DisplayEvent>());
+        }
+
+        [Test]
+        public async Task CheckForChangesAsync_SkipsCheck_WhenNoSubscribers()
+        {
+            // Arrange
+            await _watcher.CheckForChangesAsync();
+            _eventService.SubscriberCount.Returns(0);
+            await AddPhotoAsync("unseen.jpg");
+
+            // Act
+            var changed = await _watcher.CheckForChangesAsync();
+
+            // Assert
+            await Assert.That(changed).IsFalse();
+            _eventService.DidNotReceive().Publish(Arg.Any<DisplayEvent>());
+        }
+
+        [Test]
+        public async Task CheckForChangesAsync_ResetsBaseline_AfterSubscribersReturn()
+        {
+            // Arrange - change happens while nobody is listening
+            await _watcher.CheckForChangesAsync();
+            _eventService.SubscriberCount.Returns(0);
+            await AddPhotoAsync("offline.jpg");
+            await _watcher.CheckForChangesAsync();
+            _eventService.SubscriberCount.Returns(1);
+
+            // Act - reconnecting displays fetch fresh state themselves
+            var changed = await _watcher.CheckForChangesAsync();
+
+            // Assert
+            await Assert.That(changed).IsFalse();
+            _eventService.DidNotReceive().Publish(Arg.Any<DisplayEvent>());
+        }
+    }
+}
@@ -106,6 +106,143 @@ namespace LibraFoto.Tests.Modules.Display
             await Assert.That(result.Height).IsEqualTo(1080);
         }
 
+        [Test]
+        public async Task GetNextPhotoAsync_IncludesFocalPoint()
+        {
+            // Arrange
+            var settings = CreateTestSettings();
+            _db.DisplaySettings.Add(settings);
+            var photo = new Photo
+            {
+                Filename = "portrait.jpg",
+                OriginalFilename = "portrait.jpg",
+                FilePath = "portrait.jpg",
+                Width = 1080,
+                Height = 1920,
+                FocalPointX = 0.25,
+                FocalPointY = 0.2
+            };
+            _db.Photos.Add(photo);
+            await _db.SaveChangesAsync();
+
+            // Act
+            var result = await _service.GetNextPhotoAsync(settings.Id);
+
+            // Assert
+            await Assert.That(result).IsNotNull();
+            await Assert.That(result!.FocalPointX).IsEqualTo(0.25);
+            await Assert.That(result.FocalPointY).IsEqualTo(0.2);
+        }
+
+        [Test]
+        public async Task GetNextPhotoAsync_VersionsUrlsOfEditedPhotos()
+        {
+            // Arrange
+            var settings = CreateTestSettings();
+            _db.DisplaySettings.Add(settings);
+            var photo = new Photo
+            {
+                Filename = "sideways.jpg",
+                OriginalFilename = "sideways.jpg",
+                FilePath = "sideways.jpg",
+                ThumbnailPath = "thumbs/sideways.jpg",
+                Width = 1920,
+                Height = 1080,
+                Rotation = 90
+            };
+            _db.Photos.Add(photo);
+            await _db.SaveChangesAsync();
+            var version = SlideshowService.GetEditVersion(photo);
+
+            // Act
+            var result = await _service.GetNextPhotoAsync(settings.Id);
+
+            // Assert
+            await Assert.That(version).StartsWith("?v=");
+            await Assert.That(result).IsNotNull();
+            await Assert.That(result!.Url).IsEqualTo($"/api/media/photos/{photo.Id}{version}");
+            await Assert.That(result.ThumbnailUrl).IsEqualTo($"/api/media/photos/{photo.Id}/thumbnail{version}");
+        }
+
+        [Test]
+        public async Task GetNextPhotoAsync_ReturnsSizeAfterEdits()
+        {
+            // Arrange - a sideways landscape file rotated upright, then cropped to 3:4
+            var settings = CreateTestSettings();
+            _db.DisplaySettings.Add(settings);
+            var photo = new Photo
+            {
+                Filename = "sideways.jpg",
+                OriginalFilename = "sideways.jpg",
+                FilePath = "sideways.jpg",
+                Width = 4000,
+                Height = 3000,
+                Rotation = 90,
+                CropX = 0,
+                CropY = 0.1,
+                CropWidth = 1,
+                CropHeight = 0.75
+            };
+            _db.Photos.Add(photo);
+            await _db.SaveChangesAsync();
+
+            // Act
+            var result = await _service.GetNextPhotoAsync(settings.Id);
+
+            // Assert
+            await Assert.That(result).IsNotNull();
+            await Assert.That(result!.Width).IsEqualTo(3000);
+            await Assert.That(result.Height).IsEqualTo(3000);
+        }
+
+        [Test]
+        [Arguments(0, 4000, 3000)]
+        [Arguments(90, 3000, 4000)]
+        [Arguments(180, 4000, 3000)]
+        [Arguments(270, 3000, 4000)]
+        public async Task GetEditedSize_SwapsSidesForQuarterTurns(int rotation, int expectedWidth, int expectedHeight)
+        {
+            // Arrange
+            var photo = new Photo
+            {
+                Filename = "a.jpg",
+                OriginalFilename = "a.jpg",
+                FilePath = "a.jpg",
+                Width = 4000,
+                Height = 3000,
+                Rotation = rotation
+            };
+
+            // Act
+            var (width, height) = SlideshowService.GetEditedSize(photo);
+
+            // Assert
+            await Assert.That(width).IsEqualTo(expectedWidth);
+            await Assert.That(height).IsEqualTo(expectedHeight);
+        }
+
+        [Test]
+        public async Task GetEditVersion_ChangesWithEdits()
+        {
+            // Arrange
+            var photo = new Photo { Filename = "a.jpg", OriginalFilename = "a.jpg", FilePath = "a.jpg" };
+
+            // Act
+            var unedited = SlideshowService.GetEditVersion(photo);
+            photo.Rotation = 90;
+            var rotated = SlideshowService.GetEditVersion(photo);
+            photo.CropX = 0;
+            photo.CropY = 0.1;
+            photo.CropWidth = 1;
+            photo.CropHeight = 0.8;
+            var cropped = SlideshowService.GetEditVersion(photo);
+
+            // Assert
+            await Assert.That(unedited).IsEqualTo(string.Empty);
+            await Assert.That(rotated).IsNotEqualTo(string.Empty);
+            await Assert.That(cropped).IsNotEqualTo(rotated);
+        }
+
         [Test]
         public async Task GetNextPhotoAsync_ReturnsNull_WhenNoPhotos()
         {
@@ -390,6 +527,87 @@ namespace LibraFoto.Tests.Modules.Display
             await Assert.That(count).IsEqualTo(0);
         }
 
+        [Test]
+        public async Task GetPhotoByIdAsync_ReturnsPhoto_WithoutAdvancingSequence()
+        {
+            // Arrange
+            var settings = CreateTestSettings();
+            _db.DisplaySettings.Add(settings);
+            var photo1 = new Photo { Filename = "1.jpg", OriginalFilename = "1.jpg", FilePath = "1.jpg", Width = 100, Height = 100 };
+            var photo2 = new Photo { Filename = "2.jpg", OriginalFilename = "2.jpg", FilePath = "2.jpg", Width = 100, Height = 100 };
+            _db.Photos.AddRange(photo1, photo2);
+            await _db.SaveChangesAsync();
+            var current = await _service.GetNextPhotoAsync(settings.Id);
+
+            // Act
+            var result = await _service.GetPhotoByIdAsync(photo2.Id);
+
+            // Assert
+            await Assert.That(result).IsNotNull();
+            await Assert.That(result!.Id).IsEqualTo(photo2.Id);
+            var stillCurrent = await _service.GetCurrentPhotoAsync(settings.Id);
+            await Assert.That(stillCurrent!.Id).IsEqualTo(current!.Id);
+        }
+
+        [Test]
+        public async Task GetPhotoByIdAsync_ReturnsNull_WhenNotFound()
+        {
+            // Act
+            var result = await _service.GetPhotoByIdAsync(999999);
+
+            // Assert
+            await Assert.That(result).IsNull();
+        }
+
+        [Test]
+        public async Task AddToFavoritesAsync_CreatesFavoritesTag_AndTagsPhotoOnce()
+        {
+            // Arrange
+            var photo = new Photo { Filename = "1.jpg", OriginalFilename = "1.jpg", FilePath = "1.jpg", Width = 100, Height = 100 };
+            _db.Photos.Add(photo);
+            await _db.SaveChangesAsync();
+
+            // Act
+            var first = await _service.AddToFavoritesAsync(photo.Id);
+            var second = await _service.AddToFavoritesAsync(photo.Id);
+
+            // Assert
+            await Assert.That(first).IsTrue();
+            await Assert.That(second).IsTrue();
+            var tag = await _db.Tags.AsNoTracking().SingleAsync(t => t.Name == SlideshowService.FavoritesTagName);
+            var links = await _db.PhotoTags.AsNoTracking().CountAsync(pt => pt.PhotoId == photo.Id && pt.TagId == tag.Id);
+            await Assert.That(links).IsEqualTo(1);
+        }
+
+        [Test]
+        public async Task AddToFavoritesAsync_ReusesExistingTag()
+        {
+            // Arrange
+            var tag = new Tag { Name = SlideshowService.FavoritesTagName, Color = "#FF0000" };
+            var photo = new Photo { Filename = "1.jpg", OriginalFilename = "1.jpg", FilePath = "1.jpg", Width = 100, Height = 100 };
+            _db.Tags.Add(tag);
+            _db.Photos.Add(photo);
+            await _db.SaveChangesAsync();
+
+            // Act
+            await _service.AddToFavoritesAsync(photo.Id);
+
+            // Assert
+            await Assert.That(await _db.Tags.CountAsync()).IsEqualTo(1);
+            await Assert.That(await _db.PhotoTags.AnyAsync(pt => pt.TagId == tag.Id && pt.PhotoId == photo.Id)).IsTrue();
+        }
+
+        [Test]
+        public async Task AddToFavoritesAsync_ReturnsFalse_WhenPhotoNotFound()
+        {
+            // Act
+            var result = await _service.AddToFavoritesAsync(999999);
+
+            // Assert
+            await Assert.That(result).IsFalse();
+            await Assert.That(await _db.Tags.AnyAsync()).IsFalse();
+        }
+
         [Test]
         public async Task GetPhotoCountAsync_CountsFilteredPhotos_ForAlbum()
         {
@@ -420,5 +638,275 @@ namespace LibraFoto.Tests.Modules.Display
             // Assert - Should only count photos in the album
             await Assert.That(count).IsEqualTo(2);
         }
+
+        [Test]
+        public async Task GetPhotoCountAsync_Playlist_CountsEachPhotoOnce_WithoutExcludedTags()
+        {
+            // Arrange
+            var album = new Album { Name = "Family" };
+            var tag = new Tag { Name = "Beach" };
+            var hidden = new Tag { Name = "Hidden" };
+            _db.Albums.Add(album);
+            _db.Tags.AddRange(tag, hidden);
+            var photo1 = new Photo { Filename = "1.jpg", OriginalFilename = "1.jpg", FilePath = "1.jpg", Width = 100, Height = 100 };
+            var photo2 = new Photo { Filename = "2.jpg", OriginalFilename = "2.jpg", FilePath = "2.jpg", Width = 100, Height = 100 };
+            var photo3 = new Photo { Filename = "3.jpg", OriginalFilename = "3.jpg", FilePath = "3.jpg", Width = 100, Height = 100 };
+            var photo4 = new Photo { Filename = "4.jpg", OriginalFilename = "4.jpg", FilePath = "4.jpg", Width = 100, Height = 100 };
+            _db.Photos.AddRange(photo1, photo2, photo3, photo4);
+            await _db.SaveChangesAsync();
+
+            _db.PhotoAlbums.AddRange(
+                new PhotoAlbum { PhotoId = photo1.Id, AlbumId = album.Id },
+                new PhotoAlbum { PhotoId = photo2.Id, AlbumId = album.Id });
+            _db.PhotoTags.AddRange(
+                new PhotoTag { PhotoId = photo2.Id, TagId = tag.Id },
+                new PhotoTag { PhotoId = photo3.Id, TagId = tag.Id },
+                new PhotoTag { PhotoId = photo3.Id, TagId = hidden.Id });
+
+            var settings = CreateTestSettings(sourceType: SourceType.Playlist);
+            settings.PlaylistSources.Add(new DisplayPlaylistSource { AlbumId = album.Id });
+            settings.PlaylistSources.Add(new DisplayPlaylistSource { TagId = tag.Id });
+            settings.PlaylistSources.Add(new DisplayPlaylistSource { TagId = hidden.Id, IsExcluded = true });
+            _db.DisplaySettings.Add(settings);
+            await _db.SaveChangesAsync();
+
+            // Act
+            var count = await _service.GetPhotoCountAsync(settings.Id);
+
+            // Assert - photo 2 is in both sources, photo 3 is excluded, photo 4 is in neither
+            await Assert.That(count).IsEqualTo(2);
+        }
+
+        [Test]
+        public async Task GetNextPhotoAsync_Playlist_DrawsSlidesInProportionToWeight()
+        {
+            // Arrange
+            var favorites = new Album { Name = "Favorites" };
+            var everyday = new Album { Name = "Everyday" };
+            _db.Albums.AddRange(favorites, everyday);
+            var favorite = new Photo { Filename = "f.jpg", OriginalFilename = "f.jpg", FilePath = "f.jpg", Width = 100, Height = 100 };
+            var others = Enumerable.Range(1, 3)
+                .Select(i => new Photo { Filename = $"{i}.jpg", OriginalFilename = $"{i}.jpg", FilePath = $"{i}.jpg", Width = 100, Height = 100 })
+                .ToList();
+            _db.Photos.Add(favorite);
+            _db.Photos.AddRange(others);
+            await _db.SaveChangesAsync();
+
+            _db.PhotoAlbums.Add(new PhotoAlbum { PhotoId = favorite.Id, AlbumId = favorites.Id });
+            _db.PhotoAlbums.AddRange(others.Select(p => new PhotoAlbum { PhotoId = p.Id, AlbumId = everyday.Id }));
+
+            var settings = CreateTestSettings(sourceType: SourceType.Playlist, shuffle: false);
+            settings.PlaylistSources.Add(new DisplayPlaylistSource { AlbumId = favorites.Id, Weight = 3 });
+            settings.PlaylistSources.Add(new DisplayPlaylistSource { AlbumId = everyday.Id, Weight = 1 });
+            _db.DisplaySettings.Add(settings);
+            await _db.SaveChangesAsync();
+
+            // Act - one full queue is as long as the number of distinct photos
+            var ids = new List<long>();
+            for (var i = 0; i < 4; i++)
+            {
+                ids.Add((await _service.GetNextPhotoAsync(settings.Id))!.Id);
+            }
+
+            // Assert - the single favorite repeats to keep its three-quarter share
+            await Assert.That(ids.Count(id => id == favorite.Id)).IsEqualTo(3);
+            await Assert.That(ids[2]).IsEqualTo(others[0].Id);
+        }
+
+        [Test]
+        public async Task GetNextPhotoAsync_Playlist_AppliesInclusiveDateRange()
+        {
+            // Arrange
+            var album = new Album { Name = "Trips" };
+            _db.Albums.Add(album);
+            var before = new Photo { Filename = "1.jpg", OriginalFilename = "1.jpg", FilePath = "1.jpg", Width = 100, Height = 100, DateTaken = new DateTime(2023, 12, 31, 23, 0, 0) };
+            var lastDay = new Photo { Filename = "2.jpg", OriginalFilename = "2.jpg", FilePath = "2.jpg", Width = 100, Height = 100, DateTaken = new DateTime(2024, 6, 30, 18, 0, 0) };
+            var after = new Photo { Filename = "3.jpg", OriginalFilename = "3.jpg", FilePath = "3.jpg", Width = 100, Height = 100, DateTaken = new DateTime(2024, 7, 1, 8, 0, 0) };
+            _db.Photos.AddRange(before, lastDay, after);
+            await _db.SaveChangesAsync();
+
+            _db.PhotoAlbums.AddRange(new[] { before, lastDay, after }
+                .Select(p => new PhotoAlbum { PhotoId = p.Id, AlbumId = album.Id }));
+
+            var settings = CreateTestSettings(sourceType: SourceType.Playlist);
+            settings.PlaylistSources.Add(new DisplayPlaylistSource
+            {
+                AlbumId = album.Id,
+                DateFrom = new DateTime(2024, 1, 1),
+                DateTo = new DateTime(2024, 6, 30)
+            });
+            _db.DisplaySettings.Add(settings);
+            await _db.SaveChangesAsync();
+
+            // Act
+            var count = await _service.GetPhotoCountAsync(settings.Id);
+            var result = await _service.GetNextPhotoAsync(settings.Id);
+
+            // Assert
+            await Assert.That(count).IsEqualTo(1);
+            await Assert.That(result!.Id).IsEqualTo(lastDay.Id);
+        }
+
+        [Test]
+        public async Task GetNextPhotoAsync_Memories_PrefersPhotosTakenOnThisDay()
+        {
+            // Arrange - four years back keeps leap days aligned
+            var today = DateTime.Now.Date;
+            var onThisDay = new Photo { Filename = "1.jpg", OriginalFilename = "1.jpg", FilePath = "1.jpg", Width = 100, Height = 100, DateTaken = today.AddYears(-4).AddHours(12) };
+            var thisWeek = new Photo { Filename = "2.jpg", OriginalFilename = "2.jpg", FilePath = "2.jpg", Width = 100, Height = 100, DateTaken = today.AddYears(-4).AddDays(2) };
+            var recent = new Photo { Filename = "3.jpg", OriginalFilename = "3.jpg", FilePath = "3.jpg", Width = 100, Height = 100, DateTaken = today.AddHours(8) };
+            _db.Photos.AddRange(onThisDay, thisWeek, recent);
+            var settings = CreateTestSettings(sourceType: SourceType.Memories);
+            _db.DisplaySettings.Add(settings);
+            await _db.SaveChangesAsync();
+
+            // Act
+            var count = await _service.GetPhotoCountAsync(settings.Id);
+            var result = await _service.GetNextPhotoAsync(settings.Id);
+
+            // Assert - a photo from today is not a memory yet, but the other photos are still shown
+            await Assert.That(count).IsEqualTo(3);
+            await Assert.That(result!.Id).IsEqualTo(onThisDay.Id);
+        }
+
+        [Test]
+        public async Task GetNextPhotoAsync_Memories_WidensToThisWeek()
+        {
+            // Arrange
+            var today = DateTime.Now.Date;
+            var weekEarlier = new Photo { Filename = "1.jpg", OriginalFilename = "1.jpg", FilePath = "1.jpg", Width = 100, Height = 100, DateTaken = today.AddYears(-4).AddDays(-3) };
+            var weekLater = new Photo { Filename = "2.jpg", OriginalFilename = "2.jpg", FilePath = "2.jpg", Width = 100, Height = 100, DateTaken = today.AddYears(-8).AddDays(2) };
+            var outsideWeek = new Photo { Filename = "3.jpg", OriginalFilename = "3.jpg", FilePath = "3.jpg", Width = 100, Height = 100, DateTaken = today.AddYears(-4).AddDays(10) };
+            _db.Photos.AddRange(weekEarlier, weekLater, outsideWeek);
+            var settings = CreateTestSettings(sourceType: SourceType.Memories);
+            _db.DisplaySettings.Add(settings);
+            await _db.SaveChangesAsync();
+
+            // Act
+            var first = await _service.GetNextPhotoAsync(settings.Id);
+            var second = await _service.GetNextPhotoAsync(settings.Id);
+
+            // Assert - oldest memory first
+            await Assert.That(first!.Id).IsEqualTo(weekLater.Id);
+            await Assert.That(second!.Id).IsEqualTo(weekEarlier.Id);
+        }
+
+        [Test]
+        public async Task GetNextPhotoAsync_Memories_MixesASingleMemoryWithOtherPhotos()
+        {
+            // Arrange
+            var today = DateTime.Now.Date;
+            var memory = new Photo { Filename = "m.jpg", OriginalFilename = "m.jpg", FilePath = "m.jpg", Width = 100, Height = 100, DateTaken = today.AddYears(-4).AddHours(12) };
+            var others = Enumerable.Range(1, 4)
+                .Select(i => new Photo { Filename = $"{i}.jpg", OriginalFilename = $"{i}.jpg", FilePath = $"{i}.jpg", Width = 100, Height = 100, DateTaken = today.AddDays(-40 - i) })
+                .ToList();
+            _db.Photos.Add(memory);
+            _db.Photos.AddRange(others);
+            var settings = CreateTestSettings(sourceType: SourceType.Memories);
+            _db.DisplaySettings.Add(settings);
+            await _db.SaveChangesAsync();
+
+            // Act - one full queue is as long as the number of distinct photos
+            var count = await _service.GetPhotoCountAsync(settings.Id);
+            var ids = new List<long>();
+            for (var i = 0; i < count; i++)
+            {
+                ids.Add((await _service.GetNextPhotoAsync(settings.Id))!.Id);
+            }
+
+            // Assert - the memory repeats to keep its share, and the library still gets a slide
+            await Assert.That(count).IsEqualTo(5);
+            await Assert.That(ids[0]).IsEqualTo(memory.Id);
+            await Assert.That(ids.Count(id => id == memory.Id)).IsEqualTo(SlideshowService.MemoriesWeight);
+            await Assert.That(ids.Count(id => id != memory.Id)).IsEqualTo(1);
+        }
+
+        [Test]
+        public async Task GetPhotoCountAsync_Memories_FallsBackToAllPhotos()
+        {
+            // Arrange
+            var today = DateTime.Now.Date;
+            _db.Photos.AddRange(
+                new Photo { Filename = "1.jpg", OriginalFilename = "1.jpg", FilePath = "1.jpg", Width = 100, Height = 100, DateTaken = today.AddDays(-40) },
+                new Photo { Filename = "2.jpg", OriginalFilename = "2.jpg", FilePath = "2.jpg", Width = 100, Height = 100 });
+            var settings = CreateTestSettings(sourceType: SourceType.Memories);
+            _db.DisplaySettings.Add(settings);
+            await _db.SaveChangesAsync();
+
+            // Act
+            var count = await _service.GetPhotoCountAsync(settings.Id);
+
+            // Assert
+            await Assert.That(count).IsEqualTo(2);
+        }
+
+        [Test]
+        public async Task GetPreloadPhotosAsync_Memories_FallsBackToTheNormalSource()
+        {
+            // Arrange
+            var today = DateTime.Now.Date;
+            var photo = new Photo { Filename = "1.jpg", OriginalFilename = "1.jpg", FilePath = "1.jpg", Width = 100, Height = 100, DateTaken = today.AddDays(-40) };
+            var video = new Photo { Filename = "2.mp4", OriginalFilename = "2.mp4", FilePath = "2.mp4", Width = 100, Height = 100, MediaType = MediaType.Video };
+            _db.Photos.AddRange(photo, video);
+            var settings = CreateTestSettings(sourceType: SourceType.Memories);
+            settings.VideoPlayback = VideoPlayback.Skip;
+            _db.DisplaySettings.Add(settings);
+            await _db.SaveChangesAsync();
+
+            // Act
+            var photos = await _service.GetPreloadPhotosAsync(10, settings.Id);
+
+            // Assert - the fallback keeps the display's video filter
+            await Assert.That(photos.Select(p => p.Id)).IsEquivalentTo(new[] { photo.Id });
+        }
+
+        [Test]
+        public async Task GetPreloadPhotosAsync_LeavesOutVideos_WhenVideosAreSkipped()
+        {
+            // Arrange
+            var photo = new Photo { Filename = "1.jpg", OriginalFilename = "1.jpg", FilePath = "1.jpg", Width = 100, Height = 100 };
+            var video = new Photo { Filename = "2.mp4", OriginalFilename = "2.mp4", FilePath = "2.mp4", Width = 100, Height = 100, MediaType = MediaType.Video };
+            _db.Photos.AddRange(photo, video);
+            var settings = CreateTestSettings();
+            settings.VideoPlayback = VideoPlayback.Skip;
+            _db.DisplaySettings.Add(settings);
+            await _db.SaveChangesAsync();
+
+            // Act
+            var photos = await _service.GetPreloadPhotosAsync(10, settings.Id);
+            var count = await _service.GetPhotoCountAsync(settings.Id);
+
+            // Assert
+            await Assert.That(photos.Count).IsEqualTo(1);
+            await Assert.That(photos[0].Id).IsEqualTo(photo.Id);
+            await Assert.That(count).IsEqualTo(1);
+        }
+
+        [Test]
+        public async Task GetPhotoCountAsync_Playlist_LeavesOutVideos_WhenVideosAreSkipped()
+        {
+            // Arrange
+            var album = new Album { Name = "Family" };
+            _db.Albums.Add(album);
+            var photo = new Photo { Filename = "1.jpg", OriginalFilename = "1.jpg", FilePath = "1.jpg", Width = 100, Height = 100 };
+            var video = new Photo { Filename = "2.mp4", OriginalFilename = "2.mp4", FilePath = "2.mp4", Width = 100, Height = 100, MediaType = MediaType.Video };
+            _db.Photos.AddRange(photo, video);
+            await _db.SaveChangesAsync();
+
+            _db.PhotoAlbums.AddRange(
+                new PhotoAlbum { PhotoId = photo.Id, AlbumId = album.Id },
+                new PhotoAlbum { PhotoId = video.Id, AlbumId = album.Id });
+            var settings = CreateTestSettings(sourceType: SourceType.Playlist);
+            settings.VideoPlayback = VideoPlayback.Skip;
+            settings.PlaylistSources.Add(new DisplayPlaylistSource { AlbumId = album.Id });
+            _db.DisplaySettings.Add(settings);
+            await _db.SaveChangesAsync();
+
+            // Act
+            var count = await _service.GetPhotoCountAsync(settings.Id);
+
+            // Assert
+            await Assert.That(count).IsEqualTo(1);
+        }
     }
 }
@@ -0,0 +1,138 @@
+using LibraFoto.Data.Entities;
+using LibraFoto.Modules.Display.Services;
+using LibraFoto.Modules.Media.Models;
+using LibraFoto.Modules.Media.Services;
+using NSubstitute;
+using SixLabors.ImageSharp;
+using SixLabors.ImageSharp.Formats.Jpeg;
+using SixLabors.ImageSharp.PixelFormats;
+using TUnit.Core;
+
+namespace LibraFoto.Tests.Modules.Media
+{
+    public class EditedPhotoCacheTests
+    {
+        private EditedPhotoCache _cache = null!;
+        private string _tempDir = null!;
+        private string _sourcePath = null!;
+
+        [Before(Test)]
+        public async Task Setup()
+        {
+            _tempDir = Path.Combine(Path.GetTempPath(), $"LibraFotoEditedPhotoTest_{Guid.NewGuid()}");
+            Directory.CreateDirectory(_tempDir);
+
+            _cache = new EditedPhotoCache(new ImageProcessor(), Path.Combine(_tempDir, "edited"));
+
+            _sourcePath = Path.Combine(_tempDir, "source.jpg");
+            using var image = new Image<Rgba32>(200, 100, Color.Blue);
+            await image.SaveAsync(_sourcePath, new JpegEncoder());
+        }
+
+        [After(Test)]
+        public async Task Cleanup()
+        {
+            if (Directory.Exists(_tempDir))
+            {
+                Directory.Delete(_tempDir, true);
+            }
+
+            await Task.CompletedTask;
+        }
+
+        [Test]
+        public async Task GetRenditionPathAsync_RendersEditsOnce()
+        {
+            // Arrange
+            var edits = new ImageEdits { Rotation = 90 };
+
+            // Act
+            var first = await _cache.GetRenditionPathAsync(1, _sourcePath, edits);
+            var writtenAt = File.GetLastWriteTimeUtc(first!);
+            var second = await _cache.GetRenditionPathAsync(1, _sourcePath, edits);
+
+            // Assert
+            await Assert.That(second).IsEqualTo(first);
+            await Assert.That(File.GetLastWriteTimeUtc(second!)).IsEqualTo(writtenAt);
+            await Assert.That(Path.GetFileName(first!)).IsEqualTo($"1_{edits.Version}.jpg");
+            var info = await Image.IdentifyAsync(first!);
+            await Assert.That(info.Width).IsEqualTo(100);
+            await Assert.That(info.Height).IsEqualTo(200);
+        }
+
+        [Test]
+        public async Task GetRenditionPathAsync_ReplacesRendition_WhenEditsChange()
+        {
+            // Arrange
+            var rotated = await _cache.GetRenditionPathAsync(1, _sourcePath, new ImageEdits { Rotation = 90 });
+            var other = await _cache.GetRenditionPathAsync(2, _sourcePath, new ImageEdits { Rotation = 90 });
+
+            // Act
+            var flipped = await _cache.GetRenditionPathAsync(1, _sourcePath, new ImageEdits { FlipHorizontal = true });
+
+            // Assert - other photos keep their renditions
+            await Assert.That(flipped).IsNotEqualTo(rotated);
+            await Assert.That(File.Exists(rotated!)).IsFalse();
+            await Assert.That(File.Exists(flipped!)).IsTrue();
+            await Assert.That(File.Exists(other!)).IsTrue();
+        }
+
+        [Test]
+        public async Task GetRenditionPathAsync_RendersAgain_WhenOriginalIsNewer()
+        {
+            // Arrange
+            var edits = new ImageEdits { Rotation = 180 };
+            var path = await _cache.GetRenditionPathAsync(1, _sourcePath, edits);
+            File.SetLastWriteTimeUtc(path!, DateTime.UtcNow.AddHours(-1));
+
+            // Act
+            await _cache.GetRenditionPathAsync(1, _sourcePath, edits);
+
+            // Assert
+            await Assert.That(File.GetLastWriteTimeUtc(path!)).IsGreaterThan(DateTime.UtcNow.AddMinutes(-1));
+        }
+
+        [Test]
+        public async Task GetRenditionPathAsync_ReturnsNull_WhenRenderingFails()
+        {
+            // Arrange
+            var processor = Substitute.For<IImageProcessor>();
+            processor.ProcessAsync(Arg.Any<Stream>(), Arg.Any<Stream>(), Arg.Any<ProcessingOptions>(), Arg.Any<CancellationToken>())
+                .Returns(false);
+            var cache = new EditedPhotoCache(processor, Path.Combine(_tempDir, "failing"));
+
+            // Act
+            var path = await cache.GetRenditionPathAsync(1, _sourcePath, new ImageEdits { Rotation = 90 });
+
+            // Assert - no partial files are left behind
+            await Assert.That(path).IsNull();
+            await Assert.That(Directory.GetFiles(cache.RenditionBasePath)).IsEmpty();
+        }
+
+        [Test]
+        public async Task Version_MatchesTheSlideshowEditVersion()
+        {
+            // Arrange
+            var photo = new Photo
+            {
+                Filename = "a.jpg",
+                OriginalFilename = "a.jpg",
+                FilePath = "a.jpg",
+                Rotation = 90,
+                FlipHorizontal = true,
+                CropX = 0,
+                CropY = 0.1,
+                CropWidth = 1,
+                CropHeight = 0.8
+            };
+
+            // Act
+            var version = ImageEdits.FromPhoto(photo).Version;
+
+            // Assert - displays request the same version that names the rendition
+            await Assert.That(version.Length).IsEqualTo(12);
+            await Assert.That(SlideshowService.GetEditVersion(photo)).IsEqualTo($"?v={version}");
+            await Assert.That(new ImageEdits().Version).IsEqualTo(string.Empty);
+        }
+    }
+}
@@ -327,6 +327,50 @@ namespace LibraFoto.Tests.Modules.Media
             await Assert.That(output.Length).IsGreaterThan(0);
         }
 
+        [Test]
+        public async Task ProcessAsync_WithCrop_KeepsRegion()
+        {
+            // Arrange
+            using var source = CreateTestImage(200, 100);
+            using var output = new MemoryStream();
+            var options = new ProcessingOptions { Crop = new CropRegion(0.25, 0, 0.5, 1) };
+
+            // Act
+            var result = await _processor.ProcessAsync(source, output, options);
+
+            // Assert
+            await Assert.That(result).IsTrue();
+            output.Position = 0;
+            var dimensions = _processor.GetDimensions(output);
+            await Assert.That(dimensions).IsNotNull();
+            await Assert.That(dimensions!.Value.Width).IsEqualTo(100);
+            await Assert.That(dimensions.Value.Height).IsEqualTo(100);
+        }
+
+        [Test]
+        public async Task ProcessAsync_WithCropAfterRotation_UsesRotatedSize()
+        {
+            // Arrange
+            using var source = CreateTestImage(200, 100);
+            using var output = new MemoryStream();
+            var options = new ProcessingOptions
+            {
+                RotationDegrees = 90,
+                Crop = new CropRegion(0, 0, 1, 0.5)
+            };
+
+            // Act
+            var result = await _processor.ProcessAsync(source, output, options);
+
+            // Assert
+            await Assert.That(result).IsTrue();
+            output.Position = 0;
+            var dimensions = _processor.GetDimensions(output);
+            await Assert.That(dimensions).IsNotNull();
+            await Assert.That(dimensions!.Value.Width).IsEqualTo(100);
+            await Assert.That(dimensions.Value.Height).IsEqualTo(100);
+        }
+
         [Test]
         public async Task ProcessAsync_WithOutputFormat_ConvertsFormat()
         {
@@ -1,3 +1,4 @@
+using LibraFoto.Modules.Media.Models;
 using LibraFoto.Modules.Media.Services;
 using SixLabors.ImageSharp;
 using SixLabors.ImageSharp.Formats.Jpeg;
@@ -227,6 +228,54 @@ namespace LibraFoto.Tests.Modules.Media
         /// <summary>
         /// Creates a minimal valid JPEG image for testing.
         /// </summary>
+        [Test]
+        [NotInParallel]
+        public async Task GenerateThumbnailAsync_WithEdits_RotatesAndCrops()
+        {
+            // Arrange
+            var sourcePath = Path.Combine(_tempDir, "wide_source.jpg");
+            using (var image = new Image<Rgba32>(800, 400, Color.Blue))
+            {
+                await image.SaveAsync(sourcePath, new JpegEncoder());
+            }
+            var edits = new ImageEdits { Rotation = 90, Crop = new CropRegion(0, 0, 1, 0.5) };
+
+            // Act
+            var result = await _thumbnailService.GenerateThumbnailAsync(sourcePath, 6L, new DateTime(2024, 6, 15), edits);
+
+            // Assert
+            await Assert.That(result.Width).IsEqualTo(400);
+            await Assert.That(result.Height).IsEqualTo(400);
+        }
+
+        [Test]
+        [NotInParallel]
+        public async Task GenerateThumbnailAsync_WithFlip_MirrorsImage()
+        {
+            // Arrange
+            var sourcePath = Path.Combine(_tempDir, "split_source.png");
+            using (var image = new Image<Rgba32>(200, 100, Color.Red))
+            {
+                for (var y = 0; y < image.Height; y++)
+                {
+                    for (var x = image.Width / 2; x < image.Width; x++)
+                    {
+                        image[x, y] = Color.Blue;
+                    }
+                }
+                await image.SaveAsPngAsync(sourcePath);
+            }
+            var edits = new ImageEdits { FlipHorizontal = true };
+
+            // Act
+            var result = await _thumbnailService.GenerateThumbnailAsync(sourcePath, 7L, new DateTime(2024, 6, 15), edits);
+
+            // Assert
+            using var thumbnail = await Image.LoadAsync<Rgba32>(result.AbsolutePath!);
+            var left = thumbnail[10, thumbnail.Height / 2];
+            await Assert.That(left.B).IsGreaterThan(left.R);
+        }
+
         private static async Task CreateTestImageAsync(string path)
         {
             using var image = new Image<Rgba32>(100, 100, Color.Blue);
@@ -0,0 +1,398 @@
+using System.Text;
+using LibraFoto.Data;
+using LibraFoto.Data.Entities;
+using LibraFoto.Data.Enums;
+using LibraFoto.Modules.Storage.Services;
+using LibraFoto.Tests.Helpers;
+using Microsoft.Data.Sqlite;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging.Abstractions;
+using SixLabors.ImageSharp;
+using SixLabors.ImageSharp.PixelFormats;
+using TUnit.Core;
+
+namespace LibraFoto.Tests.Modules.Storage
+{
+    /// <summary>
+    /// Tests for DuplicateDetectionService.
+    /// </summary>
+    public class DuplicateDetectionServiceTests
+    {
+        private SqliteConnection _connection = null!;
+        private LibraFotoDbContext _db = null!;
+        private string _tempDir = null!;
+        private DuplicateDetectionService _service = null!;
+
+        [Before(Test)]
+        public async Task Setup()
+        {
+            _connection = await TestDbContextFactory.CreateOpenConnectionAsync();
+            _db = new LibraFotoDbContext(TestDbContextFactory.CreateInMemoryOptions(_connection));
+            await _db.Database.EnsureCreatedAsync();
+
+            _tempDir = TestHelpers.CreateTempDirectory();
+            var config = new ConfigurationBuilder()
+                .AddInMemoryCollection(new Dictionary<string, string?> { ["Storage:LocalPath"] = _tempDir })
+                .Build();
+            _service = new DuplicateDetectionService(_db, config, NullLogger<DuplicateDetectionService>.Instance);
+        }
+
+        [After(Test)]
+        public async Task Cleanup()
+        {
+            await _db.DisposeAsync();
+            await _connection.DisposeAsync();
+            TestHelpers.CleanupTempDirectory(_tempDir);
+        }
+
+        private async Task<Photo> AddPhotoAsync(string? hash, string filePath)
+        {
+            var photo = new Photo
+            {
+                Filename = Path.GetFileName(filePath),
+                OriginalFilename = "beach.jpg",
+                FilePath = filePath,
+                ContentHash = hash
+            };
+            _db.Photos.Add(photo);
+            await _db.SaveChangesAsync();
+            return photo;
+        }
+
+        /// <summary>
+        /// Writes a JPEG with a gradient that brightens to the right, or to the left when mirrored.
+        /// </summary>
+        private string WriteGradientImage(string relativePath, int width, int height, bool mirrored = false)
+        {
+            using var image = new Image<Rgba32>(width, height);
+            for (var y = 0; y < height; y++)
+            {
+                for (var x = 0; x < width; x++)
+                {
+                    var column = mirrored ? width - 1 - x : x;
+                    var value = (byte)(column * 200 / width + y * 55 / height);
+                    image[x, y] = new Rgba32(value, value, value);
+                }
+            }
+
+            var absolutePath = Path.Combine(_tempDir, relativePath);
+            Directory.CreateDirectory(Path.GetDirectoryName(absolutePath)!);
+            image.SaveAsJpeg(absolutePath);
+            return relativePath;
+        }
+
+        #region ComputeContentHashAsync Tests
+
+        [Test]
+        public async Task ComputeContentHashAsync_ReturnsLowercaseSha256Hex()
+        {
+            using var content = new MemoryStream(Encoding.ASCII.GetBytes("abc"));
+
+            var hash = await _service.ComputeContentHashAsync(content);
+
+            await Assert.That(hash).IsEqualTo("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+        }
+
+        #endregion
+
+        #region FindExistingHashesAsync Tests
+
+        [Test]
+        public async Task FindExistingHashesAsync_ReturnsOnlyKnownHashes()
+        {
+            var known = new string('a', 64);
+            await AddPhotoAsync(known, "media/1.jpg");
+            await AddPhotoAsync(known, "media/2.jpg");
+
+            var result = await _service.FindExistingHashesAsync([known.ToUpperInvariant(), new string('b', 64)]);
+
+            await Assert.That(result).IsEquivalentTo(new[] { known });
+        }
+
+        [Test]
+        public async Task FindExistingHashesAsync_IgnoresInvalidHashes()
+        {
+            await AddPhotoAsync("abc", "media/1.jpg");
+
+            var result = await _service.FindExistingHashesAsync(["abc", "not-a-hash"]);
+
+            await Assert.That(result).IsEmpty();
+        }
+
+        #endregion
+
+        #region ReplaceDuplicatesAsync Tests
+
+        [Test]
+        public async Task ReplaceDuplicatesAsync_MovesAlbumsTagsAndCovers_AndRemovesDuplicates()
+        {
+            // Arrange
+            var hash = new string('d', 64);
+            var duplicate = await AddPhotoAsync(hash, "media/1.jpg");
+            var replacement = await AddPhotoAsync(hash, "media/2.jpg");
+            var unrelated = await AddPhotoAsync(new string('e', 64), "media/3.jpg");
+
+            var album = new Album { Name = "Holiday", CoverPhotoId = duplicate.Id };
+            var tag = new Tag { Name = "Beach" };
+            _db.Albums.Add(album);
+            _db.Tags.Add(tag);
+            await _db.SaveChangesAsync();
+            _db.PhotoAlbums.Add(new PhotoAlbum { PhotoId = duplicate.Id, AlbumId = album.Id, SortOrder = 4 });
+            _db.PhotoTags.Add(new PhotoTag { PhotoId = duplicate.Id, TagId = tag.Id });
+            await _db.SaveChangesAsync();
+
+            var duplicateFile = Path.Combine(_tempDir, "media", "1.jpg");
+            Directory.CreateDirectory(Path.GetDirectoryName(duplicateFile)!);
+            await File.WriteAllBytesAsync(duplicateFile, [1, 2, 3]);
+
+            // Act
+            var replaced = await _service.ReplaceDuplicatesAsync(replacement);
+
+            // Assert
+            await Assert.That(replaced).IsEqualTo(1);
+            await Assert.That(await _db.Photos.AnyAsync(p => p.Id == duplicate.Id)).IsFalse();
+            await Assert.That(await _db.Photos.AnyAsync(p => p.Id == unrelated.Id)).IsTrue();
+            await Assert.That(File.Exists(duplicateFile)).IsFalse();
+
+            var photoAlbum = await _db.PhotoAlbums.SingleAsync();
+            await Assert.That(photoAlbum.PhotoId).IsEqualTo(replacement.Id);
+            await Assert.That(photoAlbum.SortOrder).IsEqualTo(4);
+            await Assert.That((await _db.PhotoTags.SingleAsync()).PhotoId).IsEqualTo(replacement.Id);
+            await Assert.That((await _db.Albums.SingleAsync()).CoverPhotoId).IsEqualTo(replacement.Id);
+        }
+
+        [Test]
+        public async Task ReplaceDuplicatesAsync_DoesNothing_WhenPhotoHasNoHash()
+        {
+            var photo = await AddPhotoAsync(null, "media/1.jpg");
+            await AddPhotoAsync(null, "media/2.jpg");
+
+            var replaced = await _service.ReplaceDuplicatesAsync(photo);
+
+            await Assert.That(replaced).IsEqualTo(0);
+            await Assert.That(await _db.Photos.CountAsync()).IsEqualTo(2);
+        }
+
+        #endregion
+
+        #region PerceptualHash Tests
+
+        [Test]
+        public async Task PerceptualHash_IsCloseForResizedCopy_AndFarForDifferentImage()
+        {
+            var original = await ComputePerceptualHashAsync(WriteGradientImage("a.jpg", 640, 480));
+            var resized = await ComputePerceptualHashAsync(WriteGradientImage("b.jpg", 160, 120));
+            var mirrored = await ComputePerceptualHashAsync(WriteGradientImage("c.jpg", 640, 480, mirrored: true));
+
+            await Assert.That(PerceptualHash.Distance(original, resized))
+                .IsLessThanOrEqualTo(DuplicateDetectionService.NearDuplicateMaxDistance);
+            await Assert.That(PerceptualHash.Distance(original, mirrored))
+                .IsGreaterThan(DuplicateDetectionService.NearDuplicateMaxDistance);
+        }
+
+        private async Task<long> ComputePerceptualHashAsync(string relativePath)
+        {
+            await using var content = File.OpenRead(Path.Combine(_tempDir, relativePath));
+            return await PerceptualHash.ComputeAsync(content);
+        }
+
+        #endregion
+
+        #region IndexPhotosAsync Tests
+
+        [Test]
+        public async Task IndexPhotosAsync_HashesPhotos_AndSkipsMissingFiles()
+        {
+            // Arrange
+            var photo = await AddPhotoAsync(null, WriteGradientImage("media/1.jpg", 64, 48));
+            var missing = await AddPhotoAsync(null, "media/missing.jpg");
+            var hashed = await AddPhotoAsync(new string('a', 64), "media/3.jpg");
+            hashed.PerceptualHash = 42;
+            await _db.SaveChangesAsync();
+
+            // Act
+            var result = await _service.IndexPhotosAsync(0, 10);
+
+            // Assert
+            await Assert.That(result.Processed).IsEqualTo(1);
+            await Assert.That(result.Remaining).IsEqualTo(0);
+            await Assert.That(result.LastPhotoId).IsEqualTo(missing.Id);
+
+            await _db.Entry(photo).ReloadAsync();
+            await Assert.That(photo.ContentHash).IsNotNull();
+            await Assert.That(photo.ContentHash!.Length).IsEqualTo(64);
+            await Assert.That(photo.PerceptualHash).IsNotNull();
+            await Assert.That((await _db.Photos.FindAsync(missing.Id))!.ContentHash).IsNull();
+        }
+
+        [Test]
+        public async Task IndexPhotosAsync_ReturnsCursor_WhenBatchIsFull()
+        {
+            var first = await AddPhotoAsync(null, WriteGradientImage("media/1.jpg", 32, 32));
+            await AddPhotoAsync(null, WriteGradientImage("media/2.jpg", 32, 32));
+
+            var result = await _service.IndexPhotosAsync(0, 1);
+
+            await Assert.That(result.LastPhotoId).IsEqualTo(first.Id);
+            await Assert.That(result.Remaining).IsEqualTo(1);
+        }
+
+        [Test]
+        public async Task IndexPhotosAsync_OnlyContentHashesVideos()
+        {
+            var video = await AddPhotoAsync(null, "media/clip.mp4");
+            video.MediaType = MediaType.Video;
+            await _db.SaveChangesAsync();
+            var absolutePath = Path.Combine(_tempDir, "media", "clip.mp4");
+            Directory.CreateDirectory(Path.GetDirectoryName(absolutePath)!);
+            await File.WriteAllBytesAsync(absolutePath, [1, 2, 3]);
+
+            var result = await _service.IndexPhotosAsync(0, 10);
+
+            await Assert.That(result.Processed).IsEqualTo(1);
+            await _db.Entry(video).ReloadAsync();
+            await Assert.That(video.ContentHash).IsNotNull();
+            await Assert.That(video.PerceptualHash).IsNull();
+        }
+
+        #endregion
+
+        #region GetDuplicateGroupsAsync Tests
+
+        [Test]
+        public async Task GetDuplicateGroupsAsync_GroupsIdenticalAndSimilarPhotos()
+        {
+            // Arrange
+            var provider = new StorageProvider { Name = "Google Photos", Type = StorageProviderType.GooglePhotos };
+            _db.StorageProviders.Add(provider);
+            await _db.SaveChangesAsync();
+
+            var exactA = await AddPhotoAsync(new string('a', 64), "media/1.jpg");
+            var exactB = await AddPhotoAsync(new string('a', 64), "media/2.jpg");
+            exactB.ProviderId = provider.Id;
+
+            var similarA = await AddPhotoAsync(new string('b', 64), "media/3.jpg");
+            similarA.PerceptualHash = 0b1111_0000;
+            similarA.Width = 800;
+            similarA.Height = 600;
+            var similarB = await AddPhotoAsync(new string('c', 64), "media/4.jpg");
+            similarB.PerceptualHash = 0b1111_0011;
+            similarB.Width = 4000;
+            similarB.Height = 3000;
+
+            var unrelated = await AddPhotoAsync(new string('d', 64), "media/5.jpg");
+            unrelated.PerceptualHash = -1;
+
+            var album = new Album { Name = "Holiday" };
+            _db.Albums.Add(album);
+            await _db.SaveChangesAsync();
+            _db.PhotoAlbums.Add(new PhotoAlbum { PhotoId = exactA.Id, AlbumId = album.Id });
+            await _db.SaveChangesAsync();
+
+            // Act
+            var groups = await _service.GetDuplicateGroupsAsync();
+
+            // Assert
+            await Assert.That(groups.Count).IsEqualTo(2);
+
+            var exact = groups[0];
+            await Assert.That(exact.IsExactMatch).IsTrue();
+            await Assert.That(exact.Photos.Select(p => p.Id)).IsEquivalentTo(new[] { exactA.Id, exactB.Id });
+            await Assert.That(exact.Photos.Single(p => p.Id == exactB.Id).ProviderName).IsEqualTo("Google Photos");
+            await Assert.That(exact.Photos.Single(p => p.Id == exactA.Id).Albums.Single().Name).IsEqualTo("Holiday");
+
+            var similar = groups[1];
+            await Assert.That(similar.IsExactMatch).IsFalse();
+            await Assert.That(similar.Photos.Select(p => p.Id)).IsEquivalentTo(new[] { similarB.Id, similarA.Id });
+            await Assert.That(similar.Photos[0].Id).IsEqualTo(similarB.Id);
+        }
+
+        [Test]
+        public async Task GetDuplicateGroupsAsync_ReturnsEmpty_WhenNoDuplicates()
+        {
+            await AddPhotoAsync(new string('a', 64), "media/1.jpg");
+            await AddPhotoAsync(null, "media/2.jpg");
+
+            var groups = await _service.GetDuplicateGroupsAsync();
+
+            await Assert.That(groups).IsEmpty();
+        }
+
+        #endregion
+
+        #region ResolveDuplicatesAsync Tests
+
+        [Test]
+        public async Task ResolveDuplicatesAsync_MergesMembershipsIntoKeptPhoto()
+        {
+            // Arrange
+            var kept = await AddPhotoAsync(new string('a', 64), "media/1.jpg");
+            var deleted = await AddPhotoAsync(new string('a', 64), "media/2.jpg");
+
+            var album = new Album { Name = "Holiday", CoverPhotoId = deleted.Id };
+            var tag = new Tag { Name = "Beach" };
+            _db.Albums.Add(album);
+            _db.Tags.Add(tag);
+            await _db.SaveChangesAsync();
+            _db.PhotoAlbums.Add(new PhotoAlbum { PhotoId = deleted.Id, AlbumId = album.Id });
+            _db.PhotoTags.Add(new PhotoTag { PhotoId = deleted.Id, TagId = tag.Id });
+            await _db.SaveChangesAsync();
+
+            // Act
+            var result = await _service.ResolveDuplicatesAsync(kept.Id, [deleted.Id, kept.Id, 999]);
+
+            // Assert
+            await Assert.That(result).IsNotNull();
+            await Assert.That(result!.KeptPhotoId).IsEqualTo(kept.Id);
+            await Assert.That(result.DeletedCount).IsEqualTo(1);
+            await Assert.That(await _db.Photos.Select(p => p.Id).ToListAsync()).IsEquivalentTo(new[] { kept.Id });
+            await Assert.That((await _db.PhotoAlbums.SingleAsync()).PhotoId).IsEqualTo(kept.Id);
+            await Assert.That((await _db.PhotoTags.SingleAsync()).PhotoId).IsEqualTo(kept.Id);
+            await Assert.That((await _db.Albums.SingleAsync()).CoverPhotoId).IsEqualTo(kept.Id);
+        }
+
+        [Test]
+        public async Task ResolveDuplicatesAsync_DeletesNearDuplicates()
+        {
+            var kept = await AddPhotoAsync(new string('a', 64), "media/1.jpg");
+            var similar = await AddPhotoAsync(new string('b', 64), "media/2.jpg");
+            kept.PerceptualHash = 0b1111_0000;
+            similar.PerceptualHash = 0b1111_0011;
+            await _db.SaveChangesAsync();
+
+            var result = await _service.ResolveDuplicatesAsync(kept.Id, [similar.Id]);
+
+            await Assert.That(result!.DeletedCount).IsEqualTo(1);
+        }
+
+        [Test]
+        public async Task ResolveDuplicatesAsync_RejectsPhotosThatAreNotDuplicates()
+        {
+            var kept = await AddPhotoAsync(new string('a', 64), "media/1.jpg");
+            var copy = await AddPhotoAsync(new string('a', 64), "media/2.jpg");
+            var unrelated = await AddPhotoAsync(new string('b', 64), "media/3.jpg");
+            kept.PerceptualHash = 0;
+            unrelated.PerceptualHash = -1;
+            await _db.SaveChangesAsync();
+
+            await Assert.That(async () =>
+                await _service.ResolveDuplicatesAsync(kept.Id, [copy.Id, unrelated.Id]))
+                .Throws<InvalidOperationException>().WithMessageContaining($"Photos {unrelated.Id} ");
+            await Assert.That(await _db.Photos.CountAsync()).IsEqualTo(3);
+        }
+
+        [Test]
+        public async Task ResolveDuplicatesAsync_ReturnsNull_WhenKeptPhotoMissing()
+        {
+            var photo = await AddPhotoAsync(null, "media/1.jpg");
+
+            var result = await _service.ResolveDuplicatesAsync(999, [photo.Id]);
+
+            await Assert.That(result).IsNull();
+            await Assert.That(await _db.Photos.CountAsync()).IsEqualTo(1);
+        }
+
+        #endregion
+    }
+}
@@ -0,0 +1,126 @@
+using System.Reflection;
+using LibraFoto.Modules.Storage.Endpoints;
+using LibraFoto.Modules.Storage.Interfaces;
+using LibraFoto.Modules.Storage.Models;
+using LibraFoto.Modules.Storage.Services;
+using LibraFoto.Shared.DTOs;
+using Microsoft.AspNetCore.Http.HttpResults;
+using NSubstitute;
+using TUnit.Core;
+
+namespace LibraFoto.Tests.Modules.Storage.Endpoints
+{
+    /// <summary>
+    /// Tests for DuplicateEndpoints - duplicate review and resolution.
+    /// </summary>
+    public class DuplicateEndpointsTests
+    {
+        private IDuplicateDetectionService _duplicates = null!;
+
+        [Before(Test)]
+        public void Setup()
+        {
+            _duplicates = Substitute.For<IDuplicateDetectionService>();
+        }
+
+        private static async Task<T> InvokeAsync<T>(string name, params object[] args)
+        {
+            var method = typeof(DuplicateEndpoints).GetMethod(name, BindingFlags.NonPublic | BindingFlags.Static);
+            return await (Task<T>)method!.Invoke(null, [.. args, CancellationToken.None])!;
+        }
+
+        #region ScanForDuplicates Tests
+
+        [Test]
+        public async Task ScanForDuplicates_HashesNextBatchAfterCursor()
+        {
+            // Arrange
+            var scan = new DuplicateScanResult { Processed = 3, Remaining = 7, LastPhotoId = 40 };
+            _duplicates.IndexPhotosAsync(12, DuplicateDetectionService.ScanBatchSize, Arg.Any<CancellationToken>())
+                .Returns(scan);
+
+            // Act
+            var result = await InvokeAsync<Ok<DuplicateScanResult>>("ScanForDuplicates", _duplicates, 12L);
+
+            // Assert
+            await Assert.That(result.Value).IsEqualTo(scan);
+        }
+
+        #endregion
+
+        #region ResolveDuplicates Tests
+
+        [Test]
+        public async Task ResolveDuplicates_ReturnsBadRequest_WhenKeptPhotoIsAlsoDeleted()
+        {
+            // Arrange
+            var request = new ResolveDuplicatesRequest { KeepPhotoId = 1, DeletePhotoIds = [1, 2] };
+
+            // Act
+            var result = await InvokeAsync<Results<Ok<ResolveDuplicatesResult>, BadRequest<ApiError>, NotFound<ApiError>>>(
+                "ResolveDuplicates", request, _duplicates);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            await Assert.That(((BadRequest<ApiError>)result.Result).Value!.Code).IsEqualTo("INVALID_SELECTION");
+            await _duplicates.DidNotReceive().ResolveDuplicatesAsync(
+                Arg.Any<long>(), Arg.Any<IReadOnlyCollection<long>>(), Arg.Any<CancellationToken>());
+        }
+
+        [Test]
+        public async Task ResolveDuplicates_ReturnsBadRequest_WhenNothingToDelete()
+        {
+            var request = new ResolveDuplicatesRequest { KeepPhotoId = 1, DeletePhotoIds = [] };
+
+            var result = await InvokeAsync<Results<Ok<ResolveDuplicatesResult>, BadRequest<ApiError>, NotFound<ApiError>>>(
+                "ResolveDuplicates", request, _duplicates);
+
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            await Assert.That(((BadRequest<ApiError>)result.Result).Value!.Code).IsEqualTo("NO_PHOTOS");
+        }
+
+        [Test]
+        public async Task ResolveDuplicates_ReturnsNotFound_WhenKeptPhotoMissing()
+        {
+            var request = new ResolveDuplicatesRequest { KeepPhotoId = 99, DeletePhotoIds = [2] };
+            _duplicates.ResolveDuplicatesAsync(99, Arg.Any<IReadOnlyCollection<long>>(), Arg.Any<CancellationToken>())
+                .Returns((ResolveDuplicatesResult?)null);
+
+            var result = await InvokeAsync<Results<Ok<ResolveDuplicatesResult>, BadRequest<ApiError>, NotFound<ApiError>>>(
+                "ResolveDuplicates", request, _duplicates);
+
+            await Assert.That(result.Result).IsTypeOf<NotFound<ApiError>>();
+        }
+
+        [Test]
+        public async Task ResolveDuplicates_ReturnsBadRequest_WhenPhotosAreNotDuplicates()
+        {
+            var request = new ResolveDuplicatesRequest { KeepPhotoId = 1, DeletePhotoIds = [2, 3] };
+            _duplicates.When(x => x.ResolveDuplicatesAsync(1, Arg.Any<IReadOnlyCollection<long>>(), Arg.Any<CancellationToken>()))
+                .Do(x => throw new InvalidOperationException("Photos 3 are not duplicates of photo 1"));
+
+            var result = await InvokeAsync<Results<Ok<ResolveDuplicatesResult>, BadRequest<ApiError>, NotFound<ApiError>>>(
+                "ResolveDuplicates", request, _duplicates);
+
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            await Assert.That(((BadRequest<ApiError>)result.Result).Value!.Code).IsEqualTo("NOT_DUPLICATES");
+        }
+
+        [Test]
+        public async Task ResolveDuplicates_ReturnsResult_WhenResolved()
+        {
+            var request = new ResolveDuplicatesRequest { KeepPhotoId = 1, DeletePhotoIds = [2, 3] };
+            var resolved = new ResolveDuplicatesResult { KeptPhotoId = 1, DeletedCount = 2 };
+            _duplicates.ResolveDuplicatesAsync(1, Arg.Any<IReadOnlyCollection<long>>(), Arg.Any<CancellationToken>())
+                .Returns(resolved);
+
+            var result = await InvokeAsync<Results<Ok<ResolveDuplicatesResult>, BadRequest<ApiError>, NotFound<ApiError>>>(
+                "ResolveDuplicates", request, _duplicates);
+
+            await Assert.That(result.Result).IsTypeOf<Ok<ResolveDuplicatesResult>>();
+            await Assert.That(((Ok<ResolveDuplicatesResult>)result.Result).Value).IsEqualTo(resolved);
+        }
+
+        #endregion
+    }
+}
@@ -31,6 +31,7 @@ namespace LibraFoto.Tests.Modules.Storage.Endpoints
         private IImageImportService _imageImport = null!;
         private IConfiguration _config = null!;
         private IStorageProvider _mockProvider = null!;
+        private IUploadSessionService _uploadSessions = null!;
 
         [Before(Test)]
         public async Task Setup()
@@ -86,6 +87,7 @@ namespace LibraFoto.Tests.Modules.Storage.Endpoints
                 ["Storage:MaxImportDimension"] = "2560"
             };
             _config = new ConfigurationBuilder().AddInMemoryCollection(inMemorySettings!).Build();
+            _uploadSessions = new UploadSessionService(_config, NullLogger<UploadSessionService>.Instance);
         }
 
         [After(Test)]
@@ -831,6 +833,324 @@ namespace LibraFoto.Tests.Modules.Storage.Endpoints
 
         #endregion
 
+        #region Upload Session Tests
+
+        [Test]
+        public async Task CreateUploadSession_ReturnsError_WhenUnsupportedFileType()
+        {
+            // Arrange
+            _mediaScanner.IsSupportedMediaFile("notes.txt").Returns(false);
+            var request = new CreateUploadSessionRequest { FileName = "notes.txt", FileSize = 1000 };
+
+            // Act
+            var result = await UploadEndpointsTestHelper.CreateUploadSession(request, _uploadSessions, _mediaScanner);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            var badRequest = (BadRequest<ApiError>)result.Result;
+            await Assert.That(badRequest.Value!.Code).IsEqualTo("UNSUPPORTED_TYPE");
+        }
+
+        [Test]
+        public async Task CreateUploadSession_ReturnsError_WhenFileTooLarge()
+        {
+            // Arrange
+            _mediaScanner.IsSupportedMediaFile("huge.mp4").Returns(true);
+            var request = new CreateUploadSessionRequest
+            {
+                FileName = "huge.mp4",
+                FileSize = UploadSessionService.MaxSessionFileSize + 1
+            };
+
+            // Act
+            var result = await UploadEndpointsTestHelper.CreateUploadSession(request, _uploadSessions, _mediaScanner);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            var badRequest = (BadRequest<ApiError>)result.Result;
+            await Assert.That(badRequest.Value!.Code).IsEqualTo("FILE_TOO_LARGE");
+        }
+
+        [Test]
+        public async Task UploadChunk_ReturnsConflict_WhenOffsetDoesNotMatch()
+        {
+            // Arrange
+            var session = await _uploadSessions.CreateSessionAsync(
+                new CreateUploadSessionRequest { FileName = "video.mp4", FileSize = 8 });
+
+            // Act
+            var result = await UploadEndpointsTestHelper.UploadChunk(session.Id, 4, new byte[4], _uploadSessions);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<Conflict<ApiError>>();
+            var conflict = (Conflict<ApiError>)result.Result;
+            await Assert.That(conflict.Value!.Code).IsEqualTo("CHUNK_REJECTED");
+        }
+
+        [Test]
+        public async Task UploadChunk_ReturnsNotFound_WhenSessionDoesNotExist()
+        {
+            // Act
+            var result = await UploadEndpointsTestHelper.UploadChunk(
+                Guid.NewGuid().ToString("N"), 0, new byte[4], _uploadSessions);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<NotFound<ApiError>>();
+        }
+
+        [Test]
+        public async Task CompleteUploadSession_ReturnsConflict_WhenUploadIncomplete()
+        {
+            // Arrange
+            var session = await _uploadSessions.CreateSessionAsync(
+                new CreateUploadSessionRequest { FileName = "video.mp4", FileSize = 8 });
+            await UploadEndpointsTestHelper.UploadChunk(session.Id, 0, new byte[4], _uploadSessions);
+
+            // Act
+            var result = await UploadEndpointsTestHelper.CompleteUploadSession(
+                session.Id, _uploadSessions, _providerFactory, _mediaScanner, _imageImport,
+                _config, _db, NullLogger<object>.Instance);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<Conflict<ApiError>>();
+            var conflict = (Conflict<ApiError>)result.Result;
+            await Assert.That(conflict.Value!.Code).IsEqualTo("INCOMPLETE_UPLOAD");
+        }
+
+        [Test]
+        [NotInParallel]
+        public async Task CompleteUploadSession_ImportsChunkedVideo_AndRemovesSession()
+        {
+            // Arrange
+            var album = new Album { Name = "Holiday" };
+            _db.Albums.Add(album);
+            await _db.SaveChangesAsync();
+
+            _mediaScanner.IsSupportedMediaFile("video.mp4").Returns(true);
+            _mediaScanner.IsSupportedImage("video.mp4").Returns(false);
+
+            var created = await UploadEndpointsTestHelper.CreateUploadSession(
+                new CreateUploadSessionRequest
+                {
+                    FileName = "video.mp4",
+                    FileSize = 6,
+                    ContentType = "video/mp4",
+                    AlbumId = album.Id
+                },
+                _uploadSessions, _mediaScanner);
+            var session = ((Created<UploadSessionDto>)created.Result).Value!;
+
+            await UploadEndpointsTestHelper.UploadChunk(session.Id, 0, [1, 2, 3], _uploadSessions);
+            await UploadEndpointsTestHelper.UploadChunk(session.Id, 3, [4, 5, 6], _uploadSessions);
+
+            // Act
+            var result = await UploadEndpointsTestHelper.CompleteUploadSession(
+                session.Id, _uploadSessions, _providerFactory, _mediaScanner, _imageImport,
+                _config, _db, NullLogger<object>.Instance);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<Ok<UploadResult>>();
+            var upload = ((Ok<UploadResult>)result.Result).Value!;
+            await Assert.That(upload.Success).IsTrue();
+            await Assert.That(upload.ContentType).IsEqualTo("video/mp4");
+
+            var photo = await _db.Photos.FindAsync(upload.PhotoId);
+            await Assert.That(photo!.MediaType).IsEqualTo(MediaType.Video);
+            await Assert.That(photo.OriginalFilename).IsEqualTo("video.mp4");
+
+            var storedPath = Path.Combine(_config["Storage:LocalPath"]!, upload.FilePath!);
+            await Assert.That(await File.ReadAllBytesAsync(storedPath)).IsEquivalentTo(new byte[] { 1, 2, 3, 4, 5, 6 });
+
+            var inAlbum = await _db.PhotoAlbums.AnyAsync(pa => pa.PhotoId == photo.Id && pa.AlbumId == album.Id);
+            await Assert.That(inAlbum).IsTrue();
+            await Assert.That(await _uploadSessions.GetSessionAsync(session.Id)).IsNull();
+        }
+
+        [Test]
+        public async Task CancelUploadSession_RemovesSession()
+        {
+            // Arrange
+            var session = await _uploadSessions.CreateSessionAsync(
+                new CreateUploadSessionRequest { FileName = "video.mp4", FileSize = 8 });
+
+            // Act
+            var result = await UploadEndpointsTestHelper.CancelUploadSession(session.Id, _uploadSessions);
+            var again = await UploadEndpointsTestHelper.CancelUploadSession(session.Id, _uploadSessions);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<NoContent>();
+            await Assert.That(again.Result).IsTypeOf<NotFound<ApiError>>();
+        }
+
+        #endregion
+
+        #region Duplicate Detection Tests
+
+        [Test]
+        public async Task UploadFile_StoresContentHashOfOriginalFile()
+        {
+            // Arrange
+            var file = CreateMockFile("clip.mp4", 16);
+            _mediaScanner.IsSupportedMediaFile("clip.mp4").Returns(true);
+            _mediaScanner.IsSupportedImage("clip.mp4").Returns(false);
+
+            // Act
+            var result = await UploadEndpointsTestHelper.UploadFile(
+                file, null, _providerFactory, _mediaScanner, _imageImport,
+                _config, _db, NullLogger<object>.Instance);
+
+            // Assert
+            var upload = ((Ok<UploadResult>)result.Result).Value!;
+            var photo = await _db.Photos.FindAsync(upload.PhotoId);
+            var expected = Convert.ToHexStringLower(System.Security.Cryptography.SHA256.HashData(new byte[16]));
+            await Assert.That(photo!.ContentHash).IsEqualTo(expected);
+        }
+
+        [Test]
+        public async Task UploadFile_KeepsBothCopies_WithoutOverwrite()
+        {
+            // Arrange
+            _mediaScanner.IsSupportedMediaFile("clip.mp4").Returns(true);
+            _mediaScanner.IsSupportedImage("clip.mp4").Returns(false);
+
+            // Act
+            await UploadEndpointsTestHelper.UploadFile(
+                CreateMockFile("clip.mp4", 16), null, _providerFactory, _mediaScanner, _imageImport,
+                _config, _db, NullLogger<object>.Instance);
+            await UploadEndpointsTestHelper.UploadFile(
+                CreateMockFile("clip.mp4", 16), null, _providerFactory, _mediaScanner, _imageImport,
+                _config, _db, NullLogger<object>.Instance);
+
+            // Assert
+            await Assert.That(await _db.Photos.CountAsync()).IsEqualTo(2);
+        }
+
+        [Test]
+        [NotInParallel]
+        public async Task UploadFile_WithOverwrite_ReplacesDuplicateAndKeepsItsAlbums()
+        {
+            // Arrange
+            var album = new Album { Name = "Holiday" };
+            _db.Albums.Add(album);
+            await _db.SaveChangesAsync();
+
+            _mediaScanner.IsSupportedMediaFile("clip.mp4").Returns(true);
+            _mediaScanner.IsSupportedImage("clip.mp4").Returns(false);
+
+            var first = await UploadEndpointsTestHelper.UploadFile(
+                CreateMockFile("clip.mp4", 16), album.Id, _providerFactory, _mediaScanner, _imageImport,
+                _config, _db, NullLogger<object>.Instance);
+            var original = ((Ok<UploadResult>)first.Result).Value!;
+            var originalPath = Path.Combine(_config["Storage:LocalPath"]!, original.FilePath!);
+
+            // Act
+            var second = await UploadEndpointsTestHelper.UploadFile(
+                CreateMockFile("clip.mp4", 16), null, _providerFactory, _mediaScanner, _imageImport,
+                _config, _db, NullLogger<object>.Instance, overwrite: true);
+
+            // Assert
+            var replacement = ((Ok<UploadResult>)second.Result).Value!;
+            var photoIds = await _db.Photos.Select(p => p.Id).ToListAsync();
+            await Assert.That(photoIds).IsEquivalentTo(new[] { replacement.PhotoId!.Value });
+            await Assert.That(File.Exists(originalPath)).IsFalse();
+
+            var inAlbum = await _db.PhotoAlbums.AnyAsync(pa => pa.PhotoId == replacement.PhotoId && pa.AlbumId == album.Id);
+            await Assert.That(inAlbum).IsTrue();
+        }
+
+        [Test]
+        public async Task CheckDuplicates_ReturnsHashesAlreadyInLibrary()
+        {
+            // Arrange
+            var existingHash = new string('a', 64);
+            var photo = new Photo
+            {
+                Filename = "1.jpg",
+                OriginalFilename = "beach.jpg",
+                FilePath = "media/1.jpg",
+                ContentHash = existingHash
+            };
+            _db.Photos.Add(photo);
+            await _db.SaveChangesAsync();
+
+            var duplicates = new DuplicateDetectionService(_db, _config, NullLogger<DuplicateDetectionService>.Instance);
+            var request = new DuplicateCheckRequest { Hashes = [existingHash.ToUpperInvariant(), new string('b', 64)] };
+
+            // Act
+            var result = await UploadEndpointsTestHelper.CheckDuplicates(request, duplicates);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<Ok<DuplicateCheckResult>>();
+            var check = ((Ok<DuplicateCheckResult>)result.Result).Value!;
+            await Assert.That(check.ExistingHashes).IsEquivalentTo(new[] { existingHash });
+        }
+
+        [Test]
+        public async Task CheckDuplicates_ReturnsBadRequest_WhenTooManyHashes()
+        {
+            // Arrange
+            var duplicates = new DuplicateDetectionService(_db, _config, NullLogger<DuplicateDetectionService>.Instance);
+            var request = new DuplicateCheckRequest
+            {
+                Hashes = Enumerable.Repeat(new string('a', 64), DuplicateDetectionService.MaxHashesPerCheck + 1).ToList()
+            };
+
+            // Act
+            var result = await UploadEndpointsTestHelper.CheckDuplicates(request, duplicates);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<BadRequest<ApiError>>();
+            var badRequest = (BadRequest<ApiError>)result.Result;
+            await Assert.That(badRequest.Value!.Code).IsEqualTo("TOO_MANY_HASHES");
+        }
+
+        [Test]
+        public async Task GuestCheckDuplicates_ReturnsNotFound_WhenLinkDoesNotExist()
+        {
+            // Arrange
+            var duplicates = new DuplicateDetectionService(_db, _config, NullLogger<DuplicateDetectionService>.Instance);
+            var request = new DuplicateCheckRequest { Hashes = [new string('a', 64)] };
+
+            // Act
+            var result = await UploadEndpointsTestHelper.GuestCheckDuplicates("missing", request, duplicates, _db);
+
+            // Assert
+            await Assert.That(result.Result).IsTypeOf<NotFound<ApiError>>();
+        }
+
+        [Test]
+        public async Task GuestCheckDuplicates_ReturnsExistingHashes_ForValidLink()
+        {
+            // Arrange
+            var existingHash = new string('c', 64);
+            _db.Photos.Add(new Photo
+            {
+                Filename = "1.jpg",
+                OriginalFilename = "party.jpg",
+                FilePath = "media/1.jpg",
+                ContentHash = existingHash
+            });
+            _db.GuestLinks.Add(new GuestLink
+            {
+                Id = "valid",
+                Name = "Valid Link",
+                CreatedById = 1
+            });
+            await _db.SaveChangesAsync();
+
+            var duplicates = new DuplicateDetectionService(_db, _config, NullLogger<DuplicateDetectionService>.Instance);
+            var request = new DuplicateCheckRequest { Hashes = [existingHash] };
+
+            // Act
+            var result = await UploadEndpointsTestHelper.GuestCheckDuplicates("valid", request, duplicates, _db);
+
+            // Assert
+            var check = ((Ok<DuplicateCheckResult>)result.Result).Value!;
+            await Assert.That(check.ExistingHashes).IsEquivalentTo(new[] { existingHash });
+        }
+
+        #endregion
+
         #region Security Tests
 
         [Test]
@@ -926,14 +1246,16 @@ namespace LibraFoto.Tests.Modules.Storage.Endpoints
             IImageImportService imageImport,
             IConfiguration configuration,
             LibraFotoDbContext dbContext,
-            Microsoft.Extensions.Logging.ILogger<object> logger)
+            Microsoft.Extensions.Logging.ILogger<object> logger,
+            bool? overwrite = null)
         {
             var method = typeof(UploadEndpoints)
                 .GetMethod("UploadFile", BindingFlags.NonPublic | BindingFlags.Static);
 
             var result = method!.Invoke(null, new object?[]
             {
-                file, albumId, providerFactory, mediaScanner, imageImport,
+                file, albumId, overwrite, providerFactory, mediaScanner, imageImport,
+                CreateDuplicateDetection(dbContext, configuration),
                 configuration, dbContext, logger, CancellationToken.None
             });
 
@@ -948,14 +1270,16 @@ namespace LibraFoto.Tests.Modules.Storage.Endpoints
             IImageImportService imageImport,
             IConfiguration configuration,
             LibraFotoDbContext dbContext,
-            Microsoft.Extensions.Logging.ILogger<object> logger)
+            Microsoft.Extensions.Logging.ILogger<object> logger,
+            bool? overwrite = null)
         {
             var method = typeof(UploadEndpoints)
                 .GetMethod("UploadBatch", BindingFlags.NonPublic | BindingFlags.Static);
 
             var result = method!.Invoke(null, new object?[]
             {
-                files, albumId, providerFactory, mediaScanner, imageImport,
+                files, albumId, overwrite, providerFactory, mediaScanner, imageImport,
+                CreateDuplicateDetection(dbContext, configuration),
                 configuration, dbContext, logger, CancellationToken.None
             });
 
@@ -978,6 +1302,7 @@ namespace LibraFoto.Tests.Modules.Storage.Endpoints
             var result = method!.Invoke(null, new object?[]
             {
                 linkId, files, providerFactory, mediaScanner, imageImport,
+                CreateDuplicateDetection(dbContext, configuration),
                 configuration, dbContext, logger, CancellationToken.None
             });
 
@@ -1000,7 +1325,116 @@ namespace LibraFoto.Tests.Modules.Storage.Endpoints
 
             return await (Task<Results<FileStreamHttpResult, NotFound<ApiError>>>)result!;
         }
-    }
-}
 
+        public static async Task<Results<Created<UploadSessionDto>, BadRequest<ApiError>>> CreateUploadSession(
+            CreateUploadSessionRequest request,
+            IUploadSessionService uploadSessions,
+            IMediaScannerService mediaScanner)
+        {
+            var method = typeof(UploadEndpoints)
+                .GetMethod("CreateUploadSession", BindingFlags.NonPublic | BindingFlags.Static);
 
+            var result = method!.Invoke(null, new object[]
+            {
+                request, uploadSessions, mediaScanner, CancellationToken.None
+            });
+
+            return await (Task<Results<Created<UploadSessionDto>, BadRequest<ApiError>>>)result!;
+        }
+
+        public static async Task<Results<Ok<UploadSessionDto>, NotFound<ApiError>, Conflict<ApiError>>> UploadChunk(
+            string sessionId,
+            long offset,
+            byte[] chunk,
+            IUploadSessionService uploadSessions)
+        {
+            var method = typeof(UploadEndpoints)
+                .GetMethod("UploadChunk", BindingFlags.NonPublic | BindingFlags.Static);
+
+            var httpContext = new DefaultHttpContext();
+            httpContext.Request.Body = new MemoryStream(chunk);
+
+            var result = method!.Invoke(null, new object[]
+            {
+                sessionId, offset, httpContext.Request, uploadSessions, CancellationToken.None
+            });
+
+            return await (Task<Results<Ok<UploadSessionDto>, NotFound<ApiError>, Conflict<ApiError>>>)result!;
+        }
+
+        public static async Task<Results<Ok<UploadResult>, BadRequest<ApiError>, NotFound<ApiError>, Conflict<ApiError>>> CompleteUploadSession(
+            string sessionId,
+            IUploadSessionService uploadSessions,
+            IStorageProviderFactory providerFactory,
+            IMediaScannerService mediaScanner,
+            IImageImportService imageImport,
+            IConfiguration configuration,
+            LibraFotoDbContext dbContext,
+            Microsoft.Extensions.Logging.ILogger<object> logger)
+        {
+            var method = typeof(UploadEndpoints)
+                .GetMethod("CompleteUploadSession", BindingFlags.NonPublic | BindingFlags.Static);
+
+            var result = method!.Invoke(null, new object[]
+            {
+                sessionId, uploadSessions, providerFactory, mediaScanner, imageImport,
+                CreateDuplicateDetection(dbContext, configuration),
+                configuration, dbContext, logger, CancellationToken.None
+            });
+
+            return await (Task<Results<Ok<UploadResult>, BadRequest<ApiError>, NotFound<ApiError>, Conflict<ApiError>>>)result!;
+        }
+
+        public static async Task<Results<NoContent, NotFound<ApiError>>> CancelUploadSession(
+            string sessionId,
+            IUploadSessionService uploadSessions)
+        {
+            var method = typeof(UploadEndpoints)
+                .GetMethod("CancelUploadSession", BindingFlags.NonPublic | BindingFlags.Static);
+
+            var result = method!.Invoke(null, new object[]
+            {
+                sessionId, uploadSessions, CancellationToken.None
+            });
+
+            return await (Task<Results<NoContent, NotFound<ApiError>>>)result!;
+        }
+
+        public static async Task<Results<Ok<DuplicateCheckResult>, BadRequest<ApiError>>> CheckDuplicates(
+            DuplicateCheckRequest request,
+            IDuplicateDetectionService duplicates)
+        {
+            var method = typeof(UploadEndpoints)
+                .GetMethod("CheckDuplicates", BindingFlags.NonPublic | BindingFlags.Static);
+
+            var result = method!.Invoke(null, new object[]
+            {
+                request, duplicates, CancellationToken.None
+            });
+
+            return await (Task<Results<Ok<DuplicateCheckResult>, BadRequest<ApiError>>>)result!;
+        }
+
+        public static async Task<Results<Ok<DuplicateCheckResult>, BadRequest<ApiError>, NotFound<ApiError>>> GuestCheckDuplicates(
+            string linkId,
+            DuplicateCheckRequest request,
+            IDuplicateDetectionService duplicates,
+            LibraFotoDbContext dbContext)
+        {
+            var method = typeof(UploadEndpoints)
+                .GetMethod("GuestCheckDuplicates", BindingFlags.NonPublic | BindingFlags.Static);
+
+            var result = method!.Invoke(null, new object[]
+            {
+                linkId, request, duplicates, dbContext, CancellationToken.None
+            });
+
+            return await (Task<Results<Ok<DuplicateCheckResult>, BadRequest<ApiError>, NotFound<ApiError>>>)result!;
+        }
+
+        private static DuplicateDetectionService CreateDuplicateDetection(
+            LibraFotoDbContext dbContext,
+            IConfiguration configuration) =>
+            new(dbContext, configuration, NullLogger<DuplicateDetectionService>.Instance);
+    }
+}
@@ -0,0 +1,177 @@
+using LibraFoto.Modules.Storage.Models;
+using LibraFoto.Modules.Storage.Services;
+using LibraFoto.Tests.Helpers;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging.Abstractions;
+using TUnit.Core;
+
+namespace LibraFoto.Tests.Modules.Storage
+{
+    /// <summary>
+    /// Tests for UploadSessionService.
+    /// </summary>
+    public class UploadSessionServiceTests
+    {
+        private string _tempDir = null!;
+        private UploadSessionService _service = null!;
+
+        [Before(Test)]
+        public async Task Setup()
+        {
+            _tempDir = TestHelpers.CreateTempDirectory();
+            var config = new ConfigurationBuilder()
+                .AddInMemoryCollection(new Dictionary<string, string?> { ["Storage:LocalPath"] = _tempDir })
+                .Build();
+            _service = new UploadSessionService(config, NullLogger<UploadSessionService>.Instance);
+            await Task.CompletedTask;
+        }
+
+        [After(Test)]
+        public async Task Cleanup()
+        {
+            TestHelpers.CleanupTempDirectory(_tempDir);
+            await Task.CompletedTask;
+        }
+
+        private Task<UploadSessionDto> CreateSession(long fileSize = 10) =>
+            _service.CreateSessionAsync(new CreateUploadSessionRequest
+            {
+                FileName = "video.mp4",
+                FileSize = fileSize,
+                ContentType = "video/mp4",
+                AlbumId = 3
+            });
+
+        #region CreateSessionAsync Tests
+
+        [Test]
+        public async Task CreateSessionAsync_StoresSessionDetails()
+        {
+            var session = await CreateSession();
+
+            await Assert.That(session.Id).IsNotEmpty();
+            await Assert.That(session.ReceivedBytes).IsEqualTo(0);
+            await Assert.That(session.ChunkSize).IsEqualTo(UploadSessionService.DefaultChunkSize);
+
+            var loaded = await _service.GetSessionAsync(session.Id);
+            await Assert.That(loaded).IsNotNull();
+            await Assert.That(loaded!.FileName).IsEqualTo("video.mp4");
+            await Assert.That(loaded.FileSize).IsEqualTo(10);
+            await Assert.That(loaded.ContentType).IsEqualTo("video/mp4");
+            await Assert.That(loaded.AlbumId).IsEqualTo(3);
+        }
+
+        [Test]
+        public async Task CreateSessionAsync_StripsDirectoriesFromFileName()
+        {
+            var session = await _service.CreateSessionAsync(new CreateUploadSessionRequest
+            {
+                FileName = "../../etc/video.mp4",
+                FileSize = 10
+            });
+
+            await Assert.That(session.FileName).IsEqualTo("video.mp4");
+        }
+
+        [Test]
+        public async Task CreateSessionAsync_RemovesExpiredSessions()
+        {
+            var expired = await CreateSession();
+            var uploadsPath = Path.Combine(_tempDir, ".uploads");
+            var old = DateTime.UtcNow.AddDays(-2);
+            File.SetLastWriteTimeUtc(Path.Combine(uploadsPath, $"{expired.Id}.json"), old);
+            File.SetLastWriteTimeUtc(Path.Combine(uploadsPath, $"{expired.Id}.part"), old);
+
+            await CreateSession();
+
+            await Assert.That(await _service.GetSessionAsync(expired.Id)).IsNull();
+        }
+
+        #endregion
+
+        #region GetSessionAsync Tests
+
+        [Test]
+        public async Task GetSessionAsync_ReturnsNull_WhenSessionDoesNotExist()
+        {
+            await Assert.That(await _service.GetSessionAsync(Guid.NewGuid().ToString("N"))).IsNull();
+        }
+
+        [Test]
+        public async Task GetSessionAsync_ReturnsNull_ForInvalidSessionId()
+        {
+            await Assert.That(await _service.GetSessionAsync("../secrets")).IsNull();
+        }
+
+        #endregion
+
+        #region AppendChunkAsync Tests
+
+        [Test]
+        public async Task AppendChunkAsync_AppendsChunksInOrder()
+        {
+            var session = await CreateSession(6);
+
+            await _service.AppendChunkAsync(session.Id, 0, new MemoryStream([1, 2, 3]));
+            var updated = await _service.AppendChunkAsync(session.Id, 3, new MemoryStream([4, 5, 6]));
+
+            await Assert.That(updated!.ReceivedBytes).IsEqualTo(6);
+            await Assert.That(updated.IsComplete).IsTrue();
+
+            using var content = _service.OpenContent(session.Id);
+            using var buffer = new MemoryStream();
+            await content.CopyToAsync(buffer);
+            await Assert.That(buffer.ToArray()).IsEquivalentTo(new byte[] { 1, 2, 3, 4, 5, 6 });
+        }
+
+        [Test]
+        public async Task AppendChunkAsync_ReturnsNull_WhenSessionDoesNotExist()
+        {
+            var result = await _service.AppendChunkAsync(Guid.NewGuid().ToString("N"), 0, new MemoryStream([1]));
+
+            await Assert.That(result).IsNull();
+        }
+
+        [Test]
+        public async Task AppendChunkAsync_Throws_WhenOffsetDoesNotMatch()
+        {
+            var session = await CreateSession();
+            await _service.AppendChunkAsync(session.Id, 0, new MemoryStream([1, 2]));
+
+            await Assert.ThrowsAsync<InvalidOperationException>(async () =>
+                await _service.AppendChunkAsync(session.Id, 0, new MemoryStream([1, 2])));
+
+            var loaded = await _service.GetSessionAsync(session.Id);
+            await Assert.That(loaded!.ReceivedBytes).IsEqualTo(2);
+        }
+
+        [Test]
+        public async Task AppendChunkAsync_Throws_AndDiscardsChunk_WhenFileSizeExceeded()
+        {
+            var session = await CreateSession(4);
+            await _service.AppendChunkAsync(session.Id, 0, new MemoryStream([1, 2]));
+
+            await Assert.ThrowsAsync<InvalidOperationException>(async () =>
+                await _service.AppendChunkAsync(session.Id, 2, new MemoryStream([3, 4, 5])));
+
+            var loaded = await _service.GetSessionAsync(session.Id);
+            await Assert.That(loaded!.ReceivedBytes).IsEqualTo(2);
+        }
+
+        #endregion
+
+        #region DeleteSessionAsync Tests
+
+        [Test]
+        public async Task DeleteSessionAsync_RemovesSession()
+        {
+            var session = await CreateSession();
+
+            await Assert.That(await _service.DeleteSessionAsync(session.Id)).IsTrue();
+            await Assert.That(await _service.GetSessionAsync(session.Id)).IsNull();
+            await Assert.That(await _service.DeleteSessionAsync(session.Id)).IsFalse();
+        }
+
+        #endregion
+    }
+}